@@ -1,13 +1,15 @@
 'use client';
 
 import React, { useState, useEffect, useMemo, useCallback, Suspense } from 'react';
-import { Calendar, UserCheck } from 'lucide-react';
+import { Calendar, CalendarPlus, UserCheck, X } from 'lucide-react';
 import { useAuth } from '@/lib/hooks/useAuth';
 import { useLanguage } from '@/lib/contexts/LanguageContext';
 import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
 import GuardianPageLayout, { useGuardianPageLayout } from '@/app/components/shared/GuardianPageLayout';
 import { PageHeader } from '@/app/components/shared/PageHeader';
 import EmptyState from '@/app/components/EmptyState';
+import { AbsenceNoticeModal, type AbsenceNoticeFormData } from '@/app/components/attendance/AbsenceNoticeModal';
+import type { AbsenceNotice, Student } from '@/lib/types/attendance';
 
 interface AttendanceRecord {
   id: string;
@@ -35,6 +37,10 @@ function getStatusLabel(status: string, t: any): string {
       return t.attendance_late || 'Late';
     case 'excused':
       return t.attendance_excused || 'Excused';
+    case 'away_sick':
+      return t.attendance_status_away_sick;
+    case 'away_holiday':
+      return t.attendance_status_away_holiday;
     default:
       return t.attendance_not_recorded || 'Not Recorded';
   }
@@ -47,6 +53,8 @@ function getStatusBadgeClass(status: string): string {
     case 'late':
       return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400';
     case 'excused':
+    case 'away_sick':
+    case 'away_holiday':
       return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400';
     default:
       return 'bg-slate-100 text-slate-800 dark:bg-slate-700 dark:text-slate-300';
@@ -78,6 +86,13 @@ function GuardianAttendanceContent() {
   const [selectedDate, setSelectedDate] = useState<string>('');
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 20;
+  const [linkedStudents, setLinkedStudents] = useState<Array<{ id: string; name: string }>>([]);
+  const [notices, setNotices] = useState<AbsenceNotice[]>([]);
+  const [isNoticeModalOpen, setIsNoticeModalOpen] = useState(false);
+  const [submittingNotice, setSubmittingNotice] = useState(false);
+  const [noticeError, setNoticeError] = useState<string | null>(null);
+  const [noticeMessage, setNoticeMessage] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
 
   // Load linked students
   useEffect(() => {
@@ -106,6 +121,57 @@ function GuardianAttendanceContent() {
     loadLinkedStudents();
   }, [guardianId]);
 
+  // Load names of linked students for the absence notice form
+  useEffect(() => {
+    async function loadStudentNames() {
+      if (linkedStudentIds.length === 0) {
+        setLinkedStudents([]);
+        return;
+      }
+
+      try {
+        const response = await fetch(`/api/students`);
+        if (!response.ok) {
+          return;
+        }
+        const data = await response.json();
+        const students = ((data.students || []) as Student[])
+          .filter((s) => linkedStudentIds.includes(s.id))
+          .map((s) => ({
+            id: s.id,
+            name: `${s.users?.first_name || s.first_name || ''} ${s.users?.last_name || s.last_name || ''}`.trim(),
+          }));
+        setLinkedStudents(students);
+      } catch (error) {
+        console.error('Error loading student names:', error);
+      }
+    }
+
+    loadStudentNames();
+  }, [linkedStudentIds]);
+
+  // Load upcoming absence notices
+  useEffect(() => {
+    async function loadNotices() {
+      if (linkedStudentIds.length === 0) {
+        setNotices([]);
+        return;
+      }
+
+      try {
+        const response = await fetch(`/api/attendance/notices?t=${Date.now()}`, { cache: 'no-store' });
+        if (response.ok) {
+          const data = await response.json();
+          setNotices(data.notices || []);
+        }
+      } catch (error) {
+        console.error('Error loading absence notices:', error);
+      }
+    }
+
+    loadNotices();
+  }, [linkedStudentIds, refreshKey]);
+
   // Load attendance data
   useEffect(() => {
     async function loadAttendance() {
@@ -167,7 +233,7 @@ function GuardianAttendanceContent() {
     }
 
     loadAttendance();
-  }, [orgId, linkedStudentIds, selectedDate]);
+  }, [orgId, linkedStudentIds, selectedDate, refreshKey]);
 
   // Reset to page 1 when date filter changes
   useEffect(() => {
@@ -207,6 +273,49 @@ function GuardianAttendanceContent() {
     setCurrentPage(page);
   }, []);
 
+  // Absence notice handlers
+  const handleSubmitNotice = useCallback(async (data: AbsenceNoticeFormData) => {
+    setSubmittingNotice(true);
+    setNoticeError(null);
+    try {
+      const response = await fetch('/api/attendance/notices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || t.absence_notice_failed);
+      }
+      setIsNoticeModalOpen(false);
+      setNoticeMessage(t.absence_notice_sent);
+      setRefreshKey((key) => key + 1);
+    } catch (error: unknown) {
+      setNoticeError(error instanceof Error && error.message ? error.message : t.absence_notice_failed);
+    } finally {
+      setSubmittingNotice(false);
+    }
+  }, [t]);
+
+  const handleCancelNotice = useCallback(async (noticeId: string) => {
+    setNoticeMessage(null);
+    try {
+      const response = await fetch(`/api/attendance/notices?id=${noticeId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || t.absence_notice_cancel_failed);
+      }
+      setRefreshKey((key) => key + 1);
+    } catch (error: unknown) {
+      setError(error instanceof Error && error.message ? error.message : t.absence_notice_cancel_failed);
+    }
+  }, [t]);
+
+  const studentNameById = useMemo(
+    () => new Map(linkedStudents.map((student) => [student.id, student.name])),
+    [linkedStudents],
+  );
+
   return (
     <>
       <PageHeader
@@ -217,6 +326,18 @@ function GuardianAttendanceContent() {
         onMobileMenuClick={() => sidebarRef.current?.open()}
         rightActions={
           <div className="flex items-center gap-2">
+            {linkedStudentIds.length > 0 && (
+              <button
+                onClick={() => {
+                  setNoticeError(null);
+                  setIsNoticeModalOpen(true);
+                }}
+                className="inline-flex items-center gap-2 rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small text-white hover:bg-mint-600 transition-colors whitespace-nowrap"
+              >
+                <CalendarPlus className="h-4 w-4" />
+                {t.absence_notice_report}
+              </button>
+            )}
             <Calendar className="h-5 w-5 text-mint-600 dark:text-slate-400" />
             <input
               type="date"
@@ -243,6 +364,47 @@ function GuardianAttendanceContent() {
         </div>
       )}
 
+      {noticeMessage && (
+        <div className="mb-4 rounded-ds-md bg-mint-50 border border-mint-200 px-4 py-3 text-ds-small text-mint-700 dark:bg-mint-900/20 dark:border-mint-800 dark:text-mint-300">
+          {noticeMessage}
+        </div>
+      )}
+
+      {/* Reported absences */}
+      {notices.length > 0 && (
+        <div className="mb-ds-sm rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+          <h2 className="mb-3 text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">
+            {t.absence_notice_upcoming}
+          </h2>
+          <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+            {notices.map((notice) => (
+              <li key={notice.id} className="flex items-center justify-between gap-4 py-2">
+                <div className="text-ds-small text-slate-700 dark:text-slate-300">
+                  <span className="font-medium text-slate-900 dark:text-slate-100">
+                    {studentNameById.get(notice.student_id) || t.unknown_student}
+                  </span>
+                  {' · '}
+                  {notice.kind === 'sick' ? t.absence_notice_kind_sick : t.absence_notice_kind_holiday}
+                  {' · '}
+                  {formatDate(notice.start_date, lang)}
+                  {notice.end_date !== notice.start_date && ` – ${formatDate(notice.end_date, lang)}`}
+                  {notice.note && (
+                    <span className="block text-ds-tiny text-slate-500 dark:text-slate-400">{notice.note}</span>
+                  )}
+                </div>
+                <button
+                  onClick={() => handleCancelNotice(notice.id)}
+                  className="inline-flex items-center gap-1 rounded-ds-md border border-slate-300 px-3 py-1.5 text-ds-tiny hover:bg-red-50 hover:text-red-700 transition-colors dark:border-slate-600 dark:text-slate-200 dark:hover:bg-slate-700 whitespace-nowrap"
+                >
+                  <X className="h-3.5 w-3.5" />
+                  {t.absence_notice_cancel}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* No linked students message */}
       {!loadingAttendance && attendance.length === 0 && !error && linkedStudentIds.length === 0 && (
         <div className="mb-4 rounded-ds-md bg-yellow-50 border border-yellow-200 px-4 py-3 text-ds-small text-yellow-700 dark:bg-yellow-900/20 dark:border-yellow-800 dark:text-yellow-400">
@@ -356,6 +518,18 @@ function GuardianAttendanceContent() {
           </>
         )}
       </div>
+
+      {/* Mounted only while open so the form starts fresh each time */}
+      {isNoticeModalOpen && (
+        <AbsenceNoticeModal
+          isOpen={isNoticeModalOpen}
+          onClose={() => setIsNoticeModalOpen(false)}
+          onSubmit={handleSubmitNotice}
+          students={linkedStudents}
+          loading={submittingNotice}
+          error={noticeError}
+        />
+      )}
     </>
   );
 }
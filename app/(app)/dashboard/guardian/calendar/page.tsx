@@ -8,6 +8,7 @@ import { PageHeader } from '@/app/components/shared/PageHeader';
 import GuardianPageLayout, { useGuardianPageLayout } from '@/app/components/shared/GuardianPageLayout';
 import { getEvents } from '@/lib/server-actions';
 import { useAuth } from '@/lib/hooks/useAuth';
+import { useClosureDays } from '@/lib/hooks/useClosureDays';
 import { useLanguage } from '@/lib/contexts/LanguageContext';
 import EmptyState from '@/app/components/EmptyState';
 
@@ -20,6 +21,7 @@ function GuardianCalendarContent() {
   const [loadingEvents, setLoadingEvents] = useState(false);
   const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
   const [showEventDetails, setShowEventDetails] = useState(false);
+  const { closures } = useClosureDays({ enabled: Boolean(session?.user?.id) });
 
   const loadCalendarEvents = useCallback(async () => {
     if (!session?.user?.id) return;
@@ -87,7 +89,7 @@ function GuardianCalendarContent() {
             </div>
           </div>
         </div>
-      ) : !loadingEvents && calendarEvents.length === 0 ? (
+      ) : !loadingEvents && calendarEvents.length === 0 && closures.length === 0 ? (
         <div className="rounded-ds-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-ds-card p-12">
           <EmptyState
             icon={Calendar}
@@ -101,6 +103,7 @@ function GuardianCalendarContent() {
             userRole="guardian"
             canEdit={false}
             events={calendarEvents}
+            closures={closures}
             onEventClick={(event) => {
               setSelectedEvent(event);
               setShowEventDetails(true);
@@ -7,6 +7,8 @@ import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton'
 import GuardianPageLayout, { useGuardianPageLayout } from '@/app/components/shared/GuardianPageLayout';
 import { PageHeader } from '@/app/components/shared/PageHeader';
 import EmptyState from '@/app/components/EmptyState';
+import { TemperatureTrend } from '@/app/components/students/TemperatureTrend';
+import { DailyCareSummary } from '@/app/components/students/DailyCareSummary';
 import type { HealthLogWithRelations } from '@/lib/types/health-logs';
 
 const HEALTH_LOG_TYPE_LABELS: Record<string, { en: string; is: string }> = {
@@ -107,6 +109,18 @@ function GuardianDiapersContent() {
     return { totalPages: total, paginatedLogs: paginated };
   }, [healthLogs, currentPage, itemsPerPage]);
 
+  // Children with temperature readings get a trend chart on the temperature filter
+  const temperatureStudents = useMemo(() => {
+    if (selectedFilterType !== 'temperature') return [];
+    const seen = new Map<string, string>();
+    for (const log of healthLogs) {
+      if (!seen.has(log.student_id)) {
+        seen.set(log.student_id, getStudentName(log));
+      }
+    }
+    return [...seen.entries()].map(([id, name]) => ({ id, name }));
+  }, [healthLogs, selectedFilterType]);
+
   // Filter change handler
   const handleFilterChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
     setSelectedFilterType(e.target.value);
@@ -157,6 +171,24 @@ function GuardianDiapersContent() {
         </div>
       )}
 
+      {selectedFilterType === 'all' && (
+        <div className="mb-3 sm:mb-4">
+          <DailyCareSummary />
+        </div>
+      )}
+
+      {temperatureStudents.length > 0 && (
+        <div className="mb-3 sm:mb-4 grid gap-3 sm:gap-ds-md md:grid-cols-2">
+          {temperatureStudents.map((student) => (
+            <TemperatureTrend
+              key={student.id}
+              studentId={student.id}
+              studentName={temperatureStudents.length > 1 ? student.name : undefined}
+            />
+          ))}
+        </div>
+      )}
+
       {/* Health Logs Table */}
       <div className="rounded-ds-lg border border-slate-200 bg-white p-3 sm:p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
         {loadingLogs ? (
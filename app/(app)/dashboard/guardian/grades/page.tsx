@@ -0,0 +1,102 @@
+'use client';
+
+import React, { Suspense, useEffect, useState } from 'react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import GuardianPageLayout, { useGuardianPageLayout } from '@/app/components/shared/GuardianPageLayout';
+import { PageHeader } from '@/app/components/shared/PageHeader';
+import StudentResults from '@/app/components/assessments/StudentResults';
+
+function GuardianGradesContent() {
+  const { t } = useLanguage();
+  const { sidebarRef } = useGuardianPageLayout();
+
+  const [students, setStudents] = useState<Array<{ id: string; name: string }>>([]);
+  const [studentId, setStudentId] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const res = await fetch('/api/students', { cache: 'no-store', signal: controller.signal });
+        if (!res.ok) return;
+        const data = await res.json();
+        const linked = (data.students || []).map((s: { id: string; users?: { first_name?: string; last_name?: string } }) => ({
+          id: s.id,
+          name: `${s.users?.first_name ?? ''} ${s.users?.last_name ?? ''}`.trim(),
+        }));
+        setStudents(linked);
+        setStudentId(linked[0]?.id ?? '');
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error('Error loading student names:', err);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, []);
+
+  return (
+    <>
+      <PageHeader
+        title={t.grades_title}
+        subtitle={t.grades_subtitle}
+        headingLevel="h1"
+        showMobileMenu={true}
+        onMobileMenuClick={() => sidebarRef.current?.open()}
+        rightActions={
+          students.length > 1 ? (
+            <select
+              value={studentId}
+              onChange={(e) => setStudentId(e.target.value)}
+              className="rounded-ds-md border border-slate-300 px-3 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200"
+            >
+              {students.map((student) => (
+                <option key={student.id} value={student.id}>
+                  {student.name}
+                </option>
+              ))}
+            </select>
+          ) : undefined
+        }
+      />
+
+      <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+        {loading ? (
+          <LoadingSkeleton type="table" rows={3} className="border-0 p-0" />
+        ) : studentId ? (
+          <StudentResults key={studentId} studentId={studentId} />
+        ) : (
+          <p className="text-ds-small text-slate-600 dark:text-slate-400">{t.grades_no_children}</p>
+        )}
+      </div>
+    </>
+  );
+}
+
+function GuardianGradesPageContent() {
+  return (
+    <GuardianPageLayout>
+      <GuardianGradesContent />
+    </GuardianPageLayout>
+  );
+}
+
+export default function GuardianGradesPage() {
+  return (
+    <Suspense fallback={
+      <GuardianPageLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <LoadingSkeleton type="table" rows={3} />
+        </div>
+      </GuardianPageLayout>
+    }>
+      <GuardianGradesPageContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import React, { Suspense } from 'react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import GuardianPageLayout, { useGuardianPageLayout } from '@/app/components/shared/GuardianPageLayout';
+import { PageHeader } from '@/app/components/shared/PageHeader';
+import { IncidentReportList } from '@/app/components/incidents/IncidentReportList';
+
+function GuardianIncidentsContent() {
+  const { t } = useLanguage();
+  const { sidebarRef } = useGuardianPageLayout();
+
+  return (
+    <>
+      <PageHeader
+        title={t.incident_title}
+        subtitle={t.incident_subtitle_guardian}
+        headingLevel="h1"
+        showMobileMenu={true}
+        onMobileMenuClick={() => sidebarRef.current?.open()}
+      />
+
+      <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+        <IncidentReportList mode="guardian" />
+      </div>
+    </>
+  );
+}
+
+function GuardianIncidentsPageContent() {
+  return (
+    <GuardianPageLayout>
+      <GuardianIncidentsContent />
+    </GuardianPageLayout>
+  );
+}
+
+export default function GuardianIncidentsPage() {
+  return (
+    <Suspense fallback={
+      <GuardianPageLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <LoadingSkeleton type="table" rows={3} />
+        </div>
+      </GuardianPageLayout>
+    }>
+      <GuardianIncidentsPageContent />
+    </Suspense>
+  );
+}
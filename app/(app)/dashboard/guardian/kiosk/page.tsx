@@ -0,0 +1,207 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { LogIn, LogOut, QrCode } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import GuardianPageLayout, { useGuardianPageLayout } from '@/app/components/shared/GuardianPageLayout';
+import { PageHeader } from '@/app/components/shared/PageHeader';
+import EmptyState from '@/app/components/EmptyState';
+import KioskScanner from '@/app/components/kiosk/KioskScanner';
+import type { KioskAction, KioskChild } from '@/lib/types/kiosk';
+
+function formatTime(timestamp: string | null): string {
+  if (!timestamp) return '';
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function GuardianKioskContent() {
+  const { t } = useLanguage();
+  const { sidebarRef } = useGuardianPageLayout();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const code = searchParams.get('code');
+
+  const [children, setChildren] = useState<KioskChild[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [pendingStudentId, setPendingStudentId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadChildren = useCallback(async (kioskCode: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/kiosk/check?code=${encodeURIComponent(kioskCode)}`, { cache: 'no-store' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.kiosk_check_failed);
+      }
+      setChildren(data.children || []);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.kiosk_check_failed);
+      setChildren([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    setMessage(null);
+    if (code) {
+      loadChildren(code);
+    } else {
+      setChildren([]);
+      setError(null);
+    }
+  }, [code, loadChildren]);
+
+  const handleScanned = useCallback((scannedCode: string) => {
+    router.replace(`/dashboard/guardian/kiosk?code=${encodeURIComponent(scannedCode)}`);
+  }, [router]);
+
+  const handleAction = async (child: KioskChild, action: KioskAction) => {
+    if (!code) return;
+    setPendingStudentId(child.student_id);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/kiosk/check', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code, student_id: child.student_id, action }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.kiosk_check_failed);
+      }
+      setMessage(
+        (action === 'check_in' ? t.kiosk_checked_in : t.kiosk_checked_out).replace('{name}', child.first_name),
+      );
+      await loadChildren(code);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.kiosk_check_failed);
+    } finally {
+      setPendingStudentId(null);
+    }
+  };
+
+  const renderStatus = (child: KioskChild) => {
+    if (child.left_at) {
+      return t.kiosk_status_left.replace('{time}', formatTime(child.left_at));
+    }
+    if (child.arrived_at) {
+      return t.kiosk_status_present.replace('{time}', formatTime(child.arrived_at));
+    }
+    return t.kiosk_status_not_arrived;
+  };
+
+  return (
+    <>
+      <PageHeader
+        title={t.kiosk_title}
+        subtitle={t.kiosk_subtitle}
+        headingLevel="h1"
+        showMobileMenu={true}
+        onMobileMenuClick={() => sidebarRef.current?.open()}
+      />
+
+      {error && (
+        <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-4 rounded-ds-md bg-mint-50 border border-mint-200 px-4 py-3 text-ds-small text-mint-700 dark:bg-mint-900/20 dark:border-mint-800 dark:text-mint-300">
+          {message}
+        </div>
+      )}
+
+      <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+        {!code ? (
+          <div className="mx-auto max-w-sm space-y-3">
+            <p className="text-ds-small text-slate-700 dark:text-slate-300">{t.kiosk_scan_hint}</p>
+            <KioskScanner onCode={handleScanned} />
+          </div>
+        ) : loading && children.length === 0 ? (
+          <LoadingSkeleton type="table" rows={3} className="border-0 p-0" />
+        ) : children.length === 0 ? (
+          <div className="space-y-3">
+            <EmptyState
+              icon={QrCode}
+              title={t.kiosk_title}
+              description={error ? t.kiosk_scan_again : t.no_linked_students}
+            />
+            {error && (
+              <div className="text-center">
+                <button
+                  onClick={() => router.replace('/dashboard/guardian/kiosk')}
+                  className="inline-flex items-center gap-2 rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small text-white hover:bg-mint-600 transition-colors"
+                >
+                  <QrCode className="h-4 w-4" />
+                  {t.kiosk_scan_button}
+                </button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+            {children.map((child) => {
+              const isPresent = Boolean(child.arrived_at) && !child.left_at;
+              const isPending = pendingStudentId === child.student_id;
+              return (
+                <li key={child.student_id} className="flex items-center justify-between gap-4 py-3">
+                  <div>
+                    <div className="text-ds-small font-medium text-slate-900 dark:text-slate-100">
+                      {`${child.first_name} ${child.last_name ?? ''}`.trim()}
+                    </div>
+                    <div className="text-ds-tiny text-slate-500 dark:text-slate-400">
+                      {child.class_name ? `${child.class_name} · ` : ''}
+                      {renderStatus(child)}
+                    </div>
+                  </div>
+                  {!child.left_at && (
+                    <button
+                      onClick={() => handleAction(child, isPresent ? 'check_out' : 'check_in')}
+                      disabled={isPending}
+                      className={`inline-flex items-center gap-2 rounded-ds-md px-4 py-2 text-ds-small text-white transition-colors disabled:opacity-50 whitespace-nowrap ${
+                        isPresent ? 'bg-slate-600 hover:bg-slate-700' : 'bg-mint-500 hover:bg-mint-600'
+                      }`}
+                    >
+                      {isPresent ? <LogOut className="h-4 w-4" /> : <LogIn className="h-4 w-4" />}
+                      {isPresent ? t.kiosk_check_out : t.kiosk_check_in}
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+}
+
+function GuardianKioskPageContent() {
+  return (
+    <GuardianPageLayout>
+      <GuardianKioskContent />
+    </GuardianPageLayout>
+  );
+}
+
+export default function GuardianKioskPage() {
+  return (
+    <Suspense fallback={
+      <GuardianPageLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <LoadingSkeleton type="table" rows={3} />
+        </div>
+      </GuardianPageLayout>
+    }>
+      <GuardianKioskPageContent />
+    </Suspense>
+  );
+}
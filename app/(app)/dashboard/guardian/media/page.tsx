@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, Suspense } from 'react';
-import { Image as ImageIcon } from 'lucide-react';
+import { FileText, Image as ImageIcon } from 'lucide-react';
 import { useRequireAuth } from '@/lib/hooks/useAuth';
 import { useLanguage } from '@/lib/contexts/LanguageContext';
 import GuardianPageLayout, { useGuardianPageLayout } from '@/app/components/shared/GuardianPageLayout';
@@ -257,6 +257,26 @@ function GuardianMediaContent() {
         headingLevel="h1"
         showMobileMenu={true}
         onMobileMenuClick={() => sidebarRef.current?.open()}
+        rightActions={
+          linkedStudents.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {linkedStudents.map((student) => (
+                <a
+                  key={student.id}
+                  href={`/api/students/${student.id}/portfolio`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-2 rounded-ds-md border border-slate-300 bg-white px-3 py-2 text-ds-small hover:bg-mint-50 transition-colors dark:border-slate-600 dark:bg-slate-800 dark:text-slate-200 dark:hover:bg-slate-700"
+                >
+                  <FileText className="h-4 w-4" />
+                  {linkedStudents.length > 1
+                    ? t.portfolio_download_for.replace('{name}', student.first_name)
+                    : t.portfolio_download}
+                </a>
+              ))}
+            </div>
+          ) : undefined
+        }
       />
 
       {/* Photos Panel */}
@@ -0,0 +1,223 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, Suspense } from 'react';
+import { Plus, X } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import GuardianPageLayout, { useGuardianPageLayout } from '@/app/components/shared/GuardianPageLayout';
+import { PageHeader } from '@/app/components/shared/PageHeader';
+import { MedicationPlanForm, type MedicationPlanFormData } from '@/app/components/medication/MedicationPlanForm';
+import { MedicationPlanList } from '@/app/components/medication/MedicationPlanList';
+import type { Student } from '@/lib/types/attendance';
+import type { MedicationPlan } from '@/lib/types/medication';
+
+function GuardianMedicationContent() {
+  const { t } = useLanguage();
+  const { sidebarRef } = useGuardianPageLayout();
+
+  const [students, setStudents] = useState<Array<{ id: string; name: string }>>([]);
+  const [plans, setPlans] = useState<MedicationPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const loadPlans = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/medication-plans?t=${Date.now()}`, { cache: 'no-store' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.medication_load_failed);
+      }
+      setPlans(data.plans || []);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.medication_load_failed);
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadPlans();
+  }, [loadPlans]);
+
+  // Load names of linked children for the plan form
+  useEffect(() => {
+    async function loadStudents() {
+      try {
+        const res = await fetch('/api/students', { cache: 'no-store' });
+        if (!res.ok) {
+          return;
+        }
+        const data = await res.json();
+        setStudents(
+          ((data.students || []) as Student[]).map((s) => ({
+            id: s.id,
+            name: `${s.users?.first_name || s.first_name || ''} ${s.users?.last_name || s.last_name || ''}`.trim(),
+          })),
+        );
+      } catch (err) {
+        console.error('Error loading student names:', err);
+      }
+    }
+
+    loadStudents();
+  }, []);
+
+  const handleCreate = async (formData: MedicationPlanFormData) => {
+    setSaving(true);
+    setFormError(null);
+    try {
+      const res = await fetch('/api/medication-plans', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.medication_save_failed);
+      }
+      setIsFormOpen(false);
+      setMessage(t.medication_saved);
+      await loadPlans();
+    } catch (err: unknown) {
+      setFormError(err instanceof Error ? err.message : t.medication_save_failed);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConsent = async (plan: MedicationPlan, decision: 'give' | 'decline', consentName: string) => {
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/medication-plans/consent', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ plan_id: plan.id, decision, consent_name: consentName }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.medication_save_failed);
+      }
+      setMessage(decision === 'give' ? t.medication_consent_given : t.medication_consent_declined);
+      await loadPlans();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.medication_save_failed);
+    }
+  };
+
+  const handleCancelPlan = async (plan: MedicationPlan) => {
+    if (!confirm(t.medication_stop_confirm.replace('{name}', plan.medication_name))) return;
+
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/medication-plans?id=${plan.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || t.medication_save_failed);
+      }
+      await loadPlans();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.medication_save_failed);
+    }
+  };
+
+  return (
+    <>
+      <PageHeader
+        title={t.medication_title}
+        subtitle={t.medication_subtitle}
+        headingLevel="h1"
+        showMobileMenu={true}
+        onMobileMenuClick={() => sidebarRef.current?.open()}
+        rightActions={
+          students.length > 0 && !isFormOpen ? (
+            <button
+              onClick={() => {
+                setFormError(null);
+                setIsFormOpen(true);
+              }}
+              className="inline-flex items-center gap-2 rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small text-white hover:bg-mint-600 transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              {t.medication_add_plan}
+            </button>
+          ) : undefined
+        }
+      />
+
+      {error && (
+        <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-4 rounded-ds-md bg-mint-50 border border-mint-200 px-4 py-3 text-ds-small text-mint-700 dark:bg-mint-900/20 dark:border-mint-800 dark:text-mint-300">
+          {message}
+        </div>
+      )}
+
+      {isFormOpen && (
+        <div className="mb-ds-md rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+          <div className="mb-4 flex items-center justify-between">
+            <h2 className="text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">{t.medication_add_plan}</h2>
+            <button
+              onClick={() => setIsFormOpen(false)}
+              className="rounded-ds-md p-1 hover:bg-mint-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+          <MedicationPlanForm
+            students={students}
+            requireConsent
+            onSubmit={handleCreate}
+            onCancel={() => setIsFormOpen(false)}
+            loading={saving}
+            error={formError}
+          />
+        </div>
+      )}
+
+      <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+        {loading ? (
+          <LoadingSkeleton type="table" rows={3} className="border-0 p-0" />
+        ) : (
+          <MedicationPlanList
+            plans={plans}
+            showStudent={students.length > 1}
+            onConsent={handleConsent}
+            onCancelPlan={handleCancelPlan}
+          />
+        )}
+      </div>
+    </>
+  );
+}
+
+function GuardianMedicationPageContent() {
+  return (
+    <GuardianPageLayout>
+      <GuardianMedicationContent />
+    </GuardianPageLayout>
+  );
+}
+
+export default function GuardianMedicationPage() {
+  return (
+    <Suspense fallback={
+      <GuardianPageLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <LoadingSkeleton type="table" rows={3} />
+        </div>
+      </GuardianPageLayout>
+    }>
+      <GuardianMedicationPageContent />
+    </Suspense>
+  );
+}
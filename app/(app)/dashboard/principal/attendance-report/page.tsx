@@ -0,0 +1,13 @@
+'use client';
+
+import React from 'react';
+import PrincipalPageLayout from '@/app/components/shared/PrincipalPageLayout';
+import AttendanceReport from '@/app/components/attendance/AttendanceReport';
+
+export default function PrincipalAttendanceReportPage() {
+  return (
+    <PrincipalPageLayout>
+      <AttendanceReport backHref="/dashboard/principal" />
+    </PrincipalPageLayout>
+  );
+}
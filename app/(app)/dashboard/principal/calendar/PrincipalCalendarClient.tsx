@@ -9,6 +9,8 @@ import { deleteEvent, getEvents } from '@/lib/server-actions';
 import { useLanguage } from '@/lib/contexts/LanguageContext';
 import { usePrincipalPageLayout } from '@/app/components/shared/PrincipalPageLayout';
 import { PageHeader } from '@/app/components/shared/PageHeader';
+import { ClosureDaysManager } from '@/app/components/attendance/ClosureDaysManager';
+import { useClosureDays } from '@/lib/hooks/useClosureDays';
 
 interface PrincipalCalendarClientProps {
   initialEvents: CalendarEvent[];
@@ -30,6 +32,7 @@ export function PrincipalCalendarClient({
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [eventToDelete, setEventToDelete] = useState<string | null>(null);
   const [isPending, startTransition] = useTransition();
+  const { closures, reload: reloadClosures } = useClosureDays();
 
   const refreshEvents = () => {
     startTransition(async () => {
@@ -73,6 +76,7 @@ export function PrincipalCalendarClient({
           userRole="principal"
           canEdit={true}
           events={calendarEvents}
+          closures={closures}
           classes={classes}
           onEventClick={(event) => {
             setSelectedEvent(event);
@@ -87,6 +91,10 @@ export function PrincipalCalendarClient({
         />
       </div>
 
+      <div className="mt-ds-md">
+        <ClosureDaysManager closures={closures} classes={classes} onChanged={reloadClosures} />
+      </div>
+
       {/* Event Modals */}
       <EventDetailsModal
         isOpen={showEventDetails}
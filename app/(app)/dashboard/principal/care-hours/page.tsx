@@ -0,0 +1,13 @@
+'use client';
+
+import React from 'react';
+import PrincipalPageLayout from '@/app/components/shared/PrincipalPageLayout';
+import CareHoursReport from '@/app/components/attendance/CareHoursReport';
+
+export default function PrincipalCareHoursPage() {
+  return (
+    <PrincipalPageLayout>
+      <CareHoursReport backHref="/dashboard/principal" />
+    </PrincipalPageLayout>
+  );
+}
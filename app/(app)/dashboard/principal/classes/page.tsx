@@ -2,7 +2,7 @@
 
 import { useState, useEffect, Suspense, useCallback } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { Menu, Plus, Eye, CircleCheck as CheckCircle2, Edit, UserPlus, Users, X, Trash2, School } from 'lucide-react';
+import { Menu, Plus, Eye, CircleCheck as CheckCircle2, Edit, UserPlus, Users, X, Trash2, School, GraduationCap } from 'lucide-react';
 
 import PrincipalPageLayout, { usePrincipalPageLayout } from '@/app/components/shared/PrincipalPageLayout';
 import ProfileSwitcher from '@/app/components/ProfileSwitcher';
@@ -295,6 +295,12 @@ function ClassesPageContent() {
         rightActions={
           <div className="flex items-center gap-ds-md">
             <ProfileSwitcher />
+            <button
+              onClick={() => router.push('/dashboard/principal/classes/rollover')}
+              className="inline-flex items-center gap-2 rounded-ds-md border border-slate-300 px-ds-sm py-2 text-ds-small text-slate-700 hover:bg-slate-50 transition-colors dark:border-slate-600 dark:text-slate-300 dark:hover:bg-slate-700"
+            >
+              <GraduationCap className="h-4 w-4" /> {t.class_rollover_button}
+            </button>
             <button
               onClick={openCreateClass}
               className="inline-flex items-center gap-2 rounded-ds-md bg-mint-500 px-ds-sm py-2 text-ds-small text-white hover:bg-mint-600 transition-colors dark:bg-slate-700 dark:hover:bg-slate-600"
@@ -0,0 +1,13 @@
+'use client';
+
+import React from 'react';
+import PrincipalPageLayout from '@/app/components/shared/PrincipalPageLayout';
+import ClassRolloverWizard from '@/app/components/principal/classes/ClassRolloverWizard';
+
+export default function PrincipalClassRolloverPage() {
+  return (
+    <PrincipalPageLayout>
+      <ClassRolloverWizard backHref="/dashboard/principal/classes" />
+    </PrincipalPageLayout>
+  );
+}
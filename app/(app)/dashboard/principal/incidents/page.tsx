@@ -0,0 +1,49 @@
+'use client';
+
+import React, { useState } from 'react';
+import PrincipalPageLayout from '@/app/components/shared/PrincipalPageLayout';
+import { PageHeader } from '@/app/components/shared/PageHeader';
+import { IncidentReportList } from '@/app/components/incidents/IncidentReportList';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import type { IncidentReportStatus } from '@/lib/types/incidents';
+
+function PrincipalIncidentsContent() {
+  const { t } = useLanguage();
+  const [status, setStatus] = useState<IncidentReportStatus | 'all'>('pending_review');
+
+  return (
+    <>
+      <PageHeader
+        title={t.incident_title}
+        subtitle={t.incident_subtitle_principal}
+        headingLevel="h1"
+        showBackButton={true}
+        backHref="/dashboard/principal"
+        rightActions={
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as IncidentReportStatus | 'all')}
+            className="rounded-ds-md border border-slate-300 bg-white px-3 py-2 text-ds-small dark:border-slate-600 dark:bg-slate-800 dark:text-slate-200"
+          >
+            <option value="pending_review">{t.incident_status_pending_review}</option>
+            <option value="sent_to_guardians">{t.incident_status_sent_to_guardians}</option>
+            <option value="acknowledged">{t.incident_status_acknowledged}</option>
+            <option value="all">{t.incident_status_all}</option>
+          </select>
+        }
+      />
+
+      <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+        <IncidentReportList mode="review" status={status === 'all' ? undefined : status} />
+      </div>
+    </>
+  );
+}
+
+export default function PrincipalIncidentsPage() {
+  return (
+    <PrincipalPageLayout>
+      <PrincipalIncidentsContent />
+    </PrincipalPageLayout>
+  );
+}
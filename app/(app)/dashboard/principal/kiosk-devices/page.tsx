@@ -0,0 +1,13 @@
+'use client';
+
+import React from 'react';
+import PrincipalPageLayout from '@/app/components/shared/PrincipalPageLayout';
+import KioskDevicesManager from '@/app/components/kiosk/KioskDevicesManager';
+
+export default function PrincipalKioskDevicesPage() {
+  return (
+    <PrincipalPageLayout>
+      <KioskDevicesManager backHref="/dashboard/principal" />
+    </PrincipalPageLayout>
+  );
+}
@@ -0,0 +1,13 @@
+'use client';
+
+import React from 'react';
+import PrincipalPageLayout from '@/app/components/shared/PrincipalPageLayout';
+import OutbreakMonitor from '@/app/components/outbreaks/OutbreakMonitor';
+
+export default function PrincipalOutbreaksPage() {
+  return (
+    <PrincipalPageLayout>
+      <OutbreakMonitor backHref="/dashboard/principal" />
+    </PrincipalPageLayout>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, useMemo, useCallback, useRef, Suspense } from 'react';
-import { Users, School, ChartBar as BarChart3, Utensils, MessageSquare, Camera, CalendarDays, Shield, Link as LinkIcon, Megaphone, Activity, Building, Settings, Download, Baby, Maximize2, Minimize2, UsersRound, GraduationCap, Layers, Image as ImageIcon, Grid3x3, MapPin } from 'lucide-react';
+import { Users, School, ChartBar as BarChart3, Utensils, MessageSquare, Camera, CalendarDays, Shield, Link as LinkIcon, Megaphone, Activity, Building, Settings, Download, Baby, Maximize2, Minimize2, UsersRound, GraduationCap, Layers, Image as ImageIcon, Grid3x3, MapPin, FileSpreadsheet, Clock, QrCode, Scale, AlertTriangle, Bandage, UserPlus } from 'lucide-react';
 import { useRouter, usePathname } from 'next/navigation';
 import PrincipalPageLayout from '@/app/components/shared/PrincipalPageLayout';
 import { useLanguage } from '@/lib/contexts/LanguageContext';
@@ -9,6 +9,9 @@ import KPICardSkeleton from '@/app/components/loading-skeletons/KPICardSkeleton'
 import SchoolInfoSkeleton from '@/app/components/loading-skeletons/SchoolInfoSkeleton';
 import { useAuth } from '@/lib/hooks/useAuth';
 import type { Organization } from '@/lib/types/orgs';
+import type { StaffRatioReport } from '@/lib/types/staff';
+
+const METRICS_REFRESH_MS = 60_000;
 
 interface PrincipalDashboardContentProps {
   t: any;
@@ -26,6 +29,7 @@ interface PrincipalDashboardContentProps {
     classesCount: number;
     mediaCount: number;
   };
+  staffRatio?: StaffRatioReport | null;
   isEditing?: boolean;
   onEditToggle?: () => void;
 }
@@ -65,6 +69,7 @@ function StatBadge({
 function PrincipalDashboardContent({
   t,
   schoolData,
+  staffRatio,
   isEditing = false,
   onEditToggle,
 }: PrincipalDashboardContentProps) {
@@ -201,6 +206,69 @@ function PrincipalDashboardContent({
       borderColor: 'border-red-500',
       titleColor: 'text-slate-900 dark:text-slate-100',
     },
+    {
+      id: 'attendance_report',
+      title: t.tile_attendance_report || 'Attendance Report',
+      desc: t.tile_attendance_report_desc || 'Monthly summaries and exports',
+      Icon: FileSpreadsheet,
+      route: '/dashboard/principal/attendance-report',
+      borderColor: 'border-green-500',
+      titleColor: 'text-slate-900 dark:text-slate-100',
+    },
+    {
+      id: 'care_hours',
+      title: t.tile_care_hours || 'Hours in Care',
+      desc: t.tile_care_hours_desc || 'Barngildi-weighted hours per class',
+      Icon: Clock,
+      route: '/dashboard/principal/care-hours',
+      borderColor: 'border-teal-500',
+      titleColor: 'text-slate-900 dark:text-slate-100',
+    },
+    {
+      id: 'staff_ratios',
+      title: t.tile_staff_ratios || 'Staffing Ratios',
+      desc: t.tile_staff_ratios_desc || 'Live staff-to-child ratios and history',
+      Icon: Scale,
+      route: '/dashboard/principal/staff-ratios',
+      borderColor: 'border-red-500',
+      titleColor: 'text-slate-900 dark:text-slate-100',
+    },
+    {
+      id: 'incidents',
+      title: t.tile_incidents || 'Incident Reports',
+      desc: t.tile_incidents_desc || 'Review injuries before they go to guardians',
+      Icon: Bandage,
+      route: '/dashboard/principal/incidents',
+      borderColor: 'border-amber-500',
+      titleColor: 'text-slate-900 dark:text-slate-100',
+    },
+    {
+      id: 'outbreaks',
+      title: t.tile_outbreaks || 'Illness Clusters',
+      desc: t.tile_outbreaks_desc || 'Spot outbreaks by class and notify guardians',
+      Icon: Activity,
+      route: '/dashboard/principal/outbreaks',
+      borderColor: 'border-red-500',
+      titleColor: 'text-slate-900 dark:text-slate-100',
+    },
+    {
+      id: 'kiosk_devices',
+      title: t.tile_kiosk_devices || 'Check-in Kiosks',
+      desc: t.tile_kiosk_devices_desc || 'Register entrance tablets for QR check-in',
+      Icon: QrCode,
+      route: '/dashboard/principal/kiosk-devices',
+      borderColor: 'border-cyan-500',
+      titleColor: 'text-slate-900 dark:text-slate-100',
+    },
+    {
+      id: 'student_requests',
+      title: t.tile_student_requests || 'Student Requests',
+      desc: t.tile_student_requests_desc || 'Approve or reject new students requested by teachers',
+      Icon: UserPlus,
+      route: '/dashboard/principal/student-requests',
+      borderColor: 'border-mint-500',
+      titleColor: 'text-slate-900 dark:text-slate-100',
+    },
     {
       id: 'organization_profile',
       title: t.tile_organization_profile || 'Organization Profile',
@@ -220,8 +288,37 @@ function PrincipalDashboardContent({
     return pathname === route;
   };
 
+  const breachedClasses = staffRatio?.classes.filter((ratio) => ratio.is_breach) ?? [];
+
   return (
     <>
+      {/* Staffing ratio warning */}
+      {breachedClasses.length > 0 && (
+        <button
+          onClick={() => handleTileClick('/dashboard/principal/staff-ratios')}
+          className="mb-ds-md flex w-full items-start gap-3 rounded-ds-lg border border-red-200 bg-red-50 p-ds-md text-left transition-colors hover:bg-red-100 dark:border-red-800 dark:bg-red-900/20 dark:hover:bg-red-900/30"
+        >
+          <AlertTriangle className="mt-0.5 h-5 w-5 flex-shrink-0 text-red-600 dark:text-red-400" />
+          <div>
+            <p className="text-ds-small font-semibold text-red-800 dark:text-red-300">
+              {t.staff_ratio_warning_title}
+            </p>
+            <p className="text-ds-small text-red-700 dark:text-red-400">
+              {breachedClasses
+                .map((ratio) =>
+                  ratio.children_per_staff === null
+                    ? t.staff_ratio_warning_no_staff.replace('{class}', ratio.class_name ?? '')
+                    : t.staff_ratio_warning_class
+                        .replace('{class}', ratio.class_name ?? '')
+                        .replace('{ratio}', ratio.children_per_staff.toFixed(1))
+                        .replace('{threshold}', staffRatio!.threshold.toString()),
+                )
+                .join(' · ')}
+            </p>
+          </div>
+        </button>
+      )}
+
       {/* School Information Section */}
       {schoolData ? (
         <section className="mb-ds-lg space-y-6">
@@ -435,6 +532,7 @@ function PrincipalDashboardPageContent() {
   const [studentsCount, setStudentsCount] = useState(0);
   const [staffCount, setStaffCount] = useState(0);
   const [classesCount, setClassesCount] = useState(0);
+  const [staffRatio, setStaffRatio] = useState<StaffRatioReport | null>(null);
 
   // Organization/school data state
   const [organization, setOrganization] = useState<Organization | null>(null);
@@ -588,6 +686,7 @@ function PrincipalDashboardPageContent() {
       setStudentsCount(data.studentsCount || 0);
       setStaffCount(data.staffCount || 0);
       setClassesCount(data.classesCount || 0);
+      setStaffRatio(data.staffRatio ?? null);
     } catch (err: unknown) {
       if (signal.aborted) {
         return;
@@ -608,7 +707,13 @@ function PrincipalDashboardPageContent() {
     void fetchOrganization(abortController.signal);
     void fetchAdditionalCounts(abortController.signal);
 
+    // Keep the staffing ratio warning current while the dashboard stays open
+    const metricsInterval = setInterval(() => {
+      void fetchMetrics(abortController.signal);
+    }, METRICS_REFRESH_MS);
+
     return () => {
+      clearInterval(metricsInterval);
       abortController.abort();
     };
   }, [session?.user?.id, fetchMetrics, fetchOrganization, fetchAdditionalCounts]);
@@ -638,6 +743,7 @@ function PrincipalDashboardPageContent() {
       <PrincipalDashboardContent 
         t={t} 
         schoolData={schoolData}
+        staffRatio={staffRatio}
         isEditing={isEditing}
         onEditToggle={() => setIsEditing(!isEditing)}
       />
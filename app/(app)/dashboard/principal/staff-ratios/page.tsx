@@ -0,0 +1,13 @@
+'use client';
+
+import React from 'react';
+import PrincipalPageLayout from '@/app/components/shared/PrincipalPageLayout';
+import StaffRatioMonitor from '@/app/components/staff/StaffRatioMonitor';
+
+export default function PrincipalStaffRatiosPage() {
+  return (
+    <PrincipalPageLayout>
+      <StaffRatioMonitor backHref="/dashboard/principal" />
+    </PrincipalPageLayout>
+  );
+}
@@ -0,0 +1,13 @@
+'use client';
+
+import React from 'react';
+import PrincipalPageLayout from '@/app/components/shared/PrincipalPageLayout';
+import StudentRequestQueue from '@/app/components/students/StudentRequestQueue';
+
+export default function PrincipalStudentRequestsPage() {
+  return (
+    <PrincipalPageLayout>
+      <StudentRequestQueue backHref="/dashboard/principal" />
+    </PrincipalPageLayout>
+  );
+}
@@ -96,9 +96,10 @@ function AddStudentPageContent() {
                 ? 'icelandic' 
                 : (s.student_language || 'english'),
             social_security_number: s.users?.ssn || s.social_security_number || '',
-            medical_notes: s.medical_notes_encrypted || '',
-            allergies: s.allergies_encrypted || '',
-            emergency_contact: s.emergency_contact_encrypted || '',
+            medical_notes: s.medical_notes || '',
+            allergies: s.allergies || '',
+            allergy_tags: s.allergy_tags ?? [],
+            emergency_contact: s.emergency_contact || '',
             guardian_ids: guardianIds,
           };
           setEditingStudent(mapped);
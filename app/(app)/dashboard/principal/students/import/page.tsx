@@ -0,0 +1,13 @@
+'use client';
+
+import React from 'react';
+import PrincipalPageLayout from '@/app/components/shared/PrincipalPageLayout';
+import StudentImport from '@/app/components/students/StudentImport';
+
+export default function PrincipalStudentImportPage() {
+  return (
+    <PrincipalPageLayout>
+      <StudentImport backHref="/dashboard/principal/students" />
+    </PrincipalPageLayout>
+  );
+}
@@ -2,7 +2,7 @@
 
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { useLanguage } from '@/lib/contexts/LanguageContext';
-import { Plus, Filter, ChevronDown } from 'lucide-react';
+import { Plus, Filter, ChevronDown, Upload } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { StudentTable } from '@/app/components/shared/StudentTable';
 import { DeleteConfirmationModal } from '@/app/components/shared/DeleteConfirmationModal';
@@ -228,12 +228,20 @@ function StudentsPageContent() {
         headingLevel="h1"
         showBackButton={true}
         rightActions={
-          <button
-            onClick={openCreateStudentModal}
-            className="inline-flex items-center gap-2 rounded-ds-md bg-mint-500 px-ds-sm py-2 text-ds-small text-white hover:bg-mint-600 transition-colors dark:bg-slate-700 dark:hover:bg-slate-600"
-          >
-            <Plus className="h-4 w-4" /> {t.add_student}
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => router.push('/dashboard/principal/students/import')}
+              className="inline-flex items-center gap-2 rounded-ds-md border border-slate-300 px-ds-sm py-2 text-ds-small text-slate-700 hover:bg-slate-50 transition-colors dark:border-slate-600 dark:text-slate-300 dark:hover:bg-slate-700"
+            >
+              <Upload className="h-4 w-4" /> {t.student_import_title}
+            </button>
+            <button
+              onClick={openCreateStudentModal}
+              className="inline-flex items-center gap-2 rounded-ds-md bg-mint-500 px-ds-sm py-2 text-ds-small text-white hover:bg-mint-600 transition-colors dark:bg-slate-700 dark:hover:bg-slate-600"
+            >
+              <Plus className="h-4 w-4" /> {t.add_student}
+            </button>
+          </div>
         }
       />
 
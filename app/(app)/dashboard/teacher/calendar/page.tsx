@@ -8,6 +8,7 @@ import { DeleteConfirmationModal } from '@/app/components/shared/DeleteConfirmat
 import { deleteEvent, getEvents } from '@/lib/server-actions';
 import { useAuth } from '@/lib/hooks/useAuth';
 import { useTeacherClasses } from '@/lib/hooks/useTeacherClasses';
+import { useClosureDays } from '@/lib/hooks/useClosureDays';
 import { useLanguage } from '@/lib/contexts/LanguageContext';
 import TeacherPageLayout from '@/app/components/shared/TeacherPageLayout';
 
@@ -16,6 +17,7 @@ export default function TeacherCalendarPage() {
   const { t } = useLanguage();
   const { session } = useAuth();
   const { classes: teacherClasses } = useTeacherClasses();
+  const { closures } = useClosureDays();
   
   const [calendarEvents, setCalendarEvents] = useState<CalendarEvent[]>([]);
   const [loadingEvents, setLoadingEvents] = useState(false);
@@ -113,6 +115,7 @@ export default function TeacherCalendarPage() {
             userRole="teacher"
             canEdit={true}
             events={calendarEvents}
+            closures={closures}
             classes={teacherClasses}
             onEventClick={(event) => {
               setSelectedEvent(event);
@@ -10,6 +10,7 @@ import TeacherPageLayout, { useTeacherPageLayout } from '@/app/components/shared
 import { PageHeader } from '@/app/components/shared/PageHeader';
 import { DeleteConfirmationModal } from '@/app/components/shared/DeleteConfirmationModal';
 import { HealthLogFormModal } from '@/app/components/shared/HealthLogFormModal';
+import { BulkHealthLogModal } from '@/app/components/shared/BulkHealthLogModal';
 import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
 import EmptyState from '@/app/components/EmptyState';
 
@@ -98,6 +99,8 @@ function DiaperPanel({ t }: { t: typeof enText | typeof isText }) {
   const [editingLog, setEditingLog] = useState<HealthLog | null>(null);
   const [submittingLog, setSubmittingLog] = useState(false);
   const [logError, setLogError] = useState<string | null>(null);
+  const [isBulkModalOpen, setIsBulkModalOpen] = useState(false);
+  const [bulkMessage, setBulkMessage] = useState<string | null>(null);
 
   // Delete modal states
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
@@ -273,6 +276,15 @@ function DiaperPanel({ t }: { t: typeof enText | typeof isText }) {
               </option>
             ))}
           </select>
+          <button
+            onClick={() => {
+              setBulkMessage(null);
+              setIsBulkModalOpen(true);
+            }}
+            className="inline-flex items-center gap-2 rounded-ds-md border border-mint-500 px-4 py-2 text-ds-small text-mint-600 hover:bg-mint-50 transition-colors dark:border-slate-600 dark:text-slate-200 dark:hover:bg-slate-700"
+          >
+            <Users className="h-4 w-4" /> {t.bulk_log_button}
+          </button>
           <button
             onClick={() => openModal()}
             className="inline-flex items-center gap-2 rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small text-white hover:bg-mint-600 transition-colors dark:bg-slate-700 dark:hover:bg-slate-600"
@@ -282,6 +294,12 @@ function DiaperPanel({ t }: { t: typeof enText | typeof isText }) {
         </div>
       </div>
 
+      {bulkMessage && (
+        <div className="mb-4 rounded-ds-md bg-mint-50 border border-mint-200 px-4 py-3 text-ds-small text-mint-700 dark:bg-mint-900/20 dark:border-mint-800 dark:text-mint-300">
+          {bulkMessage}
+        </div>
+      )}
+
       {error && (
         <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
           {error}
@@ -397,6 +415,17 @@ function DiaperPanel({ t }: { t: typeof enText | typeof isText }) {
         loading={submittingLog}
         error={logError}
       />
+
+      {isBulkModalOpen && (
+        <BulkHealthLogModal
+          onClose={() => setIsBulkModalOpen(false)}
+          onSaved={(count) => {
+            setIsBulkModalOpen(false);
+            setBulkMessage(t.bulk_log_saved.replace('{count}', count.toString()));
+            loadHealthLogs(selectedFilterType);
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import TeacherPageLayout, { useTeacherPageLayout } from '@/app/components/shared/TeacherPageLayout';
+import { PageHeader } from '@/app/components/shared/PageHeader';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import Gradebook from '@/app/components/assessments/Gradebook';
+import type { TeacherClass } from '@/lib/types/attendance';
+
+function TeacherGradebookContent() {
+  const { t } = useLanguage();
+  const { session } = useAuth();
+  const { sidebarRef } = useTeacherPageLayout();
+
+  const [classes, setClasses] = useState<TeacherClass[]>([]);
+  const [loadingClasses, setLoadingClasses] = useState(true);
+
+  const userId = session?.user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const res = await fetch(`/api/teacher-classes?userId=${userId}&t=${Date.now()}`, {
+          cache: 'no-store',
+          signal: controller.signal,
+        });
+        const data = await res.json();
+        if (res.ok) setClasses(data.classes || []);
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error('Error loading teacher classes:', err);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoadingClasses(false);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, [userId]);
+
+  return (
+    <>
+      <PageHeader
+        title={t.gradebook_title}
+        subtitle={t.gradebook_subtitle}
+        headingLevel="h1"
+        showMobileMenu={true}
+        onMobileMenuClick={() => sidebarRef.current?.open()}
+      />
+
+      {loadingClasses ? (
+        <LoadingSkeleton type="table" rows={5} />
+      ) : (
+        <Gradebook classes={classes.map((cls) => ({ id: cls.id, name: cls.name }))} />
+      )}
+    </>
+  );
+}
+
+export default function TeacherGradebookPage() {
+  return (
+    <TeacherPageLayout>
+      <TeacherGradebookContent />
+    </TeacherPageLayout>
+  );
+}
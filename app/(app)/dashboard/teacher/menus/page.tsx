@@ -7,6 +7,9 @@ import { usePathname } from 'next/navigation';
 import TeacherPageLayout, { useTeacherPageLayout } from '@/app/components/shared/TeacherPageLayout';
 import EmptyState from '@/app/components/EmptyState';
 import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import { MenuAllergenConflicts } from '@/app/components/menus/MenuAllergenConflicts';
+import type { Allergen } from '@/lib/constants/allergens';
+import type { MenuAllergenConflictReport } from '@/lib/types/menus';
 
 interface Menu {
   id: string;
@@ -16,6 +19,9 @@ interface Menu {
   breakfast?: string | null;
   lunch?: string | null;
   snack?: string | null;
+  breakfast_allergens?: Allergen[];
+  lunch_allergens?: Allergen[];
+  snack_allergens?: Allergen[];
   notes?: string | null;
   is_public?: boolean;
   created_at?: string;
@@ -36,6 +42,9 @@ export default function TeacherMenusPage() {
   });
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
+  const [conflictReport, setConflictReport] = useState<MenuAllergenConflictReport | null>(null);
+  const [conflictError, setConflictError] = useState<string | null>(null);
+  const today = new Date().toISOString().split('T')[0];
 
   const loadMenus = useCallback(async () => {
     // Check cache first for instant display (only after initial load)
@@ -233,6 +242,30 @@ export default function TeacherMenusPage() {
     };
   }, [loadMenus]);
 
+  // Allergy conflicts for today's menu among the children checked in to the teacher's classes
+  useEffect(() => {
+    if (selectedDate !== today) return;
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const res = await fetch(`/api/menus/conflicts?day=${selectedDate}&t=${Date.now()}`, {
+          cache: 'no-store',
+          signal: controller.signal,
+        });
+        const json = await res.json();
+        if (!res.ok) {
+          throw new Error(json.error || t.menu_conflicts_failed);
+        }
+        setConflictReport(json.report ?? null);
+        setConflictError(null);
+      } catch (err: unknown) {
+        if (controller.signal.aborted) return;
+        setConflictError(err instanceof Error ? err.message : t.menu_conflicts_failed);
+      }
+    })();
+    return () => controller.abort();
+  }, [selectedDate, today, menus, t]);
+
   // Filter menus by selected date
   const filteredMenus = menus.filter(m => !selectedDate || m.day === selectedDate);
   const totalPages = Math.ceil(filteredMenus.length / itemsPerPage);
@@ -269,6 +302,18 @@ export default function TeacherMenusPage() {
           </div>
         )}
 
+        {/* Allergy conflicts for today's menu */}
+        {selectedDate === today && conflictError && (
+          <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+            {conflictError}
+          </div>
+        )}
+        {selectedDate === today && !conflictError && conflictReport?.day === selectedDate && filteredMenus.length > 0 && (
+          <div className="mb-4">
+            <MenuAllergenConflicts report={conflictReport} />
+          </div>
+        )}
+
         {/* Menus Table with Filter */}
         <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
           {/* Date Filter Section */}
@@ -336,9 +381,30 @@ export default function TeacherMenusPage() {
                             minute: '2-digit'
                           }) : '—'}
                         </td>
-                        <td className="py-3 px-4 text-black dark:text-slate-300">{menu.breakfast || '—'}</td>
-                        <td className="py-3 px-4 text-black dark:text-slate-300">{menu.lunch || '—'}</td>
-                        <td className="py-3 px-4 text-black dark:text-slate-300">{menu.snack || '—'}</td>
+                        <td className="py-3 px-4 text-black dark:text-slate-300">
+                          {menu.breakfast || '—'}
+                          {menu.breakfast_allergens && menu.breakfast_allergens.length > 0 && (
+                            <p className="mt-1 text-ds-tiny text-slate-500 dark:text-slate-400">
+                              {menu.breakfast_allergens.map((allergen) => t[`allergen_${allergen}`]).join(', ')}
+                            </p>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-black dark:text-slate-300">
+                          {menu.lunch || '—'}
+                          {menu.lunch_allergens && menu.lunch_allergens.length > 0 && (
+                            <p className="mt-1 text-ds-tiny text-slate-500 dark:text-slate-400">
+                              {menu.lunch_allergens.map((allergen) => t[`allergen_${allergen}`]).join(', ')}
+                            </p>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-black dark:text-slate-300">
+                          {menu.snack || '—'}
+                          {menu.snack_allergens && menu.snack_allergens.length > 0 && (
+                            <p className="mt-1 text-ds-tiny text-slate-500 dark:text-slate-400">
+                              {menu.snack_allergens.map((allergen) => t[`allergen_${allergen}`]).join(', ')}
+                            </p>
+                          )}
+                        </td>
                         <td className="py-3 px-4 text-black dark:text-slate-300">{menu.notes || '—'}</td>
                       </tr>
                     ))}
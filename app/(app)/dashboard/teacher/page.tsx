@@ -7,6 +7,7 @@ import KPICardSkeleton from '@/app/components/loading-skeletons/KPICardSkeleton'
 import type { KPICard, TeacherDashboardContentProps, TeacherMetrics } from '@/lib/types/dashboard';
 import StoryColumn from '@/app/components/shared/StoryColumn';
 import AttendancePanel from '@/app/components/attendance/AttendancePanel';
+import { MedicationDosesPanel } from '@/app/components/medication/MedicationDosesPanel';
 import TeacherPageLayout from '@/app/components/shared/TeacherPageLayout';
 
 function TeacherDashboardContent({
@@ -83,6 +84,11 @@ function TeacherDashboardContent({
         )}
       </section>
 
+      {/* Today's medication doses (hidden when there are none) */}
+      <section className="mb-ds-md empty:hidden">
+        <MedicationDosesPanel />
+      </section>
+
       {/* Attendance Panel */}
       <section className="flex-1 min-h-0 flex flex-col">
         <AttendancePanel />
@@ -2,7 +2,7 @@
 
 import { useMemo, useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import { Users, Search, CalendarDays, BookOpen } from 'lucide-react';
+import { Users, Search, CalendarDays, BookOpen, UserPlus } from 'lucide-react';
 import { useAuth } from '@/lib/hooks/useAuth';
 import { useLanguage } from '@/lib/contexts/LanguageContext';
 import { enText } from '@/lib/translations/en';
@@ -417,7 +417,16 @@ export default function TeacherStudentsPage() {
           subtitle={t.students_subtitle}
           showMobileMenu={true}
           onMobileMenuClick={() => sidebarRef.current?.open()}
-          
+          rightActions={
+            <button
+              onClick={() => router.push('/dashboard/teacher/students/requests')}
+              className="flex items-center gap-2 rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small font-medium text-white hover:bg-mint-600 transition-colors dark:bg-slate-700 dark:hover:bg-slate-600"
+              aria-label={t.student_request_new}
+            >
+              <UserPlus className="h-4 w-4" />
+              <span className="hidden sm:inline">{t.student_request_new}</span>
+            </button>
+          }
         />
 
         {loadingClasses ? (
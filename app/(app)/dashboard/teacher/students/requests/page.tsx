@@ -0,0 +1,164 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import TeacherPageLayout, { useTeacherPageLayout } from '@/app/components/shared/TeacherPageLayout';
+import { PageHeader } from '@/app/components/shared/PageHeader';
+import { StudentForm } from '@/app/components/shared/StudentForm';
+import { StudentRequestList } from '@/app/components/students/StudentRequestList';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import type { TeacherClass } from '@/lib/types/attendance';
+import type { StudentFormData, StudentRequest } from '@/lib/types/students';
+
+function TeacherStudentRequestsContent() {
+  const { t } = useLanguage();
+  const { session } = useAuth();
+  const router = useRouter();
+  const { sidebarRef } = useTeacherPageLayout();
+
+  const [classes, setClasses] = useState<TeacherClass[]>([]);
+  const [guardians, setGuardians] = useState<Array<{ id: string; email: string | null; full_name?: string; first_name?: string; last_name?: string }>>([]);
+  const [requests, setRequests] = useState<StudentRequest[]>([]);
+  const [loadingRequests, setLoadingRequests] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  // Bumped after a submit so the form remounts empty
+  const [formKey, setFormKey] = useState(0);
+
+  const userId = session?.user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const [classesRes, guardiansRes] = await Promise.all([
+          fetch(`/api/teacher-classes?userId=${userId}&t=${Date.now()}`, { cache: 'no-store', signal: controller.signal }),
+          fetch(`/api/guardians?t=${Date.now()}`, { cache: 'no-store', signal: controller.signal }),
+        ]);
+        const classesData = await classesRes.json();
+        const guardiansData = await guardiansRes.json();
+        if (classesRes.ok) setClasses(classesData.classes || []);
+        if (guardiansRes.ok) setGuardians(guardiansData.guardians || []);
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error('Error loading classes and guardians:', err);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, [userId]);
+
+  const loadRequests = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setLoadingRequests(true);
+      const res = await fetch(`/api/student-requests?t=${Date.now()}`, { cache: 'no-store', signal });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.student_request_load_failed);
+      }
+      setRequests(data.requests || []);
+    } catch (err: unknown) {
+      if (signal?.aborted) return;
+      setError(err instanceof Error ? err.message : t.student_request_load_failed);
+    } finally {
+      if (!signal?.aborted) {
+        setLoadingRequests(false);
+      }
+    }
+  }, [t]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void loadRequests(controller.signal);
+    return () => controller.abort();
+  }, [loadRequests]);
+
+  const submitRequest = async (data: StudentFormData) => {
+    setSubmitting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/student-requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...data,
+          guardian_ids: (data.guardian_ids || []).filter((id) => id && id.trim() !== ''),
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json.details || json.error || t.student_request_submit_failed);
+      }
+      setMessage(t.student_request_submitted);
+      setFormKey((key) => key + 1);
+      await loadRequests();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.student_request_submit_failed);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <PageHeader
+        title={t.student_request_title}
+        subtitle={t.student_request_subtitle}
+        showMobileMenu={true}
+        onMobileMenuClick={() => sidebarRef.current?.open()}
+        showBackButton={true}
+        backHref="/dashboard/teacher/students"
+      />
+
+      {error && (
+        <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-4 rounded-ds-md bg-mint-50 border border-mint-200 px-4 py-3 text-ds-small text-mint-700 dark:bg-mint-900/20 dark:border-mint-800 dark:text-mint-300">
+          {message}
+        </div>
+      )}
+
+      <div className="space-y-ds-md">
+        <StudentForm
+          key={formKey}
+          asPage={true}
+          isOpen={true}
+          onClose={() => router.push('/dashboard/teacher/students')}
+          onSubmit={submitRequest}
+          loading={submitting}
+          error={error}
+          guardians={guardians}
+          classes={classes}
+        />
+
+        <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+          <h2 className="mb-3 text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">{t.student_request_mine}</h2>
+          {loadingRequests ? (
+            <LoadingSkeleton type="table" rows={3} />
+          ) : requests.length === 0 ? (
+            <p className="text-ds-small text-slate-500 dark:text-slate-400">{t.student_request_none}</p>
+          ) : (
+            <StudentRequestList requests={requests} />
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default function TeacherStudentRequestsPage() {
+  return (
+    <TeacherPageLayout>
+      <TeacherStudentRequestsContent />
+    </TeacherPageLayout>
+  );
+}
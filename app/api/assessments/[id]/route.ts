@@ -0,0 +1,32 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import { handleDeleteAssessment, handlePutAssessment } from '@/lib/handlers/assessments_handler';
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher'],
+    },
+    (user, adminClient) => handlePutAssessment(request, user, adminClient, id)
+  );
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher'],
+    },
+    (user, adminClient) => handleDeleteAssessment(request, user, adminClient, id)
+  );
+}
@@ -0,0 +1,24 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import { handleGetAssessments, handlePostAssessments } from '@/lib/handlers/assessments_handler';
+
+export async function GET(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher', 'guardian'],
+    },
+    (user, adminClient) => handleGetAssessments(request, user, adminClient)
+  );
+}
+
+export async function POST(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher'],
+    },
+    (user, adminClient) => handlePostAssessments(request, user, adminClient)
+  );
+}
@@ -0,0 +1,18 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import { handleGetCareHours } from '@/lib/handlers/care_hours_handler';
+
+/**
+ * Barngildi-weighted hours in care per child and class for a month.
+ * Supports ?format=json|csv|xlsx for funding and staffing reports.
+ */
+export async function GET(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin'],
+    },
+    (user, adminClient) =>
+      handleGetCareHours(request, user, adminClient),
+  );
+}
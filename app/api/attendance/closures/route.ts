@@ -0,0 +1,39 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import {
+  handleDeleteClosureDay,
+  handleGetClosureDays,
+  handlePostClosureDay,
+} from '@/lib/handlers/closure_days_handler';
+
+export async function GET(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher', 'guardian'],
+    },
+    (user, adminClient) => handleGetClosureDays(request, user, adminClient),
+  );
+}
+
+export async function POST(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin'],
+    },
+    (user, adminClient) => handlePostClosureDay(request, user, adminClient),
+  );
+}
+
+export async function DELETE(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin'],
+    },
+    (user, adminClient) => handleDeleteClosureDay(request, user, adminClient),
+  );
+}
@@ -0,0 +1,39 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import {
+  handleDeleteAbsenceNotice,
+  handleGetAbsenceNotices,
+  handlePostAbsenceNotice,
+} from '@/lib/handlers/absence_notices_handler';
+
+export async function GET(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher', 'guardian'],
+    },
+    (user, adminClient) => handleGetAbsenceNotices(request, user, adminClient),
+  );
+}
+
+export async function POST(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['guardian'],
+    },
+    (user, adminClient) => handlePostAbsenceNotice(request, user, adminClient),
+  );
+}
+
+export async function DELETE(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['guardian'],
+    },
+    (user, adminClient) => handleDeleteAbsenceNotice(request, user, adminClient),
+  );
+}
@@ -0,0 +1,17 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import { handleGetPickupPersons } from '@/lib/handlers/attendance_handler';
+
+/**
+ * Guardians and authorized relatives who may collect a student.
+ */
+export async function GET(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher'],
+    },
+    (user, adminClient) =>
+      handleGetPickupPersons(request, user, adminClient),
+  );
+}
@@ -0,0 +1,18 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import { handleGetAttendanceReport } from '@/lib/handlers/attendance_handler';
+
+/**
+ * Attendance summaries per class and student for a month or date range.
+ * Supports ?format=json|csv|xlsx for municipality exports.
+ */
+export async function GET(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin'],
+    },
+    (user, adminClient) =>
+      handleGetAttendanceReport(request, user, adminClient),
+  );
+}
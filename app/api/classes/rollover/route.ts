@@ -0,0 +1,13 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import { handlePostClassRollover } from '@/lib/handlers/class_rollover_handler';
+
+export async function POST(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin'],
+    },
+    (user, adminClient) => handlePostClassRollover(request, user, adminClient)
+  );
+}
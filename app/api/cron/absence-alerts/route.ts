@@ -0,0 +1,5 @@
+import { handleRunAbsenceAlerts } from '@/lib/handlers/absence_alerts_handler';
+
+export async function GET(request: Request) {
+  return handleRunAbsenceAlerts(request);
+}
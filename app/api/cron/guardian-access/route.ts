@@ -0,0 +1,5 @@
+import { handleRunGuardianAccessExpiry } from '@/lib/handlers/class_rollover_handler';
+
+export async function GET(request: Request) {
+  return handleRunGuardianAccessExpiry(request);
+}
@@ -0,0 +1,5 @@
+import { handleRunMedicationReminders } from '@/lib/handlers/medication_plans_handler';
+
+export async function GET(request: Request) {
+  return handleRunMedicationReminders(request);
+}
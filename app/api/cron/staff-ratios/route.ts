@@ -0,0 +1,5 @@
+import { handleRecordStaffRatios } from '@/lib/handlers/staff_ratio_handler';
+
+export async function GET(request: Request) {
+  return handleRecordStaffRatios(request);
+}
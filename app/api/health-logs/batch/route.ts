@@ -0,0 +1,18 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import { handlePostBatchHealthLogs } from '@/lib/handlers/health_logs_handler';
+
+/**
+ * Batch endpoint for logging the same care event for several children,
+ * e.g. naps or diaper changes for a whole class
+ */
+export async function POST(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher'],
+    },
+    (user, adminClient) =>
+      handlePostBatchHealthLogs(request, user, adminClient),
+  );
+}
@@ -0,0 +1,13 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import { handleGetCareSummary } from '@/lib/handlers/health_logs_handler';
+
+export async function GET(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher', 'guardian'],
+    },
+    (user, adminClient) => handleGetCareSummary(request, user, adminClient),
+  );
+}
@@ -0,0 +1,13 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import { handleGetTemperatureTrend } from '@/lib/handlers/health_logs_handler';
+
+export async function GET(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher', 'guardian'],
+    },
+    (user, adminClient) => handleGetTemperatureTrend(request, user, adminClient),
+  );
+}
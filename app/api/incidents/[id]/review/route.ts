@@ -0,0 +1,17 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import { handlePostIncidentReview } from '@/lib/handlers/incident_reports_handler';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin'],
+    },
+    (user, adminClient) => handlePostIncidentReview(request, user, adminClient, id)
+  );
+}
@@ -0,0 +1,17 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import { handleGetIncidentReport } from '@/lib/handlers/incident_reports_handler';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher', 'guardian'],
+    },
+    (user, adminClient) => handleGetIncidentReport(request, user, adminClient, id)
+  );
+}
@@ -0,0 +1,13 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import { handleGetIncidentReports } from '@/lib/handlers/incident_reports_handler';
+
+export async function GET(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher', 'guardian'],
+    },
+    (user, adminClient) => handleGetIncidentReports(request, user, adminClient),
+  );
+}
@@ -0,0 +1,24 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import { handleGetKioskCheck, handlePostKioskCheck } from '@/lib/handlers/kiosk_handler';
+
+export async function GET(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['guardian'],
+    },
+    (user, adminClient) => handleGetKioskCheck(request, user, adminClient),
+  );
+}
+
+export async function POST(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['guardian'],
+    },
+    (user, adminClient) => handlePostKioskCheck(request, user, adminClient),
+  );
+}
@@ -0,0 +1,9 @@
+import { handleGetKioskCode } from '@/lib/handlers/kiosk_handler';
+
+/**
+ * Rotating check-in code for the entrance kiosk.
+ * Uses the kiosk's device token instead of a user session.
+ */
+export async function GET(request: Request) {
+  return handleGetKioskCode(request);
+}
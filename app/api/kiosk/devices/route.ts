@@ -0,0 +1,39 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import {
+  handleDeleteKioskDevice,
+  handleGetKioskDevices,
+  handlePostKioskDevice,
+} from '@/lib/handlers/kiosk_handler';
+
+export async function GET(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin'],
+    },
+    (user, adminClient) => handleGetKioskDevices(request, user, adminClient),
+  );
+}
+
+export async function POST(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin'],
+    },
+    (user, adminClient) => handlePostKioskDevice(request, user, adminClient),
+  );
+}
+
+export async function DELETE(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin'],
+    },
+    (user, adminClient) => handleDeleteKioskDevice(request, user, adminClient),
+  );
+}
@@ -0,0 +1,13 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import { handlePostMedicationConsent } from '@/lib/handlers/medication_plans_handler';
+
+export async function POST(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['guardian'],
+    },
+    (user, adminClient) => handlePostMedicationConsent(request, user, adminClient),
+  );
+}
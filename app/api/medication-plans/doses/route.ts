@@ -0,0 +1,27 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import {
+  handleGetMedicationDoses,
+  handlePostMedicationDose,
+} from '@/lib/handlers/medication_plans_handler';
+
+export async function GET(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher'],
+    },
+    (user, adminClient) => handleGetMedicationDoses(request, user, adminClient),
+  );
+}
+
+export async function POST(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher'],
+    },
+    (user, adminClient) => handlePostMedicationDose(request, user, adminClient),
+  );
+}
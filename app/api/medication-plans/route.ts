@@ -0,0 +1,39 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import {
+  handleDeleteMedicationPlan,
+  handleGetMedicationPlans,
+  handlePostMedicationPlan,
+} from '@/lib/handlers/medication_plans_handler';
+
+export async function GET(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher', 'guardian'],
+    },
+    (user, adminClient) => handleGetMedicationPlans(request, user, adminClient),
+  );
+}
+
+export async function POST(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher', 'guardian'],
+    },
+    (user, adminClient) => handlePostMedicationPlan(request, user, adminClient),
+  );
+}
+
+export async function DELETE(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher', 'guardian'],
+    },
+    (user, adminClient) => handleDeleteMedicationPlan(request, user, adminClient),
+  );
+}
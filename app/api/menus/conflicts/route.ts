@@ -0,0 +1,13 @@
+import { withAuthRoute } from '@/lib/server-helpers'
+import { handleGetMenuConflicts } from '@/lib/handlers/menus_handler'
+
+export async function GET(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher'],
+    },
+    (user, adminClient) => handleGetMenuConflicts(request, user, adminClient)
+  )
+}
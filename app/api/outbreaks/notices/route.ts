@@ -0,0 +1,24 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import { handleGetHealthNotices, handlePostHealthNotice } from '@/lib/handlers/outbreaks_handler';
+
+export async function GET(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin'],
+    },
+    (user, adminClient) => handleGetHealthNotices(request, user, adminClient),
+  );
+}
+
+export async function POST(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin'],
+    },
+    (user, adminClient) => handlePostHealthNotice(request, user, adminClient),
+  );
+}
@@ -0,0 +1,13 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import { handleGetStaffRatioHistory } from '@/lib/handlers/staff_ratio_handler';
+
+export async function GET(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin'],
+    },
+    (user, adminClient) => handleGetStaffRatioHistory(request, user, adminClient),
+  );
+}
@@ -0,0 +1,27 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import {
+  handleGetStudentRequests,
+  handlePostStudentRequest,
+} from '@/lib/handlers/student_requests_handler';
+
+export async function GET(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher'],
+    },
+    (user, adminClient) => handleGetStudentRequests(request, user, adminClient)
+  );
+}
+
+export async function POST(request: Request) {
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher'],
+    },
+    (user, adminClient) => handlePostStudentRequest(request, user, adminClient)
+  );
+}
@@ -0,0 +1,35 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import {
+  handleGetStudentMilestones,
+  handlePutStudentMilestone,
+} from '@/lib/handlers/student_milestones_handler';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher', 'guardian'],
+    },
+    (user, adminClient) => handleGetStudentMilestones(request, user, adminClient, id)
+  );
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher'],
+    },
+    (user, adminClient) => handlePutStudentMilestone(request, user, adminClient, id)
+  );
+}
@@ -0,0 +1,35 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import {
+  handleDeleteStudentRelative,
+  handlePutStudentRelative,
+} from '@/lib/handlers/student_relatives_handler';
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; relativeId: string }> }
+) {
+  const { id, relativeId } = await params;
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher'],
+    },
+    (user, adminClient) => handlePutStudentRelative(request, user, adminClient, id, relativeId)
+  );
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; relativeId: string }> }
+) {
+  const { id, relativeId } = await params;
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher'],
+    },
+    (user, adminClient) => handleDeleteStudentRelative(request, user, adminClient, id, relativeId)
+  );
+}
@@ -0,0 +1,35 @@
+import { withAuthRoute } from '@/lib/server-helpers';
+import {
+  handleGetStudentRelatives,
+  handlePostStudentRelative,
+} from '@/lib/handlers/student_relatives_handler';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher', 'guardian'],
+    },
+    (user, adminClient) => handleGetStudentRelatives(request, user, adminClient, id)
+  );
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return withAuthRoute(
+    request,
+    {
+      requireOrg: true,
+      allowedRoles: ['principal', 'admin', 'teacher'],
+    },
+    (user, adminClient) => handlePostStudentRelative(request, user, adminClient, id)
+  );
+}
@@ -0,0 +1,403 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { FileText, Plus, Trash2 } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import EmptyState from '@/app/components/EmptyState';
+import { TermPicker, getCurrentTerm, type TermRange } from '@/app/components/assessments/TermPicker';
+import { GRADE_SCALE } from '@/lib/constants/assessments';
+import type { Assessment } from '@/lib/types/assessments';
+
+interface GradebookStudent {
+  id: string;
+  name: string;
+}
+
+/**
+ * One assessment across the class. Results are stored per student, so a
+ * column is every result sharing a title, date and maximum score.
+ */
+interface GradebookColumn {
+  key: string;
+  title: string;
+  date: string;
+  max_score: number | null;
+  cells: Map<string, Assessment>;
+}
+
+interface GradebookProps {
+  classes: Array<{ id: string; name: string }>;
+}
+
+function columnKey(title: string, date: string, maxScore: number | null): string {
+  return `${title}|${date}|${maxScore ?? ''}`;
+}
+
+/**
+ * Teacher gradebook: a grid of students by assessments for one class and
+ * subject. Cells save as soon as a grade or score is entered.
+ */
+export default function Gradebook({ classes }: GradebookProps) {
+  const { t, lang } = useLanguage();
+
+  const [classId, setClassId] = useState('');
+  const [subject, setSubject] = useState('');
+  const [term, setTerm] = useState<TermRange>(() => getCurrentTerm());
+  const [students, setStudents] = useState<GradebookStudent[]>([]);
+  const [assessments, setAssessments] = useState<Assessment[]>([]);
+  const [pendingColumns, setPendingColumns] = useState<GradebookColumn[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [savingCell, setSavingCell] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [newTitle, setNewTitle] = useState('');
+  const [newDate, setNewDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [newMaxScore, setNewMaxScore] = useState('');
+
+  useEffect(() => {
+    if (!classId && classes.length > 0) {
+      setClassId(classes[0].id);
+    }
+  }, [classes, classId]);
+
+  const loadGradebook = useCallback(async (signal?: AbortSignal) => {
+    if (!classId) return;
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [studentsRes, assessmentsRes] = await Promise.all([
+        fetch(`/api/students?classId=${classId}&t=${Date.now()}`, { cache: 'no-store', signal }),
+        fetch(`/api/assessments?classId=${classId}&from=${term.from}&to=${term.to}&t=${Date.now()}`, {
+          cache: 'no-store',
+          signal,
+        }),
+      ]);
+      const [studentsData, assessmentsData] = await Promise.all([studentsRes.json(), assessmentsRes.json()]);
+      if (!studentsRes.ok || !assessmentsRes.ok) {
+        throw new Error(assessmentsData.error || studentsData.error || t.gradebook_load_failed);
+      }
+      setStudents(
+        (studentsData.students || [])
+          .map((student: { id: string; users?: { first_name?: string; last_name?: string } }) => ({
+            id: student.id,
+            name: `${student.users?.first_name ?? ''} ${student.users?.last_name ?? ''}`.trim(),
+          }))
+          .sort((a: GradebookStudent, b: GradebookStudent) => a.name.localeCompare(b.name)),
+      );
+      setAssessments(assessmentsData.assessments || []);
+    } catch (err: unknown) {
+      if (signal?.aborted) return;
+      setError(err instanceof Error ? err.message : t.gradebook_load_failed);
+    } finally {
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
+    }
+  }, [classId, term.from, term.to, t.gradebook_load_failed]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadGradebook(controller.signal);
+    return () => controller.abort();
+  }, [loadGradebook]);
+
+  const subjects = useMemo(
+    () => Array.from(new Set(assessments.map((a) => a.subject).filter((s): s is string => Boolean(s)))).sort(),
+    [assessments],
+  );
+
+  const columns = useMemo(() => {
+    const byKey = new Map<string, GradebookColumn>();
+    for (const assessment of assessments) {
+      if (assessment.subject !== subject.trim()) continue;
+      const date = assessment.assessed_at.slice(0, 10);
+      const maxScore = assessment.max_score != null ? Number(assessment.max_score) : null;
+      const key = columnKey(assessment.title, date, maxScore);
+      const column = byKey.get(key) ?? { key, title: assessment.title, date, max_score: maxScore, cells: new Map() };
+      if (assessment.student_id) column.cells.set(assessment.student_id, assessment);
+      byKey.set(key, column);
+    }
+    for (const pending of pendingColumns) {
+      if (!byKey.has(pending.key)) byKey.set(pending.key, pending);
+    }
+    return Array.from(byKey.values()).sort((a, b) => a.date.localeCompare(b.date) || a.title.localeCompare(b.title));
+  }, [assessments, pendingColumns, subject]);
+
+  const addColumn = () => {
+    const title = newTitle.trim();
+    if (!title || !newDate) return;
+    const maxScore = newMaxScore ? Number(newMaxScore) : null;
+    const key = columnKey(title, newDate, maxScore);
+    setPendingColumns((prev) => [...prev, { key, title, date: newDate, max_score: maxScore, cells: new Map() }]);
+    setNewTitle('');
+    setNewMaxScore('');
+  };
+
+  const saveCell = async (column: GradebookColumn, studentId: string, value: string) => {
+    const existing = column.cells.get(studentId);
+    const isScore = column.max_score !== null;
+    const result = isScore ? { score: value === '' ? null : Number(value) } : { grade: value || null };
+    const cellKey = `${column.key}:${studentId}`;
+
+    setSavingCell(cellKey);
+    setError(null);
+    try {
+      if (existing && value === '') {
+        const res = await fetch(`/api/assessments/${existing.id}`, { method: 'DELETE' });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || t.gradebook_save_failed);
+        setAssessments((prev) => prev.filter((a) => a.id !== existing.id));
+      } else if (existing) {
+        const res = await fetch(`/api/assessments/${existing.id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(result),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.details || data.error || t.gradebook_save_failed);
+        setAssessments((prev) => prev.map((a) => (a.id === existing.id ? data.assessment : a)));
+      } else if (value !== '') {
+        const res = await fetch('/api/assessments', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            class_id: classId,
+            subject: subject.trim(),
+            title: column.title,
+            assessed_at: column.date,
+            max_score: column.max_score,
+            results: [{ student_id: studentId, ...result }],
+          }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.details || data.error || t.gradebook_save_failed);
+        setAssessments((prev) => [...prev, ...(data.assessments || [])]);
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.gradebook_save_failed);
+    } finally {
+      setSavingCell(null);
+    }
+  };
+
+  const deleteColumn = async (column: GradebookColumn) => {
+    if (column.cells.size > 0 && !window.confirm(t.gradebook_delete_column_confirm.replace('{title}', column.title))) {
+      return;
+    }
+    setError(null);
+    try {
+      for (const assessment of column.cells.values()) {
+        const res = await fetch(`/api/assessments/${assessment.id}`, { method: 'DELETE' });
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || t.gradebook_save_failed);
+        }
+      }
+      const ids = new Set(Array.from(column.cells.values()).map((a) => a.id));
+      setAssessments((prev) => prev.filter((a) => !ids.has(a.id)));
+      setPendingColumns((prev) => prev.filter((pending) => pending.key !== column.key));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.gradebook_save_failed);
+      loadGradebook();
+    }
+  };
+
+  const inputClassName =
+    'rounded-ds-md border border-slate-300 px-3 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200';
+  const cellInputClassName =
+    'w-20 rounded-ds-sm border border-slate-300 px-2 py-1 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 disabled:opacity-50 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200';
+  const headerCellClass = 'py-2 px-3 text-ds-small font-medium text-white dark:text-slate-300';
+  const cardClassName =
+    'rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800';
+
+  if (classes.length === 0) {
+    return <EmptyState title={t.gradebook_no_classes} description={t.gradebook_no_classes_desc} />;
+  }
+
+  return (
+    <div className="space-y-ds-md">
+      <div className={cardClassName}>
+        <div className="flex flex-wrap items-end gap-ds-sm">
+          <label className="text-ds-tiny text-slate-600 dark:text-slate-400">
+            {t.class_name}
+            <select
+              value={classId}
+              onChange={(e) => {
+                setClassId(e.target.value);
+                setPendingColumns([]);
+              }}
+              className={`${inputClassName} mt-1 block`}
+            >
+              {classes.map((cls) => (
+                <option key={cls.id} value={cls.id}>
+                  {cls.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-ds-tiny text-slate-600 dark:text-slate-400">
+            {t.gradebook_subject}
+            <input
+              list="gradebook-subjects"
+              value={subject}
+              onChange={(e) => {
+                setSubject(e.target.value);
+                setPendingColumns([]);
+              }}
+              placeholder={t.gradebook_subject_ph}
+              className={`${inputClassName} mt-1 block`}
+            />
+            <datalist id="gradebook-subjects">
+              {subjects.map((s) => (
+                <option key={s} value={s} />
+              ))}
+            </datalist>
+          </label>
+          <TermPicker term={term} onChange={setTerm} />
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {subject.trim() && (
+        <div className={cardClassName}>
+          <h2 className="mb-3 text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">{t.gradebook_add_column}</h2>
+          <div className="flex flex-wrap items-end gap-2">
+            <input
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              placeholder={t.gradebook_assessment}
+              maxLength={200}
+              className={`${inputClassName} flex-1 min-w-[12rem]`}
+            />
+            <input
+              type="date"
+              value={newDate}
+              onChange={(e) => setNewDate(e.target.value)}
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              min={1}
+              max={999}
+              value={newMaxScore}
+              onChange={(e) => setNewMaxScore(e.target.value)}
+              placeholder={t.gradebook_max_score_ph}
+              className={`${inputClassName} w-40`}
+            />
+            <button
+              type="button"
+              onClick={addColumn}
+              disabled={!newTitle.trim() || !newDate}
+              className="inline-flex items-center gap-2 rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small text-white hover:bg-mint-600 transition-colors disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4" /> {t.gradebook_add}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className={cardClassName}>
+        {isLoading ? (
+          <LoadingSkeleton type="table" rows={5} className="border-0 p-0" />
+        ) : !subject.trim() ? (
+          <p className="text-ds-small text-slate-600 dark:text-slate-400">{t.gradebook_pick_subject}</p>
+        ) : students.length === 0 ? (
+          <p className="text-ds-small text-slate-600 dark:text-slate-400">{t.gradebook_no_students}</p>
+        ) : (
+          <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-ds-md">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-mint-500">
+                  <th className={`${headerCellClass} text-left`}>{t.student_name}</th>
+                  {columns.map((column) => (
+                    <th key={column.key} className={`${headerCellClass} text-left align-top`}>
+                      <div className="flex items-start gap-1">
+                        <div>
+                          <div>{column.title}</div>
+                          <div className="text-ds-tiny font-normal opacity-80">
+                            {new Date(column.date).toLocaleDateString(lang === 'is' ? 'is-IS' : 'en-GB')}
+                            {column.max_score !== null && ` · /${column.max_score}`}
+                          </div>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => deleteColumn(column)}
+                          aria-label={t.delete}
+                          className="rounded-ds-sm p-0.5 hover:bg-mint-600"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      </div>
+                    </th>
+                  ))}
+                  <th className={`${headerCellClass} text-right`}>{t.gradebook_report_card}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {students.map((student) => (
+                  <tr key={student.id} className="border-b border-slate-100 dark:border-slate-700">
+                    <td className="py-2 px-3 text-ds-small text-slate-900 dark:text-slate-100">{student.name}</td>
+                    {columns.map((column) => {
+                      const cell = column.cells.get(student.id);
+                      const cellKey = `${column.key}:${student.id}`;
+                      return (
+                        <td key={column.key} className="py-2 px-3">
+                          {column.max_score !== null ? (
+                            <input
+                              key={`${cell?.id ?? 'new'}:${cell?.updated_at ?? ''}`}
+                              type="number"
+                              min={0}
+                              max={column.max_score}
+                              step="0.5"
+                              defaultValue={cell?.score ?? ''}
+                              disabled={savingCell === cellKey}
+                              onBlur={(e) => {
+                                if (e.target.value !== String(cell?.score ?? '')) {
+                                  void saveCell(column, student.id, e.target.value);
+                                }
+                              }}
+                              className={cellInputClassName}
+                            />
+                          ) : (
+                            <select
+                              value={cell?.grade ?? ''}
+                              disabled={savingCell === cellKey}
+                              onChange={(e) => saveCell(column, student.id, e.target.value)}
+                              className={cellInputClassName}
+                            >
+                              <option value="">-</option>
+                              {GRADE_SCALE.map((grade) => (
+                                <option key={grade} value={grade}>
+                                  {grade}
+                                </option>
+                              ))}
+                            </select>
+                          )}
+                        </td>
+                      );
+                    })}
+                    <td className="py-2 px-3 text-right">
+                      <a
+                        href={`/api/students/${student.id}/report-card?from=${term.from}&to=${term.to}&lang=${lang}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-ds-small text-mint-700 hover:underline dark:text-mint-300"
+                      >
+                        <FileText className="h-4 w-4" /> PDF
+                      </a>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { FileText } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import { TermPicker, getCurrentTerm, type TermRange } from '@/app/components/assessments/TermPicker';
+import type { Assessment } from '@/lib/types/assessments';
+
+interface StudentResultsProps {
+  studentId: string;
+}
+
+/**
+ * Read-only results for one child, grouped by subject, with the term's
+ * report card as a PDF.
+ */
+export default function StudentResults({ studentId }: StudentResultsProps) {
+  const { t, lang } = useLanguage();
+
+  const [term, setTerm] = useState<TermRange>(() => getCurrentTerm());
+  const [assessments, setAssessments] = useState<Assessment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    (async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const res = await fetch(
+          `/api/assessments?studentId=${studentId}&from=${term.from}&to=${term.to}&t=${Date.now()}`,
+          { cache: 'no-store', signal: controller.signal },
+        );
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || t.gradebook_load_failed);
+        }
+        setAssessments(data.assessments || []);
+      } catch (err: unknown) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : t.gradebook_load_failed);
+        setAssessments([]);
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, [studentId, term.from, term.to, t.gradebook_load_failed]);
+
+  const bySubject = useMemo(() => {
+    const grouped = new Map<string, Assessment[]>();
+    for (const assessment of assessments) {
+      const subject = assessment.subject ?? '';
+      grouped.set(subject, [...(grouped.get(subject) ?? []), assessment]);
+    }
+    return Array.from(grouped.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [assessments]);
+
+  const headerCellClass = 'py-2 px-4 text-ds-small font-medium text-white dark:text-slate-300';
+
+  return (
+    <div className="space-y-ds-md">
+      <div className="flex flex-wrap items-end justify-between gap-2">
+        <TermPicker term={term} onChange={setTerm} />
+        <a
+          href={`/api/students/${studentId}/report-card?from=${term.from}&to=${term.to}&lang=${lang}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-2 rounded-ds-md border border-slate-300 bg-white px-3 py-2 text-ds-small hover:bg-mint-50 transition-colors dark:border-slate-600 dark:bg-slate-800 dark:text-slate-200 dark:hover:bg-slate-700"
+        >
+          <FileText className="h-4 w-4" />
+          {t.gradebook_report_card}
+        </a>
+      </div>
+
+      {error && (
+        <div className="rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <LoadingSkeleton type="table" rows={3} className="border-0 p-0" />
+      ) : bySubject.length === 0 ? (
+        <p className="text-ds-small text-slate-600 dark:text-slate-400">{t.report_card_no_results}</p>
+      ) : (
+        bySubject.map(([subject, subjectAssessments]) => (
+          <div key={subject}>
+            <h3 className="mb-2 text-ds-small font-semibold text-slate-900 dark:text-slate-100">
+              {subject || t.report_card_no_subject}
+            </h3>
+            <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-ds-md">
+              <table className="w-full min-w-[480px] border-collapse">
+                <thead>
+                  <tr className="bg-mint-500">
+                    <th className={`${headerCellClass} text-left`}>{t.gradebook_assessment}</th>
+                    <th className={`${headerCellClass} text-left`}>{t.gradebook_date}</th>
+                    <th className={`${headerCellClass} text-left`}>{t.gradebook_grade}</th>
+                    <th className={`${headerCellClass} text-left`}>{t.gradebook_score}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {subjectAssessments.map((assessment) => (
+                    <tr key={assessment.id} className="border-b border-slate-100 dark:border-slate-700">
+                      <td className="py-2 px-4 text-ds-small text-slate-900 dark:text-slate-100">
+                        {assessment.title}
+                        {assessment.description && (
+                          <p className="text-ds-tiny text-slate-500 dark:text-slate-400">{assessment.description}</p>
+                        )}
+                      </td>
+                      <td className="py-2 px-4 text-ds-small text-slate-700 dark:text-slate-300">
+                        {new Date(assessment.assessed_at).toLocaleDateString(lang === 'is' ? 'is-IS' : 'en-GB')}
+                      </td>
+                      <td className="py-2 px-4 text-ds-small text-slate-700 dark:text-slate-300">{assessment.grade ?? '-'}</td>
+                      <td className="py-2 px-4 text-ds-small text-slate-700 dark:text-slate-300">
+                        {assessment.score != null
+                          ? `${Number(assessment.score)}${assessment.max_score != null ? ` / ${Number(assessment.max_score)}` : ''}`
+                          : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
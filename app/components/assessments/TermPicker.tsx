@@ -0,0 +1,57 @@
+'use client';
+
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+
+export interface TermRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * The school term a date falls in: autumn runs August–December and
+ * spring January–July.
+ */
+export function getCurrentTerm(date = new Date()): TermRange {
+  const year = date.getFullYear();
+  return date.getMonth() >= 7
+    ? { from: `${year}-08-01`, to: `${year}-12-31` }
+    : { from: `${year}-01-01`, to: `${year}-07-31` };
+}
+
+interface TermPickerProps {
+  term: TermRange;
+  onChange: (term: TermRange) => void;
+}
+
+/**
+ * Start and end date of the term that results and report cards cover
+ */
+export function TermPicker({ term, onChange }: TermPickerProps) {
+  const { t } = useLanguage();
+  const inputClassName =
+    'rounded-ds-md border border-slate-300 px-3 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200';
+
+  return (
+    <div className="flex flex-wrap items-end gap-2">
+      <label className="text-ds-tiny text-slate-600 dark:text-slate-400">
+        {t.gradebook_term_from}
+        <input
+          type="date"
+          value={term.from}
+          onChange={(e) => e.target.value && onChange({ ...term, from: e.target.value })}
+          className={`${inputClassName} mt-1 block`}
+        />
+      </label>
+      <label className="text-ds-tiny text-slate-600 dark:text-slate-400">
+        {t.gradebook_term_to}
+        <input
+          type="date"
+          value={term.to}
+          min={term.from}
+          onChange={(e) => e.target.value && onChange({ ...term, to: e.target.value })}
+          className={`${inputClassName} mt-1 block`}
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import type { AbsenceNoticeKind } from '@/lib/types/attendance';
+
+export interface AbsenceNoticeFormData {
+  student_id: string;
+  kind: AbsenceNoticeKind;
+  start_date: string;
+  end_date: string;
+  note: string | null;
+}
+
+export interface AbsenceNoticeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: AbsenceNoticeFormData) => Promise<void>;
+  students: Array<{ id: string; name: string }>;
+  loading?: boolean;
+  error?: string | null;
+}
+
+function todayDateString(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+const inputClass =
+  'w-full rounded-ds-md border border-[#D8EBD8] bg-[#F5FFF7] px-3 py-2 text-ds-small text-slate-900 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100 focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500';
+
+export function AbsenceNoticeModal({
+  isOpen,
+  onClose,
+  onSubmit,
+  students,
+  loading = false,
+  error,
+}: AbsenceNoticeModalProps) {
+  const { t } = useLanguage();
+  const [formData, setFormData] = useState<AbsenceNoticeFormData>({
+    student_id: '',
+    kind: 'sick',
+    start_date: todayDateString(),
+    end_date: todayDateString(),
+    note: '',
+  });
+
+  // Default to the first child until the guardian picks one
+  const selectedStudentId = formData.student_id || students[0]?.id || '';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedStudentId || formData.end_date < formData.start_date) {
+      return;
+    }
+    await onSubmit({
+      ...formData,
+      student_id: selectedStudentId,
+      note: formData.note || null,
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="w-full max-w-lg rounded-ds-lg bg-white dark:bg-slate-800 p-ds-md shadow-ds-lg max-h-[90vh] overflow-y-auto">
+        <div className="mb-4 flex items-center justify-between">
+          <h3 className="text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">
+            {t.absence_notice_title}
+          </h3>
+          <button
+            onClick={onClose}
+            className="rounded-ds-md p-1 hover:bg-mint-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Child */}
+          <div>
+            <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+              {t.absence_notice_child} <span className="text-red-500">*</span>
+            </label>
+            <select
+              required
+              value={selectedStudentId}
+              onChange={(e) => setFormData({ ...formData, student_id: e.target.value })}
+              className={inputClass}
+            >
+              {students.map((student) => (
+                <option key={student.id} value={student.id}>
+                  {student.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Reason */}
+          <div>
+            <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+              {t.absence_notice_kind} <span className="text-red-500">*</span>
+            </label>
+            <select
+              value={formData.kind}
+              onChange={(e) => setFormData({ ...formData, kind: e.target.value as AbsenceNoticeKind })}
+              className={inputClass}
+            >
+              <option value="sick">{t.absence_notice_kind_sick}</option>
+              <option value="holiday">{t.absence_notice_kind_holiday}</option>
+            </select>
+          </div>
+
+          {/* Date range */}
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+                {t.absence_notice_start} <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="date"
+                required
+                min={todayDateString()}
+                value={formData.start_date}
+                onChange={(e) => {
+                  const start = e.target.value;
+                  setFormData({
+                    ...formData,
+                    start_date: start,
+                    end_date: formData.end_date < start ? start : formData.end_date,
+                  });
+                }}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+                {t.absence_notice_end} <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="date"
+                required
+                min={formData.start_date}
+                value={formData.end_date}
+                onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {/* Note */}
+          <div>
+            <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+              {t.absence_notice_note} ({t.optional})
+            </label>
+            <textarea
+              value={formData.note || ''}
+              onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+              rows={3}
+              maxLength={500}
+              className={inputClass}
+              placeholder={t.absence_notice_note_placeholder}
+            />
+          </div>
+
+          {/* Form Actions */}
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={loading}
+              className="flex-1 rounded-ds-md border border-slate-300 px-4 py-2 text-ds-small text-slate-700 hover:bg-mint-50 disabled:opacity-50 disabled:cursor-not-allowed dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600 transition-colors"
+            >
+              {t.cancel}
+            </button>
+            <button
+              type="submit"
+              disabled={loading || students.length === 0}
+              className="flex-1 rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small text-white hover:bg-mint-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {loading ? (
+                <div className="flex items-center justify-center gap-2">
+                  <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent"></div>
+                  {t.absence_notice_submitting}
+                </div>
+              ) : (
+                t.absence_notice_submit
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
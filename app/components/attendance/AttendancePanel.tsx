@@ -7,6 +7,7 @@ import { useLanguage } from '@/lib/contexts/LanguageContext';
 import { useTeacherClasses } from '@/lib/hooks/useTeacherClasses';
 import { useTeacherStudents } from '@/lib/hooks/useTeacherStudents';
 import { useAttendance } from '@/lib/hooks/useAttendance';
+import { useClosureDays } from '@/lib/hooks/useClosureDays';
 import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
 import { AttendanceFilters } from '@/app/components/attendance/AttendanceFilters';
 import { AttendanceActions } from '@/app/components/attendance/AttendanceActions';
@@ -14,9 +15,10 @@ import { UnsavedChangesWarning } from '@/app/components/attendance/UnsavedChange
 import EmptyState from '@/app/components/EmptyState';
 import { PhotoUploadModal } from '@/app/components/shared/PhotoUploadModal';
 import { HealthLogFormModal } from '@/app/components/shared/HealthLogFormModal';
+import { PickupPersonModal } from '@/app/components/attendance/PickupPersonModal';
 import StudentCard from '@/app/components/students/student_card';
 import { getStudentName } from '@/lib/utils/studentUtils';
-import type { Student } from '@/lib/types/attendance';
+import type { PickupSelection, Student } from '@/lib/types/attendance';
 
 export default function AttendancePanel() {
   const { t, lang } = useLanguage();
@@ -30,6 +32,11 @@ export default function AttendancePanel() {
     attendanceRecords,
     leftAt,
     savedLeftAt,
+    pickedUpBy,
+    syncState,
+    queuedCount,
+    conflictCount,
+    rejectedCount,
     isLoading: loadingAttendance,
     isSaving: isSavingAttendance,
     hasLoadedInitial,
@@ -38,6 +45,15 @@ export default function AttendancePanel() {
     updateAttendance,
   } = useAttendance(students, teacherClasses);
 
+  // Attendance cannot be marked while the organization or a class is closed
+  const [today] = useState(() => new Date().toISOString().split('T')[0]);
+  const { closures } = useClosureDays({ from: today, to: today });
+  const getClosureForClass = useCallback(
+    (classId: string | null) =>
+      closures.find((closure) => closure.class_id === null || closure.class_id === classId) ?? null,
+    [closures]
+  );
+
   // Local state for class filter
   const [selectedClassId, setSelectedClassId] = useState<string>('all');
   
@@ -50,6 +66,9 @@ export default function AttendancePanel() {
   const [selectedStudentForHealthLog, setSelectedStudentForHealthLog] = useState<Student | null>(null);
   const [isSubmittingHealthLog, setIsSubmittingHealthLog] = useState(false);
 
+  // Student being checked out while staff pick who collects them
+  const [studentForPickup, setStudentForPickup] = useState<Student | null>(null);
+
   // State for student card modal
   const [studentCardModalOpen, setStudentCardModalOpen] = useState(false);
   const [selectedStudentForCard, setSelectedStudentForCard] = useState<Student | null>(null);
@@ -60,10 +79,9 @@ export default function AttendancePanel() {
   // Load attendance for today when students are available
   useEffect(() => {
     if (students.length > 0 && teacherClasses.length > 0) {
-      const today = new Date().toISOString().split('T')[0];
       loadAttendance(today);
     }
-  }, [students.length, teacherClasses.length, loadAttendance]);
+  }, [students.length, teacherClasses.length, loadAttendance, today]);
 
   // Clear initial mount state once hooks have started loading or data is available
   useEffect(() => {
@@ -101,11 +119,26 @@ export default function AttendancePanel() {
   }, [attendance, leftAt, saveAttendance, t]);
 
   // Handle status change
+  // Checking a child out ('gone') first asks who is collecting them
   const handleStatusChange = useCallback(
     (studentId: string, status: string) => {
+      if (status === 'gone') {
+        setStudentForPickup(students.find((s) => s.id === studentId) ?? null);
+        return;
+      }
       updateAttendance(studentId, status);
     },
-    [updateAttendance]
+    [students, updateAttendance]
+  );
+
+  const handlePickupConfirm = useCallback(
+    (selection: PickupSelection) => {
+      if (studentForPickup) {
+        updateAttendance(studentForPickup.id, 'gone', selection);
+      }
+      setStudentForPickup(null);
+    },
+    [studentForPickup, updateAttendance]
   );
 
   // Aggregate loading state - include initial mount to show skeleton immediately
@@ -130,6 +163,9 @@ export default function AttendancePanel() {
     });
   }, [students, selectedClassId]);
 
+  // Closure covering everything on screen: org-wide, or the selected class
+  const viewClosure = getClosureForClass(selectedClassId === 'all' ? null : selectedClassId);
+
   // Handle class filter change
   const handleClassChange = useCallback((classId: string) => {
     setSelectedClassId(classId);
@@ -245,6 +281,10 @@ export default function AttendancePanel() {
 
       // Success - close modal
       handleHealthLogClose();
+      // The log is saved even when its incident report is not
+      if (json.incidentReportError) {
+        alert(json.incidentReportError);
+      }
     } catch (error) {
       console.error('Error submitting health log:', error);
       throw error; // Re-throw so modal can handle error display
@@ -277,8 +317,21 @@ export default function AttendancePanel() {
         </div>
       </div>
 
-      {hasUnsavedChanges && !isSavingAttendance && (
-        <UnsavedChangesWarning lang={lang} />
+      {((hasUnsavedChanges && !isSavingAttendance) || syncState !== 'idle') && (
+        <UnsavedChangesWarning
+          lang={lang}
+          hasUnsavedChanges={hasUnsavedChanges && !isSavingAttendance}
+          syncState={syncState}
+          queuedCount={queuedCount}
+          conflictCount={conflictCount}
+          rejectedCount={rejectedCount}
+        />
+      )}
+
+      {viewClosure && (
+        <div className="mb-3 rounded-ds-md border border-amber-200 bg-amber-50 px-4 py-3 text-ds-small text-amber-800 dark:border-amber-800 dark:bg-amber-900/20 dark:text-amber-300">
+          {t.attendance_closed_today.replace('{title}', viewClosure.title)}
+        </div>
       )}
 
       {isLoading ? (
@@ -317,7 +370,14 @@ export default function AttendancePanel() {
                   const isGone = studentLeftAt !== null && studentLeftAt !== undefined;
                   const displayStatus = isGone ? 'gone' : status;
                   const options = getAvailableOptions(status, isGone);
+                  const pickupName = isGone
+                    ? pickedUpBy[student.id]?.name ?? record?.picked_up_by_name ?? null
+                    : null;
+                  // Prefilled from a guardian absence notice and not changed by staff since
+                  const isGuardianReported =
+                    Boolean(record?.notice_id) && (status === 'away_sick' || status === 'away_holiday');
                   const studentName = getStudentName(student);
+                  const closure = getClosureForClass(student.class_id || student.classes?.id || null);
 
                   // Get guardian info (use first guardian if available)
                   const guardian = student.guardians && student.guardians.length > 0 ? student.guardians[0] : null;
@@ -363,7 +423,7 @@ export default function AttendancePanel() {
                         <select
                           value={displayStatus || ''}
                           onChange={(e) => handleStatusChange(student.id, e.target.value)}
-                          disabled={isSavingAttendance || isLoading}
+                          disabled={isSavingAttendance || isLoading || closure !== null}
                           className="w-auto min-w-[160px] max-w-[200px] rounded-ds-md border border-slate-300 dark:border-slate-600 px-2 sm:px-3 py-1.5 sm:py-2 text-ds-tiny sm:text-ds-small bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 disabled:opacity-50 disabled:cursor-not-allowed disabled:bg-slate-100 dark:disabled:bg-slate-800"
                         >
                           {options.map((option) => (
@@ -372,6 +432,24 @@ export default function AttendancePanel() {
                             </option>
                           ))}
                         </select>
+                        {closure && (
+                          <span className="mt-1 flex w-fit items-center rounded-ds-full bg-amber-100 px-2 py-0.5 text-ds-tiny font-medium text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
+                            {t.closure_day_label}: {closure.title}
+                          </span>
+                        )}
+                        {isGuardianReported && (
+                          <span
+                            className="mt-1 flex w-fit items-center rounded-ds-full bg-blue-100 px-2 py-0.5 text-ds-tiny font-medium text-blue-800 dark:bg-blue-900/30 dark:text-blue-400"
+                            title={record?.notes || undefined}
+                          >
+                            {t.absence_notice_reported_by_guardian}
+                          </span>
+                        )}
+                        {pickupName && (
+                          <div className="mt-1 text-ds-tiny text-slate-500 dark:text-slate-400">
+                            {t.pickup_picked_up_by.replace('{name}', pickupName)}
+                          </div>
+                        )}
                       </td>
                       <td className="py-2 px-2 sm:px-4">
                         <div className="flex items-center gap-1 sm:gap-2">
@@ -482,6 +560,17 @@ export default function AttendancePanel() {
         disableDropdowns={!!(selectedStudentForUpload?.id && selectedStudentForUpload?.class_id)}
       />
 
+      {/* Pickup Person Modal */}
+      {studentForPickup && (
+        <PickupPersonModal
+          isOpen={true}
+          onClose={() => setStudentForPickup(null)}
+          onConfirm={handlePickupConfirm}
+          studentId={studentForPickup.id}
+          studentName={getStudentName(studentForPickup)}
+        />
+      )}
+
       {/* Health Log Modal */}
       {selectedStudentForHealthLog && (
         <HealthLogFormModal
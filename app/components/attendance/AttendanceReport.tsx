@@ -0,0 +1,284 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { BarChart3, Download, FileSpreadsheet } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import EmptyState from '@/app/components/EmptyState';
+import { PageHeader } from '@/app/components/shared/PageHeader';
+import type {
+  AttendanceReport as AttendanceReportData,
+  AttendanceSummaryCounts,
+  TeacherClass,
+} from '@/lib/types/attendance';
+
+function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+interface AttendanceReportProps {
+  backHref?: string;
+}
+
+export default function AttendanceReport({ backHref = '/dashboard/principal' }: AttendanceReportProps) {
+  const { t } = useLanguage();
+
+  const [month, setMonth] = useState<string>(currentMonth);
+  const [selectedClassId, setSelectedClassId] = useState<string>('all');
+  const [classes, setClasses] = useState<TeacherClass[]>([]);
+  const [report, setReport] = useState<AttendanceReportData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load classes for the class filter
+  useEffect(() => {
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const res = await fetch(`/api/classes?t=${Date.now()}`, {
+          cache: 'no-store',
+          signal: controller.signal,
+        });
+        if (res.ok) {
+          const data = await res.json();
+          setClasses(data.classes || []);
+        }
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error('Error loading classes for attendance report:', err);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, []);
+
+  const buildReportUrl = useCallback(
+    (format: 'json' | 'csv' | 'xlsx') => {
+      const params = new URLSearchParams({ month, format });
+      if (selectedClassId !== 'all') {
+        params.set('classId', selectedClassId);
+      }
+      return `/api/attendance/report?${params.toString()}`;
+    },
+    [month, selectedClassId],
+  );
+
+  // Load report whenever the month or class filter changes
+  useEffect(() => {
+    if (!month) return;
+    const controller = new AbortController();
+    (async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const res = await fetch(buildReportUrl('json'), {
+          cache: 'no-store',
+          signal: controller.signal,
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || t.attendance_report_failed);
+        }
+        setReport(data.report as AttendanceReportData);
+      } catch (err: unknown) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : t.attendance_report_failed);
+        setReport(null);
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, [month, buildReportUrl, t]);
+
+  const countColumns = useMemo<Array<{ key: keyof AttendanceSummaryCounts; label: string }>>(
+    () => [
+      { key: 'recorded_days', label: t.attendance_report_recorded_days },
+      { key: 'arrived', label: t.attendance_status_arrived },
+      { key: 'late', label: t.attendance_late },
+      { key: 'absent', label: t.attendance_absent },
+      { key: 'excused', label: t.attendance_excused },
+      { key: 'away_sick', label: t.attendance_status_away_sick },
+      { key: 'away_holiday', label: t.attendance_status_away_holiday },
+    ],
+    [t],
+  );
+
+  const renderCounts = (counts: AttendanceSummaryCounts) => (
+    <>
+      {countColumns.map(({ key }) => (
+        <td key={key} className="py-2 px-4 text-right text-ds-small text-slate-700 dark:text-slate-300">
+          {counts[key]}
+        </td>
+      ))}
+      <td className="py-2 px-4 text-right text-ds-small font-medium text-slate-900 dark:text-slate-100">
+        {formatRate(counts.absence_rate)}
+      </td>
+    </>
+  );
+
+  const headerCellClass = 'py-2 px-4 text-ds-small font-medium text-white dark:text-slate-300';
+
+  return (
+    <>
+      <PageHeader
+        title={t.attendance_report_title}
+        subtitle={t.attendance_report_subtitle}
+        headingLevel="h1"
+        showBackButton={true}
+        backHref={backHref}
+        rightActions={
+          <div className="flex flex-wrap items-center gap-2">
+            <a
+              href={buildReportUrl('csv')}
+              className="inline-flex items-center gap-2 rounded-ds-md border border-slate-300 bg-white px-4 py-2 text-ds-small hover:bg-mint-50 transition-colors dark:border-slate-600 dark:bg-slate-800 dark:text-slate-200 dark:hover:bg-slate-700"
+            >
+              <Download className="h-4 w-4" />
+              {t.attendance_report_export_csv}
+            </a>
+            <a
+              href={buildReportUrl('xlsx')}
+              className="inline-flex items-center gap-2 rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small text-white hover:bg-mint-600 transition-colors"
+            >
+              <FileSpreadsheet className="h-4 w-4" />
+              {t.attendance_report_export_xlsx}
+            </a>
+          </div>
+        }
+      />
+
+      <div className="mb-ds-sm flex flex-col gap-2 sm:flex-row sm:items-center">
+        <label className="flex items-center gap-2 text-ds-small text-slate-700 dark:text-slate-300">
+          {t.attendance_report_month}
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            className="rounded-ds-md border border-slate-300 px-4 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200"
+          />
+        </label>
+        <select
+          value={selectedClassId}
+          onChange={(e) => setSelectedClassId(e.target.value)}
+          className="w-full sm:w-auto rounded-ds-md border border-[#D8EBD8] bg-[#F5FFF7] px-3 sm:px-4 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200"
+        >
+          <option value="all">{t.all_classes}</option>
+          {classes.map((cls) => (
+            <option key={cls.id} value={cls.id}>
+              {cls.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <LoadingSkeleton type="table" rows={6} />
+      ) : !report || report.students.length === 0 ? (
+        <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+          <EmptyState
+            icon={BarChart3}
+            title={t.attendance_report_title}
+            description={t.attendance_report_empty}
+          />
+        </div>
+      ) : (
+        <div className="space-y-ds-md">
+          {/* Class summaries */}
+          <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+            <h2 className="mb-3 text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">
+              {t.attendance_report_by_class}
+            </h2>
+            <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-ds-md">
+              <table className="w-full min-w-[800px] border-collapse">
+                <thead>
+                  <tr className="bg-mint-500">
+                    <th className={`${headerCellClass} text-left`}>{t.col_class}</th>
+                    <th className={`${headerCellClass} text-right`}>{t.attendance_report_students}</th>
+                    {countColumns.map(({ key, label }) => (
+                      <th key={key} className={`${headerCellClass} text-right`}>{label}</th>
+                    ))}
+                    <th className={`${headerCellClass} text-right`}>{t.attendance_report_absence_rate}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.classes.map((summary) => (
+                    <tr
+                      key={summary.class_id ?? 'unassigned'}
+                      className="border-b border-slate-100 dark:border-slate-700 hover:bg-mint-50 dark:hover:bg-slate-700/50 transition-colors"
+                    >
+                      <td className="py-2 px-4 text-ds-small text-slate-900 dark:text-slate-100">
+                        {summary.class_name ?? t.attendance_report_unassigned}
+                      </td>
+                      <td className="py-2 px-4 text-right text-ds-small text-slate-700 dark:text-slate-300">
+                        {summary.student_count}
+                      </td>
+                      {renderCounts(summary)}
+                    </tr>
+                  ))}
+                  <tr className="bg-mint-50 font-medium dark:bg-slate-700/50">
+                    <td className="py-2 px-4 text-ds-small text-slate-900 dark:text-slate-100">
+                      {t.attendance_report_total}
+                    </td>
+                    <td className="py-2 px-4 text-right text-ds-small text-slate-700 dark:text-slate-300">
+                      {report.students.length}
+                    </td>
+                    {renderCounts(report.totals)}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Student summaries */}
+          <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+            <h2 className="mb-3 text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">
+              {t.attendance_report_by_student}
+            </h2>
+            <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-ds-md">
+              <table className="w-full min-w-[800px] border-collapse">
+                <thead>
+                  <tr className="bg-mint-500">
+                    <th className={`${headerCellClass} text-left`}>{t.col_student_name}</th>
+                    <th className={`${headerCellClass} text-left`}>{t.col_class}</th>
+                    {countColumns.map(({ key, label }) => (
+                      <th key={key} className={`${headerCellClass} text-right`}>{label}</th>
+                    ))}
+                    <th className={`${headerCellClass} text-right`}>{t.attendance_report_absence_rate}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.students.map((summary) => (
+                    <tr
+                      key={summary.student_id}
+                      className="border-b border-slate-100 dark:border-slate-700 hover:bg-mint-50 dark:hover:bg-slate-700/50 transition-colors"
+                    >
+                      <td className="py-2 px-4 text-ds-small text-slate-900 dark:text-slate-100">
+                        {`${summary.first_name} ${summary.last_name ?? ''}`.trim()}
+                      </td>
+                      <td className="py-2 px-4 text-ds-small text-slate-600 dark:text-slate-400">
+                        {summary.class_name ?? t.attendance_report_unassigned}
+                      </td>
+                      {renderCounts(summary)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
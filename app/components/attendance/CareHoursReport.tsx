@@ -0,0 +1,332 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { Clock, ChevronDown, ChevronRight, Download, FileSpreadsheet } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import EmptyState from '@/app/components/EmptyState';
+import { PageHeader } from '@/app/components/shared/PageHeader';
+import type {
+  CareHoursReport as CareHoursReportData,
+  CareHoursTotals,
+  TeacherClass,
+} from '@/lib/types/attendance';
+
+function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+function formatHours(hours: number): string {
+  return hours.toFixed(1);
+}
+
+function formatTime(timestamp: string | null): string {
+  if (!timestamp) return '–';
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+interface CareHoursReportProps {
+  backHref?: string;
+}
+
+export default function CareHoursReport({ backHref = '/dashboard/principal' }: CareHoursReportProps) {
+  const { t } = useLanguage();
+
+  const [month, setMonth] = useState<string>(currentMonth);
+  const [selectedClassId, setSelectedClassId] = useState<string>('all');
+  const [classes, setClasses] = useState<TeacherClass[]>([]);
+  const [report, setReport] = useState<CareHoursReportData | null>(null);
+  const [expandedStudentId, setExpandedStudentId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load classes for the class filter
+  useEffect(() => {
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const res = await fetch(`/api/classes?t=${Date.now()}`, {
+          cache: 'no-store',
+          signal: controller.signal,
+        });
+        if (res.ok) {
+          const data = await res.json();
+          setClasses(data.classes || []);
+        }
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error('Error loading classes for care hours report:', err);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, []);
+
+  const buildReportUrl = useCallback(
+    (format: 'json' | 'csv' | 'xlsx') => {
+      const params = new URLSearchParams({ month, format });
+      if (selectedClassId !== 'all') {
+        params.set('classId', selectedClassId);
+      }
+      return `/api/attendance/care-hours?${params.toString()}`;
+    },
+    [month, selectedClassId],
+  );
+
+  // Load report whenever the month or class filter changes
+  useEffect(() => {
+    if (!month) return;
+    const controller = new AbortController();
+    (async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const res = await fetch(buildReportUrl('json'), {
+          cache: 'no-store',
+          signal: controller.signal,
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || t.care_hours_failed);
+        }
+        setReport(data.report as CareHoursReportData);
+      } catch (err: unknown) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : t.care_hours_failed);
+        setReport(null);
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, [month, buildReportUrl, t]);
+
+  const renderTotals = (totals: CareHoursTotals) => (
+    <>
+      <td className="py-2 px-4 text-right text-ds-small text-slate-700 dark:text-slate-300">
+        {totals.days_in_care}
+      </td>
+      <td className="py-2 px-4 text-right text-ds-small text-slate-700 dark:text-slate-300">
+        {totals.open_days}
+      </td>
+      <td className="py-2 px-4 text-right text-ds-small text-slate-700 dark:text-slate-300">
+        {formatHours(totals.hours)}
+      </td>
+      <td className="py-2 px-4 text-right text-ds-small font-medium text-slate-900 dark:text-slate-100">
+        {formatHours(totals.weighted_hours)}
+      </td>
+    </>
+  );
+
+  const headerCellClass = 'py-2 px-4 text-ds-small font-medium text-white dark:text-slate-300';
+  const totalsHeaders = (
+    <>
+      <th className={`${headerCellClass} text-right`}>{t.care_hours_days}</th>
+      <th className={`${headerCellClass} text-right`}>{t.care_hours_open_days}</th>
+      <th className={`${headerCellClass} text-right`}>{t.care_hours_hours}</th>
+      <th className={`${headerCellClass} text-right`}>{t.care_hours_weighted_hours}</th>
+    </>
+  );
+
+  return (
+    <>
+      <PageHeader
+        title={t.care_hours_title}
+        subtitle={t.care_hours_subtitle}
+        headingLevel="h1"
+        showBackButton={true}
+        backHref={backHref}
+        rightActions={
+          <div className="flex flex-wrap items-center gap-2">
+            <a
+              href={buildReportUrl('csv')}
+              className="inline-flex items-center gap-2 rounded-ds-md border border-slate-300 bg-white px-4 py-2 text-ds-small hover:bg-mint-50 transition-colors dark:border-slate-600 dark:bg-slate-800 dark:text-slate-200 dark:hover:bg-slate-700"
+            >
+              <Download className="h-4 w-4" />
+              {t.attendance_report_export_csv}
+            </a>
+            <a
+              href={buildReportUrl('xlsx')}
+              className="inline-flex items-center gap-2 rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small text-white hover:bg-mint-600 transition-colors"
+            >
+              <FileSpreadsheet className="h-4 w-4" />
+              {t.attendance_report_export_xlsx}
+            </a>
+          </div>
+        }
+      />
+
+      <div className="mb-ds-sm flex flex-col gap-2 sm:flex-row sm:items-center">
+        <label className="flex items-center gap-2 text-ds-small text-slate-700 dark:text-slate-300">
+          {t.attendance_report_month}
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            className="rounded-ds-md border border-slate-300 px-4 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200"
+          />
+        </label>
+        <select
+          value={selectedClassId}
+          onChange={(e) => setSelectedClassId(e.target.value)}
+          className="w-full sm:w-auto rounded-ds-md border border-[#D8EBD8] bg-[#F5FFF7] px-3 sm:px-4 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200"
+        >
+          <option value="all">{t.all_classes}</option>
+          {classes.map((cls) => (
+            <option key={cls.id} value={cls.id}>
+              {cls.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <LoadingSkeleton type="table" rows={6} />
+      ) : !report || report.students.length === 0 ? (
+        <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+          <EmptyState
+            icon={Clock}
+            title={t.care_hours_title}
+            description={t.care_hours_empty}
+          />
+        </div>
+      ) : (
+        <div className="space-y-ds-md">
+          {/* Class totals */}
+          <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+            <h2 className="mb-3 text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">
+              {t.attendance_report_by_class}
+            </h2>
+            <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-ds-md">
+              <table className="w-full min-w-[640px] border-collapse">
+                <thead>
+                  <tr className="bg-mint-500">
+                    <th className={`${headerCellClass} text-left`}>{t.col_class}</th>
+                    <th className={`${headerCellClass} text-right`}>{t.attendance_report_students}</th>
+                    {totalsHeaders}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.classes.map((summary) => (
+                    <tr
+                      key={summary.class_id ?? 'unassigned'}
+                      className="border-b border-slate-100 dark:border-slate-700 hover:bg-mint-50 dark:hover:bg-slate-700/50 transition-colors"
+                    >
+                      <td className="py-2 px-4 text-ds-small text-slate-900 dark:text-slate-100">
+                        {summary.class_name ?? t.attendance_report_unassigned}
+                      </td>
+                      <td className="py-2 px-4 text-right text-ds-small text-slate-700 dark:text-slate-300">
+                        {summary.student_count}
+                      </td>
+                      {renderTotals(summary)}
+                    </tr>
+                  ))}
+                  <tr className="bg-mint-50 font-medium dark:bg-slate-700/50">
+                    <td className="py-2 px-4 text-ds-small text-slate-900 dark:text-slate-100">
+                      {t.attendance_report_total}
+                    </td>
+                    <td className="py-2 px-4 text-right text-ds-small text-slate-700 dark:text-slate-300">
+                      {report.students.length}
+                    </td>
+                    {renderTotals(report.totals)}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Per-child totals with daily breakdown */}
+          <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+            <h2 className="mb-3 text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">
+              {t.attendance_report_by_student}
+            </h2>
+            <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-ds-md">
+              <table className="w-full min-w-[760px] border-collapse">
+                <thead>
+                  <tr className="bg-mint-500">
+                    <th className={`${headerCellClass} text-left`}>{t.col_student_name}</th>
+                    <th className={`${headerCellClass} text-left`}>{t.col_class}</th>
+                    <th className={`${headerCellClass} text-right`}>{t.care_hours_barngildi}</th>
+                    {totalsHeaders}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.students.map((summary) => {
+                    const isExpanded = expandedStudentId === summary.student_id;
+                    return (
+                      <Fragment key={summary.student_id}>
+                        <tr
+                          onClick={() => setExpandedStudentId(isExpanded ? null : summary.student_id)}
+                          className="cursor-pointer border-b border-slate-100 dark:border-slate-700 hover:bg-mint-50 dark:hover:bg-slate-700/50 transition-colors"
+                        >
+                          <td className="py-2 px-4 text-ds-small text-slate-900 dark:text-slate-100">
+                            <span className="inline-flex items-center gap-1">
+                              {isExpanded ? (
+                                <ChevronDown className="h-4 w-4 text-slate-500" />
+                              ) : (
+                                <ChevronRight className="h-4 w-4 text-slate-500" />
+                              )}
+                              {`${summary.first_name} ${summary.last_name ?? ''}`.trim()}
+                            </span>
+                          </td>
+                          <td className="py-2 px-4 text-ds-small text-slate-600 dark:text-slate-400">
+                            {summary.class_name ?? t.attendance_report_unassigned}
+                          </td>
+                          <td className="py-2 px-4 text-right text-ds-small text-slate-700 dark:text-slate-300">
+                            {summary.barngildi}
+                          </td>
+                          {renderTotals(summary)}
+                        </tr>
+                        {isExpanded && (
+                          <tr className="bg-slate-50 dark:bg-slate-900/40">
+                            <td colSpan={7} className="px-4 py-3">
+                              <h3 className="mb-2 text-ds-small font-medium text-slate-700 dark:text-slate-300">
+                                {t.care_hours_daily}
+                              </h3>
+                              <table className="w-full border-collapse">
+                                <thead>
+                                  <tr className="text-ds-tiny text-slate-500 dark:text-slate-400">
+                                    <th className="py-1 pr-4 text-left font-medium">{t.date}</th>
+                                    <th className="py-1 pr-4 text-left font-medium">{t.care_hours_arrived}</th>
+                                    <th className="py-1 pr-4 text-left font-medium">{t.care_hours_left}</th>
+                                    <th className="py-1 text-right font-medium">{t.care_hours_hours}</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {summary.days.map((day) => (
+                                    <tr key={day.date} className="text-ds-small text-slate-700 dark:text-slate-300">
+                                      <td className="py-1 pr-4">{day.date}</td>
+                                      <td className="py-1 pr-4">{formatTime(day.arrived_at)}</td>
+                                      <td className="py-1 pr-4">
+                                        {day.left_at ? formatTime(day.left_at) : t.care_hours_not_checked_out}
+                                      </td>
+                                      <td className="py-1 text-right">
+                                        {day.hours === null ? '–' : formatHours(day.hours)}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useState } from 'react';
+import { CalendarOff, Plus, Trash2 } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import EmptyState from '@/app/components/EmptyState';
+import type { ClosureDay, ClosureDayKind } from '@/lib/types/attendance';
+
+const CLOSURE_KINDS: ClosureDayKind[] = ['planning_day', 'public_holiday', 'summer_closure', 'other'];
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+interface ClosureDaysManagerProps {
+  closures: ClosureDay[];
+  classes: Array<{ id: string; name: string }>;
+  onChanged: () => void | Promise<void>;
+}
+
+/**
+ * Principal view for adding and removing closure days.
+ * Only current and upcoming closures are listed; past ones stay in the calendar.
+ */
+export function ClosureDaysManager({ closures, classes, onChanged }: ClosureDaysManagerProps) {
+  const { t } = useLanguage();
+
+  const [title, setTitle] = useState('');
+  const [kind, setKind] = useState<ClosureDayKind>('planning_day');
+  const [classId, setClassId] = useState<string>('all');
+  const [startDate, setStartDate] = useState<string>(today);
+  const [endDate, setEndDate] = useState<string>(today);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const kindLabels: Record<ClosureDayKind, string> = {
+    planning_day: t.closure_kind_planning_day,
+    public_holiday: t.closure_kind_public_holiday,
+    summer_closure: t.closure_kind_summer_closure,
+    other: t.closure_kind_other,
+  };
+
+  const upcoming = closures.filter((closure) => closure.end_date >= today());
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/attendance/closures', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: title.trim(),
+          kind,
+          class_id: classId === 'all' ? null : classId,
+          start_date: startDate,
+          end_date: endDate < startDate ? startDate : endDate,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.closures_failed);
+      }
+      setTitle('');
+      await onChanged();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.closures_failed);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (closure: ClosureDay) => {
+    if (!confirm(t.closures_delete_confirm.replace('{title}', closure.title))) return;
+
+    setError(null);
+    try {
+      const res = await fetch(`/api/attendance/closures?id=${closure.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || t.closures_failed);
+      }
+      await onChanged();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.closures_failed);
+    }
+  };
+
+  const inputClassName =
+    'rounded-ds-md border border-[#D8EBD8] bg-[#F5FFF7] px-3 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200';
+
+  return (
+    <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+      <h2 className="mb-1 text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">
+        {t.closures_title}
+      </h2>
+      <p className="mb-3 text-ds-small text-slate-600 dark:text-slate-400">{t.closures_description}</p>
+
+      {error && (
+        <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="mb-ds-sm grid grid-cols-1 gap-2 sm:grid-cols-2 lg:grid-cols-6">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder={t.closures_title_placeholder}
+          maxLength={200}
+          className={`${inputClassName} lg:col-span-2`}
+          required
+        />
+        <select value={kind} onChange={(e) => setKind(e.target.value as ClosureDayKind)} className={inputClassName}>
+          {CLOSURE_KINDS.map((value) => (
+            <option key={value} value={value}>
+              {kindLabels[value]}
+            </option>
+          ))}
+        </select>
+        <select value={classId} onChange={(e) => setClassId(e.target.value)} className={inputClassName}>
+          <option value="all">{t.closures_whole_org}</option>
+          {classes.map((cls) => (
+            <option key={cls.id} value={cls.id}>
+              {cls.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          aria-label={t.closures_start_date}
+          className={inputClassName}
+          required
+        />
+        <input
+          type="date"
+          value={endDate}
+          min={startDate}
+          onChange={(e) => setEndDate(e.target.value)}
+          aria-label={t.closures_end_date}
+          className={inputClassName}
+          required
+        />
+        <button
+          type="submit"
+          disabled={isSaving || !title.trim()}
+          className="inline-flex items-center justify-center gap-2 rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small text-white hover:bg-mint-600 transition-colors disabled:opacity-50 sm:col-span-2 lg:col-span-6 lg:justify-self-end"
+        >
+          <Plus className="h-4 w-4" />
+          {t.closures_add}
+        </button>
+      </form>
+
+      {upcoming.length === 0 ? (
+        <EmptyState icon={CalendarOff} title={t.closures_title} description={t.closures_empty} />
+      ) : (
+        <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+          {upcoming.map((closure) => (
+            <li key={closure.id} className="flex items-center justify-between gap-3 py-2">
+              <div>
+                <p className="text-ds-small font-medium text-slate-900 dark:text-slate-100">
+                  {closure.title}
+                  <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-ds-tiny font-medium text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
+                    {kindLabels[closure.kind]}
+                  </span>
+                </p>
+                <p className="text-ds-tiny text-slate-500 dark:text-slate-400">
+                  {closure.start_date === closure.end_date
+                    ? closure.start_date
+                    : `${closure.start_date} – ${closure.end_date}`}
+                  {' · '}
+                  {closure.classes?.name ?? t.closures_whole_org}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDelete(closure)}
+                className="inline-flex items-center gap-1 rounded-ds-md border border-slate-300 px-3 py-1.5 text-ds-tiny hover:bg-red-50 hover:text-red-700 transition-colors dark:border-slate-600 dark:text-slate-200 dark:hover:bg-slate-700"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                {t.closures_delete}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
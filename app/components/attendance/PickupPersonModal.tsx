@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { X, UserCheck } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import type { PickupPerson, PickupSelection } from '@/lib/types/attendance';
+
+export interface PickupPersonModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (selection: PickupSelection) => void;
+  studentId: string;
+  studentName: string;
+}
+
+/**
+ * Lets staff record who is collecting a child from the list of
+ * guardians and relatives authorized to pick them up.
+ */
+export function PickupPersonModal({
+  isOpen,
+  onClose,
+  onConfirm,
+  studentId,
+  studentName,
+}: PickupPersonModalProps) {
+  const { t } = useLanguage();
+  const [persons, setPersons] = useState<PickupPerson[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const res = await fetch(`/api/attendance/pickup-persons?studentId=${studentId}`, {
+          cache: 'no-store',
+          signal: controller.signal,
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || t.pickup_load_failed);
+        }
+        setPersons(data.persons || []);
+      } catch (err: unknown) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : t.pickup_load_failed);
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, [isOpen, studentId, t]);
+
+  const handleConfirm = () => {
+    const person = persons.find((p) => `${p.kind}-${p.id}` === selectedKey);
+    if (!person) return;
+    onConfirm(
+      person.kind === 'guardian'
+        ? { guardian_id: person.id, name: person.full_name }
+        : { relative_id: person.id, name: person.full_name },
+    );
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="w-full max-w-md rounded-ds-lg bg-white dark:bg-slate-800 p-ds-md shadow-ds-lg max-h-[90vh] overflow-y-auto">
+        <div className="mb-4 flex items-center justify-between">
+          <div>
+            <h3 className="text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">
+              {t.pickup_title}
+            </h3>
+            <p className="text-ds-small text-slate-600 dark:text-slate-400">{studentName}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-ds-md p-1 hover:bg-mint-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="h-6 w-6 animate-spin rounded-full border-2 border-mint-500 border-t-transparent"></div>
+          </div>
+        ) : persons.length === 0 ? (
+          <p className="py-4 text-ds-small text-slate-600 dark:text-slate-400">{t.pickup_none_authorized}</p>
+        ) : (
+          <ul className="space-y-2">
+            {persons.map((person) => {
+              const key = `${person.kind}-${person.id}`;
+              const isSelected = selectedKey === key;
+              return (
+                <li key={key}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedKey(key)}
+                    className={`flex w-full items-center gap-3 rounded-ds-md border px-3 py-2 text-left transition-colors ${
+                      isSelected
+                        ? 'border-mint-500 bg-mint-50 dark:bg-mint-900/20'
+                        : 'border-slate-200 hover:bg-mint-50 dark:border-slate-700 dark:hover:bg-slate-700'
+                    }`}
+                  >
+                    {person.photo_url ? (
+                      <img
+                        src={person.photo_url}
+                        alt={person.full_name}
+                        className="h-12 w-12 flex-shrink-0 rounded-ds-md border border-slate-200 object-cover dark:border-slate-700"
+                      />
+                    ) : (
+                      <div className="flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-ds-md bg-slate-100 text-slate-400 dark:bg-slate-700">
+                        <UserCheck className="h-5 w-5" />
+                      </div>
+                    )}
+                    <div className="min-w-0">
+                      <div className="text-ds-small font-medium text-slate-900 dark:text-slate-100">
+                        {person.full_name}
+                      </div>
+                      <div className="text-ds-tiny text-slate-500 dark:text-slate-400">
+                        {person.kind === 'guardian' ? t.pickup_kind_guardian : t.pickup_kind_relative}
+                        {person.relation && ` · ${person.relation}`}
+                        {person.phone && ` · ${person.phone}`}
+                      </div>
+                    </div>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="flex gap-3 pt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 rounded-ds-md border border-slate-300 px-4 py-2 text-ds-small text-slate-700 hover:bg-mint-50 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600 transition-colors"
+          >
+            {t.cancel}
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={!selectedKey}
+            className="flex-1 rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small text-white hover:bg-mint-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {t.pickup_confirm}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,14 +3,58 @@
 import React from 'react';
 import { enText } from '@/lib/translations/en';
 import { isText } from '@/lib/translations/is';
+import type { AttendanceSyncState } from '@/lib/types/attendance';
 
 interface UnsavedChangesWarningProps {
   lang: 'is' | 'en';
+  hasUnsavedChanges?: boolean;
+  syncState?: AttendanceSyncState;
+  queuedCount?: number;
+  conflictCount?: number;
+  rejectedCount?: number;
 }
 
 export const UnsavedChangesWarning = React.memo<UnsavedChangesWarningProps>(
-  function UnsavedChangesWarning({ lang }) {
+  function UnsavedChangesWarning({
+    lang,
+    hasUnsavedChanges = true,
+    syncState = 'idle',
+    queuedCount = 0,
+    conflictCount = 0,
+    rejectedCount = 0,
+  }) {
     const t = lang === 'is' ? isText : enText;
+
+    // Offline queue status takes precedence: changes are safe on the device but not yet on the server
+    if (syncState === 'queued' || syncState === 'syncing') {
+      return (
+        <div className="mb-2 sm:mb-ds-sm rounded-ds-md bg-blue-50 border border-blue-200 p-2 sm:p-3 text-ds-tiny sm:text-ds-small text-blue-800 dark:bg-blue-900/20 dark:border-blue-800 dark:text-blue-300">
+          {syncState === 'syncing'
+            ? t.attendance_syncing
+            : t.attendance_queued_offline.replace('{count}', String(queuedCount))}
+          {hasUnsavedChanges && ` ${t.unsaved_changes_warning}`}
+        </div>
+      );
+    }
+
+    if (syncState === 'synced' && !hasUnsavedChanges) {
+      return (
+        <div className="mb-2 sm:mb-ds-sm rounded-ds-md bg-mint-50 border border-mint-200 p-2 sm:p-3 text-ds-tiny sm:text-ds-small text-mint-800 dark:bg-mint-900/20 dark:border-mint-800 dark:text-mint-300">
+          {t.attendance_synced}
+          {conflictCount > 0 && ` ${t.attendance_sync_conflicts.replace('{count}', String(conflictCount))}`}
+        </div>
+      );
+    }
+
+    if (syncState === 'rejected' && !hasUnsavedChanges) {
+      return (
+        <div className="mb-2 sm:mb-ds-sm rounded-ds-md bg-red-50 border border-red-200 p-2 sm:p-3 text-ds-tiny sm:text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {t.attendance_sync_rejected.replace('{count}', String(rejectedCount))}
+          {conflictCount > 0 && ` ${t.attendance_sync_conflicts.replace('{count}', String(conflictCount))}`}
+        </div>
+      );
+    }
+
     return (
       <div className="mb-2 sm:mb-ds-sm rounded-ds-md bg-amber-50 border border-amber-200 p-2 sm:p-3 text-ds-tiny sm:text-ds-small text-amber-800 dark:bg-amber-900/20 dark:border-amber-800 dark:text-amber-300">
         {t.unsaved_changes_warning || (lang === 'is'
@@ -20,4 +64,3 @@ export const UnsavedChangesWarning = React.memo<UnsavedChangesWarningProps>(
     );
   }
 );
-
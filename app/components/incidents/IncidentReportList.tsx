@@ -0,0 +1,329 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Bandage, Check, ChevronDown, ChevronUp, Printer, Send } from 'lucide-react';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import EmptyState from '@/app/components/EmptyState';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import type {
+  IncidentReport,
+  IncidentReportHistoryEntry,
+  IncidentReportStatus,
+  InjuryBodyArea,
+} from '@/lib/types/incidents';
+
+const STATUS_BADGE: Record<IncidentReportStatus, string> = {
+  pending_review: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  sent_to_guardians: 'bg-sky-100 text-sky-800 dark:bg-sky-900/30 dark:text-sky-300',
+  acknowledged: 'bg-mint-100 text-mint-800 dark:bg-mint-900/30 dark:text-mint-300',
+};
+
+function formatDateTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleString([], {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function personName(person: { first_name: string | null; last_name: string | null } | null | undefined): string {
+  if (!person) return '';
+  return `${person.first_name ?? ''} ${person.last_name ?? ''}`.trim();
+}
+
+interface IncidentReportItemProps {
+  report: IncidentReport;
+  /** principals review, guardians acknowledge, teachers only read */
+  mode: 'review' | 'guardian' | 'readonly';
+  onChanged: () => Promise<void>;
+}
+
+function IncidentReportItem({ report, mode, onChanged }: IncidentReportItemProps) {
+  const { t, lang } = useLanguage();
+  const [expanded, setExpanded] = useState(false);
+  const [history, setHistory] = useState<IncidentReportHistoryEntry[] | null>(null);
+  const [reviewNotes, setReviewNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const details = report.health_logs?.data ?? {};
+  const statusLabels: Record<IncidentReportStatus, string> = {
+    pending_review: t.incident_status_pending_review,
+    sent_to_guardians: t.incident_status_sent_to_guardians,
+    acknowledged: t.incident_status_acknowledged,
+  };
+  const areaLabel = (area: InjuryBodyArea) =>
+    (t as unknown as Record<string, string>)[`injury_area_${area}`] ?? area;
+
+  // History is only needed once the report is opened
+  useEffect(() => {
+    if (!expanded || history) return;
+
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const res = await fetch(`/api/incidents/${report.id}?t=${Date.now()}`, {
+          cache: 'no-store',
+          signal: controller.signal,
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || t.incident_load_failed);
+        }
+        setHistory(data.report?.history ?? []);
+      } catch (err: unknown) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : t.incident_load_failed);
+      }
+    })();
+    return () => controller.abort();
+  }, [expanded, history, report.id, t]);
+
+  const runAction = async (path: 'review' | 'acknowledge', body?: Record<string, unknown>) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/incidents/${report.id}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body ?? {}),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.incident_action_failed);
+      }
+      setHistory(null);
+      await onChanged();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.incident_action_failed);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <li className="py-3">
+      <button
+        type="button"
+        onClick={() => setExpanded((value) => !value)}
+        className="flex w-full items-start justify-between gap-3 text-left"
+      >
+        <div>
+          <p className="text-ds-small font-medium text-slate-900 dark:text-slate-100">
+            {personName(report.students?.users)}
+            {report.students?.classes?.name && (
+              <span className="ml-2 text-ds-tiny text-slate-500 dark:text-slate-400">
+                ({report.students.classes.name})
+              </span>
+            )}
+            <span className={`ml-2 rounded-full px-2 py-0.5 text-ds-tiny font-medium ${STATUS_BADGE[report.status]}`}>
+              {statusLabels[report.status]}
+            </span>
+          </p>
+          <p className="text-ds-tiny text-slate-500 dark:text-slate-400">
+            {report.health_logs?.recorded_at ? formatDateTime(report.health_logs.recorded_at) : ''}
+            {details.location ? ` · ${details.location}` : ''}
+            {details.body_areas?.length ? ` · ${details.body_areas.map(areaLabel).join(', ')}` : ''}
+          </p>
+        </div>
+        {expanded ? (
+          <ChevronUp className="h-4 w-4 flex-shrink-0 text-slate-400" />
+        ) : (
+          <ChevronDown className="h-4 w-4 flex-shrink-0 text-slate-400" />
+        )}
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-3 rounded-ds-md bg-slate-50 p-3 dark:bg-slate-900/40">
+          <dl className="grid gap-2 text-ds-small sm:grid-cols-2">
+            <div>
+              <dt className="text-ds-tiny text-slate-500 dark:text-slate-400">{t.incident_first_aid}</dt>
+              <dd className="text-slate-900 dark:text-slate-100">{details.first_aid || '—'}</dd>
+            </div>
+            <div>
+              <dt className="text-ds-tiny text-slate-500 dark:text-slate-400">{t.incident_witnesses}</dt>
+              <dd className="text-slate-900 dark:text-slate-100">{details.witnesses || '—'}</dd>
+            </div>
+            <div>
+              <dt className="text-ds-tiny text-slate-500 dark:text-slate-400">{t.incident_body_area_details}</dt>
+              <dd className="text-slate-900 dark:text-slate-100">{details.body_area_details || '—'}</dd>
+            </div>
+            <div>
+              <dt className="text-ds-tiny text-slate-500 dark:text-slate-400">{t.incident_reported_by}</dt>
+              <dd className="text-slate-900 dark:text-slate-100">
+                {personName(report.health_logs?.recorded_by_user) || '—'}
+              </dd>
+            </div>
+            {report.health_logs?.notes && (
+              <div className="sm:col-span-2">
+                <dt className="text-ds-tiny text-slate-500 dark:text-slate-400">{t.incident_notes}</dt>
+                <dd className="text-slate-900 dark:text-slate-100">{report.health_logs.notes}</dd>
+              </div>
+            )}
+            {report.review_notes && (
+              <div className="sm:col-span-2">
+                <dt className="text-ds-tiny text-slate-500 dark:text-slate-400">{t.incident_review_notes}</dt>
+                <dd className="text-slate-900 dark:text-slate-100">{report.review_notes}</dd>
+              </div>
+            )}
+          </dl>
+
+          <div>
+            <p className="mb-1 text-ds-tiny font-medium text-slate-500 dark:text-slate-400">
+              {t.incident_section_history}
+            </p>
+            {history === null ? (
+              <LoadingSkeleton type="table" rows={2} className="border-0 p-0" />
+            ) : (
+              <ol className="space-y-1 border-l-2 border-slate-200 pl-3 dark:border-slate-700">
+                {history.map((entry) => (
+                  <li key={entry.id} className="text-ds-tiny text-slate-700 dark:text-slate-300">
+                    <span className="tabular-nums text-slate-500 dark:text-slate-400">
+                      {formatDateTime(entry.changed_at)}
+                    </span>
+                    {' · '}
+                    {statusLabels[entry.new_status]}
+                    {entry.changed_by_user ? ` · ${personName(entry.changed_by_user)}` : ''}
+                    {entry.notes ? ` · ${entry.notes}` : ''}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          {error && (
+            <div className="rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+              {error}
+            </div>
+          )}
+
+          {mode === 'review' && report.status === 'pending_review' && (
+            <div>
+              <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+                {t.incident_review_notes}
+              </label>
+              <textarea
+                value={reviewNotes}
+                onChange={(e) => setReviewNotes(e.target.value)}
+                rows={2}
+                className="w-full rounded-ds-md border border-[#D8EBD8] bg-[#F5FFF7] px-4 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200"
+                placeholder={t.incident_review_notes_ph}
+              />
+            </div>
+          )}
+
+          <div className="flex flex-wrap justify-end gap-2">
+            <a
+              href={`/api/incidents/${report.id}/pdf?lang=${lang}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-2 rounded-ds-md border border-slate-300 bg-white px-3 py-1.5 text-ds-small hover:bg-mint-50 transition-colors dark:border-slate-600 dark:bg-slate-800 dark:text-slate-200 dark:hover:bg-slate-700"
+            >
+              <Printer className="h-4 w-4" />
+              {t.incident_print}
+            </a>
+            {mode === 'review' && report.status === 'pending_review' && (
+              <button
+                type="button"
+                onClick={() => runAction('review', { notes: reviewNotes.trim() || null })}
+                disabled={submitting}
+                className="inline-flex items-center gap-2 rounded-ds-md bg-mint-500 px-3 py-1.5 text-ds-small text-white hover:bg-mint-600 transition-colors disabled:opacity-50"
+              >
+                <Send className="h-4 w-4" />
+                {t.incident_send_to_guardians}
+              </button>
+            )}
+            {mode === 'guardian' && report.status === 'sent_to_guardians' && (
+              <button
+                type="button"
+                onClick={() => runAction('acknowledge')}
+                disabled={submitting}
+                className="inline-flex items-center gap-2 rounded-ds-md bg-mint-500 px-3 py-1.5 text-ds-small text-white hover:bg-mint-600 transition-colors disabled:opacity-50"
+              >
+                <Check className="h-4 w-4" />
+                {t.incident_acknowledge}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </li>
+  );
+}
+
+interface IncidentReportListProps {
+  mode: 'review' | 'guardian' | 'readonly';
+  studentId?: string;
+  status?: IncidentReportStatus;
+}
+
+/**
+ * Incident reports opened from injury logs, newest first. Each report opens
+ * to its details, status history and a printable PDF.
+ */
+export function IncidentReportList({ mode, studentId, status }: IncidentReportListProps) {
+  const { t } = useLanguage();
+  const [reports, setReports] = useState<IncidentReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReports = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const params = new URLSearchParams({ t: Date.now().toString() });
+      if (studentId) params.set('studentId', studentId);
+      if (status) params.set('status', status);
+
+      const res = await fetch(`/api/incidents?${params.toString()}`, { cache: 'no-store', signal });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.incident_load_failed);
+      }
+      setReports(data.reports || []);
+      setError(null);
+    } catch (err: unknown) {
+      if (signal?.aborted) return;
+      setError(err instanceof Error ? err.message : t.incident_load_failed);
+    } finally {
+      if (!signal?.aborted) {
+        setLoading(false);
+      }
+    }
+  }, [studentId, status, t]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void loadReports(controller.signal);
+    return () => controller.abort();
+  }, [loadReports]);
+
+  if (loading) {
+    return <LoadingSkeleton type="table" rows={3} className="border-0 p-0" />;
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+        {error}
+      </div>
+    );
+  }
+
+  if (reports.length === 0) {
+    return (
+      <EmptyState
+        icon={Bandage}
+        title={t.incident_empty_title}
+        description={t.incident_empty_description}
+      />
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+      {reports.map((report) => (
+        <IncidentReportItem key={report.id} report={report} mode={mode} onChanged={() => loadReports()} />
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import type { InjuryBodyArea, InjuryDetails } from '@/lib/types/incidents';
+
+export const INJURY_BODY_AREAS: InjuryBodyArea[] = [
+  'head',
+  'face',
+  'neck',
+  'chest',
+  'abdomen',
+  'back',
+  'left_arm',
+  'right_arm',
+  'left_hand',
+  'right_hand',
+  'left_leg',
+  'right_leg',
+  'left_foot',
+  'right_foot',
+];
+
+const inputClassName =
+  'w-full rounded-ds-md border border-[#D8EBD8] bg-[#F5FFF7] px-4 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200';
+const labelClassName = 'block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1';
+
+/**
+ * Whether the required details for an incident report are filled in
+ */
+export function isInjuryDetailsComplete(data: Record<string, unknown>): boolean {
+  const details = data as Partial<InjuryDetails>;
+  return Boolean(
+    details.location?.trim() && details.first_aid?.trim() && (details.body_areas?.length ?? 0) > 0,
+  );
+}
+
+interface InjuryDetailsFieldsProps {
+  data: Record<string, unknown>;
+  onChange: (data: Record<string, unknown>) => void;
+}
+
+/**
+ * Incident report fields of an injury health log, kept in the log's data
+ */
+export function InjuryDetailsFields({ data, onChange }: InjuryDetailsFieldsProps) {
+  const { t } = useLanguage();
+  const details = data as Partial<InjuryDetails>;
+  const bodyAreas = details.body_areas ?? [];
+
+  const setField = (field: keyof InjuryDetails, value: unknown) => onChange({ ...data, [field]: value });
+
+  const toggleArea = (area: InjuryBodyArea) => {
+    setField(
+      'body_areas',
+      bodyAreas.includes(area) ? bodyAreas.filter((a) => a !== area) : [...bodyAreas, area],
+    );
+  };
+
+  const areaLabel = (area: InjuryBodyArea) =>
+    (t as unknown as Record<string, string>)[`injury_area_${area}`] ?? area;
+
+  return (
+    <div className="space-y-3 rounded-ds-md border border-amber-200 bg-amber-50/50 p-3 dark:border-amber-800 dark:bg-amber-900/10">
+      <p className="text-ds-tiny text-amber-800 dark:text-amber-300">{t.incident_form_hint}</p>
+
+      <div>
+        <label className={labelClassName}>
+          {t.incident_location} <span className="text-red-500">*</span>
+        </label>
+        <input
+          type="text"
+          value={details.location ?? ''}
+          onChange={(e) => setField('location', e.target.value)}
+          className={inputClassName}
+          placeholder={t.incident_location_ph}
+          required
+        />
+      </div>
+
+      <fieldset>
+        <legend className={labelClassName}>
+          {t.incident_body_areas} <span className="text-red-500">*</span>
+        </legend>
+        <div className="grid grid-cols-2 gap-1 sm:grid-cols-3">
+          {INJURY_BODY_AREAS.map((area) => (
+            <label key={area} className="flex items-center gap-2 text-ds-small text-slate-700 dark:text-slate-300">
+              <input
+                type="checkbox"
+                checked={bodyAreas.includes(area)}
+                onChange={() => toggleArea(area)}
+                className="rounded border-slate-300 text-mint-600 focus:ring-mint-500"
+              />
+              {areaLabel(area)}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div>
+        <label className={labelClassName}>{t.incident_body_area_details}</label>
+        <input
+          type="text"
+          value={details.body_area_details ?? ''}
+          onChange={(e) => setField('body_area_details', e.target.value)}
+          className={inputClassName}
+          placeholder={t.incident_body_area_details_ph}
+        />
+      </div>
+
+      <div>
+        <label className={labelClassName}>
+          {t.incident_first_aid} <span className="text-red-500">*</span>
+        </label>
+        <textarea
+          value={details.first_aid ?? ''}
+          onChange={(e) => setField('first_aid', e.target.value)}
+          rows={2}
+          className={inputClassName}
+          placeholder={t.incident_first_aid_ph}
+          required
+        />
+      </div>
+
+      <div>
+        <label className={labelClassName}>{t.incident_witnesses}</label>
+        <input
+          type="text"
+          value={details.witnesses ?? ''}
+          onChange={(e) => setField('witnesses', e.target.value)}
+          className={inputClassName}
+          placeholder={t.incident_witnesses_ph}
+        />
+      </div>
+    </div>
+  );
+}
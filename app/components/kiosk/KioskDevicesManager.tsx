@@ -0,0 +1,230 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Copy, Plus, QrCode, Trash2 } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import EmptyState from '@/app/components/EmptyState';
+import { PageHeader } from '@/app/components/shared/PageHeader';
+import type { KioskDevice } from '@/lib/types/kiosk';
+
+function formatDateTime(timestamp: string | null): string {
+  if (!timestamp) return '–';
+  return new Date(timestamp).toLocaleString([], {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+interface KioskDevicesManagerProps {
+  backHref?: string;
+}
+
+export default function KioskDevicesManager({ backHref = '/dashboard/principal' }: KioskDevicesManagerProps) {
+  const { t } = useLanguage();
+
+  const [devices, setDevices] = useState<KioskDevice[]>([]);
+  const [name, setName] = useState('');
+  const [newToken, setNewToken] = useState<{ deviceName: string; token: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDevices = useCallback(async () => {
+    try {
+      setError(null);
+      const res = await fetch(`/api/kiosk/devices?t=${Date.now()}`, { cache: 'no-store' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.kiosk_devices_failed);
+      }
+      setDevices(data.devices || []);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.kiosk_devices_failed);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadDevices();
+  }, [loadDevices]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/kiosk/devices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim() }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.kiosk_devices_failed);
+      }
+      setNewToken({ deviceName: data.device.name, token: data.token });
+      setCopied(false);
+      setName('');
+      await loadDevices();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.kiosk_devices_failed);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (device: KioskDevice) => {
+    if (!confirm(t.kiosk_devices_revoke_confirm.replace('{name}', device.name))) return;
+
+    setError(null);
+    try {
+      const res = await fetch(`/api/kiosk/devices?id=${device.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || t.kiosk_devices_failed);
+      }
+      await loadDevices();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.kiosk_devices_failed);
+    }
+  };
+
+  const handleCopyToken = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken.token);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy kiosk token:', err);
+    }
+  };
+
+  return (
+    <>
+      <PageHeader
+        title={t.kiosk_devices_title}
+        subtitle={t.kiosk_devices_subtitle}
+        headingLevel="h1"
+        showBackButton={true}
+        backHref={backHref}
+      />
+
+      {error && (
+        <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {newToken && (
+        <div className="mb-ds-sm rounded-ds-lg border border-mint-200 bg-mint-50 p-ds-md dark:border-mint-800 dark:bg-mint-900/20">
+          <h2 className="mb-1 text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">
+            {t.kiosk_devices_token_title.replace('{name}', newToken.deviceName)}
+          </h2>
+          <p className="mb-3 text-ds-small text-slate-700 dark:text-slate-300">
+            {t.kiosk_devices_token_hint}
+          </p>
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+            <code className="flex-1 break-all rounded-ds-md border border-[#D8EBD8] bg-white px-3 py-2 text-ds-small text-slate-900 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-100">
+              {newToken.token}
+            </code>
+            <button
+              onClick={handleCopyToken}
+              className="inline-flex items-center justify-center gap-2 rounded-ds-md border border-slate-300 bg-white px-4 py-2 text-ds-small hover:bg-mint-50 transition-colors dark:border-slate-600 dark:bg-slate-800 dark:text-slate-200 dark:hover:bg-slate-700"
+            >
+              <Copy className="h-4 w-4" />
+              {copied ? t.kiosk_devices_copied : t.kiosk_devices_copy}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <form
+        onSubmit={handleCreate}
+        className="mb-ds-sm flex flex-col gap-2 rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card sm:flex-row sm:items-center dark:border-slate-700 dark:bg-slate-800"
+      >
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t.kiosk_devices_name_placeholder}
+          maxLength={100}
+          className="flex-1 rounded-ds-md border border-[#D8EBD8] bg-[#F5FFF7] px-4 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200"
+        />
+        <button
+          type="submit"
+          disabled={isSaving || !name.trim()}
+          className="inline-flex items-center justify-center gap-2 rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small text-white hover:bg-mint-600 transition-colors disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4" />
+          {t.kiosk_devices_add}
+        </button>
+      </form>
+
+      {isLoading ? (
+        <LoadingSkeleton type="table" rows={3} />
+      ) : devices.length === 0 ? (
+        <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+          <EmptyState
+            icon={QrCode}
+            title={t.kiosk_devices_title}
+            description={t.kiosk_devices_empty}
+          />
+        </div>
+      ) : (
+        <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+          <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-ds-md">
+            <table className="w-full min-w-[560px] border-collapse">
+              <thead>
+                <tr className="bg-mint-500">
+                  <th className="py-2 px-4 text-left text-ds-small font-medium text-white dark:text-slate-300">
+                    {t.kiosk_devices_col_name}
+                  </th>
+                  <th className="py-2 px-4 text-left text-ds-small font-medium text-white dark:text-slate-300">
+                    {t.kiosk_devices_col_last_seen}
+                  </th>
+                  <th className="py-2 px-4 text-left text-ds-small font-medium text-white dark:text-slate-300">
+                    {t.kiosk_devices_col_created}
+                  </th>
+                  <th className="py-2 px-4" />
+                </tr>
+              </thead>
+              <tbody>
+                {devices.map((device) => (
+                  <tr
+                    key={device.id}
+                    className="border-b border-slate-100 dark:border-slate-700 hover:bg-mint-50 dark:hover:bg-slate-700/50 transition-colors"
+                  >
+                    <td className="py-2 px-4 text-ds-small text-slate-900 dark:text-slate-100">{device.name}</td>
+                    <td className="py-2 px-4 text-ds-small text-slate-700 dark:text-slate-300">
+                      {device.last_seen_at ? formatDateTime(device.last_seen_at) : t.kiosk_devices_never_seen}
+                    </td>
+                    <td className="py-2 px-4 text-ds-small text-slate-700 dark:text-slate-300">
+                      {formatDateTime(device.created_at)}
+                    </td>
+                    <td className="py-2 px-4 text-right">
+                      <button
+                        onClick={() => handleRevoke(device)}
+                        className="inline-flex items-center gap-1 rounded-ds-md border border-slate-300 px-3 py-1.5 text-ds-tiny hover:bg-red-50 hover:text-red-700 transition-colors dark:border-slate-600 dark:text-slate-200 dark:hover:bg-slate-700"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                        {t.kiosk_devices_revoke}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+
+type DetectedBarcode = { rawValue: string };
+type BarcodeDetectorInstance = { detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]> };
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+const SCAN_INTERVAL_MS = 400;
+
+/**
+ * Pull the kiosk code out of a scanned QR. The kiosk encodes a link to
+ * the guardian kiosk page; a bare code is accepted as well.
+ */
+function extractKioskCode(rawValue: string): string | null {
+  try {
+    return new URL(rawValue).searchParams.get('code');
+  } catch {
+    return rawValue.trim() || null;
+  }
+}
+
+interface KioskScannerProps {
+  onCode: (code: string) => void;
+}
+
+/**
+ * Camera scanner for the kiosk QR using the browser's BarcodeDetector.
+ * Where that is unavailable, guardians scan with their phone camera app instead.
+ */
+export default function KioskScanner({ onCode }: KioskScannerProps) {
+  const { t } = useLanguage();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onCodeRef = useRef(onCode);
+  const [unsupported, setUnsupported] = useState(false);
+  const [cameraError, setCameraError] = useState(false);
+
+  useEffect(() => {
+    onCodeRef.current = onCode;
+  }, [onCode]);
+
+  useEffect(() => {
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    const detector = Detector && 'getUserMedia' in (navigator.mediaDevices ?? {}) ? new Detector({ formats: ['qr_code'] }) : null;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let cancelled = false;
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video || !detector) return;
+      try {
+        if (video.readyState >= 2) {
+          const [barcode] = await detector.detect(video);
+          const code = barcode ? extractKioskCode(barcode.rawValue) : null;
+          if (code) {
+            onCodeRef.current(code);
+            return;
+          }
+        }
+      } catch (err) {
+        console.error('Kiosk QR detection failed:', err);
+      }
+      timer = setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    (async () => {
+      if (!detector) {
+        setUnsupported(true);
+        return;
+      }
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (cancelled || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        scan();
+      } catch (err) {
+        console.error('Unable to start camera for kiosk scan:', err);
+        setCameraError(true);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  if (unsupported || cameraError) {
+    return (
+      <div className="rounded-ds-md bg-yellow-50 border border-yellow-200 px-4 py-3 text-ds-small text-yellow-700 dark:bg-yellow-900/20 dark:border-yellow-800 dark:text-yellow-400">
+        {unsupported ? t.kiosk_scan_unsupported : t.kiosk_scan_camera_error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-hidden rounded-ds-md border border-slate-200 bg-black dark:border-slate-700">
+      <video ref={videoRef} className="aspect-square w-full object-cover" muted playsInline />
+    </div>
+  );
+}
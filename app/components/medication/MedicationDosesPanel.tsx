@@ -0,0 +1,142 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Check, Pill } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import type { MedicationDose, MedicationDoseStatus } from '@/lib/types/medication';
+
+/** Dose statuses move with the clock, so the list is refreshed every minute */
+const REFRESH_MS = 60_000;
+
+const STATUS_BADGE: Record<MedicationDoseStatus, string> = {
+  upcoming: 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300',
+  due: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  given: 'bg-mint-100 text-mint-800 dark:bg-mint-900/30 dark:text-mint-300',
+  missed: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+};
+
+function formatTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Today's medication doses for the teacher's classes. Marking a dose as given
+ * records it in the child's health log. Hidden when no child has a dose today.
+ */
+export function MedicationDosesPanel() {
+  const { t } = useLanguage();
+  const [doses, setDoses] = useState<MedicationDose[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+
+  const loadDoses = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const res = await fetch(`/api/medication-plans/doses?t=${Date.now()}`, { cache: 'no-store', signal });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.medication_load_failed);
+      }
+      setDoses(data.doses || []);
+      setError(null);
+    } catch (err: unknown) {
+      if (signal?.aborted) return;
+      setError(err instanceof Error ? err.message : t.medication_load_failed);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void loadDoses(controller.signal);
+    const interval = setInterval(() => void loadDoses(controller.signal), REFRESH_MS);
+    return () => {
+      clearInterval(interval);
+      controller.abort();
+    };
+  }, [loadDoses]);
+
+  const handleGiven = async (dose: MedicationDose) => {
+    const key = `${dose.plan_id}-${dose.scheduled_time}`;
+    setPendingKey(key);
+    setError(null);
+    try {
+      const res = await fetch('/api/medication-plans/doses', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ plan_id: dose.plan_id, scheduled_time: dose.scheduled_time }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.medication_dose_failed);
+      }
+      await loadDoses();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.medication_dose_failed);
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  if (doses.length === 0 && !error) {
+    return null;
+  }
+
+  const statusLabels: Record<MedicationDoseStatus, string> = {
+    upcoming: t.medication_dose_upcoming,
+    due: t.medication_dose_due,
+    given: t.medication_dose_given,
+    missed: t.medication_dose_missed,
+  };
+
+  return (
+    <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+      <div className="mb-3 flex items-center gap-2">
+        <Pill className="h-5 w-5 text-mint-500 dark:text-mint-400" />
+        <h2 className="text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">{t.medication_doses_title}</h2>
+      </div>
+
+      {error && (
+        <div className="mb-3 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+        {doses.map((dose) => {
+          const key = `${dose.plan_id}-${dose.scheduled_time}`;
+          return (
+            <li key={key} className="flex items-center justify-between gap-3 py-2">
+              <div>
+                <p className="text-ds-small font-medium text-slate-900 dark:text-slate-100">
+                  <span className="tabular-nums">{dose.scheduled_time}</span>
+                  {' · '}
+                  {dose.student_name}
+                  <span className={`ml-2 rounded-full px-2 py-0.5 text-ds-tiny font-medium ${STATUS_BADGE[dose.status]}`}>
+                    {statusLabels[dose.status]}
+                  </span>
+                </p>
+                <p className="text-ds-tiny text-slate-500 dark:text-slate-400">
+                  {dose.medication_name} · {dose.dose}
+                  {dose.instructions ? ` · ${dose.instructions}` : ''}
+                </p>
+              </div>
+              {dose.status === 'given' ? (
+                <span className="text-ds-tiny text-slate-500 dark:text-slate-400">
+                  {dose.given_at ? t.medication_given_at.replace('{time}', formatTime(dose.given_at)) : ''}
+                </span>
+              ) : (
+                <button
+                  onClick={() => handleGiven(dose)}
+                  disabled={pendingKey === key}
+                  className="inline-flex items-center gap-1 rounded-ds-md bg-mint-500 px-3 py-1.5 text-ds-small text-white hover:bg-mint-600 transition-colors disabled:opacity-50 whitespace-nowrap"
+                >
+                  <Check className="h-4 w-4" />
+                  {t.medication_mark_given}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
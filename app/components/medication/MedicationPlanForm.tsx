@@ -0,0 +1,255 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+
+export interface MedicationPlanFormData {
+  student_id: string;
+  medication_name: string;
+  dose: string;
+  instructions: string | null;
+  dose_times: string[];
+  start_date: string;
+  end_date: string;
+  consent_name?: string;
+}
+
+interface MedicationPlanFormProps {
+  /** Children to choose from; the first is selected by default */
+  students: Array<{ id: string; name: string }>;
+  /** Guardians sign consent with their typed name when creating a plan */
+  requireConsent?: boolean;
+  onSubmit: (data: MedicationPlanFormData) => Promise<void>;
+  onCancel?: () => void;
+  loading?: boolean;
+  error?: string | null;
+}
+
+function todayDateString(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+const inputClass =
+  'w-full rounded-ds-md border border-[#D8EBD8] bg-[#F5FFF7] px-3 py-2 text-ds-small text-slate-900 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100 focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500';
+
+const labelClass = 'block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1';
+
+/**
+ * Form for a child's medication plan: drug, dose, daily dose times and the period it runs.
+ */
+export function MedicationPlanForm({
+  students,
+  requireConsent = false,
+  onSubmit,
+  onCancel,
+  loading = false,
+  error,
+}: MedicationPlanFormProps) {
+  const { t } = useLanguage();
+  const [studentId, setStudentId] = useState('');
+  const [medicationName, setMedicationName] = useState('');
+  const [dose, setDose] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [doseTimes, setDoseTimes] = useState<string[]>(['12:00']);
+  const [startDate, setStartDate] = useState(todayDateString);
+  const [endDate, setEndDate] = useState(todayDateString);
+  const [consentName, setConsentName] = useState('');
+
+  // Default to the first child until one is picked
+  const selectedStudentId = studentId || students[0]?.id || '';
+  const uniqueTimes = [...new Set(doseTimes.filter(Boolean))];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedStudentId || uniqueTimes.length === 0 || endDate < startDate) {
+      return;
+    }
+    await onSubmit({
+      student_id: selectedStudentId,
+      medication_name: medicationName.trim(),
+      dose: dose.trim(),
+      instructions: instructions.trim() || null,
+      dose_times: uniqueTimes,
+      start_date: startDate,
+      end_date: endDate,
+      ...(requireConsent ? { consent_name: consentName.trim() } : {}),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {students.length > 1 && (
+        <div>
+          <label className={labelClass}>
+            {t.medication_child} <span className="text-red-500">*</span>
+          </label>
+          <select
+            required
+            value={selectedStudentId}
+            onChange={(e) => setStudentId(e.target.value)}
+            className={inputClass}
+          >
+            {students.map((student) => (
+              <option key={student.id} value={student.id}>
+                {student.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label className={labelClass}>
+            {t.medication_name} <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="text"
+            required
+            maxLength={200}
+            value={medicationName}
+            onChange={(e) => setMedicationName(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>
+            {t.medication_dose} <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="text"
+            required
+            maxLength={200}
+            value={dose}
+            onChange={(e) => setDose(e.target.value)}
+            placeholder={t.medication_dose_placeholder}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>
+          {t.medication_dose_times} <span className="text-red-500">*</span>
+        </label>
+        <div className="flex flex-wrap items-center gap-2">
+          {doseTimes.map((time, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <input
+                type="time"
+                required
+                value={time}
+                onChange={(e) => setDoseTimes(doseTimes.map((value, i) => (i === index ? e.target.value : value)))}
+                className={`${inputClass} w-auto`}
+              />
+              {doseTimes.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => setDoseTimes(doseTimes.filter((_, i) => i !== index))}
+                  aria-label={t.medication_remove_time}
+                  className="rounded-ds-md p-1 text-slate-500 hover:bg-red-50 hover:text-red-700 dark:text-slate-400 dark:hover:bg-slate-700"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+          {doseTimes.length < 6 && (
+            <button
+              type="button"
+              onClick={() => setDoseTimes([...doseTimes, ''])}
+              className="inline-flex items-center gap-1 rounded-ds-md border border-slate-300 px-3 py-1.5 text-ds-tiny hover:bg-mint-50 dark:border-slate-600 dark:text-slate-200 dark:hover:bg-slate-700"
+            >
+              <Plus className="h-3.5 w-3.5" />
+              {t.medication_add_time}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label className={labelClass}>
+            {t.medication_start_date} <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="date"
+            required
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>
+            {t.medication_end_date} <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="date"
+            required
+            min={startDate}
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>{t.medication_instructions}</label>
+        <textarea
+          rows={2}
+          maxLength={5000}
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+          placeholder={t.medication_instructions_placeholder}
+          className={inputClass}
+        />
+      </div>
+
+      {requireConsent && (
+        <div className="rounded-ds-md border border-mint-200 bg-mint-50 p-3 dark:border-slate-600 dark:bg-slate-700/50">
+          <p className="mb-2 text-ds-small text-slate-700 dark:text-slate-300">{t.medication_consent_statement}</p>
+          <label className={labelClass}>
+            {t.medication_consent_signature} <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="text"
+            required
+            minLength={2}
+            maxLength={200}
+            value={consentName}
+            onChange={(e) => setConsentName(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-ds-md border border-slate-300 px-4 py-2 text-ds-small hover:bg-slate-50 dark:border-slate-600 dark:text-slate-200 dark:hover:bg-slate-700"
+          >
+            {t.cancel}
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={loading || !selectedStudentId}
+          className="rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small text-white hover:bg-mint-600 transition-colors disabled:opacity-50"
+        >
+          {loading ? t.medication_saving : t.medication_save}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Pill, X } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import EmptyState from '@/app/components/EmptyState';
+import type { MedicationPlan, MedicationPlanStatus } from '@/lib/types/medication';
+
+interface MedicationPlanListProps {
+  plans: MedicationPlan[];
+  /** Show the child's name on each plan (guardians with several children) */
+  showStudent?: boolean;
+  /** Guardians can give or decline consent on pending plans */
+  onConsent?: (plan: MedicationPlan, decision: 'give' | 'decline', consentName: string) => Promise<void>;
+  onCancelPlan?: (plan: MedicationPlan) => Promise<void>;
+}
+
+const STATUS_BADGE: Record<MedicationPlanStatus, string> = {
+  pending_consent: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  active: 'bg-mint-100 text-mint-800 dark:bg-mint-900/30 dark:text-mint-300',
+  declined: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+  cancelled: 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300',
+};
+
+/**
+ * Medication plans with their consent status. Pending plans take a typed-name
+ * signature when the viewer can consent.
+ */
+export function MedicationPlanList({ plans, showStudent = false, onConsent, onCancelPlan }: MedicationPlanListProps) {
+  const { t } = useLanguage();
+  const [signatures, setSignatures] = useState<Record<string, string>>({});
+  const [pendingPlanId, setPendingPlanId] = useState<string | null>(null);
+
+  const statusLabels: Record<MedicationPlanStatus, string> = {
+    pending_consent: t.medication_status_pending_consent,
+    active: t.medication_status_active,
+    declined: t.medication_status_declined,
+    cancelled: t.medication_status_cancelled,
+  };
+
+  const runAction = async (plan: MedicationPlan, action: () => Promise<void>) => {
+    setPendingPlanId(plan.id);
+    try {
+      await action();
+    } finally {
+      setPendingPlanId(null);
+    }
+  };
+
+  if (plans.length === 0) {
+    return <EmptyState icon={Pill} title={t.medication_title} description={t.medication_empty} />;
+  }
+
+  return (
+    <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+      {plans.map((plan) => {
+        const signature = signatures[plan.id] ?? '';
+        const isPending = pendingPlanId === plan.id;
+        const studentName = `${plan.students?.users?.first_name ?? ''} ${plan.students?.users?.last_name ?? ''}`.trim();
+
+        return (
+          <li key={plan.id} className="py-3">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <p className="text-ds-small font-medium text-slate-900 dark:text-slate-100">
+                  {plan.medication_name} · {plan.dose}
+                  <span className={`ml-2 rounded-full px-2 py-0.5 text-ds-tiny font-medium ${STATUS_BADGE[plan.status]}`}>
+                    {statusLabels[plan.status]}
+                  </span>
+                </p>
+                <p className="text-ds-tiny text-slate-500 dark:text-slate-400">
+                  {showStudent && studentName ? `${studentName} · ` : ''}
+                  {plan.dose_times.map((time) => time.slice(0, 5)).join(', ')}
+                  {' · '}
+                  {plan.start_date === plan.end_date ? plan.start_date : `${plan.start_date} – ${plan.end_date}`}
+                </p>
+                {plan.instructions && (
+                  <p className="mt-1 text-ds-tiny text-slate-600 dark:text-slate-300 whitespace-pre-wrap">{plan.instructions}</p>
+                )}
+                {plan.consent_name && plan.consent_at && (
+                  <p className="mt-1 text-ds-tiny text-slate-500 dark:text-slate-400">
+                    {(plan.status === 'declined' ? t.medication_declined_by : t.medication_consent_by)
+                      .replace('{name}', plan.consent_name)
+                      .replace('{date}', new Date(plan.consent_at).toLocaleDateString())}
+                  </p>
+                )}
+              </div>
+
+              {onCancelPlan && ['pending_consent', 'active'].includes(plan.status) && (
+                <button
+                  onClick={() => runAction(plan, () => onCancelPlan(plan))}
+                  disabled={isPending}
+                  className="inline-flex items-center gap-1 rounded-ds-md border border-slate-300 px-3 py-1.5 text-ds-tiny hover:bg-red-50 hover:text-red-700 transition-colors disabled:opacity-50 dark:border-slate-600 dark:text-slate-200 dark:hover:bg-slate-700"
+                >
+                  <X className="h-3.5 w-3.5" />
+                  {t.medication_stop}
+                </button>
+              )}
+            </div>
+
+            {onConsent && plan.status === 'pending_consent' && (
+              <div className="mt-2 rounded-ds-md border border-amber-200 bg-amber-50 p-3 dark:border-amber-800 dark:bg-amber-900/20">
+                <p className="mb-2 text-ds-small text-slate-700 dark:text-slate-300">{t.medication_consent_statement}</p>
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="text"
+                    value={signature}
+                    onChange={(e) => setSignatures({ ...signatures, [plan.id]: e.target.value })}
+                    placeholder={t.medication_consent_signature}
+                    maxLength={200}
+                    className="flex-1 min-w-[12rem] rounded-ds-md border border-[#D8EBD8] bg-[#F5FFF7] px-3 py-2 text-ds-small text-slate-900 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100 focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500"
+                  />
+                  <button
+                    onClick={() => runAction(plan, () => onConsent(plan, 'give', signature.trim()))}
+                    disabled={isPending || signature.trim().length < 2}
+                    className="inline-flex items-center gap-1 rounded-ds-md bg-mint-500 px-3 py-2 text-ds-small text-white hover:bg-mint-600 transition-colors disabled:opacity-50"
+                  >
+                    <Check className="h-4 w-4" />
+                    {t.medication_consent_give}
+                  </button>
+                  <button
+                    onClick={() => runAction(plan, () => onConsent(plan, 'decline', signature.trim()))}
+                    disabled={isPending || signature.trim().length < 2}
+                    className="inline-flex items-center gap-1 rounded-ds-md border border-slate-300 px-3 py-2 text-ds-small hover:bg-red-50 hover:text-red-700 transition-colors disabled:opacity-50 dark:border-slate-600 dark:text-slate-200 dark:hover:bg-slate-700"
+                  >
+                    <X className="h-4 w-4" />
+                    {t.medication_consent_decline}
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Pill, Plus } from 'lucide-react';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import { MedicationPlanForm, type MedicationPlanFormData } from '@/app/components/medication/MedicationPlanForm';
+import { MedicationPlanList } from '@/app/components/medication/MedicationPlanList';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import type { MedicationPlan } from '@/lib/types/medication';
+
+interface StudentMedicationPlansProps {
+  studentId: string;
+  studentName: string;
+}
+
+/**
+ * Staff view of a child's medication plans. Plans added here are sent
+ * to the guardians for consent before any dose is scheduled.
+ */
+export function StudentMedicationPlans({ studentId, studentName }: StudentMedicationPlansProps) {
+  const { t } = useLanguage();
+  const [plans, setPlans] = useState<MedicationPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const loadPlans = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const res = await fetch(
+        `/api/medication-plans?studentId=${encodeURIComponent(studentId)}&includeInactive=true&t=${Date.now()}`,
+        { cache: 'no-store', signal },
+      );
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.medication_load_failed);
+      }
+      setPlans(data.plans || []);
+      setError(null);
+    } catch (err: unknown) {
+      if (signal?.aborted) return;
+      setError(err instanceof Error ? err.message : t.medication_load_failed);
+    } finally {
+      if (!signal?.aborted) {
+        setLoading(false);
+      }
+    }
+  }, [studentId, t]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void loadPlans(controller.signal);
+    return () => controller.abort();
+  }, [loadPlans]);
+
+  const handleCreate = async (formData: MedicationPlanFormData) => {
+    setSaving(true);
+    setFormError(null);
+    try {
+      const res = await fetch('/api/medication-plans', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.medication_save_failed);
+      }
+      setShowForm(false);
+      await loadPlans();
+    } catch (err: unknown) {
+      setFormError(err instanceof Error ? err.message : t.medication_save_failed);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancelPlan = async (plan: MedicationPlan) => {
+    if (!confirm(t.medication_stop_confirm.replace('{name}', plan.medication_name))) return;
+
+    try {
+      const res = await fetch(`/api/medication-plans?id=${plan.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || t.medication_save_failed);
+      }
+      await loadPlans();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.medication_save_failed);
+    }
+  };
+
+  return (
+    <div className="rounded-ds-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-ds-card p-6">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <Pill className="w-5 h-5 text-mint-500 dark:text-mint-400" />
+          <h2 className="text-ds-h2 font-semibold text-ds-text-primary dark:text-slate-100">
+            {t.medication_title}
+          </h2>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="inline-flex items-center gap-1 rounded-ds-md bg-mint-500 px-3 py-1.5 text-ds-small text-white hover:bg-mint-600 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            {t.medication_add_plan}
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="mb-4 rounded-ds-md border border-slate-200 p-4 dark:border-slate-700">
+          <p className="mb-3 text-ds-small text-slate-600 dark:text-slate-400">{t.medication_staff_consent_hint}</p>
+          <MedicationPlanForm
+            students={[{ id: studentId, name: studentName }]}
+            onSubmit={handleCreate}
+            onCancel={() => setShowForm(false)}
+            loading={saving}
+            error={formError}
+          />
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSkeleton type="table" rows={3} className="border-0 p-0" />
+      ) : error ? (
+        <p className="text-ds-small text-red-700 dark:text-red-400">{error}</p>
+      ) : (
+        <MedicationPlanList plans={plans} onCancelPlan={handleCancelPlan} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import { ALLERGENS, type Allergen } from '@/lib/constants/allergens';
+
+/**
+ * Checkbox grid of the 14 EU allergens
+ */
+export function AllergenPicker({
+  value,
+  onChange,
+  idPrefix,
+}: {
+  value: Allergen[];
+  onChange: (value: Allergen[]) => void;
+  /** Keeps checkbox ids unique when several pickers share a form */
+  idPrefix: string;
+}) {
+  const { t } = useLanguage();
+
+  const toggle = (allergen: Allergen, checked: boolean) => {
+    onChange(checked ? [...value, allergen] : value.filter((item) => item !== allergen));
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-x-ds-sm gap-y-1 sm:grid-cols-3">
+      {ALLERGENS.map((allergen) => (
+        <label
+          key={allergen}
+          htmlFor={`${idPrefix}-${allergen}`}
+          className="flex items-center gap-2 text-ds-small text-slate-700 dark:text-slate-300"
+        >
+          <input
+            type="checkbox"
+            id={`${idPrefix}-${allergen}`}
+            checked={value.includes(allergen)}
+            onChange={(e) => toggle(allergen, e.target.checked)}
+            className="rounded border-slate-300 text-mint-600 focus:ring-mint-500 accent-mint-500"
+          />
+          {t[`allergen_${allergen}`]}
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import type { MenuAllergenConflictReport } from '@/lib/types/menus';
+
+/**
+ * Children whose allergy tags clash with a meal on the menu
+ */
+export function MenuAllergenConflicts({ report }: { report: MenuAllergenConflictReport }) {
+  const { t } = useLanguage();
+  const scopeLabel =
+    report.scope === 'checked_in' ? t.menu_conflicts_scope_checked_in : t.menu_conflicts_scope_enrolled;
+
+  if (report.conflicts.length === 0) {
+    return (
+      <div className="flex items-center gap-2 rounded-ds-md bg-mint-50 border border-mint-200 px-4 py-3 text-ds-small text-mint-700 dark:bg-mint-900/20 dark:border-mint-800 dark:text-mint-300">
+        <CheckCircle className="h-4 w-4 flex-shrink-0" />
+        <span>
+          {t.menu_conflicts_none} · {scopeLabel}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-ds-md bg-amber-50 border border-amber-200 px-4 py-3 dark:bg-amber-900/20 dark:border-amber-800">
+      <div className="mb-2 flex items-center gap-2 text-ds-small font-medium text-amber-800 dark:text-amber-300">
+        <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+        <span>
+          {t.menu_conflicts_title} ({report.conflicts.length}) · {scopeLabel}
+        </span>
+      </div>
+      <ul className="space-y-1">
+        {report.conflicts.map((conflict) => (
+          <li
+            key={`${conflict.student_id}-${conflict.meal}`}
+            className="text-ds-small text-amber-900 dark:text-amber-200"
+          >
+            <span className="font-medium">
+              {`${conflict.first_name ?? ''} ${conflict.last_name ?? ''}`.trim()}
+            </span>
+            {conflict.class_name && <span className="text-amber-700 dark:text-amber-400"> · {conflict.class_name}</span>}
+            {' — '}
+            {t[conflict.meal]}: {conflict.allergens.map((allergen) => t[`allergen_${allergen}`]).join(', ')}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
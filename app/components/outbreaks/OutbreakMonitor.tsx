@@ -0,0 +1,394 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Activity, AlertTriangle, Send, X } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import EmptyState from '@/app/components/EmptyState';
+import { PageHeader } from '@/app/components/shared/PageHeader';
+import type { HealthNotice, OutbreakCategory, OutbreakCluster, OutbreakReport } from '@/lib/types/outbreaks';
+
+const WINDOW_OPTIONS = [24, 48, 72, 168];
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date.toISOString().slice(0, 10);
+}
+
+function formatDateTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleString([], {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+interface OutbreakMonitorProps {
+  backHref?: string;
+}
+
+/**
+ * Symptom logs and sick days grouped by class and day, with clusters flagged
+ * and a templated health notice to the guardians of an affected class
+ */
+export default function OutbreakMonitor({ backHref = '/dashboard/principal' }: OutbreakMonitorProps) {
+  const { t } = useLanguage();
+
+  const [from, setFrom] = useState<string>(() => daysAgo(14));
+  const [to, setTo] = useState<string>(today);
+  const [windowHours, setWindowHours] = useState(48);
+  const [minChildren, setMinChildren] = useState(5);
+  const [report, setReport] = useState<OutbreakReport | null>(null);
+  const [notices, setNotices] = useState<HealthNotice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [noticeCluster, setNoticeCluster] = useState<OutbreakCluster | null>(null);
+  const [noticeTitle, setNoticeTitle] = useState('');
+  const [noticeBody, setNoticeBody] = useState('');
+  const [sending, setSending] = useState(false);
+  const [noticeError, setNoticeError] = useState<string | null>(null);
+
+  const categoryLabel = useCallback(
+    (category: OutbreakCategory) =>
+      category === 'away_sick' ? t.outbreak_category_away_sick : t[`symptom_${category}`],
+    [t],
+  );
+
+  const loadNotices = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const res = await fetch(`/api/outbreaks/notices?t=${Date.now()}`, { cache: 'no-store', signal });
+      const data = await res.json();
+      if (res.ok) {
+        setNotices(data.notices || []);
+      }
+    } catch (err) {
+      if (!signal?.aborted) {
+        console.error('Error loading health notices:', err);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void loadNotices(controller.signal);
+    return () => controller.abort();
+  }, [loadNotices]);
+
+  // Reload the report whenever the range or cluster settings change
+  useEffect(() => {
+    if (!from || !to || from > to) return;
+    const controller = new AbortController();
+    (async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const params = new URLSearchParams({
+          from,
+          to,
+          windowHours: windowHours.toString(),
+          minChildren: minChildren.toString(),
+        });
+        const res = await fetch(`/api/outbreaks?${params.toString()}`, {
+          cache: 'no-store',
+          signal: controller.signal,
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || t.outbreak_failed);
+        }
+        setReport(data.report as OutbreakReport);
+      } catch (err: unknown) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : t.outbreak_failed);
+        setReport(null);
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, [from, to, windowHours, minChildren, t]);
+
+  const openNotice = (cluster: OutbreakCluster) => {
+    const fill = (template: string) =>
+      template
+        .replace('{class}', cluster.class_name ?? '')
+        .replace('{symptom}', categoryLabel(cluster.category).toLowerCase())
+        .replace('{count}', cluster.children.toString());
+    setNoticeCluster(cluster);
+    setNoticeTitle(fill(t.outbreak_notice_template_title));
+    setNoticeBody(fill(t.outbreak_notice_template_body));
+    setNoticeError(null);
+    setMessage(null);
+  };
+
+  const handleSendNotice = async () => {
+    if (!noticeCluster?.class_id) return;
+    setSending(true);
+    setNoticeError(null);
+    try {
+      const res = await fetch('/api/outbreaks/notices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          class_id: noticeCluster.class_id,
+          category: noticeCluster.category,
+          title: noticeTitle,
+          body: noticeBody,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.outbreak_notice_failed);
+      }
+      setMessage(t.outbreak_notice_sent.replace('{count}', String(data.notice?.recipient_count ?? 0)));
+      setNoticeCluster(null);
+      await loadNotices();
+    } catch (err: unknown) {
+      setNoticeError(err instanceof Error ? err.message : t.outbreak_notice_failed);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const inputClassName =
+    'rounded-ds-md border border-slate-300 px-3 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200';
+  const headerCellClass = 'py-2 px-4 text-ds-small font-medium text-white dark:text-slate-300';
+
+  return (
+    <>
+      <PageHeader
+        title={t.outbreak_title}
+        subtitle={t.outbreak_subtitle}
+        headingLevel="h1"
+        showBackButton={true}
+        backHref={backHref}
+      />
+
+      <div className="mb-ds-sm flex flex-col gap-2 sm:flex-row sm:flex-wrap sm:items-center">
+        <label className="flex items-center gap-2 text-ds-small text-slate-700 dark:text-slate-300">
+          {t.outbreak_from}
+          <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex items-center gap-2 text-ds-small text-slate-700 dark:text-slate-300">
+          {t.outbreak_to}
+          <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex items-center gap-2 text-ds-small text-slate-700 dark:text-slate-300">
+          {t.outbreak_window}
+          <select value={windowHours} onChange={(e) => setWindowHours(Number(e.target.value))} className={inputClassName}>
+            {WINDOW_OPTIONS.map((hours) => (
+              <option key={hours} value={hours}>
+                {t.outbreak_window_hours.replace('{hours}', hours.toString())}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-ds-small text-slate-700 dark:text-slate-300">
+          {t.outbreak_min_children}
+          <input
+            type="number"
+            min={2}
+            max={50}
+            value={minChildren}
+            onChange={(e) => setMinChildren(Math.max(2, Number(e.target.value) || 2))}
+            className={`${inputClassName} w-20`}
+          />
+        </label>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-4 rounded-ds-md bg-mint-50 border border-mint-200 px-4 py-3 text-ds-small text-mint-700 dark:bg-mint-900/20 dark:border-mint-800 dark:text-mint-300">
+          {message}
+        </div>
+      )}
+
+      {isLoading ? (
+        <LoadingSkeleton type="table" rows={6} />
+      ) : report ? (
+        <div className="space-y-ds-md">
+          {/* Flagged clusters */}
+          <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+            <h2 className="mb-3 text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">{t.outbreak_clusters}</h2>
+            {report.clusters.length === 0 ? (
+              <p className="text-ds-small text-slate-500 dark:text-slate-400">
+                {t.outbreak_no_clusters
+                  .replace('{count}', report.min_children.toString())
+                  .replace('{hours}', report.window_hours.toString())}
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {report.clusters.map((cluster) => {
+                  const key = `${cluster.class_id}-${cluster.category}-${cluster.first_at}`;
+                  const isOpen =
+                    noticeCluster !== null &&
+                    `${noticeCluster.class_id}-${noticeCluster.category}-${noticeCluster.first_at}` === key;
+                  return (
+                    <li
+                      key={key}
+                      className="rounded-ds-md border border-red-200 bg-red-50 p-3 dark:border-red-800 dark:bg-red-900/20"
+                    >
+                      <div className="flex flex-wrap items-start justify-between gap-2">
+                        <div className="flex items-start gap-2">
+                          <AlertTriangle className="mt-0.5 h-5 w-5 flex-shrink-0 text-red-600 dark:text-red-400" />
+                          <div>
+                            <p className="text-ds-small font-semibold text-red-800 dark:text-red-300">
+                              {t.outbreak_cluster_summary
+                                .replace('{count}', cluster.children.toString())
+                                .replace('{symptom}', categoryLabel(cluster.category))
+                                .replace('{class}', cluster.class_name ?? t.attendance_report_unassigned)}
+                            </p>
+                            <p className="text-ds-tiny text-red-700 dark:text-red-400">
+                              {formatDateTime(cluster.first_at)} – {formatDateTime(cluster.last_at)}
+                            </p>
+                          </div>
+                        </div>
+                        {cluster.class_id && !isOpen && (
+                          <button
+                            type="button"
+                            onClick={() => openNotice(cluster)}
+                            className="inline-flex items-center gap-2 rounded-ds-md bg-mint-500 px-3 py-1.5 text-ds-small text-white hover:bg-mint-600 transition-colors"
+                          >
+                            <Send className="h-4 w-4" />
+                            {t.outbreak_send_notice}
+                          </button>
+                        )}
+                      </div>
+
+                      {isOpen && (
+                        <div className="mt-3 space-y-2 rounded-ds-md bg-white p-3 dark:bg-slate-800">
+                          <div className="flex items-center justify-between">
+                            <p className="text-ds-small font-medium text-slate-700 dark:text-slate-300">
+                              {t.outbreak_notice_hint}
+                            </p>
+                            <button
+                              type="button"
+                              onClick={() => setNoticeCluster(null)}
+                              className="rounded-ds-md p-1 hover:bg-mint-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400"
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          </div>
+                          {noticeError && (
+                            <div className="rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+                              {noticeError}
+                            </div>
+                          )}
+                          <input
+                            type="text"
+                            value={noticeTitle}
+                            onChange={(e) => setNoticeTitle(e.target.value)}
+                            className={`${inputClassName} w-full`}
+                            maxLength={200}
+                          />
+                          <textarea
+                            value={noticeBody}
+                            onChange={(e) => setNoticeBody(e.target.value)}
+                            rows={5}
+                            className={`${inputClassName} w-full`}
+                            maxLength={4000}
+                          />
+                          <div className="flex justify-end">
+                            <button
+                              type="button"
+                              onClick={handleSendNotice}
+                              disabled={sending || !noticeTitle.trim() || !noticeBody.trim()}
+                              className="inline-flex items-center gap-2 rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small text-white hover:bg-mint-600 transition-colors disabled:opacity-50"
+                            >
+                              <Send className="h-4 w-4" />
+                              {sending ? t.sending : t.outbreak_send_notice}
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          {/* Daily counts per class */}
+          <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+            <h2 className="mb-3 text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">{t.outbreak_daily}</h2>
+            {report.daily.length === 0 ? (
+              <EmptyState icon={Activity} title={t.outbreak_daily} description={t.outbreak_daily_empty} />
+            ) : (
+              <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-ds-md">
+                <table className="w-full min-w-[520px] border-collapse">
+                  <thead>
+                    <tr className="bg-mint-500">
+                      <th className={`${headerCellClass} text-left`}>{t.date}</th>
+                      <th className={`${headerCellClass} text-left`}>{t.col_class}</th>
+                      <th className={`${headerCellClass} text-left`}>{t.outbreak_category}</th>
+                      <th className={`${headerCellClass} text-right`}>{t.outbreak_children}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.daily.map((row) => (
+                      <tr
+                        key={`${row.date}-${row.class_id}-${row.category}`}
+                        className="border-b border-slate-100 dark:border-slate-700 hover:bg-mint-50 dark:hover:bg-slate-700/50 transition-colors"
+                      >
+                        <td className="py-2 px-4 text-ds-small text-slate-900 dark:text-slate-100">{row.date}</td>
+                        <td className="py-2 px-4 text-ds-small text-slate-700 dark:text-slate-300">
+                          {row.class_name ?? t.attendance_report_unassigned}
+                        </td>
+                        <td className="py-2 px-4 text-ds-small text-slate-700 dark:text-slate-300">
+                          {categoryLabel(row.category)}
+                        </td>
+                        <td className="py-2 px-4 text-right text-ds-small font-medium text-slate-900 dark:text-slate-100">
+                          {row.children}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Notices sent, for reporting to the health authority */}
+          <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+            <h2 className="mb-3 text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">{t.outbreak_notices}</h2>
+            {notices.length === 0 ? (
+              <p className="text-ds-small text-slate-500 dark:text-slate-400">{t.outbreak_notices_empty}</p>
+            ) : (
+              <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+                {notices.map((notice) => (
+                  <li key={notice.id} className="py-2">
+                    <p className="text-ds-small font-medium text-slate-900 dark:text-slate-100">{notice.title}</p>
+                    <p className="text-ds-tiny text-slate-500 dark:text-slate-400">
+                      {formatDateTime(notice.sent_at)}
+                      {' · '}
+                      {notice.classes?.name ?? t.attendance_report_unassigned}
+                      {' · '}
+                      {categoryLabel(notice.category)}
+                      {' · '}
+                      {t.outbreak_notice_recipients.replace('{count}', notice.recipient_count.toString())}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      ) : null}
+    </>
+  );
+}
@@ -27,6 +27,10 @@ interface OrganizationFormData {
   play_area: string;
   square_meters_per_student: string;
   maximum_allowed_students: string;
+  absence_alerts_enabled: boolean;
+  absence_alert_cutoff: string;
+  max_children_per_staff: string;
+  fever_threshold_celsius: string;
 }
 
 export function OrganizationProfileForm({ organization, onUpdate }: OrganizationProfileFormProps) {
@@ -47,6 +51,10 @@ export function OrganizationProfileForm({ organization, onUpdate }: Organization
     play_area: '',
     square_meters_per_student: '',
     maximum_allowed_students: '',
+    absence_alerts_enabled: false,
+    absence_alert_cutoff: '09:30',
+    max_children_per_staff: '8',
+    fever_threshold_celsius: '38.0',
   });
   const [slugError, setSlugError] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -72,6 +80,10 @@ export function OrganizationProfileForm({ organization, onUpdate }: Organization
         play_area: organization.play_area?.toString() || '',
         square_meters_per_student: organization.square_meters_per_student?.toString() || '',
         maximum_allowed_students: organization.maximum_allowed_students?.toString() || '',
+        absence_alerts_enabled: organization.absence_alerts_enabled ?? false,
+        absence_alert_cutoff: organization.absence_alert_cutoff?.slice(0, 5) || '09:30',
+        max_children_per_staff: organization.max_children_per_staff?.toString() || '8',
+        fever_threshold_celsius: organization.fever_threshold_celsius?.toString() || '38.0',
       });
       setError(null);
       setSuccess(null);
@@ -79,13 +91,13 @@ export function OrganizationProfileForm({ organization, onUpdate }: Organization
     }
   }, [organization]);
 
-  const handleFieldChange = (field: keyof OrganizationFormData, value: string) => {
+  const handleFieldChange = <K extends keyof OrganizationFormData>(field: K, value: OrganizationFormData[K]) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
     setError(null);
     setSuccess(null);
     
     // Validate slug on change
-    if (field === 'slug') {
+    if (field === 'slug' && typeof value === 'string') {
       const slugValue = value.toLowerCase();
       if (slugValue && !validateSlug(slugValue)) {
         setSlugError(t.slug_validation_error);
@@ -135,6 +147,8 @@ export function OrganizationProfileForm({ organization, onUpdate }: Organization
           play_area: formData.play_area ? Number(formData.play_area) : undefined,
           square_meters_per_student: formData.square_meters_per_student ? Number(formData.square_meters_per_student) : undefined,
           maximum_allowed_students: formData.maximum_allowed_students ? Number(formData.maximum_allowed_students) : undefined,
+          max_children_per_staff: formData.max_children_per_staff ? Number(formData.max_children_per_staff) : undefined,
+          fever_threshold_celsius: formData.fever_threshold_celsius ? Number(formData.fever_threshold_celsius) : undefined,
         }),
       });
 
@@ -491,6 +505,96 @@ export function OrganizationProfileForm({ organization, onUpdate }: Organization
             </div>
           </div>
 
+          {/* Attendance Alerts Section */}
+          <div className="space-y-ds-md">
+            <h3 className="text-ds-h3 font-semibold text-[#1F2937] dark:text-slate-200">
+              {t.absence_alerts_section}
+            </h3>
+            <p className="text-ds-small text-[#4B5563] dark:text-slate-400">
+              {t.absence_alerts_description}
+            </p>
+
+            <label htmlFor="org-absence-alerts-enabled" className="flex items-center gap-2 text-ds-small font-medium text-[#1F2937] dark:text-slate-300">
+              <input
+                id="org-absence-alerts-enabled"
+                type="checkbox"
+                checked={formData.absence_alerts_enabled}
+                onChange={(e) => handleFieldChange('absence_alerts_enabled', e.target.checked)}
+                className="h-4 w-4 rounded border-slate-300 text-mint-500 focus:ring-mint-500"
+              />
+              {t.absence_alerts_enabled_label}
+            </label>
+
+            <div>
+              <label htmlFor="org-absence-alert-cutoff" className={labelClassName}>
+                {t.absence_alert_cutoff_label}
+              </label>
+              <input
+                id="org-absence-alert-cutoff"
+                type="time"
+                value={formData.absence_alert_cutoff}
+                onChange={(e) => handleFieldChange('absence_alert_cutoff', e.target.value)}
+                disabled={!formData.absence_alerts_enabled}
+                className={`${inputClassName} disabled:opacity-50`}
+                required
+              />
+            </div>
+          </div>
+
+          {/* Staffing Ratio Section */}
+          <div className="space-y-ds-md">
+            <h3 className="text-ds-h3 font-semibold text-[#1F2937] dark:text-slate-200">
+              {t.staff_ratio_section}
+            </h3>
+            <p className="text-ds-small text-[#4B5563] dark:text-slate-400">
+              {t.staff_ratio_section_description}
+            </p>
+
+            <div>
+              <label htmlFor="org-max-children-per-staff" className={labelClassName}>
+                {t.max_children_per_staff_label} <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="org-max-children-per-staff"
+                type="number"
+                step="0.5"
+                min="0.5"
+                max="99"
+                value={formData.max_children_per_staff}
+                onChange={(e) => handleFieldChange('max_children_per_staff', e.target.value)}
+                className={inputClassName}
+                required
+              />
+            </div>
+          </div>
+
+          {/* Fever Alerts Section */}
+          <div className="space-y-ds-md">
+            <h3 className="text-ds-h3 font-semibold text-[#1F2937] dark:text-slate-200">
+              {t.fever_alerts_section}
+            </h3>
+            <p className="text-ds-small text-[#4B5563] dark:text-slate-400">
+              {t.fever_alerts_section_description}
+            </p>
+
+            <div>
+              <label htmlFor="org-fever-threshold" className={labelClassName}>
+                {t.fever_threshold_label} <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="org-fever-threshold"
+                type="number"
+                step="0.1"
+                min="37"
+                max="41"
+                value={formData.fever_threshold_celsius}
+                onChange={(e) => handleFieldChange('fever_threshold_celsius', e.target.value)}
+                className={inputClassName}
+                required
+              />
+            </div>
+          </div>
+
           {/* Submit Button */}
           <div className="flex justify-end pt-ds-lg border-t border-slate-200 dark:border-slate-700">
             <button
@@ -0,0 +1,393 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowRight, Eye, GraduationCap } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import { PageHeader } from '@/app/components/shared/PageHeader';
+import { StudentReassignConfirmModal } from '@/app/components/principal/classes/StudentReassignConfirmModal';
+import type { TranslationStrings } from '@/app/components/principal/classes/types';
+import type { ClassRolloverPreview, TeacherMembershipRollover } from '@/lib/types/classes';
+
+interface RolloverClass {
+  id: string;
+  name: string;
+}
+
+interface RolloverStudent {
+  id: string;
+  name: string;
+  class_id: string | null;
+}
+
+interface ClassRolloverWizardProps {
+  backHref?: string;
+}
+
+/**
+ * Year-end rollover: map each class to next year's class, pick the
+ * children who graduate, preview the result and apply it in one step.
+ */
+export default function ClassRolloverWizard({ backHref = '/dashboard/principal/classes' }: ClassRolloverWizardProps) {
+  const { t } = useLanguage();
+
+  const [classes, setClasses] = useState<RolloverClass[]>([]);
+  const [students, setStudents] = useState<RolloverStudent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [moves, setMoves] = useState<Record<string, string>>({});
+  const [graduating, setGraduating] = useState<Set<string>>(new Set());
+  const [teacherMemberships, setTeacherMemberships] = useState<TeacherMembershipRollover>('carry_over');
+  const [graceDays, setGraceDays] = useState(30);
+  const [preview, setPreview] = useState<ClassRolloverPreview | null>(null);
+  const [running, setRunning] = useState<'preview' | 'apply' | null>(null);
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    (async () => {
+      try {
+        setIsLoading(true);
+        const [classesRes, studentsRes] = await Promise.all([
+          fetch(`/api/classes?t=${Date.now()}`, { cache: 'no-store', signal: controller.signal }),
+          fetch(`/api/students?t=${Date.now()}`, { cache: 'no-store', signal: controller.signal }),
+        ]);
+        const [classesData, studentsData] = await Promise.all([classesRes.json(), studentsRes.json()]);
+        if (!classesRes.ok || !studentsRes.ok) {
+          throw new Error(classesData.error || studentsData.error || t.class_rollover_load_failed);
+        }
+        setClasses(
+          ((classesData.classes || []) as RolloverClass[])
+            .map((cls) => ({ id: cls.id, name: cls.name }))
+            .sort((a, b) => a.name.localeCompare(b.name)),
+        );
+        setStudents(
+          (studentsData.students || []).map(
+            (student: { id: string; class_id: string | null; users?: { first_name?: string; last_name?: string } }) => ({
+              id: student.id,
+              name: `${student.users?.first_name ?? ''} ${student.users?.last_name ?? ''}`.trim(),
+              class_id: student.class_id,
+            }),
+          ),
+        );
+      } catch (err: unknown) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : t.class_rollover_load_failed);
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, [t.class_rollover_load_failed]);
+
+  const studentsByClass = useMemo(() => {
+    const grouped = new Map<string, RolloverStudent[]>();
+    for (const student of students) {
+      if (!student.class_id) continue;
+      grouped.set(student.class_id, [...(grouped.get(student.class_id) ?? []), student]);
+    }
+    return grouped;
+  }, [students]);
+
+  const requestBody = (mode: 'preview' | 'apply') => ({
+    mode,
+    class_moves: Object.entries(moves)
+      .filter(([, toClassId]) => toClassId)
+      .map(([fromClassId, toClassId]) => ({ from_class_id: fromClassId, to_class_id: toClassId })),
+    graduating_student_ids: Array.from(graduating),
+    teacher_memberships: teacherMemberships,
+    guardian_grace_days: graceDays,
+  });
+
+  // Any change invalidates the preview, so apply always matches what was shown
+  const changeMove = (fromClassId: string, toClassId: string) => {
+    setMoves((prev) => ({ ...prev, [fromClassId]: toClassId }));
+    setPreview(null);
+  };
+
+  const toggleGraduates = (studentIds: string[], checked: boolean) => {
+    setGraduating((prev) => {
+      const next = new Set(prev);
+      studentIds.forEach((id) => (checked ? next.add(id) : next.delete(id)));
+      return next;
+    });
+    setPreview(null);
+  };
+
+  const runRollover = async (mode: 'preview' | 'apply') => {
+    setRunning(mode);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/classes/rollover', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(requestBody(mode)),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.details || data.error || t.class_rollover_failed);
+      }
+      setPreview(data.preview as ClassRolloverPreview);
+      if (mode === 'apply') {
+        setMessage(t.class_rollover_applied);
+        setMoves({});
+        setGraduating(new Set());
+        if (typeof window !== 'undefined') {
+          // Signal dashboards to refresh students and counts
+          try {
+            localStorage.setItem('students_data_changed', String(Date.now()));
+            localStorage.setItem('classes_data_updated', String(Date.now()));
+          } catch {}
+        }
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.class_rollover_failed);
+    } finally {
+      setRunning(null);
+      setShowConfirm(false);
+    }
+  };
+
+  const inputClassName =
+    'rounded-ds-md border border-slate-300 px-3 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200';
+  const headerCellClass = 'py-2 px-4 text-ds-small font-medium text-white dark:text-slate-300';
+  const cardClassName =
+    'rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800';
+  const isApplied = preview?.rollover_id != null;
+  const movedCount = preview?.moves.reduce((sum, move) => sum + move.students.length, 0) ?? 0;
+
+  return (
+    <>
+      <PageHeader
+        title={t.class_rollover_title}
+        subtitle={t.class_rollover_subtitle}
+        headingLevel="h1"
+        showBackButton={true}
+        backHref={backHref}
+      />
+
+      {error && (
+        <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-4 rounded-ds-md bg-mint-50 border border-mint-200 px-4 py-3 text-ds-small text-mint-700 dark:bg-mint-900/20 dark:border-mint-800 dark:text-mint-300">
+          {message}
+        </div>
+      )}
+
+      {isLoading ? (
+        <LoadingSkeleton type="table" rows={5} />
+      ) : (
+        <div className="space-y-ds-md">
+          <div className={cardClassName}>
+            <h2 className="mb-1 text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">{t.class_rollover_moves}</h2>
+            <p className="mb-3 text-ds-small text-slate-600 dark:text-slate-400">{t.class_rollover_moves_hint}</p>
+            <div className="space-y-3">
+              {classes.map((cls) => {
+                const classStudents = studentsByClass.get(cls.id) ?? [];
+                const allGraduating = classStudents.length > 0 && classStudents.every((student) => graduating.has(student.id));
+                return (
+                  <div key={cls.id} className="rounded-ds-md border border-slate-200 p-3 dark:border-slate-700">
+                    <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                      <span className="flex-1 text-ds-small font-medium text-slate-900 dark:text-slate-100">
+                        {cls.name}{' '}
+                        <span className="text-ds-tiny font-normal text-slate-500 dark:text-slate-400">
+                          ({t.class_rollover_student_count.replace('{count}', String(classStudents.length))})
+                        </span>
+                      </span>
+                      <ArrowRight className="hidden h-4 w-4 text-slate-400 sm:block" />
+                      <select
+                        value={moves[cls.id] ?? ''}
+                        onChange={(e) => changeMove(cls.id, e.target.value)}
+                        disabled={running !== null}
+                        className={`${inputClassName} sm:w-56`}
+                      >
+                        <option value="">{t.class_rollover_stay}</option>
+                        {classes
+                          .filter((target) => target.id !== cls.id)
+                          .map((target) => (
+                            <option key={target.id} value={target.id}>
+                              {target.name}
+                            </option>
+                          ))}
+                      </select>
+                    </div>
+                    {classStudents.length > 0 && (
+                      <details className="mt-2">
+                        <summary className="cursor-pointer text-ds-tiny text-slate-600 dark:text-slate-400">
+                          {t.class_rollover_pick_graduates}
+                        </summary>
+                        <label className="mt-2 flex items-center gap-2 text-ds-small font-medium text-slate-700 dark:text-slate-300">
+                          <input
+                            type="checkbox"
+                            checked={allGraduating}
+                            onChange={(e) => toggleGraduates(classStudents.map((student) => student.id), e.target.checked)}
+                            disabled={running !== null}
+                          />
+                          {t.class_rollover_graduate_all}
+                        </label>
+                        <div className="mt-1 grid grid-cols-1 gap-1 sm:grid-cols-2 lg:grid-cols-3">
+                          {classStudents.map((student) => (
+                            <label key={student.id} className="flex items-center gap-2 text-ds-small text-slate-700 dark:text-slate-300">
+                              <input
+                                type="checkbox"
+                                checked={graduating.has(student.id)}
+                                onChange={(e) => toggleGraduates([student.id], e.target.checked)}
+                                disabled={running !== null}
+                              />
+                              {student.name}
+                            </label>
+                          ))}
+                        </div>
+                      </details>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className={cardClassName}>
+            <div className="grid grid-cols-1 gap-ds-md sm:grid-cols-2">
+              <fieldset>
+                <legend className="mb-2 text-ds-small font-medium text-slate-900 dark:text-slate-100">
+                  {t.class_rollover_teachers}
+                </legend>
+                {(['carry_over', 'reset'] as TeacherMembershipRollover[]).map((option) => (
+                  <label key={option} className="flex items-center gap-2 text-ds-small text-slate-700 dark:text-slate-300">
+                    <input
+                      type="radio"
+                      name="teacher_memberships"
+                      checked={teacherMemberships === option}
+                      onChange={() => {
+                        setTeacherMemberships(option);
+                        setPreview(null);
+                      }}
+                      disabled={running !== null}
+                    />
+                    {option === 'carry_over' ? t.class_rollover_teachers_carry_over : t.class_rollover_teachers_reset}
+                  </label>
+                ))}
+              </fieldset>
+              <label className="block text-ds-small font-medium text-slate-900 dark:text-slate-100">
+                {t.class_rollover_grace_days}
+                <input
+                  type="number"
+                  min={0}
+                  max={365}
+                  value={graceDays}
+                  onChange={(e) => {
+                    setGraceDays(Math.max(0, Math.min(365, Number(e.target.value) || 0)));
+                    setPreview(null);
+                  }}
+                  disabled={running !== null}
+                  className={`${inputClassName} mt-1 w-full`}
+                />
+                <span className="mt-1 block text-ds-tiny font-normal text-slate-500 dark:text-slate-400">
+                  {t.class_rollover_grace_days_hint}
+                </span>
+              </label>
+            </div>
+            <div className="mt-ds-md flex flex-wrap justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => runRollover('preview')}
+                disabled={running !== null}
+                className="inline-flex items-center gap-2 rounded-ds-md border border-slate-300 px-4 py-2 text-ds-small text-slate-700 hover:bg-slate-50 transition-colors disabled:opacity-50 dark:border-slate-600 dark:text-slate-300 dark:hover:bg-slate-700"
+              >
+                <Eye className="h-4 w-4" />
+                {running === 'preview' ? t.class_rollover_previewing : t.class_rollover_preview}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowConfirm(true)}
+                disabled={running !== null || preview === null || isApplied}
+                className="inline-flex items-center gap-2 rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small text-white hover:bg-mint-600 transition-colors disabled:opacity-50"
+              >
+                <GraduationCap className="h-4 w-4" /> {t.class_rollover_apply}
+              </button>
+            </div>
+          </div>
+
+          {preview && (
+            <div className={cardClassName}>
+              <h2 className="mb-1 text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">
+                {isApplied ? t.class_rollover_result : t.class_rollover_preview_title}
+              </h2>
+              <p className="mb-3 text-ds-small text-slate-600 dark:text-slate-400">
+                {t.class_rollover_summary
+                  .replace('{moved}', String(movedCount))
+                  .replace('{graduates}', String(preview.graduates.length))
+                  .replace('{date}', new Date(preview.guardian_access_expires_at).toLocaleDateString())}
+              </p>
+              <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-ds-md">
+                <table className="w-full min-w-[640px] border-collapse">
+                  <thead>
+                    <tr className="bg-mint-500">
+                      <th className={`${headerCellClass} text-left`}>{t.class_name}</th>
+                      <th className={`${headerCellClass} text-left`}>{t.class_rollover_students_before_after}</th>
+                      <th className={`${headerCellClass} text-left`}>{t.class_rollover_teachers_after}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.classes.map((cls) => (
+                      <tr key={cls.class_id} className="border-b border-slate-100 align-top dark:border-slate-700">
+                        <td className="py-2 px-4 text-ds-small text-slate-900 dark:text-slate-100">{cls.class_name}</td>
+                        <td className="py-2 px-4 text-ds-small text-slate-700 dark:text-slate-300">
+                          {cls.students_before} → {cls.students_after}
+                        </td>
+                        <td className="py-2 px-4 text-ds-small text-slate-700 dark:text-slate-300">
+                          {cls.teachers_after.length > 0 ? cls.teachers_after.join(', ') : '-'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {preview.graduates.length > 0 && (
+                <div className="mt-ds-md">
+                  <h3 className="mb-2 text-ds-small font-semibold text-slate-900 dark:text-slate-100">
+                    {t.class_rollover_graduates}
+                  </h3>
+                  <ul className="space-y-1 text-ds-small text-slate-700 dark:text-slate-300">
+                    {preview.graduates.map((graduate) => (
+                      <li key={graduate.id}>
+                        {graduate.name}
+                        {graduate.class_name && ` · ${graduate.class_name}`}
+                        <span className="text-ds-tiny text-slate-500 dark:text-slate-400">
+                          {' '}({t.class_rollover_guardian_count.replace('{count}', String(graduate.guardian_count))})
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <StudentReassignConfirmModal
+        isOpen={showConfirm}
+        t={t as unknown as TranslationStrings}
+        studentToAssign={null}
+        targetClassName=""
+        assigningStudent={running === 'apply'}
+        onCancel={() => setShowConfirm(false)}
+        onConfirm={() => runRollover('apply')}
+        title={t.class_rollover_confirm_title}
+        message={t.class_rollover_confirm_message
+          .replace('{moved}', String(movedCount))
+          .replace('{graduates}', String(preview?.graduates.length ?? 0))}
+        confirmLabel={t.class_rollover_apply}
+      />
+    </>
+  );
+}
@@ -16,6 +16,10 @@ export interface StudentReassignConfirmModalProps {
   assigningStudent: boolean;
   onCancel: () => void;
   onConfirm: () => void;
+  /** Overrides for reusing the modal to confirm bulk moves such as a rollover */
+  title?: string;
+  message?: string;
+  confirmLabel?: string;
 }
 
 export function StudentReassignConfirmModal({
@@ -26,12 +30,15 @@ export function StudentReassignConfirmModal({
   assigningStudent,
   onCancel,
   onConfirm,
+  title,
+  message: messageOverride,
+  confirmLabel,
 }: StudentReassignConfirmModalProps) {
-  if (!isOpen || !studentToAssign) return null;
+  if (!isOpen || (!studentToAssign && !messageOverride)) return null;
 
-  const message = t.reassign_student_message
-    .replace('{name}', studentToAssign.name)
-    .replace('{currentClass}', studentToAssign.currentClass || t.no_class)
+  const message = messageOverride ?? t.reassign_student_message
+    .replace('{name}', studentToAssign?.name ?? '')
+    .replace('{currentClass}', studentToAssign?.currentClass || t.no_class)
     .replace('{newClass}', targetClassName || '');
 
   return (
@@ -42,7 +49,7 @@ export function StudentReassignConfirmModal({
             <AlertTriangle className="h-5 w-5 text-amber-600 dark:text-amber-400" />
           </div>
           <h3 className="text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">
-            {t.reassign_student}
+            {title ?? t.reassign_student}
           </h3>
         </div>
 
@@ -60,7 +67,7 @@ export function StudentReassignConfirmModal({
             disabled={assigningStudent}
             className="flex-1 rounded-ds-md bg-amber-600 px-ds-md py-ds-sm text-ds-small text-white hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
-            {assigningStudent ? t.assigning : t.confirm_reassign}
+            {assigningStudent ? t.assigning : confirmLabel ?? t.confirm_reassign}
           </button>
         </div>
       </div>
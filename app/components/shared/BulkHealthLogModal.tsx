@@ -0,0 +1,354 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { X, Save } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import { useTeacherClasses } from '@/lib/hooks/useTeacherClasses';
+import { useTeacherStudents } from '@/lib/hooks/useTeacherStudents';
+import type { HealthLogType } from '@/lib/types/health-logs';
+import type { Student } from '@/lib/types/attendance';
+
+// Injuries need their own details per child, so they are logged one at a time
+const BULK_LOG_TYPES: { value: HealthLogType; label: { en: string; is: string } }[] = [
+  { value: 'diaper_wet', label: { en: 'Diaper - Wet', is: 'Bleyja - Vot' } },
+  { value: 'diaper_dirty', label: { en: 'Diaper - Dirty', is: 'Bleyja - Skítug' } },
+  { value: 'diaper_mixed', label: { en: 'Diaper - Mixed', is: 'Bleyja - Blanda' } },
+  { value: 'nap', label: { en: 'Nap', is: 'Svefn' } },
+  { value: 'temperature', label: { en: 'Temperature', is: 'Hitastig' } },
+  { value: 'meal', label: { en: 'Meal', is: 'Máltíð' } },
+  { value: 'medication', label: { en: 'Medication', is: 'Lyf' } },
+  { value: 'other', label: { en: 'Other', is: 'Annað' } },
+];
+
+const DIAPER_TYPES: HealthLogType[] = ['diaper_wet', 'diaper_dirty', 'diaper_mixed'];
+
+type ChildOverride = {
+  type?: HealthLogType;
+  ended_at?: string;
+  temperature_celsius?: number | null;
+  notes?: string;
+};
+
+function nowLocal(): string {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function studentName(student: Student): string {
+  const firstName = student.users?.first_name || student.first_name || '';
+  const lastName = student.users?.last_name || student.last_name || '';
+  return `${firstName} ${lastName}`.trim() || 'Unknown Student';
+}
+
+export interface BulkHealthLogModalProps {
+  onClose: () => void;
+  /** Called with the number of logs created */
+  onSaved: (count: number) => void;
+}
+
+/**
+ * Log the same care event, such as a nap or diaper change, for several
+ * children at once, with per-child overrides. Mount it when opening so
+ * every batch starts from a clean form.
+ */
+export function BulkHealthLogModal({ onClose, onSaved }: BulkHealthLogModalProps) {
+  const { t, lang } = useLanguage();
+  const { classes, isLoading: isLoadingClasses } = useTeacherClasses();
+  const { students, isLoading: isLoadingStudents } = useTeacherStudents(classes);
+
+  const [classId, setClassId] = useState('');
+  const [type, setType] = useState<HealthLogType>('diaper_wet');
+  const [recordedAt, setRecordedAt] = useState(nowLocal);
+  const [notes, setNotes] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [overrides, setOverrides] = useState<Record<string, ChildOverride>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const classStudents = useMemo(
+    () =>
+      students
+        .filter((student) => !classId || student.class_id === classId)
+        .sort((a, b) => studentName(a).localeCompare(studentName(b))),
+    [students, classId],
+  );
+
+  const isDiaper = DIAPER_TYPES.includes(type);
+  const allSelected = classStudents.length > 0 && classStudents.every((s) => selectedIds.includes(s.id));
+
+  const toggleStudent = (id: string) =>
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+
+  const toggleAll = () =>
+    setSelectedIds(allSelected ? [] : classStudents.map((s) => s.id));
+
+  const setOverride = (id: string, patch: ChildOverride) =>
+    setOverrides((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedIds.length === 0) {
+      setError(t.bulk_log_select_children);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const entries = selectedIds.map((studentId) => {
+        const override = overrides[studentId] ?? {};
+        return {
+          student_id: studentId,
+          type: isDiaper ? override.type : undefined,
+          temperature_celsius: type === 'temperature' ? override.temperature_celsius ?? null : undefined,
+          data: type === 'nap' && override.ended_at ? { ended_at: new Date(override.ended_at).toISOString() } : undefined,
+          notes: override.notes?.trim() ? override.notes : undefined,
+        };
+      });
+
+      const res = await fetch('/api/health-logs/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          class_id: classId || undefined,
+          type,
+          recorded_at: new Date(recordedAt).toISOString(),
+          notes: notes || null,
+          data: {},
+          entries,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        // Name the children whose entries were rejected
+        const details = Array.isArray(json.details)
+          ? (json.details as Array<{ student_id: string; message: string }>)
+              .map((detail) => {
+                const student = students.find((s) => s.id === detail.student_id);
+                return `${student ? studentName(student) : detail.student_id}: ${detail.message}`;
+              })
+              .join('; ')
+          : json.details;
+        throw new Error(details ? `${json.error}: ${details}` : json.error || t.bulk_log_failed);
+      }
+      // The logs are saved even when an incident report is not
+      if (json.incidentReportErrors?.length) {
+        alert(json.incidentReportErrors[0].message);
+      }
+      onSaved(json.count ?? selectedIds.length);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.bulk_log_failed);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName =
+    'w-full rounded-ds-md border border-[#D8EBD8] bg-[#F5FFF7] px-4 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200';
+  const smallInputClassName =
+    'rounded-ds-md border border-slate-300 px-2 py-1 text-ds-tiny focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="w-full max-w-2xl rounded-ds-lg bg-white dark:bg-slate-800 p-ds-md shadow-ds-lg max-h-[90vh] overflow-y-auto">
+        <div className="mb-4 flex items-center justify-between">
+          <h3 className="text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">{t.bulk_log_title}</h3>
+          <button
+            onClick={onClose}
+            className="rounded-ds-md p-1 hover:bg-mint-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div>
+              <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+                {t.col_class}
+              </label>
+              <select
+                value={classId}
+                onChange={(e) => {
+                  setClassId(e.target.value);
+                  setSelectedIds([]);
+                }}
+                className={inputClassName}
+              >
+                <option value="">{t.bulk_log_all_classes}</option>
+                {classes.map((cls) => (
+                  <option key={cls.id} value={cls.id}>
+                    {cls.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+                {t.di_type || 'Type'} <span className="text-red-500">*</span>
+              </label>
+              <select
+                value={type}
+                onChange={(e) => setType(e.target.value as HealthLogType)}
+                className={inputClassName}
+                required
+              >
+                {BULK_LOG_TYPES.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {lang === 'is' ? option.label.is : option.label.en}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+                {t.time || 'Time'} <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="datetime-local"
+                value={recordedAt}
+                onChange={(e) => setRecordedAt(e.target.value)}
+                className={inputClassName}
+                required
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-1 flex items-center justify-between">
+              <span className="text-ds-small font-medium text-slate-700 dark:text-slate-300">
+                {t.bulk_log_children.replace('{count}', selectedIds.length.toString())}
+              </span>
+              <button
+                type="button"
+                onClick={toggleAll}
+                disabled={classStudents.length === 0}
+                className="text-ds-small text-mint-600 hover:text-mint-700 disabled:opacity-50 dark:text-mint-400"
+              >
+                {allSelected ? t.bulk_log_select_none : t.bulk_log_select_all}
+              </button>
+            </div>
+            {isLoadingClasses || isLoadingStudents ? (
+              <p className="text-ds-small text-slate-500 dark:text-slate-400">{t.loading}</p>
+            ) : classStudents.length === 0 ? (
+              <p className="text-ds-small text-slate-500 dark:text-slate-400">{t.bulk_log_no_children}</p>
+            ) : (
+              <ul className="max-h-80 divide-y divide-slate-100 overflow-y-auto rounded-ds-md border border-slate-200 dark:divide-slate-700 dark:border-slate-700">
+                {classStudents.map((student) => {
+                  const selected = selectedIds.includes(student.id);
+                  const override = overrides[student.id] ?? {};
+                  return (
+                    <li key={student.id} className="flex flex-wrap items-center gap-2 px-3 py-2">
+                      <label className="flex min-w-[10rem] flex-1 items-center gap-2 text-ds-small text-slate-900 dark:text-slate-100">
+                        <input
+                          type="checkbox"
+                          checked={selected}
+                          onChange={() => toggleStudent(student.id)}
+                          className="rounded border-slate-300 text-mint-600 focus:ring-mint-500"
+                        />
+                        {studentName(student)}
+                      </label>
+                      {selected && (
+                        <div className="flex flex-wrap items-center gap-2">
+                          {isDiaper && (
+                            <select
+                              value={override.type ?? type}
+                              onChange={(e) => setOverride(student.id, { type: e.target.value as HealthLogType })}
+                              className={smallInputClassName}
+                              aria-label={t.bulk_log_diaper_kind}
+                            >
+                              {BULK_LOG_TYPES.filter((option) => DIAPER_TYPES.includes(option.value)).map((option) => (
+                                <option key={option.value} value={option.value}>
+                                  {lang === 'is' ? option.label.is : option.label.en}
+                                </option>
+                              ))}
+                            </select>
+                          )}
+                          {type === 'nap' && (
+                            <label className="flex items-center gap-1 text-ds-tiny text-slate-600 dark:text-slate-400">
+                              {t.bulk_log_nap_end}
+                              <input
+                                type="datetime-local"
+                                value={override.ended_at ?? ''}
+                                min={recordedAt}
+                                onChange={(e) => setOverride(student.id, { ended_at: e.target.value })}
+                                className={smallInputClassName}
+                              />
+                            </label>
+                          )}
+                          {type === 'temperature' && (
+                            <input
+                              type="number"
+                              step="0.1"
+                              min="30"
+                              max="45"
+                              value={override.temperature_celsius ?? ''}
+                              onChange={(e) =>
+                                setOverride(student.id, {
+                                  temperature_celsius: e.target.value ? parseFloat(e.target.value) : null,
+                                })
+                              }
+                              placeholder="36.5"
+                              className={`${smallInputClassName} w-20`}
+                              aria-label={lang === 'is' ? 'Hitastig (°C)' : 'Temperature (°C)'}
+                            />
+                          )}
+                          <input
+                            type="text"
+                            value={override.notes ?? ''}
+                            onChange={(e) => setOverride(student.id, { notes: e.target.value })}
+                            placeholder={t.bulk_log_child_note}
+                            className={`${smallInputClassName} w-40`}
+                          />
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+              {t.notes} ({t.optional || 'Optional'})
+            </label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              className={inputClassName}
+              placeholder={t.di_notes_ph || 'Optional notes…'}
+            />
+          </div>
+
+          <div className="flex justify-end pt-4">
+            <button
+              type="submit"
+              disabled={saving || selectedIds.length === 0}
+              className="inline-flex items-center justify-center gap-2 rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small text-white hover:bg-mint-600 disabled:opacity-50 transition-colors"
+            >
+              {saving ? (
+                <>
+                  <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
+                  {t.saving || 'Saving...'}
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4" />
+                  {t.bulk_log_save.replace('{count}', selectedIds.length.toString())}
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import React, { useState, useMemo } from 'react';
 import { ChevronLeft, ChevronRight, Plus } from 'lucide-react';
 import { useLanguage } from '@/lib/contexts/LanguageContext';
+import type { ClosureDay } from '@/lib/types/attendance';
 
 export interface CalendarEvent {
   id: string;
@@ -23,6 +24,8 @@ export interface CalendarProps {
   userRole: 'principal' | 'teacher' | 'guardian';
   canEdit: boolean;
   events: CalendarEvent[];
+  /** Days the organization or a class is closed, shown on each day they cover */
+  closures?: ClosureDay[];
   onEventClick?: (event: CalendarEvent) => void;
   onDateClick?: (date: Date) => void;
   onCreateClick?: () => void;
@@ -33,6 +36,7 @@ export function Calendar({
   userRole,
   canEdit,
   events,
+  closures = [],
   onEventClick,
   onDateClick,
   onCreateClick,
@@ -83,6 +87,12 @@ export function Calendar({
     });
   };
 
+  // Get closures covering a specific date (closure dates are plain YYYY-MM-DD)
+  const getClosuresForDate = (date: Date): ClosureDay[] => {
+    const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    return closures.filter(closure => closure.start_date <= key && closure.end_date >= key);
+  };
+
   // Check if date is today
   const isToday = (date: Date): boolean => {
     const today = new Date();
@@ -190,6 +200,7 @@ export function Calendar({
         <div className="grid grid-cols-7 gap-0.5 sm:gap-1 min-w-[320px]">
           {calendarDays.map(({ date, isCurrentMonth }, index) => {
             const dayEvents = isCurrentMonth ? getEventsForDate(date) : [];
+            const dayClosures = isCurrentMonth ? getClosuresForDate(date) : [];
             const isTodayDate = isToday(date);
 
             return (
@@ -207,6 +218,7 @@ export function Calendar({
                     : 'border-transparent opacity-40'
                   }
                   ${isTodayDate ? 'bg-mint-50 dark:bg-mint-900/20 border-mint-300 dark:border-mint-700' : ''}
+                  ${!isTodayDate && dayClosures.length > 0 ? 'bg-amber-50 dark:bg-amber-900/10' : ''}
                 `}
               >
                 <div className={`
@@ -221,6 +233,21 @@ export function Calendar({
                   {date.getDate()}
                 </div>
                 <div className="space-y-0.5 sm:space-y-1">
+                  {dayClosures.slice(0, 1).map(closure => {
+                    const label = closure.classes?.name
+                      ? `${closure.title} (${closure.classes.name})`
+                      : closure.title;
+                    return (
+                      <div
+                        key={closure.id}
+                        className="text-ds-tiny px-1 sm:px-1.5 py-0.5 rounded-ds-sm bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-300 truncate"
+                        title={`${t.closure_day_label}: ${label}`}
+                      >
+                        <span className="hidden sm:inline">{label}</span>
+                        <span className="sm:hidden">•</span>
+                      </div>
+                    );
+                  })}
                   {dayEvents.slice(0, 1).map(event => (
                     <div
                       key={event.id}
@@ -4,7 +4,7 @@ import React, { useState, useImperativeHandle, forwardRef, useEffect, Suspense }
 import { useRouter, usePathname } from 'next/navigation';
 import Image from 'next/image';
 import { X } from 'lucide-react';
-import { LayoutDashboard, MessageSquare, Camera, CalendarDays, Utensils, ClipboardCheck, Baby, Megaphone } from 'lucide-react';
+import { LayoutDashboard, MessageSquare, Camera, CalendarDays, Utensils, ClipboardCheck, Baby, Megaphone, QrCode, Pill, Bandage, GraduationCap } from 'lucide-react';
 import { useLanguage } from '@/lib/contexts/LanguageContext';
 
 // Small helper
@@ -39,7 +39,11 @@ type BuiltInTileId =
   | 'announcements'
   | 'menus'
   | 'attendance'
-  | 'diapers';
+  | 'kiosk'
+  | 'diapers'
+  | 'medication'
+  | 'incidents'
+  | 'grades';
 
 interface BuiltInTileConfig {
   id: BuiltInTileId;
@@ -54,7 +58,11 @@ const builtInTileRoutes: BuiltInTileConfig[] = [
   { id: 'announcements', route: '/dashboard/guardian/announcements' },
   { id: 'menus', route: '/dashboard/guardian/menus' },
   { id: 'attendance', route: '/dashboard/guardian/attendance' },
+  { id: 'kiosk', route: '/dashboard/guardian/kiosk' },
   { id: 'diapers', route: '/dashboard/guardian/diapers' },
+  { id: 'medication', route: '/dashboard/guardian/medication' },
+  { id: 'incidents', route: '/dashboard/guardian/incidents' },
+  { id: 'grades', route: '/dashboard/guardian/grades' },
 ];
 
 const getRouteForTileId = (tileId: string): string | undefined => {
@@ -432,6 +440,40 @@ const GuardianSidebarContent = forwardRef<GuardianSidebarRef, GuardianSidebarPro
               </div>
             </button>
 
+            {/* Kiosk check-in tile */}
+            <button
+              onClick={() => handleBuiltInTileClick('kiosk')}
+              className={clsx(
+                'w-full flex items-center gap-3 px-ds-sm py-ds-sm rounded-ds-md text-left transition-all duration-200',
+                'hover:bg-slate-100 dark:hover:bg-slate-700',
+                isTileActive('kiosk')
+                  ? 'bg-mint-200 dark:bg-slate-700 border-l-4 border-mint-500'
+                  : 'border-l-4 border-transparent'
+              )}
+            >
+              <span className={clsx(
+                'flex-shrink-0 rounded-lg p-2',
+                isTileActive('kiosk')
+                  ? 'bg-mint-500 text-white'
+                  : 'bg-slate-100 dark:bg-slate-600 text-slate-600 dark:text-slate-300'
+              )}>
+                <QrCode className="h-5 w-5" />
+              </span>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className={clsx(
+                    'font-medium truncate',
+                    isTileActive('kiosk')
+                      ? 'text-slate-900 dark:text-slate-100'
+                      : 'text-slate-700 dark:text-slate-300'
+                  )}>
+                    {t.kiosk_tile}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 truncate mt-0.5">{t.kiosk_tile_desc}</p>
+              </div>
+            </button>
+
             {/* Diapers & Health tile */}
             <button
               onClick={() => handleBuiltInTileClick('diapers')}
@@ -466,6 +508,108 @@ const GuardianSidebarContent = forwardRef<GuardianSidebarRef, GuardianSidebarPro
               </div>
             </button>
 
+            {/* Medication tile */}
+            <button
+              onClick={() => handleBuiltInTileClick('medication')}
+              className={clsx(
+                'w-full flex items-center gap-3 px-ds-sm py-ds-sm rounded-ds-md text-left transition-all duration-200',
+                'hover:bg-slate-100 dark:hover:bg-slate-700',
+                isTileActive('medication')
+                  ? 'bg-mint-200 dark:bg-slate-700 border-l-4 border-mint-500'
+                  : 'border-l-4 border-transparent'
+              )}
+            >
+              <span className={clsx(
+                'flex-shrink-0 rounded-lg p-2',
+                isTileActive('medication')
+                  ? 'bg-mint-500 text-white'
+                  : 'bg-slate-100 dark:bg-slate-600 text-slate-600 dark:text-slate-300'
+              )}>
+                <Pill className="h-5 w-5" />
+              </span>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className={clsx(
+                    'font-medium truncate',
+                    isTileActive('medication')
+                      ? 'text-slate-900 dark:text-slate-100'
+                      : 'text-slate-700 dark:text-slate-300'
+                  )}>
+                    {t.medication_tile}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 truncate mt-0.5">{t.medication_tile_desc}</p>
+              </div>
+            </button>
+
+            {/* Incident reports tile */}
+            <button
+              onClick={() => handleBuiltInTileClick('incidents')}
+              className={clsx(
+                'w-full flex items-center gap-3 px-ds-sm py-ds-sm rounded-ds-md text-left transition-all duration-200',
+                'hover:bg-slate-100 dark:hover:bg-slate-700',
+                isTileActive('incidents')
+                  ? 'bg-mint-200 dark:bg-slate-700 border-l-4 border-mint-500'
+                  : 'border-l-4 border-transparent'
+              )}
+            >
+              <span className={clsx(
+                'flex-shrink-0 rounded-lg p-2',
+                isTileActive('incidents')
+                  ? 'bg-mint-500 text-white'
+                  : 'bg-slate-100 dark:bg-slate-600 text-slate-600 dark:text-slate-300'
+              )}>
+                <Bandage className="h-5 w-5" />
+              </span>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className={clsx(
+                    'font-medium truncate',
+                    isTileActive('incidents')
+                      ? 'text-slate-900 dark:text-slate-100'
+                      : 'text-slate-700 dark:text-slate-300'
+                  )}>
+                    {t.incident_tile}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 truncate mt-0.5">{t.incident_tile_desc}</p>
+              </div>
+            </button>
+
+            {/* Grades tile */}
+            <button
+              onClick={() => handleBuiltInTileClick('grades')}
+              className={clsx(
+                'w-full flex items-center gap-3 px-ds-sm py-ds-sm rounded-ds-md text-left transition-all duration-200',
+                'hover:bg-slate-100 dark:hover:bg-slate-700',
+                isTileActive('grades')
+                  ? 'bg-mint-200 dark:bg-slate-700 border-l-4 border-mint-500'
+                  : 'border-l-4 border-transparent'
+              )}
+            >
+              <span className={clsx(
+                'flex-shrink-0 rounded-lg p-2',
+                isTileActive('grades')
+                  ? 'bg-mint-500 text-white'
+                  : 'bg-slate-100 dark:bg-slate-600 text-slate-600 dark:text-slate-300'
+              )}>
+                <GraduationCap className="h-5 w-5" />
+              </span>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className={clsx(
+                    'font-medium truncate',
+                    isTileActive('grades')
+                      ? 'text-slate-900 dark:text-slate-100'
+                      : 'text-slate-700 dark:text-slate-300'
+                  )}>
+                    {t.grades_tile}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 truncate mt-0.5">{t.grades_tile_desc}</p>
+              </div>
+            </button>
+
             {/* Other tiles */}
             {tiles.map((tile) => {
               const isActive = isTileActive(tile.id, tile.route);
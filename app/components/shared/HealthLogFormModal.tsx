@@ -6,8 +6,9 @@ import { useLanguage } from '@/lib/contexts/LanguageContext';
 import { useAuth } from '@/lib/hooks/useAuth';
 import { useTeacherClasses } from '@/lib/hooks/useTeacherClasses';
 import { useTeacherStudents } from '@/lib/hooks/useTeacherStudents';
-import type { HealthLog, HealthLogFormData, HealthLogType } from '@/lib/types/health-logs';
+import type { HealthLog, HealthLogFormData, HealthLogType, SymptomKind } from '@/lib/types/health-logs';
 import type { Student } from '@/lib/types/attendance';
+import { InjuryDetailsFields, isInjuryDetailsComplete } from '@/app/components/incidents/InjuryDetailsFields';
 import { enText } from '@/lib/translations/en';
 import { isText } from '@/lib/translations/is';
 
@@ -225,6 +226,20 @@ const HEALTH_LOG_TYPES: { value: HealthLogType; label: { en: string; is: string
   { value: 'other', label: { en: 'Other', is: 'Annað' } },
 ];
 
+const SYMPTOM_KINDS: SymptomKind[] = [
+  'fever',
+  'vomiting',
+  'diarrhea',
+  'cough',
+  'runny_nose',
+  'sore_throat',
+  'rash',
+  'eye_infection',
+  'stomach_ache',
+  'headache',
+  'other',
+];
+
 export function HealthLogFormModal({
   isOpen,
   onClose,
@@ -303,6 +318,11 @@ export function HealthLogFormModal({
       return;
     }
 
+    if (formData.type === 'injury' && !isInjuryDetailsComplete(formData.data || {})) {
+      setError(t.incident_details_required);
+      return;
+    }
+
     setError(null);
 
     try {
@@ -457,6 +477,47 @@ export function HealthLogFormModal({
             </div>
           )}
 
+          {formData.type === 'symptom' && (
+            <fieldset>
+              <legend className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+                {t.symptoms_label}
+              </legend>
+              <div className="grid grid-cols-2 gap-1 sm:grid-cols-3">
+                {SYMPTOM_KINDS.map((symptom) => {
+                  const selected = ((formData.data?.symptoms as SymptomKind[] | undefined) ?? []);
+                  return (
+                    <label key={symptom} className="flex items-center gap-2 text-ds-small text-slate-700 dark:text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(symptom)}
+                        onChange={() =>
+                          setFormData({
+                            ...formData,
+                            data: {
+                              ...formData.data,
+                              symptoms: selected.includes(symptom)
+                                ? selected.filter((s) => s !== symptom)
+                                : [...selected, symptom],
+                            },
+                          })
+                        }
+                        className="rounded border-slate-300 text-mint-600 focus:ring-mint-500"
+                      />
+                      {t[`symptom_${symptom}`]}
+                    </label>
+                  );
+                })}
+              </div>
+            </fieldset>
+          )}
+
+          {formData.type === 'injury' && (
+            <InjuryDetailsFields
+              data={formData.data || {}}
+              onChange={(data) => setFormData({ ...formData, data })}
+            />
+          )}
+
           <div>
             <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
               {t.notes} ({t.optional || 'Optional'})
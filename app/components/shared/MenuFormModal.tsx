@@ -3,13 +3,19 @@
 import React, { useState, useEffect } from 'react';
 import { X, Save } from 'lucide-react';
 import { useLanguage } from '@/lib/contexts/LanguageContext';
-import type { Menu } from '@/lib/types/menus';
+import { AllergenPicker } from '@/app/components/menus/AllergenPicker';
+import { MenuAllergenConflicts } from '@/app/components/menus/MenuAllergenConflicts';
+import type { Allergen } from '@/lib/constants/allergens';
+import type { Menu, MenuAllergenConflictReport } from '@/lib/types/menus';
 
 export interface MenuFormData {
   day: string;
   breakfast?: string | null;
   lunch?: string | null;
   snack?: string | null;
+  breakfast_allergens: Allergen[];
+  lunch_allergens: Allergen[];
+  snack_allergens: Allergen[];
   notes?: string | null;
   is_public?: boolean;
 }
@@ -33,11 +39,16 @@ export function MenuFormModal({
     breakfast: '',
     lunch: '',
     snack: '',
+    breakfast_allergens: [],
+    lunch_allergens: [],
+    snack_allergens: [],
     notes: '',
     is_public: true,
   });
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Shown after saving when children's allergies clash with the menu
+  const [conflictReport, setConflictReport] = useState<MenuAllergenConflictReport | null>(null);
 
   // Handle ESC key to close modal
   useEffect(() => {
@@ -76,6 +87,9 @@ export function MenuFormModal({
           breakfast: initialData.breakfast || '',
           lunch: initialData.lunch || '',
           snack: initialData.snack || '',
+          breakfast_allergens: initialData.breakfast_allergens ?? [],
+          lunch_allergens: initialData.lunch_allergens ?? [],
+          snack_allergens: initialData.snack_allergens ?? [],
           notes: initialData.notes || '',
           is_public: initialData.is_public !== undefined ? initialData.is_public : true,
         });
@@ -86,11 +100,15 @@ export function MenuFormModal({
           breakfast: '',
           lunch: '',
           snack: '',
+          breakfast_allergens: [],
+          lunch_allergens: [],
+          snack_allergens: [],
           notes: '',
           is_public: true,
         });
       }
       setError(null);
+      setConflictReport(null);
     }
   }, [isOpen, initialData]);
 
@@ -129,6 +147,21 @@ export function MenuFormModal({
         window.dispatchEvent(new Event('menu-updated'));
       }
 
+      // Saving a new menu returns its conflicts; an edit checks them separately
+      let report: MenuAllergenConflictReport | null = json.allergen_conflicts ?? null;
+      if (initialData) {
+        const conflictsRes = await fetch(`/api/menus/conflicts?day=${formData.day}&t=${Date.now()}`, {
+          cache: 'no-store',
+        });
+        if (conflictsRes.ok) {
+          report = (await conflictsRes.json()).report ?? null;
+        }
+      }
+      if (report && report.conflicts.length > 0) {
+        setConflictReport(report);
+        return;
+      }
+
       // Call success callback
       onSuccess();
     } catch (err: any) {
@@ -170,6 +203,19 @@ export function MenuFormModal({
           </div>
         )}
 
+        {conflictReport ? (
+          <div className="space-y-4">
+            <p className="text-ds-small text-slate-700 dark:text-slate-300">{t.menu_conflicts_saved}</p>
+            <MenuAllergenConflicts report={conflictReport} />
+            <button
+              type="button"
+              onClick={onSuccess}
+              className="w-full rounded-ds-md bg-mint-500 hover:bg-mint-600 px-4 py-2 text-ds-small text-white transition-colors"
+            >
+              {t.menu_conflicts_done}
+            </button>
+          </div>
+        ) : (
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
             <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
@@ -195,6 +241,12 @@ export function MenuFormModal({
               className="w-full rounded-ds-md border border-slate-300 px-4 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200"
               placeholder={t.breakfast_placeholder}
             />
+            <p className="mt-2 mb-1 text-ds-tiny font-medium text-slate-500 dark:text-slate-400">{t.allergens_label}</p>
+            <AllergenPicker
+              idPrefix="breakfast-allergen"
+              value={formData.breakfast_allergens}
+              onChange={(breakfast_allergens) => setFormData({ ...formData, breakfast_allergens })}
+            />
           </div>
 
           <div>
@@ -208,6 +260,12 @@ export function MenuFormModal({
               className="w-full rounded-ds-md border border-slate-300 px-4 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200"
               placeholder={t.lunch_placeholder}
             />
+            <p className="mt-2 mb-1 text-ds-tiny font-medium text-slate-500 dark:text-slate-400">{t.allergens_label}</p>
+            <AllergenPicker
+              idPrefix="lunch-allergen"
+              value={formData.lunch_allergens}
+              onChange={(lunch_allergens) => setFormData({ ...formData, lunch_allergens })}
+            />
           </div>
 
           <div>
@@ -221,6 +279,12 @@ export function MenuFormModal({
               className="w-full rounded-ds-md border border-slate-300 px-4 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200"
               placeholder={t.snack_placeholder}
             />
+            <p className="mt-2 mb-1 text-ds-tiny font-medium text-slate-500 dark:text-slate-400">{t.allergens_label}</p>
+            <AllergenPicker
+              idPrefix="snack-allergen"
+              value={formData.snack_allergens}
+              onChange={(snack_allergens) => setFormData({ ...formData, snack_allergens })}
+            />
           </div>
 
           <div>
@@ -277,6 +341,7 @@ export function MenuFormModal({
             </button>
           </div>
         </form>
+        )}
       </div>
     </div>
   );
@@ -6,6 +6,7 @@ import { useLanguage } from '@/lib/contexts/LanguageContext';
 import type { StudentFormData } from '@/lib/types/students';
 import { GuardianSelector } from './GuardianSelector';
 import { ClassSelector } from './ClassSelector';
+import { AllergenPicker } from '@/app/components/menus/AllergenPicker';
 
 interface StudentFormProps {
   isOpen: boolean;
@@ -50,6 +51,7 @@ export function StudentForm({
       social_security_number: '',
       medical_notes: '',
       allergies: '',
+      allergy_tags: [],
       emergency_contact: '',
       guardian_ids: []
     };
@@ -146,6 +148,7 @@ export function StudentForm({
       social_security_number: '',
       medical_notes: '',
       allergies: '',
+      allergy_tags: [],
       emergency_contact: '',
       guardian_ids: []
     });
@@ -380,6 +383,18 @@ export function StudentForm({
             />
           </div>
 
+          <div>
+            <label className="block text-ds-small font-medium text-ds-text-primary dark:text-slate-300 mb-ds-xs">
+              {t.allergy_tags_label}
+            </label>
+            <p className="mb-ds-xs text-ds-tiny text-slate-500 dark:text-slate-400">{t.allergy_tags_hint}</p>
+            <AllergenPicker
+              idPrefix="student-allergen"
+              value={formData.allergy_tags}
+              onChange={(allergy_tags) => setFormData(prev => ({ ...prev, allergy_tags }))}
+            />
+          </div>
+
           <div>
             <label className="block text-ds-small font-medium text-ds-text-primary dark:text-slate-300 mb-ds-xs">
               {t.student_emergency_contact}
@@ -14,6 +14,7 @@ import {
   LayoutDashboard,
   CalendarDays,
   Activity,
+  GraduationCap,
 } from 'lucide-react';
 import { useLanguage } from '@/lib/contexts/LanguageContext';
 
@@ -51,7 +52,8 @@ type BuiltInTileId =
   | 'calendar'
   | 'students'
   | 'menus'
-  | 'daily_logs';
+  | 'daily_logs'
+  | 'gradebook';
 
 interface BuiltInTileConfig {
   id: BuiltInTileId;
@@ -68,6 +70,7 @@ const builtInTileRoutes: BuiltInTileConfig[] = [
   { id: 'menus', route: '/dashboard/teacher/menus' },
   { id: 'calendar', route: '/dashboard/teacher/calendar' },
   { id: 'daily_logs', route: '/dashboard/teacher/daily-logs' },
+  { id: 'gradebook', route: '/dashboard/teacher/gradebook' },
 ];
 
 const getRouteForTileId = (tileId: string): string | undefined => {
@@ -518,6 +521,40 @@ const TeacherSidebarContent = forwardRef<TeacherSidebarRef, TeacherSidebarProps>
               </div>
             </button>
 
+            {/* Gradebook tile */}
+            <button
+              onClick={() => handleBuiltInTileClick('gradebook')}
+              className={clsx(
+                'w-full flex items-center gap-3 px-4 py-3 rounded-ds-md text-left transition-all duration-200',
+                'hover:bg-slate-100 dark:hover:bg-slate-700',
+                isTileActive('gradebook')
+                  ? 'bg-mint-200 dark:bg-slate-700 border-l-4 border-mint-500'
+                  : 'border-l-4 border-transparent'
+              )}
+            >
+              <span className={clsx(
+                'flex-shrink-0 rounded-lg p-2',
+                isTileActive('gradebook')
+                  ? 'bg-mint-500 text-white'
+                  : 'bg-slate-100 dark:bg-slate-600 text-slate-600 dark:text-slate-300'
+              )}>
+                <GraduationCap className="h-5 w-5" />
+              </span>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className={clsx(
+                    'font-medium truncate',
+                    isTileActive('gradebook')
+                      ? 'text-slate-900 dark:text-slate-100'
+                      : 'text-slate-700 dark:text-slate-300'
+                  )}>
+                    {t.gradebook_tile}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 truncate mt-0.5">{t.gradebook_tile_desc}</p>
+              </div>
+            </button>
+
             {/* Other tiles */}
             {tiles.map((tile) => {
               const isActive = isTileActive(tile.id, tile.route);
@@ -0,0 +1,350 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Scale, RefreshCw } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import EmptyState from '@/app/components/EmptyState';
+import { PageHeader } from '@/app/components/shared/PageHeader';
+import type { StaffRatio, StaffRatioReport, StaffRatioSnapshot } from '@/lib/types/staff';
+import type { TeacherClass } from '@/lib/types/attendance';
+
+const LIVE_REFRESH_MS = 60_000;
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date.toISOString().slice(0, 10);
+}
+
+function formatTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+interface StaffRatioMonitorProps {
+  backHref?: string;
+}
+
+export default function StaffRatioMonitor({ backHref = '/dashboard/principal' }: StaffRatioMonitorProps) {
+  const { t } = useLanguage();
+
+  const [report, setReport] = useState<StaffRatioReport | null>(null);
+  const [isLoadingLive, setIsLoadingLive] = useState(true);
+  const [liveError, setLiveError] = useState<string | null>(null);
+
+  const [classes, setClasses] = useState<TeacherClass[]>([]);
+  const [from, setFrom] = useState<string>(() => daysAgo(7));
+  const [to, setTo] = useState<string>(today);
+  const [selectedClassId, setSelectedClassId] = useState<string>('all');
+  const [breachesOnly, setBreachesOnly] = useState(true);
+  const [snapshots, setSnapshots] = useState<StaffRatioSnapshot[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  const loadLive = useCallback(
+    async (signal?: AbortSignal) => {
+      try {
+        const res = await fetch(`/api/staff-ratios?t=${Date.now()}`, { cache: 'no-store', signal });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || t.staff_ratio_failed);
+        }
+        setReport(data.report as StaffRatioReport);
+        setLiveError(null);
+      } catch (err: unknown) {
+        if (signal?.aborted) return;
+        setLiveError(err instanceof Error ? err.message : t.staff_ratio_failed);
+      } finally {
+        if (!signal?.aborted) {
+          setIsLoadingLive(false);
+        }
+      }
+    },
+    [t],
+  );
+
+  // Live ratios, refreshed while the page is open
+  useEffect(() => {
+    const controller = new AbortController();
+    void loadLive(controller.signal);
+    const interval = setInterval(() => {
+      void loadLive(controller.signal);
+    }, LIVE_REFRESH_MS);
+    return () => {
+      clearInterval(interval);
+      controller.abort();
+    };
+  }, [loadLive]);
+
+  // Load classes for the history filter
+  useEffect(() => {
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const res = await fetch(`/api/classes?t=${Date.now()}`, {
+          cache: 'no-store',
+          signal: controller.signal,
+        });
+        if (res.ok) {
+          const data = await res.json();
+          setClasses(data.classes || []);
+        }
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error('Error loading classes for staff ratio history:', err);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, []);
+
+  // Load history whenever a filter changes
+  useEffect(() => {
+    if (!from || !to || from > to) return;
+    const controller = new AbortController();
+    (async () => {
+      try {
+        setIsLoadingHistory(true);
+        setHistoryError(null);
+        const params = new URLSearchParams({ from, to, breachesOnly: String(breachesOnly) });
+        if (selectedClassId !== 'all') {
+          params.set('classId', selectedClassId);
+        }
+        const res = await fetch(`/api/staff-ratios/history?${params.toString()}`, {
+          cache: 'no-store',
+          signal: controller.signal,
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || t.staff_ratio_history_failed);
+        }
+        setSnapshots(data.snapshots || []);
+      } catch (err: unknown) {
+        if (controller.signal.aborted) return;
+        setHistoryError(err instanceof Error ? err.message : t.staff_ratio_history_failed);
+        setSnapshots([]);
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoadingHistory(false);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, [from, to, selectedClassId, breachesOnly, t]);
+
+  const formatRatio = (ratio: { children_per_staff: number | null; weighted_children: number }) => {
+    if (ratio.children_per_staff === null) {
+      return ratio.weighted_children > 0 ? t.staff_ratio_no_staff : '–';
+    }
+    return ratio.children_per_staff.toFixed(1);
+  };
+
+  const statusBadge = (isBreach: boolean) => (
+    <span
+      className={`inline-flex rounded-full px-2 py-0.5 text-ds-tiny font-medium ${
+        isBreach
+          ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+          : 'bg-mint-100 text-mint-700 dark:bg-mint-900/30 dark:text-mint-300'
+      }`}
+    >
+      {isBreach ? t.staff_ratio_status_breach : t.staff_ratio_status_ok}
+    </span>
+  );
+
+  const headerCellClass = 'py-2 px-4 text-ds-small font-medium text-white dark:text-slate-300';
+  const cellClass = 'py-2 px-4 text-ds-small text-slate-700 dark:text-slate-300';
+
+  const renderLiveRow = (ratio: StaffRatio, label: string, isTotal = false) => (
+    <tr
+      key={ratio.class_id ?? 'org'}
+      className={
+        isTotal
+          ? 'bg-mint-50 font-medium dark:bg-slate-700/50'
+          : 'border-b border-slate-100 dark:border-slate-700 hover:bg-mint-50 dark:hover:bg-slate-700/50 transition-colors'
+      }
+    >
+      <td className="py-2 px-4 text-ds-small text-slate-900 dark:text-slate-100">{label}</td>
+      <td className={`${cellClass} text-right`}>{ratio.children_present}</td>
+      <td className={`${cellClass} text-right`}>{ratio.weighted_children}</td>
+      <td className={`${cellClass} text-right`}>{ratio.staff_present}</td>
+      <td className={`${cellClass} text-right`}>{formatRatio(ratio)}</td>
+      <td className={`${cellClass} text-right`}>{statusBadge(ratio.is_breach)}</td>
+    </tr>
+  );
+
+  return (
+    <>
+      <PageHeader
+        title={t.staff_ratio_title}
+        subtitle={t.staff_ratio_subtitle}
+        headingLevel="h1"
+        showBackButton={true}
+        backHref={backHref}
+        rightActions={
+          <button
+            type="button"
+            onClick={() => void loadLive()}
+            className="inline-flex items-center gap-2 rounded-ds-md border border-slate-300 bg-white px-4 py-2 text-ds-small hover:bg-mint-50 transition-colors dark:border-slate-600 dark:bg-slate-800 dark:text-slate-200 dark:hover:bg-slate-700"
+          >
+            <RefreshCw className="h-4 w-4" />
+            {t.staff_ratio_refresh}
+          </button>
+        }
+      />
+
+      <div className="space-y-ds-md">
+        {/* Live ratios */}
+        <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+          <div className="mb-3 flex flex-wrap items-baseline justify-between gap-2">
+            <h2 className="text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">
+              {t.staff_ratio_live}
+            </h2>
+            {report && (
+              <p className="text-ds-tiny text-slate-500 dark:text-slate-400">
+                {t.staff_ratio_threshold_label.replace('{threshold}', String(report.threshold))}
+                {' · '}
+                {t.staff_ratio_updated_at.replace('{time}', formatTime(report.calculated_at))}
+              </p>
+            )}
+          </div>
+
+          {liveError && (
+            <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+              {liveError}
+            </div>
+          )}
+
+          {isLoadingLive ? (
+            <LoadingSkeleton type="table" rows={4} />
+          ) : report && report.classes.length > 0 ? (
+            <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-ds-md">
+              <table className="w-full min-w-[640px] border-collapse">
+                <thead>
+                  <tr className="bg-mint-500">
+                    <th className={`${headerCellClass} text-left`}>{t.col_class}</th>
+                    <th className={`${headerCellClass} text-right`}>{t.staff_ratio_children}</th>
+                    <th className={`${headerCellClass} text-right`}>{t.staff_ratio_weighted}</th>
+                    <th className={`${headerCellClass} text-right`}>{t.staff_ratio_staff}</th>
+                    <th className={`${headerCellClass} text-right`}>{t.staff_ratio_ratio}</th>
+                    <th className={`${headerCellClass} text-right`}>{t.staff_ratio_status}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.classes.map((ratio) => renderLiveRow(ratio, ratio.class_name ?? ''))}
+                  {renderLiveRow(report.org, t.staff_ratio_org_total, true)}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            !liveError && (
+              <EmptyState icon={Scale} title={t.staff_ratio_live} description={t.staff_ratio_no_classes} />
+            )
+          )}
+        </div>
+
+        {/* Snapshot history */}
+        <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+          <h2 className="mb-3 text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">
+            {t.staff_ratio_history}
+          </h2>
+
+          <div className="mb-ds-sm flex flex-col gap-2 sm:flex-row sm:flex-wrap sm:items-center">
+            <label className="flex items-center gap-2 text-ds-small text-slate-700 dark:text-slate-300">
+              {t.staff_ratio_from}
+              <input
+                type="date"
+                value={from}
+                max={to}
+                onChange={(e) => setFrom(e.target.value)}
+                className="rounded-ds-md border border-slate-300 px-4 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-ds-small text-slate-700 dark:text-slate-300">
+              {t.staff_ratio_to}
+              <input
+                type="date"
+                value={to}
+                min={from}
+                onChange={(e) => setTo(e.target.value)}
+                className="rounded-ds-md border border-slate-300 px-4 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200"
+              />
+            </label>
+            <select
+              value={selectedClassId}
+              onChange={(e) => setSelectedClassId(e.target.value)}
+              className="w-full sm:w-auto rounded-ds-md border border-[#D8EBD8] bg-[#F5FFF7] px-3 sm:px-4 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200"
+            >
+              <option value="all">{t.all_classes}</option>
+              {classes.map((cls) => (
+                <option key={cls.id} value={cls.id}>
+                  {cls.name}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-ds-small text-slate-700 dark:text-slate-300">
+              <input
+                type="checkbox"
+                checked={breachesOnly}
+                onChange={(e) => setBreachesOnly(e.target.checked)}
+                className="h-4 w-4 rounded border-slate-300 text-mint-600 focus:ring-mint-500"
+              />
+              {t.staff_ratio_breaches_only}
+            </label>
+          </div>
+
+          {historyError && (
+            <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+              {historyError}
+            </div>
+          )}
+
+          {isLoadingHistory ? (
+            <LoadingSkeleton type="table" rows={6} />
+          ) : snapshots.length === 0 ? (
+            <EmptyState icon={Scale} title={t.staff_ratio_history} description={t.staff_ratio_history_empty} />
+          ) : (
+            <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-ds-md">
+              <table className="w-full min-w-[720px] border-collapse">
+                <thead>
+                  <tr className="bg-mint-500">
+                    <th className={`${headerCellClass} text-left`}>{t.date}</th>
+                    <th className={`${headerCellClass} text-left`}>{t.staff_ratio_time}</th>
+                    <th className={`${headerCellClass} text-left`}>{t.col_class}</th>
+                    <th className={`${headerCellClass} text-right`}>{t.staff_ratio_weighted}</th>
+                    <th className={`${headerCellClass} text-right`}>{t.staff_ratio_staff}</th>
+                    <th className={`${headerCellClass} text-right`}>{t.staff_ratio_ratio}</th>
+                    <th className={`${headerCellClass} text-right`}>{t.staff_ratio_threshold}</th>
+                    <th className={`${headerCellClass} text-right`}>{t.staff_ratio_status}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {snapshots.map((snapshot) => (
+                    <tr
+                      key={snapshot.id}
+                      className="border-b border-slate-100 dark:border-slate-700 hover:bg-mint-50 dark:hover:bg-slate-700/50 transition-colors"
+                    >
+                      <td className={cellClass}>{snapshot.date}</td>
+                      <td className={cellClass}>{formatTime(snapshot.recorded_at)}</td>
+                      <td className="py-2 px-4 text-ds-small text-slate-900 dark:text-slate-100">
+                        {snapshot.class_id ? snapshot.classes?.name ?? '' : t.staff_ratio_org_total}
+                      </td>
+                      <td className={`${cellClass} text-right`}>{snapshot.weighted_children}</td>
+                      <td className={`${cellClass} text-right`}>{snapshot.staff_present}</td>
+                      <td className={`${cellClass} text-right`}>{formatRatio(snapshot)}</td>
+                      <td className={`${cellClass} text-right`}>{snapshot.threshold}</td>
+                      <td className={`${cellClass} text-right`}>{statusBadge(snapshot.is_breach)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
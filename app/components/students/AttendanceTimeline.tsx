@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ArrowRight, History } from 'lucide-react';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import { formatDate } from '@/lib/utils/studentUtils';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import type { AttendanceHistoryEntry, AttendanceRecord } from '@/lib/types/attendance';
+
+const DAYS_PER_PAGE = 10;
+
+function formatTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+interface AttendanceTimelineProps {
+  studentId: string;
+}
+
+/**
+ * Status and check-out history for a student's attendance, newest day first,
+ * showing who made each change and when.
+ */
+export function AttendanceTimeline({ studentId }: AttendanceTimelineProps) {
+  const { t } = useLanguage();
+  const [history, setHistory] = useState<AttendanceHistoryEntry[]>([]);
+  const [visibleDays, setVisibleDays] = useState(DAYS_PER_PAGE);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const res = await fetch(
+          `/api/attendance?studentId=${encodeURIComponent(studentId)}&includeHistory=true&t=${Date.now()}`,
+          { cache: 'no-store', signal: controller.signal },
+        );
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || t.attendance_history_failed);
+        }
+        setHistory(data.history || []);
+      } catch (err: unknown) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : t.attendance_history_failed);
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, [studentId, t]);
+
+  const statusLabel = (status: AttendanceRecord['status']): string => {
+    switch (status) {
+      case 'arrived':
+        return t.attendance_status_arrived;
+      case 'late':
+        return t.attendance_late;
+      case 'absent':
+        return t.attendance_absent;
+      case 'excused':
+        return t.attendance_excused;
+      case 'away_sick':
+        return t.attendance_status_away_sick;
+      case 'away_holiday':
+        return t.attendance_status_away_holiday;
+      case 'gone':
+        return t.attendance_status_gone;
+    }
+  };
+
+  // History comes newest first, so days and their entries keep that order
+  const days: Array<{ date: string; entries: AttendanceHistoryEntry[] }> = [];
+  for (const entry of history) {
+    const day = days.find((d) => d.date === entry.date);
+    if (day) {
+      day.entries.push(entry);
+    } else {
+      days.push({ date: entry.date, entries: [entry] });
+    }
+  }
+
+  return (
+    <div className="rounded-ds-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-ds-card p-6">
+      <div className="flex items-center gap-2 mb-6">
+        <History className="w-5 h-5 text-mint-500 dark:text-mint-400" />
+        <h2 className="text-ds-h2 font-semibold text-ds-text-primary dark:text-slate-100">
+          {t.attendance_history_title}
+        </h2>
+      </div>
+
+      {loading ? (
+        <LoadingSkeleton type="table" rows={4} className="border-0 p-0" />
+      ) : error ? (
+        <p className="text-ds-small text-red-700 dark:text-red-400">{error}</p>
+      ) : days.length === 0 ? (
+        <p className="text-ds-body text-ds-text-muted dark:text-slate-400">{t.attendance_history_empty}</p>
+      ) : (
+        <div className="space-y-5">
+          {days.slice(0, visibleDays).map((day) => (
+            <div key={day.date}>
+              <p className="text-ds-tiny uppercase tracking-wide text-ds-text-muted dark:text-slate-400 mb-2">
+                {formatDate(day.date)}
+              </p>
+              <ol className="space-y-2 border-l-2 border-mint-200 dark:border-slate-600 pl-4">
+                {day.entries.map((entry) => {
+                  const changedBy = entry.changed_by_user
+                    ? `${entry.changed_by_user.first_name} ${entry.changed_by_user.last_name ?? ''}`.trim()
+                    : t.attendance_history_unknown_user;
+                  const statusChanged = entry.old_status !== entry.new_status;
+                  const checkout = entry.new_left_at
+                    ? entry.new_left_at !== entry.old_left_at
+                      ? t.attendance_history_checked_out.replace('{time}', formatTime(entry.new_left_at))
+                      : null
+                    : entry.old_left_at
+                      ? t.attendance_history_checkout_cleared
+                      : null;
+                  return (
+                    <li key={entry.id} className="text-ds-small text-ds-text-primary dark:text-slate-100">
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        <span className="font-medium tabular-nums">{formatTime(entry.changed_at)}</span>
+                        {statusChanged && entry.old_status && (
+                          <>
+                            <span className="text-ds-text-muted dark:text-slate-400">{statusLabel(entry.old_status)}</span>
+                            <ArrowRight className="w-3 h-3 text-ds-text-muted dark:text-slate-400" />
+                          </>
+                        )}
+                        {(statusChanged || !checkout) && (
+                          <span className="font-medium">{statusLabel(entry.new_status)}</span>
+                        )}
+                        {checkout && <span className="font-medium">{checkout}</span>}
+                        <span className="text-ds-text-muted dark:text-slate-400">
+                          {t.attendance_history_by.replace('{name}', changedBy)}
+                        </span>
+                      </div>
+                      {entry.notes && (
+                        <p className="text-ds-tiny text-ds-text-muted dark:text-slate-400 mt-0.5">{entry.notes}</p>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          ))}
+
+          {days.length > visibleDays && (
+            <button
+              onClick={() => setVisibleDays((count) => count + DAYS_PER_PAGE)}
+              className="text-ds-small text-mint-600 dark:text-mint-400 hover:underline"
+            >
+              {t.attendance_history_show_more}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
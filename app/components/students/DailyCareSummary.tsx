@@ -0,0 +1,266 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CalendarDays } from 'lucide-react';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import type { ChildCareSummary, DailyCareSummary as DailyCare } from '@/lib/types/health-logs';
+
+const SUMMARY_DAYS = 7;
+const CHART_WIDTH = 280;
+const CHART_HEIGHT = 90;
+const CHART_PADDING = 6;
+
+function diaperTotal(day: DailyCare): number {
+  return day.diapers.wet + day.diapers.dirty + day.diapers.mixed;
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes <= 0) return '—';
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return hours > 0 ? `${hours}h ${rest}m` : `${rest}m`;
+}
+
+function formatDay(date: string, lang: 'is' | 'en'): string {
+  return new Date(`${date}T12:00:00`).toLocaleDateString(lang === 'is' ? 'is-IS' : 'en-US', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+  });
+}
+
+/**
+ * Bars per day with the child's usual value as a dashed line
+ */
+function WeekBars({
+  days,
+  values,
+  usual,
+  label,
+  barClassName,
+}: {
+  days: DailyCare[];
+  values: number[];
+  usual: number | null;
+  label: string;
+  barClassName: string;
+}) {
+  const max = Math.max(...values, usual ?? 0, 1);
+  const slot = (CHART_WIDTH - CHART_PADDING * 2) / days.length;
+  const y = (value: number) => CHART_HEIGHT - CHART_PADDING - (value / max) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-24" role="img" aria-label={label}>
+      {days.map((day, i) => (
+        <rect
+          key={day.date}
+          x={CHART_PADDING + i * slot + slot * 0.2}
+          width={slot * 0.6}
+          y={y(values[i])}
+          height={CHART_HEIGHT - CHART_PADDING - y(values[i])}
+          rx={2}
+          className={barClassName}
+        >
+          <title>{`${day.date} · ${values[i]}`}</title>
+        </rect>
+      ))}
+      {usual !== null && (
+        <line
+          x1={0}
+          x2={CHART_WIDTH}
+          y1={y(usual)}
+          y2={y(usual)}
+          className="stroke-slate-400"
+          strokeDasharray="4 4"
+          strokeWidth={1}
+        />
+      )}
+    </svg>
+  );
+}
+
+/**
+ * Compare today's value with the child's usual day
+ */
+function UsualStat({ label, value, usual, format }: {
+  label: string;
+  value: number;
+  usual: number | null;
+  format: (value: number) => string;
+}) {
+  const { t } = useLanguage();
+  return (
+    <div className="rounded-ds-md bg-mint-50 px-3 py-2 dark:bg-slate-700/50">
+      <p className="text-ds-tiny text-slate-500 dark:text-slate-400">{label}</p>
+      <p className="text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">{format(value)}</p>
+      {usual !== null && (
+        <p className="text-ds-tiny text-slate-500 dark:text-slate-400">
+          {t.care_summary_usual.replace('{value}', format(usual))}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ChildSummary({ summary, showName }: { summary: ChildCareSummary; showName: boolean }) {
+  const { t, lang } = useLanguage();
+  const today = summary.days[summary.days.length - 1];
+  const name = `${summary.first_name ?? ''} ${summary.last_name ?? ''}`.trim();
+
+  return (
+    <div className="rounded-ds-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-ds-card p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <CalendarDays className="w-5 h-5 text-mint-500 dark:text-mint-400" />
+        <h2 className="text-ds-h2 font-semibold text-ds-text-primary dark:text-slate-100">
+          {showName && name ? `${t.care_summary_title} · ${name}` : t.care_summary_title}
+        </h2>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-4">
+        <UsualStat
+          label={t.care_summary_diapers_today}
+          value={diaperTotal(today)}
+          usual={summary.usual?.diapers ?? null}
+          format={(value) => value.toString()}
+        />
+        <UsualStat
+          label={t.care_summary_nap_today}
+          value={today.nap_minutes}
+          usual={summary.usual?.nap_minutes ?? null}
+          format={formatMinutes}
+        />
+        <UsualStat
+          label={t.care_summary_meals_today}
+          value={today.meals}
+          usual={summary.usual?.meals ?? null}
+          format={(value) => value.toString()}
+        />
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 mb-4">
+        <div>
+          <p className="text-ds-small font-medium text-slate-700 dark:text-slate-300">{t.care_summary_diapers_week}</p>
+          <WeekBars
+            days={summary.days}
+            values={summary.days.map(diaperTotal)}
+            usual={summary.usual?.diapers ?? null}
+            label={t.care_summary_diapers_week}
+            barClassName="fill-mint-500"
+          />
+        </div>
+        <div>
+          <p className="text-ds-small font-medium text-slate-700 dark:text-slate-300">{t.care_summary_naps_week}</p>
+          <WeekBars
+            days={summary.days}
+            values={summary.days.map((day) => day.nap_minutes)}
+            usual={summary.usual?.nap_minutes ?? null}
+            label={t.care_summary_naps_week}
+            barClassName="fill-sky-400"
+          />
+        </div>
+      </div>
+      {summary.usual === null && (
+        <p className="mb-3 text-ds-tiny text-slate-500 dark:text-slate-400">{t.care_summary_no_usual}</p>
+      )}
+
+      <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-ds-md">
+        <table className="w-full border-collapse min-w-[520px]">
+          <thead>
+            <tr className="bg-mint-500">
+              <th className="text-left py-2 px-3 text-ds-tiny sm:text-ds-small font-medium text-white dark:text-slate-300">{t.date}</th>
+              <th className="text-left py-2 px-3 text-ds-tiny sm:text-ds-small font-medium text-white dark:text-slate-300">{t.care_summary_diapers}</th>
+              <th className="text-left py-2 px-3 text-ds-tiny sm:text-ds-small font-medium text-white dark:text-slate-300">{t.care_summary_naps}</th>
+              <th className="text-left py-2 px-3 text-ds-tiny sm:text-ds-small font-medium text-white dark:text-slate-300">{t.care_summary_meals}</th>
+              <th className="text-left py-2 px-3 text-ds-tiny sm:text-ds-small font-medium text-white dark:text-slate-300">{t.care_summary_temperatures}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...summary.days].reverse().map((day) => (
+              <tr key={day.date} className="border-b border-slate-100 dark:border-slate-700">
+                <td className="py-2 px-3 text-ds-tiny sm:text-ds-small text-slate-900 dark:text-slate-100" suppressHydrationWarning>
+                  {formatDay(day.date, lang)}
+                </td>
+                <td className="py-2 px-3 text-ds-tiny sm:text-ds-small text-slate-600 dark:text-slate-400">
+                  {diaperTotal(day) === 0
+                    ? '—'
+                    : t.care_summary_diaper_breakdown
+                        .replace('{wet}', day.diapers.wet.toString())
+                        .replace('{dirty}', day.diapers.dirty.toString())
+                        .replace('{mixed}', day.diapers.mixed.toString())}
+                </td>
+                <td className="py-2 px-3 text-ds-tiny sm:text-ds-small text-slate-600 dark:text-slate-400">
+                  {day.naps === 0 ? '—' : `${day.naps} · ${formatMinutes(day.nap_minutes)}`}
+                </td>
+                <td className="py-2 px-3 text-ds-tiny sm:text-ds-small text-slate-600 dark:text-slate-400">
+                  {day.meals || '—'}
+                </td>
+                <td className="py-2 px-3 text-ds-tiny sm:text-ds-small text-slate-600 dark:text-slate-400">
+                  {day.temperatures.length === 0
+                    ? '—'
+                    : day.temperatures.map((value) => `${value.toFixed(1)}°C`).join(', ')}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * A week of diapers, naps, meals and temperatures for each of the
+ * guardian's children, compared with their usual day
+ */
+export function DailyCareSummary() {
+  const { t } = useLanguage();
+  const [summaries, setSummaries] = useState<ChildCareSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const res = await fetch(`/api/health-logs/care-summary?days=${SUMMARY_DAYS}&t=${Date.now()}`, {
+          cache: 'no-store',
+          signal: controller.signal,
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || t.care_summary_failed);
+        }
+        setSummaries(data.summaries ?? []);
+      } catch (err: unknown) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : t.care_summary_failed);
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, [t]);
+
+  if (loading) {
+    return <LoadingSkeleton type="table" rows={3} />;
+  }
+  if (error) {
+    return (
+      <div className="rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+        {error}
+      </div>
+    );
+  }
+  if (summaries.length === 0) return null;
+
+  return (
+    <div className="grid gap-3 sm:gap-ds-md">
+      {summaries.map((summary) => (
+        <ChildSummary key={summary.student_id} summary={summary} showName={summaries.length > 1} />
+      ))}
+    </div>
+  );
+}
@@ -19,6 +19,11 @@ import {
 import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
 import EmptyState from '@/app/components/EmptyState';
 import { StudentHeader } from '@/app/components/students/StudentHeader';
+import { AttendanceTimeline } from '@/app/components/students/AttendanceTimeline';
+import { StudentMedicationPlans } from '@/app/components/medication/StudentMedicationPlans';
+import { TemperatureTrend } from '@/app/components/students/TemperatureTrend';
+import { StudentRelatives } from '@/app/components/students/StudentRelatives';
+import { StudentMilestones } from '@/app/components/students/StudentMilestones';
 import type { Student, GuardianRelation } from '@/lib/types/attendance';
 import { 
   getStudentName, 
@@ -389,7 +394,7 @@ export function StudentDetails({ studentId, backHref }: StudentDetailsProps) {
                   {t.student_details_medical_notes}
                 </label>
                 <p className="text-ds-body text-ds-text-primary dark:text-slate-100 whitespace-pre-wrap">
-                  {student.medical_notes_encrypted || t.student_details_no_medical_notes}
+                  {student.medical_notes || t.student_details_no_medical_notes}
                 </p>
               </div>
 
@@ -399,12 +404,24 @@ export function StudentDetails({ studentId, backHref }: StudentDetailsProps) {
                   {t.student_details_allergies}
                 </label>
                 <p className={`text-ds-body ${
-                  student.allergies_encrypted 
+                  student.allergies 
                     ? 'text-red-600 dark:text-red-400 font-medium' 
                     : 'text-ds-text-primary dark:text-slate-100'
                 } whitespace-pre-wrap`}>
-                  {student.allergies_encrypted || t.student_details_no_known_allergies}
+                  {student.allergies || t.student_details_no_known_allergies}
                 </p>
+                {student.allergy_tags && student.allergy_tags.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {student.allergy_tags.map((allergen) => (
+                      <span
+                        key={allergen}
+                        className="rounded-full bg-red-50 border border-red-200 px-2 py-0.5 text-ds-tiny text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400"
+                      >
+                        {t[`allergen_${allergen}`]}
+                      </span>
+                    ))}
+                  </div>
+                )}
               </div>
 
               <div>
@@ -413,7 +430,7 @@ export function StudentDetails({ studentId, backHref }: StudentDetailsProps) {
                   {t.student_details_emergency_contact}
                 </label>
                 <p className="text-ds-body text-ds-text-primary dark:text-slate-100">
-                  {student.emergency_contact_encrypted || t.student_details_not_provided}
+                  {student.emergency_contact || t.student_details_not_provided}
                 </p>
               </div>
 
@@ -424,6 +441,18 @@ export function StudentDetails({ studentId, backHref }: StudentDetailsProps) {
               )}
             </div>
           </div>
+
+          {/* Attendance History Card */}
+          <AttendanceTimeline studentId={student.id} />
+
+          {/* Medication Plans Card */}
+          <StudentMedicationPlans studentId={student.id} studentName={studentName} />
+
+          {/* Temperature Trend Card */}
+          <TemperatureTrend studentId={student.id} />
+
+          {/* Developmental Milestones Card */}
+          <StudentMilestones studentId={student.id} />
         </div>
 
         {/* Right Column - Secondary Information */}
@@ -569,6 +598,9 @@ export function StudentDetails({ studentId, backHref }: StudentDetailsProps) {
             )}
           </div>
 
+          {/* Relatives Card */}
+          <StudentRelatives studentId={student.id} />
+
           {/* Quick Statistics Card */}
           <div className="rounded-ds-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-ds-card p-6">
             <h2 className="text-ds-h3 font-semibold text-ds-text-primary dark:text-slate-100 mb-4">
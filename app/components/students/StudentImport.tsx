@@ -0,0 +1,261 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, FileSpreadsheet, Upload } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import { PageHeader } from '@/app/components/shared/PageHeader';
+import { STUDENT_IMPORT_FIELDS, type StudentImportField, type StudentImportMode } from '@/lib/constants/studentImport';
+import type { StudentImportReport, StudentImportRowStatus } from '@/lib/types/students';
+
+const STATUS_CLASSES: Record<StudentImportRowStatus, string> = {
+  create: 'bg-mint-100 text-mint-800 dark:bg-mint-900/30 dark:text-mint-300',
+  duplicate: 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300',
+  error: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+interface StudentImportProps {
+  backHref?: string;
+}
+
+/**
+ * Bulk import of students and their guardians from CSV or XLSX.
+ * Every file is checked with a dry run first; importing is only offered
+ * once no row has errors.
+ */
+export default function StudentImport({ backHref = '/dashboard/principal/students' }: StudentImportProps) {
+  const { t } = useLanguage();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<Partial<Record<StudentImportField, string>>>({});
+  const [report, setReport] = useState<StudentImportReport | null>(null);
+  const [running, setRunning] = useState<StudentImportMode | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const statusLabel: Record<StudentImportRowStatus, string> = {
+    create: t.student_import_status_create,
+    duplicate: t.student_import_status_duplicate,
+    error: t.student_import_status_error,
+  };
+
+  const runImport = async (mode: StudentImportMode, nextMapping = mapping) => {
+    if (!file) return;
+    setRunning(mode);
+    setError(null);
+    setMessage(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('mode', mode);
+      formData.append('mapping', JSON.stringify(nextMapping));
+      const res = await fetch('/api/students/import', { method: 'POST', body: formData });
+      const data = await res.json();
+      if (data.report) {
+        setReport(data.report as StudentImportReport);
+      }
+      if (!res.ok) {
+        throw new Error(data.details || data.error || t.student_import_failed);
+      }
+      if (mode === 'commit') {
+        const created = (data.report as StudentImportReport).created;
+        setMessage(
+          t.student_import_done
+            .replace('{students}', String(created?.students ?? 0))
+            .replace('{guardians}', String(created?.guardians ?? 0)),
+        );
+        setFile(null);
+        if (typeof window !== 'undefined') {
+          // Signal dashboards to refresh students and counts
+          try {
+            localStorage.setItem('students_data_changed', String(Date.now()));
+          } catch {}
+        }
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.student_import_failed);
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const changeMapping = (field: StudentImportField, header: string) => {
+    // An empty string leaves the field unmapped instead of auto-matching it
+    const next = { ...(report?.mapping ?? {}), ...mapping, [field]: header };
+    setMapping(next);
+    void runImport('dry_run', next);
+  };
+
+  const downloadTemplate = () => {
+    const blob = new Blob([`\uFEFF${STUDENT_IMPORT_FIELDS.join(',')}\r\n`], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'student-import-template.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const inputClassName =
+    'rounded-ds-md border border-slate-300 px-3 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200';
+  const headerCellClass = 'py-2 px-4 text-ds-small font-medium text-white dark:text-slate-300';
+  const canCommit = report !== null && report.created === null && report.errors === 0 && report.to_create > 0;
+
+  return (
+    <>
+      <PageHeader
+        title={t.student_import_title}
+        subtitle={t.student_import_subtitle}
+        headingLevel="h1"
+        showBackButton={true}
+        backHref={backHref}
+        rightActions={
+          <button
+            type="button"
+            onClick={downloadTemplate}
+            className="inline-flex items-center gap-2 rounded-ds-md border border-slate-300 px-ds-sm py-2 text-ds-small text-slate-700 hover:bg-slate-50 transition-colors dark:border-slate-600 dark:text-slate-300 dark:hover:bg-slate-700"
+          >
+            <Download className="h-4 w-4" /> {t.student_import_template}
+          </button>
+        }
+      />
+
+      <div className="mb-ds-sm rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+        <p className="mb-3 text-ds-small text-slate-600 dark:text-slate-400">{t.student_import_hint}</p>
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <input
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              setMapping({});
+              setReport(null);
+              setMessage(null);
+            }}
+            className={`${inputClassName} flex-1`}
+          />
+          <button
+            type="button"
+            onClick={() => runImport('dry_run')}
+            disabled={!file || running !== null}
+            className="inline-flex items-center justify-center gap-2 rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small text-white hover:bg-mint-600 transition-colors disabled:opacity-50"
+          >
+            <FileSpreadsheet className="h-4 w-4" />
+            {running === 'dry_run' ? t.student_import_checking : t.student_import_check}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-4 rounded-ds-md bg-mint-50 border border-mint-200 px-4 py-3 text-ds-small text-mint-700 dark:bg-mint-900/20 dark:border-mint-800 dark:text-mint-300">
+          {message}
+        </div>
+      )}
+
+      {report && (
+        <div className="space-y-ds-md">
+          <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-ds-small text-slate-700 dark:text-slate-300">
+                {t.student_import_summary
+                  .replace('{total}', String(report.total))
+                  .replace('{create}', String(report.to_create))
+                  .replace('{duplicates}', String(report.duplicates))
+                  .replace('{errors}', String(report.errors))}
+              </p>
+              {canCommit && (
+                <button
+                  type="button"
+                  onClick={() => runImport('commit')}
+                  disabled={running !== null}
+                  className="inline-flex items-center gap-2 rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small text-white hover:bg-mint-600 transition-colors disabled:opacity-50"
+                >
+                  <Upload className="h-4 w-4" />
+                  {running === 'commit'
+                    ? t.student_import_importing
+                    : t.student_import_commit.replace('{count}', String(report.to_create))}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {report.created === null && (
+            <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+              <h2 className="mb-3 text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">{t.student_import_mapping}</h2>
+              <div className="grid grid-cols-1 gap-2 sm:grid-cols-2 lg:grid-cols-3">
+                {STUDENT_IMPORT_FIELDS.map((field) => (
+                  <label key={field} className="flex items-center justify-between gap-2 text-ds-small text-slate-700 dark:text-slate-300">
+                    <span className="font-mono text-ds-tiny">{field}</span>
+                    <select
+                      value={report.mapping[field] ?? ''}
+                      onChange={(e) => changeMapping(field, e.target.value)}
+                      disabled={running !== null}
+                      className={`${inputClassName} w-40`}
+                    >
+                      <option value="">{t.student_import_unmapped}</option>
+                      {report.headers.map((header) => (
+                        <option key={header} value={header}>
+                          {header}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+            <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-ds-md">
+              <table className="w-full min-w-[640px] border-collapse">
+                <thead>
+                  <tr className="bg-mint-500">
+                    <th className={`${headerCellClass} text-left`}>{t.student_import_row}</th>
+                    <th className={`${headerCellClass} text-left`}>{t.student_name}</th>
+                    <th className={`${headerCellClass} text-left`}>{t.status}</th>
+                    <th className={`${headerCellClass} text-left`}>{t.guardians}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.rows.map((row) => (
+                    <tr key={row.row} className="border-b border-slate-100 align-top dark:border-slate-700">
+                      <td className="py-2 px-4 text-ds-small text-slate-500 dark:text-slate-400">{row.row}</td>
+                      <td className="py-2 px-4 text-ds-small text-slate-900 dark:text-slate-100">
+                        {row.student_name || '-'}
+                        {row.errors.map((rowError) => (
+                          <p key={rowError} className="mt-1 text-ds-tiny text-red-700 dark:text-red-400">
+                            {rowError}
+                          </p>
+                        ))}
+                      </td>
+                      <td className="py-2 px-4">
+                        <span className={`inline-flex rounded-ds-full px-2 py-0.5 text-ds-tiny font-medium ${STATUS_CLASSES[row.status]}`}>
+                          {statusLabel[row.status]}
+                        </span>
+                      </td>
+                      <td className="py-2 px-4 text-ds-small text-slate-700 dark:text-slate-300">
+                        {row.guardians.map((guardian) => (
+                          <p key={guardian.email}>
+                            {guardian.name} · {guardian.email}
+                            {guardian.existing && (
+                              <span className="text-ds-tiny text-slate-500 dark:text-slate-400"> ({t.student_import_existing_guardian})</span>
+                            )}
+                          </p>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,326 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Camera, FileText, Pencil, Sprout } from 'lucide-react';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import { MILESTONE_DOMAINS, type MilestoneStatus } from '@/lib/constants/milestones';
+import type { MilestoneChecklist, MilestoneChecklistItem } from '@/lib/types/milestones';
+
+interface DetailsFormState {
+  observed_on: string;
+  photo_id: string;
+  daily_log_id: string;
+  notes: string;
+}
+
+const STATUS_CLASSES: Record<MilestoneStatus, string> = {
+  emerging: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  achieved: 'bg-mint-100 text-mint-800 dark:bg-mint-900/30 dark:text-mint-300',
+};
+
+const inputClassName =
+  'w-full rounded-ds-md border border-slate-300 px-3 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200';
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Staff view of a child's developmental milestones for their age, by domain.
+ * Each item can be marked emerging or achieved with the date observed and a
+ * photo or daily log entry as evidence.
+ */
+export function StudentMilestones({ studentId }: { studentId: string }) {
+  const { t, lang } = useLanguage();
+  const [checklist, setChecklist] = useState<MilestoneChecklist | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [form, setForm] = useState<DetailsFormState>({ observed_on: today(), photo_id: '', daily_log_id: '', notes: '' });
+
+  const baseUrl = `/api/students/${encodeURIComponent(studentId)}/milestones`;
+  const labels = t as unknown as Record<string, string>;
+
+  const loadChecklist = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const res = await fetch(`${baseUrl}?t=${Date.now()}`, { cache: 'no-store', signal });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.milestones_load_failed);
+      }
+      setChecklist(data.checklist);
+      setError(null);
+    } catch (err: unknown) {
+      if (signal?.aborted) return;
+      setError(err instanceof Error ? err.message : t.milestones_load_failed);
+    } finally {
+      if (!signal?.aborted) {
+        setLoading(false);
+      }
+    }
+  }, [baseUrl, t]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void loadChecklist(controller.signal);
+    return () => controller.abort();
+  }, [loadChecklist]);
+
+  const saveMilestone = async (item: MilestoneChecklistItem, status: MilestoneStatus | null, details?: DetailsFormState) => {
+    setSavingKey(item.key);
+    setError(null);
+    try {
+      const record = item.record;
+      const res = await fetch(baseUrl, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          milestone_key: item.key,
+          status,
+          observed_on: details?.observed_on || record?.observed_on || today(),
+          photo_id: details ? details.photo_id || null : record?.photo_id ?? null,
+          daily_log_id: details ? details.daily_log_id || null : record?.daily_log_id ?? null,
+          notes: details ? details.notes.trim() || null : record?.notes ?? null,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.details || data.error || t.milestones_save_failed);
+      }
+      setChecklist((prev) =>
+        prev && {
+          ...prev,
+          items: prev.items.map((entry) => (entry.key === item.key ? { ...entry, record: data.milestone } : entry)),
+        },
+      );
+      setEditingKey(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.milestones_save_failed);
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const openDetails = (item: MilestoneChecklistItem) => {
+    setEditingKey(item.key);
+    setForm({
+      observed_on: item.record?.observed_on ?? today(),
+      photo_id: item.record?.photo_id ?? '',
+      daily_log_id: item.record?.daily_log_id ?? '',
+      notes: item.record?.notes ?? '',
+    });
+  };
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString(lang === 'is' ? 'is-IS' : 'en-GB', { timeZone: 'UTC' });
+
+  const statusLabel: Record<MilestoneStatus, string> = {
+    emerging: t.milestones_status_emerging,
+    achieved: t.milestones_status_achieved,
+  };
+
+  const achievedCount = checklist?.items.filter((item) => item.record?.status === 'achieved').length ?? 0;
+
+  return (
+    <div className="rounded-ds-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-ds-card p-6">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h2 className="text-ds-h3 font-semibold text-ds-text-primary dark:text-slate-100 flex items-center gap-2">
+          <Sprout className="w-5 h-5 text-mint-500 dark:text-mint-400" />
+          {t.milestones_title}
+        </h2>
+        {checklist && (
+          <span className="text-ds-small text-ds-text-muted dark:text-slate-400">
+            {checklist.age !== null ? `${t.milestones_age.replace('{age}', String(checklist.age))} · ` : ''}
+            {t.milestones_progress
+              .replace('{achieved}', String(achievedCount))
+              .replace('{total}', String(checklist.items.length))}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-3 py-2 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSkeleton type="table" rows={4} className="border-0 p-0" />
+      ) : checklist && (
+        <div className="space-y-5">
+          {checklist.dob === null && (
+            <p className="text-ds-small text-ds-text-muted dark:text-slate-400">{t.milestones_no_dob}</p>
+          )}
+          {MILESTONE_DOMAINS.map((domain) => {
+            const items = checklist.items.filter((item) => item.domain === domain);
+            if (items.length === 0) return null;
+            return (
+              <div key={domain}>
+                <h3 className="mb-2 text-ds-small font-semibold text-slate-900 dark:text-slate-100">
+                  {labels[`milestones_domain_${domain}`] ?? domain}
+                </h3>
+                <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+                  {items.map((item) => {
+                    const record = item.record;
+                    return (
+                      <li key={item.key} className="py-2">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <div className="min-w-0">
+                            <p className="text-ds-small text-slate-900 dark:text-slate-100">
+                              {labels[`milestone_item_${item.key}`] ?? item.key}
+                            </p>
+                            <p className="text-ds-tiny text-ds-text-muted dark:text-slate-400">
+                              {t.milestones_expected_age.replace('{age}', String(item.age))}
+                              {record && ` · ${statusLabel[record.status]} ${formatDate(record.observed_on)}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-1">
+                            {(['emerging', 'achieved'] as MilestoneStatus[]).map((status) => (
+                              <button
+                                key={status}
+                                type="button"
+                                onClick={() => saveMilestone(item, record?.status === status ? null : status)}
+                                disabled={savingKey === item.key}
+                                className={`rounded-ds-full px-2.5 py-1 text-ds-tiny font-medium transition-colors disabled:opacity-50 ${
+                                  record?.status === status
+                                    ? STATUS_CLASSES[status]
+                                    : 'border border-slate-300 text-slate-600 hover:bg-slate-50 dark:border-slate-600 dark:text-slate-300 dark:hover:bg-slate-700'
+                                }`}
+                              >
+                                {statusLabel[status]}
+                              </button>
+                            ))}
+                            {record && (
+                              <button
+                                type="button"
+                                onClick={() => openDetails(item)}
+                                aria-label={t.milestones_details}
+                                className="rounded-ds-md p-1 text-slate-500 hover:bg-mint-100 dark:text-slate-400 dark:hover:bg-slate-700"
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </button>
+                            )}
+                          </div>
+                        </div>
+
+                        {record && editingKey !== item.key && (record.photos || record.daily_logs || record.notes) && (
+                          <div className="mt-1 space-y-0.5 text-ds-tiny text-slate-600 dark:text-slate-400">
+                            {record.photos && (
+                              <p className="flex items-center gap-1">
+                                <Camera className="h-3.5 w-3.5" />
+                                {record.photos.caption || formatDate(record.photos.created_at)}
+                              </p>
+                            )}
+                            {record.daily_logs && (
+                              <p className="flex items-center gap-1">
+                                <FileText className="h-3.5 w-3.5" />
+                                {record.daily_logs.note || formatDate(record.daily_logs.recorded_at)}
+                              </p>
+                            )}
+                            {record.notes && <p>{record.notes}</p>}
+                          </div>
+                        )}
+
+                        {record && editingKey === item.key && (
+                          <form
+                            onSubmit={(e) => {
+                              e.preventDefault();
+                              void saveMilestone(item, record.status, form);
+                            }}
+                            className="mt-2 space-y-3 rounded-ds-md border border-slate-200 p-3 dark:border-slate-700"
+                          >
+                            <div className="grid gap-3 sm:grid-cols-3">
+                              <div>
+                                <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                  {t.milestones_observed_on}
+                                </label>
+                                <input
+                                  type="date"
+                                  value={form.observed_on}
+                                  max={today()}
+                                  onChange={(e) => setForm({ ...form, observed_on: e.target.value })}
+                                  className={inputClassName}
+                                  required
+                                />
+                              </div>
+                              <div>
+                                <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                  {t.milestones_photo}
+                                </label>
+                                <select
+                                  value={form.photo_id}
+                                  onChange={(e) => setForm({ ...form, photo_id: e.target.value })}
+                                  className={inputClassName}
+                                >
+                                  <option value="">{t.milestones_no_evidence}</option>
+                                  {(checklist.evidence_options?.photos ?? []).map((photo) => (
+                                    <option key={photo.id} value={photo.id}>
+                                      {formatDate(photo.created_at)}
+                                      {photo.caption ? ` · ${photo.caption}` : ''}
+                                    </option>
+                                  ))}
+                                </select>
+                              </div>
+                              <div>
+                                <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                  {t.milestones_daily_log}
+                                </label>
+                                <select
+                                  value={form.daily_log_id}
+                                  onChange={(e) => setForm({ ...form, daily_log_id: e.target.value })}
+                                  className={inputClassName}
+                                >
+                                  <option value="">{t.milestones_no_evidence}</option>
+                                  {(checklist.evidence_options?.daily_logs ?? []).map((log) => (
+                                    <option key={log.id} value={log.id}>
+                                      {formatDate(log.recorded_at)}
+                                      {log.note ? ` · ${log.note.slice(0, 60)}` : ''}
+                                    </option>
+                                  ))}
+                                </select>
+                              </div>
+                            </div>
+                            <div>
+                              <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                {t.notes}
+                              </label>
+                              <textarea
+                                value={form.notes}
+                                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                                rows={2}
+                                maxLength={1000}
+                                className={inputClassName}
+                              />
+                            </div>
+                            <div className="flex justify-end gap-2">
+                              <button
+                                type="button"
+                                onClick={() => setEditingKey(null)}
+                                className="rounded-ds-md border border-slate-300 px-3 py-1.5 text-ds-small text-slate-700 hover:bg-mint-50 transition-colors dark:border-slate-600 dark:text-slate-200 dark:hover:bg-slate-700"
+                              >
+                                {t.cancel}
+                              </button>
+                              <button
+                                type="submit"
+                                disabled={savingKey === item.key}
+                                className="rounded-ds-md bg-mint-500 px-3 py-1.5 text-ds-small text-white hover:bg-mint-600 transition-colors disabled:opacity-50"
+                              >
+                                {t.save}
+                              </button>
+                            </div>
+                          </form>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Pencil, Phone, Plus, Trash2, UserPlus } from 'lucide-react';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import type { StudentRelative } from '@/lib/types/students';
+
+interface RelativeFormState {
+  full_name: string;
+  relation: string;
+  phone: string;
+  email: string;
+  notes: string;
+  photo_url: string;
+  can_pickup: boolean;
+  contact_priority: string;
+}
+
+const EMPTY_FORM: RelativeFormState = {
+  full_name: '',
+  relation: '',
+  phone: '',
+  email: '',
+  notes: '',
+  photo_url: '',
+  can_pickup: false,
+  contact_priority: '',
+};
+
+function toFormState(relative: StudentRelative): RelativeFormState {
+  return {
+    full_name: relative.full_name,
+    relation: relative.relation ?? '',
+    phone: relative.phone ?? '',
+    email: relative.email ?? '',
+    notes: relative.notes ?? '',
+    photo_url: relative.photo_url ?? '',
+    can_pickup: relative.can_pickup,
+    contact_priority: relative.contact_priority?.toString() ?? '',
+  };
+}
+
+const inputClassName =
+  'w-full rounded-ds-md border border-slate-300 px-3 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200';
+
+/**
+ * Staff view of a child's relatives (grandparents, neighbours and others
+ * who are not guardian accounts), emergency contacts first
+ */
+export function StudentRelatives({ studentId }: { studentId: string }) {
+  const { t } = useLanguage();
+  const [relatives, setRelatives] = useState<StudentRelative[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // null: form closed, 'new': adding, otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<RelativeFormState>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const baseUrl = `/api/students/${encodeURIComponent(studentId)}/relatives`;
+
+  const loadRelatives = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const res = await fetch(`${baseUrl}?t=${Date.now()}`, { cache: 'no-store', signal });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.relatives_load_failed);
+      }
+      setRelatives(data.relatives || []);
+      setError(null);
+    } catch (err: unknown) {
+      if (signal?.aborted) return;
+      setError(err instanceof Error ? err.message : t.relatives_load_failed);
+    } finally {
+      if (!signal?.aborted) {
+        setLoading(false);
+      }
+    }
+  }, [baseUrl, t]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void loadRelatives(controller.signal);
+    return () => controller.abort();
+  }, [loadRelatives]);
+
+  const openForm = (relative?: StudentRelative) => {
+    setEditing(relative ? relative.id : 'new');
+    setForm(relative ? toFormState(relative) : EMPTY_FORM);
+    setFormError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setFormError(null);
+    try {
+      const res = await fetch(editing === 'new' ? baseUrl : `${baseUrl}/${editing}`, {
+        method: editing === 'new' ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          full_name: form.full_name.trim(),
+          relation: form.relation.trim() || null,
+          phone: form.phone.trim() || null,
+          email: form.email.trim() || null,
+          notes: form.notes.trim() || null,
+          photo_url: form.photo_url.trim() || null,
+          can_pickup: form.can_pickup,
+          contact_priority: form.contact_priority ? Number(form.contact_priority) : null,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.relatives_save_failed);
+      }
+      setEditing(null);
+      await loadRelatives();
+    } catch (err: unknown) {
+      setFormError(err instanceof Error ? err.message : t.relatives_save_failed);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (relative: StudentRelative) => {
+    if (!confirm(t.relatives_delete_confirm.replace('{name}', relative.full_name))) return;
+
+    try {
+      const res = await fetch(`${baseUrl}/${relative.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || t.relatives_save_failed);
+      }
+      await loadRelatives();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.relatives_save_failed);
+    }
+  };
+
+  return (
+    <div className="rounded-ds-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-ds-card p-6">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h2 className="text-ds-h3 font-semibold text-ds-text-primary dark:text-slate-100 flex items-center gap-2">
+          <UserPlus className="w-5 h-5 text-mint-500 dark:text-mint-400" />
+          {t.relatives_title}
+        </h2>
+        {editing === null && (
+          <button
+            onClick={() => openForm()}
+            className="inline-flex items-center gap-1 rounded-ds-md bg-mint-500 px-3 py-1.5 text-ds-small text-white hover:bg-mint-600 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            {t.relatives_add}
+          </button>
+        )}
+      </div>
+
+      {editing !== null && (
+        <form onSubmit={handleSubmit} className="mb-4 space-y-3 rounded-ds-md border border-slate-200 p-4 dark:border-slate-700">
+          {formError && (
+            <div className="rounded-ds-md bg-red-50 border border-red-200 px-3 py-2 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+              {formError}
+            </div>
+          )}
+          <div>
+            <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+              {t.relatives_full_name} <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="text"
+              value={form.full_name}
+              onChange={(e) => setForm({ ...form, full_name: e.target.value })}
+              className={inputClassName}
+              required
+            />
+          </div>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div>
+              <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+                {t.relatives_relation}
+              </label>
+              <input
+                type="text"
+                value={form.relation}
+                onChange={(e) => setForm({ ...form, relation: e.target.value })}
+                placeholder={t.relatives_relation_placeholder}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+                {t.relatives_contact_priority}
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={99}
+                value={form.contact_priority}
+                onChange={(e) => setForm({ ...form, contact_priority: e.target.value })}
+                placeholder={t.relatives_contact_priority_placeholder}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+                {t.relatives_phone}
+              </label>
+              <input
+                type="tel"
+                value={form.phone}
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+                {t.relatives_email}
+              </label>
+              <input
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+              {t.relatives_photo_url}
+            </label>
+            <input
+              type="url"
+              value={form.photo_url}
+              onChange={(e) => setForm({ ...form, photo_url: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-ds-small font-medium text-slate-700 dark:text-slate-300 mb-1">
+              {t.notes}
+            </label>
+            <textarea
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              rows={2}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="relative-can-pickup"
+              checked={form.can_pickup}
+              onChange={(e) => setForm({ ...form, can_pickup: e.target.checked })}
+              className="rounded border-slate-300 text-mint-600 focus:ring-mint-500 accent-mint-500"
+            />
+            <label htmlFor="relative-can-pickup" className="text-ds-small text-slate-700 dark:text-slate-300">
+              {t.relatives_can_pickup}
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 rounded-ds-md bg-mint-500 hover:bg-mint-600 px-4 py-2 text-ds-small text-white disabled:opacity-50 transition-colors"
+            >
+              {saving ? t.saving : t.save}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              disabled={saving}
+              className="rounded-ds-md border border-slate-300 px-4 py-2 text-ds-small hover:bg-mint-50 transition-colors dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600 disabled:opacity-50"
+            >
+              {t.cancel}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <LoadingSkeleton type="table" rows={2} className="border-0 p-0" />
+      ) : error ? (
+        <p className="text-ds-small text-red-700 dark:text-red-400">{error}</p>
+      ) : relatives.length === 0 ? (
+        <p className="text-ds-body text-ds-text-muted dark:text-slate-400">{t.relatives_empty}</p>
+      ) : (
+        <div className="space-y-3">
+          {relatives.map((relative) => (
+            <div
+              key={relative.id}
+              className="flex items-start gap-3 p-3 rounded-ds-md bg-slate-50 dark:bg-slate-700/50"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  {relative.contact_priority !== null && (
+                    <span
+                      className="rounded-full bg-mint-500 px-2 py-0.5 text-ds-tiny font-medium text-white"
+                      title={t.relatives_contact_priority}
+                    >
+                      #{relative.contact_priority}
+                    </span>
+                  )}
+                  <p className="text-ds-body font-medium text-ds-text-primary dark:text-slate-100 truncate">
+                    {relative.full_name}
+                  </p>
+                  {relative.can_pickup && (
+                    <span className="rounded-full bg-mint-50 border border-mint-200 px-2 py-0.5 text-ds-tiny text-mint-700 dark:bg-mint-900/20 dark:border-mint-800 dark:text-mint-300">
+                      {t.relatives_pickup_badge}
+                    </span>
+                  )}
+                </div>
+                {relative.relation && (
+                  <p className="text-ds-small text-ds-text-muted dark:text-slate-400">{relative.relation}</p>
+                )}
+                {relative.phone && (
+                  <a
+                    href={`tel:${relative.phone}`}
+                    className="mt-1 text-ds-tiny text-mint-500 dark:text-mint-400 hover:underline flex items-center gap-1"
+                  >
+                    <Phone className="w-3 h-3" />
+                    {relative.phone}
+                  </a>
+                )}
+                {relative.notes && (
+                  <p className="mt-1 text-ds-tiny text-slate-500 dark:text-slate-400 whitespace-pre-wrap">{relative.notes}</p>
+                )}
+              </div>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => openForm(relative)}
+                  className="rounded-ds-md p-1.5 text-slate-500 hover:bg-mint-100 dark:hover:bg-slate-600 dark:text-slate-400"
+                  aria-label={t.edit}
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(relative)}
+                  className="rounded-ds-md p-1.5 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+                  aria-label={t.delete}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
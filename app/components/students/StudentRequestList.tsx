@@ -0,0 +1,72 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import type { StudentRequest, StudentRequestStatus } from '@/lib/types/students';
+
+const STATUS_CLASSES: Record<StudentRequestStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  approved: 'bg-mint-100 text-mint-800 dark:bg-mint-900/30 dark:text-mint-300',
+  rejected: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+function formatDate(timestamp: string): string {
+  return new Date(timestamp).toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+interface StudentRequestListProps {
+  requests: StudentRequest[];
+  showRequester?: boolean;
+  renderActions?: (request: StudentRequest) => ReactNode;
+}
+
+/**
+ * Student requests with their status, and the reason when one was rejected
+ */
+export function StudentRequestList({ requests, showRequester = false, renderActions }: StudentRequestListProps) {
+  const { t } = useLanguage();
+
+  const statusLabel: Record<StudentRequestStatus, string> = {
+    pending: t.student_request_status_pending,
+    approved: t.student_request_status_approved,
+    rejected: t.student_request_status_rejected,
+  };
+
+  return (
+    <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+      {requests.map((request) => {
+        const requester = request.requested_by_user
+          ? `${request.requested_by_user.first_name ?? ''} ${request.requested_by_user.last_name ?? ''}`.trim()
+          : '';
+        return (
+          <li key={request.id} className="py-3">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <p className="text-ds-small font-medium text-slate-900 dark:text-slate-100">
+                  {`${request.first_name} ${request.last_name ?? ''}`.trim()}
+                  <span
+                    className={`ml-2 inline-flex rounded-ds-full px-2 py-0.5 text-ds-tiny font-medium ${STATUS_CLASSES[request.status]}`}
+                  >
+                    {statusLabel[request.status]}
+                  </span>
+                </p>
+                <p className="text-ds-tiny text-slate-500 dark:text-slate-400">
+                  {request.classes?.name ?? '-'}
+                  {request.dob && ` · ${t.student_request_dob.replace('{date}', request.dob)}`}
+                  {showRequester && requester && ` · ${t.student_request_requested_by.replace('{name}', requester)}`}
+                  {` · ${formatDate(request.created_at)}`}
+                </p>
+                {request.status === 'rejected' && request.rejection_reason && (
+                  <p className="mt-1 text-ds-small text-red-700 dark:text-red-400">
+                    {t.student_request_rejection_reason}: {request.rejection_reason}
+                  </p>
+                )}
+              </div>
+              {renderActions?.(request)}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
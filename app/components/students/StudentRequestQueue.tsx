@@ -0,0 +1,220 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Check, UserPlus, X } from 'lucide-react';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import EmptyState from '@/app/components/EmptyState';
+import { PageHeader } from '@/app/components/shared/PageHeader';
+import { StudentRequestList } from '@/app/components/students/StudentRequestList';
+import type { StudentRequest, StudentRequestStatus } from '@/lib/types/students';
+
+const STATUS_FILTERS: StudentRequestStatus[] = ['pending', 'approved', 'rejected'];
+
+interface StudentRequestQueueProps {
+  backHref?: string;
+}
+
+/**
+ * Teachers' requests for new students. Approving creates the student;
+ * rejecting needs a reason, which the teacher sees.
+ */
+export default function StudentRequestQueue({ backHref = '/dashboard/principal' }: StudentRequestQueueProps) {
+  const { t } = useLanguage();
+
+  const [status, setStatus] = useState<StudentRequestStatus>('pending');
+  const [requests, setRequests] = useState<StudentRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+
+  const statusLabel: Record<StudentRequestStatus, string> = {
+    pending: t.student_request_status_pending,
+    approved: t.student_request_status_approved,
+    rejected: t.student_request_status_rejected,
+  };
+
+  const loadRequests = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const res = await fetch(`/api/student-requests?status=${status}&t=${Date.now()}`, {
+        cache: 'no-store',
+        signal,
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || t.student_request_load_failed);
+      }
+      setRequests(data.requests || []);
+    } catch (err: unknown) {
+      if (signal?.aborted) return;
+      setError(err instanceof Error ? err.message : t.student_request_load_failed);
+      setRequests([]);
+    } finally {
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
+    }
+  }, [status, t]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void loadRequests(controller.signal);
+    return () => controller.abort();
+  }, [loadRequests]);
+
+  const decide = async (request: StudentRequest, body: { action: 'approve' } | { action: 'reject'; reason: string }) => {
+    setBusyId(request.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/student-requests/${request.id}/decision`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.details || data.error || t.student_request_decision_failed);
+      }
+      setMessage(body.action === 'approve' ? t.student_request_approved : t.student_request_rejected);
+      setRejectingId(null);
+      setReason('');
+      if (body.action === 'approve' && typeof window !== 'undefined') {
+        // Signal dashboards to refresh students and counts
+        try {
+          localStorage.setItem('students_data_changed', String(Date.now()));
+        } catch {}
+      }
+      await loadRequests();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t.student_request_decision_failed);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const inputClassName =
+    'rounded-ds-md border border-slate-300 px-3 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200';
+
+  const renderActions = (request: StudentRequest) => {
+    if (request.status !== 'pending') return null;
+
+    if (rejectingId === request.id) {
+      return (
+        <div className="w-full space-y-2 sm:w-80">
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+            maxLength={2000}
+            placeholder={t.student_request_reason_placeholder}
+            className={`${inputClassName} w-full`}
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setRejectingId(null);
+                setReason('');
+              }}
+              className="rounded-ds-md border border-slate-300 px-3 py-1.5 text-ds-small text-slate-700 hover:bg-slate-50 dark:border-slate-600 dark:text-slate-300 dark:hover:bg-slate-700"
+            >
+              {t.cancel}
+            </button>
+            <button
+              type="button"
+              onClick={() => decide(request, { action: 'reject', reason: reason.trim() })}
+              disabled={busyId === request.id || !reason.trim()}
+              className="inline-flex items-center gap-2 rounded-ds-md bg-red-600 px-3 py-1.5 text-ds-small text-white hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              <X className="h-4 w-4" />
+              {t.student_request_reject}
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => {
+            setRejectingId(request.id);
+            setReason('');
+          }}
+          disabled={busyId === request.id}
+          className="inline-flex items-center gap-2 rounded-ds-md border border-red-300 px-3 py-1.5 text-ds-small text-red-700 hover:bg-red-50 transition-colors disabled:opacity-50 dark:border-red-800 dark:text-red-400 dark:hover:bg-red-900/20"
+        >
+          <X className="h-4 w-4" />
+          {t.student_request_reject}
+        </button>
+        <button
+          type="button"
+          onClick={() => decide(request, { action: 'approve' })}
+          disabled={busyId === request.id}
+          className="inline-flex items-center gap-2 rounded-ds-md bg-mint-500 px-3 py-1.5 text-ds-small text-white hover:bg-mint-600 transition-colors disabled:opacity-50"
+        >
+          <Check className="h-4 w-4" />
+          {busyId === request.id ? t.saving : t.student_request_approve}
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <PageHeader
+        title={t.student_request_queue_title}
+        subtitle={t.student_request_queue_subtitle}
+        headingLevel="h1"
+        showBackButton={true}
+        backHref={backHref}
+      />
+
+      <div className="mb-ds-sm flex flex-wrap gap-2">
+        {STATUS_FILTERS.map((filter) => (
+          <button
+            key={filter}
+            type="button"
+            onClick={() => setStatus(filter)}
+            className={`rounded-ds-md px-3 py-1.5 text-ds-small font-medium transition-colors ${
+              status === filter
+                ? 'bg-mint-500 text-white'
+                : 'border border-slate-300 text-slate-700 hover:bg-slate-50 dark:border-slate-600 dark:text-slate-300 dark:hover:bg-slate-700'
+            }`}
+          >
+            {statusLabel[filter]}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-4 rounded-ds-md bg-mint-50 border border-mint-200 px-4 py-3 text-ds-small text-mint-700 dark:bg-mint-900/20 dark:border-mint-800 dark:text-mint-300">
+          {message}
+        </div>
+      )}
+
+      <div className="rounded-ds-lg border border-slate-200 bg-white p-ds-md shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+        {isLoading ? (
+          <LoadingSkeleton type="table" rows={4} />
+        ) : requests.length === 0 ? (
+          <EmptyState icon={UserPlus} title={t.student_request_queue_title} description={t.student_request_queue_empty} />
+        ) : (
+          <StudentRequestList requests={requests} showRequester={true} renderActions={renderActions} />
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Thermometer } from 'lucide-react';
+import LoadingSkeleton from '@/app/components/loading-skeletons/LoadingSkeleton';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import type { TemperatureTrend as TemperatureTrendData } from '@/lib/types/health-logs';
+
+const TREND_DAYS = 14;
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+const CHART_PADDING = 12;
+
+function formatDateTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleString([], {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+interface TemperatureTrendProps {
+  studentId: string;
+  /** Shown above the chart when several children are listed on one page */
+  studentName?: string;
+}
+
+/**
+ * A child's temperature readings over the last two weeks, drawn against
+ * the organization's fever threshold
+ */
+export function TemperatureTrend({ studentId, studentName }: TemperatureTrendProps) {
+  const { t } = useLanguage();
+  const [trend, setTrend] = useState<TemperatureTrendData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const res = await fetch(
+          `/api/health-logs/temperature-trend?studentId=${encodeURIComponent(studentId)}&days=${TREND_DAYS}&t=${Date.now()}`,
+          { cache: 'no-store', signal: controller.signal },
+        );
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || t.temperature_trend_failed);
+        }
+        setTrend(data.trend);
+      } catch (err: unknown) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : t.temperature_trend_failed);
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, [studentId, t]);
+
+  const readings = trend?.readings ?? [];
+  const threshold = trend?.threshold ?? 38;
+
+  // Scale covers every reading and the threshold with a little headroom
+  const values = [...readings.map((r) => r.temperature_celsius), threshold];
+  const minValue = Math.min(...values, 36) - 0.3;
+  const maxValue = Math.max(...values) + 0.3;
+  const x = (index: number) =>
+    readings.length === 1
+      ? CHART_WIDTH / 2
+      : CHART_PADDING + (index / (readings.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2);
+  const y = (value: number) =>
+    CHART_HEIGHT - CHART_PADDING - ((value - minValue) / (maxValue - minValue)) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  const latest = readings[readings.length - 1];
+  const feverCount = readings.filter((r) => r.is_fever).length;
+
+  return (
+    <div className="rounded-ds-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-ds-card p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Thermometer className="w-5 h-5 text-mint-500 dark:text-mint-400" />
+        <h2 className="text-ds-h2 font-semibold text-ds-text-primary dark:text-slate-100">
+          {studentName ? `${t.temperature_trend_title} · ${studentName}` : t.temperature_trend_title}
+        </h2>
+      </div>
+
+      {loading ? (
+        <LoadingSkeleton type="table" rows={2} className="border-0 p-0" />
+      ) : error ? (
+        <p className="text-ds-small text-red-700 dark:text-red-400">{error}</p>
+      ) : readings.length === 0 ? (
+        <p className="text-ds-small text-slate-500 dark:text-slate-400">
+          {t.temperature_trend_empty.replace('{days}', TREND_DAYS.toString())}
+        </p>
+      ) : (
+        <>
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            className="w-full h-32"
+            role="img"
+            aria-label={t.temperature_trend_title}
+          >
+            <line
+              x1={0}
+              x2={CHART_WIDTH}
+              y1={y(threshold)}
+              y2={y(threshold)}
+              className="stroke-red-400"
+              strokeDasharray="4 4"
+              strokeWidth={1}
+            />
+            {readings.length > 1 && (
+              <polyline
+                points={readings.map((r, i) => `${x(i)},${y(r.temperature_celsius)}`).join(' ')}
+                fill="none"
+                className="stroke-mint-500"
+                strokeWidth={2}
+              />
+            )}
+            {readings.map((r, i) => (
+              <circle
+                key={r.id}
+                cx={x(i)}
+                cy={y(r.temperature_celsius)}
+                r={3.5}
+                className={r.is_fever ? 'fill-red-500' : 'fill-mint-500'}
+              >
+                <title>{`${formatDateTime(r.recorded_at)} · ${r.temperature_celsius.toFixed(1)} °C`}</title>
+              </circle>
+            ))}
+          </svg>
+
+          <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-ds-tiny text-slate-500 dark:text-slate-400">
+            <span>{t.temperature_trend_threshold.replace('{threshold}', threshold.toFixed(1))}</span>
+            <span>
+              {t.temperature_trend_latest
+                .replace('{temperature}', latest.temperature_celsius.toFixed(1))
+                .replace('{time}', formatDateTime(latest.recorded_at))}
+            </span>
+          </div>
+          {feverCount > 0 && (
+            <p className="mt-1 text-ds-small font-medium text-red-600 dark:text-red-400">
+              {t.temperature_trend_fever_count
+                .replace('{count}', feverCount.toString())
+                .replace('{days}', TREND_DAYS.toString())}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
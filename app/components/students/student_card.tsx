@@ -137,39 +137,39 @@ const StudentCard = ({ student }: StudentCardProps) => {
       )}
 
       {/* Medical Notes */}
-      {student.medical_notes_encrypted && student.medical_notes_encrypted.trim() !== '' && (
+      {student.medical_notes && student.medical_notes.trim() !== '' && (
         <div className="mb-2">
           <p className="text-sm sm:text-base" style={{ color: '#4A4A4A' }}>
             <span className="font-medium" style={{ color: '#2D7A5F' }}>
               {t.student_details_medical_notes || 'Medical Notes'}:{' '}
             </span>
-            <span className="whitespace-pre-wrap">{student.medical_notes_encrypted}</span>
+            <span className="whitespace-pre-wrap">{student.medical_notes}</span>
           </p>
         </div>
       )}
 
       {/* Allergies */}
-      {student.allergies_encrypted && student.allergies_encrypted.trim() !== '' && (
+      {student.allergies && student.allergies.trim() !== '' && (
         <div className="mb-2">
           <p className="text-sm sm:text-base" style={{ color: '#4A4A4A' }}>
             <span className="font-medium" style={{ color: '#2D7A5F' }}>
               {t.student_details_allergies || 'Allergies'}:{' '}
             </span>
             <span className="font-medium whitespace-pre-wrap" style={{ color: '#DC2626' }}>
-              {student.allergies_encrypted}
+              {student.allergies}
             </span>
           </p>
         </div>
       )}
 
       {/* Emergency Contact */}
-      {student.emergency_contact_encrypted && student.emergency_contact_encrypted.trim() !== '' && (
+      {student.emergency_contact && student.emergency_contact.trim() !== '' && (
         <div className="mb-2">
           <p className="text-sm sm:text-base" style={{ color: '#4A4A4A' }}>
             <span className="font-medium" style={{ color: '#2D7A5F' }}>
               {t.student_details_emergency_contact || 'Emergency Contact'}:{' '}
             </span>
-            <span className="whitespace-pre-wrap">{student.emergency_contact_encrypted}</span>
+            <span className="whitespace-pre-wrap">{student.emergency_contact}</span>
           </p>
         </div>
       )}
@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
+import QRCode from 'qrcode';
+import { useLanguage } from '@/lib/contexts/LanguageContext';
+import type { KioskCode } from '@/lib/types/kiosk';
+
+const TOKEN_STORAGE_KEY = 'samvera_kiosk_token';
+const RETRY_SECONDS = 10;
+
+/**
+ * Entrance kiosk. Runs on a tablet signed in with a device token instead of
+ * a user account and shows a rotating QR that guardians scan to check in or out.
+ */
+export default function KioskPage() {
+  const { t } = useLanguage();
+
+  const [token, setToken] = useState<string | null>(null);
+  const [tokenInput, setTokenInput] = useState('');
+  const [kioskCode, setKioskCode] = useState<KioskCode | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    setToken(localStorage.getItem(TOKEN_STORAGE_KEY));
+    setReady(true);
+  }, []);
+
+  const clearToken = useCallback(() => {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    setToken(null);
+    setKioskCode(null);
+    setQrDataUrl(null);
+  }, []);
+
+  // Fetch a fresh code and schedule the next refresh
+  useEffect(() => {
+    if (!token) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const refresh = async () => {
+      let nextRefreshSeconds = RETRY_SECONDS;
+      try {
+        const res = await fetch('/api/kiosk/code', {
+          headers: { Authorization: `Bearer ${token}` },
+          cache: 'no-store',
+        });
+        const data = await res.json();
+        if (res.status === 401) {
+          if (!cancelled) {
+            setError(data.error || t.kiosk_device_rejected);
+            clearToken();
+          }
+          return;
+        }
+        if (!res.ok) {
+          throw new Error(data.error || t.kiosk_code_failed);
+        }
+
+        const code = data as KioskCode;
+        const url = `${window.location.origin}/dashboard/guardian/kiosk?code=${encodeURIComponent(code.code)}`;
+        const dataUrl = await QRCode.toDataURL(url, { width: 480, margin: 1 });
+        if (cancelled) return;
+        setKioskCode(code);
+        setQrDataUrl(dataUrl);
+        setError(null);
+        nextRefreshSeconds = code.refresh_in_seconds;
+      } catch (err: unknown) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : t.kiosk_code_failed);
+        }
+      }
+      if (!cancelled) {
+        timer = setTimeout(refresh, nextRefreshSeconds * 1000);
+      }
+    };
+
+    refresh();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [token, clearToken, t]);
+
+  const handleSaveToken = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = tokenInput.trim();
+    if (!value) return;
+    localStorage.setItem(TOKEN_STORAGE_KEY, value);
+    setTokenInput('');
+    setError(null);
+    setToken(value);
+  };
+
+  if (!ready) {
+    return null;
+  }
+
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-mint-50 p-ds-md dark:bg-slate-900">
+      <div className="w-full max-w-lg rounded-ds-lg border border-slate-200 bg-white p-ds-md text-center shadow-ds-card dark:border-slate-700 dark:bg-slate-800">
+        {error && (
+          <div className="mb-4 rounded-ds-md bg-red-50 border border-red-200 px-4 py-3 text-ds-small text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        {!token ? (
+          <form onSubmit={handleSaveToken} className="space-y-3 text-left">
+            <h1 className="text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">{t.kiosk_setup_title}</h1>
+            <p className="text-ds-small text-slate-700 dark:text-slate-300">{t.kiosk_setup_hint}</p>
+            <input
+              type="password"
+              value={tokenInput}
+              onChange={(e) => setTokenInput(e.target.value)}
+              placeholder={t.kiosk_setup_placeholder}
+              autoComplete="off"
+              className="w-full rounded-ds-md border border-[#D8EBD8] bg-[#F5FFF7] px-4 py-2 text-ds-small focus:border-mint-500 focus:outline-none focus:ring-1 focus:ring-mint-500 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200"
+            />
+            <button
+              type="submit"
+              disabled={!tokenInput.trim()}
+              className="w-full rounded-ds-md bg-mint-500 px-4 py-2 text-ds-small text-white hover:bg-mint-600 transition-colors disabled:opacity-50"
+            >
+              {t.kiosk_setup_save}
+            </button>
+          </form>
+        ) : (
+          <>
+            <h1 className="text-ds-h3 font-semibold text-slate-900 dark:text-slate-100">
+              {kioskCode?.org_name || t.kiosk_title}
+            </h1>
+            <p className="mb-4 text-ds-small text-slate-700 dark:text-slate-300">{t.kiosk_display_hint}</p>
+            {qrDataUrl ? (
+              <Image
+                src={qrDataUrl}
+                alt={t.kiosk_qr_alt}
+                width={480}
+                height={480}
+                unoptimized
+                className="mx-auto h-auto w-full max-w-sm"
+              />
+            ) : (
+              <div className="mx-auto aspect-square w-full max-w-sm animate-pulse rounded-ds-md bg-slate-100 dark:bg-slate-700" />
+            )}
+            {kioskCode && (
+              <p className="mt-4 text-ds-tiny text-slate-500 dark:text-slate-400">{kioskCode.device_name}</p>
+            )}
+            <button
+              onClick={clearToken}
+              className="mt-4 text-ds-tiny text-slate-400 underline hover:text-slate-600 dark:hover:text-slate-200"
+            >
+              {t.kiosk_setup_reset}
+            </button>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
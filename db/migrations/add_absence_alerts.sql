@@ -0,0 +1,36 @@
+-- Migration: Add unexplained-absence alerts
+-- Adds absence_alerts_enabled and absence_alert_cutoff to orgs
+-- Creates absence_alert_runs so each org is alerted at most once per day
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'orgs' 
+    AND column_name = 'absence_alerts_enabled'
+  ) THEN
+    ALTER TABLE orgs ADD COLUMN absence_alerts_enabled boolean NOT NULL DEFAULT false;
+  END IF;
+  -- Off until a principal opts in; orgs that do not record attendance in the app
+  -- would otherwise alert every guardian
+  ALTER TABLE orgs ALTER COLUMN absence_alerts_enabled SET DEFAULT false;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'orgs' 
+    AND column_name = 'absence_alert_cutoff'
+  ) THEN
+    ALTER TABLE orgs ADD COLUMN absence_alert_cutoff time NOT NULL DEFAULT '09:30';
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS absence_alert_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  student_ids uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (org_id, date)
+);
+
+ALTER TABLE absence_alert_runs ENABLE ROW LEVEL SECURITY;
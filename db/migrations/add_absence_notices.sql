@@ -0,0 +1,37 @@
+-- Migration: Add guardian absence notices
+-- Creates absence_notices table for guardian-reported sick days and holidays
+-- Adds notice_id to attendance so prefilled records can be traced back to the notice
+
+CREATE TABLE IF NOT EXISTS absence_notices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  guardian_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  kind text NOT NULL CHECK (kind IN ('sick','holiday')),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  note text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  cancelled_at timestamptz NULL,
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_absence_notices_student_dates ON absence_notices(student_id, start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_absence_notices_org_dates ON absence_notices(org_id, start_date) WHERE cancelled_at IS NULL;
+
+-- Add notice_id column to attendance
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'attendance' 
+    AND column_name = 'notice_id'
+  ) THEN
+    ALTER TABLE attendance ADD COLUMN notice_id uuid REFERENCES absence_notices(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_attendance_notice_id ON attendance(notice_id) WHERE notice_id IS NOT NULL;
+
+ALTER TABLE absence_notices ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,19 @@
+-- Migration: Add arrived_at to attendance
+-- Stores when a child was first checked in so hours in care can be computed from arrived_at to left_at
+-- Existing present rows are backfilled from created_at (rows prefilled from absence notices are skipped)
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'attendance' 
+    AND column_name = 'arrived_at'
+  ) THEN
+    ALTER TABLE attendance ADD COLUMN arrived_at timestamptz NULL;
+
+    UPDATE attendance
+    SET arrived_at = created_at
+    WHERE status IN ('arrived', 'late', 'gone')
+      AND notice_id IS NULL;
+  END IF;
+END $$;
@@ -0,0 +1,40 @@
+-- Migration: Add attendance history
+-- Stores every status change and check-out on an attendance record with who made it
+-- and the note, since attendance.status and recorded_by only keep the latest change.
+-- Entries outlive the record so deleting attendance does not erase its audit trail.
+
+CREATE TABLE IF NOT EXISTS attendance_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  attendance_id uuid NULL REFERENCES attendance(id) ON DELETE SET NULL,
+  student_id uuid REFERENCES students(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  old_status attendance_status NULL,
+  new_status attendance_status NOT NULL,
+  old_left_at timestamptz NULL,
+  new_left_at timestamptz NULL,
+  notes text,
+  changed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_history_attendance ON attendance_history(attendance_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_attendance_history_student ON attendance_history(student_id, date DESC);
+
+-- Databases that ran the first version of this migration: keep history on delete, track check-outs
+ALTER TABLE attendance_history ALTER COLUMN attendance_id DROP NOT NULL;
+ALTER TABLE attendance_history DROP CONSTRAINT IF EXISTS attendance_history_attendance_id_fkey;
+ALTER TABLE attendance_history
+  ADD CONSTRAINT attendance_history_attendance_id_fkey
+  FOREIGN KEY (attendance_id) REFERENCES attendance(id) ON DELETE SET NULL;
+ALTER TABLE attendance_history ADD COLUMN IF NOT EXISTS old_left_at timestamptz NULL;
+ALTER TABLE attendance_history ADD COLUMN IF NOT EXISTS new_left_at timestamptz NULL;
+CREATE INDEX IF NOT EXISTS idx_attendance_history_student_changed ON attendance_history(student_id, changed_at DESC);
+
+-- Seed one entry per existing record so current statuses have a starting point
+INSERT INTO attendance_history (org_id, attendance_id, student_id, date, old_status, new_status, new_left_at, notes, changed_by, changed_at)
+SELECT a.org_id, a.id, a.student_id, a.date, NULL, a.status, a.left_at, a.notes, a.recorded_by, a.updated_at
+FROM attendance a
+WHERE NOT EXISTS (SELECT 1 FROM attendance_history h WHERE h.attendance_id = a.id);
+
+ALTER TABLE attendance_history ENABLE ROW LEVEL SECURITY;
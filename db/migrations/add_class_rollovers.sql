@@ -0,0 +1,115 @@
+-- Migration: Add year-end class rollovers
+-- Adds students.graduated_at (graduates are archived, not deleted),
+-- guardian_students.access_expires_at (guardian access winds down after a
+-- grace period), the class_rollovers log and apply_class_rollover, which
+-- applies a rollover atomically
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'students' 
+    AND column_name = 'graduated_at'
+  ) THEN
+    ALTER TABLE students ADD COLUMN graduated_at timestamptz NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'guardian_students' 
+    AND column_name = 'access_expires_at'
+  ) THEN
+    ALTER TABLE guardian_students ADD COLUMN access_expires_at timestamptz NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_guardian_students_access_expires ON guardian_students(access_expires_at) WHERE access_expires_at IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS class_rollovers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  class_moves jsonb NOT NULL DEFAULT '[]',
+  graduated_student_ids uuid[] NOT NULL DEFAULT '{}',
+  teacher_memberships text NOT NULL CHECK (teacher_memberships IN ('carry_over', 'reset')),
+  guardian_grace_days integer NOT NULL CHECK (guardian_grace_days >= 0),
+  performed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  performed_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_class_rollovers_org ON class_rollovers(org_id, performed_at DESC);
+
+-- Applies a year-end rollover in one transaction: archives graduates and starts
+-- their guardians' grace period, moves each cohort, replaces the teacher
+-- memberships of the classes involved and logs the run. The server works out
+-- the plan and calls this with the service role; returns the class_rollovers id.
+CREATE OR REPLACE FUNCTION apply_class_rollover(
+  p_org_id uuid,
+  p_performed_by uuid,
+  p_performed_at timestamptz,
+  p_graduating_student_ids uuid[],
+  p_guardian_access_expires_at timestamptz,
+  p_class_moves jsonb, -- [{ from_class_id, to_class_id, student_ids }]
+  p_touched_class_ids uuid[],
+  p_memberships jsonb, -- [{ class_id, user_id, membership_role }] for the touched classes
+  p_teacher_memberships text,
+  p_guardian_grace_days integer
+)
+RETURNS uuid AS $$
+DECLARE
+  v_move jsonb;
+  v_rollover_id uuid;
+BEGIN
+  IF cardinality(p_graduating_student_ids) > 0 THEN
+    UPDATE students
+    SET class_id = NULL, graduated_at = p_performed_at, updated_at = p_performed_at
+    WHERE org_id = p_org_id
+      AND id = ANY(p_graduating_student_ids);
+
+    UPDATE guardian_students
+    SET access_expires_at = p_guardian_access_expires_at
+    WHERE org_id = p_org_id
+      AND student_id = ANY(p_graduating_student_ids);
+  END IF;
+
+  -- Student lists were read before any move, so A→B and B→C do not chain
+  FOR v_move IN SELECT * FROM jsonb_array_elements(p_class_moves) LOOP
+    UPDATE students
+    SET class_id = (v_move->>'to_class_id')::uuid, updated_at = p_performed_at
+    WHERE org_id = p_org_id
+      AND id IN (SELECT jsonb_array_elements_text(v_move->'student_ids')::uuid);
+  END LOOP;
+
+  IF cardinality(p_touched_class_ids) > 0 THEN
+    DELETE FROM class_memberships
+    WHERE org_id = p_org_id
+      AND class_id = ANY(p_touched_class_ids);
+
+    INSERT INTO class_memberships (org_id, class_id, user_id, membership_role)
+    SELECT p_org_id, m.class_id, m.user_id, m.membership_role
+    FROM jsonb_to_recordset(p_memberships)
+      AS m(class_id uuid, user_id uuid, membership_role membership_role_type)
+    WHERE m.class_id = ANY(p_touched_class_ids);
+  END IF;
+
+  INSERT INTO class_rollovers (
+    org_id, class_moves, graduated_student_ids, teacher_memberships,
+    guardian_grace_days, performed_by, performed_at
+  )
+  VALUES (
+    p_org_id, p_class_moves, p_graduating_student_ids, p_teacher_memberships,
+    p_guardian_grace_days, p_performed_by, p_performed_at
+  )
+  RETURNING id INTO v_rollover_id;
+
+  RETURN v_rollover_id;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION apply_class_rollover(uuid, uuid, timestamptz, uuid[], timestamptz, jsonb, uuid[], jsonb, text, integer)
+  FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE class_rollovers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Principals can view class rollovers in their organization" ON class_rollovers;
+CREATE POLICY "Principals can view class rollovers in their organization"
+  ON class_rollovers FOR SELECT
+  USING (org_id = public.user_org_id() AND (public.is_principal() OR public.is_admin()));
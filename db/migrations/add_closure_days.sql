@@ -0,0 +1,23 @@
+-- Migration: Add closure days
+-- Planning days, public holidays and summer closure for the whole organization
+-- (class_id NULL) or a single class. Attendance cannot be marked on these days,
+-- absence statistics and alerts leave them out, and guardians see them in the calendar.
+
+CREATE TABLE IF NOT EXISTS closure_days (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  class_id uuid REFERENCES classes(id) ON DELETE CASCADE,
+  kind text NOT NULL DEFAULT 'other' CHECK (kind IN ('planning_day','public_holiday','summer_closure','other')),
+  title text NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  deleted_at timestamptz NULL,
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_closure_days_org_dates ON closure_days(org_id, start_date, end_date) WHERE deleted_at IS NULL;
+
+ALTER TABLE closure_days ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,18 @@
+-- Migration: Add fever threshold alerts
+-- Adds fever_threshold_celsius to orgs; temperature logs at or above it notify
+-- the child's guardians, class teachers and principals
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'orgs' 
+    AND column_name = 'fever_threshold_celsius'
+  ) THEN
+    ALTER TABLE orgs ADD COLUMN fever_threshold_celsius numeric(3,1) NOT NULL DEFAULT 38.0 CHECK (fever_threshold_celsius BETWEEN 37.0 AND 41.0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_health_logs_student_temperature
+  ON health_logs(student_id, recorded_at)
+  WHERE type = 'temperature' AND deleted_at IS NULL;
@@ -0,0 +1,39 @@
+-- Migration: Add incident reports
+-- An injury health log opens an incident report that a principal reviews and sends
+-- to the guardians, who acknowledge it in the app. Every status change is kept
+-- in incident_report_history. Location, witnesses, first aid and body areas are
+-- stored in the health log's data.
+
+CREATE TABLE IF NOT EXISTS incident_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  health_log_id uuid NOT NULL UNIQUE REFERENCES health_logs(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'pending_review' CHECK (status IN ('pending_review','sent_to_guardians','acknowledged')),
+  review_notes text,
+  reviewed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  acknowledged_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  acknowledged_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_reports_org_status ON incident_reports(org_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_incident_reports_student ON incident_reports(student_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS incident_report_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  incident_report_id uuid NOT NULL REFERENCES incident_reports(id) ON DELETE CASCADE,
+  old_status text NULL,
+  new_status text NOT NULL,
+  notes text,
+  changed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_report_history_report ON incident_report_history(incident_report_id, changed_at);
+
+ALTER TABLE incident_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE incident_report_history ENABLE ROW LEVEL SECURITY;
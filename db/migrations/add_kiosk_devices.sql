@@ -0,0 +1,19 @@
+-- Migration: Add kiosk devices for QR check-in
+-- Each entrance tablet gets its own device token (only the SHA-256 hash is stored)
+-- The token lets the kiosk fetch rotating check-in codes and nothing else
+
+CREATE TABLE IF NOT EXISTS kiosk_devices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  token_hash text NOT NULL UNIQUE,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  last_seen_at timestamptz,
+  revoked_at timestamptz NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_kiosk_devices_org ON kiosk_devices(org_id) WHERE revoked_at IS NULL;
+
+ALTER TABLE kiosk_devices ENABLE ROW LEVEL SECURITY;
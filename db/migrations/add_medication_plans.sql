@@ -0,0 +1,59 @@
+-- Migration: Add medication plans
+-- Creates medication_plans (drug, dose, daily dose times and guardian consent per child)
+-- Creates medication_dose_alerts so each dose reminder and missed-dose alert is sent once
+-- Adds medication_plan_id to health_logs so each dose given is linked to its plan
+
+CREATE TABLE IF NOT EXISTS medication_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  medication_name text NOT NULL,
+  dose text NOT NULL,
+  instructions text,
+  dose_times time[] NOT NULL CHECK (cardinality(dose_times) > 0),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  status text NOT NULL DEFAULT 'pending_consent' CHECK (status IN ('pending_consent','active','declined','cancelled')),
+  consent_guardian_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  consent_name text,
+  consent_at timestamptz,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_medication_plans_student ON medication_plans(student_id, start_date DESC);
+CREATE INDEX IF NOT EXISTS idx_medication_plans_org_active ON medication_plans(org_id, start_date, end_date) WHERE status = 'active';
+
+CREATE TABLE IF NOT EXISTS medication_dose_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  plan_id uuid NOT NULL REFERENCES medication_plans(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  dose_time time NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('reminder','missed')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (plan_id, date, dose_time, kind)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'health_logs' 
+    AND column_name = 'medication_plan_id'
+  ) THEN
+    ALTER TABLE health_logs ADD COLUMN medication_plan_id uuid REFERENCES medication_plans(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_health_logs_medication_plan ON health_logs(medication_plan_id, recorded_at) WHERE medication_plan_id IS NOT NULL;
+
+-- One entry per scheduled dose, so two staff recording the same dose cannot both succeed
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_health_logs_medication_dose
+  ON health_logs(medication_plan_id, (data->>'scheduled_date'), (data->>'scheduled_time'))
+  WHERE medication_plan_id IS NOT NULL AND deleted_at IS NULL;
+
+ALTER TABLE medication_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE medication_dose_alerts ENABLE ROW LEVEL SECURITY;
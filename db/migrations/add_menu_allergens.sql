@@ -0,0 +1,39 @@
+-- Migration: Add allergen tags to menus and students
+-- Adds breakfast_allergens, lunch_allergens and snack_allergens to menus
+-- Adds allergy_tags to students alongside the free-text (encrypted) allergies
+-- Values are the 14 EU allergen codes from lib/constants/allergens.ts
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'menus' 
+    AND column_name = 'breakfast_allergens'
+  ) THEN
+    ALTER TABLE menus ADD COLUMN breakfast_allergens text[] NOT NULL DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'menus' 
+    AND column_name = 'lunch_allergens'
+  ) THEN
+    ALTER TABLE menus ADD COLUMN lunch_allergens text[] NOT NULL DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'menus' 
+    AND column_name = 'snack_allergens'
+  ) THEN
+    ALTER TABLE menus ADD COLUMN snack_allergens text[] NOT NULL DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'students' 
+    AND column_name = 'allergy_tags'
+  ) THEN
+    ALTER TABLE students ADD COLUMN allergy_tags text[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
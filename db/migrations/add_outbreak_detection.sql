@@ -0,0 +1,23 @@
+-- Migration: Add illness outbreak detection
+-- Symptom health logs and away_sick attendance are grouped by class and day to
+-- flag clusters. Health notices sent to the guardians of a class are kept in
+-- health_notices for reporting to the health authority.
+
+CREATE TABLE IF NOT EXISTS health_notices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  class_id uuid REFERENCES classes(id) ON DELETE SET NULL,
+  category text NOT NULL,
+  title text NOT NULL,
+  body text NOT NULL,
+  recipient_count integer NOT NULL DEFAULT 0,
+  sent_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  sent_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_health_notices_org_sent ON health_notices(org_id, sent_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_health_logs_org_type_recorded
+  ON health_logs(org_id, type, recorded_at)
+  WHERE deleted_at IS NULL;
+
+ALTER TABLE health_notices ENABLE ROW LEVEL SECURITY;
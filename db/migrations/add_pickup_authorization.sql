@@ -0,0 +1,48 @@
+-- Migration: Add authorized pickup persons and check-out log
+-- Adds can_pickup and photo_url to student_relatives
+-- Adds picked_up_by_* columns to attendance to record who collected the child
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'student_relatives' 
+    AND column_name = 'can_pickup'
+  ) THEN
+    ALTER TABLE student_relatives ADD COLUMN can_pickup boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'student_relatives' 
+    AND column_name = 'photo_url'
+  ) THEN
+    ALTER TABLE student_relatives ADD COLUMN photo_url text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'attendance' 
+    AND column_name = 'picked_up_by_guardian_id'
+  ) THEN
+    ALTER TABLE attendance ADD COLUMN picked_up_by_guardian_id uuid REFERENCES users(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'attendance' 
+    AND column_name = 'picked_up_by_relative_id'
+  ) THEN
+    ALTER TABLE attendance ADD COLUMN picked_up_by_relative_id uuid REFERENCES student_relatives(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'attendance' 
+    AND column_name = 'picked_up_by_name'
+  ) THEN
+    ALTER TABLE attendance ADD COLUMN picked_up_by_name text;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_student_relatives_pickup ON student_relatives(student_id) WHERE can_pickup AND deleted_at IS NULL;
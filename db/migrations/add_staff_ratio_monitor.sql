@@ -0,0 +1,33 @@
+-- Migration: Add staff-to-child ratio monitoring
+-- Adds max_children_per_staff to orgs (barngildi-weighted children per staff member)
+-- Creates staff_ratio_snapshots so ratio history can be queried later
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'orgs' 
+    AND column_name = 'max_children_per_staff'
+  ) THEN
+    ALTER TABLE orgs ADD COLUMN max_children_per_staff numeric(4,1) NOT NULL DEFAULT 8 CHECK (max_children_per_staff > 0);
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS staff_ratio_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  class_id uuid REFERENCES classes(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  recorded_at timestamptz NOT NULL DEFAULT now(),
+  children_present integer NOT NULL,
+  weighted_children numeric(6,2) NOT NULL,
+  staff_present integer NOT NULL,
+  children_per_staff numeric(6,2),
+  threshold numeric(4,1) NOT NULL,
+  is_breach boolean NOT NULL DEFAULT false
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_ratio_snapshots_org_date ON staff_ratio_snapshots(org_id, date DESC, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_staff_ratio_snapshots_class_time ON staff_ratio_snapshots(class_id, recorded_at DESC) WHERE class_id IS NOT NULL;
+
+ALTER TABLE staff_ratio_snapshots ENABLE ROW LEVEL SECURITY;
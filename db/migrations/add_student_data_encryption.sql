@@ -0,0 +1,18 @@
+-- Migration: Add per-organization data keys for student medical data
+-- medical_notes_encrypted, allergies_encrypted and emergency_contact_encrypted are
+-- encrypted with AES-256-GCM using the organization's data key; data keys are
+-- stored wrapped with STUDENT_DATA_MASTER_KEY and never leave the server.
+-- Existing plaintext rows are encrypted by running `npm run rotate:student-keys`.
+
+CREATE TABLE IF NOT EXISTS org_data_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  wrapped_key text NOT NULL,
+  master_key_id text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  retired_at timestamptz NULL,
+  UNIQUE (org_id, version)
+);
+
+ALTER TABLE org_data_keys ENABLE ROW LEVEL SECURITY;
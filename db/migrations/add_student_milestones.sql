@@ -0,0 +1,39 @@
+-- Migration: Add developmental milestone tracking
+-- Teachers mark age-based milestones as emerging or achieved, with the date
+-- observed and optionally a photo or daily log entry as evidence.
+
+CREATE TABLE IF NOT EXISTS student_milestones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  milestone_key text NOT NULL,
+  status text NOT NULL CHECK (status IN ('emerging', 'achieved')),
+  observed_on date NOT NULL DEFAULT CURRENT_DATE,
+  photo_id uuid REFERENCES photos(id) ON DELETE SET NULL,
+  daily_log_id uuid REFERENCES daily_logs(id) ON DELETE SET NULL,
+  notes text,
+  recorded_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (student_id, milestone_key)
+);
+CREATE INDEX IF NOT EXISTS idx_student_milestones_org_student ON student_milestones(org_id, student_id);
+
+ALTER TABLE student_milestones ENABLE ROW LEVEL SECURITY;
+
+-- Staff can view milestones in their organization
+-- Milestones are recorded through the API using the service role
+DROP POLICY IF EXISTS "Staff can view student milestones in their organization" ON student_milestones;
+CREATE POLICY "Staff can view student milestones in their organization"
+  ON student_milestones FOR SELECT
+  USING (org_id = public.user_org_id() AND public.is_staff());
+
+-- Guardians can view milestones of their children
+DROP POLICY IF EXISTS "Guardians can view milestones of their children" ON student_milestones;
+CREATE POLICY "Guardians can view milestones of their children"
+  ON student_milestones FOR SELECT
+  USING (
+    org_id = public.user_org_id()
+    AND public.is_guardian()
+    AND student_id IN (SELECT public.user_student_ids())
+  );
@@ -0,0 +1,16 @@
+-- Migration: Add emergency contact priority to student relatives
+-- Adds contact_priority to student_relatives (1 is called first; NULL means the
+-- relative is not an emergency contact) and an index for listing a student's relatives
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'student_relatives' 
+    AND column_name = 'contact_priority'
+  ) THEN
+    ALTER TABLE student_relatives ADD COLUMN contact_priority integer CHECK (contact_priority > 0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_student_relatives_student ON student_relatives(student_id, contact_priority) WHERE deleted_at IS NULL;
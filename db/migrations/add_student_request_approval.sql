@@ -0,0 +1,51 @@
+-- Migration: Student enrollment request approval workflow
+-- Renames the sensitive student_requests columns to *_encrypted; they are now
+-- written with the organization's data key like the students columns
+-- (plaintext rows are still read as they are)
+-- Adds the remaining student fields so an approved request can create the student,
+-- plus rejection_reason and the student_id created on approval
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'student_requests' 
+    AND column_name = 'medical_notes'
+  ) THEN
+    ALTER TABLE student_requests RENAME COLUMN medical_notes TO medical_notes_encrypted;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'student_requests' 
+    AND column_name = 'allergies'
+  ) THEN
+    ALTER TABLE student_requests RENAME COLUMN allergies TO allergies_encrypted;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'student_requests' 
+    AND column_name = 'emergency_contact'
+  ) THEN
+    ALTER TABLE student_requests RENAME COLUMN emergency_contact TO emergency_contact_encrypted;
+  END IF;
+END $$;
+
+ALTER TABLE student_requests ADD COLUMN IF NOT EXISTS address text;
+ALTER TABLE student_requests ADD COLUMN IF NOT EXISTS ssn text;
+ALTER TABLE student_requests ADD COLUMN IF NOT EXISTS start_date date;
+ALTER TABLE student_requests ADD COLUMN IF NOT EXISTS student_language text;
+ALTER TABLE student_requests ADD COLUMN IF NOT EXISTS allergy_tags text[] NOT NULL DEFAULT '{}';
+ALTER TABLE student_requests ADD COLUMN IF NOT EXISTS guardian_ids uuid[] NOT NULL DEFAULT '{}';
+ALTER TABLE student_requests ADD COLUMN IF NOT EXISTS rejection_reason text;
+ALTER TABLE student_requests ADD COLUMN IF NOT EXISTS student_id uuid REFERENCES students(id) ON DELETE SET NULL;
+
+DROP POLICY IF EXISTS "Staff can create requests in their organization" ON student_requests;
+CREATE POLICY "Staff can create requests in their organization"
+  ON student_requests FOR INSERT
+  WITH CHECK (
+    org_id = public.user_org_id() 
+    AND public.is_staff() 
+    AND requested_by = auth.uid()::uuid
+  );
@@ -175,9 +175,23 @@ ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
 ALTER TABLE device_tokens ENABLE ROW LEVEL SECURITY;
 ALTER TABLE invitations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE attendance ENABLE ROW LEVEL SECURITY;
+ALTER TABLE attendance_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE absence_notices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE absence_alert_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE closure_days ENABLE ROW LEVEL SECURITY;
+ALTER TABLE medication_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE medication_dose_alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE incident_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE incident_report_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE health_notices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE org_data_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kiosk_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff_ratio_snapshots ENABLE ROW LEVEL SECURITY;
 ALTER TABLE assessments ENABLE ROW LEVEL SECURITY;
 ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
 ALTER TABLE audit_changes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE class_rollovers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE student_milestones ENABLE ROW LEVEL SECURITY;
 
 -- ======================
 -- ORGANIZATIONS (ORGS)
@@ -387,6 +401,15 @@ CREATE POLICY "Guardians can create requests in their organization"
     AND requested_by = auth.uid()::uuid
   );
 
+-- Staff can create requests in their organization
+CREATE POLICY "Staff can create requests in their organization"
+  ON student_requests FOR INSERT
+  WITH CHECK (
+    org_id = public.user_org_id() 
+    AND public.is_staff() 
+    AND requested_by = auth.uid()::uuid
+  );
+
 -- Staff can update requests in their organization
 CREATE POLICY "Staff can update requests in their organization"
   ON student_requests FOR UPDATE
@@ -816,6 +839,188 @@ CREATE POLICY "Staff can delete attendance in their organization"
   ON attendance FOR DELETE
   USING (org_id = public.user_org_id() AND public.is_staff());
 
+-- ======================
+-- ATTENDANCE HISTORY
+-- ======================
+
+-- Staff can view attendance history in their organization
+-- Entries are written by the attendance API using the service role
+CREATE POLICY "Staff can view attendance history in their organization"
+  ON attendance_history FOR SELECT
+  USING (org_id = public.user_org_id() AND public.is_staff());
+
+-- ======================
+-- ABSENCE NOTICES
+-- ======================
+
+-- Staff can view absence notices in their organization
+CREATE POLICY "Staff can view absence notices in their organization"
+  ON absence_notices FOR SELECT
+  USING (org_id = public.user_org_id() AND public.is_staff());
+
+-- Guardians can view absence notices of their children
+CREATE POLICY "Guardians can view absence notices of their children"
+  ON absence_notices FOR SELECT
+  USING (
+    org_id = public.user_org_id() 
+    AND public.is_guardian() 
+    AND student_id IN (SELECT public.user_student_ids())
+  );
+
+-- Guardians can report absences for their children
+CREATE POLICY "Guardians can create absence notices for their children"
+  ON absence_notices FOR INSERT
+  WITH CHECK (
+    org_id = public.user_org_id() 
+    AND public.is_guardian() 
+    AND guardian_id = auth.uid()::uuid
+    AND student_id IN (SELECT public.user_student_ids())
+  );
+
+-- Guardians can cancel absence notices of their children
+CREATE POLICY "Guardians can update absence notices of their children"
+  ON absence_notices FOR UPDATE
+  USING (
+    org_id = public.user_org_id() 
+    AND public.is_guardian() 
+    AND student_id IN (SELECT public.user_student_ids())
+  );
+
+-- ======================
+-- ABSENCE ALERT RUNS
+-- ======================
+
+-- Staff can view absence alert runs in their organization
+-- Runs are written by the scheduled job using the service role
+CREATE POLICY "Staff can view absence alert runs in their organization"
+  ON absence_alert_runs FOR SELECT
+  USING (org_id = public.user_org_id() AND public.is_staff());
+
+-- ======================
+-- KIOSK DEVICES
+-- ======================
+
+-- Principals can view kiosk devices in their organization
+-- Devices are registered and revoked through the API using the service role
+CREATE POLICY "Principals can view kiosk devices in their organization"
+  ON kiosk_devices FOR SELECT
+  USING (org_id = public.user_org_id() AND (public.is_principal() OR public.is_admin()));
+
+-- ======================
+-- STAFF RATIO SNAPSHOTS
+-- ======================
+
+-- Staff can view staffing ratio history in their organization
+-- Snapshots are written by the scheduled job using the service role
+CREATE POLICY "Staff can view staff ratio snapshots in their organization"
+  ON staff_ratio_snapshots FOR SELECT
+  USING (org_id = public.user_org_id() AND public.is_staff());
+
+-- ======================
+-- CLOSURE DAYS
+-- ======================
+
+-- Everyone in the organization can see when it is closed
+-- Closures are managed by principals through the application using the service role
+CREATE POLICY "Users can view closure days in their organization"
+  ON closure_days FOR SELECT
+  USING (org_id = public.user_org_id() AND deleted_at IS NULL);
+
+-- ======================
+-- MEDICATION PLANS
+-- ======================
+
+-- Staff can view medication plans in their organization
+-- Plans, consent and doses are written through the API using the service role
+CREATE POLICY "Staff can view medication plans in their organization"
+  ON medication_plans FOR SELECT
+  USING (org_id = public.user_org_id() AND public.is_staff());
+
+-- Guardians can view medication plans of their children
+CREATE POLICY "Guardians can view medication plans of their children"
+  ON medication_plans FOR SELECT
+  USING (
+    org_id = public.user_org_id() 
+    AND public.is_guardian() 
+    AND student_id IN (SELECT public.user_student_ids())
+  );
+
+-- Staff can view sent dose reminders and missed-dose alerts
+-- Rows are written by the scheduled job using the service role
+CREATE POLICY "Staff can view medication dose alerts in their organization"
+  ON medication_dose_alerts FOR SELECT
+  USING (org_id = public.user_org_id() AND public.is_staff());
+
+-- ======================
+-- INCIDENT REPORTS
+-- ======================
+
+-- Staff can view incident reports in their organization
+-- Reports and their history are written through the API using the service role
+CREATE POLICY "Staff can view incident reports in their organization"
+  ON incident_reports FOR SELECT
+  USING (org_id = public.user_org_id() AND public.is_staff());
+
+-- Guardians can view incident reports of their children once the principal has sent them
+CREATE POLICY "Guardians can view sent incident reports of their children"
+  ON incident_reports FOR SELECT
+  USING (
+    org_id = public.user_org_id() 
+    AND public.is_guardian() 
+    AND status <> 'pending_review'
+    AND student_id IN (SELECT public.user_student_ids())
+  );
+
+-- Staff can view incident report history in their organization
+CREATE POLICY "Staff can view incident report history in their organization"
+  ON incident_report_history FOR SELECT
+  USING (org_id = public.user_org_id() AND public.is_staff());
+
+-- ======================
+-- HEALTH NOTICES
+-- ======================
+
+-- Principals and admins can view health notices sent in their organization
+-- Notices are written through the API using the service role
+CREATE POLICY "Principals can view health notices in their organization"
+  ON health_notices FOR SELECT
+  USING (org_id = public.user_org_id() AND (public.is_principal() OR public.is_admin()));
+
+-- ======================
+-- CLASS ROLLOVERS
+-- ======================
+
+-- Principals and admins can view rollovers in their organization
+-- Rollovers are applied through the API using the service role
+CREATE POLICY "Principals can view class rollovers in their organization"
+  ON class_rollovers FOR SELECT
+  USING (org_id = public.user_org_id() AND (public.is_principal() OR public.is_admin()));
+
+-- ======================
+-- STUDENT MILESTONES
+-- ======================
+
+-- Staff can view milestones in their organization
+-- Milestones are recorded through the API using the service role
+CREATE POLICY "Staff can view student milestones in their organization"
+  ON student_milestones FOR SELECT
+  USING (org_id = public.user_org_id() AND public.is_staff());
+
+-- Guardians can view milestones of their children
+CREATE POLICY "Guardians can view milestones of their children"
+  ON student_milestones FOR SELECT
+  USING (
+    org_id = public.user_org_id()
+    AND public.is_guardian()
+    AND student_id IN (SELECT public.user_student_ids())
+  );
+
+-- ======================
+-- ORG DATA KEYS
+-- ======================
+
+-- No policies: data keys are only ever read by the server using the service role
+
 -- ======================
 -- ASSESSMENTS
 -- ======================
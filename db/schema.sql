@@ -117,6 +117,16 @@ CREATE TABLE IF NOT EXISTS orgs (
   -- Capacity Limits
   maximum_allowed_students integer,
 
+  -- Attendance Alerts (cut-off is local time in the org's timezone)
+  absence_alerts_enabled boolean NOT NULL DEFAULT false,
+  absence_alert_cutoff time NOT NULL DEFAULT '09:30',
+
+  -- Staffing ratio: most barngildi-weighted children present per staff member in a class
+  max_children_per_staff numeric(4,1) NOT NULL DEFAULT 8 CHECK (max_children_per_staff > 0),
+
+  -- Fever alerts: temperature readings at or above this notify guardians and staff
+  fever_threshold_celsius numeric(3,1) NOT NULL DEFAULT 38.0 CHECK (fever_threshold_celsius BETWEEN 37.0 AND 41.0),
+
   -- Calculated Metrics (updated via triggers)
   current_enrolled_students integer NOT NULL DEFAULT 0,
   total_teachers integer NOT NULL DEFAULT 0,
@@ -268,10 +278,12 @@ CREATE TABLE IF NOT EXISTS students (
   start_date date,
   student_language text,
   barngildi numeric NOT NULL DEFAULT 1.0,
-  -- Encrypted sensitive fields
+  -- Encrypted sensitive fields (AES-256-GCM with the org data key, see org_data_keys)
   medical_notes_encrypted text, -- Encrypted medical information
   allergies_encrypted text, -- Encrypted allergy information
   emergency_contact_encrypted text, -- Encrypted emergency contact info
+  allergy_tags text[] NOT NULL DEFAULT '{}', -- EU allergen codes, matched against menu allergens
+  graduated_at timestamptz NULL, -- Archived by a class rollover; kept for records, hidden from class lists
   deleted_at timestamptz NULL,
   created_at timestamptz NOT NULL DEFAULT now(),
   updated_at timestamptz NOT NULL DEFAULT now(),
@@ -288,10 +300,15 @@ CREATE TABLE IF NOT EXISTS student_relatives (
   phone text,
   email citext,
   notes text,
+  can_pickup boolean NOT NULL DEFAULT false, -- Authorized to collect the child
+  photo_url text, -- Photo shown to staff at pickup
+  contact_priority integer CHECK (contact_priority > 0), -- Emergency contact order, 1 first; NULL = not an emergency contact
   deleted_at timestamptz NULL,
   created_at timestamptz NOT NULL DEFAULT now(),
   updated_at timestamptz NOT NULL DEFAULT now()
 );
+CREATE INDEX IF NOT EXISTS idx_student_relatives_pickup ON student_relatives(student_id) WHERE can_pickup AND deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_student_relatives_student ON student_relatives(student_id, contact_priority) WHERE deleted_at IS NULL;
 
 
 
@@ -304,15 +321,24 @@ CREATE TABLE IF NOT EXISTS student_requests (
   last_name text,
   dob date,
   gender gender_type NOT NULL DEFAULT 'unknown',
-  medical_notes text,
-  allergies text,
-  emergency_contact text,
+  address text,
+  ssn text,
+  start_date date,
+  student_language text,
+  -- Encrypted like the students columns (see org_data_keys)
+  medical_notes_encrypted text,
+  allergies_encrypted text,
+  emergency_contact_encrypted text,
+  allergy_tags text[] NOT NULL DEFAULT '{}',
+  guardian_ids uuid[] NOT NULL DEFAULT '{}', -- Guardians to link when the student is created
   status student_request_status NOT NULL DEFAULT 'pending',
   requested_by uuid NOT NULL REFERENCES users(id),
   approved_by uuid REFERENCES users(id),
   approved_at timestamptz,
   rejected_by uuid REFERENCES users(id),
   rejected_at timestamptz,
+  rejection_reason text,
+  student_id uuid REFERENCES students(id) ON DELETE SET NULL, -- Student created on approval
   created_at timestamptz NOT NULL DEFAULT now(),
   updated_at timestamptz NOT NULL DEFAULT now()
 );
@@ -398,9 +424,11 @@ CREATE TABLE IF NOT EXISTS guardian_students (
   guardian_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
   student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
   relation text,
+  access_expires_at timestamptz NULL, -- Set when the child graduates; the link is removed after this
   created_at timestamptz NOT NULL DEFAULT now(),
   UNIQUE (guardian_id, student_id)
 );
+CREATE INDEX IF NOT EXISTS idx_guardian_students_access_expires ON guardian_students(access_expires_at) WHERE access_expires_at IS NOT NULL;
 
 
 
@@ -463,6 +491,10 @@ CREATE TABLE IF NOT EXISTS menus (
   breakfast text,
   lunch text,
   snack text,
+  -- EU allergen codes per meal (see lib/constants/allergens.ts)
+  breakfast_allergens text[] NOT NULL DEFAULT '{}',
+  lunch_allergens text[] NOT NULL DEFAULT '{}',
+  snack_allergens text[] NOT NULL DEFAULT '{}',
   notes text,
   is_public boolean NOT NULL DEFAULT true,
   created_by uuid REFERENCES users(id) ON DELETE SET NULL,
@@ -510,6 +542,41 @@ BEGIN
   END IF;
 END $$;
 
+-- MEDICATION PLANS (per-child medication schedule; active only once a guardian has consented)
+CREATE TABLE IF NOT EXISTS medication_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  medication_name text NOT NULL,
+  dose text NOT NULL,
+  instructions text,
+  dose_times time[] NOT NULL CHECK (cardinality(dose_times) > 0),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  status text NOT NULL DEFAULT 'pending_consent' CHECK (status IN ('pending_consent','active','declined','cancelled')),
+  consent_guardian_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  consent_name text,
+  consent_at timestamptz,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+CREATE INDEX IF NOT EXISTS idx_medication_plans_student ON medication_plans(student_id, start_date DESC);
+CREATE INDEX IF NOT EXISTS idx_medication_plans_org_active ON medication_plans(org_id, start_date, end_date) WHERE status = 'active';
+
+-- MEDICATION DOSE ALERTS (one row per plan, day and dose time once a reminder or missed-dose alert is sent)
+CREATE TABLE IF NOT EXISTS medication_dose_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  plan_id uuid NOT NULL REFERENCES medication_plans(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  dose_time time NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('reminder','missed')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (plan_id, date, dose_time, kind)
+);
+
 -- HEALTH_LOGS
 CREATE TABLE IF NOT EXISTS health_logs (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -522,6 +589,8 @@ CREATE TABLE IF NOT EXISTS health_logs (
   data jsonb NOT NULL DEFAULT '{}'::jsonb,
   notes text,
   severity smallint,
+  -- Set for doses given under a medication plan; data.scheduled_time holds the dose slot
+  medication_plan_id uuid REFERENCES medication_plans(id) ON DELETE SET NULL,
   recorded_by uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
   created_at timestamptz NOT NULL DEFAULT now(),
   updated_at timestamptz NOT NULL DEFAULT now(),
@@ -530,6 +599,105 @@ CREATE TABLE IF NOT EXISTS health_logs (
   CHECK (severity IS NULL OR (severity BETWEEN 1 AND 5))
 );
 
+-- INCIDENT REPORTS (opened from an injury health log; reviewed by a principal, then acknowledged by a guardian)
+-- Location, witnesses, first aid and body areas are kept in the health log's data
+CREATE TABLE IF NOT EXISTS incident_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  health_log_id uuid NOT NULL UNIQUE REFERENCES health_logs(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'pending_review' CHECK (status IN ('pending_review','sent_to_guardians','acknowledged')),
+  review_notes text,
+  reviewed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  acknowledged_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  acknowledged_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_incident_reports_org_status ON incident_reports(org_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_incident_reports_student ON incident_reports(student_id, created_at DESC);
+
+-- INCIDENT REPORT HISTORY
+-- One row per status change on an incident report
+CREATE TABLE IF NOT EXISTS incident_report_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  incident_report_id uuid NOT NULL REFERENCES incident_reports(id) ON DELETE CASCADE,
+  old_status text NULL,
+  new_status text NOT NULL,
+  notes text,
+  changed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_incident_report_history_report ON incident_report_history(incident_report_id, changed_at);
+
+-- HEALTH NOTICES
+-- Notices sent to the guardians of a class about an illness outbreak,
+-- kept for reporting to the health authority
+CREATE TABLE IF NOT EXISTS health_notices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  class_id uuid REFERENCES classes(id) ON DELETE SET NULL,
+  category text NOT NULL,
+  title text NOT NULL,
+  body text NOT NULL,
+  recipient_count integer NOT NULL DEFAULT 0,
+  sent_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  sent_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_health_notices_org_sent ON health_notices(org_id, sent_at DESC);
+
+-- ORG DATA KEYS
+-- Per-organization keys for student medical data, stored wrapped with the
+-- master key from the environment. Only the newest unretired version encrypts;
+-- older versions are kept so rows written during a rotation stay readable.
+CREATE TABLE IF NOT EXISTS org_data_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  wrapped_key text NOT NULL,
+  master_key_id text NOT NULL, -- Fingerprint of the master key that wrapped it
+  created_at timestamptz NOT NULL DEFAULT now(),
+  retired_at timestamptz NULL,
+  UNIQUE (org_id, version)
+);
+
+-- CLASS ROLLOVERS
+-- One row per year-end rollover: where each class moved, who graduated and
+-- what happened to teacher memberships
+CREATE TABLE IF NOT EXISTS class_rollovers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  class_moves jsonb NOT NULL DEFAULT '[]', -- [{ from_class_id, to_class_id, student_ids }]
+  graduated_student_ids uuid[] NOT NULL DEFAULT '{}',
+  teacher_memberships text NOT NULL CHECK (teacher_memberships IN ('carry_over', 'reset')),
+  guardian_grace_days integer NOT NULL CHECK (guardian_grace_days >= 0),
+  performed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  performed_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_class_rollovers_org ON class_rollovers(org_id, performed_at DESC);
+
+-- STUDENT MILESTONES
+-- Developmental milestones observed for a child; the checklist itself lives in
+-- code (lib/constants/milestones.ts) and is picked by the child's age
+CREATE TABLE IF NOT EXISTS student_milestones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  milestone_key text NOT NULL,
+  status text NOT NULL CHECK (status IN ('emerging', 'achieved')),
+  observed_on date NOT NULL DEFAULT CURRENT_DATE,
+  photo_id uuid REFERENCES photos(id) ON DELETE SET NULL,
+  daily_log_id uuid REFERENCES daily_logs(id) ON DELETE SET NULL,
+  notes text,
+  recorded_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (student_id, milestone_key)
+);
+CREATE INDEX IF NOT EXISTS idx_student_milestones_org_student ON student_milestones(org_id, student_id);
+
 -- ANNOUNCEMENTS
 CREATE TABLE IF NOT EXISTS announcements (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -657,6 +825,83 @@ CREATE TABLE IF NOT EXISTS invitations (
   updated_at timestamptz NOT NULL DEFAULT now()
 );
 
+-- ABSENCE NOTICES (guardian-reported sick days and holidays)
+CREATE TABLE IF NOT EXISTS absence_notices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  guardian_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  kind text NOT NULL CHECK (kind IN ('sick','holiday')),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  note text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  cancelled_at timestamptz NULL,
+  CHECK (end_date >= start_date)
+);
+CREATE INDEX IF NOT EXISTS idx_absence_notices_student_dates ON absence_notices(student_id, start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_absence_notices_org_dates ON absence_notices(org_id, start_date) WHERE cancelled_at IS NULL;
+
+-- CLOSURE DAYS (planning days, public holidays, summer closure; class_id NULL closes the whole org)
+CREATE TABLE IF NOT EXISTS closure_days (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  class_id uuid REFERENCES classes(id) ON DELETE CASCADE,
+  kind text NOT NULL DEFAULT 'other' CHECK (kind IN ('planning_day','public_holiday','summer_closure','other')),
+  title text NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  deleted_at timestamptz NULL,
+  CHECK (end_date >= start_date)
+);
+CREATE INDEX IF NOT EXISTS idx_closure_days_org_dates ON closure_days(org_id, start_date, end_date) WHERE deleted_at IS NULL;
+
+-- KIOSK DEVICES (entrance tablets showing the check-in QR code; authenticated by a hashed device token)
+CREATE TABLE IF NOT EXISTS kiosk_devices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  token_hash text NOT NULL UNIQUE,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  last_seen_at timestamptz,
+  revoked_at timestamptz NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_kiosk_devices_org ON kiosk_devices(org_id) WHERE revoked_at IS NULL;
+
+-- ABSENCE ALERT RUNS (one row per org and day once unexplained-absence alerts are sent)
+CREATE TABLE IF NOT EXISTS absence_alert_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  student_ids uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (org_id, date)
+);
+
+-- STAFF RATIO SNAPSHOTS
+-- Periodic record of staff-to-child ratios; class_id is NULL for the org-wide total
+CREATE TABLE IF NOT EXISTS staff_ratio_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  class_id uuid REFERENCES classes(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  recorded_at timestamptz NOT NULL DEFAULT now(),
+  children_present integer NOT NULL,
+  weighted_children numeric(6,2) NOT NULL,
+  staff_present integer NOT NULL,
+  children_per_staff numeric(6,2),
+  threshold numeric(4,1) NOT NULL,
+  is_breach boolean NOT NULL DEFAULT false
+);
+CREATE INDEX IF NOT EXISTS idx_staff_ratio_snapshots_org_date ON staff_ratio_snapshots(org_id, date DESC, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_staff_ratio_snapshots_class_time ON staff_ratio_snapshots(class_id, recorded_at DESC) WHERE class_id IS NOT NULL;
+
 -- ATTENDANCE
 CREATE TABLE IF NOT EXISTS attendance (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -667,7 +912,13 @@ CREATE TABLE IF NOT EXISTS attendance (
   status attendance_status NOT NULL DEFAULT 'arrived',
   notes text,
   recorded_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  arrived_at timestamptz NULL,
   left_at timestamptz NULL,
+  notice_id uuid REFERENCES absence_notices(id) ON DELETE SET NULL,
+  -- Who collected the child when left_at was set (a guardian or an authorized relative)
+  picked_up_by_guardian_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  picked_up_by_relative_id uuid REFERENCES student_relatives(id) ON DELETE SET NULL,
+  picked_up_by_name text,
   created_at timestamptz NOT NULL DEFAULT now(),
   updated_at timestamptz NOT NULL DEFAULT now(),
   UNIQUE (student_id, date)
@@ -675,6 +926,27 @@ CREATE TABLE IF NOT EXISTS attendance (
 CREATE INDEX IF NOT EXISTS idx_attendance_class_date ON attendance(class_id, date DESC);
 CREATE INDEX IF NOT EXISTS idx_attendance_status ON attendance(status);
 CREATE INDEX IF NOT EXISTS idx_attendance_left_at ON attendance(left_at) WHERE left_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_attendance_notice_id ON attendance(notice_id) WHERE notice_id IS NOT NULL;
+
+-- ATTENDANCE HISTORY
+-- One row per status or check-out change on an attendance record; kept when the record is deleted
+CREATE TABLE IF NOT EXISTS attendance_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid NOT NULL REFERENCES orgs(id) ON DELETE CASCADE,
+  attendance_id uuid NULL REFERENCES attendance(id) ON DELETE SET NULL,
+  student_id uuid REFERENCES students(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  old_status attendance_status NULL,
+  new_status attendance_status NOT NULL,
+  old_left_at timestamptz NULL,
+  new_left_at timestamptz NULL,
+  notes text,
+  changed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_attendance_history_attendance ON attendance_history(attendance_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_attendance_history_student ON attendance_history(student_id, date DESC);
+CREATE INDEX IF NOT EXISTS idx_attendance_history_student_changed ON attendance_history(student_id, changed_at DESC);
 
 -- ASSESSMENTS/GRADES
 CREATE TABLE IF NOT EXISTS assessments (
@@ -876,6 +1148,12 @@ CREATE INDEX IF NOT EXISTS idx_photos_org_id ON photos(org_id);
 CREATE INDEX IF NOT EXISTS idx_menus_org_id ON menus(org_id);
 CREATE INDEX IF NOT EXISTS idx_daily_logs_org_id ON daily_logs(org_id);
 CREATE INDEX IF NOT EXISTS idx_health_logs_org_id ON health_logs(org_id);
+CREATE INDEX IF NOT EXISTS idx_health_logs_medication_plan ON health_logs(medication_plan_id, recorded_at) WHERE medication_plan_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_health_logs_medication_dose
+  ON health_logs(medication_plan_id, (data->>'scheduled_date'), (data->>'scheduled_time'))
+  WHERE medication_plan_id IS NOT NULL AND deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_health_logs_org_type_recorded ON health_logs(org_id, type, recorded_at) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_health_logs_student_temperature ON health_logs(student_id, recorded_at) WHERE type = 'temperature' AND deleted_at IS NULL;
 CREATE INDEX IF NOT EXISTS idx_announcements_org_id ON announcements(org_id);
 CREATE INDEX IF NOT EXISTS idx_messages_org_id ON messages(org_id);
 CREATE INDEX IF NOT EXISTS idx_message_participants_org_id ON message_participants(org_id);
@@ -1657,4 +1935,77 @@ BEGIN
   END IF;
   RETURN NEW;
 END;
-$$ LANGUAGE plpgsql;
\ No newline at end of file
+$$ LANGUAGE plpgsql;
+
+-- ======================
+-- CLASS ROLLOVER FUNCTION
+-- ======================
+-- Applies a year-end rollover in one transaction: archives graduates and starts
+-- their guardians' grace period, moves each cohort, replaces the teacher
+-- memberships of the classes involved and logs the run. The server works out
+-- the plan and calls this with the service role; returns the class_rollovers id.
+CREATE OR REPLACE FUNCTION apply_class_rollover(
+  p_org_id uuid,
+  p_performed_by uuid,
+  p_performed_at timestamptz,
+  p_graduating_student_ids uuid[],
+  p_guardian_access_expires_at timestamptz,
+  p_class_moves jsonb, -- [{ from_class_id, to_class_id, student_ids }]
+  p_touched_class_ids uuid[],
+  p_memberships jsonb, -- [{ class_id, user_id, membership_role }] for the touched classes
+  p_teacher_memberships text,
+  p_guardian_grace_days integer
+)
+RETURNS uuid AS $$
+DECLARE
+  v_move jsonb;
+  v_rollover_id uuid;
+BEGIN
+  IF cardinality(p_graduating_student_ids) > 0 THEN
+    UPDATE students
+    SET class_id = NULL, graduated_at = p_performed_at, updated_at = p_performed_at
+    WHERE org_id = p_org_id
+      AND id = ANY(p_graduating_student_ids);
+
+    UPDATE guardian_students
+    SET access_expires_at = p_guardian_access_expires_at
+    WHERE org_id = p_org_id
+      AND student_id = ANY(p_graduating_student_ids);
+  END IF;
+
+  -- Student lists were read before any move, so A→B and B→C do not chain
+  FOR v_move IN SELECT * FROM jsonb_array_elements(p_class_moves) LOOP
+    UPDATE students
+    SET class_id = (v_move->>'to_class_id')::uuid, updated_at = p_performed_at
+    WHERE org_id = p_org_id
+      AND id IN (SELECT jsonb_array_elements_text(v_move->'student_ids')::uuid);
+  END LOOP;
+
+  IF cardinality(p_touched_class_ids) > 0 THEN
+    DELETE FROM class_memberships
+    WHERE org_id = p_org_id
+      AND class_id = ANY(p_touched_class_ids);
+
+    INSERT INTO class_memberships (org_id, class_id, user_id, membership_role)
+    SELECT p_org_id, m.class_id, m.user_id, m.membership_role
+    FROM jsonb_to_recordset(p_memberships)
+      AS m(class_id uuid, user_id uuid, membership_role membership_role_type)
+    WHERE m.class_id = ANY(p_touched_class_ids);
+  END IF;
+
+  INSERT INTO class_rollovers (
+    org_id, class_moves, graduated_student_ids, teacher_memberships,
+    guardian_grace_days, performed_by, performed_at
+  )
+  VALUES (
+    p_org_id, p_class_moves, p_graduating_student_ids, p_teacher_memberships,
+    p_guardian_grace_days, p_performed_by, p_performed_at
+  )
+  RETURNING id INTO v_rollover_id;
+
+  RETURN v_rollover_id;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION apply_class_rollover(uuid, uuid, timestamptz, uuid[], timestamptz, jsonb, uuid[], jsonb, text, integer)
+  FROM PUBLIC, anon, authenticated;
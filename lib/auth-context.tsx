@@ -4,6 +4,7 @@ import React, { createContext, useContext, useEffect, useState, useRef } from 'r
 import { User, Session, AuthError } from '@supabase/supabase-js';
 import { supabase, markUserLoggedIn } from './supabaseClient';
 import { type SamveraRole, type UserMetadata } from './auth';
+import { clearAttendanceQueue } from './utils/attendanceQueue';
 
 // ============================================================================
 // Types & Interfaces
@@ -635,6 +636,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setUser(null);
     setLoading(false);
 
+    // Offline attendance queued on a shared device must not sync under the next login
+    try {
+      await clearAttendanceQueue();
+    } catch (err) {
+      console.error('❌ Failed to clear offline attendance queue:', err);
+    }
+
     // Try to sign out from Supabase
     const { error } = await supabase.auth.signOut();
     if (error) {
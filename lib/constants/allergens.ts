@@ -0,0 +1,27 @@
+/**
+ * Constants for allergen tagging on menus and students
+ */
+
+/** The 14 allergens that EU food law (Regulation 1169/2011, Annex II) requires to be declared */
+export const ALLERGENS = [
+  'gluten',
+  'crustaceans',
+  'eggs',
+  'fish',
+  'peanuts',
+  'soybeans',
+  'milk',
+  'nuts',
+  'celery',
+  'mustard',
+  'sesame',
+  'sulphites',
+  'lupin',
+  'molluscs',
+] as const;
+
+export type Allergen = typeof ALLERGENS[number];
+
+export const MENU_MEALS = ['breakfast', 'lunch', 'snack'] as const;
+
+export type MenuMeal = typeof MENU_MEALS[number];
@@ -0,0 +1,11 @@
+/**
+ * Constants for gradebooks and report cards
+ */
+
+/** Matches the grade_scale enum in the database */
+export const GRADE_SCALE = ['A', 'B', 'C', 'D', 'F', 'P', 'NP'] as const;
+
+export type Grade = typeof GRADE_SCALE[number];
+
+/** Organization types that grade their students; preschools do not */
+export const GRADING_ORG_TYPES = ['elementary', 'middle'] as const;
@@ -0,0 +1,65 @@
+/**
+ * Developmental milestone checklist for preschool children. Items are grouped
+ * by domain and by the age in years at which most children reach them; labels
+ * are translated as milestone_item_<key>.
+ */
+
+export const MILESTONE_DOMAINS = ['motor', 'language', 'social', 'self_care'] as const;
+
+export type MilestoneDomain = typeof MILESTONE_DOMAINS[number];
+
+export const MILESTONE_STATUSES = ['emerging', 'achieved'] as const;
+
+export type MilestoneStatus = typeof MILESTONE_STATUSES[number];
+
+export const MILESTONES = [
+  // 1 year
+  { key: 'walks_alone', domain: 'motor', age: 1 },
+  { key: 'stacks_two_blocks', domain: 'motor', age: 1 },
+  { key: 'says_single_words', domain: 'language', age: 1 },
+  { key: 'points_to_show', domain: 'language', age: 1 },
+  { key: 'shows_affection', domain: 'social', age: 1 },
+  { key: 'imitates_others', domain: 'social', age: 1 },
+  { key: 'drinks_from_cup', domain: 'self_care', age: 1 },
+  { key: 'feeds_with_fingers', domain: 'self_care', age: 1 },
+  // 2 years
+  { key: 'kicks_ball', domain: 'motor', age: 2 },
+  { key: 'climbs_stairs', domain: 'motor', age: 2 },
+  { key: 'two_word_phrases', domain: 'language', age: 2 },
+  { key: 'names_familiar_objects', domain: 'language', age: 2 },
+  { key: 'plays_beside_others', domain: 'social', age: 2 },
+  { key: 'notices_others_feelings', domain: 'social', age: 2 },
+  { key: 'uses_spoon', domain: 'self_care', age: 2 },
+  { key: 'helps_undress', domain: 'self_care', age: 2 },
+  // 3 years
+  { key: 'pedals_tricycle', domain: 'motor', age: 3 },
+  { key: 'draws_circle', domain: 'motor', age: 3 },
+  { key: 'three_word_sentences', domain: 'language', age: 3 },
+  { key: 'follows_two_step_instructions', domain: 'language', age: 3 },
+  { key: 'takes_turns', domain: 'social', age: 3 },
+  { key: 'plays_pretend', domain: 'social', age: 3 },
+  { key: 'washes_hands', domain: 'self_care', age: 3 },
+  { key: 'uses_toilet_with_help', domain: 'self_care', age: 3 },
+  // 4 years
+  { key: 'hops_on_one_foot', domain: 'motor', age: 4 },
+  { key: 'uses_scissors', domain: 'motor', age: 4 },
+  { key: 'tells_stories', domain: 'language', age: 4 },
+  { key: 'asks_why_questions', domain: 'language', age: 4 },
+  { key: 'plays_cooperatively', domain: 'social', age: 4 },
+  { key: 'names_feelings', domain: 'social', age: 4 },
+  { key: 'dresses_self', domain: 'self_care', age: 4 },
+  { key: 'uses_toilet_alone', domain: 'self_care', age: 4 },
+  // 5 years
+  { key: 'skips', domain: 'motor', age: 5 },
+  { key: 'draws_person', domain: 'motor', age: 5 },
+  { key: 'retells_story', domain: 'language', age: 5 },
+  { key: 'recognises_letters', domain: 'language', age: 5 },
+  { key: 'follows_group_rules', domain: 'social', age: 5 },
+  { key: 'makes_friends', domain: 'social', age: 5 },
+  { key: 'buttons_clothes', domain: 'self_care', age: 5 },
+  { key: 'blows_nose', domain: 'self_care', age: 5 },
+] as const satisfies ReadonlyArray<{ key: string; domain: MilestoneDomain; age: number }>;
+
+export type MilestoneKey = typeof MILESTONES[number]['key'];
+
+export const MILESTONE_KEYS = MILESTONES.map((milestone) => milestone.key) as [MilestoneKey, ...MilestoneKey[]];
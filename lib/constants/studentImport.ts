@@ -0,0 +1,45 @@
+/**
+ * Columns a student import file can map to. Each row is one child with
+ * up to two guardians; siblings share guardians by repeating them.
+ */
+export const STUDENT_IMPORT_STUDENT_FIELDS = [
+  'first_name',
+  'last_name',
+  'dob',
+  'gender',
+  'class',
+  'start_date',
+  'barngildi',
+  'student_language',
+  'address',
+  'social_security_number',
+  'medical_notes',
+  'allergies',
+  'allergy_tags',
+  'emergency_contact',
+] as const;
+
+export const STUDENT_IMPORT_GUARDIAN_FIELDS = [
+  'first_name',
+  'last_name',
+  'email',
+  'phone',
+  'ssn',
+  'address',
+] as const;
+
+export const STUDENT_IMPORT_GUARDIAN_SLOTS = [1, 2] as const;
+
+export type StudentImportGuardianField = (typeof STUDENT_IMPORT_GUARDIAN_FIELDS)[number];
+
+export const STUDENT_IMPORT_FIELDS = [
+  ...STUDENT_IMPORT_STUDENT_FIELDS,
+  ...STUDENT_IMPORT_GUARDIAN_SLOTS.flatMap((slot) =>
+    STUDENT_IMPORT_GUARDIAN_FIELDS.map((field) => `guardian${slot}_${field}` as const),
+  ),
+] as const;
+
+export type StudentImportField = (typeof STUDENT_IMPORT_FIELDS)[number];
+
+export const STUDENT_IMPORT_MODES = ['dry_run', 'commit'] as const;
+export type StudentImportMode = (typeof STUDENT_IMPORT_MODES)[number];
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+
+import { getNoCacheHeaders } from '@/lib/cacheConfig';
+import { AbsenceAlertServiceError, runAbsenceAlerts } from '@/lib/services/absenceAlerts';
+import { isAuthorizedCronRequest } from '@/lib/utils/cronAuth';
+
+/**
+ * Handler for GET /api/cron/absence-alerts
+ * Runs the unexplained-absence check for every organization past its cut-off time.
+ */
+export async function handleRunAbsenceAlerts(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const results = await runAbsenceAlerts();
+    const alerted = results.filter((r) => r.student_ids.length > 0);
+
+    return NextResponse.json(
+      {
+        orgs_checked: results.length,
+        orgs_alerted: alerted.length,
+        students_alerted: alerted.reduce((sum, r) => sum + r.student_ids.length, 0),
+        results,
+      },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error running absence alerts', err);
+    return NextResponse.json(
+      {
+        error: err instanceof AbsenceAlertServiceError
+          ? err.message
+          : 'Unexpected error while running absence alerts',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,201 @@
+import { NextResponse } from 'next/server';
+
+import { getNoCacheHeaders } from '@/lib/cacheConfig';
+import { validateBody, validateQuery } from '@/lib/validation';
+import {
+  deleteAbsenceNoticeQuerySchema,
+  getAbsenceNoticesQuerySchema,
+  postAbsenceNoticeBodySchema,
+  type DeleteAbsenceNoticeQueryParams,
+  type GetAbsenceNoticesQueryParams,
+  type PostAbsenceNoticeBody,
+} from '@/lib/validation/attendance';
+import {
+  cancelAbsenceNotice,
+  createAbsenceNotice,
+  listAbsenceNotices,
+} from '@/lib/services/absenceNotices';
+import { serviceErrorResponse } from '@/lib/utils/serviceErrors';
+import type { AuthUser, SamveraRole, UserMetadata } from '@/lib/types/auth';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Handler for GET /api/attendance/notices
+ * Guardians see upcoming notices for their linked children;
+ * staff see notices in their organization, optionally filtered by class or student.
+ */
+export async function handleGetAbsenceNotices(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<GetAbsenceNoticesQueryParams>(
+    getAbsenceNoticesQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+  const { studentId, classId, from } = queryValidation.data;
+
+  const isStaff = roles.some((role) => ['principal', 'admin', 'teacher'].includes(role));
+
+  try {
+    let studentIds: string[] | undefined = studentId ? [studentId] : undefined;
+
+    if (!isStaff) {
+      const { data: relationships, error: relError } = await adminClient
+        .from('guardian_students')
+        .select('student_id')
+        .eq('guardian_id', user.id);
+
+      if (relError) {
+        console.error('❌ Error fetching guardian-student relationships:', relError);
+        return NextResponse.json(
+          { error: 'Failed to fetch linked students' },
+          { status: 500 },
+        );
+      }
+
+      const linkedStudentIds = (relationships || [])
+        .map((r: { student_id: string | null }) => r.student_id)
+        .filter((id): id is string => Boolean(id));
+      studentIds = studentId
+        ? linkedStudentIds.filter((id) => id === studentId)
+        : linkedStudentIds;
+    }
+
+    const notices = await listAbsenceNotices({
+      orgId,
+      studentIds,
+      classId: isStaff ? classId ?? undefined : undefined,
+      fromDate: from,
+    });
+
+    return NextResponse.json(
+      { notices, total: notices.length },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error fetching absence notices', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to fetch absence notices',
+      'Unexpected error while fetching absence notices',
+    );
+  }
+}
+
+/**
+ * Handler for POST /api/attendance/notices
+ * Guardian reports a sick day or holiday; matching attendance is prefilled.
+ */
+export async function handlePostAbsenceNotice(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const rawBody = await request.json();
+  const bodyValidation = validateBody<PostAbsenceNoticeBody>(
+    postAbsenceNoticeBodySchema,
+    rawBody,
+  );
+  if (!bodyValidation.success) {
+    return bodyValidation.error;
+  }
+
+  try {
+    const { notice, prefilledDates } = await createAbsenceNotice({
+      orgId,
+      guardianId: user.id,
+      payload: bodyValidation.data,
+    });
+
+    return NextResponse.json(
+      {
+        notice,
+        prefilled_dates: prefilledDates,
+        message: 'Absence reported successfully!',
+      },
+      { status: 201, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error saving absence notice', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to save absence notice',
+      'Unexpected error while saving absence notice',
+    );
+  }
+}
+
+/**
+ * Handler for DELETE /api/attendance/notices
+ * Guardian cancels a notice; prefilled attendance from today on is removed.
+ */
+export async function handleDeleteAbsenceNotice(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<DeleteAbsenceNoticeQueryParams>(
+    deleteAbsenceNoticeQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+
+  try {
+    await cancelAbsenceNotice({
+      orgId,
+      guardianId: user.id,
+      id: queryValidation.data.id,
+    });
+
+    return NextResponse.json(
+      { message: 'Absence notice cancelled' },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error cancelling absence notice', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to cancel absence notice',
+      'Unexpected error while cancelling absence notice',
+    );
+  }
+}
@@ -48,7 +48,8 @@ export async function handleGetAdminDashboard(
     const { count: totalStudentsCount, error: studentsCountError } = await adminClient
       .from('students')
       .select('*', { count: 'exact', head: true })
-      .is('deleted_at', null);
+      .is('deleted_at', null)
+      .is('graduated_at', null);
 
     if (studentsCountError) {
       // Continue with count = 0
@@ -217,6 +218,7 @@ export async function handleGetAdminDashboard(
         )
       `)
       .is('deleted_at', null)
+      .is('graduated_at', null)
       .order('created_at', { ascending: false });
 
     if (studentsError) {
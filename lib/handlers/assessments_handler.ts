@@ -0,0 +1,368 @@
+import { NextResponse } from 'next/server';
+
+import { getNoCacheHeaders } from '@/lib/cacheConfig';
+import { validateBody, validateQuery } from '@/lib/validation';
+import {
+  getAssessmentsQuerySchema,
+  getReportCardQuerySchema,
+  postAssessmentsBodySchema,
+  putAssessmentBodySchema,
+  type GetAssessmentsQueryParams,
+  type GetReportCardQueryParams,
+  type PostAssessmentsBody,
+  type PutAssessmentBody,
+} from '@/lib/validation/assessments';
+import {
+  AssessmentServiceError,
+  assertGradingEnabled,
+  buildReportCardPdf,
+  createAssessments,
+  deleteAssessment,
+  getAssessment,
+  getReportCard,
+  listAssessments,
+  updateAssessment,
+} from '@/lib/services/assessments';
+import { getInlinePdfHeader } from '@/lib/utils/pdfUtils';
+import { isStaffRole } from '@/lib/utils/roles';
+import { serviceErrorResponse } from '@/lib/utils/serviceErrors';
+import type { AuthUser, SamveraRole, UserMetadata } from '@/lib/types/auth';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+function isPrincipalOrAdmin(roles: SamveraRole[]): boolean {
+  return roles.some((role) => ['principal', 'admin'].includes(role));
+}
+
+/**
+ * Teachers only grade the classes they are assigned to
+ */
+async function assertCanGradeClass(
+  adminClient: SupabaseClient,
+  orgId: string,
+  user: AuthUser,
+  roles: SamveraRole[],
+  classId: string | null,
+) {
+  if (isPrincipalOrAdmin(roles)) return;
+
+  const { data: membership, error } = classId
+    ? await adminClient
+        .from('class_memberships')
+        .select('class_id')
+        .eq('org_id', orgId)
+        .eq('user_id', user.id)
+        .eq('class_id', classId)
+        .maybeSingle()
+    : { data: null, error: null };
+
+  if (error) {
+    throw new AssessmentServiceError('Failed to load classes', 500, error);
+  }
+  if (!membership) {
+    throw new AssessmentServiceError('You are not assigned to this class', 403);
+  }
+}
+
+/**
+ * Staff may read any student's results (teachers only in their classes);
+ * guardians only their linked children's.
+ */
+async function assertCanViewStudent(
+  adminClient: SupabaseClient,
+  orgId: string,
+  user: AuthUser,
+  roles: SamveraRole[],
+  studentId: string,
+) {
+  if (isStaffRole(roles)) {
+    if (isPrincipalOrAdmin(roles)) return;
+    const { data: student, error } = await adminClient
+      .from('students')
+      .select('class_id')
+      .eq('id', studentId)
+      .eq('org_id', orgId)
+      .maybeSingle();
+    if (error) {
+      throw new AssessmentServiceError('Failed to load student', 500, error);
+    }
+    if (!student) {
+      throw new AssessmentServiceError('Student not found', 404);
+    }
+    await assertCanGradeClass(adminClient, orgId, user, roles, student.class_id as string | null);
+    return;
+  }
+
+  const { data: link, error } = await adminClient
+    .from('guardian_students')
+    .select('student_id')
+    .eq('guardian_id', user.id)
+    .eq('student_id', studentId)
+    .maybeSingle();
+  if (error) {
+    throw new AssessmentServiceError('Failed to fetch linked students', 500, error);
+  }
+  if (!link) {
+    throw new AssessmentServiceError('You do not have access to this student', 403);
+  }
+}
+
+/**
+ * Handler for GET /api/assessments
+ * A class gradebook for staff, or one student's results for staff and
+ * that student's guardians.
+ */
+export async function handleGetAssessments(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<GetAssessmentsQueryParams>(
+    getAssessmentsQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+  const { classId, studentId, subject, from, to } = queryValidation.data;
+
+  try {
+    await assertGradingEnabled(orgId);
+    if (studentId) {
+      await assertCanViewStudent(adminClient, orgId, user, roles, studentId);
+    } else if (isStaffRole(roles)) {
+      await assertCanGradeClass(adminClient, orgId, user, roles, classId ?? null);
+    } else {
+      return NextResponse.json(
+        { error: 'studentId is required' },
+        { status: 400 },
+      );
+    }
+
+    const assessments = await listAssessments({
+      orgId,
+      classId: studentId ? undefined : classId,
+      studentIds: studentId ? [studentId] : undefined,
+      subject,
+      from,
+      to,
+    });
+
+    return NextResponse.json(
+      { assessments, total: assessments.length },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error fetching assessments', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to fetch assessments',
+      'Unexpected error while fetching assessments',
+    );
+  }
+}
+
+/**
+ * Handler for POST /api/assessments
+ */
+export async function handlePostAssessments(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const rawBody = await request.json().catch(() => ({}));
+  const bodyValidation = validateBody<PostAssessmentsBody>(postAssessmentsBodySchema, rawBody);
+  if (!bodyValidation.success) {
+    return bodyValidation.error;
+  }
+
+  try {
+    await assertGradingEnabled(orgId);
+    await assertCanGradeClass(adminClient, orgId, user, roles, bodyValidation.data.class_id);
+    const assessments = await createAssessments({
+      orgId,
+      assessedBy: user.id,
+      body: bodyValidation.data,
+    });
+
+    return NextResponse.json(
+      { assessments, message: 'Assessment saved' },
+      { status: 201, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error saving assessment', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to save assessment',
+      'Unexpected error while saving assessment',
+    );
+  }
+}
+
+/**
+ * Handler for PUT /api/assessments/[id]
+ */
+export async function handlePutAssessment(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+  id: string,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const rawBody = await request.json().catch(() => ({}));
+  const bodyValidation = validateBody<PutAssessmentBody>(putAssessmentBodySchema, rawBody);
+  if (!bodyValidation.success) {
+    return bodyValidation.error;
+  }
+
+  try {
+    await assertGradingEnabled(orgId);
+    const existing = await getAssessment(orgId, id);
+    await assertCanGradeClass(adminClient, orgId, user, roles, existing.class_id);
+    const assessment = await updateAssessment({
+      orgId,
+      id,
+      updatedBy: user.id,
+      body: bodyValidation.data,
+    });
+
+    return NextResponse.json(
+      { assessment, message: 'Assessment updated' },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error updating assessment', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to update assessment',
+      'Unexpected error while updating assessment',
+    );
+  }
+}
+
+/**
+ * Handler for DELETE /api/assessments/[id]
+ */
+export async function handleDeleteAssessment(
+  _request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+  id: string,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await assertGradingEnabled(orgId);
+    const existing = await getAssessment(orgId, id);
+    await assertCanGradeClass(adminClient, orgId, user, roles, existing.class_id);
+    await deleteAssessment(orgId, id);
+
+    return NextResponse.json(
+      { message: 'Assessment deleted' },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error deleting assessment', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to delete assessment',
+      'Unexpected error while deleting assessment',
+    );
+  }
+}
+
+/**
+ * Handler for GET /api/students/[id]/report-card
+ * Printable report card for a term, in Icelandic unless lang=en is given.
+ */
+export async function handleGetReportCardPdf(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+  studentId: string,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<GetReportCardQueryParams>(
+    getReportCardQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+  const { from, to, lang } = queryValidation.data;
+
+  try {
+    await assertGradingEnabled(orgId);
+    await assertCanViewStudent(adminClient, orgId, user, roles, studentId);
+    const card = await getReportCard({ orgId, studentId, from, to });
+    const pdf = buildReportCardPdf(card, lang ?? 'is');
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        ...getNoCacheHeaders(),
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': getInlinePdfHeader(`report-card-${from}-${to}.pdf`),
+      },
+    });
+  } catch (err: unknown) {
+    console.error('Error generating report card PDF', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to generate report card',
+      'Unexpected error while generating report card',
+    );
+  }
+}
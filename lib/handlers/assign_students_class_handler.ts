@@ -8,6 +8,7 @@ import { assignStudentsClassBodySchema } from '@/lib/validation/students';
 import type { AuthUser } from '@/lib/types/auth';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { getCurrentUserOrgId } from '@/lib/server-helpers';
+import { StudentServiceError, moveStudentsToClass } from '@/lib/services/students';
 
 export async function handleAssignStudentsClass(
   request: Request,
@@ -49,7 +50,8 @@ export async function handleAssignStudentsClass(
       .select('id, org_id, class_id')
       .in('id', studentIds)
       .eq('org_id', orgId)
-      .is('deleted_at', null);
+      .is('deleted_at', null)
+      .is('graduated_at', null);
 
     if (studentsError) {
       console.error('❌ Error fetching students:', studentsError);
@@ -80,18 +82,12 @@ export async function handleAssignStudentsClass(
     }
 
     // Update all students' class_id in a single batch operation
-    const { data: updatedStudents, error: updateError } = await adminClient
-      .from('students')
-      .update({
-        class_id: classId,
-        updated_at: new Date().toISOString(),
-      })
-      .in('id', studentIds)
-      .eq('org_id', orgId)
-      .select('id, class_id');
-
-    if (updateError) {
-      console.error('❌ Error updating students:', updateError);
+    let updatedStudents: Array<{ id: string; class_id: string | null }>;
+    try {
+      updatedStudents = await moveStudentsToClass({ orgId, classId, studentIds });
+    } catch (updateError) {
+      if (!(updateError instanceof StudentServiceError)) throw updateError;
+      console.error('❌ Error updating students:', updateError.cause);
       return NextResponse.json(
         { error: 'Failed to assign students to class' },
         { status: 500 },
@@ -5,20 +5,42 @@ import { validateBody, validateQuery } from '@/lib/validation';
 import {
   deleteAttendanceQuerySchema,
   getAttendanceQuerySchema,
+  getAttendanceReportQuerySchema,
+  getPickupPersonsQuerySchema,
   postAttendanceBodySchema,
   putAttendanceBodySchema,
   type DeleteAttendanceQueryParams,
   type GetAttendanceQueryParams,
+  type GetAttendanceReportQueryParams,
+  type GetPickupPersonsQueryParams,
   type PostAttendanceBody,
   type PutAttendanceBody,
 } from '@/lib/validation/attendance';
 import {
   AttendanceServiceError,
+  buildAttendanceReport,
   deleteAttendanceById,
   fetchAttendanceByFilters,
+  fetchAttendanceHistory,
+  recordStatusChanges,
+  resolveArrivedAt,
   upsertAttendance,
   updateAttendance,
 } from '@/lib/services/attendance';
+import { findClosedStudentDays } from '@/lib/services/closureDays';
+import {
+  listAuthorizedPickupPersons,
+  notifyGuardiansOfPickup,
+  PickupServiceError,
+  resolvePickupPersons,
+  type ResolvedPickup,
+} from '@/lib/services/pickup';
+import { getAttachmentHeader, toCsv, toXlsx, type ExportSheet } from '@/lib/utils/exportUtils';
+import type {
+  AttendanceRecord,
+  AttendanceReport,
+  AttendanceSummaryCounts,
+} from '@/lib/types/attendance';
 import type { AuthUser, UserMetadata } from '@/lib/types/auth';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { z } from 'zod';
@@ -28,6 +50,7 @@ import {
   dateSchema,
   notesSchema,
   studentIdSchema,
+  uuidSchema,
 } from '@/lib/validation';
 
 /**
@@ -57,7 +80,21 @@ export async function handleGetAttendance(
   if (!queryValidation.success) {
     return queryValidation.error;
   }
-  const { classId, studentId, date } = queryValidation.data;
+  const { classId, studentId, date, includeHistory } = queryValidation.data;
+
+  // Who changed a record is staff information
+  if (includeHistory && metadata?.activeRole === 'guardian') {
+    return NextResponse.json(
+      { error: 'Attendance history is only available to staff' },
+      { status: 403 },
+    );
+  }
+  if (includeHistory && !studentId) {
+    return NextResponse.json(
+      { error: 'studentId is required when includeHistory is set' },
+      { status: 400 },
+    );
+  }
 
   try {
     const attendance = await fetchAttendanceByFilters({
@@ -67,10 +104,16 @@ export async function handleGetAttendance(
       date,
     });
 
+    const history =
+      includeHistory && studentId
+        ? await fetchAttendanceHistory({ orgId, studentId })
+        : undefined;
+
     return NextResponse.json(
       {
         attendance,
         total: attendance.length,
+        ...(history ? { history } : {}),
       },
       {
         status: 200,
@@ -91,6 +134,54 @@ export async function handleGetAttendance(
   }
 }
 
+/**
+ * A first check-out must name an authorized pickup person, as in the batch
+ * endpoint. Returns the verified person, or undefined when the save is not a
+ * check-out and names no one. Throws PickupServiceError (400) otherwise.
+ */
+async function resolveCheckoutPickup(
+  orgId: string,
+  studentId: string,
+  existingLeftAt: string | null | undefined,
+  body: Pick<PostAttendanceBody, 'left_at' | 'picked_up_by_guardian_id' | 'picked_up_by_relative_id'>,
+): Promise<ResolvedPickup | undefined> {
+  if (!body.left_at) {
+    return undefined;
+  }
+  if (existingLeftAt && !body.picked_up_by_guardian_id && !body.picked_up_by_relative_id) {
+    return undefined;
+  }
+  const resolved = await resolvePickupPersons({
+    orgId,
+    requests: [
+      {
+        student_id: studentId,
+        guardian_id: body.picked_up_by_guardian_id,
+        relative_id: body.picked_up_by_relative_id,
+      },
+    ],
+  });
+  return resolved.get(studentId);
+}
+
+async function notifyCheckout(orgId: string, record: AttendanceRecord, pickup: ResolvedPickup) {
+  try {
+    await notifyGuardiansOfPickup({
+      orgId,
+      pickups: [
+        {
+          student_id: record.student_id,
+          picked_up_by_name: pickup.picked_up_by_name,
+          left_at: record.left_at!,
+        },
+      ],
+    });
+  } catch (notificationError) {
+    // Log error but don't fail the attendance save
+    console.error('Failed to send pickup notifications:', notificationError);
+  }
+}
+
 /**
  * Handler for POST /api/attendance
  * Creates or updates a single attendance record.
@@ -121,12 +212,43 @@ export async function handlePostAttendance(
   }
 
   try {
+    const closed = await findClosedStudentDays(orgId, [bodyValidation.data]);
+    if (closed.length > 0) {
+      return NextResponse.json(
+        { error: 'Attendance cannot be recorded on a closure day' },
+        { status: 400 },
+      );
+    }
+
+    const { data: existing, error: existingError } = await adminClient
+      .from('attendance')
+      .select('left_at')
+      .eq('org_id', orgId)
+      .eq('student_id', bodyValidation.data.student_id)
+      .eq('date', bodyValidation.data.date)
+      .maybeSingle();
+    if (existingError) {
+      throw new AttendanceServiceError('Failed to fetch attendance', existingError);
+    }
+
+    const pickup = await resolveCheckoutPickup(
+      orgId,
+      bodyValidation.data.student_id,
+      existing?.left_at,
+      bodyValidation.data,
+    );
+
     const attendance = await upsertAttendance({
       orgId,
       userId,
       payload: bodyValidation.data,
+      pickup,
     });
 
+    if (pickup && !existing?.left_at) {
+      await notifyCheckout(orgId, attendance, pickup);
+    }
+
     return NextResponse.json(
       {
         attendance,
@@ -135,6 +257,12 @@ export async function handlePostAttendance(
       { status: 201 },
     );
   } catch (err: unknown) {
+    if (err instanceof PickupServiceError && err.status === 400) {
+      return NextResponse.json(
+        { error: err.message, details: err.details },
+        { status: 400 },
+      );
+    }
     console.error('Error saving attendance record', err);
     const isServiceError = err instanceof AttendanceServiceError;
     return NextResponse.json(
@@ -157,8 +285,17 @@ export async function handlePutAttendance(
   user: AuthUser,
   adminClient: SupabaseClient,
 ) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
   const userId = user.id;
 
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
   const rawBody = await request.json();
 
   const bodyValidation = validateBody<PutAttendanceBody>(
@@ -170,11 +307,49 @@ export async function handlePutAttendance(
   }
 
   try {
+    const { data: existing, error: existingError } = await adminClient
+      .from('attendance')
+      .select('student_id, date, left_at')
+      .eq('org_id', orgId)
+      .eq('id', bodyValidation.data.id)
+      .maybeSingle();
+    if (existingError) {
+      throw new AttendanceServiceError('Failed to fetch attendance', existingError);
+    }
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Attendance record not found' },
+        { status: 404 },
+      );
+    }
+
+    const closed = await findClosedStudentDays(orgId, [
+      { student_id: existing.student_id as string, date: existing.date as string },
+    ]);
+    if (closed.length > 0) {
+      return NextResponse.json(
+        { error: 'Attendance cannot be recorded on a closure day' },
+        { status: 400 },
+      );
+    }
+
+    const pickup = await resolveCheckoutPickup(
+      orgId,
+      existing.student_id as string,
+      existing.left_at as string | null,
+      bodyValidation.data,
+    );
+
     const attendance = await updateAttendance({
       userId,
       payload: bodyValidation.data,
+      pickup,
     });
 
+    if (pickup && !existing.left_at) {
+      await notifyCheckout(orgId, attendance, pickup);
+    }
+
     return NextResponse.json(
       {
         attendance,
@@ -183,6 +358,12 @@ export async function handlePutAttendance(
       { status: 200 },
     );
   } catch (err: unknown) {
+    if (err instanceof PickupServiceError && err.status === 400) {
+      return NextResponse.json(
+        { error: err.message, details: err.details },
+        { status: 400 },
+      );
+    }
     console.error('Error updating attendance record', err);
     const isServiceError = err instanceof AttendanceServiceError;
     return NextResponse.json(
@@ -262,6 +443,13 @@ const postBatchAttendanceBodySchema = z.object({
       class_id: classIdSchema.optional().nullable(),
       notes: notesSchema.optional().nullable(),
       left_at: z.string().datetime().nullable().optional(),
+      // Required when a child is checked out (left_at set for the first time)
+      picked_up_by_guardian_id: uuidSchema.nullable().optional(),
+      picked_up_by_relative_id: uuidSchema.nullable().optional(),
+      // Device time of an offline change; kept as the check-in time
+      changed_at: z.string().datetime().nullable().optional(),
+      // Server updated_at an offline change was made against; a record changed since wins over it
+      base_updated_at: z.string().datetime({ offset: true }).nullable().optional(),
     }),
   ).min(1),
 });
@@ -292,19 +480,111 @@ export async function handlePostBatchAttendance(
   if (!bodyValidation.success) {
     return bodyValidation.error;
   }
-  const { records } = bodyValidation.data;
 
-  // Fetch existing records to preserve status when setting left_at
+  // Nothing may be marked on days the organization or class is closed
+  let closedRecords: typeof bodyValidation.data.records;
+  try {
+    closedRecords = await findClosedStudentDays(orgId, bodyValidation.data.records);
+  } catch (err: unknown) {
+    console.error('❌ Error checking closure days:', err);
+    return NextResponse.json(
+      { error: 'Failed to check closure days' },
+      { status: 500 },
+    );
+  }
+  if (closedRecords.length > 0) {
+    return NextResponse.json(
+      {
+        error: 'Attendance cannot be recorded on a closure day',
+        details: closedRecords.map((record) => ({
+          student_id: record.student_id,
+          date: record.date,
+          message: `Closed on ${record.date}`,
+        })),
+      },
+      { status: 400 },
+    );
+  }
+
+  // Fetch existing records to preserve status and pickup details when setting left_at
   const existingRecords = await adminClient
     .from('attendance')
-    .select('student_id, date, status')
-    .in('student_id', records.map(r => r.student_id))
-    .in('date', records.map(r => r.date));
+    .select(
+      'id,org_id,class_id,student_id,date,status,notes,recorded_by,arrived_at,left_at,notice_id,picked_up_by_guardian_id,picked_up_by_relative_id,picked_up_by_name,created_at,updated_at',
+    )
+    .in('student_id', bodyValidation.data.records.map(r => r.student_id))
+    .in('date', bodyValidation.data.records.map(r => r.date));
 
   const existingMap = new Map(
     (existingRecords.data || []).map(r => [`${r.student_id}-${r.date}`, r])
   );
 
+  // Offline changes lose to anything saved on the server since the version they
+  // were made against; the current server record is returned as a conflict instead
+  // of being overwritten. Server timestamps are compared, so device clocks do not matter.
+  const conflicts: AttendanceRecord[] = [];
+  const records = bodyValidation.data.records.filter((record) => {
+    const existing = existingMap.get(`${record.student_id}-${record.date}`);
+    if (
+      record.base_updated_at !== undefined &&
+      existing &&
+      (record.base_updated_at === null ||
+        Date.parse(existing.updated_at) !== Date.parse(record.base_updated_at))
+    ) {
+      conflicts.push(existing as AttendanceRecord);
+      return false;
+    }
+    return true;
+  });
+
+  if (records.length === 0) {
+    return NextResponse.json(
+      {
+        attendance: [],
+        conflicts,
+        message: 'No attendance records saved; all changes were superseded',
+        count: 0,
+      },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  }
+
+  // Children being checked out now must name who collected them from the authorized list
+  const checkouts = records.filter((record) => {
+    const existing = existingMap.get(`${record.student_id}-${record.date}`);
+    return Boolean(record.left_at) && !existing?.left_at;
+  });
+
+  let resolvedPickups: Map<string, ResolvedPickup>;
+  try {
+    resolvedPickups = await resolvePickupPersons({
+      orgId,
+      requests: records
+        .filter(
+          (record) =>
+            checkouts.includes(record) ||
+            (record.left_at && (record.picked_up_by_guardian_id || record.picked_up_by_relative_id)),
+        )
+        .map((record) => ({
+          student_id: record.student_id,
+          guardian_id: record.picked_up_by_guardian_id,
+          relative_id: record.picked_up_by_relative_id,
+        })),
+    });
+  } catch (err: unknown) {
+    if (err instanceof PickupServiceError && err.status === 400) {
+      return NextResponse.json(
+        { error: err.message, details: err.details },
+        { status: 400 },
+      );
+    }
+    console.error('❌ Error verifying pickup persons:', err);
+    return NextResponse.json(
+      { error: 'Failed to verify pickup persons' },
+      { status: 500 },
+    );
+  }
+
   // Prepare records for upsert
   const attendanceRecords = records.map((record) => {
     const key = `${record.student_id}-${record.date}`;
@@ -318,6 +598,23 @@ export async function handlePostBatchAttendance(
       }
     }
 
+    // Pickup details follow left_at: newly verified, cleared with it, or otherwise
+    // kept from the earlier check-out (including when left_at is not sent at all)
+    const keptPickup = {
+      picked_up_by_guardian_id: existing?.picked_up_by_guardian_id ?? null,
+      picked_up_by_relative_id: existing?.picked_up_by_relative_id ?? null,
+      picked_up_by_name: existing?.picked_up_by_name ?? null,
+    };
+    const pickup = record.left_at === null
+      ? {
+          picked_up_by_guardian_id: null,
+          picked_up_by_relative_id: null,
+          picked_up_by_name: null,
+        }
+      : (record.left_at && resolvedPickups.get(record.student_id)) || keptPickup;
+
+    const now = new Date().toISOString();
+
     return {
       org_id: orgId,
       class_id: record.class_id || null,
@@ -325,9 +622,13 @@ export async function handlePostBatchAttendance(
       date: record.date,
       status: finalStatus,
       notes: record.notes || null,
-      left_at: record.left_at !== undefined ? record.left_at : undefined,
+      // Queued offline check-ins keep the time they were made on the device
+      arrived_at: resolveArrivedAt(finalStatus, existing?.arrived_at, record.changed_at ?? now),
+      // Every row in a bulk upsert writes the same columns, so an omitted left_at keeps the stored one
+      left_at: record.left_at !== undefined ? record.left_at : existing?.left_at ?? null,
+      ...pickup,
       recorded_by: userId,
-      updated_at: new Date().toISOString(),
+      updated_at: now,
     };
   });
 
@@ -340,7 +641,7 @@ export async function handlePostBatchAttendance(
       ignoreDuplicates: false,
     })
     .select(
-      'id,org_id,class_id,student_id,date,status,notes,recorded_by,left_at,created_at,updated_at',
+      'id,org_id,class_id,student_id,date,status,notes,recorded_by,arrived_at,left_at,notice_id,picked_up_by_guardian_id,picked_up_by_relative_id,picked_up_by_name,created_at,updated_at',
     );
 
   if (attendanceError) {
@@ -357,9 +658,37 @@ export async function handlePostBatchAttendance(
     `✅ Successfully saved ${attendance?.length || 0} attendance record(s) via batch`,
   );
 
+  await recordStatusChanges(
+    ((attendance || []) as AttendanceRecord[]).map((record) => {
+      const key = `${record.student_id}-${record.date}`;
+      return {
+        record,
+        oldStatus: existingMap.get(key)?.status ?? null,
+        oldLeftAt: existingMap.get(key)?.left_at ?? null,
+        changedAt: records.find((r) => `${r.student_id}-${r.date}` === key)?.changed_at,
+      };
+    }),
+  );
+
+  // Let guardians know who collected their child
+  try {
+    await notifyGuardiansOfPickup({
+      orgId,
+      pickups: checkouts.map((record) => ({
+        student_id: record.student_id,
+        picked_up_by_name: resolvedPickups.get(record.student_id)!.picked_up_by_name,
+        left_at: record.left_at!,
+      })),
+    });
+  } catch (notificationError) {
+    // Log error but don't fail the attendance save
+    console.error('Failed to send pickup notifications:', notificationError);
+  }
+
   return NextResponse.json(
     {
       attendance: attendance || [],
+      conflicts,
       message: `Successfully saved ${attendance?.length || 0} attendance record(s)!`,
       count: attendance?.length || 0,
     },
@@ -367,3 +696,201 @@ export async function handlePostBatchAttendance(
   );
 }
 
+/**
+ * Handler for GET /api/attendance/pickup-persons
+ * Lists guardians and authorized relatives who may collect a student.
+ */
+export async function handleGetPickupPersons(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<GetPickupPersonsQueryParams>(
+    getPickupPersonsQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+
+  try {
+    const persons = await listAuthorizedPickupPersons({
+      orgId,
+      studentId: queryValidation.data.studentId,
+    });
+
+    return NextResponse.json(
+      { persons },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error fetching pickup persons', err);
+    return NextResponse.json(
+      { error: 'Failed to fetch pickup persons' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Resolve the report date range from either a YYYY-MM month or explicit from/to dates
+ */
+function resolveReportRange({ month, from, to }: GetAttendanceReportQueryParams): {
+  from: string;
+  to: string;
+} {
+  if (from && to) {
+    return { from, to };
+  }
+  const [year, monthIndex] = month!.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return {
+    from: `${month}-01`,
+    to: `${month}-${String(lastDay).padStart(2, '0')}`,
+  };
+}
+
+const SUMMARY_HEADERS = [
+  'Recorded days',
+  'Arrived',
+  'Late',
+  'Absent',
+  'Excused',
+  'Away sick',
+  'Away holiday',
+  'Absence rate (%)',
+];
+
+function summaryCells(counts: AttendanceSummaryCounts) {
+  return [
+    counts.recorded_days,
+    counts.arrived,
+    counts.late,
+    counts.absent,
+    counts.excused,
+    counts.away_sick,
+    counts.away_holiday,
+    Math.round(counts.absence_rate * 1000) / 10,
+  ];
+}
+
+function buildReportSheets(report: AttendanceReport): ExportSheet[] {
+  return [
+    {
+      name: 'Classes',
+      headers: ['Class', 'Students', ...SUMMARY_HEADERS],
+      rows: [
+        ...report.classes.map((c) => [
+          c.class_name ?? 'Unassigned',
+          c.student_count,
+          ...summaryCells(c),
+        ]),
+        ['Total', report.students.length, ...summaryCells(report.totals)],
+      ],
+    },
+    {
+      name: 'Students',
+      headers: ['First name', 'Last name', 'Class', ...SUMMARY_HEADERS],
+      rows: report.students.map((s) => [
+        s.first_name,
+        s.last_name,
+        s.class_name ?? 'Unassigned',
+        ...summaryCells(s),
+      ]),
+    },
+  ];
+}
+
+/**
+ * Handler for GET /api/attendance/report
+ * Builds per-class and per-student attendance summaries for a month or date range,
+ * returned as JSON or exported as CSV (student rows) or XLSX (class and student sheets).
+ */
+export async function handleGetAttendanceReport(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<GetAttendanceReportQueryParams>(
+    getAttendanceReportQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+  const { classId, format } = queryValidation.data;
+  const { from, to } = resolveReportRange(queryValidation.data);
+
+  try {
+    const report = await buildAttendanceReport({ orgId, from, to, classId });
+
+    if (format === 'json') {
+      return NextResponse.json(
+        { report },
+        {
+          status: 200,
+          headers: getNoCacheHeaders(),
+        },
+      );
+    }
+
+    const sheets = buildReportSheets(report);
+    const filename = `attendance-report_${from}_${to}`;
+
+    if (format === 'csv') {
+      const studentSheet = sheets[1];
+      return new NextResponse(toCsv(studentSheet.headers, studentSheet.rows), {
+        status: 200,
+        headers: {
+          ...getNoCacheHeaders(),
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': getAttachmentHeader(`${filename}.csv`),
+        },
+      });
+    }
+
+    const workbook = await toXlsx(sheets);
+    return new NextResponse(new Uint8Array(workbook), {
+      status: 200,
+      headers: {
+        ...getNoCacheHeaders(),
+        'Content-Type':
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': getAttachmentHeader(`${filename}.xlsx`),
+      },
+    });
+  } catch (err: unknown) {
+    console.error('Error building attendance report', err);
+    const isServiceError = err instanceof AttendanceServiceError;
+    return NextResponse.json(
+      {
+        error: isServiceError
+          ? 'Failed to build attendance report'
+          : 'Unexpected error while building attendance report',
+      },
+      { status: 500 },
+    );
+  }
+}
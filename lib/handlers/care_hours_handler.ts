@@ -0,0 +1,139 @@
+import { NextResponse } from 'next/server';
+
+import { getNoCacheHeaders } from '@/lib/cacheConfig';
+import { validateQuery } from '@/lib/validation';
+import {
+  getCareHoursQuerySchema,
+  type GetCareHoursQueryParams,
+} from '@/lib/validation/attendance';
+import { buildCareHoursReport, CareHoursServiceError } from '@/lib/services/careHours';
+import { AttendanceServiceError } from '@/lib/services/attendance';
+import { getAttachmentHeader, toCsv, toXlsx, type ExportSheet } from '@/lib/utils/exportUtils';
+import type { CareHoursReport, CareHoursTotals } from '@/lib/types/attendance';
+import type { AuthUser, UserMetadata } from '@/lib/types/auth';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const TOTALS_HEADERS = ['Days in care', 'Days without check-out', 'Hours', 'Barngildi-weighted hours'];
+
+function totalsCells(totals: CareHoursTotals) {
+  return [totals.days_in_care, totals.open_days, totals.hours, totals.weighted_hours];
+}
+
+function buildCareHoursSheets(report: CareHoursReport): ExportSheet[] {
+  return [
+    {
+      name: 'Classes',
+      headers: ['Class', 'Students', ...TOTALS_HEADERS],
+      rows: [
+        ...report.classes.map((c) => [c.class_name ?? 'Unassigned', c.student_count, ...totalsCells(c)]),
+        ['Total', report.students.length, ...totalsCells(report.totals)],
+      ],
+    },
+    {
+      name: 'Students',
+      headers: ['First name', 'Last name', 'Class', 'Barngildi', ...TOTALS_HEADERS],
+      rows: report.students.map((s) => [
+        s.first_name,
+        s.last_name,
+        s.class_name ?? 'Unassigned',
+        s.barngildi,
+        ...totalsCells(s),
+      ]),
+    },
+    {
+      name: 'Days',
+      headers: ['First name', 'Last name', 'Date', 'Arrived at', 'Left at', 'Hours', 'Weighted hours'],
+      rows: report.students.flatMap((s) =>
+        s.days.map((d) => [
+          s.first_name,
+          s.last_name,
+          d.date,
+          d.arrived_at,
+          d.left_at,
+          d.hours,
+          d.hours === null ? null : Math.round(d.hours * s.barngildi * 100) / 100,
+        ]),
+      ),
+    },
+  ];
+}
+
+/**
+ * Handler for GET /api/attendance/care-hours
+ * Daily and monthly hours in care weighted by barngildi, with per-class totals,
+ * returned as JSON or exported as CSV (student rows) or XLSX (class, student and day sheets).
+ */
+export async function handleGetCareHours(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<GetCareHoursQueryParams>(
+    getCareHoursQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+  const { month, classId, studentId, format } = queryValidation.data;
+
+  try {
+    const report = await buildCareHoursReport({ orgId, month, classId, studentId });
+
+    if (format === 'json') {
+      return NextResponse.json(
+        { report },
+        { status: 200, headers: getNoCacheHeaders() },
+      );
+    }
+
+    const sheets = buildCareHoursSheets(report);
+    const filename = `care-hours_${month}`;
+
+    if (format === 'csv') {
+      const studentSheet = sheets[1];
+      return new NextResponse(toCsv(studentSheet.headers, studentSheet.rows), {
+        status: 200,
+        headers: {
+          ...getNoCacheHeaders(),
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': getAttachmentHeader(`${filename}.csv`),
+        },
+      });
+    }
+
+    const workbook = await toXlsx(sheets);
+    return new NextResponse(new Uint8Array(workbook), {
+      status: 200,
+      headers: {
+        ...getNoCacheHeaders(),
+        'Content-Type':
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': getAttachmentHeader(`${filename}.xlsx`),
+      },
+    });
+  } catch (err: unknown) {
+    console.error('Error building care hours report', err);
+    const isServiceError =
+      err instanceof CareHoursServiceError || err instanceof AttendanceServiceError;
+    return NextResponse.json(
+      {
+        error: isServiceError
+          ? 'Failed to build care hours report'
+          : 'Unexpected error while building care hours report',
+      },
+      { status: 500 },
+    );
+  }
+}
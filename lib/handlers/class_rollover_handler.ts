@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+
+import { getNoCacheHeaders } from '@/lib/cacheConfig';
+import { validateBody } from '@/lib/validation';
+import {
+  postClassRolloverBodySchema,
+  type PostClassRolloverBody,
+} from '@/lib/validation/classes';
+import {
+  ClassRolloverServiceError,
+  applyClassRollover,
+  expireGuardianAccess,
+  previewClassRollover,
+} from '@/lib/services/classRollover';
+import { isAuthorizedCronRequest } from '@/lib/utils/cronAuth';
+import { serviceErrorResponse } from '@/lib/utils/serviceErrors';
+import type { AuthUser, UserMetadata } from '@/lib/types/auth';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Handler for POST /api/classes/rollover
+ * mode 'preview' reports what would happen; mode 'apply' does it.
+ */
+export async function handlePostClassRollover(
+  request: Request,
+  user: AuthUser,
+  _adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const rawBody = await request.json().catch(() => ({}));
+  const bodyValidation = validateBody<PostClassRolloverBody>(postClassRolloverBodySchema, rawBody);
+  if (!bodyValidation.success) {
+    return bodyValidation.error;
+  }
+  const body = bodyValidation.data;
+
+  try {
+    if (body.mode === 'preview') {
+      const preview = await previewClassRollover({ orgId, body });
+      return NextResponse.json(
+        { preview },
+        { status: 200, headers: getNoCacheHeaders() },
+      );
+    }
+
+    const rollover = await applyClassRollover({ orgId, performedBy: user.id, body });
+    return NextResponse.json(
+      { preview: rollover, message: 'Class rollover applied' },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error running class rollover', err);
+    return serviceErrorResponse(
+      err,
+      body.mode === 'preview' ? 'Failed to preview class rollover' : 'Failed to apply class rollover',
+      'Unexpected error while running class rollover',
+    );
+  }
+}
+
+/**
+ * Handler for GET /api/cron/guardian-access
+ * Removes guardian links to graduated children once their grace period ends.
+ */
+export async function handleRunGuardianAccessExpiry(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const removed = await expireGuardianAccess();
+    return NextResponse.json(
+      { links_removed: removed },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error expiring guardian access', err);
+    return NextResponse.json(
+      {
+        error: err instanceof ClassRolloverServiceError
+          ? err.message
+          : 'Unexpected error while expiring guardian access',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,173 @@
+import { NextResponse } from 'next/server';
+
+import { getNoCacheHeaders } from '@/lib/cacheConfig';
+import { validateBody, validateQuery } from '@/lib/validation';
+import {
+  deleteClosureDayQuerySchema,
+  getClosureDaysQuerySchema,
+  postClosureDayBodySchema,
+  type DeleteClosureDayQueryParams,
+  type GetClosureDaysQueryParams,
+  type PostClosureDayBody,
+} from '@/lib/validation/attendance';
+import {
+  createClosureDay,
+  deleteClosureDay,
+  listClosureDays,
+} from '@/lib/services/closureDays';
+import { serviceErrorResponse } from '@/lib/utils/serviceErrors';
+import type { AuthUser, SamveraRole, UserMetadata } from '@/lib/types/auth';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Handler for GET /api/attendance/closures
+ * Staff see all closures in their organization, optionally for one class;
+ * guardians see org-wide closures and those of their children's classes.
+ */
+export async function handleGetClosureDays(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<GetClosureDaysQueryParams>(
+    getClosureDaysQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+  const { from, to, classId } = queryValidation.data;
+
+  const isStaff = roles.some((role) => ['principal', 'admin', 'teacher'].includes(role));
+
+  try {
+    let classIds: string[] | undefined = classId ? [classId] : undefined;
+
+    if (!isStaff) {
+      const { data: relationships, error: relError } = await adminClient
+        .from('guardian_students')
+        .select('students!guardian_students_student_id_fkey (class_id)')
+        .eq('guardian_id', user.id);
+
+      if (relError) {
+        console.error('❌ Error fetching guardian-student relationships:', relError);
+        return NextResponse.json(
+          { error: 'Failed to fetch linked students' },
+          { status: 500 },
+        );
+      }
+
+      classIds = [
+        ...new Set(
+          ((relationships || []) as unknown as Array<{ students: { class_id: string | null } | null }>)
+            .map((r) => r.students?.class_id)
+            .filter((id): id is string => Boolean(id)),
+        ),
+      ];
+    }
+
+    const closures = await listClosureDays({
+      orgId,
+      fromDate: from,
+      toDate: to,
+      classIds,
+    });
+
+    return NextResponse.json(
+      { closures, total: closures.length },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error fetching closure days', err);
+    return serviceErrorResponse(err, 'Failed to fetch closure days', 'Unexpected error while fetching closure days');
+  }
+}
+
+/**
+ * Handler for POST /api/attendance/closures
+ * Principal marks days the organization or a class is closed.
+ */
+export async function handlePostClosureDay(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const orgId = (user.user_metadata as UserMetadata | undefined)?.org_id;
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const rawBody = await request.json();
+  const bodyValidation = validateBody<PostClosureDayBody>(postClosureDayBodySchema, rawBody);
+  if (!bodyValidation.success) {
+    return bodyValidation.error;
+  }
+
+  try {
+    const closure = await createClosureDay({
+      orgId,
+      userId: user.id,
+      payload: bodyValidation.data,
+    });
+    return NextResponse.json(
+      { closure, message: 'Closure saved' },
+      { status: 201, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error saving closure day', err);
+    return serviceErrorResponse(err, 'Failed to save closure day', 'Unexpected error while saving closure day');
+  }
+}
+
+/**
+ * Handler for DELETE /api/attendance/closures
+ * Removes a closure so attendance can be marked on its days again.
+ */
+export async function handleDeleteClosureDay(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const orgId = (user.user_metadata as UserMetadata | undefined)?.org_id;
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<DeleteClosureDayQueryParams>(
+    deleteClosureDayQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+
+  try {
+    await deleteClosureDay({ orgId, id: queryValidation.data.id });
+    return NextResponse.json(
+      { message: 'Closure removed' },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error deleting closure day', err);
+    return serviceErrorResponse(err, 'Failed to delete closure day', 'Unexpected error while deleting closure day');
+  }
+}
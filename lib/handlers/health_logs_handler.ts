@@ -1,12 +1,26 @@
 import { NextResponse } from 'next/server';
 
-import { getStableDataCacheHeaders } from '@/lib/cacheConfig';
-import { validateBody, validateQuery, uuidSchema, studentIdSchema } from '@/lib/validation';
+import { getNoCacheHeaders, getStableDataCacheHeaders } from '@/lib/cacheConfig';
+import { validateBody, validateQuery, uuidSchema, studentIdSchema, formatZodError } from '@/lib/validation';
 import {
+  createBatchHealthLogsSchema,
   createHealthLogSchema,
+  napDetailsSchema,
   updateHealthLogSchema,
 } from '@/lib/validation';
+import { injuryDetailsSchema } from '@/lib/validation/incidents';
+import { symptomDetailsSchema } from '@/lib/validation/outbreaks';
+import {
+  IncidentReportServiceError,
+  assertIncidentLogEditable,
+  discardPendingIncidentReport,
+  openIncidentReport,
+} from '@/lib/services/incidentReports';
+import { FeverAlertServiceError, getTemperatureTrend, sendFeverAlert } from '@/lib/services/feverAlerts';
+import { CareSummaryServiceError, getCareSummaries } from '@/lib/services/careSummary';
 import type { AuthUser, SamveraRole, UserMetadata } from '@/lib/types/auth';
+import type { HealthLogType } from '@/lib/types/health-logs';
+import type { IncidentReport } from '@/lib/types/incidents';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { z } from 'zod';
 
@@ -27,6 +41,18 @@ const getHealthLogsQuerySchema = z.object({
   ]).optional(),
 });
 
+// GET temperature trend query parameter schema
+const getTemperatureTrendQuerySchema = z.object({
+  studentId: studentIdSchema,
+  days: z.coerce.number().int().min(1).max(90).default(14),
+});
+
+// GET care summary query parameter schema; guardians get all their children
+const getCareSummaryQuerySchema = z.object({
+  studentId: studentIdSchema.optional(),
+  days: z.coerce.number().int().min(1).max(31).default(7),
+});
+
 // DELETE query parameter schema
 const deleteHealthLogQuerySchema = z.object({
   id: uuidSchema,
@@ -200,6 +226,76 @@ export async function handleGetHealthLogs(
   }
 }
 
+/**
+ * Injury logs carry the structured details of their incident report in data
+ */
+function validateInjuryData(data: unknown) {
+  return validateBody(injuryDetailsSchema, data ?? {});
+}
+
+/**
+ * Incident report checks surface with the health log error shape
+ */
+async function assertInjuryEditable(orgId: string, healthLogId: string) {
+  try {
+    await assertIncidentLogEditable(orgId, healthLogId);
+  } catch (error) {
+    if (error instanceof IncidentReportServiceError) {
+      throw new HealthLogsServiceError(error.message, error.status, { error: error.message });
+    }
+    throw error;
+  }
+}
+
+const INCIDENT_REPORT_FAILED =
+  'The injury was saved, but its incident report could not be opened. Please contact a principal.';
+
+/**
+ * Open the incident report for a new injury log. The log itself is already
+ * saved, so a failure is returned for the response instead of failing the request.
+ */
+async function openInjuryReport(
+  orgId: string,
+  healthLog: { id: string; student_id: string },
+  userId: string,
+): Promise<{ report: IncidentReport | null; error: string | null }> {
+  try {
+    const report = await openIncidentReport({
+      orgId,
+      healthLogId: healthLog.id,
+      studentId: healthLog.student_id,
+      reportedBy: userId,
+    });
+    return { report, error: null };
+  } catch (error) {
+    console.error('Failed to open incident report for injury log', error);
+    return { report: null, error: INCIDENT_REPORT_FAILED };
+  }
+}
+
+/**
+ * Alert guardians and staff about a fever reading. The log itself is already
+ * saved, so a failure here is logged rather than failing the request.
+ */
+async function alertOnFever(
+  orgId: string,
+  healthLog: {
+    id: string;
+    student_id: string;
+    class_id: string | null;
+    temperature_celsius: number | null;
+    recorded_at: string;
+  },
+  userId: string,
+) {
+  try {
+    return await sendFeverAlert({ orgId, reading: healthLog, recordedBy: userId });
+  } catch (error) {
+    console.error('Failed to send fever alert for temperature log', error);
+    return false;
+  }
+}
+
 /**
  * Handler for POST /api/health-logs
  * Creates a new health log
@@ -229,6 +325,22 @@ export async function handlePostHealthLog(
     severity,
   } = bodyValidation.data;
 
+  let finalData = data;
+  if (type === 'injury') {
+    const injuryValidation = validateInjuryData(data);
+    if (!injuryValidation.success) {
+      return injuryValidation.error;
+    }
+    finalData = injuryValidation.data;
+  } else if (type === 'symptom') {
+    // Ticked symptoms feed outbreak detection
+    const symptomValidation = validateBody(symptomDetailsSchema, data ?? {});
+    if (!symptomValidation.success) {
+      return symptomValidation.error;
+    }
+    finalData = symptomValidation.data;
+  }
+
   try {
     // Ensure class_id is null if not provided or empty string
     const finalClassId = class_id && class_id.trim() !== '' ? class_id : null;
@@ -274,7 +386,7 @@ export async function handlePostHealthLog(
         type,
         recorded_at,
         temperature_celsius: temperature_celsius || null,
-        data: data || {},
+        data: finalData || {},
         notes: notes || null,
         severity: severity || null,
         recorded_by: userId, // Always use authenticated user
@@ -307,9 +419,17 @@ export async function handlePostHealthLog(
       );
     }
 
+    const injury =
+      type === 'injury' ? await openInjuryReport(orgId, inserted, userId) : null;
+    const feverAlert =
+      type === 'temperature' ? await alertOnFever(orgId, inserted, userId) : false;
+
     return NextResponse.json(
       {
         healthLog: inserted,
+        incidentReport: injury?.report ?? null,
+        incidentReportError: injury?.error ?? null,
+        feverAlert,
         message: 'Health log created successfully!',
       },
       { status: 201 },
@@ -326,6 +446,201 @@ export async function handlePostHealthLog(
   }
 }
 
+/**
+ * Schema for the type-specific details a health log keeps in data
+ */
+function detailsSchemaFor(type: HealthLogType) {
+  switch (type) {
+    case 'injury':
+      return injuryDetailsSchema;
+    case 'symptom':
+      return symptomDetailsSchema;
+    case 'nap':
+      return napDetailsSchema;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Handler for POST /api/health-logs/batch
+ * Creates one health log per child in a single insert. Entries share the
+ * type, time and details of the batch unless they override them, and every
+ * entry is validated before anything is saved.
+ */
+export async function handlePostBatchHealthLogs(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata;
+  const orgId = metadata.org_id;
+  const userId = user.id;
+
+  const body = await request.json();
+  const bodyValidation = validateBody(createBatchHealthLogsSchema, body);
+  if (!bodyValidation.success) {
+    return bodyValidation.error;
+  }
+  const { class_id, entries, ...shared } = bodyValidation.data;
+
+  // Resolve each child's log from the shared fields and its overrides
+  const details: Array<{ student_id: string; message: string }> = [];
+  const logs = entries.map((entry) => {
+    const type = entry.type ?? shared.type;
+    const recordedAt = entry.recorded_at ?? shared.recorded_at;
+    let data: Record<string, unknown> = { ...(shared.data ?? {}), ...(entry.data ?? {}) };
+
+    const schema = detailsSchemaFor(type);
+    if (schema) {
+      const parsed = schema.safeParse(data);
+      if (parsed.success) {
+        data = parsed.data;
+      } else {
+        details.push({ student_id: entry.student_id, message: formatZodError(parsed.error) });
+      }
+    }
+    if (type === 'nap' && typeof data.ended_at === 'string' && Date.parse(data.ended_at) < Date.parse(recordedAt)) {
+      details.push({ student_id: entry.student_id, message: 'Nap cannot end before it starts' });
+    }
+
+    return {
+      student_id: entry.student_id,
+      type,
+      recorded_at: recordedAt,
+      temperature_celsius:
+        entry.temperature_celsius !== undefined ? entry.temperature_celsius : shared.temperature_celsius,
+      data,
+      notes: entry.notes !== undefined ? entry.notes : shared.notes,
+      severity: entry.severity !== undefined ? entry.severity : shared.severity,
+    };
+  });
+
+  if (details.length > 0) {
+    return NextResponse.json(
+      { error: 'Validation failed', details },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const studentIds = logs.map((log) => log.student_id);
+    const { data: students, error: studentsError } = await adminClient
+      .from('students')
+      .select('id, class_id, org_id')
+      .in('id', studentIds);
+
+    if (studentsError) {
+      throw new HealthLogsServiceError(
+        `Failed to fetch students: ${studentsError.message}`,
+        500,
+        { error: `Failed to fetch students: ${studentsError.message}` },
+      );
+    }
+
+    const studentMap = new Map(
+      ((students ?? []) as Array<{ id: string; class_id: string | null; org_id: string }>).map((s) => [s.id, s]),
+    );
+    const foreign = studentIds.filter((id) => studentMap.get(id)?.org_id !== orgId);
+    if (foreign.length > 0) {
+      throw new HealthLogsServiceError(
+        'Student does not belong to your organization.',
+        403,
+        {
+          error: 'Student does not belong to your organization.',
+          details: foreign.map((student_id) => ({
+            student_id,
+            message: 'Student does not belong to your organization.',
+          })),
+        },
+      );
+    }
+
+    // Each log is filed under the child's own class, which also decides whose teachers
+    // get fever alerts; the batch class is only used for children without one
+    const fallbackClassId = class_id && class_id.trim() !== '' ? class_id : null;
+
+    // A single insert saves every log or none of them
+    const { data: inserted, error: insertError } = await adminClient
+      .from('health_logs')
+      .insert(
+        logs.map((log) => ({
+          org_id: orgId,
+          class_id: studentMap.get(log.student_id)?.class_id ?? fallbackClassId,
+          student_id: log.student_id,
+          type: log.type,
+          recorded_at: log.recorded_at,
+          temperature_celsius: log.temperature_celsius || null,
+          data: log.data,
+          notes: log.notes || null,
+          severity: log.severity || null,
+          recorded_by: userId,
+          deleted_at: null,
+        })),
+      )
+      .select(
+        `
+        id,
+        org_id,
+        class_id,
+        student_id,
+        type,
+        recorded_at,
+        temperature_celsius,
+        data,
+        notes,
+        severity,
+        recorded_by,
+        created_at,
+        updated_at
+      `,
+      );
+
+    if (insertError) {
+      throw new HealthLogsServiceError(
+        `Failed to create health logs: ${insertError.message}`,
+        500,
+        { error: `Failed to create health logs: ${insertError.message}` },
+      );
+    }
+
+    const healthLogs = inserted ?? [];
+    const incidentReports: IncidentReport[] = [];
+    const incidentReportErrors: Array<{ student_id: string; message: string }> = [];
+    let feverAlerts = 0;
+    for (const healthLog of healthLogs) {
+      if (healthLog.type === 'injury') {
+        const { report, error } = await openInjuryReport(orgId, healthLog, userId);
+        if (report) incidentReports.push(report);
+        if (error) incidentReportErrors.push({ student_id: healthLog.student_id, message: error });
+      } else if (healthLog.type === 'temperature' && (await alertOnFever(orgId, healthLog, userId))) {
+        feverAlerts++;
+      }
+    }
+
+    return NextResponse.json(
+      {
+        healthLogs,
+        incidentReports,
+        incidentReportErrors,
+        feverAlerts,
+        count: healthLogs.length,
+        message: 'Health logs created successfully!',
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    if (error instanceof HealthLogsServiceError) {
+      return NextResponse.json(error.body, { status: error.status });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create health logs' },
+      { status: 500 },
+    );
+  }
+}
+
 /**
  * Handler for PUT /api/health-logs
  * Updates an existing health log
@@ -352,7 +667,7 @@ export async function handlePutHealthLog(
     // Verify ownership and org access
     const { data: existing, error: fetchError } = await adminClient
       .from('health_logs')
-      .select('recorded_by, org_id')
+      .select('recorded_by, org_id, type, student_id, temperature_celsius')
       .eq('id', id)
       .is('deleted_at', null)
       .single();
@@ -387,6 +702,41 @@ export async function handlePutHealthLog(
       );
     }
 
+    if (existing.type === 'injury') {
+      await assertInjuryEditable(orgId, id);
+      if (type !== undefined && type !== 'injury') {
+        throw new HealthLogsServiceError(
+          'The type of an injury log cannot be changed.',
+          409,
+          { error: 'The type of an injury log cannot be changed.' },
+        );
+      }
+      // The incident report and its guardian acknowledgement belong to this child
+      if (student_id !== undefined && student_id !== existing.student_id) {
+        throw new HealthLogsServiceError(
+          'The child of an injury log cannot be changed.',
+          409,
+          { error: 'The child of an injury log cannot be changed.' },
+        );
+      }
+    }
+
+    const becomesInjury = existing.type !== 'injury' && type === 'injury';
+    let finalData = data;
+    if (becomesInjury || (existing.type === 'injury' && data !== undefined)) {
+      const injuryValidation = validateInjuryData(data);
+      if (!injuryValidation.success) {
+        return injuryValidation.error;
+      }
+      finalData = injuryValidation.data;
+    } else if ((type ?? existing.type) === 'symptom' && data !== undefined) {
+      const symptomValidation = validateBody(symptomDetailsSchema, data ?? {});
+      if (!symptomValidation.success) {
+        return symptomValidation.error;
+      }
+      finalData = symptomValidation.data;
+    }
+
     // Build update payload (only include fields that are provided)
     const updatePayload: any = {};
     if (student_id !== undefined) updatePayload.student_id = student_id;
@@ -394,7 +744,7 @@ export async function handlePutHealthLog(
     if (recorded_at !== undefined) updatePayload.recorded_at = recorded_at;
     if (temperature_celsius !== undefined)
       updatePayload.temperature_celsius = temperature_celsius || null;
-    if (data !== undefined) updatePayload.data = data || {};
+    if (finalData !== undefined) updatePayload.data = finalData || {};
     if (notes !== undefined) updatePayload.notes = notes || null;
     if (severity !== undefined) updatePayload.severity = severity || null;
 
@@ -436,9 +786,23 @@ export async function handlePutHealthLog(
       });
     }
 
+    const injury = becomesInjury ? await openInjuryReport(orgId, updated, userId) : null;
+    // Only a new or corrected reading alerts; saving notes on a fever log does not re-alert
+    const readingChanged =
+      existing.type !== 'temperature' ||
+      existing.student_id !== updated.student_id ||
+      Number(existing.temperature_celsius) !== Number(updated.temperature_celsius);
+    const feverAlert =
+      updated.type === 'temperature' && readingChanged
+        ? await alertOnFever(orgId, updated, userId)
+        : false;
+
     return NextResponse.json(
       {
         healthLog: updated,
+        incidentReport: injury?.report ?? null,
+        incidentReportError: injury?.error ?? null,
+        feverAlert,
         message: 'Health log updated successfully!',
       },
       { status: 200 },
@@ -480,7 +844,7 @@ export async function handleDeleteHealthLog(
     // Verify ownership and org access
     const { data: existing, error: fetchError } = await adminClient
       .from('health_logs')
-      .select('recorded_by, org_id')
+      .select('recorded_by, org_id, type, student_id')
       .eq('id', id)
       .is('deleted_at', null)
       .single();
@@ -515,6 +879,10 @@ export async function handleDeleteHealthLog(
       );
     }
 
+    if (existing.type === 'injury') {
+      await assertInjuryEditable(orgId, id);
+    }
+
     // Soft delete by setting deleted_at
     const { error } = await adminClient
       .from('health_logs')
@@ -529,6 +897,14 @@ export async function handleDeleteHealthLog(
       );
     }
 
+    if (existing.type === 'injury') {
+      try {
+        await discardPendingIncidentReport(orgId, id);
+      } catch (discardError) {
+        console.error('Failed to discard incident report for deleted injury log', discardError);
+      }
+    }
+
     return NextResponse.json(
       {
         message: 'Health log deleted successfully!',
@@ -547,3 +923,140 @@ export async function handleDeleteHealthLog(
   }
 }
 
+
+/**
+ * Handler for GET /api/health-logs/temperature-trend
+ * A student's temperature readings with the organization's fever threshold.
+ * Guardians only see their linked children.
+ */
+export async function handleGetTemperatureTrend(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata;
+  const orgId = metadata.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery(getTemperatureTrendQuerySchema, searchParams);
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+  const { studentId, days } = queryValidation.data;
+
+  try {
+    const isStaff = roles.some((role) => ['admin', 'principal', 'teacher'].includes(role));
+    if (!isStaff) {
+      const { data: link, error: linkError } = await adminClient
+        .from('guardian_students')
+        .select('id')
+        .eq('guardian_id', user.id)
+        .eq('student_id', studentId)
+        .maybeSingle();
+
+      if (linkError) {
+        throw new HealthLogsServiceError('Failed to verify guardian link', 500, {
+          error: 'Failed to verify guardian link',
+        });
+      }
+      if (!link) {
+        throw new HealthLogsServiceError('Student not found', 404, { error: 'Student not found' });
+      }
+    }
+
+    const trend = await getTemperatureTrend({ orgId, studentId, days });
+
+    return NextResponse.json(
+      { trend },
+      {
+        status: 200,
+        headers: getNoCacheHeaders(),
+      },
+    );
+  } catch (error) {
+    if (error instanceof HealthLogsServiceError) {
+      return NextResponse.json(error.body, { status: error.status });
+    }
+    if (error instanceof FeverAlertServiceError && error.status < 500) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch temperature trend' },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Handler for GET /api/health-logs/care-summary
+ * Daily diapers, naps, meals and temperatures per child with their usual
+ * pattern. Guardians get their linked children, staff name a student.
+ */
+export async function handleGetCareSummary(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata;
+  const orgId = metadata.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery(getCareSummaryQuerySchema, searchParams);
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+  const { studentId, days } = queryValidation.data;
+
+  try {
+    let studentIds: string[];
+    const isStaff = roles.some((role) => ['admin', 'principal', 'teacher'].includes(role));
+    if (isStaff) {
+      if (!studentId) {
+        throw new HealthLogsServiceError('studentId is required', 400, { error: 'studentId is required' });
+      }
+      studentIds = [studentId];
+    } else {
+      const { data: relationships, error: relError } = await adminClient
+        .from('guardian_students')
+        .select('student_id')
+        .eq('guardian_id', user.id);
+
+      if (relError) {
+        throw new HealthLogsServiceError('Failed to verify guardian link', 500, {
+          error: 'Failed to verify guardian link',
+        });
+      }
+
+      const linkedStudentIds = ((relationships ?? []) as Array<{ student_id: string }>).map((r) => r.student_id);
+      if (studentId && !linkedStudentIds.includes(studentId)) {
+        throw new HealthLogsServiceError('Student not found', 404, { error: 'Student not found' });
+      }
+      studentIds = studentId ? [studentId] : linkedStudentIds;
+    }
+
+    const summaries = await getCareSummaries({ orgId, studentIds, days });
+
+    return NextResponse.json(
+      { summaries },
+      {
+        status: 200,
+        headers: getNoCacheHeaders(),
+      },
+    );
+  } catch (error) {
+    if (error instanceof HealthLogsServiceError) {
+      return NextResponse.json(error.body, { status: error.status });
+    }
+    if (error instanceof CareSummaryServiceError && error.status < 500) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch care summary' },
+      { status: 500 },
+    );
+  }
+}
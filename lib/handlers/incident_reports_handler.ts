@@ -0,0 +1,292 @@
+import { NextResponse } from 'next/server';
+
+import { getNoCacheHeaders } from '@/lib/cacheConfig';
+import { validateBody, validateQuery } from '@/lib/validation';
+import {
+  getIncidentPdfQuerySchema,
+  getIncidentReportsQuerySchema,
+  postIncidentReviewBodySchema,
+  type GetIncidentPdfQueryParams,
+  type GetIncidentReportsQueryParams,
+  type PostIncidentReviewBody,
+} from '@/lib/validation/incidents';
+import {
+  IncidentReportServiceError,
+  acknowledgeIncidentReport,
+  buildIncidentReportPdf,
+  getIncidentReport,
+  listIncidentReports,
+  reviewIncidentReport,
+} from '@/lib/services/incidentReports';
+import { getInlinePdfHeader } from '@/lib/utils/pdfUtils';
+import { isStaffRole } from '@/lib/utils/roles';
+import { serviceErrorResponse } from '@/lib/utils/serviceErrors';
+import type { AuthUser, SamveraRole, UserMetadata } from '@/lib/types/auth';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Students a non-staff user may see reports for, or undefined for staff
+ */
+async function getVisibleStudentIds(
+  user: AuthUser,
+  roles: SamveraRole[],
+  adminClient: SupabaseClient,
+): Promise<string[] | undefined> {
+  if (isStaffRole(roles)) {
+    return undefined;
+  }
+
+  const { data: relationships, error: relError } = await adminClient
+    .from('guardian_students')
+    .select('student_id')
+    .eq('guardian_id', user.id);
+
+  if (relError) {
+    console.error('❌ Error fetching guardian-student relationships:', relError);
+    throw new IncidentReportServiceError('Failed to fetch linked students', 500, relError);
+  }
+
+  return (relationships || [])
+    .map((r: { student_id: string | null }) => r.student_id)
+    .filter((id): id is string => Boolean(id));
+}
+
+/**
+ * Handler for GET /api/incidents
+ * Staff see all reports in their organization; guardians see reports
+ * about their linked children once the principal has sent them.
+ */
+export async function handleGetIncidentReports(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<GetIncidentReportsQueryParams>(
+    getIncidentReportsQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+  const { status, studentId } = queryValidation.data;
+
+  try {
+    const visibleStudentIds = await getVisibleStudentIds(user, roles, adminClient);
+    let studentIds = visibleStudentIds;
+    if (studentId) {
+      studentIds = visibleStudentIds ? visibleStudentIds.filter((id) => id === studentId) : [studentId];
+    }
+
+    const reports = await listIncidentReports({
+      orgId,
+      studentIds,
+      status,
+      sentOnly: visibleStudentIds !== undefined,
+    });
+
+    return NextResponse.json(
+      { reports, total: reports.length },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error fetching incident reports', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to fetch incident reports',
+      'Unexpected error while fetching incident reports',
+    );
+  }
+}
+
+/**
+ * Handler for GET /api/incidents/[id]
+ * Returns one report with its full status history.
+ */
+export async function handleGetIncidentReport(
+  _request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+  id: string,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const studentIds = await getVisibleStudentIds(user, roles, adminClient);
+    const report = await getIncidentReport({ orgId, id, studentIds });
+
+    return NextResponse.json(
+      { report },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error fetching incident report', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to fetch incident report',
+      'Unexpected error while fetching incident report',
+    );
+  }
+}
+
+/**
+ * Handler for POST /api/incidents/[id]/review
+ * Principal approves the report and sends it to the child's guardians.
+ */
+export async function handlePostIncidentReview(
+  request: Request,
+  user: AuthUser,
+  _adminClient: SupabaseClient,
+  id: string,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const rawBody = await request.json().catch(() => ({}));
+  const bodyValidation = validateBody<PostIncidentReviewBody>(
+    postIncidentReviewBodySchema,
+    rawBody,
+  );
+  if (!bodyValidation.success) {
+    return bodyValidation.error;
+  }
+
+  try {
+    const report = await reviewIncidentReport({
+      orgId,
+      id,
+      reviewerId: user.id,
+      notes: bodyValidation.data.notes,
+    });
+
+    return NextResponse.json(
+      { report, message: 'Incident report sent to guardians' },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error reviewing incident report', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to review incident report',
+      'Unexpected error while reviewing incident report',
+    );
+  }
+}
+
+/**
+ * Handler for POST /api/incidents/[id]/acknowledge
+ * Guardian confirms they have read the report.
+ */
+export async function handlePostIncidentAcknowledge(
+  _request: Request,
+  user: AuthUser,
+  _adminClient: SupabaseClient,
+  id: string,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const report = await acknowledgeIncidentReport({ orgId, id, guardianId: user.id });
+
+    return NextResponse.json(
+      { report, message: 'Incident report acknowledged' },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error acknowledging incident report', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to acknowledge incident report',
+      'Unexpected error while acknowledging incident report',
+    );
+  }
+}
+
+/**
+ * Handler for GET /api/incidents/[id]/pdf
+ * Printable report, in Icelandic unless lang=en is given.
+ */
+export async function handleGetIncidentReportPdf(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+  id: string,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<GetIncidentPdfQueryParams>(
+    getIncidentPdfQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+
+  try {
+    const studentIds = await getVisibleStudentIds(user, roles, adminClient);
+    const report = await getIncidentReport({ orgId, id, studentIds });
+    const pdf = buildIncidentReportPdf(report, queryValidation.data.lang ?? 'is');
+    const date = (report.health_logs?.recorded_at ?? report.created_at).slice(0, 10);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        ...getNoCacheHeaders(),
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': getInlinePdfHeader(`incident-report-${date}.pdf`),
+      },
+    });
+  } catch (err: unknown) {
+    console.error('Error generating incident report PDF', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to generate incident report PDF',
+      'Unexpected error while generating incident report PDF',
+    );
+  }
+}
@@ -0,0 +1,228 @@
+import { NextResponse } from 'next/server';
+
+import { getNoCacheHeaders } from '@/lib/cacheConfig';
+import { validateBody, validateQuery } from '@/lib/validation';
+import {
+  deleteKioskDeviceQuerySchema,
+  getKioskCheckQuerySchema,
+  postKioskCheckBodySchema,
+  postKioskDeviceBodySchema,
+  type DeleteKioskDeviceQueryParams,
+  type GetKioskCheckQueryParams,
+  type PostKioskCheckBody,
+  type PostKioskDeviceBody,
+} from '@/lib/validation/kiosk';
+import {
+  createKioskDevice,
+  getKioskChildren,
+  issueKioskCode,
+  listKioskDevices,
+  performKioskCheck,
+  revokeKioskDevice,
+} from '@/lib/services/kiosk';
+import { serviceErrorResponse } from '@/lib/utils/serviceErrors';
+import type { AuthUser, UserMetadata } from '@/lib/types/auth';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+function orgNotFoundResponse() {
+  return NextResponse.json(
+    { error: 'Organization not found for user' },
+    { status: 400 },
+  );
+}
+
+/**
+ * Handler for GET /api/kiosk/devices
+ * Lists active kiosk devices in the principal's organization.
+ */
+export async function handleGetKioskDevices(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const orgId = (user.user_metadata as UserMetadata | undefined)?.org_id;
+  if (!orgId) {
+    return orgNotFoundResponse();
+  }
+
+  try {
+    const devices = await listKioskDevices(orgId);
+    return NextResponse.json(
+      { devices },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error fetching kiosk devices', err);
+    return serviceErrorResponse(err, 'Failed to fetch kiosk devices', 'Unexpected error while fetching kiosk devices');
+  }
+}
+
+/**
+ * Handler for POST /api/kiosk/devices
+ * Registers a kiosk device and returns its token once.
+ */
+export async function handlePostKioskDevice(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const orgId = (user.user_metadata as UserMetadata | undefined)?.org_id;
+  if (!orgId) {
+    return orgNotFoundResponse();
+  }
+
+  const rawBody = await request.json();
+  const bodyValidation = validateBody<PostKioskDeviceBody>(postKioskDeviceBodySchema, rawBody);
+  if (!bodyValidation.success) {
+    return bodyValidation.error;
+  }
+
+  try {
+    const { device, token } = await createKioskDevice({
+      orgId,
+      name: bodyValidation.data.name,
+      createdBy: user.id,
+    });
+    return NextResponse.json(
+      { device, token, message: 'Kiosk device registered' },
+      { status: 201, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error registering kiosk device', err);
+    return serviceErrorResponse(err, 'Failed to register kiosk device', 'Unexpected error while registering kiosk device');
+  }
+}
+
+/**
+ * Handler for DELETE /api/kiosk/devices
+ * Revokes a kiosk device; its token and any codes it issued stop working.
+ */
+export async function handleDeleteKioskDevice(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const orgId = (user.user_metadata as UserMetadata | undefined)?.org_id;
+  if (!orgId) {
+    return orgNotFoundResponse();
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<DeleteKioskDeviceQueryParams>(
+    deleteKioskDeviceQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+
+  try {
+    await revokeKioskDevice({ orgId, id: queryValidation.data.id });
+    return NextResponse.json(
+      { message: 'Kiosk device revoked' },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error revoking kiosk device', err);
+    return serviceErrorResponse(err, 'Failed to revoke kiosk device', 'Unexpected error while revoking kiosk device');
+  }
+}
+
+/**
+ * Handler for GET /api/kiosk/code
+ * Authenticated by the kiosk's device token (`Authorization: Bearer <token>`), not a user session.
+ * Returns a short-lived code for the QR shown at the entrance.
+ */
+export async function handleGetKioskCode(request: Request) {
+  const authorization = request.headers.get('authorization') ?? '';
+  const token = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : '';
+  if (!token) {
+    return NextResponse.json({ error: 'Kiosk device token required' }, { status: 401 });
+  }
+
+  try {
+    const code = await issueKioskCode(token);
+    return NextResponse.json(code, { status: 200, headers: getNoCacheHeaders() });
+  } catch (err: unknown) {
+    console.error('Error issuing kiosk code', err);
+    return serviceErrorResponse(err, 'Failed to issue kiosk code', 'Unexpected error while issuing kiosk code');
+  }
+}
+
+/**
+ * Handler for GET /api/kiosk/check
+ * Guardian opened a scanned kiosk code; lists their children with today's attendance.
+ */
+export async function handleGetKioskCheck(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const orgId = (user.user_metadata as UserMetadata | undefined)?.org_id;
+  if (!orgId) {
+    return orgNotFoundResponse();
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<GetKioskCheckQueryParams>(getKioskCheckQuerySchema, searchParams);
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+
+  try {
+    const children = await getKioskChildren({
+      orgId,
+      guardianId: user.id,
+      code: queryValidation.data.code,
+    });
+    return NextResponse.json(
+      { children },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error loading kiosk check-in', err);
+    return serviceErrorResponse(err, 'Failed to load check-in', 'Unexpected error while loading check-in');
+  }
+}
+
+/**
+ * Handler for POST /api/kiosk/check
+ * Guardian checks a child in or out using a scanned kiosk code.
+ */
+export async function handlePostKioskCheck(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const orgId = (user.user_metadata as UserMetadata | undefined)?.org_id;
+  if (!orgId) {
+    return orgNotFoundResponse();
+  }
+
+  const rawBody = await request.json();
+  const bodyValidation = validateBody<PostKioskCheckBody>(postKioskCheckBodySchema, rawBody);
+  if (!bodyValidation.success) {
+    return bodyValidation.error;
+  }
+  const { code, student_id, action } = bodyValidation.data;
+
+  try {
+    const attendance = await performKioskCheck({
+      orgId,
+      guardianId: user.id,
+      code,
+      studentId: student_id,
+      action,
+    });
+    return NextResponse.json(
+      {
+        attendance,
+        message: action === 'check_in' ? 'Checked in' : 'Checked out',
+      },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error during kiosk check', err);
+    return serviceErrorResponse(err, 'Failed to save attendance', 'Unexpected error while saving attendance');
+  }
+}
@@ -0,0 +1,407 @@
+import { NextResponse } from 'next/server';
+
+import { getNoCacheHeaders } from '@/lib/cacheConfig';
+import { validateBody, validateQuery } from '@/lib/validation';
+import {
+  deleteMedicationPlanQuerySchema,
+  getMedicationDosesQuerySchema,
+  getMedicationPlansQuerySchema,
+  postMedicationConsentBodySchema,
+  postMedicationDoseBodySchema,
+  postMedicationPlanBodySchema,
+  type DeleteMedicationPlanQueryParams,
+  type GetMedicationDosesQueryParams,
+  type GetMedicationPlansQueryParams,
+  type PostMedicationConsentBody,
+  type PostMedicationDoseBody,
+  type PostMedicationPlanBody,
+} from '@/lib/validation/medication';
+import {
+  MedicationPlanServiceError,
+  cancelMedicationPlan,
+  createMedicationPlan,
+  listMedicationPlans,
+  listTodaysDoses,
+  recordMedicationConsent,
+  recordMedicationDose,
+  runMedicationReminders,
+} from '@/lib/services/medicationPlans';
+import { isAuthorizedCronRequest } from '@/lib/utils/cronAuth';
+import { isStaffRole } from '@/lib/utils/roles';
+import { serviceErrorResponse } from '@/lib/utils/serviceErrors';
+import type { AuthUser, SamveraRole, UserMetadata } from '@/lib/types/auth';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Handler for GET /api/medication-plans
+ * Staff see plans in their organization, optionally for one student;
+ * guardians see plans of their linked children.
+ */
+export async function handleGetMedicationPlans(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<GetMedicationPlansQueryParams>(
+    getMedicationPlansQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+  const { studentId, includeInactive } = queryValidation.data;
+
+  try {
+    let studentIds: string[] | undefined = studentId ? [studentId] : undefined;
+
+    if (!isStaffRole(roles)) {
+      const { data: relationships, error: relError } = await adminClient
+        .from('guardian_students')
+        .select('student_id')
+        .eq('guardian_id', user.id);
+
+      if (relError) {
+        console.error('❌ Error fetching guardian-student relationships:', relError);
+        return NextResponse.json(
+          { error: 'Failed to fetch linked students' },
+          { status: 500 },
+        );
+      }
+
+      const linkedStudentIds = (relationships || [])
+        .map((r: { student_id: string | null }) => r.student_id)
+        .filter((id): id is string => Boolean(id));
+      studentIds = studentId
+        ? linkedStudentIds.filter((id) => id === studentId)
+        : linkedStudentIds;
+    }
+
+    const plans = await listMedicationPlans({ orgId, studentIds, includeInactive });
+
+    return NextResponse.json(
+      { plans, total: plans.length },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error fetching medication plans', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to fetch medication plans',
+      'Unexpected error while fetching medication plans',
+    );
+  }
+}
+
+/**
+ * Handler for POST /api/medication-plans
+ * Guardians create a plan and consent to it in one step;
+ * plans created by staff wait for a guardian's consent.
+ */
+export async function handlePostMedicationPlan(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const rawBody = await request.json();
+  const bodyValidation = validateBody<PostMedicationPlanBody>(
+    postMedicationPlanBodySchema,
+    rawBody,
+  );
+  if (!bodyValidation.success) {
+    return bodyValidation.error;
+  }
+
+  try {
+    const plan = await createMedicationPlan({
+      orgId,
+      userId: user.id,
+      isGuardian: !isStaffRole(roles),
+      payload: bodyValidation.data,
+    });
+
+    return NextResponse.json(
+      { plan, message: 'Medication plan saved' },
+      { status: 201, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error saving medication plan', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to save medication plan',
+      'Unexpected error while saving medication plan',
+    );
+  }
+}
+
+/**
+ * Handler for DELETE /api/medication-plans
+ * Staff can stop any plan in their organization; guardians only their children's.
+ */
+export async function handleDeleteMedicationPlan(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<DeleteMedicationPlanQueryParams>(
+    deleteMedicationPlanQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+
+  try {
+    await cancelMedicationPlan({
+      orgId,
+      userId: user.id,
+      isGuardian: !isStaffRole(roles),
+      id: queryValidation.data.id,
+    });
+
+    return NextResponse.json(
+      { message: 'Medication plan cancelled' },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error cancelling medication plan', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to cancel medication plan',
+      'Unexpected error while cancelling medication plan',
+    );
+  }
+}
+
+/**
+ * Handler for POST /api/medication-plans/consent
+ * Guardian gives or declines consent for a plan entered by staff.
+ */
+export async function handlePostMedicationConsent(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const rawBody = await request.json();
+  const bodyValidation = validateBody<PostMedicationConsentBody>(
+    postMedicationConsentBodySchema,
+    rawBody,
+  );
+  if (!bodyValidation.success) {
+    return bodyValidation.error;
+  }
+
+  try {
+    const plan = await recordMedicationConsent({
+      orgId,
+      guardianId: user.id,
+      payload: bodyValidation.data,
+    });
+
+    return NextResponse.json(
+      { plan },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error saving medication consent', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to save consent',
+      'Unexpected error while saving consent',
+    );
+  }
+}
+
+/**
+ * Handler for GET /api/medication-plans/doses
+ * Today's scheduled doses. Teachers see their own classes unless they ask
+ * for a class; principals and admins see the whole organization.
+ */
+export async function handleGetMedicationDoses(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<GetMedicationDosesQueryParams>(
+    getMedicationDosesQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+  const { classId } = queryValidation.data;
+
+  try {
+    let classIds: string[] | undefined = classId ? [classId] : undefined;
+
+    if (!classIds && !roles.some((role) => ['principal', 'admin'].includes(role))) {
+      const { data: memberships, error: membershipError } = await adminClient
+        .from('class_memberships')
+        .select('class_id')
+        .eq('org_id', orgId)
+        .eq('user_id', user.id);
+
+      if (membershipError) {
+        console.error('❌ Error fetching teacher classes:', membershipError);
+        return NextResponse.json(
+          { error: 'Failed to fetch teacher classes' },
+          { status: 500 },
+        );
+      }
+      classIds = (memberships || []).map((m: { class_id: string }) => m.class_id);
+    }
+
+    const doses = await listTodaysDoses({ orgId, classIds });
+
+    return NextResponse.json(
+      { doses, total: doses.length },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error fetching medication doses', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to fetch medication doses',
+      'Unexpected error while fetching medication doses',
+    );
+  }
+}
+
+/**
+ * Handler for POST /api/medication-plans/doses
+ * Records a dose as given; it is stored as a medication health log.
+ */
+export async function handlePostMedicationDose(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const rawBody = await request.json();
+  const bodyValidation = validateBody<PostMedicationDoseBody>(
+    postMedicationDoseBodySchema,
+    rawBody,
+  );
+  if (!bodyValidation.success) {
+    return bodyValidation.error;
+  }
+
+  try {
+    const healthLog = await recordMedicationDose({
+      orgId,
+      userId: user.id,
+      payload: bodyValidation.data,
+    });
+
+    return NextResponse.json(
+      { health_log: healthLog, message: 'Dose recorded' },
+      { status: 201, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error recording medication dose', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to record dose',
+      'Unexpected error while recording dose',
+    );
+  }
+}
+
+/**
+ * Handler for GET /api/cron/medication-reminders
+ * Reminds teachers of due doses and tells principals about missed ones.
+ */
+export async function handleRunMedicationReminders(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const results = await runMedicationReminders();
+
+    return NextResponse.json(
+      {
+        orgs_checked: results.length,
+        reminders_sent: results.reduce((sum, r) => sum + r.reminders, 0),
+        missed_doses: results.reduce((sum, r) => sum + r.missed, 0),
+        results,
+      },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error running medication reminders', err);
+    return NextResponse.json(
+      {
+        error: err instanceof MedicationPlanServiceError
+          ? err.message
+          : 'Unexpected error while running medication reminders',
+      },
+      { status: 500 },
+    );
+  }
+}
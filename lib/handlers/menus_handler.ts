@@ -1,15 +1,21 @@
 import { NextResponse } from 'next/server';
 
-import { getStableDataCacheHeaders } from '@/lib/cacheConfig';
+import { getNoCacheHeaders, getStableDataCacheHeaders } from '@/lib/cacheConfig';
 import { validateBody, validateQuery } from '@/lib/validation';
 import {
   deleteMenuQuerySchema,
+  getMenuConflictsQuerySchema,
   getMenusQuerySchema,
   postMenuBodySchema,
   putMenuBodySchema,
 } from '@/lib/validation/menus';
+import {
+  MenuAllergenServiceError,
+  getMenuAllergenConflicts,
+} from '@/lib/services/menuAllergens';
 import type {
   FetchMenusArgs,
+  MenuAllergenConflictReport,
   UpdateMenuPayload,
   UpsertMenuPayload,
 } from '@/lib/types/menus';
@@ -93,7 +99,22 @@ export async function handlePostMenu(
   try {
     const result = await upsertMenu(adminClient, orgId, user.id, bodyValidation.data);
 
-    return NextResponse.json(result, { status: 201 });
+    // The menu is saved either way; a failed check is reported as null, not as an error
+    let allergenConflicts: MenuAllergenConflictReport | null = null;
+    try {
+      allergenConflicts = await getMenuAllergenConflicts({
+        orgId: orgId!,
+        day: result.menu.day,
+        classIds: result.menu.class_id ? [result.menu.class_id] : undefined,
+      });
+    } catch (err) {
+      console.error('Error checking menu allergen conflicts', err);
+    }
+
+    return NextResponse.json(
+      { ...result, allergen_conflicts: allergenConflicts },
+      { status: 201 },
+    );
   } catch (error) {
     if (error instanceof MenusServiceError) {
       return NextResponse.json(error.body, { status: error.status });
@@ -106,6 +127,78 @@ export async function handlePostMenu(
   }
 }
 
+/**
+ * Handler for GET /api/menus/conflicts
+ * Children whose allergy tags clash with the day's menu (today by default).
+ * Teachers only see children in their own classes.
+ */
+export async function handleGetMenuConflicts(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery(getMenuConflictsQuerySchema, searchParams);
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+  const { day, classId } = queryValidation.data;
+
+  let classIds = classId ? [classId] : undefined;
+  if (!roles.includes('principal') && !roles.includes('admin')) {
+    const { data: memberships, error: membershipsError } = await adminClient
+      .from('class_memberships')
+      .select('class_id')
+      .eq('org_id', orgId)
+      .eq('user_id', user.id);
+
+    if (membershipsError) {
+      return NextResponse.json(
+        { error: 'Failed to load classes' },
+        { status: 500 },
+      );
+    }
+
+    const teacherClassIds = (memberships ?? []).map((row: { class_id: string }) => row.class_id);
+    if (classId && !teacherClassIds.includes(classId)) {
+      return NextResponse.json(
+        { error: 'You are not assigned to this class' },
+        { status: 403 },
+      );
+    }
+    classIds = classId ? [classId] : teacherClassIds;
+  }
+
+  try {
+    const report = await getMenuAllergenConflicts({ orgId, day, classIds });
+
+    return NextResponse.json(
+      { report },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error checking menu allergen conflicts', err);
+    if (err instanceof MenuAllergenServiceError && err.status < 500) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    return NextResponse.json(
+      { error: 'Failed to check menu allergens' },
+      { status: 500 },
+    );
+  }
+}
+
 export async function handlePutMenu(
   request: Request,
   user: AuthUser,
@@ -196,7 +289,7 @@ async function fetchMenus(
     let query = adminClient
       .from('menus')
       .select(
-        'id,org_id,class_id,day,breakfast,lunch,snack,notes,is_public,created_by,created_at,updated_at',
+        'id,org_id,class_id,day,breakfast,lunch,snack,breakfast_allergens,lunch_allergens,snack_allergens,notes,is_public,created_by,created_at,updated_at',
       )
       .eq('org_id', orgId)
       .is('deleted_at', null)
@@ -245,8 +338,18 @@ async function upsertMenu(
     });
   }
 
-  const { class_id, day, breakfast, lunch, snack, notes, is_public } =
-    payload;
+  const {
+    class_id,
+    day,
+    breakfast,
+    lunch,
+    snack,
+    breakfast_allergens,
+    lunch_allergens,
+    snack_allergens,
+    notes,
+    is_public,
+  } = payload;
 
   const finalClassId =
     class_id && class_id.trim() !== '' ? class_id : null;
@@ -304,6 +407,15 @@ async function upsertMenu(
       if (typeof snack !== 'undefined') {
         updatePayload.snack = snack || null;
       }
+      if (typeof breakfast_allergens !== 'undefined') {
+        updatePayload.breakfast_allergens = breakfast_allergens;
+      }
+      if (typeof lunch_allergens !== 'undefined') {
+        updatePayload.lunch_allergens = lunch_allergens;
+      }
+      if (typeof snack_allergens !== 'undefined') {
+        updatePayload.snack_allergens = snack_allergens;
+      }
       if (typeof notes !== 'undefined') {
         updatePayload.notes = notes || null;
       }
@@ -316,7 +428,7 @@ async function upsertMenu(
         .update(updatePayload)
         .eq('id', existing.id)
         .select(
-          'id,org_id,class_id,day,breakfast,lunch,snack,notes,is_public,created_at,updated_at',
+          'id,org_id,class_id,day,breakfast,lunch,snack,breakfast_allergens,lunch_allergens,snack_allergens,notes,is_public,created_at,updated_at',
         )
         .single();
 
@@ -356,13 +468,16 @@ async function upsertMenu(
           breakfast: breakfast || null,
           lunch: lunch || null,
           snack: snack || null,
+          breakfast_allergens: breakfast_allergens ?? [],
+          lunch_allergens: lunch_allergens ?? [],
+          snack_allergens: snack_allergens ?? [],
           notes: notes || null,
           is_public: typeof is_public !== 'undefined' ? is_public : true,
           created_by: userId,
           deleted_at: null,
         })
         .select(
-          'id,org_id,class_id,day,breakfast,lunch,snack,notes,is_public,created_by,created_at,updated_at',
+          'id,org_id,class_id,day,breakfast,lunch,snack,breakfast_allergens,lunch_allergens,snack_allergens,notes,is_public,created_by,created_at,updated_at',
         )
         .single();
 
@@ -416,7 +531,17 @@ async function updateMenu(
   adminClient: SupabaseClient,
   payload: UpdateMenuPayload,
 ) {
-  const { id, breakfast, lunch, snack, notes, is_public } = payload;
+  const {
+    id,
+    breakfast,
+    lunch,
+    snack,
+    breakfast_allergens,
+    lunch_allergens,
+    snack_allergens,
+    notes,
+    is_public,
+  } = payload;
 
   try {
     const { data: updated, error } = await adminClient
@@ -425,13 +550,16 @@ async function updateMenu(
         breakfast: typeof breakfast !== 'undefined' ? breakfast : null,
         lunch: typeof lunch !== 'undefined' ? lunch : null,
         snack: typeof snack !== 'undefined' ? snack : null,
+        ...(typeof breakfast_allergens !== 'undefined' ? { breakfast_allergens } : {}),
+        ...(typeof lunch_allergens !== 'undefined' ? { lunch_allergens } : {}),
+        ...(typeof snack_allergens !== 'undefined' ? { snack_allergens } : {}),
         notes: typeof notes !== 'undefined' ? notes : null,
         is_public: typeof is_public !== 'undefined' ? is_public : true,
       })
       .eq('id', id)
       .is('deleted_at', null)
       .select(
-        'id,org_id,class_id,day,breakfast,lunch,snack,notes,is_public,created_at,updated_at',
+        'id,org_id,class_id,day,breakfast,lunch,snack,breakfast_allergens,lunch_allergens,snack_allergens,notes,is_public,created_at,updated_at',
       )
       .single();
 
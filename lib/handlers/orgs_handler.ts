@@ -311,7 +311,8 @@ export async function handleGetOrgDetails(
         .from('students')
         .select('*', { count: 'exact', head: true })
         .eq('org_id', orgId)
-        .is('deleted_at', null),
+        .is('deleted_at', null)
+        .is('graduated_at', null),
       
       // Teachers count
       adminClient
@@ -401,7 +402,7 @@ export async function handleGetMyOrg(
     // Fetch organization
     const { data: org, error: orgError } = await adminClient
       .from('orgs')
-      .select('id,name,slug,email,phone,website,address,city,state,postal_code,timezone,type,total_area,play_area,square_meters_per_student,maximum_allowed_students,is_active,created_by,updated_by,created_at,updated_at,deleted_at')
+      .select('id,name,slug,email,phone,website,address,city,state,postal_code,timezone,type,total_area,play_area,square_meters_per_student,maximum_allowed_students,absence_alerts_enabled,absence_alert_cutoff,max_children_per_staff,fever_threshold_celsius,is_active,created_by,updated_by,created_at,updated_at,deleted_at')
       .eq('id', orgId)
       .single();
 
@@ -455,6 +456,10 @@ export async function handleUpdateMyOrg(
     play_area,
     square_meters_per_student,
     maximum_allowed_students,
+    absence_alerts_enabled,
+    absence_alert_cutoff,
+    max_children_per_staff,
+    fever_threshold_celsius,
   } = bodyValidation.data;
 
   const patch: Record<string, unknown> = {
@@ -476,13 +481,17 @@ export async function handleUpdateMyOrg(
   if (play_area !== undefined) patch.play_area = play_area;
   if (square_meters_per_student !== undefined) patch.square_meters_per_student = square_meters_per_student;
   if (maximum_allowed_students !== undefined) patch.maximum_allowed_students = maximum_allowed_students;
+  if (absence_alerts_enabled !== undefined) patch.absence_alerts_enabled = absence_alerts_enabled;
+  if (absence_alert_cutoff !== undefined) patch.absence_alert_cutoff = absence_alert_cutoff;
+  if (max_children_per_staff !== undefined) patch.max_children_per_staff = max_children_per_staff;
+  if (fever_threshold_celsius !== undefined) patch.fever_threshold_celsius = fever_threshold_celsius;
 
   try {
     const { data, error } = await adminClient
       .from('orgs')
       .update(patch)
       .eq('id', orgId)
-      .select('id,name,slug,email,phone,website,address,city,state,postal_code,timezone,type,total_area,play_area,square_meters_per_student,maximum_allowed_students,is_active,created_by,updated_by,created_at,updated_at,deleted_at')
+      .select('id,name,slug,email,phone,website,address,city,state,postal_code,timezone,type,total_area,play_area,square_meters_per_student,maximum_allowed_students,absence_alerts_enabled,absence_alert_cutoff,max_children_per_staff,fever_threshold_celsius,is_active,created_by,updated_by,created_at,updated_at,deleted_at')
       .single();
 
     if (error) {
@@ -0,0 +1,163 @@
+import { NextResponse } from 'next/server';
+
+import { getNoCacheHeaders } from '@/lib/cacheConfig';
+import { validateBody, validateQuery } from '@/lib/validation';
+import {
+  getHealthNoticesQuerySchema,
+  getOutbreakReportQuerySchema,
+  postHealthNoticeBodySchema,
+  type GetHealthNoticesQueryParams,
+  type GetOutbreakReportQueryParams,
+  type PostHealthNoticeBody,
+} from '@/lib/validation/outbreaks';
+import {
+  getOutbreakReport,
+  listHealthNotices,
+  sendHealthNotice,
+} from '@/lib/services/outbreaks';
+import { serviceErrorResponse } from '@/lib/utils/serviceErrors';
+import type { AuthUser, UserMetadata } from '@/lib/types/auth';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Handler for GET /api/outbreaks
+ * Symptom logs and sick days per class and day, with flagged clusters.
+ */
+export async function handleGetOutbreakReport(
+  request: Request,
+  user: AuthUser,
+  _adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<GetOutbreakReportQueryParams>(
+    getOutbreakReportQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+
+  try {
+    const report = await getOutbreakReport({ orgId, ...queryValidation.data });
+
+    return NextResponse.json(
+      { report },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error building outbreak report', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to build outbreak report',
+      'Unexpected error while building outbreak report',
+    );
+  }
+}
+
+/**
+ * Handler for GET /api/outbreaks/notices
+ * Health notices sent by the organization, for reporting.
+ */
+export async function handleGetHealthNotices(
+  request: Request,
+  user: AuthUser,
+  _adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<GetHealthNoticesQueryParams>(
+    getHealthNoticesQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+
+  try {
+    const notices = await listHealthNotices({ orgId, ...queryValidation.data });
+
+    return NextResponse.json(
+      { notices, total: notices.length },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error fetching health notices', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to fetch health notices',
+      'Unexpected error while fetching health notices',
+    );
+  }
+}
+
+/**
+ * Handler for POST /api/outbreaks/notices
+ * Sends a health notice to the guardians of every child in a class.
+ */
+export async function handlePostHealthNotice(
+  request: Request,
+  user: AuthUser,
+  _adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const rawBody = await request.json();
+  const bodyValidation = validateBody<PostHealthNoticeBody>(
+    postHealthNoticeBodySchema,
+    rawBody,
+  );
+  if (!bodyValidation.success) {
+    return bodyValidation.error;
+  }
+  const { class_id, category, title, body } = bodyValidation.data;
+
+  try {
+    const notice = await sendHealthNotice({
+      orgId,
+      classId: class_id,
+      category,
+      title,
+      body,
+      sentBy: user.id,
+    });
+
+    return NextResponse.json(
+      { notice, message: 'Health notice sent' },
+      { status: 201, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error sending health notice', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to send health notice',
+      'Unexpected error while sending health notice',
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { getNoCacheHeaders } from '@/lib/cacheConfig';
+import { calculateStaffRatios } from '@/lib/services/staffRatio';
 import type { AuthUser, UserMetadata } from '@/lib/types/auth';
 import type { SupabaseClient } from '@supabase/supabase-js';
 
@@ -23,7 +24,8 @@ export async function handleGetPrincipalDashboardMetrics(
     studentsResult,
     staffResult,
     classesResult,
-    menusResult
+    menusResult,
+    staffRatioResult,
   ] = await Promise.allSettled([
     // 1. Students count: Count from students table filtered by org_id, excluding deleted
     (async () => {
@@ -32,7 +34,8 @@ export async function handleGetPrincipalDashboardMetrics(
           .from('students')
           .select('*', { count: 'exact', head: true })
           .eq('org_id', orgId)
-          .is('deleted_at', null);
+          .is('deleted_at', null)
+          .is('graduated_at', null);
         
         if (error) {
           console.error('Error fetching students count:', error);
@@ -116,6 +119,9 @@ export async function handleGetPrincipalDashboardMetrics(
       }
     })(),
 
+    // 5. Live staff-to-child ratio per class against the org's threshold
+    calculateStaffRatios(orgId),
+
   ]);
 
   // Extract results, defaulting to 0 on failure
@@ -123,6 +129,7 @@ export async function handleGetPrincipalDashboardMetrics(
   const staffCount = staffResult.status === 'fulfilled' ? staffResult.value : 0;
   const classesCount = classesResult.status === 'fulfilled' ? classesResult.value : 0;
   const menusCount = menusResult.status === 'fulfilled' ? menusResult.value : 0;
+  const staffRatio = staffRatioResult.status === 'fulfilled' ? staffRatioResult.value : null;
 
   // Log any failures for debugging
   if (studentsResult.status === 'rejected') {
@@ -137,12 +144,16 @@ export async function handleGetPrincipalDashboardMetrics(
   if (menusResult.status === 'rejected') {
     console.error('Menus count failed:', menusResult.reason);
   }
+  if (staffRatioResult.status === 'rejected') {
+    console.error('Staff ratio failed:', staffRatioResult.reason);
+  }
 
   return NextResponse.json({
     studentsCount,
     staffCount,
     classesCount,
     menusCount,
+    staffRatio,
   }, {
     status: 200,
     headers: getNoCacheHeaders()
@@ -1011,7 +1011,8 @@ export async function handleGetPrincipalDetails(
         .from('students')
         .select('*', { count: 'exact', head: true })
         .eq('org_id', orgId)
-        .is('deleted_at', null),
+        .is('deleted_at', null)
+        .is('graduated_at', null),
       
       // Teachers count
       adminClient
@@ -93,7 +93,8 @@ export async function handleSearchPeople(
       .from('students')
       .select('id, user_id, org_id')
       .eq('org_id', orgId)
-      .is('deleted_at', null);
+      .is('deleted_at', null)
+      .is('graduated_at', null);
 
     if (studentsError || !studentsData || studentsData.length === 0) {
       console.log('No students found or error:', studentsError);
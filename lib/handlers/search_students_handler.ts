@@ -43,6 +43,7 @@ export async function handleSearchStudents(
     )
     .eq('org_id', orgId)
     .is('deleted_at', null)
+    .is('graduated_at', null)
 
   // If query is empty, return latest 5 students ordered by created_at DESC
   // Otherwise, search across first_name and last_name on related users row
@@ -0,0 +1,119 @@
+import { NextResponse } from 'next/server';
+
+import { getNoCacheHeaders } from '@/lib/cacheConfig';
+import { validateQuery } from '@/lib/validation';
+import {
+  getStaffRatioHistoryQuerySchema,
+  type GetStaffRatioHistoryQueryParams,
+} from '@/lib/validation/staff';
+import {
+  calculateStaffRatios,
+  fetchStaffRatioHistory,
+  recordStaffRatioSnapshots,
+  StaffRatioServiceError,
+} from '@/lib/services/staffRatio';
+import { isAuthorizedCronRequest } from '@/lib/utils/cronAuth';
+import { serviceErrorResponse } from '@/lib/utils/serviceErrors';
+import type { AuthUser, UserMetadata } from '@/lib/types/auth';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Handler for GET /api/staff-ratios
+ * Live staff-to-child ratio per class and for the whole organization.
+ */
+export async function handleGetStaffRatios(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const orgId = (user.user_metadata as UserMetadata | undefined)?.org_id;
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const report = await calculateStaffRatios(orgId);
+    return NextResponse.json(
+      { report },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error calculating staff ratios', err);
+    return serviceErrorResponse(err, 'Failed to calculate staff ratios', 'Unexpected error while calculating staff ratios');
+  }
+}
+
+/**
+ * Handler for GET /api/staff-ratios/history
+ * Recorded ratio snapshots for a date range, optionally one class or breaches only.
+ */
+export async function handleGetStaffRatioHistory(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const orgId = (user.user_metadata as UserMetadata | undefined)?.org_id;
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<GetStaffRatioHistoryQueryParams>(
+    getStaffRatioHistoryQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+  const { from, to, classId, breachesOnly } = queryValidation.data;
+
+  try {
+    const snapshots = await fetchStaffRatioHistory({ orgId, from, to, classId, breachesOnly });
+    return NextResponse.json(
+      { snapshots, total: snapshots.length },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error fetching staff ratio history', err);
+    return serviceErrorResponse(err, 'Failed to fetch staff ratio history', 'Unexpected error while fetching staff ratio history');
+  }
+}
+
+/**
+ * Handler for GET /api/cron/staff-ratios
+ * Stores a ratio snapshot for every organization with children checked in.
+ */
+export async function handleRecordStaffRatios(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const results = await recordStaffRatioSnapshots();
+    return NextResponse.json(
+      {
+        orgs_checked: results.length,
+        orgs_recorded: results.filter((r) => !r.skipped).length,
+        class_breaches: results.reduce((sum, r) => sum + r.breaches, 0),
+        results,
+      },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error recording staff ratios', err);
+    return NextResponse.json(
+      {
+        error: err instanceof StaffRatioServiceError
+          ? err.message
+          : 'Unexpected error while recording staff ratios',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+
+import { getNoCacheHeaders } from '@/lib/cacheConfig';
+import { validateBody } from '@/lib/validation';
+import {
+  postStudentImportOptionsSchema,
+  type PostStudentImportOptions,
+} from '@/lib/validation/students';
+import {
+  commitStudentImport,
+  planStudentImport,
+} from '@/lib/services/studentImport';
+import { parseImportFile } from '@/lib/utils/importUtils';
+import { serviceErrorResponse } from '@/lib/utils/serviceErrors';
+import type { AuthUser, UserMetadata } from '@/lib/types/auth';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * Handler for POST /api/students/import
+ * Multipart form with a CSV or XLSX `file`, a `mode` (dry_run or commit)
+ * and an optional JSON `mapping` of import fields to column headers.
+ * A dry run only reports; a commit refuses to write anything while any
+ * row has errors.
+ */
+export async function handlePostStudentImport(
+  request: Request,
+  user: AuthUser,
+  _adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const formData = await request.formData().catch(() => null);
+  const file = formData?.get('file');
+  if (!formData || !(file instanceof File)) {
+    return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+  }
+  if (file.size > MAX_IMPORT_FILE_SIZE) {
+    return NextResponse.json(
+      { error: `File ${file.name} is too large (max 5MB)` },
+      { status: 400 },
+    );
+  }
+
+  let mapping: unknown;
+  try {
+    const rawMapping = formData.get('mapping');
+    mapping = typeof rawMapping === 'string' && rawMapping ? JSON.parse(rawMapping) : undefined;
+  } catch {
+    return NextResponse.json({ error: 'Mapping must be valid JSON' }, { status: 400 });
+  }
+
+  const optionsValidation = validateBody<PostStudentImportOptions>(postStudentImportOptionsSchema, {
+    mode: formData.get('mode') ?? undefined,
+    mapping,
+  });
+  if (!optionsValidation.success) {
+    return optionsValidation.error;
+  }
+  const { mode } = optionsValidation.data;
+
+  let table;
+  try {
+    table = await parseImportFile(file.name, Buffer.from(await file.arrayBuffer()));
+  } catch (err) {
+    console.error('Error parsing student import file', err);
+    return NextResponse.json({ error: `Could not read ${file.name}` }, { status: 400 });
+  }
+  if (!table) {
+    return NextResponse.json(
+      { error: `File ${file.name} must be a CSV or XLSX file` },
+      { status: 400 },
+    );
+  }
+  if (table.rows.length === 0) {
+    return NextResponse.json({ error: 'The file has no rows to import' }, { status: 400 });
+  }
+  if (table.rows.length > MAX_IMPORT_ROWS) {
+    return NextResponse.json(
+      { error: `Import at most ${MAX_IMPORT_ROWS} rows at a time` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const plan = await planStudentImport({
+      orgId,
+      table,
+      mapping: optionsValidation.data.mapping,
+      mode,
+    });
+
+    if (mode === 'dry_run') {
+      return NextResponse.json(
+        { report: plan.report },
+        { status: 200, headers: getNoCacheHeaders() },
+      );
+    }
+
+    if (plan.report.errors > 0) {
+      return NextResponse.json(
+        { error: 'Fix the rows with errors before importing', report: plan.report },
+        { status: 400, headers: getNoCacheHeaders() },
+      );
+    }
+
+    const report = await commitStudentImport({ orgId, plan });
+
+    return NextResponse.json(
+      { report, message: 'Students imported' },
+      { status: 201, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error importing students', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to import students',
+      'Unexpected error while importing students',
+      // A failed commit says how far it got
+      { keepServerMessage: true },
+    );
+  }
+}
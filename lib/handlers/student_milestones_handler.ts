@@ -0,0 +1,135 @@
+import { NextResponse } from 'next/server';
+
+import { getNoCacheHeaders } from '@/lib/cacheConfig';
+import { studentIdSchema, validateBody } from '@/lib/validation';
+import {
+  putStudentMilestoneBodySchema,
+  type PutStudentMilestoneBody,
+} from '@/lib/validation/milestones';
+import {
+  MilestoneServiceError,
+  getMilestoneChecklist,
+  recordMilestone,
+} from '@/lib/services/milestones';
+import { isStaffRole } from '@/lib/utils/roles';
+import { serviceErrorResponse } from '@/lib/utils/serviceErrors';
+import type { AuthUser, SamveraRole, UserMetadata } from '@/lib/types/auth';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+function invalidIdResponse() {
+  return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 });
+}
+
+/**
+ * Handler for GET /api/students/[id]/milestones
+ * Staff see any student in their organization, with evidence to pick from;
+ * guardians only their own children.
+ */
+export async function handleGetStudentMilestones(
+  _request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+  studentId: string,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+  if (!studentIdSchema.safeParse(studentId).success) {
+    return invalidIdResponse();
+  }
+
+  const isStaff = isStaffRole(roles);
+
+  try {
+    if (!isStaff) {
+      const { data: link, error: linkError } = await adminClient
+        .from('guardian_students')
+        .select('student_id')
+        .eq('guardian_id', user.id)
+        .eq('student_id', studentId)
+        .maybeSingle();
+
+      if (linkError) {
+        throw new MilestoneServiceError('Failed to fetch linked students', 500, linkError);
+      }
+      if (!link) {
+        return NextResponse.json({ error: 'Student not found' }, { status: 404 });
+      }
+    }
+
+    const checklist = await getMilestoneChecklist({
+      orgId,
+      studentId,
+      includeEvidenceOptions: isStaff,
+    });
+
+    return NextResponse.json(
+      { checklist },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error fetching student milestones', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to fetch milestones',
+      'Unexpected error while fetching milestones',
+    );
+  }
+}
+
+/**
+ * Handler for PUT /api/students/[id]/milestones
+ */
+export async function handlePutStudentMilestone(
+  request: Request,
+  user: AuthUser,
+  _adminClient: SupabaseClient,
+  studentId: string,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+  if (!studentIdSchema.safeParse(studentId).success) {
+    return invalidIdResponse();
+  }
+
+  const rawBody = await request.json().catch(() => ({}));
+  const bodyValidation = validateBody<PutStudentMilestoneBody>(putStudentMilestoneBodySchema, rawBody);
+  if (!bodyValidation.success) {
+    return bodyValidation.error;
+  }
+
+  try {
+    const milestone = await recordMilestone({
+      orgId,
+      studentId,
+      recordedBy: user.id,
+      body: bodyValidation.data,
+    });
+
+    return NextResponse.json(
+      { milestone, message: milestone ? 'Milestone saved' : 'Milestone cleared' },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error saving student milestone', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to save milestone',
+      'Unexpected error while saving milestone',
+    );
+  }
+}
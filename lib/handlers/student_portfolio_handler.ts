@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+
+import { getNoCacheHeaders } from '@/lib/cacheConfig';
+import { studentIdSchema, validateQuery } from '@/lib/validation';
+import {
+  getPortfolioQuerySchema,
+  type GetPortfolioQueryParams,
+} from '@/lib/validation/portfolio';
+import {
+  PortfolioServiceError,
+  buildPortfolioPdf,
+  getPortfolio,
+  getSchoolYear,
+  getUserLanguage,
+} from '@/lib/services/portfolio';
+import { getInlinePdfHeader } from '@/lib/utils/pdfUtils';
+import { isStaffRole } from '@/lib/utils/roles';
+import { serviceErrorResponse } from '@/lib/utils/serviceErrors';
+import type { AuthUser, SamveraRole, UserMetadata } from '@/lib/types/auth';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Handler for GET /api/students/[id]/portfolio
+ * The child's learning portfolio as a PDF in the requesting user's language,
+ * covering the current school year unless from/to are given.
+ */
+export async function handleGetStudentPortfolioPdf(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+  studentId: string,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+  if (!studentIdSchema.safeParse(studentId).success) {
+    return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<GetPortfolioQueryParams>(
+    getPortfolioQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+  const schoolYear = getSchoolYear();
+  const from = queryValidation.data.from ?? schoolYear.from;
+  const to = queryValidation.data.to ?? schoolYear.to;
+  if (from > to) {
+    return NextResponse.json(
+      { error: 'from must be on or before to' },
+      { status: 400 },
+    );
+  }
+
+  try {
+    if (!isStaffRole(roles)) {
+      const { data: link, error: linkError } = await adminClient
+        .from('guardian_students')
+        .select('student_id')
+        .eq('guardian_id', user.id)
+        .eq('student_id', studentId)
+        .maybeSingle();
+
+      if (linkError) {
+        throw new PortfolioServiceError('Failed to fetch linked students', 500, linkError);
+      }
+      if (!link) {
+        return NextResponse.json({ error: 'Student not found' }, { status: 404 });
+      }
+    }
+
+    const [portfolio, lang] = await Promise.all([
+      getPortfolio({ orgId, studentId, from, to }),
+      getUserLanguage(user.id),
+    ]);
+    const pdf = buildPortfolioPdf(portfolio, lang);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        ...getNoCacheHeaders(),
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': getInlinePdfHeader(`portfolio-${portfolio.student_name}-${from}-${to}.pdf`),
+      },
+    });
+  } catch (err: unknown) {
+    console.error('Error generating portfolio PDF', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to generate portfolio',
+      'Unexpected error while generating portfolio',
+    );
+  }
+}
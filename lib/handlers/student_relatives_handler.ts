@@ -0,0 +1,228 @@
+import { NextResponse } from 'next/server';
+
+import { getNoCacheHeaders } from '@/lib/cacheConfig';
+import { studentIdSchema, uuidSchema, validateBody } from '@/lib/validation';
+import {
+  postStudentRelativeBodySchema,
+  putStudentRelativeBodySchema,
+  type PostStudentRelativeBody,
+  type PutStudentRelativeBody,
+} from '@/lib/validation/students';
+import {
+  StudentRelativeServiceError,
+  createStudentRelative,
+  deleteStudentRelative,
+  listStudentRelatives,
+  updateStudentRelative,
+} from '@/lib/services/studentRelatives';
+import { isStaffRole } from '@/lib/utils/roles';
+import { serviceErrorResponse } from '@/lib/utils/serviceErrors';
+import type { AuthUser, SamveraRole, UserMetadata } from '@/lib/types/auth';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+function invalidIdResponse() {
+  return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 });
+}
+
+/**
+ * Handler for GET /api/students/[id]/relatives
+ * Staff see any student in their organization; guardians only their own children.
+ */
+export async function handleGetStudentRelatives(
+  _request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+  studentId: string,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+  if (!studentIdSchema.safeParse(studentId).success) {
+    return invalidIdResponse();
+  }
+
+  try {
+    if (!isStaffRole(roles)) {
+      const { data: link, error: linkError } = await adminClient
+        .from('guardian_students')
+        .select('student_id')
+        .eq('guardian_id', user.id)
+        .eq('student_id', studentId)
+        .maybeSingle();
+
+      if (linkError) {
+        throw new StudentRelativeServiceError('Failed to fetch linked students', 500, linkError);
+      }
+      if (!link) {
+        return NextResponse.json({ error: 'Student not found' }, { status: 404 });
+      }
+    }
+
+    const relatives = await listStudentRelatives({ orgId, studentId });
+
+    return NextResponse.json(
+      { relatives, total: relatives.length },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error fetching student relatives', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to fetch relatives',
+      'Unexpected error while fetching relatives',
+    );
+  }
+}
+
+/**
+ * Handler for POST /api/students/[id]/relatives
+ */
+export async function handlePostStudentRelative(
+  request: Request,
+  user: AuthUser,
+  _adminClient: SupabaseClient,
+  studentId: string,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+  if (!studentIdSchema.safeParse(studentId).success) {
+    return invalidIdResponse();
+  }
+
+  const rawBody = await request.json().catch(() => ({}));
+  const bodyValidation = validateBody<PostStudentRelativeBody>(
+    postStudentRelativeBodySchema,
+    rawBody,
+  );
+  if (!bodyValidation.success) {
+    return bodyValidation.error;
+  }
+
+  try {
+    const relative = await createStudentRelative({
+      orgId,
+      studentId,
+      values: bodyValidation.data,
+    });
+
+    return NextResponse.json(
+      { relative, message: 'Relative added' },
+      { status: 201, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error creating student relative', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to create relative',
+      'Unexpected error while creating relative',
+    );
+  }
+}
+
+/**
+ * Handler for PUT /api/students/[id]/relatives/[relativeId]
+ */
+export async function handlePutStudentRelative(
+  request: Request,
+  user: AuthUser,
+  _adminClient: SupabaseClient,
+  studentId: string,
+  relativeId: string,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+  if (!studentIdSchema.safeParse(studentId).success || !uuidSchema.safeParse(relativeId).success) {
+    return invalidIdResponse();
+  }
+
+  const rawBody = await request.json().catch(() => ({}));
+  const bodyValidation = validateBody<PutStudentRelativeBody>(
+    putStudentRelativeBodySchema,
+    rawBody,
+  );
+  if (!bodyValidation.success) {
+    return bodyValidation.error;
+  }
+
+  try {
+    const relative = await updateStudentRelative({
+      orgId,
+      studentId,
+      relativeId,
+      values: bodyValidation.data,
+    });
+
+    return NextResponse.json(
+      { relative, message: 'Relative updated' },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error updating student relative', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to update relative',
+      'Unexpected error while updating relative',
+    );
+  }
+}
+
+/**
+ * Handler for DELETE /api/students/[id]/relatives/[relativeId]
+ */
+export async function handleDeleteStudentRelative(
+  _request: Request,
+  user: AuthUser,
+  _adminClient: SupabaseClient,
+  studentId: string,
+  relativeId: string,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+  if (!studentIdSchema.safeParse(studentId).success || !uuidSchema.safeParse(relativeId).success) {
+    return invalidIdResponse();
+  }
+
+  try {
+    await deleteStudentRelative({ orgId, studentId, relativeId });
+
+    return NextResponse.json(
+      { message: 'Relative removed' },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error deleting student relative', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to delete relative',
+      'Unexpected error while deleting relative',
+    );
+  }
+}
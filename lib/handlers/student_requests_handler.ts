@@ -1,6 +1,27 @@
 import { NextResponse } from 'next/server';
 
-import type { AuthUser } from '@/lib/types/auth';
+import { getNoCacheHeaders } from '@/lib/cacheConfig';
+import { formatZodError, uuidSchema, validateBody, validateQuery } from '@/lib/validation';
+import {
+  getStudentRequestsQuerySchema,
+  postStudentBodySchema,
+  postStudentRequestBodySchema,
+  postStudentRequestDecisionBodySchema,
+  type GetStudentRequestsQueryParams,
+  type PostStudentRequestBody,
+  type PostStudentRequestDecisionBody,
+} from '@/lib/validation/students';
+import { createStudentFromBody } from '@/lib/handlers/students_handler';
+import {
+  claimStudentRequestForApproval,
+  completeStudentRequestApproval,
+  createStudentRequest,
+  listStudentRequests,
+  rejectStudentRequest,
+  releaseStudentRequest,
+} from '@/lib/services/studentRequests';
+import { serviceErrorResponse } from '@/lib/utils/serviceErrors';
+import type { AuthUser, SamveraRole, UserMetadata } from '@/lib/types/auth';
 import type { SupabaseClient } from '@supabase/supabase-js';
 
 export async function handlePostStudentRequestsTable(
@@ -50,3 +71,259 @@ export async function handlePostStudentRequestsTable(
   }
 }
 
+
+function isPrincipalOrAdmin(roles: SamveraRole[]): boolean {
+  return roles.includes('principal') || roles.includes('admin');
+}
+
+/**
+ * Handler for GET /api/student-requests
+ * Principals and admins see the whole queue; teachers only their own requests.
+ */
+export async function handleGetStudentRequests(
+  request: Request,
+  user: AuthUser,
+  _adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const queryValidation = validateQuery<GetStudentRequestsQueryParams>(
+    getStudentRequestsQuerySchema,
+    searchParams,
+  );
+  if (!queryValidation.success) {
+    return queryValidation.error;
+  }
+
+  try {
+    const requests = await listStudentRequests({
+      orgId,
+      status: queryValidation.data.status,
+      requestedBy: isPrincipalOrAdmin(roles) ? undefined : user.id,
+    });
+
+    return NextResponse.json(
+      { requests, total: requests.length },
+      { status: 200, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error fetching student requests', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to fetch student requests',
+      'Unexpected error while fetching student requests',
+    );
+  }
+}
+
+/**
+ * Handler for POST /api/student-requests
+ * Teachers may only request students for classes they are assigned to.
+ */
+export async function handlePostStudentRequest(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+  const roles = (metadata?.roles ?? []) as SamveraRole[];
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+
+  const rawBody = await request.json().catch(() => ({}));
+  const bodyValidation = validateBody<PostStudentRequestBody>(
+    postStudentRequestBodySchema,
+    rawBody,
+  );
+  if (!bodyValidation.success) {
+    return bodyValidation.error;
+  }
+
+  if (!isPrincipalOrAdmin(roles)) {
+    const { data: membership, error: membershipError } = await adminClient
+      .from('class_memberships')
+      .select('class_id')
+      .eq('org_id', orgId)
+      .eq('user_id', user.id)
+      .eq('class_id', bodyValidation.data.class_id)
+      .maybeSingle();
+
+    if (membershipError) {
+      return NextResponse.json(
+        { error: 'Failed to load classes' },
+        { status: 500 },
+      );
+    }
+    if (!membership) {
+      return NextResponse.json(
+        { error: 'You are not assigned to this class' },
+        { status: 403 },
+      );
+    }
+  }
+
+  try {
+    const studentRequest = await createStudentRequest({
+      orgId,
+      requestedBy: user.id,
+      values: bodyValidation.data,
+    });
+
+    return NextResponse.json(
+      { request: studentRequest, message: 'Student request submitted' },
+      { status: 201, headers: getNoCacheHeaders() },
+    );
+  } catch (err: unknown) {
+    console.error('Error creating student request', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to create student request',
+      'Unexpected error while creating student request',
+    );
+  }
+}
+
+/**
+ * Handler for POST /api/student-requests/[id]/decision
+ * Approval creates the student the same way POST /api/students does.
+ */
+export async function handlePostStudentRequestDecision(
+  request: Request,
+  user: AuthUser,
+  adminClient: SupabaseClient,
+  requestId: string,
+) {
+  const metadata = user.user_metadata as UserMetadata | undefined;
+  const orgId = metadata?.org_id;
+
+  if (!orgId) {
+    return NextResponse.json(
+      { error: 'Organization not found for user' },
+      { status: 400 },
+    );
+  }
+  if (!uuidSchema.safeParse(requestId).success) {
+    return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 });
+  }
+
+  const rawBody = await request.json().catch(() => ({}));
+  const bodyValidation = validateBody<PostStudentRequestDecisionBody>(
+    postStudentRequestDecisionBodySchema,
+    rawBody,
+  );
+  if (!bodyValidation.success) {
+    return bodyValidation.error;
+  }
+  const decision = bodyValidation.data;
+
+  try {
+    if (decision.action === 'reject') {
+      const studentRequest = await rejectStudentRequest({
+        orgId,
+        id: requestId,
+        rejectedBy: user.id,
+        reason: decision.reason,
+      });
+
+      return NextResponse.json(
+        { request: studentRequest, message: 'Student request rejected' },
+        { status: 200, headers: getNoCacheHeaders() },
+      );
+    }
+
+    const claimed = await claimStudentRequestForApproval({
+      orgId,
+      id: requestId,
+      approvedBy: user.id,
+    });
+
+    // Re-validate against the student schema: the rules may have changed
+    // since the request was submitted
+    const studentValidation = postStudentBodySchema.safeParse({
+      first_name: claimed.first_name,
+      last_name: claimed.last_name ?? undefined,
+      dob: claimed.dob,
+      gender: claimed.gender,
+      class_id: claimed.class_id,
+      start_date: claimed.start_date,
+      student_language: claimed.student_language ?? undefined,
+      medical_notes: claimed.medical_notes ?? undefined,
+      allergies: claimed.allergies ?? undefined,
+      allergy_tags: claimed.allergy_tags,
+      emergency_contact: claimed.emergency_contact ?? undefined,
+      address: claimed.address ?? undefined,
+      social_security_number: claimed.ssn ?? undefined,
+      guardian_ids: claimed.guardian_ids,
+    });
+    if (!studentValidation.success) {
+      await releaseStudentRequest({ orgId, id: requestId });
+      return NextResponse.json(
+        { error: `Request cannot be approved: ${formatZodError(studentValidation.error)}` },
+        { status: 400 },
+      );
+    }
+
+    let student: { id: string } | null = null;
+    try {
+      const studentResponse = await createStudentFromBody(adminClient, orgId, studentValidation.data);
+      if (!studentResponse.ok) {
+        await releaseStudentRequest({ orgId, id: requestId });
+        return studentResponse;
+      }
+
+      ({ student } = (await studentResponse.json()) as { student: { id: string } });
+      const studentRequest = await completeStudentRequestApproval({
+        orgId,
+        id: requestId,
+        studentId: student.id,
+      });
+
+      return NextResponse.json(
+        { request: studentRequest, student, message: 'Student request approved' },
+        { status: 200, headers: getNoCacheHeaders() },
+      );
+    } catch (err: unknown) {
+      // Put the request back in the queue; a student created for it is removed
+      // so approving again does not leave a duplicate
+      if (student) {
+        const { error: deleteError } = await adminClient
+          .from('students')
+          .update({ deleted_at: new Date().toISOString() })
+          .eq('id', student.id)
+          .eq('org_id', orgId);
+        if (deleteError) {
+          console.error('Failed to remove student after approval failed', deleteError);
+        }
+      }
+      try {
+        await releaseStudentRequest({ orgId, id: requestId });
+      } catch (releaseErr) {
+        console.error('Failed to release student request after approval failed', releaseErr);
+      }
+      throw err;
+    }
+  } catch (err: unknown) {
+    console.error('Error deciding student request', err);
+    return serviceErrorResponse(
+      err,
+      'Failed to update student request',
+      'Unexpected error while updating student request',
+    );
+  }
+}
@@ -1,3 +1,4 @@
+import { randomUUID } from 'crypto';
 import { NextResponse } from 'next/server';
 import type { SupabaseClient } from '@supabase/supabase-js';
 
@@ -8,9 +9,16 @@ import {
   postStudentBodySchema,
   putStudentBodySchema,
   deleteStudentQuerySchema,
+  type PostStudentBody,
 } from '@/lib/validation/students';
 import type { AuthUser, UserMetadata, SamveraRole } from '@/lib/types/auth';
 import { getCurrentUserOrgId } from '@/lib/server-helpers';
+import {
+  decryptStudentSensitiveFields,
+  encryptStudentSensitiveFields,
+  getStudentSensitiveReadScope,
+  redactStudentSensitiveFields,
+} from '@/lib/services/studentDataCrypto';
 
 export async function handleGetStudents(
   request: Request,
@@ -107,6 +115,8 @@ export async function handleGetStudents(
         medical_notes_encrypted,
         allergies_encrypted,
         emergency_contact_encrypted,
+        allergy_tags,
+        graduated_at,
         created_at,
         updated_at,
         classes!students_class_id_fkey (
@@ -133,6 +143,12 @@ export async function handleGetStudents(
     query = query.in('id', allowedStudentIds);
   }
 
+  // Graduated children stay out of staff lists; guardians keep seeing them
+  // until their access expires, and a single student can still be opened
+  if (!allowedStudentIds && !studentId) {
+    query = query.is('graduated_at', null);
+  }
+
   const { data: students, error } = await query;
 
   if (error) {
@@ -140,9 +156,27 @@ export async function handleGetStudents(
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 
+  // Medical notes, allergies and emergency contacts are decrypted here and
+  // only for children the user cares for
+  let readableStudents;
+  try {
+    const canRead = await getStudentSensitiveReadScope({ orgId, userId: user.id, roles });
+    readableStudents = await Promise.all(
+      (students || []).map((student) =>
+        canRead(student) ? decryptStudentSensitiveFields(orgId, student) : redactStudentSensitiveFields(student),
+      ),
+    );
+  } catch (err) {
+    console.error('❌ Error decrypting student data:', err);
+    return NextResponse.json(
+      { error: 'Failed to decrypt student data' },
+      { status: 500 },
+    );
+  }
+
   // Fetch guardian relationships for each student
   const studentsWithGuardians = await Promise.all(
-    (students || []).map(async (student) => {
+    readableStudents.map(async (student) => {
       const { data: guardianRelations, error: guardianError } = await adminClient
         .from('guardian_students')
         .select(`
@@ -252,6 +286,20 @@ export async function handlePostStudent(
   if (!bodyValidation.success) {
     return bodyValidation.error;
   }
+
+  return createStudentFromBody(adminClient, orgId, bodyValidation.data);
+}
+
+/**
+ * Create the student's users and students rows and link the guardians.
+ * Shared by POST /api/students and approved student requests, so both
+ * go through the same age check, encryption and guardian handling.
+ */
+export async function createStudentFromBody(
+  adminClient: SupabaseClient,
+  orgId: string,
+  data: PostStudentBody,
+): Promise<NextResponse> {
   const {
     first_name,
     last_name,
@@ -263,11 +311,12 @@ export async function handlePostStudent(
     student_language: normalizedLanguage,
     medical_notes,
     allergies,
+    allergy_tags,
     emergency_contact,
     address,
     social_security_number,
     guardian_ids,
-  } = bodyValidation.data;
+  } = data;
 
   if (!first_name) {
     return NextResponse.json(
@@ -308,6 +357,24 @@ export async function handlePostStudent(
     }
   }
 
+  // Encrypt before anything is written so a key problem leaves no partial student behind;
+  // the student id is assigned here because the encrypted fields are bound to it
+  const newStudentId = randomUUID();
+  let encryptedFields;
+  try {
+    encryptedFields = await encryptStudentSensitiveFields(orgId, newStudentId, {
+      medical_notes,
+      allergies,
+      emergency_contact,
+    });
+  } catch (err) {
+    console.error('❌ Failed to encrypt student data:', err);
+    return NextResponse.json(
+      { error: 'Failed to encrypt student data' },
+      { status: 500 },
+    );
+  }
+
   console.log('📋 Creating student:', {
     first_name,
     last_name,
@@ -379,6 +446,7 @@ export async function handlePostStudent(
   const { data: student, error: studentError } = await adminClient
     .from('students')
     .insert({
+      id: newStudentId,
       user_id: userId,
       class_id: class_id || null,
       org_id: orgId,
@@ -386,9 +454,8 @@ export async function handlePostStudent(
       start_date: validatedStartDate,
       barngildi: normalizedBarngildi || 0.5,
       student_language: normalizedLanguage || 'english',
-      medical_notes_encrypted: medical_notes || null,
-      allergies_encrypted: allergies || null,
-      emergency_contact_encrypted: emergency_contact || null,
+      ...encryptedFields,
+      allergy_tags: allergy_tags ?? [],
     })
     .select(
       'id,user_id,class_id,registration_time,start_date,barngildi,student_language,created_at',
@@ -513,12 +580,28 @@ export async function handlePutStudent(
     student_language: normalizedLanguage,
     medical_notes,
     allergies,
+    allergy_tags,
     emergency_contact,
     address,
     social_security_number,
     guardian_ids,
   } = bodyValidation.data;
 
+  let encryptedFields;
+  try {
+    encryptedFields = await encryptStudentSensitiveFields(orgId, id, {
+      medical_notes,
+      allergies,
+      emergency_contact,
+    });
+  } catch (err) {
+    console.error('❌ Failed to encrypt student data:', err);
+    return NextResponse.json(
+      { error: 'Failed to encrypt student data' },
+      { status: 500 },
+    );
+  }
+
   console.log('📋 Updating student:', {
     id,
     first_name,
@@ -574,9 +657,8 @@ export async function handlePutStudent(
       start_date: validatedStartDate,
       barngildi: normalizedBarngildi || 0.5,
       student_language: normalizedLanguage || 'english',
-      medical_notes_encrypted: medical_notes || null,
-      allergies_encrypted: allergies || null,
-      emergency_contact_encrypted: emergency_contact || null,
+      ...encryptedFields,
+      ...(allergy_tags !== undefined ? { allergy_tags } : {}),
       updated_at: new Date().toISOString(),
     })
     .eq('id', id)
@@ -1,24 +1,94 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import type { TeacherClass, Student, AttendanceRecord } from '@/lib/types/attendance';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type {
+  TeacherClass,
+  Student,
+  AttendanceRecord,
+  AttendanceSyncState,
+  BatchAttendanceRecord,
+  PickupSelection,
+} from '@/lib/types/attendance';
+import { useAuth } from '@/lib/hooks/useAuth';
+import {
+  enqueueAttendanceChanges,
+  getQueuedAttendanceChanges,
+  removeQueuedAttendanceChanges,
+  type QueueOwner,
+  type QueuedAttendanceChange,
+} from '@/lib/utils/attendanceQueue';
+
+/**
+ * Raised when the batch endpoint rejects the request;
+ * these are not retried as individual saves.
+ */
+class AttendanceValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttendanceValidationError';
+  }
+}
+
+/**
+ * Queued changes the batch endpoint rejected in a 400 response. The batch is
+ * all-or-nothing, so the culprits are read from the error details: per-record
+ * entries with student_id/date, or validation paths like "records.3.left_at".
+ */
+function findRejectedEntries(
+  entries: QueuedAttendanceChange[],
+  errorData: { details?: unknown },
+): QueuedAttendanceChange[] {
+  const { details } = errorData;
+  if (Array.isArray(details)) {
+    return entries.filter((entry) =>
+      details.some(
+        (detail: { student_id?: string; date?: string }) =>
+          detail?.student_id === entry.record.student_id && (!detail.date || detail.date === entry.record.date),
+      ),
+    );
+  }
+  if (typeof details === 'string') {
+    const indexes = new Set([...details.matchAll(/records\.(\d+)\./g)].map((match) => Number(match[1])));
+    return entries.filter((_, index) => indexes.has(index));
+  }
+  return [];
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && !navigator.onLine;
+}
 
 /**
  * Hook to manage attendance state, loading, and saving
- * Supports optimistic updates for better UX
+ * Supports optimistic updates for better UX.
+ * Changes made without a connection are queued in IndexedDB and
+ * replayed to the batch endpoint when the browser comes back online.
  */
 export function useAttendance(
   students: Student[],
   classes: TeacherClass[]
 ) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  // Queued changes belong to the teacher who made them and are never replayed under another login
+  const orgId = (user?.user_metadata as { org_id?: string } | undefined)?.org_id;
   const [attendance, setAttendance] = useState<Record<string, string>>({});
   const [savedAttendance, setSavedAttendance] = useState<Record<string, string>>({});
   const [attendanceRecords, setAttendanceRecords] = useState<Record<string, AttendanceRecord>>({});
   const [leftAt, setLeftAt] = useState<Record<string, string | null>>({});
   const [savedLeftAt, setSavedLeftAt] = useState<Record<string, string | null>>({});
+  // Who is collecting each child marked as gone (sent with the next save)
+  const [pickedUpBy, setPickedUpBy] = useState<Record<string, PickupSelection>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [hasLoadedInitial, setHasLoadedInitial] = useState(false);
+  const [syncState, setSyncState] = useState<AttendanceSyncState>('idle');
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [conflictCount, setConflictCount] = useState(0);
+  // Queued changes the server refused; they are dropped so the rest can sync
+  const [rejectedCount, setRejectedCount] = useState(0);
+  const isSyncingRef = useRef(false);
+  const loadedDateRef = useRef<string | null>(null);
 
   // Load attendance for a specific date
   const loadAttendance = useCallback(
@@ -69,6 +139,7 @@ export function useAttendance(
         setLeftAt(allLeftAt);
         setSavedLeftAt(allLeftAt);
         setAttendanceRecords(allRecords);
+        loadedDateRef.current = date;
         console.log('✅ Attendance loaded for date:', date, allAttendance);
       } catch (error) {
         console.error('❌ Error loading attendance:', error);
@@ -85,7 +156,8 @@ export function useAttendance(
     studentId: string,
     status: string,
     classId?: string | null,
-    leftAtValue?: string | null
+    leftAtValue?: string | null,
+    pickup?: PickupSelection
   ): Promise<boolean> => {
     try {
       const today = new Date().toISOString().split('T')[0];
@@ -117,6 +189,8 @@ export function useAttendance(
           date: today,
           status: finalStatus,
           left_at: finalLeftAt,
+          picked_up_by_guardian_id: pickup?.guardian_id ?? null,
+          picked_up_by_relative_id: pickup?.relative_id ?? null,
         }),
       });
 
@@ -189,15 +263,67 @@ export function useAttendance(
           // Otherwise, use the current leftAt value (which may be null or undefined)
         }
 
+        const pickup = status === 'gone' ? pickedUpBy[student.id] : undefined;
+
         return {
           student_id: student.id,
           status: finalStatus as any,
           date: today,
           class_id: classId,
           left_at: finalLeftAt,
+          picked_up_by_guardian_id: pickup?.guardian_id ?? null,
+          picked_up_by_relative_id: pickup?.relative_id ?? null,
         };
       });
 
+      // Mark the changes as saved in local state (after the server or the offline queue accepted them)
+      const markChangesSaved = () => {
+        setSavedAttendance({ ...attendance, ...changes });
+        const newLeftAt = { ...leftAt };
+        studentsToSave.forEach((student) => {
+          const status = changes[student.id] ?? attendance[student.id] ?? '';
+          if (status === 'gone') {
+            newLeftAt[student.id] = new Date().toISOString();
+          } else if (status !== 'gone' && leftAt[student.id]) {
+            newLeftAt[student.id] = null;
+          }
+        });
+        setSavedLeftAt(newLeftAt);
+        setLeftAt(newLeftAt);
+      };
+
+      // Keep the changes on this device until the connection comes back
+      const queueChanges = async () => {
+        if (!userId || !orgId) {
+          throw new Error('You are offline and signed out. Attendance was not saved.');
+        }
+        const owner: QueueOwner = { userId, orgId };
+        try {
+          await enqueueAttendanceChanges(
+            owner,
+            records.map((record) => ({
+              ...record,
+              // The server version this change was made against, for conflict checks on replay
+              base_updated_at: attendanceRecords[record.student_id]?.updated_at ?? null,
+            })) as BatchAttendanceRecord[],
+          );
+        } catch (queueError) {
+          console.error('❌ Could not queue attendance offline:', queueError);
+          throw new Error('You are offline and this browser cannot keep the changes on the device. Attendance was not saved.');
+        }
+        const queued = await getQueuedAttendanceChanges(owner);
+        setQueuedCount(queued.length);
+        setSyncState('queued');
+        setPickedUpBy({});
+        markChangesSaved();
+        console.log(`📥 Queued attendance for ${studentsToSave.length} student(s) while offline`);
+      };
+
+      if (isOffline()) {
+        await queueChanges();
+        return;
+      }
+
       // Try batch endpoint first
       try {
         const batchResponse = await fetch('/api/attendance/batch', {
@@ -208,25 +334,41 @@ export function useAttendance(
           }),
         });
 
+        // Validation errors (e.g. unverified pickup person) must not fall back to individual saves
+        if (batchResponse.status === 400) {
+          const errorData = await batchResponse.json().catch(() => ({}));
+          const details = Array.isArray(errorData.details)
+            ? errorData.details.map((d: { message?: string }) => d.message).filter(Boolean)
+            : [];
+          throw new AttendanceValidationError(
+            [errorData.error, ...new Set(details)].filter(Boolean).join(': ') || 'Validation failed',
+          );
+        }
+
         if (batchResponse.ok) {
           const batchData = await batchResponse.json();
-          setSavedAttendance({ ...attendance, ...changes });
-          const newLeftAt = { ...leftAt };
-          studentsToSave.forEach((student) => {
-            const status = changes[student.id] ?? attendance[student.id] ?? '';
-            if (status === 'gone') {
-              newLeftAt[student.id] = new Date().toISOString();
-            } else if (status !== 'gone' && leftAt[student.id]) {
-              newLeftAt[student.id] = null;
-            }
+          setAttendanceRecords((prev) => {
+            const next = { ...prev };
+            ((batchData.attendance || []) as AttendanceRecord[]).forEach((record) => {
+              next[record.student_id] = record;
+            });
+            return next;
           });
-          setSavedLeftAt(newLeftAt);
-          setLeftAt(newLeftAt);
+          setPickedUpBy({});
+          markChangesSaved();
           console.log(`✅ Successfully saved attendance for ${studentsToSave.length} student(s) via batch`);
           setIsSaving(false);
           return;
         }
       } catch (batchError) {
+        if (batchError instanceof AttendanceValidationError) {
+          throw batchError;
+        }
+        // fetch rejects with a TypeError when the network is unreachable
+        if (batchError instanceof TypeError) {
+          await queueChanges();
+          return;
+        }
         console.warn('Batch endpoint failed, falling back to individual saves:', batchError);
       }
 
@@ -235,7 +377,8 @@ export function useAttendance(
         const status = changes[student.id] ?? attendance[student.id] ?? 'absent';
         const classId = student.class_id || (student as any)?.classes?.id || null;
         const currentLeftAt = leftAtChanges?.[student.id] ?? leftAt[student.id] ?? null;
-        return saveAttendanceRecord(student.id, status, classId, currentLeftAt);
+        const pickup = status === 'gone' ? pickedUpBy[student.id] : undefined;
+        return saveAttendanceRecord(student.id, status, classId, currentLeftAt, pickup);
       });
 
       const results = await Promise.allSettled(savePromises);
@@ -245,18 +388,7 @@ export function useAttendance(
       const failureCount = results.length - successCount;
 
       if (failureCount === 0) {
-        setSavedAttendance({ ...attendance, ...changes });
-        const newLeftAt = { ...leftAt };
-        studentsToSave.forEach((student) => {
-          const status = changes[student.id] ?? attendance[student.id] ?? '';
-          if (status === 'gone') {
-            newLeftAt[student.id] = new Date().toISOString();
-          } else if (status !== 'gone' && leftAt[student.id]) {
-            newLeftAt[student.id] = null;
-          }
-        });
-        setSavedLeftAt(newLeftAt);
-        setLeftAt(newLeftAt);
+        markChangesSaved();
         console.log(`✅ Successfully saved attendance for ${successCount} student(s)`);
       } else {
         console.error(`❌ Failed to save attendance for ${failureCount} student(s)`);
@@ -268,10 +400,145 @@ export function useAttendance(
     } finally {
       setIsSaving(false);
     }
-  }, [isSaving, students, attendance, savedAttendance, leftAt, savedLeftAt, attendanceRecords, saveAttendanceRecord]);
+  }, [isSaving, students, attendance, savedAttendance, leftAt, savedLeftAt, attendanceRecords, pickedUpBy, saveAttendanceRecord, userId, orgId]);
+
+  // Replay queued offline changes to the batch endpoint.
+  // Records someone else changed on the server after the offline edit come back as
+  // conflicts; the server version wins and replaces the local state.
+  const syncQueuedAttendance = useCallback(async () => {
+    if (isSyncingRef.current || isOffline() || !userId || !orgId) {
+      return;
+    }
+    const owner: QueueOwner = { userId, orgId };
+
+    const queued = await getQueuedAttendanceChanges(owner);
+    setQueuedCount(queued.length);
+    if (queued.length === 0) {
+      return;
+    }
+
+    isSyncingRef.current = true;
+    setSyncState('syncing');
+    try {
+      const sendBatch = async (entries: QueuedAttendanceChange[]) => {
+        const response = await fetch('/api/attendance/batch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            records: entries.map((entry) => ({ ...entry.record, changed_at: entry.changed_at })),
+          }),
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok && response.status !== 400) {
+          throw new Error(`Failed with status ${response.status}`);
+        }
+        return { rejected: response.status === 400, data };
+      };
+
+      const saved: AttendanceRecord[] = [];
+      const conflicts: AttendanceRecord[] = [];
+      const rejected: QueuedAttendanceChange[] = [];
+      const accept = async (entries: QueuedAttendanceChange[], data: { attendance?: AttendanceRecord[]; conflicts?: AttendanceRecord[] }) => {
+        saved.push(...(data.attendance || []));
+        conflicts.push(...(data.conflicts || []));
+        await removeQueuedAttendanceChanges(entries.map((entry) => entry.key));
+      };
+      const reject = async (entries: QueuedAttendanceChange[], data: unknown) => {
+        console.error('❌ Queued attendance rejected by server:', data);
+        rejected.push(...entries);
+        await removeQueuedAttendanceChanges(entries.map((entry) => entry.key));
+      };
+
+      // A rejected record would block the queue forever, so drop only that record and resend the rest
+      let pending = queued;
+      while (pending.length > 0) {
+        const result = await sendBatch(pending);
+        if (!result.rejected) {
+          await accept(pending, result.data);
+          break;
+        }
+        const culprits = findRejectedEntries(pending, result.data);
+        if (culprits.length === 0) {
+          // The error does not say which record failed; send them one at a time
+          for (const entry of pending) {
+            const single = await sendBatch([entry]);
+            await (single.rejected ? reject([entry], single.data) : accept([entry], single.data));
+          }
+          break;
+        }
+        await reject(culprits, result.data);
+        pending = pending.filter((entry) => !culprits.includes(entry));
+      }
+
+      // Only records for the date on screen are reflected in state
+      const visible = [...saved, ...conflicts].filter((record) => record.date === loadedDateRef.current);
+      setAttendanceRecords((prev) => {
+        const next = { ...prev };
+        visible.forEach((record) => {
+          next[record.student_id] = record;
+        });
+        return next;
+      });
+      if (conflicts.length > 0) {
+        const applyServerStatus = (prev: Record<string, string>) => {
+          const next = { ...prev };
+          conflicts
+            .filter((record) => record.date === loadedDateRef.current)
+            .forEach((record) => {
+              next[record.student_id] = record.status;
+            });
+          return next;
+        };
+        const applyServerLeftAt = (prev: Record<string, string | null>) => {
+          const next = { ...prev };
+          conflicts
+            .filter((record) => record.date === loadedDateRef.current)
+            .forEach((record) => {
+              next[record.student_id] = record.left_at || null;
+            });
+          return next;
+        };
+        setAttendance(applyServerStatus);
+        setSavedAttendance(applyServerStatus);
+        setLeftAt(applyServerLeftAt);
+        setSavedLeftAt(applyServerLeftAt);
+      }
+
+      setConflictCount(conflicts.length);
+      setRejectedCount(rejected.length);
+      setQueuedCount(0);
+      setSyncState(rejected.length > 0 ? 'rejected' : 'synced');
+      console.log(`✅ Synced ${saved.length} queued attendance record(s), ${conflicts.length} conflict(s)`);
+    } catch (error) {
+      console.warn('Queued attendance sync failed, will retry when online:', error);
+      // Records accepted or rejected before the failure are already off the queue
+      setQueuedCount((await getQueuedAttendanceChanges(owner)).length);
+      setSyncState('queued');
+    } finally {
+      isSyncingRef.current = false;
+    }
+  }, [userId, orgId]);
+
+  // Replay the queue on load and whenever the browser reconnects
+  useEffect(() => {
+    syncQueuedAttendance();
+    window.addEventListener('online', syncQueuedAttendance);
+    return () => window.removeEventListener('online', syncQueuedAttendance);
+  }, [syncQueuedAttendance]);
 
   // Update attendance state (optimistic update)
-  const updateAttendance = useCallback((studentId: string, status: string) => {
+  // pickup names who is collecting the child when status is 'gone'
+  const updateAttendance = useCallback((studentId: string, status: string, pickup?: PickupSelection) => {
+    setSyncState((prev) => (prev === 'synced' || prev === 'rejected' ? 'idle' : prev));
+    setPickedUpBy((prev) => {
+      const next = { ...prev };
+      if (status === 'gone' && pickup) {
+        next[studentId] = pickup;
+      } else {
+        delete next[studentId];
+      }
+      return next;
+    });
     setAttendance((prev) => {
       const newAttendance = { ...prev, [studentId]: status };
       
@@ -304,12 +571,18 @@ export function useAttendance(
     attendanceRecords,
     leftAt,
     savedLeftAt,
+    pickedUpBy,
+    syncState,
+    queuedCount,
+    conflictCount,
+    rejectedCount,
     isLoading,
     isSaving,
     hasLoadedInitial,
     loadAttendance,
     saveAttendance,
     updateAttendance,
+    syncQueuedAttendance,
   };
 }
 
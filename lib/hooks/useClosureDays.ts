@@ -0,0 +1,64 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ClosureDay } from '@/lib/types/attendance';
+
+interface UseClosureDaysOptions {
+  from?: string;
+  to?: string;
+  /** Skip fetching until the caller is ready (e.g. no session yet) */
+  enabled?: boolean;
+}
+
+/**
+ * Hook to fetch the organization's closure days.
+ * The API scopes the list by role: guardians only get org-wide closures
+ * and those of their children's classes.
+ */
+export function useClosureDays({ from, to, enabled = true }: UseClosureDaysOptions = {}) {
+  const [closures, setClosures] = useState<ClosureDay[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadClosures = useCallback(
+    async (signal?: AbortSignal) => {
+      const params = new URLSearchParams({ t: String(Date.now()) });
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+
+      try {
+        setIsLoading(true);
+        setError(null);
+        const res = await fetch(`/api/attendance/closures?${params.toString()}`, {
+          cache: 'no-store',
+          signal,
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || `HTTP ${res.status}`);
+        }
+        setClosures(data.closures || []);
+      } catch (err: unknown) {
+        if (signal?.aborted) return;
+        console.error('Error loading closure days:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load closure days');
+      } finally {
+        if (!signal?.aborted) {
+          setIsLoading(false);
+        }
+      }
+    },
+    [from, to],
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    const controller = new AbortController();
+    void loadClosures(controller.signal);
+    return () => controller.abort();
+  }, [enabled, loadClosures]);
+
+  const reload = useCallback(() => loadClosures(), [loadClosures]);
+
+  return { closures, isLoading, error, reload };
+}
@@ -0,0 +1,59 @@
+// Script to rotate the data keys that encrypt student medical data
+// Run this with: npx tsx lib/rotateStudentDataKeys.ts [--org <org-id>]
+//
+// Each organization gets a new data key and every student and student request row
+// is re-encrypted with it, including rows still holding plaintext from before encryption.
+// To replace the master key, move the old value to STUDENT_DATA_PREVIOUS_MASTER_KEY,
+// set the new STUDENT_DATA_MASTER_KEY and run this script.
+
+import { config } from 'dotenv';
+import path from 'path';
+
+// Load environment variables from .env
+config({ path: path.resolve(process.cwd(), '.env') });
+
+async function main() {
+  // Imported after the environment is loaded
+  const { supabaseAdmin } = await import('./supabaseClient');
+  const { rotateOrgDataKey } = await import('./services/studentDataCrypto');
+
+  if (!supabaseAdmin) {
+    console.error('SUPABASE_SERVICE_ROLE_KEY is required to rotate data keys');
+    process.exit(1);
+  }
+
+  const orgFlag = process.argv.indexOf('--org');
+  let orgIds: string[];
+  if (orgFlag !== -1 && process.argv[orgFlag + 1]) {
+    orgIds = [process.argv[orgFlag + 1]];
+  } else {
+    const { data, error } = await supabaseAdmin.from('orgs').select('id');
+    if (error) {
+      console.error('Failed to load organizations:', error);
+      process.exit(1);
+    }
+    orgIds = ((data ?? []) as Array<{ id: string }>).map((org) => org.id);
+  }
+
+  let failed = 0;
+  for (const orgId of orgIds) {
+    try {
+      const { version, rows } = await rotateOrgDataKey(orgId);
+      console.log(`✅ ${orgId}: data key v${version}, ${rows} row(s) re-encrypted`);
+    } catch (err) {
+      failed++;
+      console.error(`❌ ${orgId}: rotation failed`, err);
+    }
+  }
+
+  if (failed > 0) {
+    console.error(`${failed} organization(s) failed; their rows remain readable with the previous key. Re-run to retry.`);
+    process.exit(1);
+  }
+  console.log(`Rotated data keys for ${orgIds.length} organization(s).`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
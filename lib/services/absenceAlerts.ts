@@ -0,0 +1,284 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { listClosureDays } from '@/lib/services/closureDays';
+import { createBulkNotifications } from '@/lib/services/notifications';
+import { enText } from '@/lib/translations/en';
+import { isText } from '@/lib/translations/is';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+import { fetchAllPages } from '@/lib/utils/supabasePaging';
+import { getLocalDateTime } from '@/lib/utils/timezoneUtils';
+
+/**
+ * Error class for unexplained-absence alert failures
+ */
+export class AbsenceAlertServiceError extends ServiceError {
+  name = 'AbsenceAlertServiceError';
+}
+
+type OrgAlertSettings = {
+  id: string;
+  timezone: string | null;
+  absence_alert_cutoff: string | null;
+};
+
+type StudentRow = {
+  id: string;
+  users: { first_name: string | null; last_name: string | null } | null;
+};
+
+export type AbsenceAlertRunResult = {
+  org_id: string;
+  date: string;
+  skipped?: 'weekend' | 'closed' | 'before_cutoff' | 'already_sent';
+  student_ids: string[];
+};
+
+/**
+ * Students who are expected today but have no attendance row,
+ * no active guardian notice covering the date and whose class is open.
+ */
+async function findUnexplainedAbsences(
+  orgId: string,
+  date: string,
+  closedClassIds: Set<string>,
+): Promise<StudentRow[]> {
+  const [studentsResult, attendanceResult, noticesResult] = await Promise.all([
+    supabaseAdmin!
+      .from('students')
+      .select('id, class_id, start_date, users!students_user_id_fkey (first_name, last_name)')
+      .eq('org_id', orgId)
+      .is('deleted_at', null)
+      .is('graduated_at', null),
+    supabaseAdmin!
+      .from('attendance')
+      .select('student_id')
+      .eq('org_id', orgId)
+      .eq('date', date),
+    supabaseAdmin!
+      .from('absence_notices')
+      .select('student_id')
+      .eq('org_id', orgId)
+      .is('cancelled_at', null)
+      .lte('start_date', date)
+      .gte('end_date', date),
+  ]);
+
+  const error = studentsResult.error ?? attendanceResult.error ?? noticesResult.error;
+  if (error) {
+    throw new AbsenceAlertServiceError('Failed to load attendance for absence alerts', 500, error);
+  }
+
+  const explained = new Set([
+    ...(attendanceResult.data ?? []).map((row: { student_id: string }) => row.student_id),
+    ...(noticesResult.data ?? []).map((row: { student_id: string }) => row.student_id),
+  ]);
+
+  return ((studentsResult.data ?? []) as unknown as Array<
+    StudentRow & { class_id: string | null; start_date: string | null }
+  >)
+    .filter((student) => !student.start_date || student.start_date <= date)
+    .filter((student) => !student.class_id || !closedClassIds.has(student.class_id))
+    .filter((student) => !explained.has(student.id));
+}
+
+function studentName(student: StudentRow): string {
+  return `${student.users?.first_name ?? ''} ${student.users?.last_name ?? ''}`.trim();
+}
+
+/**
+ * Children whose guardians already had today's alert, so a run retried after
+ * a partial failure does not notify them twice
+ */
+async function fetchAlertedStudentIds(orgId: string, date: string): Promise<Set<string>> {
+  const { data, error } = await fetchAllPages((rangeFrom, rangeTo) =>
+    supabaseAdmin!
+      .from('notifications')
+      .select('student_id:data->>student_id')
+      .eq('org_id', orgId)
+      .eq('type', 'absence_unexplained')
+      .eq('data->>date', date)
+      .order('id', { ascending: true })
+      .range(rangeFrom, rangeTo),
+  );
+
+  if (error) {
+    throw new AbsenceAlertServiceError('Failed to load sent absence alerts', 500, error);
+  }
+  return new Set((data as Array<{ student_id: string | null }>).map((row) => row.student_id ?? ''));
+}
+
+/**
+ * Notify each child's guardians in their own language, then send
+ * the org's principals one summary listing every child.
+ * Guardians already alerted today are skipped.
+ */
+async function sendAbsenceAlerts(orgId: string, date: string, students: StudentRow[]): Promise<void> {
+  const studentIds = students.map((s) => s.id);
+
+  const [linksResult, principalsResult, alertedStudentIds] = await Promise.all([
+    supabaseAdmin!
+      .from('guardian_students')
+      .select('student_id, guardian_id, users!guardian_students_guardian_id_fkey (language)')
+      .eq('org_id', orgId)
+      .in('student_id', studentIds),
+    supabaseAdmin!
+      .from('users')
+      .select('id, language')
+      .eq('org_id', orgId)
+      .eq('role', 'principal')
+      .eq('is_active', true)
+      .is('deleted_at', null),
+    fetchAlertedStudentIds(orgId, date),
+  ]);
+
+  if (linksResult.error || principalsResult.error) {
+    throw new AbsenceAlertServiceError(
+      'Failed to load absence alert recipients',
+      500,
+      linksResult.error ?? principalsResult.error,
+    );
+  }
+
+  const links = (linksResult.data ?? []) as unknown as Array<{
+    student_id: string;
+    guardian_id: string;
+    users: { language: string | null } | null;
+  }>;
+
+  for (const student of students.filter((s) => !alertedStudentIds.has(s.id))) {
+    const guardiansByLanguage = new Map<'en' | 'is', string[]>();
+    links
+      .filter((link) => link.student_id === student.id)
+      .forEach((link) => {
+        const language = link.users?.language === 'en' ? 'en' : 'is';
+        guardiansByLanguage.set(language, [...(guardiansByLanguage.get(language) ?? []), link.guardian_id]);
+      });
+
+    const firstName = student.users?.first_name ?? '';
+    for (const [language, guardianIds] of guardiansByLanguage) {
+      const text = language === 'en' ? enText : isText;
+      await createBulkNotifications(
+        orgId,
+        guardianIds,
+        'absence_unexplained',
+        text.notification_absence_unexplained_title.replace('{name}', firstName),
+        text.notification_absence_unexplained_body.replace('{name}', firstName),
+        { student_id: student.id, date },
+        'high',
+      );
+    }
+  }
+
+  const principals = (principalsResult.data ?? []) as Array<{ id: string; language: string | null }>;
+  const names = students.map(studentName).join(', ');
+  for (const language of ['en', 'is'] as const) {
+    const principalIds = principals
+      .filter((p) => (p.language === 'en' ? 'en' : 'is') === language)
+      .map((p) => p.id);
+    if (principalIds.length === 0) continue;
+
+    const text = language === 'en' ? enText : isText;
+    await createBulkNotifications(
+      orgId,
+      principalIds,
+      'absence_summary',
+      text.notification_absence_summary_title,
+      text.notification_absence_summary_body
+        .replace('{count}', String(students.length))
+        .replace('{names}', names),
+      { date, student_ids: studentIds },
+    );
+  }
+}
+
+/**
+ * Check one organization. Alerts go out once per local weekday the org is open,
+ * on the first run after the org's cut-off; the absence_alert_runs row is claimed before
+ * sending so overlapping runs cannot notify twice.
+ */
+async function runOrgAbsenceAlerts(org: OrgAlertSettings, now: Date): Promise<AbsenceAlertRunResult> {
+  const { date, time, weekday } = getLocalDateTime(now, org.timezone || 'UTC');
+  const result: AbsenceAlertRunResult = { org_id: org.id, date, student_ids: [] };
+
+  if (weekday === 'Sat' || weekday === 'Sun') {
+    return { ...result, skipped: 'weekend' };
+  }
+  if (time < (org.absence_alert_cutoff || '09:30').slice(0, 5)) {
+    return { ...result, skipped: 'before_cutoff' };
+  }
+
+  const closures = await listClosureDays({ orgId: org.id, fromDate: date, toDate: date });
+  if (closures.some((closure) => closure.class_id === null)) {
+    return { ...result, skipped: 'closed' };
+  }
+  const closedClassIds = new Set(closures.map((closure) => closure.class_id!));
+
+  const { error: claimError } = await supabaseAdmin!
+    .from('absence_alert_runs')
+    .insert({ org_id: org.id, date });
+
+  if (claimError) {
+    // Unique violation: another run already handled this org today
+    if (claimError.code === '23505') {
+      return { ...result, skipped: 'already_sent' };
+    }
+    throw new AbsenceAlertServiceError('Failed to record absence alert run', 500, claimError);
+  }
+
+  let students: StudentRow[];
+  try {
+    students = await findUnexplainedAbsences(org.id, date, closedClassIds);
+    if (students.length > 0) {
+      await sendAbsenceAlerts(org.id, date, students);
+    }
+  } catch (err) {
+    // Release the claim so the next run can retry; guardians already alerted are skipped then
+    await supabaseAdmin!.from('absence_alert_runs').delete().eq('org_id', org.id).eq('date', date);
+    throw err;
+  }
+  if (students.length === 0) {
+    return result;
+  }
+
+  const studentIds = students.map((s) => s.id);
+
+  const { error: updateError } = await supabaseAdmin!
+    .from('absence_alert_runs')
+    .update({ student_ids: studentIds })
+    .eq('org_id', org.id)
+    .eq('date', date);
+
+  if (updateError) {
+    console.error('Failed to store alerted students for absence alert run', updateError);
+  }
+
+  return { ...result, student_ids: studentIds };
+}
+
+/**
+ * Scheduled check across all active organizations with absence alerts enabled.
+ * A failure in one organization is logged and does not stop the others.
+ */
+export async function runAbsenceAlerts(now: Date = new Date()): Promise<AbsenceAlertRunResult[]> {
+  assertSupabaseAdmin('Absence alert service');
+
+  const { data: orgs, error } = await supabaseAdmin!
+    .from('orgs')
+    .select('id, timezone, absence_alert_cutoff')
+    .eq('is_active', true)
+    .eq('absence_alerts_enabled', true)
+    .is('deleted_at', null);
+
+  if (error) {
+    throw new AbsenceAlertServiceError('Failed to load organizations for absence alerts', 500, error);
+  }
+
+  const results: AbsenceAlertRunResult[] = [];
+  for (const org of (orgs ?? []) as OrgAlertSettings[]) {
+    try {
+      results.push(await runOrgAbsenceAlerts(org, now));
+    } catch (err) {
+      console.error(`Absence alerts failed for org ${org.id}:`, err);
+    }
+  }
+  return results;
+}
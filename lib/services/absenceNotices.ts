@@ -0,0 +1,333 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { upsertAttendance } from '@/lib/services/attendance';
+import { findClosedDays } from '@/lib/services/closureDays';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+
+import type { AbsenceNotice, AttendanceRecord } from '@/lib/types/attendance';
+import type { PostAbsenceNoticeBody } from '@/lib/validation/attendance';
+
+/**
+ * Error class for absence notice failures
+ */
+export class AbsenceNoticeServiceError extends ServiceError {
+  name = 'AbsenceNoticeServiceError';
+}
+
+const NOTICE_COLUMNS =
+  'id,org_id,student_id,guardian_id,kind,start_date,end_date,note,created_at,updated_at,cancelled_at';
+
+const NOTICE_STATUS: Record<AbsenceNotice['kind'], AttendanceRecord['status']> = {
+  sick: 'away_sick',
+  holiday: 'away_holiday',
+};
+
+function todayDateString(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * List the weekdays (Mon-Fri) between two YYYY-MM-DD dates, inclusive
+ */
+function listWeekdays(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const cursor = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+  while (cursor <= end) {
+    const day = cursor.getUTCDay();
+    if (day !== 0 && day !== 6) {
+      dates.push(cursor.toISOString().slice(0, 10));
+    }
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+/**
+ * Ensure the guardian is linked to the student within the organization
+ */
+async function assertGuardianLinked(orgId: string, guardianId: string, studentId: string) {
+  const { data, error } = await supabaseAdmin!
+    .from('guardian_students')
+    .select('id')
+    .eq('org_id', orgId)
+    .eq('guardian_id', guardianId)
+    .eq('student_id', studentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new AbsenceNoticeServiceError('Failed to verify guardian link', 500, error);
+  }
+  if (!data) {
+    throw new AbsenceNoticeServiceError('You can only report absences for your own children', 403);
+  }
+}
+
+type ListAbsenceNoticesArgs = {
+  orgId: string;
+  studentIds?: string[];
+  classId?: string;
+  fromDate?: string;
+};
+
+/**
+ * List active (not cancelled) absence notices that end on or after fromDate.
+ * Optionally restricted to a set of students or a single class.
+ */
+export async function listAbsenceNotices({
+  orgId,
+  studentIds,
+  classId,
+  fromDate,
+}: ListAbsenceNoticesArgs): Promise<AbsenceNotice[]> {
+  assertSupabaseAdmin('Absence notice service');
+
+  try {
+    let query = supabaseAdmin!
+      .from('absence_notices')
+      .select(NOTICE_COLUMNS)
+      .eq('org_id', orgId)
+      .is('cancelled_at', null)
+      .gte('end_date', fromDate ?? todayDateString())
+      .order('start_date', { ascending: true });
+
+    if (studentIds) {
+      if (studentIds.length === 0) {
+        return [];
+      }
+      query = query.in('student_id', studentIds);
+    }
+
+    if (classId) {
+      const { data: classStudents, error: classError } = await supabaseAdmin!
+        .from('students')
+        .select('id')
+        .eq('org_id', orgId)
+        .eq('class_id', classId)
+        .is('deleted_at', null);
+
+      if (classError) {
+        throw new AbsenceNoticeServiceError('Failed to fetch absence notices', 500, classError);
+      }
+      const classStudentIds = (classStudents ?? []).map((s) => s.id as string);
+      if (classStudentIds.length === 0) {
+        return [];
+      }
+      query = query.in('student_id', classStudentIds);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new AbsenceNoticeServiceError('Failed to fetch absence notices', 500, error);
+    }
+
+    return (data ?? []) as AbsenceNotice[];
+  } catch (error) {
+    if (error instanceof AbsenceNoticeServiceError) {
+      throw error;
+    }
+    throw new AbsenceNoticeServiceError('Failed to fetch absence notices', 500, error);
+  }
+}
+
+/**
+ * Undo a notice whose prefill failed part way: remove the attendance it
+ * prefilled and the notice itself, so the guardian can simply try again.
+ */
+async function rollbackNotice(noticeId: string): Promise<void> {
+  const { error: attendanceError } = await supabaseAdmin!
+    .from('attendance')
+    .delete()
+    .eq('notice_id', noticeId);
+  if (attendanceError) {
+    console.error('Failed to remove prefilled attendance for absence notice', noticeId, attendanceError);
+  }
+
+  const { error: noticeError } = await supabaseAdmin!
+    .from('absence_notices')
+    .delete()
+    .eq('id', noticeId);
+  if (noticeError) {
+    console.error('Failed to remove absence notice after a failed prefill', noticeId, noticeError);
+  }
+}
+
+type CreateAbsenceNoticeArgs = {
+  orgId: string;
+  guardianId: string;
+  payload: PostAbsenceNoticeBody;
+};
+
+/**
+ * Record a guardian's absence notice and prefill away_sick/away_holiday
+ * attendance for each weekday it covers.
+ * Days that staff have already recorded and closure days are left untouched.
+ * If prefilling fails the notice and its prefilled days are removed again.
+ */
+export async function createAbsenceNotice({
+  orgId,
+  guardianId,
+  payload,
+}: CreateAbsenceNoticeArgs): Promise<{ notice: AbsenceNotice; prefilledDates: string[] }> {
+  assertSupabaseAdmin('Absence notice service');
+
+  const { student_id, kind, start_date, end_date, note } = payload;
+
+  if (start_date < todayDateString()) {
+    throw new AbsenceNoticeServiceError('Absences cannot be reported for past days', 400);
+  }
+
+  await assertGuardianLinked(orgId, guardianId, student_id);
+
+  let noticeId: string | null = null;
+  try {
+    const { data: student, error: studentError } = await supabaseAdmin!
+      .from('students')
+      .select('id, class_id')
+      .eq('id', student_id)
+      .eq('org_id', orgId)
+      .is('deleted_at', null)
+      .is('graduated_at', null)
+      .maybeSingle();
+
+    if (studentError) {
+      throw new AbsenceNoticeServiceError('Failed to save absence notice', 500, studentError);
+    }
+    if (!student) {
+      throw new AbsenceNoticeServiceError('Student not found', 404);
+    }
+
+    const { data: notice, error: insertError } = await supabaseAdmin!
+      .from('absence_notices')
+      .insert({
+        org_id: orgId,
+        student_id,
+        guardian_id: guardianId,
+        kind,
+        start_date,
+        end_date,
+        note: note || null,
+      })
+      .select(NOTICE_COLUMNS)
+      .single();
+
+    if (insertError || !notice) {
+      throw new AbsenceNoticeServiceError('Failed to save absence notice', 500, insertError);
+    }
+    noticeId = notice.id;
+
+    // Skip days that already have a staff-recorded status
+    const { data: existing, error: existingError } = await supabaseAdmin!
+      .from('attendance')
+      .select('date, notice_id')
+      .eq('student_id', student_id)
+      .gte('date', start_date)
+      .lte('date', end_date);
+
+    if (existingError) {
+      throw new AbsenceNoticeServiceError('Failed to prefill attendance', 500, existingError);
+    }
+
+    const staffRecordedDates = new Set(
+      (existing ?? []).filter((r) => !r.notice_id).map((r) => r.date as string),
+    );
+    const openDates = listWeekdays(start_date, end_date).filter(
+      (date) => !staffRecordedDates.has(date),
+    );
+
+    // Closure days have no attendance to prefill
+    const closedDates = new Set(
+      (await findClosedDays(orgId, openDates.map((date) => ({ date, class_id: student.class_id }))))
+        .map((entry) => entry.date),
+    );
+    const prefilledDates = openDates.filter((date) => !closedDates.has(date));
+
+    for (const date of prefilledDates) {
+      await upsertAttendance({
+        orgId,
+        userId: guardianId,
+        noticeId: notice.id,
+        payload: {
+          student_id,
+          class_id: student.class_id ?? undefined,
+          date,
+          status: NOTICE_STATUS[kind],
+          notes: note || undefined,
+        },
+      });
+    }
+
+    return { notice: notice as AbsenceNotice, prefilledDates };
+  } catch (error) {
+    if (noticeId) {
+      await rollbackNotice(noticeId);
+    }
+    if (error instanceof AbsenceNoticeServiceError) {
+      throw error;
+    }
+    throw new AbsenceNoticeServiceError('Failed to save absence notice', 500, error);
+  }
+}
+
+type CancelAbsenceNoticeArgs = {
+  orgId: string;
+  guardianId: string;
+  id: string;
+};
+
+/**
+ * Cancel an absence notice and remove the attendance it prefilled
+ * for today and later days, unless staff have since changed the status.
+ */
+export async function cancelAbsenceNotice({
+  orgId,
+  guardianId,
+  id,
+}: CancelAbsenceNoticeArgs): Promise<void> {
+  assertSupabaseAdmin('Absence notice service');
+
+  const { data: notice, error: fetchError } = await supabaseAdmin!
+    .from('absence_notices')
+    .select(NOTICE_COLUMNS)
+    .eq('id', id)
+    .eq('org_id', orgId)
+    .is('cancelled_at', null)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new AbsenceNoticeServiceError('Failed to cancel absence notice', 500, fetchError);
+  }
+  if (!notice) {
+    throw new AbsenceNoticeServiceError('Absence notice not found', 404);
+  }
+
+  await assertGuardianLinked(orgId, guardianId, notice.student_id);
+
+  try {
+    const now = new Date().toISOString();
+    const { error: updateError } = await supabaseAdmin!
+      .from('absence_notices')
+      .update({ cancelled_at: now, updated_at: now })
+      .eq('id', id);
+
+    if (updateError) {
+      throw new AbsenceNoticeServiceError('Failed to cancel absence notice', 500, updateError);
+    }
+
+    const { error: deleteError } = await supabaseAdmin!
+      .from('attendance')
+      .delete()
+      .eq('notice_id', id)
+      .eq('status', NOTICE_STATUS[notice.kind as AbsenceNotice['kind']])
+      .gte('date', todayDateString());
+
+    if (deleteError) {
+      throw new AbsenceNoticeServiceError('Failed to clear prefilled attendance', 500, deleteError);
+    }
+  } catch (error) {
+    if (error instanceof AbsenceNoticeServiceError) {
+      throw error;
+    }
+    throw new AbsenceNoticeServiceError('Failed to cancel absence notice', 500, error);
+  }
+}
@@ -0,0 +1,373 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+import { fetchAllPages } from '@/lib/utils/supabasePaging';
+import { enText } from '@/lib/translations/en';
+import { isText } from '@/lib/translations/is';
+import { toPdf, type PdfBlock } from '@/lib/utils/pdfUtils';
+import { GRADING_ORG_TYPES } from '@/lib/constants/assessments';
+
+import type { Assessment, ReportCardSubject } from '@/lib/types/assessments';
+import type { PostAssessmentsBody, PutAssessmentBody } from '@/lib/validation/assessments';
+
+/**
+ * Error class for gradebook and report card failures
+ */
+export class AssessmentServiceError extends ServiceError {
+  name = 'AssessmentServiceError';
+}
+
+const ASSESSMENT_COLUMNS = `
+  id,
+  org_id,
+  class_id,
+  student_id,
+  title,
+  description,
+  subject,
+  grade,
+  score,
+  max_score,
+  assessed_by,
+  assessed_at,
+  created_at,
+  updated_at,
+  assessed_by_user:users!assessments_assessed_by_fkey (first_name, last_name)
+`;
+
+type Language = 'en' | 'is';
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function personName(person: { first_name: string | null; last_name: string | null } | null | undefined): string {
+  if (!person) return '';
+  return `${person.first_name ?? ''} ${person.last_name ?? ''}`.trim();
+}
+
+/**
+ * Grading is only offered to schools; preschools have no gradebook
+ */
+export async function assertGradingEnabled(orgId: string): Promise<void> {
+  assertSupabaseAdmin('Assessment service');
+  const { data, error } = await supabaseAdmin!.from('orgs').select('type').eq('id', orgId).maybeSingle();
+  if (error) {
+    throw new AssessmentServiceError('Failed to load organization', 500, error);
+  }
+  if (!data || !(GRADING_ORG_TYPES as readonly string[]).includes(data.type as string)) {
+    throw new AssessmentServiceError('Grading is only available for elementary and middle schools', 403);
+  }
+}
+
+export async function listAssessments({
+  orgId,
+  classId,
+  studentIds,
+  subject,
+  from,
+  to,
+}: {
+  orgId: string;
+  classId?: string;
+  studentIds?: string[];
+  subject?: string;
+  from?: string;
+  to?: string;
+}): Promise<Assessment[]> {
+  assertSupabaseAdmin('Assessment service');
+
+  const { data, error } = await fetchAllPages((rangeFrom, rangeTo) => {
+    let query = supabaseAdmin!
+      .from('assessments')
+      .select(ASSESSMENT_COLUMNS)
+      .eq('org_id', orgId);
+
+    if (classId) query = query.eq('class_id', classId);
+    if (studentIds) query = query.in('student_id', studentIds);
+    if (subject) query = query.eq('subject', subject);
+    if (from) query = query.gte('assessed_at', `${from}T00:00:00Z`);
+    if (to) query = query.lt('assessed_at', `${addDays(to, 1)}T00:00:00Z`);
+
+    return query
+      .order('assessed_at', { ascending: true })
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(rangeFrom, rangeTo);
+  });
+  if (error) {
+    throw new AssessmentServiceError('Failed to load assessments', 500, error);
+  }
+  return data as unknown as Assessment[];
+}
+
+export async function getAssessment(orgId: string, id: string): Promise<Assessment> {
+  assertSupabaseAdmin('Assessment service');
+  const { data, error } = await supabaseAdmin!
+    .from('assessments')
+    .select(ASSESSMENT_COLUMNS)
+    .eq('id', id)
+    .eq('org_id', orgId)
+    .maybeSingle();
+
+  if (error) {
+    throw new AssessmentServiceError('Failed to load assessment', 500, error);
+  }
+  if (!data) {
+    throw new AssessmentServiceError('Assessment not found', 404);
+  }
+  return data as unknown as Assessment;
+}
+
+/**
+ * Record one assessment for a class: a row per student with a result.
+ * Every student must currently be in the class.
+ */
+export async function createAssessments({
+  orgId,
+  assessedBy,
+  body,
+}: {
+  orgId: string;
+  assessedBy: string;
+  body: PostAssessmentsBody;
+}): Promise<Assessment[]> {
+  assertSupabaseAdmin('Assessment service');
+
+  const studentIds = Array.from(new Set(body.results.map((result) => result.student_id)));
+  if (studentIds.length !== body.results.length) {
+    throw new AssessmentServiceError('Each student can only have one result per assessment', 400);
+  }
+
+  const { data: students, error: studentsError } = await supabaseAdmin!
+    .from('students')
+    .select('id')
+    .eq('org_id', orgId)
+    .eq('class_id', body.class_id)
+    .is('deleted_at', null)
+    .in('id', studentIds);
+  if (studentsError) {
+    throw new AssessmentServiceError('Failed to load students', 500, studentsError);
+  }
+  if ((students ?? []).length !== studentIds.length) {
+    throw new AssessmentServiceError('Some students were not found in this class', 404);
+  }
+
+  const { data, error } = await supabaseAdmin!
+    .from('assessments')
+    .insert(
+      body.results.map((result) => ({
+        org_id: orgId,
+        class_id: body.class_id,
+        student_id: result.student_id,
+        title: body.title,
+        description: body.description ?? null,
+        subject: body.subject,
+        grade: result.grade ?? null,
+        score: result.score ?? null,
+        max_score: body.max_score ?? null,
+        assessed_by: assessedBy,
+        ...(body.assessed_at ? { assessed_at: `${body.assessed_at}T00:00:00Z` } : {}),
+      })),
+    )
+    .select(ASSESSMENT_COLUMNS);
+
+  if (error) {
+    throw new AssessmentServiceError('Failed to save assessment', 500, error);
+  }
+  return (data ?? []) as unknown as Assessment[];
+}
+
+export async function updateAssessment({
+  orgId,
+  id,
+  updatedBy,
+  body,
+}: {
+  orgId: string;
+  id: string;
+  updatedBy: string;
+  body: PutAssessmentBody;
+}): Promise<Assessment> {
+  const existing = await getAssessment(orgId, id);
+
+  const score = body.score !== undefined ? body.score : existing.score;
+  const maxScore = body.max_score !== undefined ? body.max_score : existing.max_score;
+  if (score != null && (maxScore == null || Number(score) > Number(maxScore))) {
+    throw new AssessmentServiceError('Score cannot be higher than max_score', 400);
+  }
+
+  const { assessed_at, ...fields } = body;
+  const { data, error } = await supabaseAdmin!
+    .from('assessments')
+    .update({
+      ...fields,
+      ...(assessed_at ? { assessed_at: `${assessed_at}T00:00:00Z` } : {}),
+      assessed_by: updatedBy,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('org_id', orgId)
+    .select(ASSESSMENT_COLUMNS)
+    .single();
+
+  // max_score changed between the check above and the update
+  if (error?.code === '23514') {
+    throw new AssessmentServiceError('Score cannot be higher than max_score', 400, error);
+  }
+  if (error) {
+    throw new AssessmentServiceError('Failed to update assessment', 500, error);
+  }
+  return data as unknown as Assessment;
+}
+
+export async function deleteAssessment(orgId: string, id: string): Promise<void> {
+  assertSupabaseAdmin('Assessment service');
+  const { error } = await supabaseAdmin!.from('assessments').delete().eq('id', id).eq('org_id', orgId);
+  if (error) {
+    throw new AssessmentServiceError('Failed to delete assessment', 500, error);
+  }
+}
+
+export interface ReportCard {
+  org_name: string;
+  student_name: string;
+  class_name: string | null;
+  from: string;
+  to: string;
+  subjects: ReportCardSubject[];
+}
+
+/**
+ * A student's results for a term, grouped by subject
+ */
+export async function getReportCard({
+  orgId,
+  studentId,
+  from,
+  to,
+}: {
+  orgId: string;
+  studentId: string;
+  from: string;
+  to: string;
+}): Promise<ReportCard> {
+  assertSupabaseAdmin('Assessment service');
+
+  const [{ data: student, error: studentError }, { data: org, error: orgError }] = await Promise.all([
+    supabaseAdmin!
+      .from('students')
+      .select('id, users!students_user_id_fkey (first_name, last_name), classes!students_class_id_fkey (name)')
+      .eq('id', studentId)
+      .eq('org_id', orgId)
+      .is('deleted_at', null)
+      .maybeSingle(),
+    supabaseAdmin!.from('orgs').select('name').eq('id', orgId).maybeSingle(),
+  ]);
+  if (studentError || orgError) {
+    throw new AssessmentServiceError('Failed to load student', 500, studentError ?? orgError);
+  }
+  if (!student) {
+    throw new AssessmentServiceError('Student not found', 404);
+  }
+
+  const assessments = await listAssessments({ orgId, studentIds: [studentId], from, to });
+  const bySubject = new Map<string, Assessment[]>();
+  for (const assessment of assessments) {
+    const subject = assessment.subject ?? '';
+    bySubject.set(subject, [...(bySubject.get(subject) ?? []), assessment]);
+  }
+
+  const subjects: ReportCardSubject[] = Array.from(bySubject.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([subject, subjectAssessments]) => {
+      const scored = subjectAssessments.filter((a) => a.score != null && a.max_score);
+      const averagePercent = scored.length > 0
+        ? Math.round(
+            scored.reduce((sum, a) => sum + (Number(a.score) / Number(a.max_score)) * 100, 0) / scored.length,
+          )
+        : null;
+      return { subject, assessments: subjectAssessments, average_percent: averagePercent };
+    });
+
+  const studentRow = student as unknown as {
+    users: { first_name: string | null; last_name: string | null } | null;
+    classes: { name: string } | null;
+  };
+
+  return {
+    org_name: (org?.name as string | undefined) ?? '',
+    student_name: personName(studentRow.users),
+    class_name: studentRow.classes?.name ?? null,
+    from,
+    to,
+    subjects,
+  };
+}
+
+function formatDate(value: string, lang: Language): string {
+  return new Date(value).toLocaleDateString(lang === 'is' ? 'is-IS' : 'en-GB', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function formatScore(assessment: Assessment): string {
+  if (assessment.score == null) return '';
+  return assessment.max_score != null
+    ? `${Number(assessment.score)} / ${Number(assessment.max_score)}`
+    : String(Number(assessment.score));
+}
+
+/**
+ * Printable report card in the requested language
+ */
+export function buildReportCardPdf(card: ReportCard, lang: Language): Buffer {
+  const text = lang === 'en' ? enText : isText;
+  const period = `${formatDate(card.from, lang)} – ${formatDate(card.to, lang)}`;
+
+  const blocks: PdfBlock[] = [
+    { kind: 'field', label: text.report_card_student, value: card.student_name },
+    { kind: 'field', label: text.report_card_class, value: card.class_name ?? '' },
+    { kind: 'field', label: text.report_card_period, value: period },
+  ];
+
+  if (card.subjects.length === 0) {
+    blocks.push({ kind: 'spacer' }, { kind: 'paragraph', text: text.report_card_no_results, muted: true });
+  }
+
+  for (const subject of card.subjects) {
+    blocks.push(
+      { kind: 'heading', text: subject.subject || text.report_card_no_subject },
+      {
+        kind: 'table',
+        headers: [text.gradebook_assessment, text.gradebook_date, text.gradebook_grade, text.gradebook_score, text.report_card_teacher],
+        rows: subject.assessments.map((assessment) => [
+          assessment.title,
+          formatDate(assessment.assessed_at, lang),
+          assessment.grade ?? '',
+          formatScore(assessment),
+          personName(assessment.assessed_by_user),
+        ]),
+        widths: [3, 2, 1, 1, 2],
+      },
+    );
+    if (subject.average_percent !== null) {
+      blocks.push({
+        kind: 'paragraph',
+        text: text.report_card_average.replace('{percent}', String(subject.average_percent)),
+        muted: true,
+      });
+    }
+  }
+
+  return toPdf({
+    title: text.report_card_pdf_title.replace('{name}', card.student_name),
+    subtitle: [card.org_name, period].filter(Boolean).join(' · '),
+    footer: text.report_card_pdf_title.replace('{name}', card.student_name),
+    blocks,
+  });
+}
@@ -1,11 +1,21 @@
 import { supabaseAdmin } from '@/lib/supabaseClient';
 
-import type { AttendanceRecord } from '@/lib/types/attendance';
+import type {
+  AttendanceClassSummary,
+  AttendanceHistoryEntry,
+  AttendanceRecord,
+  AttendanceReport,
+  AttendanceStudentSummary,
+  AttendanceSummaryCounts,
+} from '@/lib/types/attendance';
 import type {
   GetAttendanceQueryParams,
   PostAttendanceBody,
   PutAttendanceBody,
 } from '@/lib/validation/attendance';
+import type { ResolvedPickup } from '@/lib/services/pickup';
+import { isClosedOn, listClosureDays } from '@/lib/services/closureDays';
+import { fetchAllPages } from '@/lib/utils/supabasePaging';
 
 /**
  * Error class for attendance service failures.
@@ -25,74 +35,237 @@ function assertSupabaseAdmin() {
   }
 }
 
+const PRESENT_STATUSES: ReadonlyArray<AttendanceRecord['status']> = ['arrived', 'late', 'gone'];
+
+/**
+ * arrived_at to store with a status: the first check-in is kept while the child
+ * stays present, set when they are first marked present, and cleared when marked away.
+ */
+export function resolveArrivedAt(
+  status: AttendanceRecord['status'],
+  existingArrivedAt: string | null | undefined,
+  changedAt: string,
+): string | null {
+  if (!PRESENT_STATUSES.includes(status)) {
+    return null;
+  }
+  return existingArrivedAt ?? changedAt;
+}
+
+export type AttendanceStatusChange = {
+  record: AttendanceRecord;
+  /** Status before the save; null when the save created the record */
+  oldStatus: AttendanceRecord['status'] | null;
+  /** Check-out time before the save; null when not checked out or newly created */
+  oldLeftAt?: string | null;
+  /** When the change was made, if earlier than the save (queued offline changes) */
+  changedAt?: string | null;
+};
+
+function sameInstant(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) {
+    return !a && !b;
+  }
+  return Date.parse(a) === Date.parse(b);
+}
+
+/**
+ * Store a history entry for every saved record whose status or check-out changed.
+ * The save has already happened, so failures are logged rather than thrown.
+ */
+export async function recordStatusChanges(changes: AttendanceStatusChange[]): Promise<void> {
+  assertSupabaseAdmin();
+
+  const entries = changes
+    .filter(
+      ({ record, oldStatus, oldLeftAt }) =>
+        record.status !== oldStatus || !sameInstant(record.left_at, oldLeftAt),
+    )
+    .map(({ record, oldStatus, oldLeftAt, changedAt }) => ({
+      org_id: record.org_id,
+      attendance_id: record.id,
+      student_id: record.student_id,
+      date: record.date,
+      old_status: oldStatus,
+      new_status: record.status,
+      old_left_at: oldLeftAt ?? null,
+      new_left_at: record.left_at ?? null,
+      notes: record.notes ?? null,
+      changed_by: record.recorded_by ?? null,
+      changed_at: changedAt ?? record.updated_at ?? new Date().toISOString(),
+    }));
+
+  if (entries.length === 0) {
+    return;
+  }
+
+  const { error } = await supabaseAdmin!.from('attendance_history').insert(entries);
+  if (error) {
+    console.error('Failed to record attendance history', error);
+  }
+}
+
+const HISTORY_LIMIT = 200;
+
+/**
+ * A student's most recent attendance changes, newest first, including
+ * entries whose attendance record has since been deleted.
+ */
+export async function fetchAttendanceHistory({
+  orgId,
+  studentId,
+  limit = HISTORY_LIMIT,
+}: {
+  orgId: string;
+  studentId: string;
+  limit?: number;
+}): Promise<AttendanceHistoryEntry[]> {
+  assertSupabaseAdmin();
+
+  const { data, error } = await supabaseAdmin!
+    .from('attendance_history')
+    .select(
+      `
+      id,
+      attendance_id,
+      student_id,
+      date,
+      old_status,
+      new_status,
+      old_left_at,
+      new_left_at,
+      notes,
+      changed_by,
+      changed_at,
+      changed_by_user:users!attendance_history_changed_by_fkey (
+        id,
+        first_name,
+        last_name
+      )
+    `,
+    )
+    .eq('org_id', orgId)
+    .eq('student_id', studentId)
+    .order('changed_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(Math.min(limit, HISTORY_LIMIT));
+
+  if (error) {
+    throw new AttendanceServiceError('Failed to fetch attendance history', error);
+  }
+
+  return (data ?? []) as unknown as AttendanceHistoryEntry[];
+}
+
 type FetchAttendanceArgs = {
   orgId: string;
+  fromDate?: string;
+  toDate?: string;
+  /** Leave out records on days the organization or the record's class was closed */
+  excludeClosures?: boolean;
 } & GetAttendanceQueryParams;
 
 /**
- * Fetch attendance records filtered by optional class, student, and date.
+ * Fetch attendance records filtered by optional class, student, date,
+ * and inclusive date range (fromDate/toDate).
  */
 export async function fetchAttendanceByFilters({
   orgId,
   classId,
   studentId,
   date,
+  fromDate,
+  toDate,
+  excludeClosures,
 }: FetchAttendanceArgs): Promise<AttendanceRecord[]> {
   assertSupabaseAdmin();
 
   try {
-    let query = supabaseAdmin!
-      .from('attendance')
-      .select(
-        `
-        id,
-        org_id,
-        class_id,
-        student_id,
-        date,
-        status,
-        notes,
-        recorded_by,
-        left_at,
-        created_at,
-        updated_at,
-        students!attendance_student_id_fkey (
+    const { data, error } = await fetchAllPages((rangeFrom, rangeTo) => {
+      let query = supabaseAdmin!
+        .from('attendance')
+        .select(
+          `
           id,
-          user_id,
-          users!students_user_id_fkey (
-            id,
-            first_name,
-            last_name
-          ),
-          classes!students_class_id_fkey (
+          org_id,
+          class_id,
+          student_id,
+          date,
+          status,
+          notes,
+          recorded_by,
+          arrived_at,
+          left_at,
+          notice_id,
+          picked_up_by_guardian_id,
+          picked_up_by_relative_id,
+          picked_up_by_name,
+          created_at,
+          updated_at,
+          students!attendance_student_id_fkey (
             id,
-            name
+            user_id,
+            users!students_user_id_fkey (
+              id,
+              first_name,
+              last_name
+            ),
+            classes!students_class_id_fkey (
+              id,
+              name
+            )
           )
+        `,
         )
-      `,
-      )
-      .eq('org_id', orgId)
-      .order('date', { ascending: false });
+        .eq('org_id', orgId);
 
-    if (classId) {
-      query = query.eq('class_id', classId);
-    }
+      if (classId) {
+        query = query.eq('class_id', classId);
+      }
 
-    if (studentId) {
-      query = query.eq('student_id', studentId);
-    }
+      if (studentId) {
+        query = query.eq('student_id', studentId);
+      }
 
-    if (date) {
-      query = query.eq('date', date);
-    }
+      if (date) {
+        query = query.eq('date', date);
+      }
 
-    const { data, error } = await query;
+      if (fromDate) {
+        query = query.gte('date', fromDate);
+      }
+
+      if (toDate) {
+        query = query.lte('date', toDate);
+      }
+
+      return query
+        .order('date', { ascending: false })
+        .order('id', { ascending: true })
+        .range(rangeFrom, rangeTo);
+    });
 
     if (error) {
       throw new AttendanceServiceError('Failed to fetch attendance', error);
     }
 
-    return (data ?? []) as unknown as AttendanceRecord[];
+    const records = (data ?? []) as unknown as AttendanceRecord[];
+    if (!excludeClosures || records.length === 0) {
+      return records;
+    }
+
+    // Records are newest first
+    const closures = await listClosureDays({
+      orgId,
+      fromDate: records[records.length - 1].date,
+      toDate: records[0].date,
+    });
+    return records.filter(
+      (record) =>
+        !closures.some((closure) =>
+          isClosedOn(closure, record.date, record.class_id ?? record.students?.classes?.id),
+        ),
+    );
   } catch (error) {
     if (error instanceof AttendanceServiceError) {
       throw error;
@@ -101,10 +274,28 @@ export async function fetchAttendanceByFilters({
   }
 }
 
+/**
+ * Pickup columns to write with a save: the verified person on check-out,
+ * cleared when left_at is cleared, and untouched when left_at is not sent.
+ */
+function pickupFields(
+  leftAt: string | null | undefined,
+  pickup: ResolvedPickup | undefined,
+): { [K in keyof ResolvedPickup]?: ResolvedPickup[K] | null } {
+  if (leftAt === null) {
+    return { picked_up_by_guardian_id: null, picked_up_by_relative_id: null, picked_up_by_name: null };
+  }
+  return leftAt !== undefined && pickup ? pickup : {};
+}
+
 type UpsertAttendanceArgs = {
   orgId: string;
   userId: string;
   payload: PostAttendanceBody;
+  /** Absence notice the record was prefilled from, if any */
+  noticeId?: string | null;
+  /** Verified person collecting the child when left_at is set */
+  pickup?: ResolvedPickup;
 };
 
 /**
@@ -115,29 +306,31 @@ export async function upsertAttendance({
   orgId,
   userId,
   payload,
+  noticeId,
+  pickup,
 }: UpsertAttendanceArgs): Promise<AttendanceRecord> {
   assertSupabaseAdmin();
 
   const { class_id, student_id, date, status, notes, left_at } = payload;
 
+  const { data: existing } = await supabaseAdmin!
+    .from('attendance')
+    .select('status, arrived_at, left_at')
+    .eq('student_id', student_id)
+    .eq('date', date)
+    .maybeSingle();
+
   // If left_at is being set, preserve the existing status if it's not 'gone'
   // Otherwise use the provided status
   let finalStatus = status;
   if (left_at !== undefined && left_at !== null) {
-    // When marking as gone, preserve original status
-    // First check if record exists
-    const { data: existing } = await supabaseAdmin!
-      .from('attendance')
-      .select('status')
-      .eq('student_id', student_id)
-      .eq('date', date)
-      .single();
-    
     if (existing && existing.status !== 'gone') {
       finalStatus = existing.status;
     }
   }
 
+  const now = new Date().toISOString();
+
   try {
     const { data, error } = await supabaseAdmin!
       .from('attendance')
@@ -150,8 +343,11 @@ export async function upsertAttendance({
           status: finalStatus,
           notes: notes || null,
           recorded_by: userId,
+          arrived_at: resolveArrivedAt(finalStatus, existing?.arrived_at, now),
           left_at: left_at !== undefined ? left_at : undefined,
-          updated_at: new Date().toISOString(),
+          ...pickupFields(left_at, pickup),
+          notice_id: noticeId !== undefined ? noticeId : undefined,
+          updated_at: now,
         },
         {
           onConflict: 'student_id,date',
@@ -159,7 +355,7 @@ export async function upsertAttendance({
         },
       )
       .select(
-        'id,org_id,class_id,student_id,date,status,notes,recorded_by,left_at,created_at,updated_at',
+        'id,org_id,class_id,student_id,date,status,notes,recorded_by,arrived_at,left_at,notice_id,picked_up_by_guardian_id,picked_up_by_relative_id,picked_up_by_name,created_at,updated_at',
       )
       .single()
       .returns<AttendanceRecord>();
@@ -168,6 +364,10 @@ export async function upsertAttendance({
       throw new AttendanceServiceError('Failed to save attendance', error);
     }
 
+    await recordStatusChanges([
+      { record: data, oldStatus: existing?.status ?? null, oldLeftAt: existing?.left_at ?? null },
+    ]);
+
     return data;
   } catch (error) {
     if (error instanceof AttendanceServiceError) {
@@ -180,6 +380,8 @@ export async function upsertAttendance({
 type UpdateAttendanceArgs = {
   userId: string;
   payload: PutAttendanceBody;
+  /** Verified person collecting the child when left_at is set */
+  pickup?: ResolvedPickup;
 };
 
 /**
@@ -188,17 +390,20 @@ type UpdateAttendanceArgs = {
 export async function updateAttendance({
   userId,
   payload,
+  pickup,
 }: UpdateAttendanceArgs): Promise<AttendanceRecord> {
   assertSupabaseAdmin();
 
   const { id, status, notes, left_at } = payload;
 
-  const updateData: Partial<Pick<AttendanceRecord, 'status' | 'notes' | 'left_at'>> & {
-    updated_at: string;
-    recorded_by: string;
-  } = {
+  const updateData: Partial<Pick<AttendanceRecord, 'status' | 'notes' | 'arrived_at' | 'left_at'>> &
+    ReturnType<typeof pickupFields> & {
+      updated_at: string;
+      recorded_by: string;
+    } = {
     updated_at: new Date().toISOString(),
     recorded_by: userId,
+    ...pickupFields(left_at, pickup),
   };
 
   if (typeof status !== 'undefined') {
@@ -214,27 +419,31 @@ export async function updateAttendance({
     updateData.left_at = left_at;
   }
 
+  const { data: existing } = await supabaseAdmin!
+    .from('attendance')
+    .select('status, arrived_at, left_at')
+    .eq('id', id)
+    .maybeSingle();
+
   // If left_at is being set, preserve existing status (unless explicitly changed)
   if (left_at !== undefined && left_at !== null && typeof status === 'undefined') {
-    const { data: existing } = await supabaseAdmin!
-      .from('attendance')
-      .select('status')
-      .eq('id', id)
-      .single();
-    
     if (existing && existing.status !== 'gone') {
       // Preserve original status when marking as gone
       updateData.status = existing.status;
     }
   }
 
+  if (updateData.status) {
+    updateData.arrived_at = resolveArrivedAt(updateData.status, existing?.arrived_at, updateData.updated_at);
+  }
+
   try {
     const { data, error } = await supabaseAdmin!
       .from('attendance')
       .update(updateData)
       .eq('id', id)
       .select(
-        'id,org_id,class_id,student_id,date,status,notes,recorded_by,left_at,created_at,updated_at',
+        'id,org_id,class_id,student_id,date,status,notes,recorded_by,arrived_at,left_at,notice_id,picked_up_by_guardian_id,picked_up_by_relative_id,picked_up_by_name,created_at,updated_at',
       )
       .single()
       .returns<AttendanceRecord>();
@@ -243,6 +452,10 @@ export async function updateAttendance({
       throw new AttendanceServiceError('Failed to update attendance', error);
     }
 
+    await recordStatusChanges([
+      { record: data, oldStatus: existing?.status ?? null, oldLeftAt: existing?.left_at ?? null },
+    ]);
+
     return data;
   } catch (error) {
     if (error instanceof AttendanceServiceError) {
@@ -284,4 +497,144 @@ export async function deleteAttendanceById({
   }
 }
 
+function emptySummaryCounts(): AttendanceSummaryCounts {
+  return {
+    recorded_days: 0,
+    arrived: 0,
+    late: 0,
+    absent: 0,
+    excused: 0,
+    away_sick: 0,
+    away_holiday: 0,
+    absence_rate: 0,
+  };
+}
 
+function addRecordToCounts(counts: AttendanceSummaryCounts, status: AttendanceRecord['status']) {
+  counts.recorded_days += 1;
+  // Legacy 'gone' rows are children who arrived and later left
+  if (status === 'gone') {
+    counts.arrived += 1;
+  } else {
+    counts[status] += 1;
+  }
+}
+
+function finalizeAbsenceRate<T extends AttendanceSummaryCounts>(counts: T): T {
+  const absenceDays = counts.absent + counts.excused + counts.away_sick + counts.away_holiday;
+  counts.absence_rate =
+    counts.recorded_days > 0
+      ? Math.round((absenceDays / counts.recorded_days) * 1000) / 1000
+      : 0;
+  return counts;
+}
+
+type BuildAttendanceReportArgs = {
+  orgId: string;
+  from: string;
+  to: string;
+  classId?: string | null;
+};
+
+/**
+ * Build per-class and per-student attendance summaries for a date range.
+ * Records are grouped by the class they were taken in, falling back to the
+ * student's current class. Absence covers absent, excused, away_sick and away_holiday.
+ * Days the class or organization was closed are left out.
+ */
+export async function buildAttendanceReport({
+  orgId,
+  from,
+  to,
+  classId,
+}: BuildAttendanceReportArgs): Promise<AttendanceReport> {
+  assertSupabaseAdmin();
+
+  const records = await fetchAttendanceByFilters({
+    orgId,
+    classId: classId ?? undefined,
+    fromDate: from,
+    toDate: to,
+    excludeClosures: true,
+  });
+
+  const { data: classRows, error: classesError } = await supabaseAdmin!
+    .from('classes')
+    .select('id, name')
+    .eq('org_id', orgId);
+
+  if (classesError) {
+    throw new AttendanceServiceError('Failed to fetch classes for report', classesError);
+  }
+
+  const classNames = new Map<string, string>(
+    (classRows ?? []).map((c: { id: string; name: string }) => [c.id, c.name]),
+  );
+
+  const students = new Map<string, AttendanceStudentSummary>();
+  const classes = new Map<string, AttendanceClassSummary & { studentIds: Set<string> }>();
+  const totals = emptySummaryCounts();
+
+  for (const record of records) {
+    const recordClassId = record.class_id ?? record.students?.classes?.id ?? null;
+    const recordClassName = recordClassId
+      ? classNames.get(recordClassId) ?? record.students?.classes?.name ?? null
+      : null;
+
+    let studentSummary = students.get(record.student_id);
+    if (!studentSummary) {
+      studentSummary = {
+        ...emptySummaryCounts(),
+        student_id: record.student_id,
+        first_name: record.students?.users?.first_name ?? '',
+        last_name: record.students?.users?.last_name ?? null,
+        class_id: recordClassId,
+        class_name: recordClassName,
+      };
+      students.set(record.student_id, studentSummary);
+    }
+
+    const classKey = recordClassId ?? 'unassigned';
+    let classSummary = classes.get(classKey);
+    if (!classSummary) {
+      classSummary = {
+        ...emptySummaryCounts(),
+        class_id: recordClassId,
+        class_name: recordClassName,
+        student_count: 0,
+        studentIds: new Set<string>(),
+      };
+      classes.set(classKey, classSummary);
+    }
+
+    addRecordToCounts(studentSummary, record.status);
+    addRecordToCounts(classSummary, record.status);
+    addRecordToCounts(totals, record.status);
+    classSummary.studentIds.add(record.student_id);
+  }
+
+  const classSummaries: AttendanceClassSummary[] = Array.from(classes.values())
+    .map(({ studentIds, ...summary }) =>
+      finalizeAbsenceRate({ ...summary, student_count: studentIds.size }),
+    )
+    .sort((a, b) => (a.class_name ?? '').localeCompare(b.class_name ?? ''));
+
+  const studentSummaries = Array.from(students.values())
+    .map((summary) => finalizeAbsenceRate(summary))
+    .sort(
+      (a, b) =>
+        (a.class_name ?? '').localeCompare(b.class_name ?? '') ||
+        a.first_name.localeCompare(b.first_name) ||
+        (a.last_name ?? '').localeCompare(b.last_name ?? ''),
+    );
+
+  return {
+    from,
+    to,
+    class_id: classId ?? null,
+    generated_at: new Date().toISOString(),
+    totals: finalizeAbsenceRate(totals),
+    classes: classSummaries,
+    students: studentSummaries,
+  };
+}
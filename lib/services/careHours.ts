@@ -0,0 +1,198 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { fetchAttendanceByFilters } from '@/lib/services/attendance';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+
+import type {
+  CareHoursClassSummary,
+  CareHoursDay,
+  CareHoursReport,
+  CareHoursStudentSummary,
+  CareHoursTotals,
+} from '@/lib/types/attendance';
+
+/**
+ * Error class for hours-in-care calculation failures
+ */
+export class CareHoursServiceError extends ServiceError {
+  name = 'CareHoursServiceError';
+}
+
+type StudentRow = {
+  id: string;
+  class_id: string | null;
+  barngildi: number | null;
+  users: { first_name: string | null; last_name: string | null } | null;
+  classes: { id: string; name: string } | null;
+};
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+function emptyTotals(): CareHoursTotals {
+  return { days_in_care: 0, open_days: 0, hours: 0, weighted_hours: 0 };
+}
+
+function roundHours(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Hours between check-in and check-out, or null while the child has not been checked out
+ */
+export function calculateDailyHours(arrivedAt: string, leftAt: string | null | undefined): number | null {
+  if (!leftAt) {
+    return null;
+  }
+  const ms = Date.parse(leftAt) - Date.parse(arrivedAt);
+  return Number.isFinite(ms) && ms > 0 ? ms / MS_PER_HOUR : 0;
+}
+
+function addDay(totals: CareHoursTotals, hours: number | null, barngildi: number) {
+  totals.days_in_care += 1;
+  if (hours === null) {
+    totals.open_days += 1;
+    return;
+  }
+  totals.hours += hours;
+  totals.weighted_hours += hours * barngildi;
+}
+
+function finalizeTotals<T extends CareHoursTotals>(totals: T): T {
+  totals.hours = roundHours(totals.hours);
+  totals.weighted_hours = roundHours(totals.weighted_hours);
+  return totals;
+}
+
+type BuildCareHoursReportArgs = {
+  orgId: string;
+  month: string;
+  classId?: string | null;
+  studentId?: string | null;
+};
+
+/**
+ * Daily and monthly hours in care per child, with per-class and org totals.
+ * Hours run from arrived_at to left_at and are weighted by the child's current barngildi.
+ * Children are grouped by their current class so class totals match staffing.
+ */
+export async function buildCareHoursReport({
+  orgId,
+  month,
+  classId,
+  studentId,
+}: BuildCareHoursReportArgs): Promise<CareHoursReport> {
+  assertSupabaseAdmin('Care hours service');
+
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  const from = `${month}-01`;
+  const to = `${month}-${String(lastDay).padStart(2, '0')}`;
+
+  let studentsQuery = supabaseAdmin!
+    .from('students')
+    .select(
+      `
+      id,
+      class_id,
+      barngildi,
+      users!students_user_id_fkey (first_name, last_name),
+      classes!students_class_id_fkey (id, name)
+    `,
+    )
+    .eq('org_id', orgId)
+    .is('deleted_at', null);
+
+  if (classId) {
+    studentsQuery = studentsQuery.eq('class_id', classId);
+  }
+  if (studentId) {
+    studentsQuery = studentsQuery.eq('id', studentId);
+  }
+
+  const [{ data: studentRows, error: studentsError }, records] = await Promise.all([
+    studentsQuery,
+    fetchAttendanceByFilters({ orgId, studentId: studentId ?? undefined, fromDate: from, toDate: to }),
+  ]);
+
+  if (studentsError) {
+    throw new CareHoursServiceError('Failed to fetch students for care hours', 500, studentsError);
+  }
+
+  const students = new Map<string, CareHoursStudentSummary>();
+  for (const row of (studentRows ?? []) as unknown as StudentRow[]) {
+    students.set(row.id, {
+      ...emptyTotals(),
+      student_id: row.id,
+      first_name: row.users?.first_name ?? '',
+      last_name: row.users?.last_name ?? null,
+      class_id: row.class_id,
+      class_name: row.classes?.name ?? null,
+      barngildi: Number(row.barngildi ?? 1),
+      days: [],
+    });
+  }
+
+  // Records are newest first; days are listed oldest first
+  for (const record of [...records].reverse()) {
+    const summary = students.get(record.student_id);
+    if (!summary || !record.arrived_at) continue;
+
+    const hours = calculateDailyHours(record.arrived_at, record.left_at);
+    const day: CareHoursDay = {
+      date: record.date,
+      arrived_at: record.arrived_at,
+      left_at: record.left_at ?? null,
+      hours: hours === null ? null : roundHours(hours),
+    };
+    summary.days.push(day);
+    addDay(summary, hours, summary.barngildi);
+  }
+
+  const classes = new Map<string, CareHoursClassSummary>();
+  const totals = emptyTotals();
+
+  for (const summary of students.values()) {
+    if (summary.days_in_care === 0) continue;
+
+    const classKey = summary.class_id ?? 'unassigned';
+    let classSummary = classes.get(classKey);
+    if (!classSummary) {
+      classSummary = {
+        ...emptyTotals(),
+        class_id: summary.class_id,
+        class_name: summary.class_name,
+        student_count: 0,
+      };
+      classes.set(classKey, classSummary);
+    }
+
+    for (const target of [classSummary, totals]) {
+      target.days_in_care += summary.days_in_care;
+      target.open_days += summary.open_days;
+      target.hours += summary.hours;
+      target.weighted_hours += summary.weighted_hours;
+    }
+    classSummary.student_count += 1;
+  }
+
+  const sortedStudents = [...students.values()]
+    .filter((s) => s.days_in_care > 0)
+    .map(finalizeTotals)
+    .sort(
+      (a, b) =>
+        (a.class_name ?? '').localeCompare(b.class_name ?? '') ||
+        a.first_name.localeCompare(b.first_name),
+    );
+
+  return {
+    month,
+    from,
+    to,
+    class_id: classId ?? null,
+    generated_at: new Date().toISOString(),
+    totals: finalizeTotals(totals),
+    classes: [...classes.values()]
+      .map(finalizeTotals)
+      .sort((a, b) => (a.class_name ?? '').localeCompare(b.class_name ?? '')),
+    students: sortedStudents,
+  };
+}
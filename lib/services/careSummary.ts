@@ -0,0 +1,181 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+import { fetchAllPages } from '@/lib/utils/supabasePaging';
+import { getLocalDateTime } from '@/lib/utils/timezoneUtils';
+
+import type { CareBaseline, ChildCareSummary, DailyCareSummary } from '@/lib/types/health-logs';
+
+/**
+ * Error class for care summary failures
+ */
+export class CareSummaryServiceError extends ServiceError {
+  name = 'CareSummaryServiceError';
+}
+
+/** Days before the window that make up a child's usual pattern */
+const BASELINE_DAYS = 28;
+/** Fewer days with care logged than this is not enough to call anything usual */
+const MIN_BASELINE_DAYS = 3;
+/** Naps longer than this are taken to be a forgotten wake-up time */
+const MAX_NAP_MINUTES = 6 * 60;
+
+const CARE_LOG_TYPES = ['diaper_wet', 'diaper_dirty', 'diaper_mixed', 'nap', 'meal', 'temperature'];
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function emptyDay(date: string): DailyCareSummary {
+  return {
+    date,
+    diapers: { wet: 0, dirty: 0, mixed: 0 },
+    naps: 0,
+    nap_minutes: 0,
+    meals: 0,
+    temperatures: [],
+  };
+}
+
+function napMinutes(recordedAt: string, data: Record<string, unknown> | null): number {
+  const endedAt = typeof data?.ended_at === 'string' ? Date.parse(data.ended_at) : NaN;
+  if (Number.isNaN(endedAt)) return 0;
+  const minutes = Math.round((endedAt - Date.parse(recordedAt)) / 60000);
+  return minutes > 0 && minutes <= MAX_NAP_MINUTES ? minutes : 0;
+}
+
+function baselineFrom(days: DailyCareSummary[]): CareBaseline | null {
+  if (days.length < MIN_BASELINE_DAYS) return null;
+  const average = (value: (day: DailyCareSummary) => number) =>
+    Math.round((days.reduce((sum, day) => sum + value(day), 0) / days.length) * 10) / 10;
+  return {
+    days: days.length,
+    diapers: average((day) => day.diapers.wet + day.diapers.dirty + day.diapers.mixed),
+    nap_minutes: average((day) => day.nap_minutes),
+    meals: average((day) => day.meals),
+  };
+}
+
+/**
+ * Diapers, naps, meals and temperatures per child and day for the last
+ * `days` days (organization timezone, today included), with each child's
+ * usual pattern from the weeks before
+ */
+export async function getCareSummaries({
+  orgId,
+  studentIds,
+  days,
+}: {
+  orgId: string;
+  studentIds: string[];
+  days: number;
+}): Promise<ChildCareSummary[]> {
+  assertSupabaseAdmin('Care summary service');
+
+  if (studentIds.length === 0) return [];
+
+  const { data: org, error: orgError } = await supabaseAdmin!
+    .from('orgs')
+    .select('timezone')
+    .eq('id', orgId)
+    .maybeSingle();
+
+  if (orgError) {
+    throw new CareSummaryServiceError('Failed to load organization', 500, orgError);
+  }
+  const timeZone = (org as { timezone: string | null } | null)?.timezone ?? 'UTC';
+
+  const today = getLocalDateTime(new Date(), timeZone).date;
+  const windowStart = addDays(today, -(days - 1));
+  const baselineStart = addDays(windowStart, -BASELINE_DAYS);
+
+  const [studentsResult, logsResult] = await Promise.all([
+    supabaseAdmin!
+      .from('students')
+      .select('id, users!students_user_id_fkey (first_name, last_name)')
+      .eq('org_id', orgId)
+      .in('id', studentIds)
+      .is('deleted_at', null),
+    // A day of slack covers any timezone offset; rows are bucketed on their local date.
+    // A class's baseline and window easily pass one page of logs.
+    fetchAllPages((rangeFrom, rangeTo) =>
+      supabaseAdmin!
+        .from('health_logs')
+        .select('student_id, type, recorded_at, temperature_celsius, data')
+        .eq('org_id', orgId)
+        .in('student_id', studentIds)
+        .in('type', CARE_LOG_TYPES)
+        .is('deleted_at', null)
+        .gte('recorded_at', `${addDays(baselineStart, -1)}T00:00:00Z`)
+        .lt('recorded_at', `${addDays(today, 2)}T00:00:00Z`)
+        .order('recorded_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(rangeFrom, rangeTo),
+    ),
+  ]);
+
+  const error = studentsResult.error ?? logsResult.error;
+  if (error) {
+    throw new CareSummaryServiceError('Failed to load care logs', 500, error);
+  }
+
+  // student -> date -> summary, covering the baseline and the window
+  const byStudent = new Map<string, Map<string, DailyCareSummary>>();
+  for (const log of (logsResult.data ?? []) as Array<{
+    student_id: string;
+    type: string;
+    recorded_at: string;
+    temperature_celsius: number | string | null;
+    data: Record<string, unknown> | null;
+  }>) {
+    const { date } = getLocalDateTime(new Date(log.recorded_at), timeZone);
+    if (date < baselineStart || date > today) continue;
+
+    const studentDays = byStudent.get(log.student_id) ?? new Map<string, DailyCareSummary>();
+    byStudent.set(log.student_id, studentDays);
+    const day = studentDays.get(date) ?? emptyDay(date);
+    studentDays.set(date, day);
+
+    switch (log.type) {
+      case 'diaper_wet':
+        day.diapers.wet++;
+        break;
+      case 'diaper_dirty':
+        day.diapers.dirty++;
+        break;
+      case 'diaper_mixed':
+        day.diapers.mixed++;
+        break;
+      case 'nap':
+        day.naps++;
+        day.nap_minutes += napMinutes(log.recorded_at, log.data);
+        break;
+      case 'meal':
+        day.meals++;
+        break;
+      case 'temperature':
+        if (log.temperature_celsius !== null) {
+          day.temperatures.push(Number(log.temperature_celsius));
+        }
+        break;
+    }
+  }
+
+  const windowDates = Array.from({ length: days }, (_, i) => addDays(windowStart, i));
+
+  return ((studentsResult.data ?? []) as unknown as Array<{
+    id: string;
+    users: { first_name: string | null; last_name: string | null } | null;
+  }>).map((student) => {
+    const studentDays = byStudent.get(student.id) ?? new Map<string, DailyCareSummary>();
+    const baselineDays = [...studentDays.values()].filter((day) => day.date < windowStart);
+    return {
+      student_id: student.id,
+      first_name: student.users?.first_name ?? null,
+      last_name: student.users?.last_name ?? null,
+      days: windowDates.map((date) => studentDays.get(date) ?? emptyDay(date)),
+      usual: baselineFrom(baselineDays),
+    };
+  });
+}
@@ -0,0 +1,291 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+import { fetchAllPages } from '@/lib/utils/supabasePaging';
+
+import type {
+  ClassRolloverClassSummary,
+  ClassRolloverGraduate,
+  ClassRolloverMove,
+  ClassRolloverPreview,
+} from '@/lib/types/classes';
+import type { PostClassRolloverBody } from '@/lib/validation/classes';
+
+/**
+ * Error class for class rollover failures
+ */
+export class ClassRolloverServiceError extends ServiceError {
+  name = 'ClassRolloverServiceError';
+}
+
+type NameParts = { first_name: string | null; last_name: string | null } | null;
+
+interface StudentRow {
+  id: string;
+  class_id: string | null;
+  users: NameParts;
+}
+
+interface MembershipRow {
+  class_id: string;
+  user_id: string;
+  membership_role: string;
+  users: NameParts;
+}
+
+interface RolloverState {
+  classNames: Map<string, string>;
+  students: StudentRow[];
+  memberships: MembershipRow[];
+  guardianCounts: Map<string, number>;
+}
+
+function fullName(user: NameParts): string {
+  return `${user?.first_name ?? ''} ${user?.last_name ?? ''}`.trim();
+}
+
+async function loadRolloverState(orgId: string, body: PostClassRolloverBody): Promise<RolloverState> {
+  const [classesResult, studentsResult, membershipsResult] = await Promise.all([
+    supabaseAdmin!.from('classes').select('id, name').eq('org_id', orgId).is('deleted_at', null),
+    fetchAllPages((rangeFrom, rangeTo) =>
+      supabaseAdmin!
+        .from('students')
+        .select('id, class_id, users!students_user_id_fkey (first_name, last_name)')
+        .eq('org_id', orgId)
+        .is('deleted_at', null)
+        .is('graduated_at', null)
+        .order('id', { ascending: true })
+        .range(rangeFrom, rangeTo),
+    ),
+    supabaseAdmin!
+      .from('class_memberships')
+      .select('class_id, user_id, membership_role, users (first_name, last_name)')
+      .eq('org_id', orgId),
+  ]);
+
+  if (classesResult.error) {
+    throw new ClassRolloverServiceError('Failed to load classes', 500, classesResult.error);
+  }
+  if (studentsResult.error) {
+    throw new ClassRolloverServiceError('Failed to load students', 500, studentsResult.error);
+  }
+  if (membershipsResult.error) {
+    throw new ClassRolloverServiceError('Failed to load teacher memberships', 500, membershipsResult.error);
+  }
+
+  const classNames = new Map(
+    ((classesResult.data ?? []) as Array<{ id: string; name: string }>).map((cls) => [cls.id, cls.name]),
+  );
+  const students = (studentsResult.data ?? []) as unknown as StudentRow[];
+
+  for (const move of body.class_moves) {
+    if (!classNames.has(move.from_class_id) || !classNames.has(move.to_class_id)) {
+      throw new ClassRolloverServiceError('Class not found', 404);
+    }
+  }
+  const activeIds = new Set(students.map((student) => student.id));
+  if (body.graduating_student_ids.some((id) => !activeIds.has(id))) {
+    throw new ClassRolloverServiceError(
+      'Some students were not found, are already graduated or do not belong to your organization',
+      404,
+    );
+  }
+
+  const guardianCounts = new Map<string, number>();
+  if (body.graduating_student_ids.length > 0) {
+    const { data, error } = await supabaseAdmin!
+      .from('guardian_students')
+      .select('student_id')
+      .eq('org_id', orgId)
+      .in('student_id', body.graduating_student_ids);
+    if (error) {
+      throw new ClassRolloverServiceError('Failed to load guardians', 500, error);
+    }
+    for (const link of (data ?? []) as Array<{ student_id: string }>) {
+      guardianCounts.set(link.student_id, (guardianCounts.get(link.student_id) ?? 0) + 1);
+    }
+  }
+
+  return {
+    classNames,
+    students,
+    memberships: (membershipsResult.data ?? []) as unknown as MembershipRow[],
+    guardianCounts,
+  };
+}
+
+/**
+ * Teacher memberships after the rollover. Carrying over moves each moved
+ * class's teachers along with its children; resetting clears every class
+ * the rollover touches so teachers can be assigned for the new year.
+ */
+function membershipsAfter(state: RolloverState, body: PostClassRolloverBody): MembershipRow[] {
+  const movedFrom = new Set(body.class_moves.map((move) => move.from_class_id));
+
+  if (body.teacher_memberships === 'reset') {
+    const touched = new Set([...movedFrom, ...body.class_moves.map((move) => move.to_class_id)]);
+    return state.memberships.filter((membership) => !touched.has(membership.class_id));
+  }
+
+  const kept = state.memberships.filter((membership) => !movedFrom.has(membership.class_id));
+  const carried = body.class_moves.flatMap((move) =>
+    state.memberships
+      .filter((membership) => membership.class_id === move.from_class_id)
+      .map((membership) => ({ ...membership, class_id: move.to_class_id })),
+  );
+  const seen = new Set<string>();
+  return [...kept, ...carried].filter((membership) => {
+    const key = `${membership.class_id}:${membership.user_id}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function buildPreview(
+  state: RolloverState,
+  body: PostClassRolloverBody,
+  after: MembershipRow[],
+  now: Date,
+): ClassRolloverPreview {
+  const graduating = new Set(body.graduating_student_ids);
+  const moveTargets = new Map(body.class_moves.map((move) => [move.from_class_id, move.to_class_id]));
+
+  const moves: ClassRolloverMove[] = body.class_moves.map((move) => ({
+    from_class_id: move.from_class_id,
+    from_class_name: state.classNames.get(move.from_class_id) ?? '',
+    to_class_id: move.to_class_id,
+    to_class_name: state.classNames.get(move.to_class_id) ?? '',
+    students: state.students
+      .filter((student) => student.class_id === move.from_class_id && !graduating.has(student.id))
+      .map((student) => ({ id: student.id, name: fullName(student.users) })),
+  }));
+
+  const graduates: ClassRolloverGraduate[] = state.students
+    .filter((student) => graduating.has(student.id))
+    .map((student) => ({
+      id: student.id,
+      name: fullName(student.users),
+      class_name: student.class_id ? state.classNames.get(student.class_id) ?? null : null,
+      guardian_count: state.guardianCounts.get(student.id) ?? 0,
+    }));
+
+  // Where every remaining child sits afterwards
+  const classAfter = (student: StudentRow) =>
+    student.class_id ? moveTargets.get(student.class_id) ?? student.class_id : null;
+
+  const classes: ClassRolloverClassSummary[] = Array.from(state.classNames.entries())
+    .map(([classId, className]) => ({
+      class_id: classId,
+      class_name: className,
+      students_before: state.students.filter((student) => student.class_id === classId).length,
+      students_after: state.students.filter(
+        (student) => !graduating.has(student.id) && classAfter(student) === classId,
+      ).length,
+      teachers_before: state.memberships
+        .filter((membership) => membership.class_id === classId)
+        .map((membership) => fullName(membership.users)),
+      teachers_after: after
+        .filter((membership) => membership.class_id === classId)
+        .map((membership) => fullName(membership.users)),
+    }))
+    .sort((a, b) => a.class_name.localeCompare(b.class_name));
+
+  const expiresAt = new Date(now.getTime() + body.guardian_grace_days * 24 * 60 * 60 * 1000);
+
+  return {
+    rollover_id: null,
+    classes,
+    moves,
+    graduates,
+    teacher_memberships: body.teacher_memberships,
+    guardian_access_expires_at: expiresAt.toISOString(),
+  };
+}
+
+/**
+ * Work out what a rollover would do without changing anything
+ */
+export async function previewClassRollover({
+  orgId,
+  body,
+}: {
+  orgId: string;
+  body: PostClassRolloverBody;
+}): Promise<ClassRolloverPreview> {
+  assertSupabaseAdmin('Class rollover service');
+  const state = await loadRolloverState(orgId, body);
+  return buildPreview(state, body, membershipsAfter(state, body), new Date());
+}
+
+/**
+ * Apply a rollover: archive graduates and start their guardians' grace
+ * period, move each cohort, update teacher memberships and log the run,
+ * all in one transaction. Moves use the student list read up front, so
+ * A→B and B→C in the same rollover do not carry A's children on to C.
+ */
+export async function applyClassRollover({
+  orgId,
+  performedBy,
+  body,
+}: {
+  orgId: string;
+  performedBy: string;
+  body: PostClassRolloverBody;
+}): Promise<ClassRolloverPreview> {
+  assertSupabaseAdmin('Class rollover service');
+  const now = new Date();
+  const state = await loadRolloverState(orgId, body);
+  const after = membershipsAfter(state, body);
+  const preview = buildPreview(state, body, after, now);
+
+  const touched = Array.from(
+    new Set(body.class_moves.flatMap((move) => [move.from_class_id, move.to_class_id])),
+  );
+
+  // One database transaction, so a failure part way leaves nothing half moved
+  const { data: rolloverId, error } = await supabaseAdmin!.rpc('apply_class_rollover', {
+    p_org_id: orgId,
+    p_performed_by: performedBy,
+    p_performed_at: now.toISOString(),
+    p_graduating_student_ids: body.graduating_student_ids,
+    p_guardian_access_expires_at: preview.guardian_access_expires_at,
+    p_class_moves: preview.moves.map((move) => ({
+      from_class_id: move.from_class_id,
+      to_class_id: move.to_class_id,
+      student_ids: move.students.map((student) => student.id),
+    })),
+    p_touched_class_ids: touched,
+    p_memberships: after
+      .filter((membership) => touched.includes(membership.class_id))
+      .map((membership) => ({
+        class_id: membership.class_id,
+        user_id: membership.user_id,
+        membership_role: membership.membership_role,
+      })),
+    p_teacher_memberships: body.teacher_memberships,
+    p_guardian_grace_days: body.guardian_grace_days,
+  });
+  if (error || !rolloverId) {
+    throw new ClassRolloverServiceError('Failed to apply class rollover', 500, error);
+  }
+
+  return { ...preview, rollover_id: rolloverId as string };
+}
+
+/**
+ * Remove guardian links whose grace period after graduation has ended.
+ * Run by the guardian-access cron across all organizations.
+ */
+export async function expireGuardianAccess(): Promise<number> {
+  assertSupabaseAdmin('Class rollover service');
+  const { data, error } = await supabaseAdmin!
+    .from('guardian_students')
+    .delete()
+    .lte('access_expires_at', new Date().toISOString())
+    .select('id');
+
+  if (error) {
+    throw new ClassRolloverServiceError('Failed to remove expired guardian access', 500, error);
+  }
+  return (data ?? []).length;
+}
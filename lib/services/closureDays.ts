@@ -0,0 +1,228 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+
+import type { ClosureDay } from '@/lib/types/attendance';
+import type { PostClosureDayBody } from '@/lib/validation/attendance';
+
+/**
+ * Error class for closure day failures
+ */
+export class ClosureDayServiceError extends ServiceError {
+  name = 'ClosureDayServiceError';
+}
+
+const CLOSURE_COLUMNS =
+  'id,org_id,class_id,kind,title,start_date,end_date,created_by,created_at,updated_at,classes (id, name)';
+
+/**
+ * Whether a closure covers the date for a child in the given class.
+ * Org-wide closures apply to everyone, including children without a class.
+ */
+export function isClosedOn(
+  closure: Pick<ClosureDay, 'class_id' | 'start_date' | 'end_date'>,
+  date: string,
+  classId: string | null | undefined,
+): boolean {
+  if (date < closure.start_date || date > closure.end_date) {
+    return false;
+  }
+  return closure.class_id === null || closure.class_id === classId;
+}
+
+type ListClosureDaysArgs = {
+  orgId: string;
+  fromDate?: string;
+  toDate?: string;
+  /** Limit to org-wide closures and closures of these classes */
+  classIds?: string[];
+};
+
+/**
+ * List closures overlapping the inclusive date range, oldest first.
+ */
+export async function listClosureDays({
+  orgId,
+  fromDate,
+  toDate,
+  classIds,
+}: ListClosureDaysArgs): Promise<ClosureDay[]> {
+  assertSupabaseAdmin('Closure day service');
+
+  let query = supabaseAdmin!
+    .from('closure_days')
+    .select(CLOSURE_COLUMNS)
+    .eq('org_id', orgId)
+    .is('deleted_at', null)
+    .order('start_date', { ascending: true });
+
+  if (fromDate) {
+    query = query.gte('end_date', fromDate);
+  }
+  if (toDate) {
+    query = query.lte('start_date', toDate);
+  }
+  if (classIds) {
+    query = classIds.length > 0
+      ? query.or(`class_id.is.null,class_id.in.(${classIds.join(',')})`)
+      : query.is('class_id', null);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new ClosureDayServiceError('Failed to fetch closure days', 500, error);
+  }
+
+  return (data ?? []) as unknown as ClosureDay[];
+}
+
+type CreateClosureDayArgs = {
+  orgId: string;
+  userId: string;
+  payload: PostClosureDayBody;
+};
+
+/**
+ * Record a closure for the whole organization or one of its classes.
+ * Attendance already recorded in the range is kept as is.
+ */
+export async function createClosureDay({
+  orgId,
+  userId,
+  payload,
+}: CreateClosureDayArgs): Promise<ClosureDay> {
+  assertSupabaseAdmin('Closure day service');
+
+  const { class_id, kind, title, start_date, end_date } = payload;
+
+  if (class_id) {
+    const { data: cls, error: classError } = await supabaseAdmin!
+      .from('classes')
+      .select('id')
+      .eq('id', class_id)
+      .eq('org_id', orgId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (classError) {
+      throw new ClosureDayServiceError('Failed to save closure day', 500, classError);
+    }
+    if (!cls) {
+      throw new ClosureDayServiceError('Class not found', 404);
+    }
+  }
+
+  const { data, error } = await supabaseAdmin!
+    .from('closure_days')
+    .insert({
+      org_id: orgId,
+      class_id: class_id || null,
+      kind,
+      title,
+      start_date,
+      end_date,
+      created_by: userId,
+    })
+    .select(CLOSURE_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new ClosureDayServiceError('Failed to save closure day', 500, error);
+  }
+
+  return data as unknown as ClosureDay;
+}
+
+/**
+ * Remove a closure; attendance can be marked on its days again.
+ */
+export async function deleteClosureDay({ orgId, id }: { orgId: string; id: string }): Promise<void> {
+  assertSupabaseAdmin('Closure day service');
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin!
+    .from('closure_days')
+    .update({ deleted_at: now, updated_at: now })
+    .eq('id', id)
+    .eq('org_id', orgId)
+    .is('deleted_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    throw new ClosureDayServiceError('Failed to delete closure day', 500, error);
+  }
+  if (!data) {
+    throw new ClosureDayServiceError('Closure day not found', 404);
+  }
+}
+
+type AttendanceDay = {
+  date: string;
+  class_id?: string | null;
+};
+
+/**
+ * Return the entries that fall on a closure day for their class.
+ * Used to refuse attendance on days the organization or class is closed.
+ */
+export async function findClosedDays<T extends AttendanceDay>(orgId: string, entries: T[]): Promise<T[]> {
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const dates = entries.map((entry) => entry.date).sort();
+  const closures = await listClosureDays({
+    orgId,
+    fromDate: dates[0],
+    toDate: dates[dates.length - 1],
+  });
+
+  return entries.filter((entry) =>
+    closures.some((closure) => isClosedOn(closure, entry.date, entry.class_id)),
+  );
+}
+
+// Keeps the student id list well inside PostgREST's URL length limit
+const STUDENT_LOOKUP_CHUNK = 200;
+
+/**
+ * Return the entries that fall on a closure day for the student's class.
+ * The class comes from the student's record, not from the request, so a
+ * missing or stale class_id cannot slip past a class closure.
+ */
+export async function findClosedStudentDays<T extends { student_id: string; date: string }>(
+  orgId: string,
+  entries: T[],
+): Promise<T[]> {
+  if (entries.length === 0) {
+    return [];
+  }
+  assertSupabaseAdmin('Closure day service');
+
+  const studentIds = [...new Set(entries.map((entry) => entry.student_id))];
+  const classByStudent = new Map<string, string | null>();
+  for (let i = 0; i < studentIds.length; i += STUDENT_LOOKUP_CHUNK) {
+    const { data, error } = await supabaseAdmin!
+      .from('students')
+      .select('id, class_id')
+      .eq('org_id', orgId)
+      .in('id', studentIds.slice(i, i + STUDENT_LOOKUP_CHUNK));
+    if (error) {
+      throw new ClosureDayServiceError('Failed to load students', 500, error);
+    }
+    for (const row of (data ?? []) as Array<{ id: string; class_id: string | null }>) {
+      classByStudent.set(row.id, row.class_id);
+    }
+  }
+
+  const closed = await findClosedDays(
+    orgId,
+    entries.map((entry) => ({
+      entry,
+      date: entry.date,
+      class_id: classByStudent.get(entry.student_id) ?? null,
+    })),
+  );
+  return closed.map(({ entry }) => entry);
+}
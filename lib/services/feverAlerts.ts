@@ -0,0 +1,230 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { createBulkNotifications } from '@/lib/services/notifications';
+import { enText } from '@/lib/translations/en';
+import { isText } from '@/lib/translations/is';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+
+import type { TemperatureReading, TemperatureTrend } from '@/lib/types/health-logs';
+
+/**
+ * Error class for fever alert failures
+ */
+export class FeverAlertServiceError extends ServiceError {
+  name = 'FeverAlertServiceError';
+}
+
+/** Used when an organization has not set its own threshold */
+export const DEFAULT_FEVER_THRESHOLD_CELSIUS = 38.0;
+
+type Language = 'en' | 'is';
+
+function groupByLanguage(users: Array<{ id: string; language: string | null }>): Map<Language, string[]> {
+  const groups = new Map<Language, string[]>();
+  for (const user of users) {
+    const language: Language = user.language === 'en' ? 'en' : 'is';
+    groups.set(language, [...(groups.get(language) ?? []), user.id]);
+  }
+  return groups;
+}
+
+/**
+ * Temperature at or above which a reading counts as fever for the organization
+ */
+export async function getFeverThreshold(orgId: string): Promise<number> {
+  assertSupabaseAdmin('Fever alert service');
+
+  const { data, error } = await supabaseAdmin!
+    .from('orgs')
+    .select('fever_threshold_celsius')
+    .eq('id', orgId)
+    .maybeSingle();
+
+  if (error) {
+    throw new FeverAlertServiceError('Failed to load fever threshold', 500, error);
+  }
+  const threshold = (data as { fever_threshold_celsius: number | string | null } | null)?.fever_threshold_celsius;
+  return threshold === null || threshold === undefined ? DEFAULT_FEVER_THRESHOLD_CELSIUS : Number(threshold);
+}
+
+async function fetchRecipients(orgId: string, studentId: string, classId: string | null) {
+  const [guardiansResult, teachersResult, principalsResult] = await Promise.all([
+    supabaseAdmin!
+      .from('guardian_students')
+      .select('guardian_id, users!guardian_students_guardian_id_fkey (language)')
+      .eq('org_id', orgId)
+      .eq('student_id', studentId),
+    classId
+      ? supabaseAdmin!
+          .from('class_memberships')
+          .select('user_id, users!inner(language, is_active, deleted_at)')
+          .eq('org_id', orgId)
+          .eq('class_id', classId)
+          .eq('membership_role', 'teacher')
+      : Promise.resolve({ data: [], error: null }),
+    supabaseAdmin!
+      .from('users')
+      .select('id, language')
+      .eq('org_id', orgId)
+      .eq('role', 'principal')
+      .eq('is_active', true)
+      .is('deleted_at', null),
+  ]);
+
+  const error = guardiansResult.error ?? teachersResult.error ?? principalsResult.error;
+  if (error) {
+    throw new FeverAlertServiceError('Failed to load fever alert recipients', 500, error);
+  }
+
+  const guardians = ((guardiansResult.data ?? []) as unknown as Array<{
+    guardian_id: string;
+    users: { language: string | null } | null;
+  }>).map((link) => ({ id: link.guardian_id, language: link.users?.language ?? null }));
+
+  const teachers = ((teachersResult.data ?? []) as unknown as Array<{
+    user_id: string;
+    users: { language: string | null; is_active: boolean; deleted_at: string | null } | null;
+  }>)
+    .filter((row) => row.users?.is_active && !row.users.deleted_at)
+    .map((row) => ({ id: row.user_id, language: row.users?.language ?? null }));
+
+  const principals = (principalsResult.data ?? []) as Array<{ id: string; language: string | null }>;
+
+  return { guardians, staff: [...teachers, ...principals] };
+}
+
+type FeverReading = {
+  id: string;
+  student_id: string;
+  class_id: string | null;
+  temperature_celsius: number | null;
+  recorded_at: string;
+};
+
+/**
+ * Alert on a temperature reading at or above the organization's threshold:
+ * guardians get a high-priority push, the class teachers and principals a
+ * notification. Staff who recorded the reading are not notified about it.
+ * Returns whether the reading counted as fever.
+ */
+export async function sendFeverAlert({
+  orgId,
+  reading,
+  recordedBy,
+}: {
+  orgId: string;
+  reading: FeverReading;
+  recordedBy: string;
+}): Promise<boolean> {
+  assertSupabaseAdmin('Fever alert service');
+
+  if (reading.temperature_celsius === null || reading.temperature_celsius === undefined) {
+    return false;
+  }
+
+  const threshold = await getFeverThreshold(orgId);
+  const temperature = Number(reading.temperature_celsius);
+  if (temperature < threshold) {
+    return false;
+  }
+
+  const { data: student, error: studentError } = await supabaseAdmin!
+    .from('students')
+    .select('class_id, users!students_user_id_fkey (first_name)')
+    .eq('id', reading.student_id)
+    .eq('org_id', orgId)
+    .maybeSingle();
+
+  if (studentError) {
+    throw new FeverAlertServiceError('Failed to load student for fever alert', 500, studentError);
+  }
+
+  const studentRow = student as unknown as { class_id: string | null; users: { first_name: string | null } | null } | null;
+  const name = studentRow?.users?.first_name ?? '';
+  const { guardians, staff } = await fetchRecipients(
+    orgId,
+    reading.student_id,
+    reading.class_id ?? studentRow?.class_id ?? null,
+  );
+
+  const uniqueStaff = [...new Map(staff.filter((user) => user.id !== recordedBy).map((user) => [user.id, user])).values()];
+  const data = {
+    health_log_id: reading.id,
+    student_id: reading.student_id,
+    temperature_celsius: temperature,
+    threshold,
+  };
+
+  for (const [recipients, audience] of [
+    [guardians, 'guardian'],
+    [uniqueStaff, 'staff'],
+  ] as const) {
+    for (const [language, userIds] of groupByLanguage(recipients)) {
+      const text = language === 'en' ? enText : isText;
+      const temperatureLabel = temperature.toFixed(1);
+      await createBulkNotifications(
+        orgId,
+        userIds,
+        'fever_alert',
+        text.notification_fever_title.replace('{name}', name).replace('{temperature}', temperatureLabel),
+        (audience === 'guardian' ? text.notification_fever_guardian_body : text.notification_fever_staff_body)
+          .replace('{name}', name)
+          .replace('{temperature}', temperatureLabel),
+        data,
+        'high',
+      );
+    }
+  }
+
+  return true;
+}
+
+/**
+ * A student's temperature readings over the last days, oldest first,
+ * with the threshold they are measured against
+ */
+export async function getTemperatureTrend({
+  orgId,
+  studentId,
+  days,
+}: {
+  orgId: string;
+  studentId: string;
+  days: number;
+}): Promise<TemperatureTrend> {
+  assertSupabaseAdmin('Fever alert service');
+
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const [threshold, { data, error }] = await Promise.all([
+    getFeverThreshold(orgId),
+    supabaseAdmin!
+      .from('health_logs')
+      .select('id, recorded_at, temperature_celsius')
+      .eq('org_id', orgId)
+      .eq('student_id', studentId)
+      .eq('type', 'temperature')
+      .not('temperature_celsius', 'is', null)
+      .is('deleted_at', null)
+      .gte('recorded_at', since)
+      .order('recorded_at', { ascending: true }),
+  ]);
+
+  if (error) {
+    throw new FeverAlertServiceError('Failed to fetch temperature readings', 500, error);
+  }
+
+  const readings: TemperatureReading[] = ((data ?? []) as Array<{
+    id: string;
+    recorded_at: string;
+    temperature_celsius: number | string;
+  }>).map((row) => {
+    const temperature = Number(row.temperature_celsius);
+    return {
+      id: row.id,
+      recorded_at: row.recorded_at,
+      temperature_celsius: temperature,
+      is_fever: temperature >= threshold,
+    };
+  });
+
+  return { threshold, readings };
+}
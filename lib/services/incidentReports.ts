@@ -0,0 +1,545 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { createBulkNotifications } from '@/lib/services/notifications';
+import { enText } from '@/lib/translations/en';
+import { isText } from '@/lib/translations/is';
+import { toPdf, type PdfBlock } from '@/lib/utils/pdfUtils';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+
+import type {
+  IncidentReport,
+  IncidentReportHistoryEntry,
+  IncidentReportStatus,
+  InjuryBodyArea,
+} from '@/lib/types/incidents';
+
+/**
+ * Error class for incident report failures
+ */
+export class IncidentReportServiceError extends ServiceError {
+  name = 'IncidentReportServiceError';
+}
+
+const REPORT_COLUMNS = `
+  id,
+  org_id,
+  health_log_id,
+  student_id,
+  status,
+  review_notes,
+  reviewed_by,
+  reviewed_at,
+  acknowledged_by,
+  acknowledged_at,
+  created_at,
+  updated_at,
+  health_logs!incident_reports_health_log_id_fkey (
+    id,
+    recorded_at,
+    severity,
+    notes,
+    data,
+    recorded_by,
+    recorded_by_user:users!health_logs_recorded_by_fkey (id, first_name, last_name)
+  ),
+  students!incident_reports_student_id_fkey (
+    id,
+    users!students_user_id_fkey (first_name, last_name),
+    classes!students_class_id_fkey (id, name)
+  ),
+  reviewed_by_user:users!incident_reports_reviewed_by_fkey (id, first_name, last_name),
+  acknowledged_by_user:users!incident_reports_acknowledged_by_fkey (id, first_name, last_name)
+`;
+
+type Language = 'en' | 'is';
+
+function studentFirstName(report: IncidentReport): string {
+  return report.students?.users?.first_name ?? '';
+}
+
+function personName(person: { first_name: string | null; last_name: string | null } | null | undefined): string {
+  if (!person) return '';
+  return `${person.first_name ?? ''} ${person.last_name ?? ''}`.trim();
+}
+
+async function recordHistory(
+  orgId: string,
+  reportId: string,
+  oldStatus: IncidentReportStatus | null,
+  newStatus: IncidentReportStatus,
+  changedBy: string,
+  notes: string | null = null,
+) {
+  const { error } = await supabaseAdmin!.from('incident_report_history').insert({
+    org_id: orgId,
+    incident_report_id: reportId,
+    old_status: oldStatus,
+    new_status: newStatus,
+    notes,
+    changed_by: changedBy,
+  });
+  if (error) {
+    console.error('Failed to record incident report history', error);
+  }
+}
+
+/**
+ * Notify users in their own language; the text is built per language
+ */
+async function notifyByLanguage(
+  orgId: string,
+  users: Array<{ id: string; language: string | null }>,
+  type: 'incident_reported' | 'incident_report_sent',
+  buildText: (text: typeof enText | typeof isText) => { title: string; body: string },
+  data: Record<string, unknown>,
+  priority = 'normal',
+) {
+  for (const language of ['en', 'is'] as Language[]) {
+    const userIds = users.filter((u) => (u.language === 'en' ? 'en' : 'is') === language).map((u) => u.id);
+    if (userIds.length === 0) continue;
+
+    const { title, body } = buildText(language === 'en' ? enText : isText);
+    await createBulkNotifications(orgId, userIds, type, title, body, data, priority);
+  }
+}
+
+async function fetchReport(orgId: string, id: string): Promise<IncidentReport> {
+  const { data, error } = await supabaseAdmin!
+    .from('incident_reports')
+    .select(REPORT_COLUMNS)
+    .eq('id', id)
+    .eq('org_id', orgId)
+    .maybeSingle();
+
+  if (error) {
+    throw new IncidentReportServiceError('Failed to fetch incident report', 500, error);
+  }
+  if (!data) {
+    throw new IncidentReportServiceError('Incident report not found', 404);
+  }
+  return data as unknown as IncidentReport;
+}
+
+/**
+ * Open a report for a newly logged injury and ask the principals to review it
+ */
+export async function openIncidentReport({
+  orgId,
+  healthLogId,
+  studentId,
+  reportedBy,
+}: {
+  orgId: string;
+  healthLogId: string;
+  studentId: string;
+  reportedBy: string;
+}): Promise<IncidentReport> {
+  assertSupabaseAdmin('Incident report service');
+
+  const { data, error } = await supabaseAdmin!
+    .from('incident_reports')
+    .insert({ org_id: orgId, health_log_id: healthLogId, student_id: studentId })
+    .select(REPORT_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new IncidentReportServiceError('Failed to open incident report', 500, error);
+  }
+
+  const report = data as unknown as IncidentReport;
+  await recordHistory(orgId, report.id, null, 'pending_review', reportedBy);
+
+  try {
+    const { data: principals, error: principalsError } = await supabaseAdmin!
+      .from('users')
+      .select('id, language')
+      .eq('org_id', orgId)
+      .eq('role', 'principal')
+      .eq('is_active', true)
+      .is('deleted_at', null);
+
+    if (principalsError) {
+      throw principalsError;
+    }
+
+    const name = studentFirstName(report);
+    await notifyByLanguage(
+      orgId,
+      (principals ?? []) as Array<{ id: string; language: string | null }>,
+      'incident_reported',
+      (text) => ({
+        title: text.notification_incident_reported_title.replace('{name}', name),
+        body: text.notification_incident_reported_body
+          .replace('{name}', name)
+          .replace('{location}', report.health_logs?.data?.location ?? ''),
+      }),
+      { incident_report_id: report.id, student_id: studentId },
+      'high',
+    );
+  } catch (notifyError) {
+    // The report is open; principals still find it in the review list
+    console.error('Failed to notify principals about incident report', notifyError);
+  }
+
+  return report;
+}
+
+type ListIncidentReportsArgs = {
+  orgId: string;
+  studentIds?: string[];
+  status?: IncidentReportStatus;
+  /** Guardians never see reports still waiting for review */
+  sentOnly?: boolean;
+};
+
+/**
+ * List incident reports newest first
+ */
+export async function listIncidentReports({
+  orgId,
+  studentIds,
+  status,
+  sentOnly,
+}: ListIncidentReportsArgs): Promise<IncidentReport[]> {
+  assertSupabaseAdmin('Incident report service');
+
+  if (studentIds && studentIds.length === 0) {
+    return [];
+  }
+
+  let query = supabaseAdmin!
+    .from('incident_reports')
+    .select(REPORT_COLUMNS)
+    .eq('org_id', orgId)
+    .order('created_at', { ascending: false });
+
+  if (studentIds) {
+    query = query.in('student_id', studentIds);
+  }
+  if (status) {
+    query = query.eq('status', status);
+  }
+  if (sentOnly) {
+    query = query.neq('status', 'pending_review');
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new IncidentReportServiceError('Failed to fetch incident reports', 500, error);
+  }
+  return (data ?? []) as unknown as IncidentReport[];
+}
+
+/**
+ * One report with its full status history, oldest change first.
+ * With studentIds (guardians) the report must be for one of those children and already sent.
+ */
+export async function getIncidentReport({
+  orgId,
+  id,
+  studentIds,
+}: {
+  orgId: string;
+  id: string;
+  studentIds?: string[];
+}): Promise<IncidentReport> {
+  assertSupabaseAdmin('Incident report service');
+
+  const report = await fetchReport(orgId, id);
+  if (studentIds && (!studentIds.includes(report.student_id) || report.status === 'pending_review')) {
+    throw new IncidentReportServiceError('Incident report not found', 404);
+  }
+
+  const { data, error } = await supabaseAdmin!
+    .from('incident_report_history')
+    .select(
+      `
+      id,
+      incident_report_id,
+      old_status,
+      new_status,
+      notes,
+      changed_by,
+      changed_at,
+      changed_by_user:users!incident_report_history_changed_by_fkey (
+        id,
+        first_name,
+        last_name
+      )
+    `,
+    )
+    .eq('org_id', orgId)
+    .eq('incident_report_id', id)
+    .order('changed_at', { ascending: true });
+
+  if (error) {
+    throw new IncidentReportServiceError('Failed to fetch incident report history', 500, error);
+  }
+
+  return { ...report, history: (data ?? []) as unknown as IncidentReportHistoryEntry[] };
+}
+
+/**
+ * Principal approves a report and sends it to the child's guardians,
+ * optionally with a note for them
+ */
+export async function reviewIncidentReport({
+  orgId,
+  id,
+  reviewerId,
+  notes,
+}: {
+  orgId: string;
+  id: string;
+  reviewerId: string;
+  notes?: string | null;
+}): Promise<IncidentReport> {
+  assertSupabaseAdmin('Incident report service');
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin!
+    .from('incident_reports')
+    .update({
+      status: 'sent_to_guardians',
+      review_notes: notes || null,
+      reviewed_by: reviewerId,
+      reviewed_at: now,
+      updated_at: now,
+    })
+    .eq('id', id)
+    .eq('org_id', orgId)
+    .eq('status', 'pending_review')
+    .select(REPORT_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new IncidentReportServiceError('Failed to review incident report', 500, error);
+  }
+  if (!data) {
+    await fetchReport(orgId, id);
+    throw new IncidentReportServiceError('This incident report has already been sent to guardians', 409);
+  }
+
+  const report = data as unknown as IncidentReport;
+  await recordHistory(orgId, id, 'pending_review', 'sent_to_guardians', reviewerId, notes || null);
+
+  try {
+    const { data: links, error: linksError } = await supabaseAdmin!
+      .from('guardian_students')
+      .select('guardian_id, users!guardian_students_guardian_id_fkey (language)')
+      .eq('org_id', orgId)
+      .eq('student_id', report.student_id);
+
+    if (linksError) {
+      throw linksError;
+    }
+
+    const guardians = ((links ?? []) as unknown as Array<{
+      guardian_id: string;
+      users: { language: string | null } | null;
+    }>).map((link) => ({ id: link.guardian_id, language: link.users?.language ?? null }));
+
+    const name = studentFirstName(report);
+    await notifyByLanguage(
+      orgId,
+      guardians,
+      'incident_report_sent',
+      (text) => ({
+        title: text.notification_incident_sent_title.replace('{name}', name),
+        body: text.notification_incident_sent_body.replace('{name}', name),
+      }),
+      { incident_report_id: id, student_id: report.student_id },
+      'high',
+    );
+  } catch (notifyError) {
+    console.error('Failed to notify guardians about incident report', notifyError);
+  }
+
+  return report;
+}
+
+/**
+ * Guardian confirms they have read a report about their child
+ */
+export async function acknowledgeIncidentReport({
+  orgId,
+  id,
+  guardianId,
+}: {
+  orgId: string;
+  id: string;
+  guardianId: string;
+}): Promise<IncidentReport> {
+  assertSupabaseAdmin('Incident report service');
+
+  const report = await fetchReport(orgId, id);
+
+  const { data: link, error: linkError } = await supabaseAdmin!
+    .from('guardian_students')
+    .select('id')
+    .eq('org_id', orgId)
+    .eq('guardian_id', guardianId)
+    .eq('student_id', report.student_id)
+    .maybeSingle();
+
+  if (linkError) {
+    throw new IncidentReportServiceError('Failed to verify guardian link', 500, linkError);
+  }
+  if (!link || report.status === 'pending_review') {
+    throw new IncidentReportServiceError('Incident report not found', 404);
+  }
+  if (report.status === 'acknowledged') {
+    throw new IncidentReportServiceError('This incident report has already been acknowledged', 409);
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin!
+    .from('incident_reports')
+    .update({ status: 'acknowledged', acknowledged_by: guardianId, acknowledged_at: now, updated_at: now })
+    .eq('id', id)
+    .eq('org_id', orgId)
+    .eq('status', 'sent_to_guardians')
+    .select(REPORT_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new IncidentReportServiceError('Failed to acknowledge incident report', 500, error);
+  }
+  if (!data) {
+    throw new IncidentReportServiceError('This incident report has already been acknowledged', 409);
+  }
+
+  await recordHistory(orgId, id, 'sent_to_guardians', 'acknowledged', guardianId);
+  return data as unknown as IncidentReport;
+}
+
+/**
+ * The injury log behind a report is what guardians are shown, so it is
+ * locked once the report has left review
+ */
+export async function assertIncidentLogEditable(orgId: string, healthLogId: string): Promise<void> {
+  assertSupabaseAdmin('Incident report service');
+
+  const { data, error } = await supabaseAdmin!
+    .from('incident_reports')
+    .select('status')
+    .eq('org_id', orgId)
+    .eq('health_log_id', healthLogId)
+    .maybeSingle();
+
+  if (error) {
+    throw new IncidentReportServiceError('Failed to check incident report', 500, error);
+  }
+  if (data && (data as { status: IncidentReportStatus }).status !== 'pending_review') {
+    throw new IncidentReportServiceError(
+      'This injury has been reported to guardians and can no longer be changed',
+      409,
+    );
+  }
+}
+
+/**
+ * Drop the report of an injury log that is deleted before review
+ */
+export async function discardPendingIncidentReport(orgId: string, healthLogId: string): Promise<void> {
+  assertSupabaseAdmin('Incident report service');
+
+  const { error } = await supabaseAdmin!
+    .from('incident_reports')
+    .delete()
+    .eq('org_id', orgId)
+    .eq('health_log_id', healthLogId)
+    .eq('status', 'pending_review');
+
+  if (error) {
+    throw new IncidentReportServiceError('Failed to discard incident report', 500, error);
+  }
+}
+
+function formatDateTime(value: string | null | undefined, lang: Language): string {
+  if (!value) return '';
+  return new Date(value).toLocaleString(lang === 'is' ? 'is-IS' : 'en-GB', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Printable incident report in the requested language
+ */
+export function buildIncidentReportPdf(report: IncidentReport, lang: Language): Buffer {
+  const text = lang === 'en' ? enText : isText;
+  const log = report.health_logs;
+  const details = log?.data ?? {};
+  const studentName = personName(report.students?.users);
+
+  const statusLabels: Record<IncidentReportStatus, string> = {
+    pending_review: text.incident_status_pending_review,
+    sent_to_guardians: text.incident_status_sent_to_guardians,
+    acknowledged: text.incident_status_acknowledged,
+  };
+  const areaLabel = (area: InjuryBodyArea) =>
+    (text as unknown as Record<string, string>)[`injury_area_${area}`] ?? area;
+
+  const blocks: PdfBlock[] = [
+    { kind: 'heading', text: text.incident_section_injury },
+    { kind: 'field', label: text.incident_child, value: studentName },
+    { kind: 'field', label: text.incident_class, value: report.students?.classes?.name ?? '' },
+    { kind: 'field', label: text.incident_occurred_at, value: formatDateTime(log?.recorded_at, lang) },
+    { kind: 'field', label: text.incident_location, value: details.location ?? '' },
+    {
+      kind: 'field',
+      label: text.incident_body_areas,
+      value: (details.body_areas ?? []).map(areaLabel).join(', '),
+    },
+    { kind: 'field', label: text.incident_body_area_details, value: details.body_area_details ?? '' },
+    { kind: 'field', label: text.incident_severity, value: log?.severity ? `${log.severity} / 5` : '' },
+    { kind: 'field', label: text.incident_first_aid, value: details.first_aid ?? '' },
+    { kind: 'field', label: text.incident_witnesses, value: details.witnesses ?? '' },
+    { kind: 'field', label: text.incident_notes, value: log?.notes ?? '' },
+    { kind: 'field', label: text.incident_reported_by, value: personName(log?.recorded_by_user) },
+    { kind: 'heading', text: text.incident_section_follow_up },
+    { kind: 'field', label: text.incident_status, value: statusLabels[report.status] },
+    {
+      kind: 'field',
+      label: text.incident_reviewed_by,
+      value: report.reviewed_at
+        ? `${personName(report.reviewed_by_user)}, ${formatDateTime(report.reviewed_at, lang)}`
+        : '',
+    },
+    { kind: 'field', label: text.incident_review_notes, value: report.review_notes ?? '' },
+    {
+      kind: 'field',
+      label: text.incident_acknowledged_by,
+      value: report.acknowledged_at
+        ? `${personName(report.acknowledged_by_user)}, ${formatDateTime(report.acknowledged_at, lang)}`
+        : '',
+    },
+  ];
+
+  if (report.history && report.history.length > 0) {
+    blocks.push(
+      { kind: 'heading', text: text.incident_section_history },
+      {
+        kind: 'table',
+        headers: [text.incident_history_when, text.incident_status, text.incident_history_by, text.incident_notes],
+        rows: report.history.map((entry) => [
+          formatDateTime(entry.changed_at, lang),
+          statusLabels[entry.new_status],
+          personName(entry.changed_by_user),
+          entry.notes ?? '',
+        ]),
+        widths: [2, 2, 2, 3],
+      },
+    );
+  }
+
+  return toPdf({
+    title: text.incident_pdf_title.replace('{name}', studentName),
+    subtitle: formatDateTime(log?.recorded_at, lang),
+    footer: text.incident_pdf_title.replace('{name}', studentName),
+    blocks,
+  });
+}
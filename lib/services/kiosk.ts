@@ -0,0 +1,395 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { updateAttendance, upsertAttendance } from '@/lib/services/attendance';
+import { findClosedDays } from '@/lib/services/closureDays';
+import { notifyGuardiansOfPickup } from '@/lib/services/pickup';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+import { getLocalDateTime } from '@/lib/utils/timezoneUtils';
+
+import type { AttendanceRecord } from '@/lib/types/attendance';
+import type { KioskAction, KioskChild, KioskCode, KioskDevice } from '@/lib/types/kiosk';
+
+/**
+ * Error class for kiosk failures.
+ * status 401 means the device token was rejected; 4xx otherwise are safe to show.
+ */
+export class KioskServiceError extends ServiceError {
+  name = 'KioskServiceError';
+}
+
+/** How often the kiosk fetches a fresh QR code */
+export const KIOSK_CODE_REFRESH_SECONDS = 30;
+/** How long a scanned code stays valid, leaving time to open the page and choose a child */
+const KIOSK_CODE_TTL_SECONDS = 120;
+
+const DEVICE_COLUMNS = 'id, org_id, name, last_seen_at, revoked_at, created_at';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type DeviceRow = KioskDevice & { token_hash: string };
+
+function hashKioskToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function signKioskPayload(tokenHash: string, payload: string): string {
+  return createHmac('sha256', tokenHash).update(payload).digest('base64url');
+}
+
+/**
+ * Register an entrance tablet. The returned token is shown once and never stored in plain text.
+ */
+export async function createKioskDevice({
+  orgId,
+  name,
+  createdBy,
+}: {
+  orgId: string;
+  name: string;
+  createdBy: string;
+}): Promise<{ device: KioskDevice; token: string }> {
+  assertSupabaseAdmin('Kiosk service');
+
+  const token = `kiosk_${randomBytes(32).toString('base64url')}`;
+
+  const { data, error } = await supabaseAdmin!
+    .from('kiosk_devices')
+    .insert({
+      org_id: orgId,
+      name,
+      token_hash: hashKioskToken(token),
+      created_by: createdBy,
+    })
+    .select(DEVICE_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new KioskServiceError('Failed to register kiosk device', 500, error);
+  }
+
+  return { device: data as KioskDevice, token };
+}
+
+export async function listKioskDevices(orgId: string): Promise<KioskDevice[]> {
+  assertSupabaseAdmin('Kiosk service');
+
+  const { data, error } = await supabaseAdmin!
+    .from('kiosk_devices')
+    .select(DEVICE_COLUMNS)
+    .eq('org_id', orgId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new KioskServiceError('Failed to fetch kiosk devices', 500, error);
+  }
+
+  return (data ?? []) as KioskDevice[];
+}
+
+export async function revokeKioskDevice({ orgId, id }: { orgId: string; id: string }): Promise<void> {
+  assertSupabaseAdmin('Kiosk service');
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin!
+    .from('kiosk_devices')
+    .update({ revoked_at: now, updated_at: now })
+    .eq('id', id)
+    .eq('org_id', orgId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    throw new KioskServiceError('Failed to revoke kiosk device', 500, error);
+  }
+  if (!data || data.length === 0) {
+    throw new KioskServiceError('Kiosk device not found', 404);
+  }
+}
+
+/**
+ * Issue a fresh check-in code for the device presenting this token.
+ * The code is `<device id>.<expiry>.<signature>`, signed with the device's token hash,
+ * so it cannot be forged without the token and stops working when the device is revoked.
+ */
+export async function issueKioskCode(token: string): Promise<KioskCode> {
+  assertSupabaseAdmin('Kiosk service');
+
+  const { data, error } = await supabaseAdmin!
+    .from('kiosk_devices')
+    .select(`${DEVICE_COLUMNS}, token_hash, orgs!kiosk_devices_org_id_fkey (name)`)
+    .eq('token_hash', hashKioskToken(token))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new KioskServiceError('Failed to verify kiosk device', 500, error);
+  }
+  if (!data) {
+    throw new KioskServiceError('Kiosk device is not registered or has been revoked', 401);
+  }
+
+  const device = data as unknown as DeviceRow & { orgs: { name: string } | null };
+  const expiresAt = Math.floor(Date.now() / 1000) + KIOSK_CODE_TTL_SECONDS;
+  const payload = `${device.id}.${expiresAt}`;
+
+  await supabaseAdmin!
+    .from('kiosk_devices')
+    .update({ last_seen_at: new Date().toISOString() })
+    .eq('id', device.id);
+
+  return {
+    code: `${payload}.${signKioskPayload(device.token_hash, payload)}`,
+    expires_at: new Date(expiresAt * 1000).toISOString(),
+    refresh_in_seconds: KIOSK_CODE_REFRESH_SECONDS,
+    org_name: device.orgs?.name ?? '',
+    device_name: device.name,
+  };
+}
+
+/**
+ * Check a scanned code belongs to an active kiosk in the guardian's organization and has not expired
+ */
+async function verifyKioskCode(orgId: string, code: string): Promise<KioskDevice> {
+  const [deviceId, expiresAtRaw, signature] = code.split('.');
+  const expiresAt = Number(expiresAtRaw);
+  if (!UUID_PATTERN.test(deviceId ?? '') || !signature || !Number.isInteger(expiresAt)) {
+    throw new KioskServiceError('Invalid kiosk code', 400);
+  }
+  if (expiresAt * 1000 < Date.now()) {
+    throw new KioskServiceError('Kiosk code has expired, please scan again', 400);
+  }
+
+  const { data, error } = await supabaseAdmin!
+    .from('kiosk_devices')
+    .select(`${DEVICE_COLUMNS}, token_hash`)
+    .eq('id', deviceId)
+    .eq('org_id', orgId)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new KioskServiceError('Failed to verify kiosk code', 500, error);
+  }
+
+  const device = data as DeviceRow | null;
+  const expected = device ? Buffer.from(signKioskPayload(device.token_hash, `${deviceId}.${expiresAtRaw}`)) : null;
+  const actual = Buffer.from(signature);
+  if (!device || !expected || expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new KioskServiceError('Invalid kiosk code', 400);
+  }
+
+  return device;
+}
+
+type LinkedStudentRow = {
+  id: string;
+  class_id: string | null;
+  users: { first_name: string | null; last_name: string | null } | null;
+  classes: { id: string; name: string } | null;
+};
+
+async function getOrgToday(orgId: string): Promise<string> {
+  const { data } = await supabaseAdmin!.from('orgs').select('timezone').eq('id', orgId).maybeSingle();
+  return getLocalDateTime(new Date(), (data?.timezone as string | undefined) || 'UTC').date;
+}
+
+async function fetchGuardianStudents(orgId: string, guardianId: string): Promise<LinkedStudentRow[]> {
+  const { data: links, error: linksError } = await supabaseAdmin!
+    .from('guardian_students')
+    .select('student_id')
+    .eq('org_id', orgId)
+    .eq('guardian_id', guardianId);
+
+  if (linksError) {
+    throw new KioskServiceError('Failed to fetch linked children', 500, linksError);
+  }
+
+  const studentIds = (links ?? []).map((l: { student_id: string }) => l.student_id);
+  if (studentIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabaseAdmin!
+    .from('students')
+    .select(
+      `
+      id,
+      class_id,
+      users!students_user_id_fkey (first_name, last_name),
+      classes!students_class_id_fkey (id, name)
+    `,
+    )
+    .in('id', studentIds)
+    .is('deleted_at', null)
+    .is('graduated_at', null);
+
+  if (error) {
+    throw new KioskServiceError('Failed to fetch linked children', 500, error);
+  }
+
+  return (data ?? []) as unknown as LinkedStudentRow[];
+}
+
+/**
+ * Validate a scanned code and list the guardian's children with today's attendance
+ */
+export async function getKioskChildren({
+  orgId,
+  guardianId,
+  code,
+}: {
+  orgId: string;
+  guardianId: string;
+  code: string;
+}): Promise<KioskChild[]> {
+  assertSupabaseAdmin('Kiosk service');
+
+  await verifyKioskCode(orgId, code);
+
+  const [students, today] = await Promise.all([
+    fetchGuardianStudents(orgId, guardianId),
+    getOrgToday(orgId),
+  ]);
+  if (students.length === 0) {
+    return [];
+  }
+
+  const { data: records, error } = await supabaseAdmin!
+    .from('attendance')
+    .select('student_id, status, arrived_at, left_at')
+    .in('student_id', students.map((s) => s.id))
+    .eq('date', today);
+
+  if (error) {
+    throw new KioskServiceError("Failed to fetch today's attendance", 500, error);
+  }
+
+  const byStudent = new Map(
+    ((records ?? []) as Array<Pick<AttendanceRecord, 'student_id' | 'status' | 'arrived_at' | 'left_at'>>).map(
+      (r) => [r.student_id, r],
+    ),
+  );
+
+  return students.map((student) => {
+    const record = byStudent.get(student.id);
+    return {
+      student_id: student.id,
+      first_name: student.users?.first_name ?? '',
+      last_name: student.users?.last_name ?? null,
+      class_id: student.class_id,
+      class_name: student.classes?.name ?? null,
+      status: record?.status ?? null,
+      arrived_at: record?.arrived_at ?? null,
+      left_at: record?.left_at ?? null,
+    };
+  });
+}
+
+/**
+ * Check a child in or out from a scanned kiosk code. Check-in records `arrived`
+ * for today in the org's timezone; check-out sets left_at with the scanning guardian
+ * as the pickup person and notifies the child's guardians.
+ */
+export async function performKioskCheck({
+  orgId,
+  guardianId,
+  code,
+  studentId,
+  action,
+}: {
+  orgId: string;
+  guardianId: string;
+  code: string;
+  studentId: string;
+  action: KioskAction;
+}): Promise<AttendanceRecord> {
+  assertSupabaseAdmin('Kiosk service');
+
+  await verifyKioskCode(orgId, code);
+
+  const [students, today, guardianResult] = await Promise.all([
+    fetchGuardianStudents(orgId, guardianId),
+    getOrgToday(orgId),
+    supabaseAdmin!.from('users').select('first_name, last_name').eq('id', guardianId).maybeSingle(),
+  ]);
+
+  const student = students.find((s) => s.id === studentId);
+  if (!student) {
+    throw new KioskServiceError('You are not linked to this child', 403);
+  }
+
+  const { data: existing, error: existingError } = await supabaseAdmin!
+    .from('attendance')
+    .select(
+      'id,org_id,class_id,student_id,date,status,notes,recorded_by,arrived_at,left_at,notice_id,picked_up_by_guardian_id,picked_up_by_relative_id,picked_up_by_name,created_at,updated_at',
+    )
+    .eq('student_id', studentId)
+    .eq('date', today)
+    .maybeSingle();
+
+  if (existingError) {
+    throw new KioskServiceError("Failed to fetch today's attendance", 500, existingError);
+  }
+
+  const record = existing as AttendanceRecord | null;
+  const isPresent = Boolean(record && ['arrived', 'late', 'gone'].includes(record.status));
+
+  if (action === 'check_in') {
+    if (record?.left_at) {
+      throw new KioskServiceError('This child has already been picked up today', 409);
+    }
+    // Scanning twice keeps the first check-in
+    if (record && isPresent) {
+      return record;
+    }
+    const closed = await findClosedDays(orgId, [{ date: today, class_id: student.class_id }]);
+    if (closed.length > 0) {
+      throw new KioskServiceError('The school is closed today', 409);
+    }
+    return upsertAttendance({
+      orgId,
+      userId: guardianId,
+      payload: {
+        student_id: studentId,
+        class_id: student.class_id,
+        date: today,
+        status: 'arrived',
+      },
+      // A guardian checking in overrides any absence notice prefill for today
+      noticeId: null,
+    });
+  }
+
+  if (!record || !isPresent) {
+    throw new KioskServiceError('This child has not been checked in today', 409);
+  }
+  if (record.left_at) {
+    throw new KioskServiceError('This child has already been picked up today', 409);
+  }
+
+  const guardianName = `${guardianResult.data?.first_name ?? ''} ${guardianResult.data?.last_name ?? ''}`.trim();
+  const leftAt = new Date().toISOString();
+  const checkedOut = await updateAttendance({
+    userId: guardianId,
+    payload: { id: record.id, left_at: leftAt },
+    pickup: {
+      picked_up_by_guardian_id: guardianId,
+      picked_up_by_relative_id: null,
+      picked_up_by_name: guardianName,
+    },
+  });
+
+  try {
+    await notifyGuardiansOfPickup({
+      orgId,
+      pickups: [{ student_id: studentId, picked_up_by_name: guardianName, left_at: leftAt }],
+    });
+  } catch (notificationError) {
+    // Log error but don't fail the check-out
+    console.error('Failed to send pickup notifications:', notificationError);
+  }
+
+  return checkedOut;
+}
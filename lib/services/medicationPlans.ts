@@ -0,0 +1,745 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { createBulkNotifications } from '@/lib/services/notifications';
+import { enText } from '@/lib/translations/en';
+import { isText } from '@/lib/translations/is';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+import { getLocalDateTime } from '@/lib/utils/timezoneUtils';
+
+import type { MedicationDose, MedicationDoseStatus, MedicationPlan } from '@/lib/types/medication';
+import type {
+  PostMedicationConsentBody,
+  PostMedicationDoseBody,
+  PostMedicationPlanBody,
+} from '@/lib/validation/medication';
+
+/**
+ * Error class for medication plan failures
+ */
+export class MedicationPlanServiceError extends ServiceError {
+  name = 'MedicationPlanServiceError';
+}
+
+const PLAN_COLUMNS =
+  'id,org_id,student_id,medication_name,dose,instructions,dose_times,start_date,end_date,status,consent_guardian_id,consent_name,consent_at,created_by,created_at,updated_at,students!medication_plans_student_id_fkey (id, class_id, users!students_user_id_fkey (first_name, last_name))';
+
+/** Teachers are reminded this many minutes before a dose is due */
+const REMINDER_LEAD_MINUTES = 15;
+
+/** A dose not recorded this many minutes after its time counts as missed */
+const MISSED_GRACE_MINUTES = 60;
+
+/** Checked-in statuses; children away or absent are not given medication */
+const CHECKED_IN_STATUSES = ['arrived', 'late'];
+
+type Language = 'en' | 'is';
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/** Dose times come back from Postgres as HH:MM:SS */
+function toDoseTime(time: string): string {
+  return time.slice(0, 5);
+}
+
+function studentName(plan: MedicationPlan): string {
+  return `${plan.students?.users?.first_name ?? ''} ${plan.students?.users?.last_name ?? ''}`.trim();
+}
+
+function doseStatus(scheduledTime: string, nowTime: string, given: boolean): MedicationDoseStatus {
+  if (given) return 'given';
+  const offset = minutesOf(nowTime) - minutesOf(scheduledTime);
+  if (offset >= MISSED_GRACE_MINUTES) return 'missed';
+  if (offset >= -REMINDER_LEAD_MINUTES) return 'due';
+  return 'upcoming';
+}
+
+async function fetchOrgTimezone(orgId: string): Promise<string> {
+  const { data, error } = await supabaseAdmin!
+    .from('orgs')
+    .select('timezone')
+    .eq('id', orgId)
+    .maybeSingle();
+
+  if (error) {
+    throw new MedicationPlanServiceError('Failed to load organization settings', 500, error);
+  }
+  return (data as { timezone: string | null } | null)?.timezone || 'UTC';
+}
+
+/**
+ * Ensure the guardian is linked to the student within the organization
+ */
+async function assertGuardianLinked(orgId: string, guardianId: string, studentId: string) {
+  const { data, error } = await supabaseAdmin!
+    .from('guardian_students')
+    .select('id')
+    .eq('org_id', orgId)
+    .eq('guardian_id', guardianId)
+    .eq('student_id', studentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new MedicationPlanServiceError('Failed to verify guardian link', 500, error);
+  }
+  if (!data) {
+    throw new MedicationPlanServiceError('You can only manage medication for your own children', 403);
+  }
+}
+
+async function fetchPlan(orgId: string, id: string): Promise<MedicationPlan> {
+  const { data, error } = await supabaseAdmin!
+    .from('medication_plans')
+    .select(PLAN_COLUMNS)
+    .eq('id', id)
+    .eq('org_id', orgId)
+    .maybeSingle();
+
+  if (error) {
+    throw new MedicationPlanServiceError('Failed to fetch medication plan', 500, error);
+  }
+  if (!data) {
+    throw new MedicationPlanServiceError('Medication plan not found', 404);
+  }
+  return data as unknown as MedicationPlan;
+}
+
+/**
+ * Group user ids by their preferred notification language (Icelandic by default)
+ */
+function groupByLanguage(users: Array<{ id: string; language: string | null }>): Map<Language, string[]> {
+  const groups = new Map<Language, string[]>();
+  for (const user of users) {
+    const language: Language = user.language === 'en' ? 'en' : 'is';
+    groups.set(language, [...(groups.get(language) ?? []), user.id]);
+  }
+  return groups;
+}
+
+async function fetchGuardians(orgId: string, studentId: string) {
+  const { data, error } = await supabaseAdmin!
+    .from('guardian_students')
+    .select('guardian_id, users!guardian_students_guardian_id_fkey (language)')
+    .eq('org_id', orgId)
+    .eq('student_id', studentId);
+
+  if (error) {
+    throw new MedicationPlanServiceError('Failed to load guardians', 500, error);
+  }
+  return ((data ?? []) as unknown as Array<{ guardian_id: string; users: { language: string | null } | null }>).map(
+    (link) => ({ id: link.guardian_id, language: link.users?.language ?? null }),
+  );
+}
+
+type ListMedicationPlansArgs = {
+  orgId: string;
+  studentIds?: string[];
+  includeInactive?: boolean;
+};
+
+/**
+ * List plans newest first. By default only plans that are pending or active
+ * and have not ended yet are returned.
+ */
+export async function listMedicationPlans({
+  orgId,
+  studentIds,
+  includeInactive,
+}: ListMedicationPlansArgs): Promise<MedicationPlan[]> {
+  assertSupabaseAdmin('Medication plan service');
+
+  if (studentIds && studentIds.length === 0) {
+    return [];
+  }
+
+  let query = supabaseAdmin!
+    .from('medication_plans')
+    .select(PLAN_COLUMNS)
+    .eq('org_id', orgId)
+    .order('start_date', { ascending: false });
+
+  if (studentIds) {
+    query = query.in('student_id', studentIds);
+  }
+  if (!includeInactive) {
+    const { date } = getLocalDateTime(new Date(), await fetchOrgTimezone(orgId));
+    query = query.in('status', ['pending_consent', 'active']).gte('end_date', date);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new MedicationPlanServiceError('Failed to fetch medication plans', 500, error);
+  }
+  return (data ?? []) as unknown as MedicationPlan[];
+}
+
+type CreateMedicationPlanArgs = {
+  orgId: string;
+  userId: string;
+  isGuardian: boolean;
+  payload: PostMedicationPlanBody;
+};
+
+/**
+ * Create a plan. A guardian signs consent as part of creating it, so the plan
+ * is active straight away; a plan entered by staff waits for a guardian's
+ * consent and the child's guardians are asked for it.
+ */
+export async function createMedicationPlan({
+  orgId,
+  userId,
+  isGuardian,
+  payload,
+}: CreateMedicationPlanArgs): Promise<MedicationPlan> {
+  assertSupabaseAdmin('Medication plan service');
+
+  const { student_id, consent_name, ...plan } = payload;
+
+  if (isGuardian) {
+    await assertGuardianLinked(orgId, userId, student_id);
+    if (!consent_name) {
+      throw new MedicationPlanServiceError('Please type your full name to give consent', 400);
+    }
+  } else {
+    const { data: student, error: studentError } = await supabaseAdmin!
+      .from('students')
+      .select('id')
+      .eq('id', student_id)
+      .eq('org_id', orgId)
+      .is('deleted_at', null)
+      .is('graduated_at', null)
+      .maybeSingle();
+
+    if (studentError) {
+      throw new MedicationPlanServiceError('Failed to save medication plan', 500, studentError);
+    }
+    if (!student) {
+      throw new MedicationPlanServiceError('Student not found', 404);
+    }
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin!
+    .from('medication_plans')
+    .insert({
+      org_id: orgId,
+      student_id,
+      medication_name: plan.medication_name,
+      dose: plan.dose,
+      instructions: plan.instructions ?? null,
+      dose_times: [...plan.dose_times].sort(),
+      start_date: plan.start_date,
+      end_date: plan.end_date,
+      status: isGuardian ? 'active' : 'pending_consent',
+      consent_guardian_id: isGuardian ? userId : null,
+      consent_name: isGuardian ? consent_name : null,
+      consent_at: isGuardian ? now : null,
+      created_by: userId,
+    })
+    .select(PLAN_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new MedicationPlanServiceError('Failed to save medication plan', 500, error);
+  }
+
+  const created = data as unknown as MedicationPlan;
+
+  if (!isGuardian) {
+    try {
+      const guardians = await fetchGuardians(orgId, student_id);
+      const firstName = created.students?.users?.first_name ?? '';
+      for (const [language, guardianIds] of groupByLanguage(guardians)) {
+        const text = language === 'en' ? enText : isText;
+        await createBulkNotifications(
+          orgId,
+          guardianIds,
+          'medication_consent_requested',
+          text.notification_medication_consent_title.replace('{name}', firstName),
+          text.notification_medication_consent_body
+            .replace('{name}', firstName)
+            .replace('{medication}', created.medication_name),
+          { plan_id: created.id, student_id },
+          'high',
+        );
+      }
+    } catch (notifyError) {
+      // The plan is saved; guardians still see it as pending on their medication page
+      console.error('Failed to request medication consent', notifyError);
+    }
+  }
+
+  return created;
+}
+
+type RecordMedicationConsentArgs = {
+  orgId: string;
+  guardianId: string;
+  payload: PostMedicationConsentBody;
+};
+
+/**
+ * Guardian gives or declines consent for a pending plan, signing with their typed name
+ */
+export async function recordMedicationConsent({
+  orgId,
+  guardianId,
+  payload,
+}: RecordMedicationConsentArgs): Promise<MedicationPlan> {
+  assertSupabaseAdmin('Medication plan service');
+
+  const plan = await fetchPlan(orgId, payload.plan_id);
+  await assertGuardianLinked(orgId, guardianId, plan.student_id);
+
+  if (plan.status !== 'pending_consent') {
+    throw new MedicationPlanServiceError('This medication plan is not awaiting consent', 409);
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin!
+    .from('medication_plans')
+    .update({
+      status: payload.decision === 'give' ? 'active' : 'declined',
+      consent_guardian_id: guardianId,
+      consent_name: payload.consent_name,
+      consent_at: now,
+      updated_at: now,
+    })
+    .eq('id', plan.id)
+    .eq('org_id', orgId)
+    .eq('status', 'pending_consent')
+    .select(PLAN_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new MedicationPlanServiceError('Failed to save consent', 500, error);
+  }
+  if (!data) {
+    throw new MedicationPlanServiceError('This medication plan is not awaiting consent', 409);
+  }
+  return data as unknown as MedicationPlan;
+}
+
+type CancelMedicationPlanArgs = {
+  orgId: string;
+  userId: string;
+  isGuardian: boolean;
+  id: string;
+};
+
+/**
+ * Stop a plan. Doses already given stay in the child's health log.
+ */
+export async function cancelMedicationPlan({ orgId, userId, isGuardian, id }: CancelMedicationPlanArgs): Promise<void> {
+  assertSupabaseAdmin('Medication plan service');
+
+  const plan = await fetchPlan(orgId, id);
+  if (isGuardian) {
+    await assertGuardianLinked(orgId, userId, plan.student_id);
+  }
+  if (plan.status === 'cancelled') {
+    throw new MedicationPlanServiceError('Medication plan is already cancelled', 409);
+  }
+
+  const { error } = await supabaseAdmin!
+    .from('medication_plans')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('org_id', orgId);
+
+  if (error) {
+    throw new MedicationPlanServiceError('Failed to cancel medication plan', 500, error);
+  }
+}
+
+type GivenDoseRow = {
+  id: string;
+  medication_plan_id: string;
+  recorded_at: string;
+  data: { scheduled_time?: string } | null;
+};
+
+/**
+ * Active plans covering the date, optionally for a set of classes
+ */
+async function fetchActivePlans(orgId: string, date: string, classIds?: string[]): Promise<MedicationPlan[]> {
+  const { data, error } = await supabaseAdmin!
+    .from('medication_plans')
+    .select(PLAN_COLUMNS)
+    .eq('org_id', orgId)
+    .eq('status', 'active')
+    .lte('start_date', date)
+    .gte('end_date', date);
+
+  if (error) {
+    throw new MedicationPlanServiceError('Failed to fetch medication plans', 500, error);
+  }
+
+  const plans = (data ?? []) as unknown as MedicationPlan[];
+  return classIds
+    ? plans.filter((plan) => plan.students?.class_id && classIds.includes(plan.students.class_id))
+    : plans;
+}
+
+async function fetchGivenDoses(planIds: string[], date: string): Promise<GivenDoseRow[]> {
+  if (planIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabaseAdmin!
+    .from('health_logs')
+    .select('id, medication_plan_id, recorded_at, data')
+    .in('medication_plan_id', planIds)
+    .eq('data->>scheduled_date', date)
+    .is('deleted_at', null);
+
+  if (error) {
+    throw new MedicationPlanServiceError('Failed to fetch given doses', 500, error);
+  }
+  return (data ?? []) as unknown as GivenDoseRow[];
+}
+
+/**
+ * Expand plans into today's scheduled doses, earliest first
+ */
+function buildDoses(plans: MedicationPlan[], given: GivenDoseRow[], date: string, nowTime: string): MedicationDose[] {
+  const doses: MedicationDose[] = [];
+  for (const plan of plans) {
+    for (const rawTime of plan.dose_times) {
+      const scheduledTime = toDoseTime(rawTime);
+      const log = given.find(
+        (row) => row.medication_plan_id === plan.id && row.data?.scheduled_time === scheduledTime,
+      );
+      doses.push({
+        plan_id: plan.id,
+        student_id: plan.student_id,
+        student_name: studentName(plan),
+        class_id: plan.students?.class_id ?? null,
+        medication_name: plan.medication_name,
+        dose: plan.dose,
+        instructions: plan.instructions,
+        date,
+        scheduled_time: scheduledTime,
+        status: doseStatus(scheduledTime, nowTime, Boolean(log)),
+        health_log_id: log?.id ?? null,
+        given_at: log?.recorded_at ?? null,
+      });
+    }
+  }
+  return doses.sort((a, b) => a.scheduled_time.localeCompare(b.scheduled_time));
+}
+
+/**
+ * Today's doses (org timezone) for active plans, optionally limited to some classes
+ */
+export async function listTodaysDoses({
+  orgId,
+  classIds,
+  now = new Date(),
+}: {
+  orgId: string;
+  classIds?: string[];
+  now?: Date;
+}): Promise<MedicationDose[]> {
+  assertSupabaseAdmin('Medication plan service');
+
+  const { date, time } = getLocalDateTime(now, await fetchOrgTimezone(orgId));
+  const plans = await fetchActivePlans(orgId, date, classIds);
+  const given = await fetchGivenDoses(plans.map((plan) => plan.id), date);
+  return buildDoses(plans, given, date, time);
+}
+
+type RecordMedicationDoseArgs = {
+  orgId: string;
+  userId: string;
+  payload: PostMedicationDoseBody;
+};
+
+/**
+ * Record a dose given today as a 'medication' health log linked to its plan
+ */
+export async function recordMedicationDose({
+  orgId,
+  userId,
+  payload,
+}: RecordMedicationDoseArgs): Promise<{ id: string; recorded_at: string }> {
+  assertSupabaseAdmin('Medication plan service');
+
+  const plan = await fetchPlan(orgId, payload.plan_id);
+  const { date } = getLocalDateTime(new Date(), await fetchOrgTimezone(orgId));
+
+  if (plan.status !== 'active' || date < plan.start_date || date > plan.end_date) {
+    throw new MedicationPlanServiceError('This medication plan is not active today', 409);
+  }
+  if (!plan.dose_times.map(toDoseTime).includes(payload.scheduled_time)) {
+    throw new MedicationPlanServiceError('No dose is scheduled at this time', 400);
+  }
+
+  const given = await fetchGivenDoses([plan.id], date);
+  if (given.some((row) => row.data?.scheduled_time === payload.scheduled_time)) {
+    throw new MedicationPlanServiceError('This dose has already been recorded', 409);
+  }
+
+  const { data, error } = await supabaseAdmin!
+    .from('health_logs')
+    .insert({
+      org_id: orgId,
+      class_id: plan.students?.class_id ?? null,
+      student_id: plan.student_id,
+      type: 'medication',
+      recorded_at: new Date().toISOString(),
+      data: {
+        medication_name: plan.medication_name,
+        dose: plan.dose,
+        scheduled_date: date,
+        scheduled_time: payload.scheduled_time,
+      },
+      notes: payload.notes ?? null,
+      medication_plan_id: plan.id,
+      recorded_by: userId,
+    })
+    .select('id, recorded_at')
+    .single();
+
+  // Lost a race with another save of the same dose
+  if (error?.code === '23505') {
+    throw new MedicationPlanServiceError('This dose has already been recorded', 409, error);
+  }
+  if (error || !data) {
+    throw new MedicationPlanServiceError('Failed to record dose', 500, error);
+  }
+  return data as { id: string; recorded_at: string };
+}
+
+type OrgReminderSettings = {
+  id: string;
+  timezone: string | null;
+};
+
+type AttendanceRow = {
+  student_id: string;
+  left_at: string | null;
+};
+
+export type MedicationReminderRunResult = {
+  org_id: string;
+  date: string;
+  reminders: number;
+  missed: number;
+};
+
+/**
+ * Claim a dose alert so overlapping runs cannot notify twice.
+ * Returns false when the alert was already sent.
+ */
+async function claimDoseAlert(
+  orgId: string,
+  planId: string,
+  date: string,
+  doseTime: string,
+  kind: 'reminder' | 'missed',
+): Promise<boolean> {
+  const { error } = await supabaseAdmin!
+    .from('medication_dose_alerts')
+    .insert({ org_id: orgId, plan_id: planId, date, dose_time: doseTime, kind });
+
+  if (error) {
+    // Unique violation: this alert was already sent
+    if (error.code === '23505') {
+      return false;
+    }
+    throw new MedicationPlanServiceError('Failed to record medication alert', 500, error);
+  }
+  return true;
+}
+
+/**
+ * Give up a claimed dose alert when sending it failed, so the next run retries it
+ */
+async function releaseDoseAlert(
+  orgId: string,
+  planId: string,
+  date: string,
+  doseTime: string,
+  kind: 'reminder' | 'missed',
+): Promise<void> {
+  const { error } = await supabaseAdmin!
+    .from('medication_dose_alerts')
+    .delete()
+    .eq('org_id', orgId)
+    .eq('plan_id', planId)
+    .eq('date', date)
+    .eq('dose_time', doseTime)
+    .eq('kind', kind);
+
+  if (error) {
+    console.error('Failed to release medication alert claim', error);
+  }
+}
+
+async function fetchClassTeachers(orgId: string, classId: string) {
+  const { data, error } = await supabaseAdmin!
+    .from('class_memberships')
+    .select('user_id, users!inner(language, is_active, deleted_at)')
+    .eq('org_id', orgId)
+    .eq('class_id', classId)
+    .eq('membership_role', 'teacher');
+
+  if (error) {
+    throw new MedicationPlanServiceError('Failed to load class teachers', 500, error);
+  }
+  return ((data ?? []) as unknown as Array<{
+    user_id: string;
+    users: { language: string | null; is_active: boolean; deleted_at: string | null } | null;
+  }>)
+    .filter((row) => row.users?.is_active && !row.users.deleted_at)
+    .map((row) => ({ id: row.user_id, language: row.users?.language ?? null }));
+}
+
+async function fetchPrincipals(orgId: string) {
+  const { data, error } = await supabaseAdmin!
+    .from('users')
+    .select('id, language')
+    .eq('org_id', orgId)
+    .eq('role', 'principal')
+    .eq('is_active', true)
+    .is('deleted_at', null);
+
+  if (error) {
+    throw new MedicationPlanServiceError('Failed to load principals', 500, error);
+  }
+  return (data ?? []) as Array<{ id: string; language: string | null }>;
+}
+
+/**
+ * Check one organization. Only children checked in today who had not left by
+ * the dose time are considered, which also leaves out weekends and closure days.
+ * Teachers of the child's class are reminded shortly before each dose; if the
+ * dose is still not recorded after the grace period the principals are told.
+ */
+async function runOrgMedicationReminders(org: OrgReminderSettings, now: Date): Promise<MedicationReminderRunResult> {
+  const timezone = org.timezone || 'UTC';
+  const { date, time } = getLocalDateTime(now, timezone);
+  const result: MedicationReminderRunResult = { org_id: org.id, date, reminders: 0, missed: 0 };
+
+  const plans = await fetchActivePlans(org.id, date);
+  if (plans.length === 0) {
+    return result;
+  }
+
+  const { data: attendance, error: attendanceError } = await supabaseAdmin!
+    .from('attendance')
+    .select('student_id, left_at')
+    .eq('org_id', org.id)
+    .eq('date', date)
+    .in('status', CHECKED_IN_STATUSES)
+    .in('student_id', plans.map((plan) => plan.student_id));
+
+  if (attendanceError) {
+    throw new MedicationPlanServiceError('Failed to load attendance for medication reminders', 500, attendanceError);
+  }
+
+  const presence = new Map(
+    ((attendance ?? []) as AttendanceRow[]).map((row) => [
+      row.student_id,
+      row.left_at ? getLocalDateTime(new Date(row.left_at), timezone).time : null,
+    ]),
+  );
+
+  const presentPlans = plans.filter((plan) => presence.has(plan.student_id));
+  const given = await fetchGivenDoses(presentPlans.map((plan) => plan.id), date);
+  const doses = buildDoses(presentPlans, given, date, time).filter((dose) => {
+    const leftAt = presence.get(dose.student_id);
+    return !leftAt || leftAt > dose.scheduled_time;
+  });
+
+  let principals: Array<{ id: string; language: string | null }> | null = null;
+
+  for (const dose of doses) {
+    if (dose.status === 'due') {
+      if (!dose.class_id || !(await claimDoseAlert(org.id, dose.plan_id, date, dose.scheduled_time, 'reminder'))) {
+        continue;
+      }
+      try {
+        const teachers = await fetchClassTeachers(org.id, dose.class_id);
+        for (const [language, teacherIds] of groupByLanguage(teachers)) {
+          const text = language === 'en' ? enText : isText;
+          await createBulkNotifications(
+            org.id,
+            teacherIds,
+            'medication_dose_due',
+            text.notification_medication_due_title.replace('{name}', dose.student_name),
+            text.notification_medication_due_body
+              .replace('{name}', dose.student_name)
+              .replace('{medication}', dose.medication_name)
+              .replace('{dose}', dose.dose)
+              .replace('{time}', dose.scheduled_time),
+            { plan_id: dose.plan_id, student_id: dose.student_id, date, scheduled_time: dose.scheduled_time },
+            'high',
+          );
+        }
+      } catch (err) {
+        await releaseDoseAlert(org.id, dose.plan_id, date, dose.scheduled_time, 'reminder');
+        throw err;
+      }
+      result.reminders += 1;
+    } else if (dose.status === 'missed') {
+      if (!(await claimDoseAlert(org.id, dose.plan_id, date, dose.scheduled_time, 'missed'))) {
+        continue;
+      }
+      try {
+        principals ??= await fetchPrincipals(org.id);
+        for (const [language, principalIds] of groupByLanguage(principals)) {
+          const text = language === 'en' ? enText : isText;
+          await createBulkNotifications(
+            org.id,
+            principalIds,
+            'medication_dose_missed',
+            text.notification_medication_missed_title.replace('{name}', dose.student_name),
+            text.notification_medication_missed_body
+              .replace('{name}', dose.student_name)
+              .replace('{medication}', dose.medication_name)
+              .replace('{time}', dose.scheduled_time),
+            { plan_id: dose.plan_id, student_id: dose.student_id, date, scheduled_time: dose.scheduled_time },
+            'high',
+          );
+        }
+      } catch (err) {
+        await releaseDoseAlert(org.id, dose.plan_id, date, dose.scheduled_time, 'missed');
+        throw err;
+      }
+      result.missed += 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Scheduled check across all active organizations.
+ * A failure in one organization is logged and does not stop the others.
+ */
+export async function runMedicationReminders(now: Date = new Date()): Promise<MedicationReminderRunResult[]> {
+  assertSupabaseAdmin('Medication plan service');
+
+  const { data: orgs, error } = await supabaseAdmin!
+    .from('orgs')
+    .select('id, timezone')
+    .eq('is_active', true)
+    .is('deleted_at', null);
+
+  if (error) {
+    throw new MedicationPlanServiceError('Failed to load organizations for medication reminders', 500, error);
+  }
+
+  const results: MedicationReminderRunResult[] = [];
+  for (const org of (orgs ?? []) as OrgReminderSettings[]) {
+    try {
+      results.push(await runOrgMedicationReminders(org, now));
+    } catch (err) {
+      console.error(`Medication reminders failed for org ${org.id}:`, err);
+    }
+  }
+  return results;
+}
@@ -0,0 +1,189 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+import { getLocalDateTime } from '@/lib/utils/timezoneUtils';
+import { ALLERGENS, MENU_MEALS, type Allergen } from '@/lib/constants/allergens';
+
+import type { MenuAllergenConflict, MenuAllergenConflictReport } from '@/lib/types/menus';
+
+/**
+ * Error class for menu allergen conflict failures
+ */
+export class MenuAllergenServiceError extends ServiceError {
+  name = 'MenuAllergenServiceError';
+}
+
+/** Checked-in statuses; legacy 'gone' rows are children who already left */
+const CHECKED_IN_STATUSES = ['arrived', 'late'];
+
+type MenuAllergenRow = {
+  class_id: string | null;
+  breakfast_allergens: string[] | null;
+  lunch_allergens: string[] | null;
+  snack_allergens: string[] | null;
+};
+
+type ChildRow = {
+  id: string;
+  class_id: string | null;
+  allergy_tags: string[] | null;
+  users: { first_name: string | null; last_name: string | null } | null;
+};
+
+type PresentChildRow = {
+  student_id: string;
+  class_id: string | null;
+  students: ChildRow | null;
+};
+
+function knownAllergens(tags: string[] | null): Allergen[] {
+  return (tags ?? []).filter((tag): tag is Allergen => (ALLERGENS as readonly string[]).includes(tag));
+}
+
+/**
+ * Children whose allergy tags overlap a meal on the day's menu. A class menu
+ * replaces the organization-wide menu for children in that class. For today
+ * (organization timezone) only children checked in right now are listed;
+ * for other days every enrolled child is.
+ */
+export async function getMenuAllergenConflicts({
+  orgId,
+  day,
+  classIds,
+}: {
+  orgId: string;
+  day?: string;
+  /** Only children in these classes; all classes when omitted */
+  classIds?: string[];
+}): Promise<MenuAllergenConflictReport> {
+  assertSupabaseAdmin('Menu allergen service');
+
+  const { data: org, error: orgError } = await supabaseAdmin!
+    .from('orgs')
+    .select('timezone')
+    .eq('id', orgId)
+    .maybeSingle();
+
+  if (orgError) {
+    throw new MenuAllergenServiceError('Failed to load organization', 500, orgError);
+  }
+  const timeZone = (org as { timezone: string | null } | null)?.timezone ?? 'UTC';
+  const today = getLocalDateTime(new Date(), timeZone).date;
+  const date = day ?? today;
+  const scope = date === today ? 'checked_in' : 'enrolled';
+
+  if (classIds && classIds.length === 0) {
+    return { day: date, scope, conflicts: [] };
+  }
+
+  const { data: menuRows, error: menusError } = await supabaseAdmin!
+    .from('menus')
+    .select('class_id, breakfast_allergens, lunch_allergens, snack_allergens')
+    .eq('org_id', orgId)
+    .eq('day', date)
+    .is('deleted_at', null);
+
+  if (menusError) {
+    throw new MenuAllergenServiceError('Failed to load menus', 500, menusError);
+  }
+
+  const menus = (menuRows ?? []) as MenuAllergenRow[];
+  if (menus.length === 0) {
+    return { day: date, scope, conflicts: [] };
+  }
+  const orgMenu = menus.find((menu) => menu.class_id === null) ?? null;
+  const classMenus = new Map(
+    menus.filter((menu) => menu.class_id !== null).map((menu) => [menu.class_id as string, menu]),
+  );
+
+  let children: ChildRow[];
+  if (scope === 'checked_in') {
+    let query = supabaseAdmin!
+      .from('attendance')
+      .select(
+        'student_id, class_id, students!attendance_student_id_fkey!inner (id, class_id, allergy_tags, users!students_user_id_fkey (first_name, last_name))',
+      )
+      .eq('org_id', orgId)
+      .eq('date', date)
+      .in('status', CHECKED_IN_STATUSES)
+      .is('left_at', null);
+    // attendance.class_id is often unset, so scope on the child's own class
+    if (classIds) {
+      query = query.in('students.class_id', classIds);
+    }
+    const { data, error } = await query;
+    if (error) {
+      throw new MenuAllergenServiceError('Failed to load attendance', 500, error);
+    }
+    children = ((data ?? []) as unknown as PresentChildRow[])
+      .filter((row) => row.students)
+      .map((row) => ({ ...row.students!, class_id: row.students!.class_id ?? row.class_id }));
+  } else {
+    let query = supabaseAdmin!
+      .from('students')
+      .select('id, class_id, allergy_tags, users!students_user_id_fkey (first_name, last_name)')
+      .eq('org_id', orgId)
+      .is('deleted_at', null)
+      .is('graduated_at', null);
+    if (classIds) {
+      query = query.in('class_id', classIds);
+    }
+    const { data, error } = await query;
+    if (error) {
+      throw new MenuAllergenServiceError('Failed to load students', 500, error);
+    }
+    children = (data ?? []) as unknown as ChildRow[];
+  }
+
+  children = children.filter((child) => knownAllergens(child.allergy_tags).length > 0);
+  if (children.length === 0) {
+    return { day: date, scope, conflicts: [] };
+  }
+
+  const childClassIds = Array.from(
+    new Set(children.map((child) => child.class_id).filter((id): id is string => Boolean(id))),
+  );
+  const classNames = new Map<string, string>();
+  if (childClassIds.length > 0) {
+    const { data: classes, error: classesError } = await supabaseAdmin!
+      .from('classes')
+      .select('id, name')
+      .in('id', childClassIds);
+    if (classesError) {
+      throw new MenuAllergenServiceError('Failed to load classes', 500, classesError);
+    }
+    for (const cls of (classes ?? []) as Array<{ id: string; name: string }>) {
+      classNames.set(cls.id, cls.name);
+    }
+  }
+
+  const conflicts: MenuAllergenConflict[] = [];
+  for (const child of children) {
+    const menu = (child.class_id && classMenus.get(child.class_id)) || orgMenu;
+    if (!menu) continue;
+
+    const childAllergens = knownAllergens(child.allergy_tags);
+    for (const meal of MENU_MEALS) {
+      const mealAllergens = knownAllergens(menu[`${meal}_allergens`]);
+      const overlap = childAllergens.filter((allergen) => mealAllergens.includes(allergen));
+      if (overlap.length === 0) continue;
+      conflicts.push({
+        student_id: child.id,
+        first_name: child.users?.first_name ?? null,
+        last_name: child.users?.last_name ?? null,
+        class_id: child.class_id,
+        class_name: child.class_id ? classNames.get(child.class_id) ?? null : null,
+        meal,
+        allergens: overlap,
+      });
+    }
+  }
+
+  conflicts.sort(
+    (a, b) =>
+      (a.class_name ?? '').localeCompare(b.class_name ?? '') ||
+      `${a.first_name ?? ''} ${a.last_name ?? ''}`.localeCompare(`${b.first_name ?? ''} ${b.last_name ?? ''}`) ||
+      MENU_MEALS.indexOf(a.meal) - MENU_MEALS.indexOf(b.meal),
+  );
+
+  return { day: date, scope, conflicts };
+}
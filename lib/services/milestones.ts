@@ -0,0 +1,235 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+import { calculateAge } from '@/lib/utils/studentUtils';
+import { MILESTONES } from '@/lib/constants/milestones';
+
+import type {
+  MilestoneChecklist,
+  MilestoneDailyLogEvidence,
+  MilestonePhotoEvidence,
+  StudentMilestone,
+} from '@/lib/types/milestones';
+import type { PutStudentMilestoneBody } from '@/lib/validation/milestones';
+
+/**
+ * Error class for milestone tracking failures
+ */
+export class MilestoneServiceError extends ServiceError {
+  name = 'MilestoneServiceError';
+}
+
+const MILESTONE_COLUMNS = `
+  id,
+  org_id,
+  student_id,
+  milestone_key,
+  status,
+  observed_on,
+  photo_id,
+  daily_log_id,
+  notes,
+  recorded_by,
+  created_at,
+  updated_at,
+  photos!student_milestones_photo_id_fkey (id, caption, created_at),
+  daily_logs!student_milestones_daily_log_id_fkey (id, kind, note, recorded_at),
+  recorded_by_user:users!student_milestones_recorded_by_fkey (first_name, last_name)
+`;
+
+// Evidence pickers offer this many of the newest photos and log entries
+const EVIDENCE_LIMIT = 50;
+
+interface MilestoneStudent {
+  id: string;
+  class_id: string | null;
+  dob: string | null;
+}
+
+async function getStudent(orgId: string, studentId: string): Promise<MilestoneStudent> {
+  const { data, error } = await supabaseAdmin!
+    .from('students')
+    .select('id, class_id, users!students_user_id_fkey (dob)')
+    .eq('id', studentId)
+    .eq('org_id', orgId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new MilestoneServiceError('Failed to load student', 500, error);
+  }
+  if (!data) {
+    throw new MilestoneServiceError('Student not found', 404);
+  }
+  const student = data as unknown as { id: string; class_id: string | null; users: { dob: string | null } | null };
+  return { id: student.id, class_id: student.class_id, dob: student.users?.dob ?? null };
+}
+
+async function listEvidenceOptions(orgId: string, student: MilestoneStudent) {
+  const photoOwner = student.class_id
+    ? `student_id.eq.${student.id},class_id.eq.${student.class_id}`
+    : `student_id.eq.${student.id}`;
+
+  const [photosResult, logsResult] = await Promise.all([
+    supabaseAdmin!
+      .from('photos')
+      .select('id, caption, created_at')
+      .eq('org_id', orgId)
+      .is('deleted_at', null)
+      .or(photoOwner)
+      .order('created_at', { ascending: false })
+      .limit(EVIDENCE_LIMIT),
+    student.class_id
+      ? supabaseAdmin!
+          .from('daily_logs')
+          .select('id, kind, note, recorded_at')
+          .eq('org_id', orgId)
+          .eq('class_id', student.class_id)
+          .is('deleted_at', null)
+          .order('recorded_at', { ascending: false })
+          .limit(EVIDENCE_LIMIT)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (photosResult.error || logsResult.error) {
+    throw new MilestoneServiceError('Failed to load evidence', 500, photosResult.error ?? logsResult.error);
+  }
+  return {
+    photos: (photosResult.data ?? []) as MilestonePhotoEvidence[],
+    daily_logs: (logsResult.data ?? []) as MilestoneDailyLogEvidence[],
+  };
+}
+
+/**
+ * The checklist for a child's age with what has been recorded. Children under
+ * one get the first year's items; without a date of birth every item is shown.
+ */
+export async function getMilestoneChecklist({
+  orgId,
+  studentId,
+  includeEvidenceOptions,
+}: {
+  orgId: string;
+  studentId: string;
+  includeEvidenceOptions: boolean;
+}): Promise<MilestoneChecklist> {
+  assertSupabaseAdmin('Milestone service');
+  const student = await getStudent(orgId, studentId);
+
+  const { data, error } = await supabaseAdmin!
+    .from('student_milestones')
+    .select(MILESTONE_COLUMNS)
+    .eq('org_id', orgId)
+    .eq('student_id', studentId);
+  if (error) {
+    throw new MilestoneServiceError('Failed to load milestones', 500, error);
+  }
+
+  const records = new Map(
+    ((data ?? []) as unknown as StudentMilestone[]).map((record) => [record.milestone_key, record]),
+  );
+  const age = calculateAge(student.dob);
+  const maxAge = age === null ? Infinity : Math.max(age, 1);
+
+  return {
+    student_id: student.id,
+    dob: student.dob,
+    age,
+    items: MILESTONES.filter((milestone) => milestone.age <= maxAge).map((milestone) => ({
+      key: milestone.key,
+      domain: milestone.domain,
+      age: milestone.age,
+      record: records.get(milestone.key) ?? null,
+    })),
+    ...(includeEvidenceOptions ? { evidence_options: await listEvidenceOptions(orgId, student) } : {}),
+  };
+}
+
+/**
+ * Mark a milestone as emerging or achieved, or clear it with a null status.
+ * Evidence must be a photo of the child or their class, or a log entry
+ * from their class.
+ */
+export async function recordMilestone({
+  orgId,
+  studentId,
+  recordedBy,
+  body,
+}: {
+  orgId: string;
+  studentId: string;
+  recordedBy: string;
+  body: PutStudentMilestoneBody;
+}): Promise<StudentMilestone | null> {
+  assertSupabaseAdmin('Milestone service');
+  const student = await getStudent(orgId, studentId);
+
+  if (body.status === null) {
+    const { error } = await supabaseAdmin!
+      .from('student_milestones')
+      .delete()
+      .eq('org_id', orgId)
+      .eq('student_id', studentId)
+      .eq('milestone_key', body.milestone_key);
+    if (error) {
+      throw new MilestoneServiceError('Failed to clear milestone', 500, error);
+    }
+    return null;
+  }
+
+  if (body.photo_id) {
+    const { data: photo, error } = await supabaseAdmin!
+      .from('photos')
+      .select('id, student_id, class_id')
+      .eq('id', body.photo_id)
+      .eq('org_id', orgId)
+      .is('deleted_at', null)
+      .maybeSingle();
+    if (error) {
+      throw new MilestoneServiceError('Failed to load photo', 500, error);
+    }
+    if (!photo || (photo.student_id !== studentId && (!student.class_id || photo.class_id !== student.class_id))) {
+      throw new MilestoneServiceError('Photo not found for this child', 404);
+    }
+  }
+
+  if (body.daily_log_id) {
+    const { data: log, error } = await supabaseAdmin!
+      .from('daily_logs')
+      .select('id, class_id')
+      .eq('id', body.daily_log_id)
+      .eq('org_id', orgId)
+      .is('deleted_at', null)
+      .maybeSingle();
+    if (error) {
+      throw new MilestoneServiceError('Failed to load daily log', 500, error);
+    }
+    if (!log || !student.class_id || log.class_id !== student.class_id) {
+      throw new MilestoneServiceError('Daily log entry not found for this child', 404);
+    }
+  }
+
+  const { data, error } = await supabaseAdmin!
+    .from('student_milestones')
+    .upsert(
+      {
+        org_id: orgId,
+        student_id: studentId,
+        milestone_key: body.milestone_key,
+        status: body.status,
+        observed_on: body.observed_on ?? new Date().toISOString().slice(0, 10),
+        photo_id: body.photo_id ?? null,
+        daily_log_id: body.daily_log_id ?? null,
+        notes: body.notes || null,
+        recorded_by: recordedBy,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'student_id,milestone_key' },
+    )
+    .select(MILESTONE_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new MilestoneServiceError('Failed to save milestone', 500, error);
+  }
+  return data as unknown as StudentMilestone;
+}
@@ -24,7 +24,20 @@ export type NotificationType =
   | 'story_class' 
   | 'story_org'
   | 'event_created'
-  | 'event_updated';
+  | 'event_updated'
+  | 'student_picked_up'
+  | 'absence_unexplained'
+  | 'absence_summary'
+  | 'medication_consent_requested'
+  | 'medication_dose_due'
+  | 'medication_dose_missed'
+  | 'incident_reported'
+  | 'incident_report_sent'
+  | 'fever_alert'
+  | 'health_notice'
+  | 'student_request_submitted'
+  | 'student_request_approved'
+  | 'student_request_rejected';
 
 /**
  * Create a single notification
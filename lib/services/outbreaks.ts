@@ -0,0 +1,381 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { createBulkNotifications } from '@/lib/services/notifications';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+import { fetchAllPages } from '@/lib/utils/supabasePaging';
+import { getLocalDateTime } from '@/lib/utils/timezoneUtils';
+
+import type { SymptomKind } from '@/lib/types/health-logs';
+import type {
+  HealthNotice,
+  OutbreakCategory,
+  OutbreakCluster,
+  OutbreakDailyCount,
+  OutbreakReport,
+} from '@/lib/types/outbreaks';
+
+/**
+ * Error class for outbreak detection failures
+ */
+export class OutbreakServiceError extends ServiceError {
+  name = 'OutbreakServiceError';
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type IllnessEvent = {
+  class_id: string | null;
+  category: OutbreakCategory;
+  student_id: string;
+  at: number;
+  date: string;
+};
+
+/**
+ * Shift a YYYY-MM-DD date by whole days
+ */
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Group events of one class and category into clusters. Every event that falls
+ * in a window of windowMs with at least minChildren distinct children is part
+ * of a cluster; overlapping windows merge into one cluster.
+ */
+function findClusters(events: IllnessEvent[], windowMs: number, minChildren: number): IllnessEvent[][] {
+  const sorted = [...events].sort((a, b) => a.at - b.at);
+  const inCluster = new Array<boolean>(sorted.length).fill(false);
+
+  let start = 0;
+  for (let end = 0; end < sorted.length; end++) {
+    while (sorted[end].at - sorted[start].at > windowMs) {
+      start++;
+    }
+    const children = new Set(sorted.slice(start, end + 1).map((event) => event.student_id));
+    if (children.size >= minChildren) {
+      inCluster.fill(true, start, end + 1);
+    }
+  }
+
+  const clusters: IllnessEvent[][] = [];
+  let current: IllnessEvent[] = [];
+  sorted.forEach((event, index) => {
+    if (!inCluster[index]) return;
+    const previous = current[current.length - 1];
+    if (previous && event.at - previous.at > windowMs) {
+      clusters.push(current);
+      current = [];
+    }
+    current.push(event);
+  });
+  if (current.length > 0) {
+    clusters.push(current);
+  }
+  return clusters;
+}
+
+type OutbreakReportArgs = {
+  orgId: string;
+  from: string;
+  to: string;
+  windowHours: number;
+  minChildren: number;
+};
+
+/**
+ * Symptom logs and away_sick attendance per class and day between from and to
+ * (organization timezone), with the clusters that reach minChildren distinct
+ * children within windowHours
+ */
+export async function getOutbreakReport({
+  orgId,
+  from,
+  to,
+  windowHours,
+  minChildren,
+}: OutbreakReportArgs): Promise<OutbreakReport> {
+  assertSupabaseAdmin('Outbreak service');
+
+  const { data: org, error: orgError } = await supabaseAdmin!
+    .from('orgs')
+    .select('timezone')
+    .eq('id', orgId)
+    .maybeSingle();
+
+  if (orgError) {
+    throw new OutbreakServiceError('Failed to load organization', 500, orgError);
+  }
+  const timeZone = (org as { timezone: string | null } | null)?.timezone ?? 'UTC';
+
+  // A day of slack on both sides covers any timezone offset; rows are
+  // filtered on their local date below
+  const [logsResult, sickResult, classesResult, studentsResult] = await Promise.all([
+    fetchAllPages((rangeFrom, rangeTo) =>
+      supabaseAdmin!
+        .from('health_logs')
+        .select('student_id, class_id, recorded_at, data')
+        .eq('org_id', orgId)
+        .eq('type', 'symptom')
+        .is('deleted_at', null)
+        .gte('recorded_at', `${addDays(from, -1)}T00:00:00Z`)
+        .lt('recorded_at', `${addDays(to, 2)}T00:00:00Z`)
+        .order('id', { ascending: true })
+        .range(rangeFrom, rangeTo),
+    ),
+    fetchAllPages((rangeFrom, rangeTo) =>
+      supabaseAdmin!
+        .from('attendance')
+        .select('student_id, class_id, date')
+        .eq('org_id', orgId)
+        .eq('status', 'away_sick')
+        .gte('date', from)
+        .lte('date', to)
+        .order('id', { ascending: true })
+        .range(rangeFrom, rangeTo),
+    ),
+    supabaseAdmin!.from('classes').select('id, name').eq('org_id', orgId),
+    fetchAllPages((rangeFrom, rangeTo) =>
+      supabaseAdmin!
+        .from('students')
+        .select('id, class_id')
+        .eq('org_id', orgId)
+        .order('id', { ascending: true })
+        .range(rangeFrom, rangeTo),
+    ),
+  ]);
+
+  const error = logsResult.error ?? sickResult.error ?? classesResult.error ?? studentsResult.error;
+  if (error) {
+    throw new OutbreakServiceError('Failed to load illness data', 500, error);
+  }
+
+  const classNames = new Map(
+    ((classesResult.data ?? []) as Array<{ id: string; name: string }>).map((c) => [c.id, c.name]),
+  );
+  const studentClasses = new Map(
+    ((studentsResult.data ?? []) as Array<{ id: string; class_id: string | null }>).map((s) => [s.id, s.class_id]),
+  );
+
+  const events: IllnessEvent[] = [];
+
+  for (const log of (logsResult.data ?? []) as Array<{
+    student_id: string;
+    class_id: string | null;
+    recorded_at: string;
+    data: { symptoms?: SymptomKind[] } | null;
+  }>) {
+    const at = new Date(log.recorded_at);
+    const { date } = getLocalDateTime(at, timeZone);
+    if (date < from || date > to) continue;
+
+    const classId = log.class_id ?? studentClasses.get(log.student_id) ?? null;
+    // Logs from before symptoms could be ticked count as other
+    const symptoms = log.data?.symptoms?.length ? log.data.symptoms : (['other'] as SymptomKind[]);
+    for (const category of new Set(symptoms)) {
+      events.push({ class_id: classId, category, student_id: log.student_id, at: at.getTime(), date });
+    }
+  }
+
+  for (const row of (sickResult.data ?? []) as Array<{ student_id: string; class_id: string | null; date: string }>) {
+    events.push({
+      class_id: row.class_id ?? studentClasses.get(row.student_id) ?? null,
+      category: 'away_sick',
+      student_id: row.student_id,
+      // Sick days have no time, so they sit at midday
+      at: new Date(`${row.date}T12:00:00Z`).getTime(),
+      date: row.date,
+    });
+  }
+
+  const dailyChildren = new Map<string, { row: Omit<OutbreakDailyCount, 'children'>; children: Set<string> }>();
+  const byClassAndCategory = new Map<string, IllnessEvent[]>();
+
+  for (const event of events) {
+    const dailyKey = `${event.date}|${event.class_id ?? ''}|${event.category}`;
+    const daily = dailyChildren.get(dailyKey) ?? {
+      row: {
+        date: event.date,
+        class_id: event.class_id,
+        class_name: event.class_id ? classNames.get(event.class_id) ?? null : null,
+        category: event.category,
+      },
+      children: new Set<string>(),
+    };
+    daily.children.add(event.student_id);
+    dailyChildren.set(dailyKey, daily);
+
+    const groupKey = `${event.class_id ?? ''}|${event.category}`;
+    byClassAndCategory.set(groupKey, [...(byClassAndCategory.get(groupKey) ?? []), event]);
+  }
+
+  const daily: OutbreakDailyCount[] = [...dailyChildren.values()]
+    .map(({ row, children }) => ({ ...row, children: children.size }))
+    .sort((a, b) => b.date.localeCompare(a.date) || (a.class_name ?? '').localeCompare(b.class_name ?? ''));
+
+  const clusters: OutbreakCluster[] = [];
+  for (const groupEvents of byClassAndCategory.values()) {
+    for (const clusterEvents of findClusters(groupEvents, windowHours * HOUR_MS, minChildren)) {
+      const { class_id, category } = clusterEvents[0];
+      const studentIds = [...new Set(clusterEvents.map((event) => event.student_id))];
+      clusters.push({
+        class_id,
+        class_name: class_id ? classNames.get(class_id) ?? null : null,
+        category,
+        children: studentIds.length,
+        student_ids: studentIds,
+        first_at: new Date(clusterEvents[0].at).toISOString(),
+        last_at: new Date(clusterEvents[clusterEvents.length - 1].at).toISOString(),
+      });
+    }
+  }
+  clusters.sort((a, b) => b.last_at.localeCompare(a.last_at) || b.children - a.children);
+
+  return { from, to, window_hours: windowHours, min_children: minChildren, daily, clusters };
+}
+
+const NOTICE_COLUMNS = `
+  id,
+  org_id,
+  class_id,
+  category,
+  title,
+  body,
+  recipient_count,
+  sent_by,
+  sent_at,
+  classes!health_notices_class_id_fkey (id, name),
+  sent_by_user:users!health_notices_sent_by_fkey (id, first_name, last_name)
+`;
+
+/**
+ * Send a health notice to the guardians of every child in a class and keep
+ * a record of it
+ */
+export async function sendHealthNotice({
+  orgId,
+  classId,
+  category,
+  title,
+  body,
+  sentBy,
+}: {
+  orgId: string;
+  classId: string;
+  category: OutbreakCategory;
+  title: string;
+  body: string;
+  sentBy: string;
+}): Promise<HealthNotice> {
+  assertSupabaseAdmin('Outbreak service');
+
+  const { data: classRow, error: classError } = await supabaseAdmin!
+    .from('classes')
+    .select('id')
+    .eq('id', classId)
+    .eq('org_id', orgId)
+    .maybeSingle();
+
+  if (classError) {
+    throw new OutbreakServiceError('Failed to load class', 500, classError);
+  }
+  if (!classRow) {
+    throw new OutbreakServiceError('Class not found', 404);
+  }
+
+  const { data: students, error: studentsError } = await supabaseAdmin!
+    .from('students')
+    .select('id')
+    .eq('org_id', orgId)
+    .eq('class_id', classId)
+    .is('deleted_at', null);
+
+  if (studentsError) {
+    throw new OutbreakServiceError('Failed to load students', 500, studentsError);
+  }
+
+  const studentIds = ((students ?? []) as Array<{ id: string }>).map((s) => s.id);
+  let guardianIds: string[] = [];
+  if (studentIds.length > 0) {
+    const { data: links, error: linksError } = await supabaseAdmin!
+      .from('guardian_students')
+      .select('guardian_id')
+      .eq('org_id', orgId)
+      .in('student_id', studentIds);
+
+    if (linksError) {
+      throw new OutbreakServiceError('Failed to load guardians', 500, linksError);
+    }
+    guardianIds = [...new Set(((links ?? []) as Array<{ guardian_id: string }>).map((l) => l.guardian_id))];
+  }
+
+  if (guardianIds.length === 0) {
+    throw new OutbreakServiceError('No guardians are linked to children in this class', 400);
+  }
+
+  const { data, error } = await supabaseAdmin!
+    .from('health_notices')
+    .insert({
+      org_id: orgId,
+      class_id: classId,
+      category,
+      title,
+      body,
+      recipient_count: guardianIds.length,
+      sent_by: sentBy,
+    })
+    .select(NOTICE_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new OutbreakServiceError('Failed to save health notice', 500, error);
+  }
+
+  const notice = data as unknown as HealthNotice;
+  await createBulkNotifications(
+    orgId,
+    guardianIds,
+    'health_notice',
+    title,
+    body,
+    { health_notice_id: notice.id, class_id: classId, category },
+    'high',
+  );
+
+  return notice;
+}
+
+/**
+ * Health notices sent by the organization, newest first
+ */
+export async function listHealthNotices({
+  orgId,
+  from,
+  to,
+}: {
+  orgId: string;
+  from?: string;
+  to?: string;
+}): Promise<HealthNotice[]> {
+  assertSupabaseAdmin('Outbreak service');
+
+  let query = supabaseAdmin!
+    .from('health_notices')
+    .select(NOTICE_COLUMNS)
+    .eq('org_id', orgId)
+    .order('sent_at', { ascending: false });
+
+  if (from) {
+    query = query.gte('sent_at', `${from}T00:00:00Z`);
+  }
+  if (to) {
+    query = query.lt('sent_at', `${addDays(to, 1)}T00:00:00Z`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new OutbreakServiceError('Failed to fetch health notices', 500, error);
+  }
+  return (data ?? []) as unknown as HealthNotice[];
+}
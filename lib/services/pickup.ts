@@ -0,0 +1,302 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { createBulkNotifications } from '@/lib/services/notifications';
+import { enText } from '@/lib/translations/en';
+import { isText } from '@/lib/translations/is';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+
+import type { PickupPerson } from '@/lib/types/attendance';
+
+/**
+ * Error class for pickup authorization failures.
+ * status is 400 when a requested pickup person is not authorized.
+ */
+export class PickupServiceError extends ServiceError {
+  constructor(
+    message: string,
+    status: number = 500,
+    public readonly details?: unknown,
+  ) {
+    super(message, status, details);
+    this.name = 'PickupServiceError';
+  }
+}
+
+type GuardianLinkRow = {
+  student_id: string;
+  guardian_id: string;
+  relation: string | null;
+  users: {
+    first_name: string | null;
+    last_name: string | null;
+    phone: string | null;
+    avatar_url: string | null;
+  } | null;
+};
+
+type RelativeRow = {
+  id: string;
+  student_id: string;
+  full_name: string;
+  relation: string | null;
+  phone: string | null;
+  photo_url: string | null;
+};
+
+async function fetchAuthorizedRows(orgId: string, studentIds: string[]) {
+  const [guardianResult, relativeResult] = await Promise.all([
+    supabaseAdmin!
+      .from('guardian_students')
+      .select(
+        `
+        student_id,
+        guardian_id,
+        relation,
+        users!guardian_students_guardian_id_fkey (
+          first_name,
+          last_name,
+          phone,
+          avatar_url
+        )
+      `,
+      )
+      .eq('org_id', orgId)
+      .in('student_id', studentIds),
+    supabaseAdmin!
+      .from('student_relatives')
+      .select('id, student_id, full_name, relation, phone, photo_url')
+      .eq('org_id', orgId)
+      .in('student_id', studentIds)
+      .eq('can_pickup', true)
+      .is('deleted_at', null),
+  ]);
+
+  if (guardianResult.error) {
+    throw new PickupServiceError('Failed to fetch guardians', 500, guardianResult.error);
+  }
+  if (relativeResult.error) {
+    throw new PickupServiceError('Failed to fetch authorized relatives', 500, relativeResult.error);
+  }
+
+  return {
+    guardians: (guardianResult.data ?? []) as unknown as GuardianLinkRow[],
+    relatives: (relativeResult.data ?? []) as RelativeRow[],
+  };
+}
+
+function guardianFullName(row: GuardianLinkRow): string {
+  return `${row.users?.first_name ?? ''} ${row.users?.last_name ?? ''}`.trim();
+}
+
+/**
+ * List everyone authorized to collect a student: linked guardians
+ * and relatives flagged with can_pickup.
+ */
+export async function listAuthorizedPickupPersons({
+  orgId,
+  studentId,
+}: {
+  orgId: string;
+  studentId: string;
+}): Promise<PickupPerson[]> {
+  assertSupabaseAdmin('Pickup service');
+
+  const { guardians, relatives } = await fetchAuthorizedRows(orgId, [studentId]);
+
+  return [
+    ...guardians.map((row) => ({
+      id: row.guardian_id,
+      kind: 'guardian' as const,
+      full_name: guardianFullName(row),
+      relation: row.relation,
+      phone: row.users?.phone ?? null,
+      photo_url: row.users?.avatar_url ?? null,
+    })),
+    ...relatives.map((row) => ({
+      id: row.id,
+      kind: 'relative' as const,
+      full_name: row.full_name,
+      relation: row.relation,
+      phone: row.phone,
+      photo_url: row.photo_url,
+    })),
+  ];
+}
+
+export type PickupRequest = {
+  student_id: string;
+  guardian_id?: string | null;
+  relative_id?: string | null;
+};
+
+export type ResolvedPickup = {
+  picked_up_by_guardian_id: string | null;
+  picked_up_by_relative_id: string | null;
+  picked_up_by_name: string;
+};
+
+/**
+ * Check that each requested pickup person is authorized for the student.
+ * All requests are validated together; a single PickupServiceError (400)
+ * lists every student whose pickup person could not be verified.
+ */
+export async function resolvePickupPersons({
+  orgId,
+  requests,
+}: {
+  orgId: string;
+  requests: PickupRequest[];
+}): Promise<Map<string, ResolvedPickup>> {
+  assertSupabaseAdmin('Pickup service');
+
+  const resolved = new Map<string, ResolvedPickup>();
+  if (requests.length === 0) {
+    return resolved;
+  }
+
+  const studentIds = [...new Set(requests.map((r) => r.student_id))];
+  const { guardians, relatives } = await fetchAuthorizedRows(orgId, studentIds);
+
+  const guardianByKey = new Map(guardians.map((g) => [`${g.student_id}-${g.guardian_id}`, g]));
+  const relativeByKey = new Map(relatives.map((r) => [`${r.student_id}-${r.id}`, r]));
+
+  const invalid: Array<{ student_id: string; message: string }> = [];
+
+  for (const request of requests) {
+    const hasGuardian = Boolean(request.guardian_id);
+    const hasRelative = Boolean(request.relative_id);
+
+    if (hasGuardian === hasRelative) {
+      invalid.push({
+        student_id: request.student_id,
+        message: 'Select exactly one guardian or authorized relative who picked up the child',
+      });
+      continue;
+    }
+
+    if (hasGuardian) {
+      const guardian = guardianByKey.get(`${request.student_id}-${request.guardian_id}`);
+      if (!guardian) {
+        invalid.push({ student_id: request.student_id, message: 'Guardian is not linked to this child' });
+        continue;
+      }
+      resolved.set(request.student_id, {
+        picked_up_by_guardian_id: guardian.guardian_id,
+        picked_up_by_relative_id: null,
+        picked_up_by_name: guardianFullName(guardian),
+      });
+    } else {
+      const relative = relativeByKey.get(`${request.student_id}-${request.relative_id}`);
+      if (!relative) {
+        invalid.push({
+          student_id: request.student_id,
+          message: 'Relative is not authorized to pick up this child',
+        });
+        continue;
+      }
+      resolved.set(request.student_id, {
+        picked_up_by_guardian_id: null,
+        picked_up_by_relative_id: relative.id,
+        picked_up_by_name: relative.full_name,
+      });
+    }
+  }
+
+  if (invalid.length > 0) {
+    throw new PickupServiceError('Pickup person could not be verified', 400, invalid);
+  }
+
+  return resolved;
+}
+
+export type PickupNotification = {
+  student_id: string;
+  picked_up_by_name: string;
+  left_at: string;
+};
+
+/**
+ * Push a notification to each child's guardians naming who picked them up.
+ * Messages use each guardian's language and the organization's timezone.
+ */
+export async function notifyGuardiansOfPickup({
+  orgId,
+  pickups,
+}: {
+  orgId: string;
+  pickups: PickupNotification[];
+}): Promise<void> {
+  assertSupabaseAdmin('Pickup service');
+
+  if (pickups.length === 0) {
+    return;
+  }
+
+  const studentIds = pickups.map((p) => p.student_id);
+
+  const [orgResult, studentsResult, linksResult] = await Promise.all([
+    supabaseAdmin!.from('orgs').select('timezone').eq('id', orgId).maybeSingle(),
+    supabaseAdmin!
+      .from('students')
+      .select('id, users!students_user_id_fkey (first_name)')
+      .in('id', studentIds),
+    supabaseAdmin!
+      .from('guardian_students')
+      .select('student_id, guardian_id, users!guardian_students_guardian_id_fkey (language)')
+      .eq('org_id', orgId)
+      .in('student_id', studentIds),
+  ]);
+
+  if (studentsResult.error || linksResult.error) {
+    throw new PickupServiceError(
+      'Failed to load pickup notification targets',
+      500,
+      studentsResult.error ?? linksResult.error,
+    );
+  }
+
+  const timeZone = (orgResult.data?.timezone as string | undefined) || 'UTC';
+  const firstNames = new Map(
+    ((studentsResult.data ?? []) as unknown as Array<{ id: string; users: { first_name: string } | null }>).map(
+      (s) => [s.id, s.users?.first_name ?? ''],
+    ),
+  );
+  const links = (linksResult.data ?? []) as unknown as Array<{
+    student_id: string;
+    guardian_id: string;
+    users: { language: string | null } | null;
+  }>;
+
+  for (const pickup of pickups) {
+    const guardiansByLanguage = new Map<'en' | 'is', string[]>();
+    links
+      .filter((link) => link.student_id === pickup.student_id)
+      .forEach((link) => {
+        const language = link.users?.language === 'en' ? 'en' : 'is';
+        guardiansByLanguage.set(language, [...(guardiansByLanguage.get(language) ?? []), link.guardian_id]);
+      });
+
+    for (const [language, guardianIds] of guardiansByLanguage) {
+      const text = language === 'en' ? enText : isText;
+      const time = new Date(pickup.left_at).toLocaleTimeString(language === 'en' ? 'en-GB' : 'is-IS', {
+        hour: '2-digit',
+        minute: '2-digit',
+        timeZone,
+      });
+      await createBulkNotifications(
+        orgId,
+        guardianIds,
+        'student_picked_up',
+        text.notification_pickup_title.replace('{name}', firstNames.get(pickup.student_id) ?? ''),
+        text.notification_pickup_body
+          .replace('{person}', pickup.picked_up_by_name)
+          .replace('{time}', time),
+        {
+          student_id: pickup.student_id,
+          picked_up_by_name: pickup.picked_up_by_name,
+          left_at: pickup.left_at,
+        },
+        'high',
+      );
+    }
+  }
+}
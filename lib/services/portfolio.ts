@@ -0,0 +1,501 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { enText } from '@/lib/translations/en';
+import { isText } from '@/lib/translations/is';
+import { toPdf, type PdfBlock } from '@/lib/utils/pdfUtils';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+import { fetchAllPages } from '@/lib/utils/supabasePaging';
+import { getLocalDateTime } from '@/lib/utils/timezoneUtils';
+
+import type { MilestoneKey, MilestoneStatus } from '@/lib/constants/milestones';
+
+/**
+ * Error class for learning portfolio failures
+ */
+export class PortfolioServiceError extends ServiceError {
+  name = 'PortfolioServiceError';
+}
+
+type Language = 'en' | 'is';
+
+// Photos are embedded in full, so cap how many and how large
+const PHOTO_LIMIT = 40;
+const PHOTO_MAX_BYTES = 5 * 1024 * 1024;
+
+/** Days the child was at preschool; class entries from other days are left out */
+const PRESENT_STATUSES = ['arrived', 'late', 'gone'];
+
+export type PortfolioEntry =
+  | { kind: 'photo'; date: string; caption: string | null; image: Buffer | null }
+  | { kind: 'daily_log'; date: string; log_kind: string; note: string | null; creator_name: string }
+  | { kind: 'story'; date: string; title: string | null; caption: string | null; item_captions: string[] }
+  | { kind: 'milestone'; date: string; milestone_key: MilestoneKey; status: MilestoneStatus; notes: string | null }
+  | { kind: 'note'; date: string; note: string; author_name: string }
+  | { kind: 'assessment'; date: string; title: string; subject: string | null; result: string; description: string | null };
+
+export interface Portfolio {
+  org_name: string;
+  student_name: string;
+  class_name: string | null;
+  dob: string | null;
+  from: string;
+  to: string;
+  /** Oldest first */
+  entries: PortfolioEntry[];
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * The school year a date falls in, August to July
+ */
+export function getSchoolYear(date = new Date()): { from: string; to: string } {
+  const startYear = date.getMonth() >= 7 ? date.getFullYear() : date.getFullYear() - 1;
+  return { from: `${startYear}-08-01`, to: `${startYear + 1}-07-31` };
+}
+
+/**
+ * The language a user reads their exports in, Icelandic unless set otherwise
+ */
+export async function getUserLanguage(userId: string): Promise<Language> {
+  assertSupabaseAdmin('Portfolio service');
+  const { data, error } = await supabaseAdmin!
+    .from('users')
+    .select('language')
+    .eq('id', userId)
+    .maybeSingle();
+  if (error) {
+    throw new PortfolioServiceError('Failed to load user preferences', 500, error);
+  }
+  return data?.language === 'en' ? 'en' : 'is';
+}
+
+async function downloadJpeg(upload: { bucket: string; path: string; mime_type: string | null; size_bytes: number | null } | null) {
+  if (!upload || !['image/jpeg', 'image/jpg'].includes(upload.mime_type ?? '')) return null;
+  if (upload.size_bytes != null && upload.size_bytes > PHOTO_MAX_BYTES) return null;
+
+  const { data, error } = await supabaseAdmin!.storage.from(upload.bucket || 'photos').download(upload.path);
+  if (error || !data) {
+    console.warn('Could not download portfolio photo', upload.path, error);
+    return null;
+  }
+  return Buffer.from(await data.arrayBuffer());
+}
+
+type PhotoRow = {
+  caption: string | null;
+  created_at: string;
+  uploads: { bucket: string; path: string; mime_type: string | null; size_bytes: number | null } | null;
+};
+
+/**
+ * Up to `limit` items spread evenly over the list, so a long period is not
+ * represented by its first few weeks only
+ */
+function sampleEvenly<T>(items: T[], limit: number): T[] {
+  if (items.length <= limit) return items;
+  return Array.from({ length: limit }, (_, i) => items[Math.floor((i * items.length) / limit)]);
+}
+
+function personName(user: { first_name: string | null; last_name: string | null } | null): string {
+  return `${user?.first_name ?? ''} ${user?.last_name ?? ''}`.trim();
+}
+
+function assessmentResult(assessment: { grade: string | null; score: number | null; max_score: number | null }): string {
+  if (assessment.grade) return assessment.grade;
+  if (assessment.score == null) return '';
+  return assessment.max_score != null
+    ? `${Number(assessment.score)} / ${Number(assessment.max_score)}`
+    : String(Number(assessment.score));
+}
+
+/**
+ * Everything recorded about a child over a period: photos tagged to them,
+ * milestone observations, teachers' attendance notes and assessments, and
+ * their class's public daily log entries and stories, oldest first.
+ * Daily logs and stories are posted per class with no record of which
+ * children appear in them, so only those from the class the child was in on
+ * days they attended are included.
+ */
+export async function getPortfolio({
+  orgId,
+  studentId,
+  from,
+  to,
+}: {
+  orgId: string;
+  studentId: string;
+  from: string;
+  to: string;
+}): Promise<Portfolio> {
+  assertSupabaseAdmin('Portfolio service');
+
+  const [{ data: student, error: studentError }, { data: org, error: orgError }] = await Promise.all([
+    supabaseAdmin!
+      .from('students')
+      .select('id, class_id, users!students_user_id_fkey (first_name, last_name, dob), classes!students_class_id_fkey (name)')
+      .eq('id', studentId)
+      .eq('org_id', orgId)
+      .is('deleted_at', null)
+      .maybeSingle(),
+    supabaseAdmin!.from('orgs').select('name, timezone').eq('id', orgId).maybeSingle(),
+  ]);
+  if (studentError || orgError) {
+    throw new PortfolioServiceError('Failed to load student', 500, studentError ?? orgError);
+  }
+  if (!student) {
+    throw new PortfolioServiceError('Student not found', 404);
+  }
+
+  const studentRow = student as unknown as {
+    class_id: string | null;
+    users: { first_name: string | null; last_name: string | null; dob: string | null } | null;
+    classes: { name: string } | null;
+  };
+  const orgRow = org as { name: string | null; timezone: string | null } | null;
+  const timeZone = orgRow?.timezone || 'UTC';
+  // A day of slack on both sides covers any timezone offset; class entries
+  // are matched to attended days on their local date below
+  const fromIso = `${from}T00:00:00Z`;
+  const toIso = `${addDays(to, 1)}T00:00:00Z`;
+  const slackFromIso = `${addDays(from, -1)}T00:00:00Z`;
+  const slackToIso = `${addDays(to, 2)}T00:00:00Z`;
+
+  const [photosResult, attendanceResult, rolloversResult, milestonesResult, assessmentsResult] = await Promise.all([
+    fetchAllPages((rangeFrom, rangeTo) =>
+      supabaseAdmin!
+        .from('photos')
+        .select('caption, created_at, uploads!photos_upload_id_fkey (bucket, path, mime_type, size_bytes)')
+        .eq('org_id', orgId)
+        .eq('student_id', studentId)
+        .is('deleted_at', null)
+        .gte('created_at', fromIso)
+        .lt('created_at', toIso)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(rangeFrom, rangeTo),
+    ),
+    fetchAllPages((rangeFrom, rangeTo) =>
+      supabaseAdmin!
+        .from('attendance')
+        .select('date, status, class_id, notes, recorded_by_user:users!attendance_recorded_by_fkey (first_name, last_name)')
+        .eq('org_id', orgId)
+        .eq('student_id', studentId)
+        .gte('date', from)
+        .lte('date', to)
+        .order('date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(rangeFrom, rangeTo),
+    ),
+    // Rollovers since the period began tell which class the child was in
+    // on days whose attendance row has no class
+    supabaseAdmin!
+      .from('class_rollovers')
+      .select('class_moves, graduated_student_ids, performed_at')
+      .eq('org_id', orgId)
+      .gte('performed_at', fromIso)
+      .order('performed_at', { ascending: true }),
+    supabaseAdmin!
+      .from('student_milestones')
+      .select('milestone_key, status, observed_on, notes')
+      .eq('org_id', orgId)
+      .eq('student_id', studentId)
+      .gte('observed_on', from)
+      .lte('observed_on', to),
+    fetchAllPages((rangeFrom, rangeTo) =>
+      supabaseAdmin!
+        .from('assessments')
+        .select('title, description, subject, grade, score, max_score, assessed_at')
+        .eq('org_id', orgId)
+        .eq('student_id', studentId)
+        .gte('assessed_at', fromIso)
+        .lt('assessed_at', toIso)
+        .order('assessed_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(rangeFrom, rangeTo),
+    ),
+  ]);
+
+  const queryError =
+    photosResult.error ??
+    attendanceResult.error ??
+    rolloversResult.error ??
+    milestonesResult.error ??
+    assessmentsResult.error;
+  if (queryError) {
+    throw new PortfolioServiceError('Failed to load portfolio', 500, queryError);
+  }
+
+  const photos = (photosResult.data ?? []) as unknown as PhotoRow[];
+  const attendance = (attendanceResult.data ?? []) as unknown as Array<{
+    date: string;
+    status: string;
+    class_id: string | null;
+    notes: string | null;
+    recorded_by_user: { first_name: string | null; last_name: string | null } | null;
+  }>;
+  const rollovers = (rolloversResult.data ?? []) as Array<{
+    class_moves: Array<{ from_class_id: string; to_class_id: string; student_ids: string[] }>;
+    graduated_student_ids: string[];
+    performed_at: string;
+  }>;
+  const milestones = (milestonesResult.data ?? []) as Array<{
+    milestone_key: MilestoneKey;
+    status: MilestoneStatus;
+    observed_on: string;
+    notes: string | null;
+  }>;
+  const assessments = (assessmentsResult.data ?? []) as Array<{
+    title: string;
+    description: string | null;
+    subject: string | null;
+    grade: string | null;
+    score: number | null;
+    max_score: number | null;
+    assessed_at: string;
+  }>;
+
+  // The child's class on a day: the first rollover after it that moved or
+  // graduated the child says where they were, otherwise they have not moved since
+  const classFromRollovers = (date: string): string | null => {
+    for (const rollover of rollovers) {
+      if (getLocalDateTime(new Date(rollover.performed_at), timeZone).date <= date) continue;
+      const move = rollover.class_moves.find((m) => m.student_ids.includes(studentId));
+      if (move) return move.from_class_id;
+      if (rollover.graduated_student_ids.includes(studentId)) return null;
+    }
+    return studentRow.class_id;
+  };
+
+  // Class for each attended day; the child's current class may have changed
+  // since through a rollover
+  const attendedDays = new Map(
+    attendance
+      .filter((day) => PRESENT_STATUSES.includes(day.status))
+      .map((day) => [day.date, day.class_id ?? classFromRollovers(day.date)]),
+  );
+  const classIds = Array.from(new Set(attendedDays.values())).filter((id): id is string => id !== null);
+  const inClassThatDay = (classId: string, timestamp: string) =>
+    attendedDays.get(getLocalDateTime(new Date(timestamp), timeZone).date) === classId;
+  const noRows = Promise.resolve({ data: [], error: null });
+
+  const [logsResult, storiesResult] = await Promise.all([
+    classIds.length > 0
+      ? fetchAllPages((rangeFrom, rangeTo) =>
+          supabaseAdmin!
+            .from('daily_logs')
+            .select('class_id, kind, note, creator_name, recorded_at')
+            .eq('org_id', orgId)
+            .in('class_id', classIds)
+            .eq('public', true)
+            .is('deleted_at', null)
+            .gte('recorded_at', slackFromIso)
+            .lt('recorded_at', slackToIso)
+            .order('recorded_at', { ascending: true })
+            .order('id', { ascending: true })
+            .range(rangeFrom, rangeTo),
+        )
+      : noRows,
+    classIds.length > 0
+      ? fetchAllPages((rangeFrom, rangeTo) =>
+          supabaseAdmin!
+            .from('stories')
+            .select('class_id, title, caption, created_at, story_items (caption, order_index)')
+            .eq('org_id', orgId)
+            .in('class_id', classIds)
+            .is('deleted_at', null)
+            .gte('created_at', slackFromIso)
+            .lt('created_at', slackToIso)
+            .order('created_at', { ascending: true })
+            .order('id', { ascending: true })
+            .range(rangeFrom, rangeTo),
+        )
+      : noRows,
+  ]);
+  if (logsResult.error || storiesResult.error) {
+    throw new PortfolioServiceError('Failed to load portfolio', 500, logsResult.error ?? storiesResult.error);
+  }
+
+  const logs = (logsResult.data ?? []) as Array<{
+    class_id: string;
+    kind: string;
+    note: string | null;
+    creator_name: string;
+    recorded_at: string;
+  }>;
+  const stories = (storiesResult.data ?? []) as unknown as Array<{
+    class_id: string;
+    title: string | null;
+    caption: string | null;
+    created_at: string;
+    story_items: Array<{ caption: string | null; order_index: number }> | null;
+  }>;
+
+  // One at a time to keep memory flat while photos are held for the PDF
+  const photoEntries: PortfolioEntry[] = [];
+  for (const photo of sampleEvenly(photos, PHOTO_LIMIT)) {
+    photoEntries.push({
+      kind: 'photo',
+      date: photo.created_at,
+      caption: photo.caption,
+      image: await downloadJpeg(photo.uploads),
+    });
+  }
+
+  const entries: PortfolioEntry[] = [
+    ...photoEntries,
+    ...logs.filter((log) => inClassThatDay(log.class_id, log.recorded_at)).map((log): PortfolioEntry => ({
+      kind: 'daily_log',
+      date: log.recorded_at,
+      log_kind: log.kind,
+      note: log.note,
+      creator_name: log.creator_name,
+    })),
+    ...stories.filter((story) => inClassThatDay(story.class_id, story.created_at)).map((story): PortfolioEntry => ({
+      kind: 'story',
+      date: story.created_at,
+      title: story.title,
+      caption: story.caption,
+      item_captions: [...(story.story_items ?? [])]
+        .sort((a, b) => a.order_index - b.order_index)
+        .map((item) => item.caption?.trim() ?? '')
+        .filter(Boolean),
+    })),
+    ...milestones.map((milestone): PortfolioEntry => ({
+      kind: 'milestone',
+      date: milestone.observed_on,
+      milestone_key: milestone.milestone_key,
+      status: milestone.status,
+      notes: milestone.notes,
+    })),
+    ...attendance
+      .filter((day) => day.notes?.trim())
+      .map((day): PortfolioEntry => ({
+        kind: 'note',
+        date: day.date,
+        note: day.notes!.trim(),
+        author_name: personName(day.recorded_by_user),
+      })),
+    ...assessments.map((assessment): PortfolioEntry => ({
+      kind: 'assessment',
+      date: assessment.assessed_at,
+      title: assessment.title,
+      subject: assessment.subject,
+      result: assessmentResult(assessment),
+      description: assessment.description,
+    })),
+  ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  return {
+    org_name: orgRow?.name ?? '',
+    student_name: `${studentRow.users?.first_name ?? ''} ${studentRow.users?.last_name ?? ''}`.trim(),
+    class_name: studentRow.classes?.name ?? null,
+    dob: studentRow.users?.dob ?? null,
+    from,
+    to,
+    entries,
+  };
+}
+
+function formatDate(value: string, lang: Language, options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' }): string {
+  return new Date(value).toLocaleDateString(lang === 'is' ? 'is-IS' : 'en-GB', { ...options, timeZone: 'UTC' });
+}
+
+/**
+ * Render a portfolio as a PDF with one section per month
+ */
+export function buildPortfolioPdf(portfolio: Portfolio, lang: Language): Buffer {
+  const text = lang === 'en' ? enText : isText;
+  const labels = text as unknown as Record<string, string>;
+  const period = `${formatDate(portfolio.from, lang)} – ${formatDate(portfolio.to, lang)}`;
+
+  const blocks: PdfBlock[] = [
+    { kind: 'field', label: text.portfolio_child, value: portfolio.student_name },
+    { kind: 'field', label: text.portfolio_class, value: portfolio.class_name ?? '' },
+    { kind: 'field', label: text.portfolio_dob, value: portfolio.dob ? formatDate(portfolio.dob, lang) : '' },
+    { kind: 'field', label: text.portfolio_period, value: period },
+  ];
+
+  const achieved = portfolio.entries.filter((entry) => entry.kind === 'milestone' && entry.status === 'achieved').length;
+  if (achieved > 0) {
+    blocks.push({ kind: 'field', label: text.portfolio_milestones_achieved, value: String(achieved) });
+  }
+
+  if (portfolio.entries.length === 0) {
+    blocks.push({ kind: 'spacer' }, { kind: 'paragraph', text: text.portfolio_empty, muted: true });
+  }
+
+  let month = '';
+  for (const entry of portfolio.entries) {
+    const entryMonth = formatDate(entry.date, lang, { year: 'numeric', month: 'long' });
+    if (entryMonth !== month) {
+      month = entryMonth;
+      blocks.push({ kind: 'heading', text: entryMonth.charAt(0).toUpperCase() + entryMonth.slice(1) });
+    }
+    const day = formatDate(entry.date, lang, { day: 'numeric', month: 'short' });
+
+    switch (entry.kind) {
+      case 'photo':
+        blocks.push({ kind: 'field', label: `${day} · ${text.portfolio_photo}`, value: entry.caption ?? '' });
+        if (entry.image) {
+          blocks.push({ kind: 'image', jpeg: entry.image });
+        }
+        break;
+      case 'daily_log':
+        blocks.push({
+          kind: 'field',
+          label: `${day} · ${labels[`portfolio_log_kind_${entry.log_kind}`] ?? text.portfolio_daily_log}`,
+          value: [entry.note, entry.creator_name].filter(Boolean).join(' — '),
+        });
+        break;
+      case 'story':
+        blocks.push({
+          kind: 'field',
+          label: `${day} · ${text.portfolio_story}`,
+          value: [entry.title, entry.caption, ...entry.item_captions].filter(Boolean).join('\n'),
+        });
+        break;
+      case 'milestone': {
+        const status = entry.status === 'achieved' ? text.milestones_status_achieved : text.milestones_status_emerging;
+        blocks.push({
+          kind: 'field',
+          label: `${day} · ${text.portfolio_milestone}`,
+          value: [`${labels[`milestone_item_${entry.milestone_key}`] ?? entry.milestone_key} (${status})`, entry.notes]
+            .filter(Boolean)
+            .join('\n'),
+        });
+        break;
+      }
+      case 'note':
+        blocks.push({
+          kind: 'field',
+          label: `${day} · ${text.portfolio_teacher_note}`,
+          value: [entry.note, entry.author_name].filter(Boolean).join(' — '),
+        });
+        break;
+      case 'assessment':
+        blocks.push({
+          kind: 'field',
+          label: `${day} · ${text.portfolio_assessment}`,
+          value: [
+            [entry.title, entry.subject].filter(Boolean).join(' · '),
+            entry.result,
+            entry.description,
+          ]
+            .filter(Boolean)
+            .join('\n'),
+        });
+        break;
+    }
+  }
+
+  return toPdf({
+    title: text.portfolio_pdf_title.replace('{name}', portfolio.student_name),
+    subtitle: [portfolio.org_name, period].filter(Boolean).join(' · '),
+    footer: text.portfolio_pdf_title.replace('{name}', portfolio.student_name),
+    blocks,
+  });
+}
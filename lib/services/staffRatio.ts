@@ -0,0 +1,284 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+import { getLocalDateTime } from '@/lib/utils/timezoneUtils';
+
+import type { StaffRatio, StaffRatioReport, StaffRatioSnapshot } from '@/lib/types/staff';
+
+/**
+ * Error class for staff-to-child ratio failures
+ */
+export class StaffRatioServiceError extends ServiceError {
+  name = 'StaffRatioServiceError';
+}
+
+/** Checked-in statuses; legacy 'gone' rows are children who already left */
+const CHECKED_IN_STATUSES = ['arrived', 'late'];
+
+/** Class membership roles that count toward the ratio; observers and student helpers do not */
+const RATIO_STAFF_ROLES = ['teacher', 'teacher_assistant'];
+
+const DEFAULT_MAX_CHILDREN_PER_STAFF = 8;
+
+type OrgRatioSettings = {
+  id: string;
+  timezone: string | null;
+  max_children_per_staff: number | string | null;
+};
+
+type PresentChildRow = {
+  student_id: string;
+  class_id: string | null;
+  students: { class_id: string | null; barngildi: number | string | null } | null;
+};
+
+type MembershipRow = {
+  class_id: string;
+  user_id: string;
+  users: { is_active: boolean; status: string | null; deleted_at: string | null } | null;
+};
+
+function roundRatio(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function buildRatio(
+  classId: string | null,
+  className: string | null,
+  childWeights: number[],
+  staffCount: number,
+  threshold: number,
+): StaffRatio {
+  const weighted = childWeights.reduce((sum, weight) => sum + weight, 0);
+  const childrenPerStaff = staffCount > 0 ? weighted / staffCount : null;
+
+  return {
+    class_id: classId,
+    class_name: className,
+    children_present: childWeights.length,
+    weighted_children: roundRatio(weighted),
+    staff_present: staffCount,
+    children_per_staff: childrenPerStaff === null ? null : roundRatio(childrenPerStaff),
+    is_breach: weighted > 0 && (childrenPerStaff === null || childrenPerStaff > threshold),
+  };
+}
+
+/**
+ * Live ratios for one organization. Children count while checked in today
+ * (org timezone) with no left_at; teachers and assistants count while active,
+ * which excludes anyone on sick or holiday leave. A staff member in several classes counts
+ * in each class but once for the organization.
+ */
+async function calculateOrgStaffRatios(org: OrgRatioSettings, now: Date): Promise<StaffRatioReport> {
+  const { date } = getLocalDateTime(now, org.timezone || 'UTC');
+  const threshold = Number(org.max_children_per_staff ?? DEFAULT_MAX_CHILDREN_PER_STAFF);
+
+  const [classesResult, attendanceResult, membershipsResult] = await Promise.all([
+    supabaseAdmin!
+      .from('classes')
+      .select('id, name')
+      .eq('org_id', org.id)
+      .is('deleted_at', null)
+      .order('name', { ascending: true }),
+    supabaseAdmin!
+      .from('attendance')
+      .select('student_id, class_id, students!attendance_student_id_fkey (class_id, barngildi)')
+      .eq('org_id', org.id)
+      .eq('date', date)
+      .in('status', CHECKED_IN_STATUSES)
+      .is('left_at', null),
+    supabaseAdmin!
+      .from('class_memberships')
+      .select('class_id, user_id, users!inner(is_active, status, deleted_at)')
+      .eq('org_id', org.id)
+      .in('membership_role', RATIO_STAFF_ROLES),
+  ]);
+
+  const error = classesResult.error ?? attendanceResult.error ?? membershipsResult.error;
+  if (error) {
+    throw new StaffRatioServiceError('Failed to load staffing data', 500, error);
+  }
+
+  const childWeightsByClass = new Map<string, number[]>();
+  const allChildWeights: number[] = [];
+  for (const row of (attendanceResult.data ?? []) as unknown as PresentChildRow[]) {
+    const weight = Number(row.students?.barngildi ?? 1);
+    allChildWeights.push(weight);
+    const classId = row.class_id ?? row.students?.class_id;
+    if (classId) {
+      childWeightsByClass.set(classId, [...(childWeightsByClass.get(classId) ?? []), weight]);
+    }
+  }
+
+  const staffByClass = new Map<string, Set<string>>();
+  const allStaff = new Set<string>();
+  for (const row of (membershipsResult.data ?? []) as unknown as MembershipRow[]) {
+    const staffUser = row.users;
+    if (!staffUser || !staffUser.is_active || staffUser.deleted_at) continue;
+    if (staffUser.status && staffUser.status !== 'active') continue;
+
+    allStaff.add(row.user_id);
+    const members = staffByClass.get(row.class_id) ?? new Set<string>();
+    members.add(row.user_id);
+    staffByClass.set(row.class_id, members);
+  }
+
+  const classes = ((classesResult.data ?? []) as Array<{ id: string; name: string }>).map((cls) =>
+    buildRatio(
+      cls.id,
+      cls.name,
+      childWeightsByClass.get(cls.id) ?? [],
+      staffByClass.get(cls.id)?.size ?? 0,
+      threshold,
+    ),
+  );
+
+  return {
+    date,
+    threshold,
+    calculated_at: now.toISOString(),
+    org: buildRatio(null, null, allChildWeights, allStaff.size, threshold),
+    classes,
+  };
+}
+
+/**
+ * Current staff-to-child ratios for an organization, per class and overall.
+ */
+export async function calculateStaffRatios(orgId: string, now: Date = new Date()): Promise<StaffRatioReport> {
+  assertSupabaseAdmin('Staff ratio service');
+
+  const { data: org, error } = await supabaseAdmin!
+    .from('orgs')
+    .select('id, timezone, max_children_per_staff')
+    .eq('id', orgId)
+    .maybeSingle();
+
+  if (error) {
+    throw new StaffRatioServiceError('Failed to load organization settings', 500, error);
+  }
+  if (!org) {
+    throw new StaffRatioServiceError('Organization not found', 404);
+  }
+
+  return calculateOrgStaffRatios(org as OrgRatioSettings, now);
+}
+
+export type StaffRatioSnapshotRunResult = {
+  org_id: string;
+  date: string;
+  skipped?: 'no_children';
+  breaches: number;
+};
+
+/**
+ * Scheduled snapshot across all active organizations. Organizations with no
+ * children checked in are skipped so history only covers opening hours.
+ * A failure in one organization is logged and does not stop the others.
+ */
+export async function recordStaffRatioSnapshots(now: Date = new Date()): Promise<StaffRatioSnapshotRunResult[]> {
+  assertSupabaseAdmin('Staff ratio service');
+
+  const { data: orgs, error } = await supabaseAdmin!
+    .from('orgs')
+    .select('id, timezone, max_children_per_staff')
+    .eq('is_active', true)
+    .is('deleted_at', null);
+
+  if (error) {
+    throw new StaffRatioServiceError('Failed to load organizations for staff ratios', 500, error);
+  }
+
+  const results: StaffRatioSnapshotRunResult[] = [];
+  for (const org of (orgs ?? []) as OrgRatioSettings[]) {
+    try {
+      const report = await calculateOrgStaffRatios(org, now);
+      if (report.org.children_present === 0) {
+        results.push({ org_id: org.id, date: report.date, skipped: 'no_children', breaches: 0 });
+        continue;
+      }
+
+      const ratios = [report.org, ...report.classes.filter((r) => r.children_present > 0 || r.staff_present > 0)];
+      const { error: insertError } = await supabaseAdmin!.from('staff_ratio_snapshots').insert(
+        ratios.map((ratio) => ({
+          org_id: org.id,
+          class_id: ratio.class_id,
+          date: report.date,
+          recorded_at: report.calculated_at,
+          children_present: ratio.children_present,
+          weighted_children: ratio.weighted_children,
+          staff_present: ratio.staff_present,
+          children_per_staff: ratio.children_per_staff,
+          threshold: report.threshold,
+          is_breach: ratio.is_breach,
+        })),
+      );
+
+      if (insertError) {
+        throw new StaffRatioServiceError('Failed to store staff ratio snapshot', 500, insertError);
+      }
+
+      results.push({
+        org_id: org.id,
+        date: report.date,
+        breaches: report.classes.filter((r) => r.is_breach).length,
+      });
+    } catch (err) {
+      console.error(`Staff ratio snapshot failed for org ${org.id}:`, err);
+    }
+  }
+  return results;
+}
+
+type FetchStaffRatioHistoryArgs = {
+  orgId: string;
+  from: string;
+  to: string;
+  classId?: string | null;
+  breachesOnly?: boolean;
+};
+
+/** Upper bound on returned snapshots; a 15-minute schedule gives ~40 per class per day */
+const HISTORY_LIMIT = 2000;
+
+/**
+ * Stored snapshots between two local dates, newest first.
+ */
+export async function fetchStaffRatioHistory({
+  orgId,
+  from,
+  to,
+  classId,
+  breachesOnly,
+}: FetchStaffRatioHistoryArgs): Promise<StaffRatioSnapshot[]> {
+  assertSupabaseAdmin('Staff ratio service');
+
+  let query = supabaseAdmin!
+    .from('staff_ratio_snapshots')
+    .select(
+      'id, org_id, class_id, date, recorded_at, children_present, weighted_children, staff_present, children_per_staff, threshold, is_breach, classes (id, name)',
+    )
+    .eq('org_id', orgId)
+    .gte('date', from)
+    .lte('date', to)
+    .order('recorded_at', { ascending: false })
+    .limit(HISTORY_LIMIT);
+
+  if (classId) {
+    query = query.eq('class_id', classId);
+  }
+  if (breachesOnly) {
+    query = query.eq('is_breach', true);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new StaffRatioServiceError('Failed to fetch staff ratio history', 500, error);
+  }
+
+  return ((data ?? []) as unknown as StaffRatioSnapshot[]).map((row) => ({
+    ...row,
+    weighted_children: Number(row.weighted_children),
+    children_per_staff: row.children_per_staff === null ? null : Number(row.children_per_staff),
+    threshold: Number(row.threshold),
+  }));
+}
@@ -0,0 +1,424 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+import { fetchAllPages } from '@/lib/utils/supabasePaging';
+
+import type { SamveraRole } from '@/lib/types/auth';
+
+/**
+ * Error class for student data encryption failures
+ */
+export class StudentDataCryptoError extends ServiceError {
+  name = 'StudentDataCryptoError';
+}
+
+/** Roles that read the sensitive fields of every child in the organization */
+export const STUDENT_SENSITIVE_READ_ROLES: SamveraRole[] = ['principal', 'admin'];
+
+/** Plaintext field -> encrypted students column */
+export const STUDENT_SENSITIVE_FIELDS = {
+  medical_notes: 'medical_notes_encrypted',
+  allergies: 'allergies_encrypted',
+  emergency_contact: 'emergency_contact_encrypted',
+} as const;
+
+export type StudentSensitiveField = keyof typeof STUDENT_SENSITIVE_FIELDS;
+export type StudentSensitiveValues = Record<StudentSensitiveField, string | null>;
+type EncryptedColumns = Record<(typeof STUDENT_SENSITIVE_FIELDS)[StudentSensitiveField], string | null>;
+
+const FIELDS = Object.keys(STUDENT_SENSITIVE_FIELDS) as StudentSensitiveField[];
+// v2 binds each value to its row; v1 values (bound to the org only) are read until rotation rewrites them
+const CIPHERTEXT_PREFIX = 'enc:v2:';
+const LEGACY_CIPHERTEXT_PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+type MasterKey = { id: string; key: Buffer };
+
+/**
+ * Master keys from the environment: the current one wraps new data keys,
+ * the previous one (while rotating master keys) can still unwrap old ones
+ */
+function loadMasterKeys(): { current: MasterKey; all: MasterKey[] } {
+  const parse = (name: string): MasterKey | null => {
+    const value = process.env[name];
+    if (!value) return null;
+    const key = Buffer.from(value, 'base64');
+    if (key.length !== KEY_BYTES) {
+      throw new StudentDataCryptoError(`${name} must be ${KEY_BYTES} bytes, base64 encoded`);
+    }
+    return { id: createHash('sha256').update(key).digest('hex').slice(0, 16), key };
+  };
+
+  const current = parse('STUDENT_DATA_MASTER_KEY');
+  if (!current) {
+    throw new StudentDataCryptoError('STUDENT_DATA_MASTER_KEY is not set');
+  }
+  const previous = parse('STUDENT_DATA_PREVIOUS_MASTER_KEY');
+  return { current, all: previous ? [current, previous] : [current] };
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join(':');
+}
+
+function open(key: Buffer, sealed: string, aad: string): Buffer {
+  const [iv, tag, ciphertext] = sealed.split(':').map((part) => Buffer.from(part, 'base64'));
+  if (!iv || !tag || !ciphertext) {
+    throw new StudentDataCryptoError('Malformed ciphertext');
+  }
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAAD(Buffer.from(aad, 'utf8'));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+type DataKey = { version: number; key: Buffer };
+
+// Unwrapped data keys stay in memory for the life of the server process
+const dataKeyCache = new Map<string, DataKey>();
+
+function unwrapDataKey(orgId: string, row: { version: number; wrapped_key: string; master_key_id: string }): DataKey {
+  const cacheKey = `${orgId}:${row.version}`;
+  const cached = dataKeyCache.get(cacheKey);
+  if (cached) return cached;
+
+  const master = loadMasterKeys().all.find((candidate) => candidate.id === row.master_key_id);
+  if (!master) {
+    throw new StudentDataCryptoError(`No master key available for data key version ${row.version}`);
+  }
+  const dataKey = { version: row.version, key: open(master.key, row.wrapped_key, `${orgId}:${row.version}`) };
+  dataKeyCache.set(cacheKey, dataKey);
+  return dataKey;
+}
+
+async function fetchDataKey(orgId: string, version: number): Promise<DataKey> {
+  const cached = dataKeyCache.get(`${orgId}:${version}`);
+  if (cached) return cached;
+
+  const { data, error } = await supabaseAdmin!
+    .from('org_data_keys')
+    .select('version, wrapped_key, master_key_id')
+    .eq('org_id', orgId)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) {
+    throw new StudentDataCryptoError('Failed to load data key', 500, error);
+  }
+  if (!data) {
+    throw new StudentDataCryptoError(`Data key version ${version} not found`);
+  }
+  return unwrapDataKey(orgId, data as { version: number; wrapped_key: string; master_key_id: string });
+}
+
+/**
+ * Generate a data key for the organization, wrapped with the current master key
+ */
+async function createDataKey(orgId: string, version: number): Promise<DataKey> {
+  const master = loadMasterKeys().current;
+  const key = randomBytes(KEY_BYTES);
+
+  const { error } = await supabaseAdmin!.from('org_data_keys').insert({
+    org_id: orgId,
+    version,
+    wrapped_key: seal(master.key, key, `${orgId}:${version}`),
+    master_key_id: master.id,
+  });
+
+  if (error) {
+    // Another request created this version first
+    if (error.code === '23505') {
+      return fetchDataKey(orgId, version);
+    }
+    throw new StudentDataCryptoError('Failed to create data key', 500, error);
+  }
+
+  const dataKey = { version, key };
+  dataKeyCache.set(`${orgId}:${version}`, dataKey);
+  return dataKey;
+}
+
+/**
+ * The organization's current data key, created on first use
+ */
+async function getActiveDataKey(orgId: string): Promise<DataKey> {
+  const { data, error } = await supabaseAdmin!
+    .from('org_data_keys')
+    .select('version, wrapped_key, master_key_id')
+    .eq('org_id', orgId)
+    .is('retired_at', null)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new StudentDataCryptoError('Failed to load data key', 500, error);
+  }
+  if (!data) {
+    return createDataKey(orgId, 1);
+  }
+  return unwrapDataKey(orgId, data as { version: number; wrapped_key: string; master_key_id: string });
+}
+
+/**
+ * Values are bound to their org, row and field, so a ciphertext copied into
+ * another child's row or column fails to decrypt
+ */
+function valueAad(orgId: string, rowId: string, field: StudentSensitiveField): string {
+  return `${orgId}:${rowId}:${field}`;
+}
+
+function encryptValue(
+  orgId: string,
+  rowId: string,
+  dataKey: DataKey,
+  field: StudentSensitiveField,
+  value: string | null | undefined,
+) {
+  if (value === null || value === undefined || value === '') return null;
+  const aad = valueAad(orgId, rowId, field);
+  return `${CIPHERTEXT_PREFIX}${dataKey.version}:${seal(dataKey.key, Buffer.from(value, 'utf8'), aad)}`;
+}
+
+async function decryptValue(
+  orgId: string,
+  rowId: string,
+  field: StudentSensitiveField,
+  stored: string | null | undefined,
+) {
+  if (stored === null || stored === undefined || stored === '') return null;
+  const prefix = [CIPHERTEXT_PREFIX, LEGACY_CIPHERTEXT_PREFIX].find((p) => stored.startsWith(p));
+  // Rows written before encryption hold plaintext until the rotation command re-encrypts them
+  if (!prefix) return stored;
+
+  const rest = stored.slice(prefix.length);
+  const separator = rest.indexOf(':');
+  const version = Number(rest.slice(0, separator));
+  if (separator < 0 || !Number.isInteger(version)) {
+    throw new StudentDataCryptoError('Malformed ciphertext');
+  }
+  const dataKey = await fetchDataKey(orgId, version);
+  const aad = prefix === CIPHERTEXT_PREFIX ? valueAad(orgId, rowId, field) : `${orgId}:${field}`;
+  return open(dataKey.key, rest.slice(separator + 1), aad).toString('utf8');
+}
+
+/**
+ * Encrypt medical notes, allergies and emergency contact into their students
+ * columns with the organization's data key. rowId is the id of the students or
+ * student_requests row the columns are written to.
+ */
+export async function encryptStudentSensitiveFields(
+  orgId: string,
+  rowId: string,
+  values: Partial<Record<StudentSensitiveField, string | null | undefined>>,
+): Promise<EncryptedColumns> {
+  assertSupabaseAdmin('Student data encryption');
+  const dataKey = await getActiveDataKey(orgId);
+  const columns = {} as EncryptedColumns;
+  for (const field of FIELDS) {
+    columns[STUDENT_SENSITIVE_FIELDS[field]] = encryptValue(orgId, rowId, dataKey, field, values[field]);
+  }
+  return columns;
+}
+
+/**
+ * Decrypt the sensitive columns of a students row. The encrypted columns are
+ * replaced by plaintext fields and never leave the server as ciphertext.
+ */
+export async function decryptStudentSensitiveFields<T extends Partial<EncryptedColumns> & { id: string }>(
+  orgId: string,
+  row: T,
+): Promise<Omit<T, keyof EncryptedColumns> & StudentSensitiveValues> {
+  assertSupabaseAdmin('Student data encryption');
+  const { medical_notes_encrypted, allergies_encrypted, emergency_contact_encrypted, ...rest } = row;
+  const [medical_notes, allergies, emergency_contact] = await Promise.all([
+    decryptValue(orgId, row.id, 'medical_notes', medical_notes_encrypted),
+    decryptValue(orgId, row.id, 'allergies', allergies_encrypted),
+    decryptValue(orgId, row.id, 'emergency_contact', emergency_contact_encrypted),
+  ]);
+  return { ...rest, medical_notes, allergies, emergency_contact };
+}
+
+/**
+ * Drop the sensitive columns for callers that may not read them
+ */
+export function redactStudentSensitiveFields<T extends Partial<EncryptedColumns>>(
+  row: T,
+): Omit<T, keyof EncryptedColumns> & StudentSensitiveValues {
+  const { medical_notes_encrypted: _m, allergies_encrypted: _a, emergency_contact_encrypted: _e, ...rest } = row;
+  return { ...rest, medical_notes: null, allergies: null, emergency_contact: null };
+}
+
+/**
+ * Which students' sensitive fields a user may read: every child for principals
+ * and admins, children in a teacher's own classes, and a guardian's linked children
+ */
+export async function getStudentSensitiveReadScope({
+  orgId,
+  userId,
+  roles,
+}: {
+  orgId: string;
+  userId: string;
+  roles: SamveraRole[];
+}): Promise<(student: { id: string; class_id: string | null }) => boolean> {
+  assertSupabaseAdmin('Student data encryption');
+
+  if (roles.some((role) => STUDENT_SENSITIVE_READ_ROLES.includes(role))) {
+    return () => true;
+  }
+
+  const [membershipsResult, linksResult] = await Promise.all([
+    roles.includes('teacher')
+      ? supabaseAdmin!.from('class_memberships').select('class_id').eq('org_id', orgId).eq('user_id', userId)
+      : Promise.resolve({ data: [], error: null }),
+    roles.includes('guardian')
+      ? supabaseAdmin!.from('guardian_students').select('student_id').eq('guardian_id', userId)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  const error = membershipsResult.error ?? linksResult.error;
+  if (error) {
+    throw new StudentDataCryptoError('Failed to load student access', 500, error);
+  }
+
+  const classIds = new Set(((membershipsResult.data ?? []) as Array<{ class_id: string }>).map((row) => row.class_id));
+  const studentIds = new Set(((linksResult.data ?? []) as Array<{ student_id: string }>).map((row) => row.student_id));
+  return (student) => studentIds.has(student.id) || (student.class_id !== null && classIds.has(student.class_id));
+}
+
+type ReencryptRow = { id: string; updated_at: string } & EncryptedColumns;
+
+const REENCRYPT_COLUMNS = 'id, updated_at, medical_notes_encrypted, allergies_encrypted, emergency_contact_encrypted';
+// An edit saved while a row is being rewritten makes the write miss; the row is read again and retried
+const REENCRYPT_ATTEMPTS = 3;
+
+/**
+ * Rewrite one row with the given data key, only if it has not changed since
+ * it was read. Returns false when it changed, with the row as it is now.
+ */
+async function reencryptRow(
+  orgId: string,
+  dataKey: DataKey,
+  table: 'students' | 'student_requests',
+  record: ReencryptRow,
+): Promise<{ written: true } | { written: false; current: ReencryptRow | null }> {
+  const plain = await decryptStudentSensitiveFields(orgId, record);
+  const columns = {} as EncryptedColumns;
+  for (const field of FIELDS) {
+    columns[STUDENT_SENSITIVE_FIELDS[field]] = encryptValue(orgId, record.id, dataKey, field, plain[field]);
+  }
+  const { data: updated, error } = await supabaseAdmin!
+    .from(table)
+    .update(columns)
+    .eq('id', record.id)
+    .eq('updated_at', record.updated_at)
+    .select('id');
+  if (error) {
+    throw new StudentDataCryptoError(`Failed to re-encrypt ${table} row ${record.id}`, 500, error);
+  }
+  if ((updated ?? []).length > 0) {
+    return { written: true };
+  }
+
+  const { data: current, error: currentError } = await supabaseAdmin!
+    .from(table)
+    .select(REENCRYPT_COLUMNS)
+    .eq('id', record.id)
+    .maybeSingle();
+  if (currentError) {
+    throw new StudentDataCryptoError(`Failed to reload ${table} row ${record.id}`, 500, currentError);
+  }
+  return { written: false, current: current as ReencryptRow | null };
+}
+
+/**
+ * Re-encrypt the sensitive columns of every row in a table for the organization
+ * with the given data key. Returns the number of rows rewritten.
+ */
+async function reencryptTable(
+  orgId: string,
+  dataKey: DataKey,
+  table: 'students' | 'student_requests',
+): Promise<number> {
+  const { data: records, error: recordsError } = await fetchAllPages<ReencryptRow>(
+    (rangeFrom, rangeTo) =>
+      supabaseAdmin!
+        .from(table)
+        .select(REENCRYPT_COLUMNS)
+        .eq('org_id', orgId)
+        .order('id', { ascending: true })
+        .range(rangeFrom, rangeTo),
+  );
+
+  if (recordsError) {
+    throw new StudentDataCryptoError(`Failed to load ${table}`, 500, recordsError);
+  }
+
+  let rows = 0;
+  for (const record of records) {
+    let row: ReencryptRow | null = record;
+    for (let attempt = 1; row; attempt++) {
+      const result = await reencryptRow(orgId, dataKey, table, row);
+      if (result.written) {
+        rows++;
+        break;
+      }
+      if (attempt === REENCRYPT_ATTEMPTS) {
+        throw new StudentDataCryptoError(`${table} row ${record.id} kept changing during re-encryption`, 409);
+      }
+      // A deleted row needs nothing more
+      row = result.current;
+    }
+  }
+  return rows;
+}
+
+/**
+ * Give the organization a new data key, re-encrypt every student and student
+ * request row with it (including rows still holding plaintext) and retire the
+ * older keys. Returns the new key version and the number of rows rewritten.
+ */
+export async function rotateOrgDataKey(orgId: string): Promise<{ version: number; rows: number }> {
+  assertSupabaseAdmin('Student data encryption');
+
+  const { data: latest, error: latestError } = await supabaseAdmin!
+    .from('org_data_keys')
+    .select('version')
+    .eq('org_id', orgId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) {
+    throw new StudentDataCryptoError('Failed to load data keys', 500, latestError);
+  }
+
+  const version = ((latest as { version: number } | null)?.version ?? 0) + 1;
+  const dataKey = await createDataKey(orgId, version);
+
+  const rows =
+    (await reencryptTable(orgId, dataKey, 'students')) +
+    (await reencryptTable(orgId, dataKey, 'student_requests'));
+
+  // Older keys stay on record for audit but are no longer used for new writes
+  const { error: retireError } = await supabaseAdmin!
+    .from('org_data_keys')
+    .update({ retired_at: new Date().toISOString() })
+    .eq('org_id', orgId)
+    .lt('version', version)
+    .is('retired_at', null);
+
+  if (retireError) {
+    throw new StudentDataCryptoError('Failed to retire old data keys', 500, retireError);
+  }
+
+  return { version, rows };
+}
@@ -0,0 +1,541 @@
+import { randomUUID } from 'crypto';
+
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { encryptStudentSensitiveFields } from '@/lib/services/studentDataCrypto';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+import { fetchAllPages } from '@/lib/utils/supabasePaging';
+import {
+  STUDENT_IMPORT_FIELDS,
+  STUDENT_IMPORT_GUARDIAN_FIELDS,
+  STUDENT_IMPORT_GUARDIAN_SLOTS,
+  type StudentImportField,
+  type StudentImportMode,
+} from '@/lib/constants/studentImport';
+import { normalizeImportDate, type ImportTable } from '@/lib/utils/importUtils';
+import { formatZodError } from '@/lib/validation';
+import {
+  postStudentBodySchema,
+  studentImportGuardianSchema,
+  type PostStudentBody,
+  type StudentImportGuardian,
+} from '@/lib/validation/students';
+
+import type { StudentImportReport, StudentImportRowResult } from '@/lib/types/students';
+import type { UserMetadata } from '@/lib/types/auth';
+
+/**
+ * Error class for student import failures
+ */
+export class StudentImportServiceError extends ServiceError {
+  name = 'StudentImportServiceError';
+}
+
+// Rows per insert, and values per `in` filter
+const BATCH_SIZE = 100;
+
+// Other header spellings recognised when no mapping is given
+const HEADER_ALIASES: Partial<Record<StudentImportField, string[]>> = {
+  first_name: ['fornafn'],
+  last_name: ['eftirnafn'],
+  dob: ['dateofbirth', 'birthdate', 'faedingardagur'],
+  class: ['classname', 'deild'],
+  address: ['heimilisfang'],
+  social_security_number: ['ssn', 'kennitala', 'kt'],
+};
+
+interface PlannedGuardian {
+  key: string;
+  id: string | null;
+  values: StudentImportGuardian;
+}
+
+interface PlannedStudent {
+  row: number;
+  values: PostStudentBody;
+  guardianKeys: string[];
+}
+
+export interface StudentImportPlan {
+  report: StudentImportReport;
+  students: PlannedStudent[];
+  newGuardians: PlannedGuardian[];
+}
+
+function chunk<T>(items: T[], size = BATCH_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Kennitölur are written with and without the hyphen
+function normalizeSsn(ssn: string | null | undefined): string {
+  return (ssn ?? '').replace(/[\s-]/g, '');
+}
+
+/**
+ * Match import fields to file headers. An explicit mapping wins; other
+ * fields are matched on their name or a known alias, ignoring case and
+ * punctuation (so "Guardian 1 Email" finds guardian1_email).
+ */
+export function resolveImportMapping(
+  headers: string[],
+  mapping: Partial<Record<StudentImportField, string>> = {},
+): Partial<Record<StudentImportField, string>> {
+  const byNormalized = new Map(headers.map((header) => [normalizeHeader(header), header]));
+  const resolved: Partial<Record<StudentImportField, string>> = {};
+
+  for (const field of STUDENT_IMPORT_FIELDS) {
+    const explicit = mapping[field];
+    if (explicit !== undefined) {
+      if (explicit && headers.includes(explicit)) {
+        resolved[field] = explicit;
+      }
+      continue;
+    }
+    const guardianAlias = field.replace(/^guardian(\d)_/, 'parent$1_');
+    const candidates = [field, guardianAlias, ...(HEADER_ALIASES[field] ?? [])];
+    for (const candidate of candidates) {
+      const header = byNormalized.get(normalizeHeader(candidate));
+      if (header) {
+        resolved[field] = header;
+        break;
+      }
+    }
+  }
+  return resolved;
+}
+
+async function fetchExisting(orgId: string, emails: string[]) {
+  const [classesResult, studentsResult, guardiansResult] = await Promise.all([
+    supabaseAdmin!.from('classes').select('id, name').eq('org_id', orgId).is('deleted_at', null),
+    fetchAllPages((rangeFrom, rangeTo) =>
+      supabaseAdmin!
+        .from('users')
+        .select('id, ssn')
+        .eq('org_id', orgId)
+        .eq('role', 'student')
+        .not('ssn', 'is', null)
+        .is('deleted_at', null)
+        .order('id', { ascending: true })
+        .range(rangeFrom, rangeTo),
+    ),
+    fetchAllPages((rangeFrom, rangeTo) =>
+      supabaseAdmin!
+        .from('users')
+        .select('id, email, ssn')
+        .eq('org_id', orgId)
+        .eq('role', 'guardian')
+        .is('deleted_at', null)
+        .order('id', { ascending: true })
+        .range(rangeFrom, rangeTo),
+    ),
+  ]);
+
+  if (classesResult.error) {
+    throw new StudentImportServiceError('Failed to load classes', 500, classesResult.error);
+  }
+  if (studentsResult.error) {
+    throw new StudentImportServiceError('Failed to load students', 500, studentsResult.error);
+  }
+  if (guardiansResult.error) {
+    throw new StudentImportServiceError('Failed to load guardians', 500, guardiansResult.error);
+  }
+
+  // Emails are unique across all organizations and roles
+  const usersByEmail = new Map<string, { id: string; org_id: string; role: string | null }>();
+  for (const batch of chunk(emails)) {
+    const { data, error } = await supabaseAdmin!
+      .from('users')
+      .select('id, email, org_id, role')
+      .in('email', batch);
+    if (error) {
+      throw new StudentImportServiceError('Failed to load users', 500, error);
+    }
+    for (const user of (data ?? []) as Array<{ id: string; email: string; org_id: string; role: string | null }>) {
+      usersByEmail.set(user.email.toLowerCase(), user);
+    }
+  }
+
+  const guardiansBySsn = new Map<string, string>();
+  for (const guardian of (guardiansResult.data ?? []) as Array<{ id: string; ssn: string | null }>) {
+    const ssn = normalizeSsn(guardian.ssn);
+    if (ssn) guardiansBySsn.set(ssn, guardian.id);
+  }
+
+  return {
+    classesByName: new Map(
+      ((classesResult.data ?? []) as Array<{ id: string; name: string }>).map((cls) => [
+        cls.name.trim().toLowerCase(),
+        cls.id,
+      ]),
+    ),
+    studentSsns: new Set(
+      ((studentsResult.data ?? []) as Array<{ ssn: string | null }>).map((row) => normalizeSsn(row.ssn)),
+    ),
+    guardiansBySsn,
+    usersByEmail,
+  };
+}
+
+/**
+ * Validate every row against the student and guardian schemas and work out
+ * what committing would create. Nothing is written.
+ */
+export async function planStudentImport({
+  orgId,
+  table,
+  mapping,
+  mode,
+}: {
+  orgId: string;
+  table: ImportTable;
+  mapping?: Partial<Record<StudentImportField, string>>;
+  mode: StudentImportMode;
+}): Promise<StudentImportPlan> {
+  assertSupabaseAdmin('Student import service');
+
+  const resolved = resolveImportMapping(table.headers, mapping);
+  const columnIndex = new Map(
+    Object.entries(resolved).map(([field, header]) => [field, table.headers.indexOf(header)]),
+  );
+  const emails = Array.from(
+    new Set(
+      table.rows.flatMap((row) =>
+        STUDENT_IMPORT_GUARDIAN_SLOTS.map((slot) => {
+          const index = columnIndex.get(`guardian${slot}_email`);
+          return index === undefined ? '' : row[index].toLowerCase();
+        }),
+      ),
+    ),
+  ).filter(Boolean);
+  const existing = await fetchExisting(orgId, emails);
+
+  const rows: StudentImportRowResult[] = [];
+  const students: PlannedStudent[] = [];
+  const plannedByEmail = new Map<string, PlannedGuardian>();
+  const plannedBySsn = new Map<string, PlannedGuardian>();
+  const studentSsnRows = new Map<string, number>();
+
+  table.rows.forEach((cells, index) => {
+    const rowNumber = index + 2; // 1-based, after the header row
+    const get = (field: StudentImportField) => {
+      const column = columnIndex.get(field);
+      return column === undefined ? '' : cells[column];
+    };
+    const optional = (field: StudentImportField) => get(field) || undefined;
+
+    const errors: string[] = [];
+    const allergyTags = get('allergy_tags')
+      .split(/[,;]/)
+      .map((tag) => tag.trim().toLowerCase())
+      .filter(Boolean);
+
+    const studentValidation = postStudentBodySchema.safeParse({
+      first_name: get('first_name'),
+      last_name: optional('last_name'),
+      dob: get('dob') ? normalizeImportDate(get('dob')) : null,
+      gender: optional('gender'),
+      start_date: get('start_date') ? normalizeImportDate(get('start_date')) : null,
+      barngildi: get('barngildi') ? get('barngildi').replace(',', '.') : undefined,
+      student_language: optional('student_language')?.toLowerCase(),
+      address: get('address'),
+      social_security_number: get('social_security_number'),
+      medical_notes: optional('medical_notes'),
+      allergies: optional('allergies'),
+      allergy_tags: allergyTags.length > 0 ? allergyTags : undefined,
+      emergency_contact: optional('emergency_contact'),
+      guardian_ids: [],
+    });
+    if (!studentValidation.success) {
+      errors.push(formatZodError(studentValidation.error));
+    }
+
+    let classId: string | null = null;
+    const className = get('class');
+    if (className) {
+      classId = existing.classesByName.get(className.toLowerCase()) ?? null;
+      if (!classId) {
+        errors.push(`Unknown class "${className}"`);
+      }
+    }
+
+    const studentSsn = normalizeSsn(get('social_security_number'));
+    const isDuplicate = studentSsn !== '' && existing.studentSsns.has(studentSsn);
+    const earlierRow = studentSsn ? studentSsnRows.get(studentSsn) : undefined;
+    if (earlierRow !== undefined) {
+      errors.push(`Same kennitala as row ${earlierRow}`);
+    } else if (studentSsn) {
+      studentSsnRows.set(studentSsn, rowNumber);
+    }
+
+    // Resolve guardians against this file first, then the organization
+    const guardians: StudentImportRowResult['guardians'] = [];
+    const rowGuardians: Array<PlannedGuardian & { isNew: boolean }> = [];
+    for (const slot of STUDENT_IMPORT_GUARDIAN_SLOTS) {
+      const value = (field: (typeof STUDENT_IMPORT_GUARDIAN_FIELDS)[number]) =>
+        get(`guardian${slot}_${field}`);
+      if (STUDENT_IMPORT_GUARDIAN_FIELDS.every((field) => !value(field))) continue;
+
+      const guardianValidation = studentImportGuardianSchema.safeParse({
+        first_name: value('first_name'),
+        last_name: value('last_name') || undefined,
+        email: value('email').toLowerCase(),
+        phone: value('phone') || undefined,
+        ssn: value('ssn') || undefined,
+        address: value('address') || undefined,
+      });
+      if (!guardianValidation.success) {
+        errors.push(`Guardian ${slot}: ${formatZodError(guardianValidation.error)}`);
+        continue;
+      }
+
+      const values = guardianValidation.data;
+      const ssn = normalizeSsn(values.ssn);
+      const planned = plannedByEmail.get(values.email) ?? (ssn ? plannedBySsn.get(ssn) : undefined);
+      const existingBySsn = ssn ? existing.guardiansBySsn.get(ssn) : undefined;
+      const existingUser = existing.usersByEmail.get(values.email);
+      const name = `${values.first_name} ${values.last_name ?? ''}`.trim();
+
+      if (planned) {
+        rowGuardians.push({ ...planned, isNew: false });
+        guardians.push({ name, email: values.email, existing: planned.id !== null });
+      } else if (existingBySsn) {
+        rowGuardians.push({ key: existingBySsn, id: existingBySsn, values, isNew: false });
+        guardians.push({ name, email: values.email, existing: true });
+      } else if (existingUser) {
+        if (existingUser.role !== 'guardian' || existingUser.org_id !== orgId) {
+          errors.push(`Guardian ${slot}: ${values.email} is already used by another user`);
+          continue;
+        }
+        rowGuardians.push({ key: existingUser.id, id: existingUser.id, values, isNew: false });
+        guardians.push({ name, email: values.email, existing: true });
+      } else {
+        rowGuardians.push({ key: `new:${values.email}`, id: null, values, isNew: true });
+        guardians.push({ name, email: values.email, existing: false });
+      }
+    }
+
+    const status = errors.length > 0 ? 'error' : isDuplicate ? 'duplicate' : 'create';
+    rows.push({
+      row: rowNumber,
+      status,
+      student_name: `${get('first_name')} ${get('last_name')}`.trim(),
+      errors,
+      guardians,
+    });
+
+    if (status === 'create' && studentValidation.success) {
+      students.push({
+        row: rowNumber,
+        values: { ...studentValidation.data, class_id: classId },
+        guardianKeys: Array.from(new Set(rowGuardians.map((guardian) => guardian.key))),
+      });
+      // Only guardians of children being created are created, so siblings share them
+      for (const guardian of rowGuardians.filter((g) => g.isNew)) {
+        const { isNew: _isNew, ...planned } = guardian;
+        plannedByEmail.set(planned.values.email, planned);
+        const ssn = normalizeSsn(planned.values.ssn);
+        if (ssn) plannedBySsn.set(ssn, planned);
+      }
+    }
+  });
+
+  return {
+    report: {
+      mode,
+      headers: table.headers,
+      mapping: resolved,
+      total: rows.length,
+      to_create: rows.filter((row) => row.status === 'create').length,
+      duplicates: rows.filter((row) => row.status === 'duplicate').length,
+      errors: rows.filter((row) => row.status === 'error').length,
+      rows,
+      created: null,
+    },
+    students,
+    newGuardians: Array.from(plannedByEmail.values()),
+  };
+}
+
+async function insertInBatches(table: string, records: Record<string, unknown>[], label: string) {
+  let inserted = 0;
+  for (const batch of chunk(records)) {
+    const { error } = await supabaseAdmin!.from(table).insert(batch);
+    if (error) {
+      throw new StudentImportServiceError(
+        `Failed to create ${label} after ${inserted} of ${records.length}`,
+        500,
+        error,
+      );
+    }
+    inserted += batch.length;
+  }
+}
+
+/**
+ * Undo a failed import so the same file can be imported again: remove the
+ * rows and logins it created. Best effort; failures are logged.
+ */
+async function rollbackImport(guardianIds: string[], studentUserIds: string[], studentIds: string[]) {
+  const remove = async (table: string, column: string, ids: string[]) => {
+    for (const batch of chunk(ids)) {
+      const { error } = await supabaseAdmin!.from(table).delete().in(column, batch);
+      if (error) {
+        console.error(`Failed to remove imported ${table} rows`, error);
+      }
+    }
+  };
+
+  await remove('guardian_students', 'student_id', studentIds);
+  await remove('students', 'id', studentIds);
+  await remove('users', 'id', [...studentUserIds, ...guardianIds]);
+  for (const id of guardianIds) {
+    const { error } = await supabaseAdmin!.auth.admin.deleteUser(id);
+    if (error) {
+      console.error('Failed to remove imported guardian login', id, error);
+    }
+  }
+}
+
+/**
+ * Create the planned guardians, students and guardian links. Guardians get
+ * a login like those created one by one; rows are inserted in batches.
+ * A failure part way removes what was created.
+ */
+export async function commitStudentImport({
+  orgId,
+  plan,
+}: {
+  orgId: string;
+  plan: StudentImportPlan;
+}): Promise<StudentImportReport> {
+  assertSupabaseAdmin('Student import service');
+
+  // Logins must exist before the users rows that share their ids
+  const guardianIds = new Map<string, string>();
+  const userMetadata: UserMetadata = {
+    roles: ['guardian'],
+    activeRole: 'guardian',
+    org_id: orgId,
+  };
+  // Ids are assigned here so students and links can be inserted in batches
+  const students = await Promise.all(
+    plan.students.map(async (student) => {
+      const studentId = randomUUID();
+      return {
+        ...student,
+        userId: randomUUID(),
+        studentId,
+        encryptedFields: await encryptStudentSensitiveFields(orgId, studentId, {
+          medical_notes: student.values.medical_notes,
+          allergies: student.values.allergies,
+          emergency_contact: student.values.emergency_contact,
+        }),
+      };
+    }),
+  );
+
+  // Guardians get an invitation email and set up their own sign-in; no password is set here
+  const inviteRedirect = `${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'}/auth/callback-guardian`;
+
+  try {
+    for (const guardian of plan.newGuardians) {
+      const { data, error } = await supabaseAdmin!.auth.admin.inviteUserByEmail(guardian.values.email, {
+        data: userMetadata,
+        redirectTo: inviteRedirect,
+      });
+      if (error || !data?.user) {
+        throw new StudentImportServiceError(
+          `Failed to create login for ${guardian.values.email} after ${guardianIds.size} of ${plan.newGuardians.length} guardians`,
+          500,
+          error,
+        );
+      }
+      guardianIds.set(guardian.key, data.user.id);
+    }
+
+    await insertInBatches(
+      'users',
+      plan.newGuardians.map((guardian) => ({
+        id: guardianIds.get(guardian.key),
+        email: guardian.values.email,
+        phone: guardian.values.phone || null,
+        first_name: guardian.values.first_name,
+        last_name: guardian.values.last_name || null,
+        role: 'guardian',
+        org_id: orgId,
+        is_active: true,
+        ssn: guardian.values.ssn || null,
+        address: guardian.values.address || null,
+      })),
+      'guardians',
+    );
+
+    await insertInBatches(
+      'users',
+      students.map(({ userId, values }) => ({
+        id: userId,
+        first_name: values.first_name,
+        last_name: values.last_name || null,
+        dob: values.dob,
+        gender: values.gender || 'unknown',
+        address: values.address || null,
+        ssn: values.social_security_number || null,
+        role: 'student',
+        org_id: orgId,
+        is_active: true,
+      })),
+      'student users',
+    );
+
+    const registrationTime = new Date().toISOString();
+    await insertInBatches(
+      'students',
+      students.map(({ userId, studentId, values, encryptedFields }) => ({
+        id: studentId,
+        user_id: userId,
+        class_id: values.class_id || null,
+        org_id: orgId,
+        registration_time: registrationTime,
+        start_date: values.start_date,
+        barngildi: values.barngildi || 0.5,
+        student_language: values.student_language || 'english',
+        ...encryptedFields,
+        allergy_tags: values.allergy_tags ?? [],
+      })),
+      'students',
+    );
+
+    const links = students.flatMap(({ studentId, guardianKeys }) =>
+      guardianKeys.map((key) => ({
+        guardian_id: guardianIds.get(key) ?? key,
+        student_id: studentId,
+        relation: 'parent',
+        org_id: orgId,
+      })),
+    );
+    await insertInBatches('guardian_students', links, 'guardian links');
+
+    return {
+      ...plan.report,
+      created: {
+        students: students.length,
+        guardians: plan.newGuardians.length,
+        links: links.length,
+      },
+    };
+  } catch (err) {
+    await rollbackImport(
+      [...guardianIds.values()],
+      students.map(({ userId }) => userId),
+      students.map(({ studentId }) => studentId),
+    );
+    throw err;
+  }
+}
@@ -0,0 +1,171 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+
+import type { StudentRelative } from '@/lib/types/students';
+import type { PostStudentRelativeBody, PutStudentRelativeBody } from '@/lib/validation/students';
+
+/**
+ * Error class for student relative failures
+ */
+export class StudentRelativeServiceError extends ServiceError {
+  name = 'StudentRelativeServiceError';
+}
+
+const RELATIVE_COLUMNS =
+  'id, org_id, student_id, full_name, relation, phone, email, notes, can_pickup, photo_url, contact_priority, created_at, updated_at';
+
+async function assertStudentInOrg(orgId: string, studentId: string) {
+  const { data, error } = await supabaseAdmin!
+    .from('students')
+    .select('id')
+    .eq('id', studentId)
+    .eq('org_id', orgId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new StudentRelativeServiceError('Failed to load student', 500, error);
+  }
+  if (!data) {
+    throw new StudentRelativeServiceError('Student not found', 404);
+  }
+}
+
+/**
+ * A student's relatives, emergency contacts first in priority order,
+ * then everyone else by name
+ */
+export async function listStudentRelatives({
+  orgId,
+  studentId,
+}: {
+  orgId: string;
+  studentId: string;
+}): Promise<StudentRelative[]> {
+  assertSupabaseAdmin('Student relatives service');
+  await assertStudentInOrg(orgId, studentId);
+
+  const { data, error } = await supabaseAdmin!
+    .from('student_relatives')
+    .select(RELATIVE_COLUMNS)
+    .eq('org_id', orgId)
+    .eq('student_id', studentId)
+    .is('deleted_at', null)
+    .order('contact_priority', { ascending: true, nullsFirst: false })
+    .order('full_name', { ascending: true });
+
+  if (error) {
+    throw new StudentRelativeServiceError('Failed to fetch relatives', 500, error);
+  }
+  return (data ?? []) as StudentRelative[];
+}
+
+export async function createStudentRelative({
+  orgId,
+  studentId,
+  values,
+}: {
+  orgId: string;
+  studentId: string;
+  values: PostStudentRelativeBody;
+}): Promise<StudentRelative> {
+  assertSupabaseAdmin('Student relatives service');
+  await assertStudentInOrg(orgId, studentId);
+
+  const { data, error } = await supabaseAdmin!
+    .from('student_relatives')
+    .insert({
+      org_id: orgId,
+      student_id: studentId,
+      full_name: values.full_name.trim(),
+      relation: values.relation || null,
+      phone: values.phone || null,
+      email: values.email || null,
+      notes: values.notes || null,
+      can_pickup: values.can_pickup ?? false,
+      photo_url: values.photo_url || null,
+      contact_priority: values.contact_priority ?? null,
+    })
+    .select(RELATIVE_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new StudentRelativeServiceError('Failed to create relative', 500, error);
+  }
+  return data as StudentRelative;
+}
+
+export async function updateStudentRelative({
+  orgId,
+  studentId,
+  relativeId,
+  values,
+}: {
+  orgId: string;
+  studentId: string;
+  relativeId: string;
+  values: PutStudentRelativeBody;
+}): Promise<StudentRelative> {
+  assertSupabaseAdmin('Student relatives service');
+
+  const update: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (values.full_name !== undefined) update.full_name = values.full_name.trim();
+  if (values.relation !== undefined) update.relation = values.relation || null;
+  if (values.phone !== undefined) update.phone = values.phone || null;
+  if (values.email !== undefined) update.email = values.email || null;
+  if (values.notes !== undefined) update.notes = values.notes || null;
+  if (values.can_pickup !== undefined) update.can_pickup = values.can_pickup;
+  if (values.photo_url !== undefined) update.photo_url = values.photo_url || null;
+  if (values.contact_priority !== undefined) update.contact_priority = values.contact_priority;
+
+  const { data, error } = await supabaseAdmin!
+    .from('student_relatives')
+    .update(update)
+    .eq('id', relativeId)
+    .eq('org_id', orgId)
+    .eq('student_id', studentId)
+    .is('deleted_at', null)
+    .select(RELATIVE_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new StudentRelativeServiceError('Failed to update relative', 500, error);
+  }
+  if (!data) {
+    throw new StudentRelativeServiceError('Relative not found', 404);
+  }
+  return data as StudentRelative;
+}
+
+/**
+ * Soft delete, so pickups already recorded against the relative keep their name
+ */
+export async function deleteStudentRelative({
+  orgId,
+  studentId,
+  relativeId,
+}: {
+  orgId: string;
+  studentId: string;
+  relativeId: string;
+}): Promise<void> {
+  assertSupabaseAdmin('Student relatives service');
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin!
+    .from('student_relatives')
+    .update({ deleted_at: now, updated_at: now })
+    .eq('id', relativeId)
+    .eq('org_id', orgId)
+    .eq('student_id', studentId)
+    .is('deleted_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    throw new StudentRelativeServiceError('Failed to delete relative', 500, error);
+  }
+  if (!data) {
+    throw new StudentRelativeServiceError('Relative not found', 404);
+  }
+}
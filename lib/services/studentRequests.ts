@@ -0,0 +1,414 @@
+import { randomUUID } from 'crypto';
+
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { createBulkNotifications } from '@/lib/services/notifications';
+import {
+  decryptStudentSensitiveFields,
+  encryptStudentSensitiveFields,
+} from '@/lib/services/studentDataCrypto';
+import { enText } from '@/lib/translations/en';
+import { isText } from '@/lib/translations/is';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+
+import type { StudentRequest, StudentRequestStatus } from '@/lib/types/students';
+import type { PostStudentRequestBody } from '@/lib/validation/students';
+
+/**
+ * Error class for student request failures
+ */
+export class StudentRequestServiceError extends ServiceError {
+  name = 'StudentRequestServiceError';
+}
+
+const REQUEST_COLUMNS = `
+  id,
+  org_id,
+  class_id,
+  first_name,
+  last_name,
+  dob,
+  gender,
+  address,
+  ssn,
+  start_date,
+  student_language,
+  medical_notes_encrypted,
+  allergies_encrypted,
+  emergency_contact_encrypted,
+  allergy_tags,
+  guardian_ids,
+  status,
+  requested_by,
+  approved_by,
+  approved_at,
+  rejected_by,
+  rejected_at,
+  rejection_reason,
+  student_id,
+  created_at,
+  updated_at,
+  classes!student_requests_class_id_fkey (id, name),
+  requested_by_user:users!student_requests_requested_by_fkey (id, first_name, last_name)
+`;
+
+type StudentRequestRow = Omit<StudentRequest, 'medical_notes' | 'allergies' | 'emergency_contact'> & {
+  medical_notes_encrypted: string | null;
+  allergies_encrypted: string | null;
+  emergency_contact_encrypted: string | null;
+};
+
+type Language = 'en' | 'is';
+
+function childName(request: Pick<StudentRequest, 'first_name' | 'last_name'>): string {
+  return `${request.first_name} ${request.last_name ?? ''}`.trim();
+}
+
+async function toStudentRequest(orgId: string, row: StudentRequestRow): Promise<StudentRequest> {
+  return decryptStudentSensitiveFields(orgId, row);
+}
+
+/**
+ * Notify users in their own language; the text is built per language
+ */
+async function notifyByLanguage(
+  orgId: string,
+  users: Array<{ id: string; language: string | null }>,
+  type: 'student_request_submitted' | 'student_request_approved' | 'student_request_rejected',
+  buildText: (text: typeof enText | typeof isText) => { title: string; body: string },
+  data: Record<string, unknown>,
+) {
+  for (const language of ['en', 'is'] as Language[]) {
+    const userIds = users.filter((u) => (u.language === 'en' ? 'en' : 'is') === language).map((u) => u.id);
+    if (userIds.length === 0) continue;
+
+    const { title, body } = buildText(language === 'en' ? enText : isText);
+    await createBulkNotifications(orgId, userIds, type, title, body, data);
+  }
+}
+
+async function fetchPrincipals(orgId: string) {
+  const { data, error } = await supabaseAdmin!
+    .from('users')
+    .select('id, language')
+    .eq('org_id', orgId)
+    .eq('role', 'principal')
+    .eq('is_active', true)
+    .is('deleted_at', null);
+
+  if (error) {
+    throw new StudentRequestServiceError('Failed to load principals', 500, error);
+  }
+  return (data ?? []) as Array<{ id: string; language: string | null }>;
+}
+
+async function fetchUserLanguage(userId: string) {
+  const { data, error } = await supabaseAdmin!
+    .from('users')
+    .select('id, language')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new StudentRequestServiceError('Failed to load requester', 500, error);
+  }
+  return data ? [data as { id: string; language: string | null }] : [];
+}
+
+async function fetchRequestRow(orgId: string, id: string): Promise<StudentRequestRow> {
+  const { data, error } = await supabaseAdmin!
+    .from('student_requests')
+    .select(REQUEST_COLUMNS)
+    .eq('id', id)
+    .eq('org_id', orgId)
+    .maybeSingle();
+
+  if (error) {
+    throw new StudentRequestServiceError('Failed to fetch student request', 500, error);
+  }
+  if (!data) {
+    throw new StudentRequestServiceError('Student request not found', 404);
+  }
+  return data as unknown as StudentRequestRow;
+}
+
+/**
+ * Move a pending request to a decided status. The status filter makes
+ * concurrent decisions safe: only one of them finds the request pending.
+ */
+async function decideRequest(
+  orgId: string,
+  id: string,
+  update: Record<string, unknown>,
+): Promise<StudentRequestRow> {
+  const { data, error } = await supabaseAdmin!
+    .from('student_requests')
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('org_id', orgId)
+    .eq('status', 'pending')
+    .select(REQUEST_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new StudentRequestServiceError('Failed to update student request', 500, error);
+  }
+  if (!data) {
+    // Either missing or already decided
+    const existing = await fetchRequestRow(orgId, id);
+    throw new StudentRequestServiceError(`Student request is already ${existing.status}`, 409);
+  }
+  return data as unknown as StudentRequestRow;
+}
+
+/**
+ * Requests in the organization, newest first. Pass requestedBy to list
+ * only one teacher's requests.
+ */
+export async function listStudentRequests({
+  orgId,
+  status,
+  requestedBy,
+}: {
+  orgId: string;
+  status?: StudentRequestStatus;
+  requestedBy?: string;
+}): Promise<StudentRequest[]> {
+  assertSupabaseAdmin('Student request service');
+
+  let query = supabaseAdmin!
+    .from('student_requests')
+    .select(REQUEST_COLUMNS)
+    .eq('org_id', orgId)
+    .order('created_at', { ascending: false });
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+  if (requestedBy) {
+    query = query.eq('requested_by', requestedBy);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new StudentRequestServiceError('Failed to fetch student requests', 500, error);
+  }
+  return Promise.all(
+    ((data ?? []) as unknown as StudentRequestRow[]).map((row) => toStudentRequest(orgId, row)),
+  );
+}
+
+export async function getStudentRequest({ orgId, id }: { orgId: string; id: string }): Promise<StudentRequest> {
+  assertSupabaseAdmin('Student request service');
+  return toStudentRequest(orgId, await fetchRequestRow(orgId, id));
+}
+
+/**
+ * Save a teacher's request for a new student and let the principals know
+ */
+export async function createStudentRequest({
+  orgId,
+  requestedBy,
+  values,
+}: {
+  orgId: string;
+  requestedBy: string;
+  values: PostStudentRequestBody;
+}): Promise<StudentRequest> {
+  assertSupabaseAdmin('Student request service');
+
+  const { data: cls, error: classError } = await supabaseAdmin!
+    .from('classes')
+    .select('id')
+    .eq('id', values.class_id)
+    .eq('org_id', orgId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (classError) {
+    throw new StudentRequestServiceError('Failed to load class', 500, classError);
+  }
+  if (!cls) {
+    throw new StudentRequestServiceError('Class not found', 404);
+  }
+
+  // The id is assigned here because the encrypted fields are bound to it
+  const requestId = randomUUID();
+  const encryptedFields = await encryptStudentSensitiveFields(orgId, requestId, {
+    medical_notes: values.medical_notes,
+    allergies: values.allergies,
+    emergency_contact: values.emergency_contact,
+  });
+
+  const { data, error } = await supabaseAdmin!
+    .from('student_requests')
+    .insert({
+      id: requestId,
+      org_id: orgId,
+      class_id: values.class_id,
+      first_name: values.first_name.trim(),
+      last_name: values.last_name || null,
+      dob: values.dob || null,
+      gender: values.gender ?? 'unknown',
+      address: values.address,
+      ssn: values.social_security_number,
+      start_date: values.start_date || null,
+      student_language: values.student_language ?? null,
+      ...encryptedFields,
+      allergy_tags: values.allergy_tags ?? [],
+      guardian_ids: values.guardian_ids ?? [],
+      status: 'pending',
+      requested_by: requestedBy,
+    })
+    .select(REQUEST_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new StudentRequestServiceError('Failed to create student request', 500, error);
+  }
+  const request = await toStudentRequest(orgId, data as unknown as StudentRequestRow);
+
+  try {
+    await notifyByLanguage(
+      orgId,
+      await fetchPrincipals(orgId),
+      'student_request_submitted',
+      (text) => ({
+        title: text.student_request_notify_submitted_title,
+        body: text.student_request_notify_submitted_body
+          .replace('{name}', childName(request))
+          .replace('{class}', request.classes?.name ?? ''),
+      }),
+      { student_request_id: request.id },
+    );
+  } catch (err) {
+    console.error('Failed to notify principals of student request', err);
+  }
+
+  return request;
+}
+
+/**
+ * Mark a pending request approved before the student is created, so a
+ * second approval cannot create the student twice
+ */
+export async function claimStudentRequestForApproval({
+  orgId,
+  id,
+  approvedBy,
+}: {
+  orgId: string;
+  id: string;
+  approvedBy: string;
+}): Promise<StudentRequest> {
+  assertSupabaseAdmin('Student request service');
+  const row = await decideRequest(orgId, id, {
+    status: 'approved',
+    approved_by: approvedBy,
+    approved_at: new Date().toISOString(),
+  });
+  return toStudentRequest(orgId, row);
+}
+
+/**
+ * Put a claimed request back in the queue when creating the student failed
+ */
+export async function releaseStudentRequest({ orgId, id }: { orgId: string; id: string }): Promise<void> {
+  assertSupabaseAdmin('Student request service');
+  const { error } = await supabaseAdmin!
+    .from('student_requests')
+    .update({ status: 'pending', approved_by: null, approved_at: null, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('org_id', orgId)
+    .eq('status', 'approved')
+    .is('student_id', null);
+
+  if (error) {
+    throw new StudentRequestServiceError('Failed to release student request', 500, error);
+  }
+}
+
+/**
+ * Link the created student to the approved request and tell the requester
+ */
+export async function completeStudentRequestApproval({
+  orgId,
+  id,
+  studentId,
+}: {
+  orgId: string;
+  id: string;
+  studentId: string;
+}): Promise<StudentRequest> {
+  assertSupabaseAdmin('Student request service');
+
+  const { data, error } = await supabaseAdmin!
+    .from('student_requests')
+    .update({ student_id: studentId, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('org_id', orgId)
+    .select(REQUEST_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new StudentRequestServiceError('Failed to update student request', 500, error);
+  }
+  const request = await toStudentRequest(orgId, data as unknown as StudentRequestRow);
+
+  try {
+    await notifyByLanguage(
+      orgId,
+      await fetchUserLanguage(request.requested_by),
+      'student_request_approved',
+      (text) => ({
+        title: text.student_request_notify_approved_title,
+        body: text.student_request_notify_approved_body.replace('{name}', childName(request)),
+      }),
+      { student_request_id: request.id, student_id: studentId },
+    );
+  } catch (err) {
+    console.error('Failed to notify requester of approval', err);
+  }
+
+  return request;
+}
+
+export async function rejectStudentRequest({
+  orgId,
+  id,
+  rejectedBy,
+  reason,
+}: {
+  orgId: string;
+  id: string;
+  rejectedBy: string;
+  reason: string;
+}): Promise<StudentRequest> {
+  assertSupabaseAdmin('Student request service');
+
+  const row = await decideRequest(orgId, id, {
+    status: 'rejected',
+    rejected_by: rejectedBy,
+    rejected_at: new Date().toISOString(),
+    rejection_reason: reason,
+  });
+  const request = await toStudentRequest(orgId, row);
+
+  try {
+    await notifyByLanguage(
+      orgId,
+      await fetchUserLanguage(request.requested_by),
+      'student_request_rejected',
+      (text) => ({
+        title: text.student_request_notify_rejected_title,
+        body: text.student_request_notify_rejected_body
+          .replace('{name}', childName(request))
+          .replace('{reason}', reason),
+      }),
+      { student_request_id: request.id },
+    );
+  } catch (err) {
+    console.error('Failed to notify requester of rejection', err);
+  }
+
+  return request;
+}
@@ -0,0 +1,40 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { ServiceError, assertSupabaseAdmin } from '@/lib/utils/serviceErrors';
+
+/**
+ * Error class for student roster failures
+ */
+export class StudentServiceError extends ServiceError {
+  name = 'StudentServiceError';
+}
+
+/**
+ * Move students to a class (or out of any class with null) in one update.
+ * Callers check that the class and students belong to the organization.
+ */
+export async function moveStudentsToClass({
+  orgId,
+  classId,
+  studentIds,
+}: {
+  orgId: string;
+  classId: string | null;
+  studentIds: string[];
+}): Promise<Array<{ id: string; class_id: string | null }>> {
+  assertSupabaseAdmin('Student service');
+
+  const { data, error } = await supabaseAdmin!
+    .from('students')
+    .update({
+      class_id: classId,
+      updated_at: new Date().toISOString(),
+    })
+    .in('id', studentIds)
+    .eq('org_id', orgId)
+    .select('id, class_id');
+
+  if (error) {
+    throw new StudentServiceError('Failed to move students', 500, error);
+  }
+  return (data ?? []) as Array<{ id: string; class_id: string | null }>;
+}
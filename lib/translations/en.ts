@@ -629,6 +629,23 @@ export const enText = {
   tile_calendar: 'Calendar',
   tile_calendar_desc: 'View and manage events',
   calendar_subtitle: 'View and manage school events and activities',
+  closure_day_label: 'Closed',
+  closures_title: 'Closure days',
+  closures_description: 'Planning days, public holidays and summer closure. Attendance cannot be marked on these days and they are left out of absence statistics and alerts.',
+  closures_title_placeholder: 'e.g. Planning day',
+  closures_whole_org: 'Whole school',
+  closures_start_date: 'First day',
+  closures_end_date: 'Last day',
+  closures_add: 'Add closure',
+  closures_delete: 'Remove',
+  closures_delete_confirm: 'Remove the closure "{title}"? Attendance can then be marked on these days again.',
+  closures_empty: 'No upcoming closure days.',
+  closures_failed: 'Failed to save closure days',
+  closure_kind_planning_day: 'Planning day',
+  closure_kind_public_holiday: 'Public holiday',
+  closure_kind_summer_closure: 'Summer closure',
+  closure_kind_other: 'Other',
+  attendance_closed_today: 'Closed today: {title}. Attendance cannot be marked.',
   tile_students: 'Students',
   tile_students_desc: 'Manage your students',
   tile_guardians: 'Guardians',
@@ -644,6 +661,10 @@ export const enText = {
   tile_photos_desc: 'Gallery',
   tile_organization_profile: 'Organization Profile',
   tile_organization_profile_desc: 'View and update organization information',
+  tile_attendance_report: 'Attendance Report',
+  tile_attendance_report_desc: 'Monthly summaries and exports',
+  tile_care_hours: 'Hours in Care',
+  tile_care_hours_desc: 'Barngildi-weighted hours per class',
 
   // Attendance
   att_title: 'Attendance & Check-in',
@@ -653,6 +674,566 @@ export const enText = {
   save_attendance: 'Save Attendance',
   error_saving_attendance: 'Error saving attendance. Please try again.',
   unsaved_changes_warning: 'You have unsaved changes. Click "Save" to save.',
+  attendance_queued_offline: '{count} change(s) saved on this device and will sync when the connection is back.',
+  attendance_syncing: 'Syncing offline attendance changes...',
+  attendance_synced: 'Offline attendance changes synced.',
+  attendance_sync_conflicts: '{count} change(s) were skipped because someone else updated them in the meantime.',
+  attendance_sync_rejected: '{count} offline change(s) were rejected by the server and not saved. Please check those children and record them again.',
+  attendance_report_title: 'Attendance Report',
+  attendance_report_subtitle: 'Monthly attendance summaries per class and child',
+  attendance_report_month: 'Month',
+  attendance_report_export_csv: 'Export CSV',
+  attendance_report_export_xlsx: 'Export XLSX',
+  attendance_report_by_class: 'By class',
+  attendance_report_by_student: 'By child',
+  attendance_report_recorded_days: 'Recorded days',
+  attendance_report_absence_rate: 'Absence rate',
+  attendance_report_students: 'Children',
+  attendance_report_total: 'Total',
+  attendance_report_unassigned: 'Unassigned',
+  attendance_report_empty: 'No attendance was recorded in this period.',
+  attendance_report_failed: 'Failed to load attendance report',
+  care_hours_title: 'Hours in Care',
+  care_hours_subtitle: 'Daily and monthly hours in care, weighted by barngildi',
+  care_hours_days: 'Days in care',
+  care_hours_open_days: 'Without check-out',
+  care_hours_hours: 'Hours',
+  care_hours_weighted_hours: 'Weighted hours',
+  care_hours_barngildi: 'Barngildi',
+  care_hours_daily: 'Daily hours',
+  care_hours_arrived: 'Arrived',
+  care_hours_left: 'Left',
+  care_hours_not_checked_out: 'Not checked out',
+  care_hours_empty: 'No check-ins were recorded in this month.',
+  care_hours_failed: 'Failed to load hours in care',
+  tile_kiosk_devices: 'Check-in Kiosks',
+  tile_kiosk_devices_desc: 'Register entrance tablets for QR check-in',
+  tile_student_requests: 'Student Requests',
+  tile_student_requests_desc: 'Approve or reject new students requested by teachers',
+  tile_staff_ratios: 'Staffing Ratios',
+  tile_staff_ratios_desc: 'Live staff-to-child ratios and history',
+  tile_incidents: 'Incident Reports',
+  tile_incidents_desc: 'Review injuries before they go to guardians',
+  tile_outbreaks: 'Illness Clusters',
+  tile_outbreaks_desc: 'Spot outbreaks by class and notify guardians',
+  kiosk_devices_title: 'Check-in kiosks',
+  kiosk_devices_subtitle: 'Entrance tablets that show a QR code guardians scan to check children in and out',
+  kiosk_devices_name_placeholder: 'Device name, e.g. Main entrance',
+  kiosk_devices_add: 'Register device',
+  kiosk_devices_empty: 'No kiosk devices registered yet.',
+  kiosk_devices_col_name: 'Device',
+  kiosk_devices_col_last_seen: 'Last active',
+  kiosk_devices_col_created: 'Registered',
+  kiosk_devices_never_seen: 'Never',
+  kiosk_devices_revoke: 'Revoke',
+  kiosk_devices_revoke_confirm: 'Revoke {name}? The tablet will stop showing check-in codes.',
+  kiosk_devices_token_title: 'Device token for {name}',
+  kiosk_devices_token_hint: 'Open /kiosk on the tablet and paste this token. It is only shown once.',
+  kiosk_devices_copy: 'Copy',
+  kiosk_devices_copied: 'Copied',
+  kiosk_devices_failed: 'Failed to manage kiosk devices',
+  kiosk_tile: 'Kiosk check-in',
+  kiosk_tile_desc: 'Scan the entrance QR code',
+  kiosk_title: 'Kiosk check-in',
+  kiosk_subtitle: 'Scan the QR code at the entrance to check your children in or out',
+  kiosk_scan_hint: 'Point your camera at the QR code on the entrance tablet.',
+  kiosk_scan_unsupported: 'This browser cannot scan QR codes. Scan the code on the entrance tablet with your phone camera instead.',
+  kiosk_scan_camera_error: 'Could not open the camera. Allow camera access or scan the code with your phone camera app.',
+  kiosk_scan_again: 'Scan the QR code on the entrance tablet again.',
+  kiosk_scan_button: 'Scan again',
+  kiosk_check_in: 'Check in',
+  kiosk_check_out: 'Check out',
+  kiosk_checked_in: '{name} is checked in',
+  kiosk_checked_out: '{name} is checked out',
+  kiosk_check_failed: 'Check-in failed',
+  kiosk_status_not_arrived: 'Not checked in today',
+  kiosk_status_present: 'Checked in at {time}',
+  kiosk_status_left: 'Checked out at {time}',
+  kiosk_setup_title: 'Set up kiosk',
+  kiosk_setup_hint: 'Paste the device token a principal created under Check-in Kiosks.',
+  kiosk_setup_placeholder: 'Device token',
+  kiosk_setup_save: 'Start kiosk',
+  kiosk_setup_reset: 'Remove device token',
+  kiosk_display_hint: 'Scan with your phone to check your child in or out',
+  kiosk_qr_alt: 'Check-in QR code',
+  kiosk_device_rejected: 'This kiosk device is no longer registered',
+  kiosk_code_failed: 'Failed to load check-in code',
+  absence_notice_report: 'Report absence',
+  absence_notice_title: 'Report an absence',
+  absence_notice_child: 'Child',
+  absence_notice_kind: 'Reason',
+  absence_notice_kind_sick: 'Sick',
+  absence_notice_kind_holiday: 'Holiday',
+  absence_notice_start: 'From',
+  absence_notice_end: 'To',
+  absence_notice_note: 'Note for staff',
+  absence_notice_note_placeholder: 'E.g. fever since last night',
+  absence_notice_submit: 'Send notice',
+  absence_notice_submitting: 'Sending...',
+  absence_notice_sent: 'Absence reported. Staff will see it on the attendance list.',
+  absence_notice_failed: 'Failed to report absence',
+  absence_notice_upcoming: 'Reported absences',
+  absence_notice_cancel: 'Cancel notice',
+  absence_notice_cancel_failed: 'Failed to cancel absence notice',
+  absence_notice_reported_by_guardian: 'Reported by guardian',
+  pickup_title: 'Who is picking up?',
+  pickup_confirm: 'Confirm pickup',
+  pickup_none_authorized: 'No guardians or authorized relatives are registered for this child.',
+  pickup_load_failed: 'Failed to load authorized pickup persons',
+  pickup_kind_guardian: 'Guardian',
+  pickup_kind_relative: 'Authorized relative',
+  pickup_picked_up_by: 'Picked up by {name}',
+  notification_pickup_title: '{name} has been picked up',
+  notification_pickup_body: 'Picked up by {person} at {time}',
+  notification_absence_unexplained_title: '{name} has not arrived',
+  notification_absence_unexplained_body: '{name} has not been checked in and no absence has been reported for today. Please let the school know.',
+  notification_absence_summary_title: 'Unexplained absences today',
+  notification_absence_summary_body: '{count} child(ren) not checked in without a reported absence: {names}',
+
+  // Medication plans
+  medication_tile: 'Medication',
+  medication_tile_desc: 'Medication plans and consent',
+  medication_title: 'Medication plans',
+  medication_subtitle: 'Medication to be given during the day, with your consent',
+  medication_empty: 'No medication plans.',
+  medication_add_plan: 'Add medication plan',
+  medication_child: 'Child',
+  medication_name: 'Medication',
+  medication_dose: 'Dose',
+  medication_dose_placeholder: 'e.g. 5 ml',
+  medication_dose_times: 'Times of day',
+  medication_add_time: 'Add time',
+  medication_remove_time: 'Remove time',
+  medication_start_date: 'From',
+  medication_end_date: 'To',
+  medication_instructions: 'Instructions',
+  medication_instructions_placeholder: 'e.g. give with food',
+  medication_consent_statement: 'I consent to staff giving my child this medication as described above.',
+  medication_consent_signature: 'Type your full name to sign',
+  medication_consent_give: 'Give consent',
+  medication_consent_decline: 'Decline',
+  medication_consent_given: 'Consent given. Staff will give the medication as planned.',
+  medication_consent_declined: 'You declined the medication plan.',
+  medication_consent_by: 'Consent signed by {name} on {date}',
+  medication_declined_by: 'Declined by {name} on {date}',
+  medication_staff_consent_hint: 'The plan is sent to the guardians and no doses are scheduled until one of them consents.',
+  medication_save: 'Save plan',
+  medication_saving: 'Saving...',
+  medication_saved: 'Medication plan saved.',
+  medication_save_failed: 'Failed to save medication plan',
+  medication_load_failed: 'Failed to load medication plans',
+  medication_stop: 'Stop',
+  medication_stop_confirm: 'Stop the medication plan for {name}?',
+  medication_status_pending_consent: 'Awaiting consent',
+  medication_status_active: 'Active',
+  medication_status_declined: 'Declined',
+  medication_status_cancelled: 'Stopped',
+  medication_doses_title: "Today's medication",
+  medication_dose_upcoming: 'Upcoming',
+  medication_dose_due: 'Due',
+  medication_dose_given: 'Given',
+  medication_dose_missed: 'Missed',
+  medication_mark_given: 'Mark given',
+  medication_given_at: 'Given at {time}',
+  medication_dose_failed: 'Failed to record dose',
+  notification_medication_consent_title: 'Medication consent needed for {name}',
+  notification_medication_consent_body: 'Staff added a plan for {medication}. Please review it and give or decline consent.',
+  notification_medication_due_title: 'Medication due for {name}',
+  notification_medication_due_body: '{name} should get {medication} ({dose}) at {time}.',
+  notification_medication_missed_title: 'Missed medication dose for {name}',
+  notification_medication_missed_body: 'The {time} dose of {medication} for {name} has not been recorded.',
+
+  // Incident reports
+  incident_title: 'Incident Reports',
+  incident_subtitle_principal: 'Review injury reports and send them to guardians',
+  incident_subtitle_guardian: 'Injuries reported by the preschool',
+  incident_tile: 'Incidents',
+  incident_tile_desc: 'Injury reports',
+  incident_form_hint: 'Injuries open an incident report that the principal reviews before it is sent to guardians.',
+  incident_details_required: 'Enter the location, first aid given and at least one body area',
+  incident_section_injury: 'Injury',
+  incident_section_follow_up: 'Follow-up',
+  incident_section_history: 'History',
+  incident_child: 'Child',
+  incident_class: 'Class',
+  incident_occurred_at: 'Time',
+  incident_location: 'Where did it happen?',
+  incident_location_ph: 'e.g. Playground, by the slide',
+  incident_body_areas: 'Body areas',
+  incident_body_area_details: 'Injury details',
+  incident_body_area_details_ph: 'e.g. Small scrape above the left knee',
+  incident_severity: 'Severity',
+  incident_first_aid: 'First aid given',
+  incident_first_aid_ph: 'e.g. Cleaned the wound and applied a plaster',
+  incident_witnesses: 'Witnesses',
+  incident_witnesses_ph: 'Who saw what happened?',
+  incident_notes: 'Notes',
+  incident_reported_by: 'Reported by',
+  incident_status: 'Status',
+  incident_status_pending_review: 'Awaiting review',
+  incident_status_sent_to_guardians: 'Sent to guardians',
+  incident_status_acknowledged: 'Acknowledged',
+  incident_status_all: 'All reports',
+  incident_reviewed_by: 'Reviewed by',
+  incident_review_notes: 'Note to guardians',
+  incident_review_notes_ph: 'Optional note sent with the report',
+  incident_acknowledged_by: 'Acknowledged by',
+  incident_history_when: 'When',
+  incident_history_by: 'By',
+  incident_send_to_guardians: 'Send to guardians',
+  incident_acknowledge: 'I have read this report',
+  incident_print: 'Print',
+  incident_pdf_title: 'Incident report: {name}',
+  incident_load_failed: 'Failed to load incident reports',
+  incident_action_failed: 'Failed to update incident report',
+  incident_empty_title: 'No incident reports',
+  incident_empty_description: 'Injuries logged by staff will appear here.',
+  injury_area_head: 'Head',
+  injury_area_face: 'Face',
+  injury_area_neck: 'Neck',
+  injury_area_chest: 'Chest',
+  injury_area_abdomen: 'Abdomen',
+  injury_area_back: 'Back',
+  injury_area_left_arm: 'Left arm',
+  injury_area_right_arm: 'Right arm',
+  injury_area_left_hand: 'Left hand',
+  injury_area_right_hand: 'Right hand',
+  injury_area_left_leg: 'Left leg',
+  injury_area_right_leg: 'Right leg',
+  injury_area_left_foot: 'Left foot',
+  injury_area_right_foot: 'Right foot',
+  notification_incident_reported_title: 'Injury reported for {name}',
+  notification_incident_reported_body: '{name} was injured ({location}). The incident report is waiting for your review.',
+  notification_incident_sent_title: 'Incident report for {name}',
+  notification_incident_sent_body: '{name} had a small accident at preschool. Please read the report and confirm you have seen it.',
+
+  // Fever alerts
+  temperature_trend_title: 'Temperature',
+  temperature_trend_failed: 'Failed to load temperature readings',
+  temperature_trend_empty: 'No temperature readings in the last {days} days.',
+  temperature_trend_threshold: 'Fever from {threshold} °C',
+  temperature_trend_latest: 'Latest: {temperature} °C, {time}',
+  temperature_trend_fever_count: '{count} fever readings in the last {days} days',
+  notification_fever_title: 'Fever: {name} {temperature} °C',
+  notification_fever_guardian_body: '{name} has a temperature of {temperature} °C. Please contact the preschool about picking {name} up.',
+  notification_fever_staff_body: 'A temperature of {temperature} °C was logged for {name}.',
+
+  // Illness clusters
+  symptoms_label: 'Symptoms',
+  symptom_fever: 'Fever',
+  symptom_vomiting: 'Vomiting',
+  symptom_diarrhea: 'Diarrhea',
+  symptom_cough: 'Cough',
+  symptom_runny_nose: 'Runny nose',
+  symptom_sore_throat: 'Sore throat',
+  symptom_rash: 'Rash',
+  symptom_eye_infection: 'Eye infection',
+  symptom_stomach_ache: 'Stomach ache',
+  symptom_headache: 'Headache',
+  symptom_other: 'Other symptoms',
+  outbreak_category_away_sick: 'Away sick',
+  outbreak_title: 'Illness Clusters',
+  outbreak_subtitle: 'Symptoms and sick days by class and day, with unusual clusters flagged',
+  outbreak_failed: 'Failed to load illness data',
+  outbreak_from: 'From',
+  outbreak_to: 'To',
+  outbreak_window: 'Window',
+  outbreak_window_hours: '{hours} hours',
+  outbreak_min_children: 'Children',
+  outbreak_clusters: 'Flagged clusters',
+  outbreak_no_clusters: 'No class had {count} or more children with the same symptom within {hours} hours.',
+  outbreak_cluster_summary: '{count} children with {symptom} in {class}',
+  outbreak_daily: 'Daily cases by class',
+  outbreak_daily_empty: 'No symptoms or sick days were recorded in this period.',
+  outbreak_category: 'Symptom',
+  outbreak_children: 'Children',
+  outbreak_send_notice: 'Send health notice',
+  outbreak_notice_hint: 'This notice goes to the guardians of every child in the class.',
+  outbreak_notice_template_title: 'Health notice: {symptom} in {class}',
+  outbreak_notice_template_body: 'Dear guardians,\n\n{count} children in {class} have had {symptom} over the last few days. Please keep an eye on your child and keep them at home if they show symptoms, until they have been symptom-free for 48 hours. Let us know if your child becomes ill.\n\nThank you.',
+  outbreak_notice_sent: 'Health notice sent to {count} guardians',
+  outbreak_notice_failed: 'Failed to send health notice',
+  outbreak_notices: 'Health notices sent',
+  outbreak_notices_empty: 'No health notices have been sent.',
+  outbreak_notice_recipients: '{count} guardians',
+
+  // Bulk health logs
+  bulk_log_button: 'Log for several',
+  bulk_log_title: 'Log for several children',
+  bulk_log_all_classes: 'All my classes',
+  bulk_log_children: 'Children ({count} selected)',
+  bulk_log_select_all: 'Select all',
+  bulk_log_select_none: 'Clear selection',
+  bulk_log_select_children: 'Select at least one child',
+  bulk_log_no_children: 'No children in this class',
+  bulk_log_diaper_kind: 'Diaper kind',
+  bulk_log_nap_end: 'Woke up',
+  bulk_log_child_note: 'Note for this child',
+  bulk_log_save: 'Save {count} logs',
+  bulk_log_saved: '{count} health logs saved',
+  bulk_log_failed: 'Failed to save health logs',
+
+  // Daily care summary
+  care_summary_title: 'This week',
+  care_summary_failed: 'Failed to load care summary',
+  care_summary_usual: 'Usually {value}',
+  care_summary_no_usual: 'A usual pattern appears once a few more days have been logged.',
+  care_summary_diapers_today: 'Diapers today',
+  care_summary_nap_today: 'Nap today',
+  care_summary_meals_today: 'Meals today',
+  care_summary_diapers_week: 'Diapers per day',
+  care_summary_naps_week: 'Nap minutes per day',
+  care_summary_diapers: 'Diapers',
+  care_summary_diaper_breakdown: '{wet} wet · {dirty} dirty · {mixed} mixed',
+  care_summary_naps: 'Naps',
+  care_summary_meals: 'Meals',
+  care_summary_temperatures: 'Temperatures',
+
+  // Allergens
+  allergens_label: 'Allergens',
+  allergy_tags_label: 'Allergens (structured)',
+  allergy_tags_hint: 'Tick every allergen the child must avoid; these are checked against menus',
+  allergen_gluten: 'Gluten',
+  allergen_crustaceans: 'Crustaceans',
+  allergen_eggs: 'Eggs',
+  allergen_fish: 'Fish',
+  allergen_peanuts: 'Peanuts',
+  allergen_soybeans: 'Soybeans',
+  allergen_milk: 'Milk',
+  allergen_nuts: 'Tree nuts',
+  allergen_celery: 'Celery',
+  allergen_mustard: 'Mustard',
+  allergen_sesame: 'Sesame',
+  allergen_sulphites: 'Sulphites',
+  allergen_lupin: 'Lupin',
+  allergen_molluscs: 'Molluscs',
+  menu_conflicts_title: 'Allergy conflicts',
+  menu_conflicts_none: 'No child has an allergy that conflicts with this menu',
+  menu_conflicts_scope_checked_in: 'Children checked in now',
+  menu_conflicts_scope_enrolled: 'All enrolled children',
+  menu_conflicts_failed: 'Failed to check menu allergens',
+  menu_conflicts_saved: 'Menu saved. Review the allergy conflicts below.',
+  menu_conflicts_done: 'Done',
+
+  // Student relatives
+  relatives_title: 'Relatives and emergency contacts',
+  relatives_add: 'Add relative',
+  relatives_empty: 'No relatives added yet',
+  relatives_full_name: 'Full name',
+  relatives_relation: 'Relation',
+  relatives_relation_placeholder: 'e.g. grandmother, neighbour',
+  relatives_phone: 'Phone',
+  relatives_email: 'Email',
+  relatives_photo_url: 'Photo URL',
+  relatives_contact_priority: 'Emergency contact priority',
+  relatives_contact_priority_placeholder: '1 is called first; leave empty if not a contact',
+  relatives_can_pickup: 'May collect the child',
+  relatives_pickup_badge: 'Pickup',
+  relatives_delete_confirm: 'Remove {name} from this child\'s relatives?',
+  relatives_load_failed: 'Failed to load relatives',
+  relatives_save_failed: 'Failed to save relative',
+
+  // Student requests
+  student_request_new: 'Request new student',
+  student_request_title: 'Request a New Student',
+  student_request_subtitle: 'Send a new student to the principal for approval',
+  student_request_mine: 'My requests',
+  student_request_none: 'You have not requested any students yet',
+  student_request_submitted: 'Request sent to the principal',
+  student_request_submit_failed: 'Failed to send request',
+  student_request_load_failed: 'Failed to load student requests',
+  student_request_status_pending: 'Pending',
+  student_request_status_approved: 'Approved',
+  student_request_status_rejected: 'Rejected',
+  student_request_dob: 'Born {date}',
+  student_request_requested_by: 'Requested by {name}',
+  student_request_rejection_reason: 'Reason',
+  student_request_queue_title: 'Student Requests',
+  student_request_queue_subtitle: 'New students requested by teachers',
+  student_request_queue_empty: 'No requests here',
+  student_request_approve: 'Approve',
+  student_request_reject: 'Reject',
+  student_request_reason_placeholder: 'Why is this request rejected? The teacher will see this.',
+  student_request_approved: 'Request approved and student created',
+  student_request_rejected: 'Request rejected',
+  student_request_decision_failed: 'Failed to update request',
+  student_request_notify_submitted_title: 'New student request',
+  student_request_notify_submitted_body: '{name} has been requested for {class}',
+  student_request_notify_approved_title: 'Student request approved',
+  student_request_notify_approved_body: '{name} has been added as a student',
+  student_request_notify_rejected_title: 'Student request rejected',
+  student_request_notify_rejected_body: 'The request for {name} was rejected: {reason}',
+
+  // Student import
+  student_import_title: 'Import students',
+  student_import_subtitle: 'Add students and guardians from a CSV or Excel file',
+  student_import_hint: 'One row per child, with up to two guardians. Children already registered with the same kennitala are skipped, and guardians are matched on kennitala or email.',
+  student_import_template: 'Template',
+  student_import_check: 'Check file',
+  student_import_checking: 'Checking...',
+  student_import_summary: '{total} rows: {create} to create, {duplicates} already registered, {errors} with errors',
+  student_import_commit: 'Import {count} students',
+  student_import_importing: 'Importing...',
+  student_import_done: 'Imported {students} students and {guardians} new guardians. New guardians were emailed an invitation to sign in.',
+  student_import_failed: 'Import failed',
+  student_import_mapping: 'Columns',
+  student_import_unmapped: 'Not in file',
+  student_import_row: 'Row',
+  student_import_status_create: 'New',
+  student_import_status_duplicate: 'Already registered',
+  student_import_status_error: 'Error',
+  student_import_existing_guardian: 'existing',
+
+  // Class rollover
+  class_rollover_button: 'Year-end rollover',
+  class_rollover_title: 'Year-end class rollover',
+  class_rollover_subtitle: 'Move each class to next year, graduate children and preview before applying',
+  class_rollover_load_failed: 'Failed to load classes and students',
+  class_rollover_failed: 'Class rollover failed',
+  class_rollover_applied: 'Class rollover applied',
+  class_rollover_moves: 'Next year\'s classes',
+  class_rollover_moves_hint: 'Pick where each class moves. Children who graduate leave their class and are archived.',
+  class_rollover_student_count: '{count} children',
+  class_rollover_stay: 'Stays in this class',
+  class_rollover_pick_graduates: 'Choose graduating children',
+  class_rollover_graduate_all: 'Graduate the whole class',
+  class_rollover_teachers: 'Teacher memberships',
+  class_rollover_teachers_carry_over: 'Teachers move with their class',
+  class_rollover_teachers_reset: 'Clear teachers from moved classes',
+  class_rollover_grace_days: 'Guardian access after graduation (days)',
+  class_rollover_grace_days_hint: 'Guardians of graduates keep access for this many days',
+  class_rollover_preview: 'Preview',
+  class_rollover_previewing: 'Previewing...',
+  class_rollover_apply: 'Apply rollover',
+  class_rollover_preview_title: 'Preview',
+  class_rollover_result: 'Rollover applied',
+  class_rollover_summary: '{moved} children move, {graduates} graduate. Guardian access for graduates ends on {date}.',
+  class_rollover_students_before_after: 'Children before → after',
+  class_rollover_teachers_after: 'Teachers after',
+  class_rollover_graduates: 'Graduating children',
+  class_rollover_guardian_count: '{count} guardians',
+  class_rollover_confirm_title: 'Apply class rollover?',
+  class_rollover_confirm_message: '{moved} children will move to their new classes and {graduates} will graduate. This cannot be undone from here.',
+
+  // Gradebook and report cards
+  gradebook_tile: 'Gradebook',
+  gradebook_tile_desc: 'Grades and scores by class and subject',
+  gradebook_title: 'Gradebook',
+  gradebook_subtitle: 'Record grades and scores for your classes',
+  gradebook_load_failed: 'Failed to load gradebook',
+  gradebook_save_failed: 'Failed to save result',
+  gradebook_no_classes: 'No classes',
+  gradebook_no_classes_desc: 'You are not assigned to any class yet',
+  gradebook_no_students: 'No students in this class',
+  gradebook_subject: 'Subject',
+  gradebook_subject_ph: 'e.g. Mathematics',
+  gradebook_pick_subject: 'Choose or type a subject to open its gradebook',
+  gradebook_term_from: 'Term starts',
+  gradebook_term_to: 'Term ends',
+  gradebook_add_column: 'New assessment',
+  gradebook_add: 'Add',
+  gradebook_max_score_ph: 'Max score (blank for grades)',
+  gradebook_assessment: 'Assessment',
+  gradebook_date: 'Date',
+  gradebook_grade: 'Grade',
+  gradebook_score: 'Score',
+  gradebook_report_card: 'Report card',
+  gradebook_delete_column_confirm: 'Delete all results for "{title}"?',
+  grades_tile: 'Grades',
+  grades_tile_desc: 'Results and report cards',
+  grades_title: 'Grades',
+  grades_subtitle: 'Your child\'s results this term',
+  grades_no_children: 'No linked children',
+  report_card_pdf_title: 'Report card: {name}',
+  report_card_student: 'Student',
+  report_card_class: 'Class',
+  report_card_period: 'Term',
+  report_card_teacher: 'Teacher',
+  report_card_average: 'Average score: {percent}%',
+  report_card_no_results: 'No results for this term',
+  report_card_no_subject: 'Other',
+
+  // Developmental milestones
+  milestones_title: 'Developmental milestones',
+  milestones_age: 'Age {age}',
+  milestones_progress: '{achieved} of {total} achieved',
+  milestones_expected_age: 'Expected by age {age}',
+  milestones_no_dob: 'No date of birth is recorded, so milestones for every age are shown.',
+  milestones_status_emerging: 'Emerging',
+  milestones_status_achieved: 'Achieved',
+  milestones_details: 'Edit details',
+  milestones_observed_on: 'Observed on',
+  milestones_photo: 'Photo',
+  milestones_daily_log: 'Daily log entry',
+  milestones_no_evidence: 'None',
+  milestones_load_failed: 'Failed to load milestones',
+  milestones_save_failed: 'Failed to save milestone',
+  milestones_domain_motor: 'Motor skills',
+  milestones_domain_language: 'Language',
+  milestones_domain_social: 'Social and emotional',
+  milestones_domain_self_care: 'Self-care',
+  milestone_item_walks_alone: 'Walks without support',
+  milestone_item_stacks_two_blocks: 'Stacks two blocks',
+  milestone_item_says_single_words: 'Says single words',
+  milestone_item_points_to_show: 'Points to show something',
+  milestone_item_shows_affection: 'Shows affection to familiar people',
+  milestone_item_imitates_others: 'Imitates what others do',
+  milestone_item_drinks_from_cup: 'Drinks from a cup',
+  milestone_item_feeds_with_fingers: 'Feeds self with fingers',
+  milestone_item_kicks_ball: 'Kicks a ball',
+  milestone_item_climbs_stairs: 'Climbs stairs with support',
+  milestone_item_two_word_phrases: 'Uses two-word phrases',
+  milestone_item_names_familiar_objects: 'Names familiar objects',
+  milestone_item_plays_beside_others: 'Plays beside other children',
+  milestone_item_notices_others_feelings: 'Notices when others are upset',
+  milestone_item_uses_spoon: 'Eats with a spoon',
+  milestone_item_helps_undress: 'Helps with undressing',
+  milestone_item_pedals_tricycle: 'Pedals a tricycle',
+  milestone_item_draws_circle: 'Copies a circle',
+  milestone_item_three_word_sentences: 'Speaks in three-word sentences',
+  milestone_item_follows_two_step_instructions: 'Follows two-step instructions',
+  milestone_item_takes_turns: 'Takes turns in games',
+  milestone_item_plays_pretend: 'Plays pretend',
+  milestone_item_washes_hands: 'Washes and dries hands',
+  milestone_item_uses_toilet_with_help: 'Uses the toilet with help',
+  milestone_item_hops_on_one_foot: 'Hops on one foot',
+  milestone_item_uses_scissors: 'Cuts with scissors',
+  milestone_item_tells_stories: 'Tells simple stories',
+  milestone_item_asks_why_questions: 'Asks "why" questions',
+  milestone_item_plays_cooperatively: 'Plays cooperatively with others',
+  milestone_item_names_feelings: 'Names own feelings',
+  milestone_item_dresses_self: 'Dresses with little help',
+  milestone_item_uses_toilet_alone: 'Uses the toilet alone',
+  milestone_item_skips: 'Skips',
+  milestone_item_draws_person: 'Draws a person with body parts',
+  milestone_item_retells_story: 'Retells a familiar story',
+  milestone_item_recognises_letters: 'Recognises some letters',
+  milestone_item_follows_group_rules: 'Follows group rules',
+  milestone_item_makes_friends: 'Has friends and plays with them',
+  milestone_item_buttons_clothes: 'Does up buttons',
+  milestone_item_blows_nose: 'Blows own nose',
+
+  // Learning portfolio
+  portfolio_download: 'Download portfolio',
+  portfolio_download_for: 'Portfolio: {name}',
+  portfolio_pdf_title: 'Learning portfolio – {name}',
+  portfolio_child: 'Child',
+  portfolio_class: 'Class',
+  portfolio_dob: 'Date of birth',
+  portfolio_period: 'Period',
+  portfolio_milestones_achieved: 'Milestones achieved',
+  portfolio_empty: 'Nothing was recorded for this period.',
+  portfolio_photo: 'Photo',
+  portfolio_daily_log: 'Daily log',
+  portfolio_story: 'Story',
+  portfolio_milestone: 'Milestone',
+  portfolio_log_kind_arrival: 'Arrival',
+  portfolio_log_kind_meal: 'Meal',
+  portfolio_log_kind_sleep: 'Sleep',
+  portfolio_log_kind_activity: 'Activity',
+  portfolio_log_kind_note: 'Note',
+  portfolio_teacher_note: "Teacher's note",
+  portfolio_assessment: 'Assessment',
 
   // Activity Log
   activity_log: 'Activity Log',
@@ -812,6 +1393,14 @@ export const enText = {
   attendance_status_away_holiday: 'Away – Holiday',
   attendance_status_away_sick: 'Away – Sick',
   attendance_status_gone: 'Marked as Gone',
+  attendance_history_title: 'Attendance history',
+  attendance_history_empty: 'No attendance changes recorded yet.',
+  attendance_history_by: 'by {name}',
+  attendance_history_unknown_user: 'unknown user',
+  attendance_history_show_more: 'Show earlier days',
+  attendance_history_checked_out: 'Checked out at {time}',
+  attendance_history_checkout_cleared: 'Check-out undone',
+  attendance_history_failed: 'Failed to load attendance history',
   attendance_mark_as_gone: 'Marked as Gone',
   attendance_not_recorded: 'Not Recorded',
   no_attendance_data: 'No attendance data available',
@@ -887,6 +1476,44 @@ export const enText = {
   state_placeholder: 'State',
   postal_code_placeholder: 'Postal Code',
   timezone_placeholder: 'UTC',
+  absence_alerts_section: 'Absence Alerts',
+  absence_alerts_description: 'Guardians and principals are notified when a child has not been checked in and no absence has been reported by the cut-off time (organization timezone, weekdays only).',
+  absence_alerts_enabled_label: 'Send unexplained-absence alerts',
+  absence_alert_cutoff_label: 'Cut-off time',
+  staff_ratio_section: 'Staffing Ratio',
+  staff_ratio_section_description: 'Principals are warned when a class has more children per staff member than this. Children count by their barngildi weighting.',
+  max_children_per_staff_label: 'Maximum children per staff member',
+  fever_alerts_section: 'Fever Alerts',
+  fever_alerts_section_description: 'When a temperature at or above this is logged, guardians get a high-priority notification and the class teachers and principals are told.',
+  fever_threshold_label: 'Fever threshold (°C)',
+  staff_ratio_title: 'Staffing Ratios',
+  staff_ratio_subtitle: 'Children checked in compared to staff on duty, per class',
+  staff_ratio_live: 'Right now',
+  staff_ratio_refresh: 'Refresh',
+  staff_ratio_threshold_label: 'Threshold: {threshold} children per staff member',
+  staff_ratio_updated_at: 'Updated {time}',
+  staff_ratio_children: 'Children',
+  staff_ratio_weighted: 'Weighted children',
+  staff_ratio_staff: 'Staff',
+  staff_ratio_ratio: 'Children per staff',
+  staff_ratio_threshold: 'Threshold',
+  staff_ratio_status: 'Status',
+  staff_ratio_status_ok: 'OK',
+  staff_ratio_status_breach: 'Over ratio',
+  staff_ratio_no_staff: 'No staff',
+  staff_ratio_org_total: 'Whole school',
+  staff_ratio_no_classes: 'No classes to show yet.',
+  staff_ratio_history: 'History',
+  staff_ratio_from: 'From',
+  staff_ratio_to: 'To',
+  staff_ratio_time: 'Time',
+  staff_ratio_breaches_only: 'Only show breaches',
+  staff_ratio_history_empty: 'No ratio snapshots recorded for this period.',
+  staff_ratio_failed: 'Failed to load staffing ratios',
+  staff_ratio_history_failed: 'Failed to load staffing ratio history',
+  staff_ratio_warning_title: 'Staffing ratio exceeded',
+  staff_ratio_warning_class: '{class}: {ratio} children per staff member (limit {threshold})',
+  staff_ratio_warning_no_staff: '{class}: children checked in with no staff on duty',
   slug_validation_error: 'Slug must contain only lowercase letters, numbers, and hyphens',
   organization_updated_success: 'Organization updated successfully',
   save_changes: 'Save Changes',
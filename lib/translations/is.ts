@@ -631,6 +631,23 @@ export const isText = {
   tile_calendar: 'Dagatal',
   tile_calendar_desc: 'Skoða og stjórna viðburðum',
   calendar_subtitle: 'Skoða og stjórna skólaviðburðum og athöfnum',
+  closure_day_label: 'Lokað',
+  closures_title: 'Lokunardagar',
+  closures_description: 'Skipulagsdagar, almennir frídagar og sumarlokun. Ekki er hægt að skrá mætingu þessa daga og þeir teljast ekki með í fjarvistartölum og viðvörunum.',
+  closures_title_placeholder: 't.d. Skipulagsdagur',
+  closures_whole_org: 'Allur skólinn',
+  closures_start_date: 'Fyrsti dagur',
+  closures_end_date: 'Síðasti dagur',
+  closures_add: 'Bæta við lokun',
+  closures_delete: 'Fjarlægja',
+  closures_delete_confirm: 'Fjarlægja lokunina „{title}“? Þá er aftur hægt að skrá mætingu þessa daga.',
+  closures_empty: 'Engir lokunardagar framundan.',
+  closures_failed: 'Ekki tókst að vista lokunardaga',
+  closure_kind_planning_day: 'Skipulagsdagur',
+  closure_kind_public_holiday: 'Almennur frídagur',
+  closure_kind_summer_closure: 'Sumarlokun',
+  closure_kind_other: 'Annað',
+  attendance_closed_today: 'Lokað í dag: {title}. Ekki er hægt að skrá mætingu.',
   tile_students: 'Nemendur',
   tile_students_desc: 'Stjórna nemendum',
   tile_guardians: 'Forráðamenn',
@@ -646,6 +663,10 @@ export const isText = {
   tile_photos_desc: 'Myndasafn',
   tile_organization_profile: 'Stofnunarprófíl',
   tile_organization_profile_desc: 'Skoða og uppfæra upplýsingar stofnunar',
+  tile_attendance_report: 'Mætingaskýrsla',
+  tile_attendance_report_desc: 'Mánaðaryfirlit og útflutningur',
+  tile_care_hours: 'Dvalartími',
+  tile_care_hours_desc: 'Dvalarstundir vegnar með barngildi eftir deildum',
 
   // Attendance
   att_title: 'Mæting & Inn-/útstimplun',
@@ -655,6 +676,566 @@ export const isText = {
   save_attendance: 'Vista mæting',
   error_saving_attendance: 'Villa við að vista mætingu. Vinsamlegast reyndu aftur.',
   unsaved_changes_warning: 'Þú hefur óvistaðar breytingar. Smelltu á "Vista" til að vista.',
+  attendance_queued_offline: '{count} breyting(ar) vistaðar í tækinu og samstilltar þegar tenging kemst á.',
+  attendance_syncing: 'Samstilli mætingarbreytingar...',
+  attendance_synced: 'Mætingarbreytingar samstilltar.',
+  attendance_sync_conflicts: '{count} breyting(um) var sleppt þar sem einhver annar uppfærði þær á meðan.',
+  attendance_sync_rejected: '{count} breyting(um) úr tækinu var hafnað af þjóninum og þær ekki vistaðar. Athugaðu þau börn og skráðu aftur.',
+  attendance_report_title: 'Mætingaskýrsla',
+  attendance_report_subtitle: 'Mánaðarlegt yfirlit yfir mætingu eftir hópum og börnum',
+  attendance_report_month: 'Mánuður',
+  attendance_report_export_csv: 'Flytja út CSV',
+  attendance_report_export_xlsx: 'Flytja út XLSX',
+  attendance_report_by_class: 'Eftir hópum',
+  attendance_report_by_student: 'Eftir börnum',
+  attendance_report_recorded_days: 'Skráðir dagar',
+  attendance_report_absence_rate: 'Fjarvistarhlutfall',
+  attendance_report_students: 'Börn',
+  attendance_report_total: 'Samtals',
+  attendance_report_unassigned: 'Án hóps',
+  attendance_report_empty: 'Engin mæting var skráð á þessu tímabili.',
+  attendance_report_failed: 'Ekki tókst að sækja mætingaskýrslu',
+  care_hours_title: 'Dvalartími',
+  care_hours_subtitle: 'Dvalarstundir á dag og í mánuði, vegnar með barngildi',
+  care_hours_days: 'Dagar í dvöl',
+  care_hours_open_days: 'Án útskráningar',
+  care_hours_hours: 'Stundir',
+  care_hours_weighted_hours: 'Vegnar stundir',
+  care_hours_barngildi: 'Barngildi',
+  care_hours_daily: 'Stundir á dag',
+  care_hours_arrived: 'Mætt/ur',
+  care_hours_left: 'Farin/n',
+  care_hours_not_checked_out: 'Ekki útskráð/ur',
+  care_hours_empty: 'Engar innskráningar voru skráðar í þessum mánuði.',
+  care_hours_failed: 'Ekki tókst að sækja dvalartíma',
+  tile_kiosk_devices: 'Innskráningarstandar',
+  tile_kiosk_devices_desc: 'Skrá spjaldtölvur við inngang fyrir QR innskráningu',
+  tile_student_requests: 'Beiðnir um nemendur',
+  tile_student_requests_desc: 'Samþykkja eða hafna nýjum nemendum sem kennarar óska eftir',
+  tile_staff_ratios: 'Mönnunarhlutfall',
+  tile_staff_ratios_desc: 'Hlutfall starfsfólks og barna í rauntíma og saga',
+  tile_incidents: 'Atvikaskýrslur',
+  tile_incidents_desc: 'Yfirfara meiðsli áður en þau eru send foreldrum',
+  tile_outbreaks: 'Veikindahrinur',
+  tile_outbreaks_desc: 'Finna hópsmit eftir hópum og láta foreldra vita',
+  kiosk_devices_title: 'Innskráningarstandar',
+  kiosk_devices_subtitle: 'Spjaldtölvur við inngang sem sýna QR kóða sem forráðamenn skanna til að skrá börn inn og út',
+  kiosk_devices_name_placeholder: 'Heiti tækis, t.d. Aðalinngangur',
+  kiosk_devices_add: 'Skrá tæki',
+  kiosk_devices_empty: 'Engin tæki hafa verið skráð.',
+  kiosk_devices_col_name: 'Tæki',
+  kiosk_devices_col_last_seen: 'Síðast virkt',
+  kiosk_devices_col_created: 'Skráð',
+  kiosk_devices_never_seen: 'Aldrei',
+  kiosk_devices_revoke: 'Afturkalla',
+  kiosk_devices_revoke_confirm: 'Afturkalla {name}? Spjaldtölvan hættir að sýna innskráningarkóða.',
+  kiosk_devices_token_title: 'Tækislykill fyrir {name}',
+  kiosk_devices_token_hint: 'Opnaðu /kiosk á spjaldtölvunni og límdu lykilinn inn. Hann er aðeins sýndur einu sinni.',
+  kiosk_devices_copy: 'Afrita',
+  kiosk_devices_copied: 'Afritað',
+  kiosk_devices_failed: 'Ekki tókst að vinna með innskráningarstanda',
+  kiosk_tile: 'Innskráning við inngang',
+  kiosk_tile_desc: 'Skannaðu QR kóðann við innganginn',
+  kiosk_title: 'Innskráning við inngang',
+  kiosk_subtitle: 'Skannaðu QR kóðann við innganginn til að skrá börnin þín inn eða út',
+  kiosk_scan_hint: 'Beindu myndavélinni að QR kóðanum á spjaldtölvunni við innganginn.',
+  kiosk_scan_unsupported: 'Þessi vafri getur ekki skannað QR kóða. Skannaðu kóðann með myndavél símans í staðinn.',
+  kiosk_scan_camera_error: 'Ekki tókst að opna myndavélina. Leyfðu aðgang að myndavél eða skannaðu kóðann með myndavél símans.',
+  kiosk_scan_again: 'Skannaðu QR kóðann á spjaldtölvunni við innganginn aftur.',
+  kiosk_scan_button: 'Skanna aftur',
+  kiosk_check_in: 'Skrá inn',
+  kiosk_check_out: 'Skrá út',
+  kiosk_checked_in: '{name} er skráð(ur) inn',
+  kiosk_checked_out: '{name} er skráð(ur) út',
+  kiosk_check_failed: 'Skráning mistókst',
+  kiosk_status_not_arrived: 'Ekki skráð(ur) inn í dag',
+  kiosk_status_present: 'Skráð(ur) inn kl. {time}',
+  kiosk_status_left: 'Skráð(ur) út kl. {time}',
+  kiosk_setup_title: 'Setja upp innskráningarstand',
+  kiosk_setup_hint: 'Límdu inn tækislykilinn sem skólastjóri bjó til undir Innskráningarstandar.',
+  kiosk_setup_placeholder: 'Tækislykill',
+  kiosk_setup_save: 'Ræsa',
+  kiosk_setup_reset: 'Fjarlægja tækislykil',
+  kiosk_display_hint: 'Skannaðu með símanum til að skrá barnið inn eða út',
+  kiosk_qr_alt: 'QR kóði fyrir innskráningu',
+  kiosk_device_rejected: 'Þetta tæki er ekki lengur skráð',
+  kiosk_code_failed: 'Ekki tókst að sækja innskráningarkóða',
+  absence_notice_report: 'Tilkynna fjarveru',
+  absence_notice_title: 'Tilkynna fjarveru',
+  absence_notice_child: 'Barn',
+  absence_notice_kind: 'Ástæða',
+  absence_notice_kind_sick: 'Veikindi',
+  absence_notice_kind_holiday: 'Frí',
+  absence_notice_start: 'Frá',
+  absence_notice_end: 'Til',
+  absence_notice_note: 'Athugasemd til starfsfólks',
+  absence_notice_note_placeholder: 'T.d. með hita síðan í gærkvöldi',
+  absence_notice_submit: 'Senda tilkynningu',
+  absence_notice_submitting: 'Sendi...',
+  absence_notice_sent: 'Fjarvera tilkynnt. Starfsfólk sér hana á mætingarlistanum.',
+  absence_notice_failed: 'Ekki tókst að tilkynna fjarveru',
+  absence_notice_upcoming: 'Tilkynntar fjarverur',
+  absence_notice_cancel: 'Afturkalla tilkynningu',
+  absence_notice_cancel_failed: 'Ekki tókst að afturkalla tilkynningu',
+  absence_notice_reported_by_guardian: 'Tilkynnt af forráðamanni',
+  pickup_title: 'Hver sækir barnið?',
+  pickup_confirm: 'Staðfesta sókn',
+  pickup_none_authorized: 'Engir forráðamenn eða heimilaðir aðstandendur eru skráðir fyrir þetta barn.',
+  pickup_load_failed: 'Ekki tókst að sækja lista yfir þá sem mega sækja',
+  pickup_kind_guardian: 'Forráðamaður',
+  pickup_kind_relative: 'Heimilaður aðstandandi',
+  pickup_picked_up_by: 'Sótt af {name}',
+  notification_pickup_title: '{name} hefur verið sótt/ur',
+  notification_pickup_body: 'Sótt af {person} kl. {time}',
+  notification_absence_unexplained_title: '{name} er ekki mætt/ur',
+  notification_absence_unexplained_body: '{name} hefur ekki verið skráð/ur inn og engin fjarvera hefur verið tilkynnt í dag. Vinsamlegast látið skólann vita.',
+  notification_absence_summary_title: 'Óútskýrðar fjarvistir í dag',
+  notification_absence_summary_body: '{count} barn/börn ekki skráð inn án tilkynntrar fjarveru: {names}',
+
+  // Medication plans
+  medication_tile: 'Lyfjagjöf',
+  medication_tile_desc: 'Lyfjaáætlanir og samþykki',
+  medication_title: 'Lyfjaáætlanir',
+  medication_subtitle: 'Lyf sem gefa á yfir daginn, með þínu samþykki',
+  medication_empty: 'Engar lyfjaáætlanir.',
+  medication_add_plan: 'Bæta við lyfjaáætlun',
+  medication_child: 'Barn',
+  medication_name: 'Lyf',
+  medication_dose: 'Skammtur',
+  medication_dose_placeholder: 't.d. 5 ml',
+  medication_dose_times: 'Tímar dags',
+  medication_add_time: 'Bæta við tíma',
+  medication_remove_time: 'Fjarlægja tíma',
+  medication_start_date: 'Frá',
+  medication_end_date: 'Til',
+  medication_instructions: 'Leiðbeiningar',
+  medication_instructions_placeholder: 't.d. gefa með mat',
+  medication_consent_statement: 'Ég samþykki að starfsfólk gefi barninu mínu þetta lyf eins og lýst er hér að ofan.',
+  medication_consent_signature: 'Sláðu inn fullt nafn til að undirrita',
+  medication_consent_give: 'Samþykkja',
+  medication_consent_decline: 'Hafna',
+  medication_consent_given: 'Samþykki skráð. Starfsfólk gefur lyfið samkvæmt áætlun.',
+  medication_consent_declined: 'Þú hafnaðir lyfjaáætluninni.',
+  medication_consent_by: 'Samþykkt af {name} þann {date}',
+  medication_declined_by: 'Hafnað af {name} þann {date}',
+  medication_staff_consent_hint: 'Áætlunin er send forráðamönnum og engir skammtar eru á dagskrá fyrr en einn þeirra samþykkir.',
+  medication_save: 'Vista áætlun',
+  medication_saving: 'Vista...',
+  medication_saved: 'Lyfjaáætlun vistuð.',
+  medication_save_failed: 'Ekki tókst að vista lyfjaáætlun',
+  medication_load_failed: 'Ekki tókst að sækja lyfjaáætlanir',
+  medication_stop: 'Stöðva',
+  medication_stop_confirm: 'Stöðva lyfjaáætlun fyrir {name}?',
+  medication_status_pending_consent: 'Bíður samþykkis',
+  medication_status_active: 'Virk',
+  medication_status_declined: 'Hafnað',
+  medication_status_cancelled: 'Stöðvuð',
+  medication_doses_title: 'Lyfjagjöf dagsins',
+  medication_dose_upcoming: 'Síðar',
+  medication_dose_due: 'Komið að',
+  medication_dose_given: 'Gefið',
+  medication_dose_missed: 'Gleymdist',
+  medication_mark_given: 'Merkja gefið',
+  medication_given_at: 'Gefið kl. {time}',
+  medication_dose_failed: 'Ekki tókst að skrá lyfjagjöf',
+  notification_medication_consent_title: 'Samþykki vantar fyrir lyfjagjöf {name}',
+  notification_medication_consent_body: 'Starfsfólk bætti við áætlun fyrir {medication}. Vinsamlegast farðu yfir hana og samþykktu eða hafnaðu.',
+  notification_medication_due_title: 'Komið að lyfjagjöf hjá {name}',
+  notification_medication_due_body: '{name} á að fá {medication} ({dose}) kl. {time}.',
+  notification_medication_missed_title: 'Lyfjagjöf gleymdist hjá {name}',
+  notification_medication_missed_body: 'Skammtur af {medication} kl. {time} fyrir {name} hefur ekki verið skráður.',
+
+  // Incident reports
+  incident_title: 'Atvikaskýrslur',
+  incident_subtitle_principal: 'Yfirfara skýrslur um meiðsli og senda þær foreldrum',
+  incident_subtitle_guardian: 'Meiðsli sem leikskólinn hefur skráð',
+  incident_tile: 'Atvik',
+  incident_tile_desc: 'Skýrslur um meiðsli',
+  incident_form_hint: 'Meiðsli stofna atvikaskýrslu sem leikskólastjóri yfirfer áður en hún er send foreldrum.',
+  incident_details_required: 'Skráðu staðsetningu, fyrstu hjálp og að minnsta kosti eitt líkamssvæði',
+  incident_section_injury: 'Meiðsli',
+  incident_section_follow_up: 'Eftirfylgni',
+  incident_section_history: 'Saga',
+  incident_child: 'Barn',
+  incident_class: 'Deild',
+  incident_occurred_at: 'Tími',
+  incident_location: 'Hvar gerðist það?',
+  incident_location_ph: 't.d. Á leikvellinum við rennibrautina',
+  incident_body_areas: 'Líkamssvæði',
+  incident_body_area_details: 'Lýsing á meiðslum',
+  incident_body_area_details_ph: 't.d. Lítil skráma fyrir ofan vinstra hné',
+  incident_severity: 'Alvarleiki',
+  incident_first_aid: 'Fyrsta hjálp',
+  incident_first_aid_ph: 't.d. Sárið hreinsað og plástur settur á',
+  incident_witnesses: 'Vitni',
+  incident_witnesses_ph: 'Hver sá hvað gerðist?',
+  incident_notes: 'Athugasemdir',
+  incident_reported_by: 'Skráð af',
+  incident_status: 'Staða',
+  incident_status_pending_review: 'Bíður yfirferðar',
+  incident_status_sent_to_guardians: 'Send foreldrum',
+  incident_status_acknowledged: 'Staðfest',
+  incident_status_all: 'Allar skýrslur',
+  incident_reviewed_by: 'Yfirfarið af',
+  incident_review_notes: 'Skilaboð til foreldra',
+  incident_review_notes_ph: 'Valfrjáls skilaboð sem fylgja skýrslunni',
+  incident_acknowledged_by: 'Staðfest af',
+  incident_history_when: 'Hvenær',
+  incident_history_by: 'Af',
+  incident_send_to_guardians: 'Senda foreldrum',
+  incident_acknowledge: 'Ég hef lesið skýrsluna',
+  incident_print: 'Prenta',
+  incident_pdf_title: 'Atvikaskýrsla: {name}',
+  incident_load_failed: 'Ekki tókst að sækja atvikaskýrslur',
+  incident_action_failed: 'Ekki tókst að uppfæra atvikaskýrslu',
+  incident_empty_title: 'Engar atvikaskýrslur',
+  incident_empty_description: 'Meiðsli sem starfsfólk skráir birtast hér.',
+  injury_area_head: 'Höfuð',
+  injury_area_face: 'Andlit',
+  injury_area_neck: 'Háls',
+  injury_area_chest: 'Brjóstkassi',
+  injury_area_abdomen: 'Kviður',
+  injury_area_back: 'Bak',
+  injury_area_left_arm: 'Vinstri handleggur',
+  injury_area_right_arm: 'Hægri handleggur',
+  injury_area_left_hand: 'Vinstri hönd',
+  injury_area_right_hand: 'Hægri hönd',
+  injury_area_left_leg: 'Vinstri fótleggur',
+  injury_area_right_leg: 'Hægri fótleggur',
+  injury_area_left_foot: 'Vinstri fótur',
+  injury_area_right_foot: 'Hægri fótur',
+  notification_incident_reported_title: 'Meiðsli skráð hjá {name}',
+  notification_incident_reported_body: '{name} meiddist ({location}). Atvikaskýrslan bíður yfirferðar.',
+  notification_incident_sent_title: 'Atvikaskýrsla fyrir {name}',
+  notification_incident_sent_body: '{name} lenti í smá óhappi í leikskólanum. Vinsamlegast lestu skýrsluna og staðfestu að þú hafir séð hana.',
+
+  // Fever alerts
+  temperature_trend_title: 'Hitastig',
+  temperature_trend_failed: 'Ekki tókst að sækja hitamælingar',
+  temperature_trend_empty: 'Engar hitamælingar síðustu {days} daga.',
+  temperature_trend_threshold: 'Hiti frá {threshold} °C',
+  temperature_trend_latest: 'Síðast: {temperature} °C, {time}',
+  temperature_trend_fever_count: '{count} mælingar með hita síðustu {days} daga',
+  notification_fever_title: 'Hiti: {name} {temperature} °C',
+  notification_fever_guardian_body: '{name} er með {temperature} °C hita. Vinsamlegast hafðu samband við leikskólann um að sækja {name}.',
+  notification_fever_staff_body: 'Hiti upp á {temperature} °C var skráður hjá {name}.',
+
+  // Illness clusters
+  symptoms_label: 'Einkenni',
+  symptom_fever: 'Hiti',
+  symptom_vomiting: 'Uppköst',
+  symptom_diarrhea: 'Niðurgangur',
+  symptom_cough: 'Hósti',
+  symptom_runny_nose: 'Nefrennsli',
+  symptom_sore_throat: 'Hálsbólga',
+  symptom_rash: 'Útbrot',
+  symptom_eye_infection: 'Augnsýking',
+  symptom_stomach_ache: 'Magaverkur',
+  symptom_headache: 'Höfuðverkur',
+  symptom_other: 'Önnur einkenni',
+  outbreak_category_away_sick: 'Veik/ur heima',
+  outbreak_title: 'Veikindahrinur',
+  outbreak_subtitle: 'Einkenni og veikindadagar eftir hópum og dögum, óvenjulegar hrinur merktar',
+  outbreak_failed: 'Ekki tókst að sækja veikindagögn',
+  outbreak_from: 'Frá',
+  outbreak_to: 'Til',
+  outbreak_window: 'Tímabil',
+  outbreak_window_hours: '{hours} klst.',
+  outbreak_min_children: 'Börn',
+  outbreak_clusters: 'Merktar hrinur',
+  outbreak_no_clusters: 'Enginn hópur var með {count} eða fleiri börn með sama einkenni innan {hours} klst.',
+  outbreak_cluster_summary: '{count} börn með {symptom} í {class}',
+  outbreak_daily: 'Dagleg tilfelli eftir hópum',
+  outbreak_daily_empty: 'Engin einkenni eða veikindadagar voru skráðir á tímabilinu.',
+  outbreak_category: 'Einkenni',
+  outbreak_children: 'Börn',
+  outbreak_send_notice: 'Senda heilsutilkynningu',
+  outbreak_notice_hint: 'Tilkynningin fer til foreldra allra barna í hópnum.',
+  outbreak_notice_template_title: 'Heilsutilkynning: {symptom} í {class}',
+  outbreak_notice_template_body: 'Kæru foreldrar,\n\n{count} börn í {class} hafa verið með {symptom} síðustu daga. Vinsamlegast fylgist með barninu ykkar og hafið það heima ef það sýnir einkenni, þar til það hefur verið einkennalaust í 48 klst. Látið okkur vita ef barnið veikist.\n\nTakk fyrir.',
+  outbreak_notice_sent: 'Heilsutilkynning send til {count} foreldra',
+  outbreak_notice_failed: 'Ekki tókst að senda heilsutilkynningu',
+  outbreak_notices: 'Sendar heilsutilkynningar',
+  outbreak_notices_empty: 'Engar heilsutilkynningar hafa verið sendar.',
+  outbreak_notice_recipients: '{count} foreldrar',
+
+  // Bulk health logs
+  bulk_log_button: 'Skrá fyrir fleiri',
+  bulk_log_title: 'Skrá fyrir mörg börn',
+  bulk_log_all_classes: 'Allir mínir hópar',
+  bulk_log_children: 'Börn ({count} valin)',
+  bulk_log_select_all: 'Velja öll',
+  bulk_log_select_none: 'Hreinsa val',
+  bulk_log_select_children: 'Veldu að minnsta kosti eitt barn',
+  bulk_log_no_children: 'Engin börn í þessum hópi',
+  bulk_log_diaper_kind: 'Tegund bleyju',
+  bulk_log_nap_end: 'Vaknaði',
+  bulk_log_child_note: 'Athugasemd fyrir barnið',
+  bulk_log_save: 'Vista {count} skráningar',
+  bulk_log_saved: '{count} heilsuskráningar vistaðar',
+  bulk_log_failed: 'Ekki tókst að vista heilsuskráningar',
+
+  // Daily care summary
+  care_summary_title: 'Þessi vika',
+  care_summary_failed: 'Ekki tókst að sækja yfirlit umönnunar',
+  care_summary_usual: 'Venjulega {value}',
+  care_summary_no_usual: 'Venjulegt mynstur birtist þegar nokkrir dagar í viðbót hafa verið skráðir.',
+  care_summary_diapers_today: 'Bleyjur í dag',
+  care_summary_nap_today: 'Svefn í dag',
+  care_summary_meals_today: 'Máltíðir í dag',
+  care_summary_diapers_week: 'Bleyjur á dag',
+  care_summary_naps_week: 'Svefnmínútur á dag',
+  care_summary_diapers: 'Bleyjur',
+  care_summary_diaper_breakdown: '{wet} vot · {dirty} skítug · {mixed} blanda',
+  care_summary_naps: 'Svefn',
+  care_summary_meals: 'Máltíðir',
+  care_summary_temperatures: 'Hitastig',
+
+  // Allergens
+  allergens_label: 'Ofnæmisvaldar',
+  allergy_tags_label: 'Ofnæmisvaldar (skráðir)',
+  allergy_tags_hint: 'Merktu við alla ofnæmisvalda sem barnið þarf að forðast; þeir eru bornir saman við matseðla',
+  allergen_gluten: 'Glúten',
+  allergen_crustaceans: 'Krabbadýr',
+  allergen_eggs: 'Egg',
+  allergen_fish: 'Fiskur',
+  allergen_peanuts: 'Jarðhnetur',
+  allergen_soybeans: 'Sojabaunir',
+  allergen_milk: 'Mjólk',
+  allergen_nuts: 'Hnetur',
+  allergen_celery: 'Sellerí',
+  allergen_mustard: 'Sinnep',
+  allergen_sesame: 'Sesamfræ',
+  allergen_sulphites: 'Súlfít',
+  allergen_lupin: 'Lúpína',
+  allergen_molluscs: 'Lindýr',
+  menu_conflicts_title: 'Ofnæmisárekstrar',
+  menu_conflicts_none: 'Ekkert barn er með ofnæmi sem rekst á þennan matseðil',
+  menu_conflicts_scope_checked_in: 'Börn sem eru mætt núna',
+  menu_conflicts_scope_enrolled: 'Öll skráð börn',
+  menu_conflicts_failed: 'Ekki tókst að athuga ofnæmisvalda matseðils',
+  menu_conflicts_saved: 'Matseðill vistaður. Farðu yfir ofnæmisárekstrana hér að neðan.',
+  menu_conflicts_done: 'Lokið',
+
+  // Student relatives
+  relatives_title: 'Ættingjar og neyðartengiliðir',
+  relatives_add: 'Bæta við ættingja',
+  relatives_empty: 'Engir ættingjar skráðir enn',
+  relatives_full_name: 'Fullt nafn',
+  relatives_relation: 'Tengsl',
+  relatives_relation_placeholder: 't.d. amma, nágranni',
+  relatives_phone: 'Sími',
+  relatives_email: 'Netfang',
+  relatives_photo_url: 'Slóð á mynd',
+  relatives_contact_priority: 'Forgangur neyðartengiliðar',
+  relatives_contact_priority_placeholder: '1 er hringt fyrst í; skildu eftir autt ef ekki tengiliður',
+  relatives_can_pickup: 'Má sækja barnið',
+  relatives_pickup_badge: 'Sækir',
+  relatives_delete_confirm: 'Fjarlægja {name} úr ættingjum barnsins?',
+  relatives_load_failed: 'Ekki tókst að sækja ættingja',
+  relatives_save_failed: 'Ekki tókst að vista ættingja',
+
+  // Student requests
+  student_request_new: 'Óska eftir nýjum nemanda',
+  student_request_title: 'Beiðni um nýjan nemanda',
+  student_request_subtitle: 'Senda nýjan nemanda til skólastjóra til samþykktar',
+  student_request_mine: 'Mínar beiðnir',
+  student_request_none: 'Þú hefur ekki óskað eftir neinum nemendum enn',
+  student_request_submitted: 'Beiðni send til skólastjóra',
+  student_request_submit_failed: 'Ekki tókst að senda beiðni',
+  student_request_load_failed: 'Ekki tókst að sækja beiðnir um nemendur',
+  student_request_status_pending: 'Í bið',
+  student_request_status_approved: 'Samþykkt',
+  student_request_status_rejected: 'Hafnað',
+  student_request_dob: 'Fædd(ur) {date}',
+  student_request_requested_by: 'Beðið um af {name}',
+  student_request_rejection_reason: 'Ástæða',
+  student_request_queue_title: 'Beiðnir um nemendur',
+  student_request_queue_subtitle: 'Nýir nemendur sem kennarar hafa óskað eftir',
+  student_request_queue_empty: 'Engar beiðnir hér',
+  student_request_approve: 'Samþykkja',
+  student_request_reject: 'Hafna',
+  student_request_reason_placeholder: 'Af hverju er beiðninni hafnað? Kennarinn sér þetta.',
+  student_request_approved: 'Beiðni samþykkt og nemandi stofnaður',
+  student_request_rejected: 'Beiðni hafnað',
+  student_request_decision_failed: 'Ekki tókst að uppfæra beiðni',
+  student_request_notify_submitted_title: 'Ný beiðni um nemanda',
+  student_request_notify_submitted_body: 'Óskað hefur verið eftir {name} í {class}',
+  student_request_notify_approved_title: 'Beiðni um nemanda samþykkt',
+  student_request_notify_approved_body: '{name} hefur verið skráð(ur) sem nemandi',
+  student_request_notify_rejected_title: 'Beiðni um nemanda hafnað',
+  student_request_notify_rejected_body: 'Beiðninni um {name} var hafnað: {reason}',
+
+  // Student import
+  student_import_title: 'Flytja inn nemendur',
+  student_import_subtitle: 'Bæta við nemendum og forráðamönnum úr CSV eða Excel skrá',
+  student_import_hint: 'Ein lína fyrir hvert barn, með allt að tveimur forráðamönnum. Börnum sem þegar eru skráð með sömu kennitölu er sleppt og forráðamenn eru paraðir eftir kennitölu eða netfangi.',
+  student_import_template: 'Sniðmát',
+  student_import_check: 'Yfirfara skrá',
+  student_import_checking: 'Yfirfer...',
+  student_import_summary: '{total} línur: {create} nýjar, {duplicates} þegar skráðar, {errors} með villum',
+  student_import_commit: 'Flytja inn {count} nemendur',
+  student_import_importing: 'Flyt inn...',
+  student_import_done: '{students} nemendur og {guardians} nýir forráðamenn fluttir inn. Nýir forráðamenn fengu boð í tölvupósti um að skrá sig inn.',
+  student_import_failed: 'Innflutningur mistókst',
+  student_import_mapping: 'Dálkar',
+  student_import_unmapped: 'Ekki í skrá',
+  student_import_row: 'Lína',
+  student_import_status_create: 'Nýr',
+  student_import_status_duplicate: 'Þegar skráður',
+  student_import_status_error: 'Villa',
+  student_import_existing_guardian: 'þegar til',
+
+  // Class rollover
+  class_rollover_button: 'Áramót skólaárs',
+  class_rollover_title: 'Flutningur milli skólaára',
+  class_rollover_subtitle: 'Færðu hverja deild á næsta ár, útskrifaðu börn og skoðaðu niðurstöðuna áður en hún er framkvæmd',
+  class_rollover_load_failed: 'Ekki tókst að sækja deildir og nemendur',
+  class_rollover_failed: 'Flutningur milli skólaára mistókst',
+  class_rollover_applied: 'Flutningur milli skólaára framkvæmdur',
+  class_rollover_moves: 'Deildir næsta árs',
+  class_rollover_moves_hint: 'Veldu hvert hver deild flyst. Börn sem útskrifast fara úr deildinni og eru sett í geymslu.',
+  class_rollover_student_count: '{count} börn',
+  class_rollover_stay: 'Verður áfram í þessari deild',
+  class_rollover_pick_graduates: 'Veldu börn sem útskrifast',
+  class_rollover_graduate_all: 'Útskrifa alla deildina',
+  class_rollover_teachers: 'Kennarar deilda',
+  class_rollover_teachers_carry_over: 'Kennarar fylgja sinni deild',
+  class_rollover_teachers_reset: 'Fjarlægja kennara úr fluttum deildum',
+  class_rollover_grace_days: 'Aðgangur forráðamanna eftir útskrift (dagar)',
+  class_rollover_grace_days_hint: 'Forráðamenn útskrifaðra barna halda aðgangi í þennan fjölda daga',
+  class_rollover_preview: 'Forskoða',
+  class_rollover_previewing: 'Forskoða...',
+  class_rollover_apply: 'Framkvæma flutning',
+  class_rollover_preview_title: 'Forskoðun',
+  class_rollover_result: 'Flutningur framkvæmdur',
+  class_rollover_summary: '{moved} börn flytjast, {graduates} útskrifast. Aðgangur forráðamanna útskrifaðra barna lýkur {date}.',
+  class_rollover_students_before_after: 'Börn fyrir → eftir',
+  class_rollover_teachers_after: 'Kennarar eftir',
+  class_rollover_graduates: 'Börn sem útskrifast',
+  class_rollover_guardian_count: '{count} forráðamenn',
+  class_rollover_confirm_title: 'Framkvæma flutning milli skólaára?',
+  class_rollover_confirm_message: '{moved} börn flytjast í nýjar deildir og {graduates} útskrifast. Ekki er hægt að afturkalla þetta héðan.',
+
+  // Gradebook and report cards
+  gradebook_tile: 'Einkunnabók',
+  gradebook_tile_desc: 'Einkunnir og stig eftir bekk og námsgrein',
+  gradebook_title: 'Einkunnabók',
+  gradebook_subtitle: 'Skráðu einkunnir og stig fyrir þína bekki',
+  gradebook_load_failed: 'Ekki tókst að sækja einkunnabók',
+  gradebook_save_failed: 'Ekki tókst að vista niðurstöðu',
+  gradebook_no_classes: 'Engir bekkir',
+  gradebook_no_classes_desc: 'Þú ert ekki skráð(ur) á neinn bekk enn',
+  gradebook_no_students: 'Engir nemendur í þessum bekk',
+  gradebook_subject: 'Námsgrein',
+  gradebook_subject_ph: 't.d. Stærðfræði',
+  gradebook_pick_subject: 'Veldu eða skrifaðu námsgrein til að opna einkunnabók hennar',
+  gradebook_term_from: 'Önn hefst',
+  gradebook_term_to: 'Önn lýkur',
+  gradebook_add_column: 'Nýtt námsmat',
+  gradebook_add: 'Bæta við',
+  gradebook_max_score_ph: 'Hámarksstig (autt fyrir einkunnir)',
+  gradebook_assessment: 'Námsmat',
+  gradebook_date: 'Dagsetning',
+  gradebook_grade: 'Einkunn',
+  gradebook_score: 'Stig',
+  gradebook_report_card: 'Vitnisburður',
+  gradebook_delete_column_confirm: 'Eyða öllum niðurstöðum fyrir „{title}“?',
+  grades_tile: 'Einkunnir',
+  grades_tile_desc: 'Niðurstöður og vitnisburður',
+  grades_title: 'Einkunnir',
+  grades_subtitle: 'Niðurstöður barnsins þíns á þessari önn',
+  grades_no_children: 'Engin tengd börn',
+  report_card_pdf_title: 'Vitnisburður: {name}',
+  report_card_student: 'Nemandi',
+  report_card_class: 'Bekkur',
+  report_card_period: 'Önn',
+  report_card_teacher: 'Kennari',
+  report_card_average: 'Meðalárangur: {percent}%',
+  report_card_no_results: 'Engar niðurstöður á þessari önn',
+  report_card_no_subject: 'Annað',
+
+  // Developmental milestones
+  milestones_title: 'Þroskaviðmið',
+  milestones_age: '{age} ára',
+  milestones_progress: '{achieved} af {total} náð',
+  milestones_expected_age: 'Við {age} ára aldur',
+  milestones_no_dob: 'Fæðingardagur er ekki skráður og því eru viðmið fyrir öll aldursstig sýnd.',
+  milestones_status_emerging: 'Í mótun',
+  milestones_status_achieved: 'Náð',
+  milestones_details: 'Breyta upplýsingum',
+  milestones_observed_on: 'Séð þann',
+  milestones_photo: 'Mynd',
+  milestones_daily_log: 'Færsla í dagbók',
+  milestones_no_evidence: 'Ekkert',
+  milestones_load_failed: 'Ekki tókst að sækja þroskaviðmið',
+  milestones_save_failed: 'Ekki tókst að vista þroskaviðmið',
+  milestones_domain_motor: 'Hreyfiþroski',
+  milestones_domain_language: 'Málþroski',
+  milestones_domain_social: 'Félags- og tilfinningaþroski',
+  milestones_domain_self_care: 'Sjálfsbjörg',
+  milestone_item_walks_alone: 'Gengur án stuðnings',
+  milestone_item_stacks_two_blocks: 'Staflar tveimur kubbum',
+  milestone_item_says_single_words: 'Segir stök orð',
+  milestone_item_points_to_show: 'Bendir til að sýna eitthvað',
+  milestone_item_shows_affection: 'Sýnir kunnuglegu fólki væntumþykju',
+  milestone_item_imitates_others: 'Hermir eftir öðrum',
+  milestone_item_drinks_from_cup: 'Drekkur úr glasi',
+  milestone_item_feeds_with_fingers: 'Borðar sjálft með fingrunum',
+  milestone_item_kicks_ball: 'Sparkar bolta',
+  milestone_item_climbs_stairs: 'Gengur upp stiga með stuðningi',
+  milestone_item_two_word_phrases: 'Notar tveggja orða setningar',
+  milestone_item_names_familiar_objects: 'Nefnir kunnuglega hluti',
+  milestone_item_plays_beside_others: 'Leikur við hlið annarra barna',
+  milestone_item_notices_others_feelings: 'Tekur eftir þegar öðrum líður illa',
+  milestone_item_uses_spoon: 'Borðar með skeið',
+  milestone_item_helps_undress: 'Hjálpar til við að afklæðast',
+  milestone_item_pedals_tricycle: 'Hjólar á þríhjóli',
+  milestone_item_draws_circle: 'Teiknar hring eftir fyrirmynd',
+  milestone_item_three_word_sentences: 'Talar í þriggja orða setningum',
+  milestone_item_follows_two_step_instructions: 'Fylgir tveggja þrepa fyrirmælum',
+  milestone_item_takes_turns: 'Skiptist á í leik',
+  milestone_item_plays_pretend: 'Fer í þykjustuleik',
+  milestone_item_washes_hands: 'Þvær og þurrkar hendur',
+  milestone_item_uses_toilet_with_help: 'Notar salerni með aðstoð',
+  milestone_item_hops_on_one_foot: 'Hoppar á öðrum fæti',
+  milestone_item_uses_scissors: 'Klippir með skærum',
+  milestone_item_tells_stories: 'Segir einfaldar sögur',
+  milestone_item_asks_why_questions: 'Spyr „af hverju“ spurninga',
+  milestone_item_plays_cooperatively: 'Leikur í samvinnu við aðra',
+  milestone_item_names_feelings: 'Nefnir eigin tilfinningar',
+  milestone_item_dresses_self: 'Klæðir sig með lítilli aðstoð',
+  milestone_item_uses_toilet_alone: 'Notar salerni sjálft',
+  milestone_item_skips: 'Valhoppar',
+  milestone_item_draws_person: 'Teiknar mann með líkamshlutum',
+  milestone_item_retells_story: 'Endursegir kunnuglega sögu',
+  milestone_item_recognises_letters: 'Þekkir suma bókstafi',
+  milestone_item_follows_group_rules: 'Fylgir reglum hópsins',
+  milestone_item_makes_friends: 'Á vini og leikur við þá',
+  milestone_item_buttons_clothes: 'Hneppir tölum',
+  milestone_item_blows_nose: 'Snýtir sér sjálft',
+
+  // Learning portfolio
+  portfolio_download: 'Sækja ferilmöppu',
+  portfolio_download_for: 'Ferilmappa: {name}',
+  portfolio_pdf_title: 'Ferilmappa – {name}',
+  portfolio_child: 'Barn',
+  portfolio_class: 'Hópur',
+  portfolio_dob: 'Fæðingardagur',
+  portfolio_period: 'Tímabil',
+  portfolio_milestones_achieved: 'Þroskaviðmiðum náð',
+  portfolio_empty: 'Ekkert var skráð á þessu tímabili.',
+  portfolio_photo: 'Mynd',
+  portfolio_daily_log: 'Dagbók',
+  portfolio_story: 'Saga',
+  portfolio_milestone: 'Þroskaviðmið',
+  portfolio_log_kind_arrival: 'Koma',
+  portfolio_log_kind_meal: 'Máltíð',
+  portfolio_log_kind_sleep: 'Svefn',
+  portfolio_log_kind_activity: 'Virkni',
+  portfolio_log_kind_note: 'Athugasemd',
+  portfolio_teacher_note: 'Athugasemd kennara',
+  portfolio_assessment: 'Námsmat',
 
   // Activity Log
   activity_log: 'Aðgerðaskrá',
@@ -815,6 +1396,14 @@ export const isText = {
   attendance_status_away_holiday: 'Fjarverandi – Frí',
   attendance_status_away_sick: 'Fjarverandi – Veikur',
   attendance_status_gone: 'Skráður út',
+  attendance_history_title: 'Saga mætingar',
+  attendance_history_empty: 'Engar breytingar á mætingu hafa verið skráðar.',
+  attendance_history_by: 'af {name}',
+  attendance_history_unknown_user: 'óþekktum notanda',
+  attendance_history_show_more: 'Sýna eldri daga',
+  attendance_history_checked_out: 'Sótt kl. {time}',
+  attendance_history_checkout_cleared: 'Brottför afturkölluð',
+  attendance_history_failed: 'Ekki tókst að sækja sögu mætingar',
   attendance_mark_as_gone: 'Skráður út',
   attendance_not_recorded: 'Ekki skráð',
   no_attendance_data: 'Engin mætingargögn tiltæk',
@@ -890,6 +1479,44 @@ export const isText = {
   state_placeholder: 'Fylki',
   postal_code_placeholder: 'Póstnúmer',
   timezone_placeholder: 'UTC',
+  absence_alerts_section: 'Fjarvistaviðvaranir',
+  absence_alerts_description: 'Forráðamenn og skólastjórar fá tilkynningu þegar barn hefur ekki verið skráð inn og engin fjarvera hefur verið tilkynnt fyrir tímamörkin (tímabelti stofnunar, aðeins virka daga).',
+  absence_alerts_enabled_label: 'Senda viðvaranir um óútskýrðar fjarvistir',
+  absence_alert_cutoff_label: 'Tímamörk',
+  staff_ratio_section: 'Mönnunarhlutfall',
+  staff_ratio_section_description: 'Skólastjórnendur fá viðvörun þegar fleiri börn eru á hvern starfsmann í deild en þetta. Börn teljast samkvæmt barngildi.',
+  max_children_per_staff_label: 'Hámarksfjöldi barna á hvern starfsmann',
+  fever_alerts_section: 'Hitaviðvaranir',
+  fever_alerts_section_description: 'Þegar skráður hiti er jafn eða hærri en þetta fá foreldrar forgangstilkynningu og kennarar deildarinnar og leikskólastjórar eru látnir vita.',
+  fever_threshold_label: 'Hitamörk (°C)',
+  staff_ratio_title: 'Mönnunarhlutfall',
+  staff_ratio_subtitle: 'Börn sem eru mætt miðað við starfsfólk á vakt, eftir deildum',
+  staff_ratio_live: 'Núna',
+  staff_ratio_refresh: 'Uppfæra',
+  staff_ratio_threshold_label: 'Viðmið: {threshold} börn á hvern starfsmann',
+  staff_ratio_updated_at: 'Uppfært {time}',
+  staff_ratio_children: 'Börn',
+  staff_ratio_weighted: 'Barngildi',
+  staff_ratio_staff: 'Starfsfólk',
+  staff_ratio_ratio: 'Börn á starfsmann',
+  staff_ratio_threshold: 'Viðmið',
+  staff_ratio_status: 'Staða',
+  staff_ratio_status_ok: 'Í lagi',
+  staff_ratio_status_breach: 'Yfir viðmiði',
+  staff_ratio_no_staff: 'Enginn starfsmaður',
+  staff_ratio_org_total: 'Allur skólinn',
+  staff_ratio_no_classes: 'Engar deildir til að sýna.',
+  staff_ratio_history: 'Saga',
+  staff_ratio_from: 'Frá',
+  staff_ratio_to: 'Til',
+  staff_ratio_time: 'Tími',
+  staff_ratio_breaches_only: 'Sýna aðeins frávik',
+  staff_ratio_history_empty: 'Engar mælingar skráðar á þessu tímabili.',
+  staff_ratio_failed: 'Ekki tókst að sækja mönnunarhlutfall',
+  staff_ratio_history_failed: 'Ekki tókst að sækja sögu mönnunarhlutfalls',
+  staff_ratio_warning_title: 'Mönnunarhlutfall yfir viðmiði',
+  staff_ratio_warning_class: '{class}: {ratio} börn á hvern starfsmann (hámark {threshold})',
+  staff_ratio_warning_no_staff: '{class}: börn mætt en enginn starfsmaður á vakt',
   slug_validation_error: 'Slug verður að innihalda aðeins lágstafi, tölur og bandstrik',
   organization_updated_success: 'Stofnun uppfærð með góðum árangri',
   save_changes: 'Vista breytingar',
@@ -0,0 +1,36 @@
+/**
+ * Type definitions for gradebooks and report cards
+ */
+
+import type { Grade } from '@/lib/constants/assessments';
+
+/**
+ * One student's result on one assessment
+ */
+export interface Assessment {
+  id: string;
+  org_id: string;
+  class_id: string | null;
+  student_id: string | null;
+  title: string;
+  description: string | null;
+  subject: string | null;
+  grade: Grade | null;
+  score: number | null;
+  max_score: number | null;
+  assessed_by: string | null;
+  assessed_at: string;
+  created_at: string;
+  updated_at: string;
+  assessed_by_user?: { first_name: string | null; last_name: string | null } | null;
+}
+
+/**
+ * Results for one subject on a report card
+ */
+export interface ReportCardSubject {
+  subject: string;
+  assessments: Assessment[];
+  /** Average of scored results as a percentage, or null if none were scored */
+  average_percent: number | null;
+}
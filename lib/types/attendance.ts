@@ -2,6 +2,8 @@
  * Type definitions for attendance-related data structures
  */
 
+import type { Allergen } from '@/lib/constants/allergens';
+
 export interface TeacherClass {
   id: string;
   name: string;
@@ -64,9 +66,11 @@ export interface Student {
   start_date?: string | null;
   barngildi?: number | null;
   student_language?: string | null;
-  medical_notes_encrypted?: string | null;
-  allergies_encrypted?: string | null;
-  emergency_contact_encrypted?: string | null;
+  // Decrypted server-side for roles allowed to read them
+  medical_notes?: string | null;
+  allergies?: string | null;
+  emergency_contact?: string | null;
+  allergy_tags?: Allergen[];
 }
 
 export interface AttendanceRecord {
@@ -78,7 +82,13 @@ export interface AttendanceRecord {
   status: 'absent' | 'late' | 'excused' | 'arrived' | 'away_holiday' | 'away_sick' | 'gone';
   notes?: string | null;
   recorded_by?: string | null;
+  // First check-in time while the child is present; cleared when marked away
+  arrived_at?: string | null;
   left_at?: string | null;
+  notice_id?: string | null;
+  picked_up_by_guardian_id?: string | null;
+  picked_up_by_relative_id?: string | null;
+  picked_up_by_name?: string | null;
   created_at: string;
   updated_at?: string;
   // Nested data from API joins
@@ -97,6 +107,70 @@ export interface AttendanceRecord {
   };
 }
 
+/**
+ * One status or check-out change on an attendance record.
+ * old_status is null for the entry that created the record, and
+ * attendance_id is null once the record itself has been deleted.
+ */
+export interface AttendanceHistoryEntry {
+  id: string;
+  attendance_id: string | null;
+  student_id: string;
+  date: string;
+  old_status: AttendanceRecord['status'] | null;
+  new_status: AttendanceRecord['status'];
+  old_left_at: string | null;
+  new_left_at: string | null;
+  notes: string | null;
+  changed_by: string | null;
+  changed_at: string;
+  changed_by_user?: {
+    id: string;
+    first_name: string;
+    last_name: string | null;
+  } | null;
+}
+
+export type AbsenceNoticeKind = 'sick' | 'holiday';
+
+/**
+ * A sick day or holiday reported in advance by a guardian.
+ * Attendance rows prefilled from a notice carry its id in notice_id.
+ */
+export interface AbsenceNotice {
+  id: string;
+  org_id: string;
+  student_id: string;
+  guardian_id: string | null;
+  kind: AbsenceNoticeKind;
+  start_date: string;
+  end_date: string;
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+  cancelled_at: string | null;
+}
+
+export type ClosureDayKind = 'planning_day' | 'public_holiday' | 'summer_closure' | 'other';
+
+/**
+ * Days the organization, or a single class, is closed.
+ * class_id is null when the whole organization is closed.
+ */
+export interface ClosureDay {
+  id: string;
+  org_id: string;
+  class_id: string | null;
+  kind: ClosureDayKind;
+  title: string;
+  start_date: string;
+  end_date: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  classes?: { id: string; name: string } | null;
+}
+
 export interface AttendanceState {
   attendance: Record<string, string>;
   savedAttendance: Record<string, string>;
@@ -110,5 +184,122 @@ export interface BatchAttendanceRecord {
   class_id?: string | null;
   notes?: string | null;
   left_at?: string | null;
+  picked_up_by_guardian_id?: string | null;
+  picked_up_by_relative_id?: string | null;
+  // When the change was made on the device (set for changes replayed from the offline queue)
+  changed_at?: string | null;
+  // Server updated_at the offline change was made against; null when there was no record yet
+  base_updated_at?: string | null;
 }
 
+/**
+ * State of the offline attendance queue shown to teachers
+ */
+export type AttendanceSyncState = 'idle' | 'queued' | 'syncing' | 'synced' | 'rejected';
+
+/**
+ * Someone allowed to collect a child: a linked guardian
+ * or a relative with can_pickup set.
+ */
+export interface PickupPerson {
+  id: string;
+  kind: 'guardian' | 'relative';
+  full_name: string;
+  relation: string | null;
+  phone: string | null;
+  photo_url: string | null;
+}
+
+/**
+ * Pickup person chosen by staff when checking a child out
+ */
+export interface PickupSelection {
+  guardian_id?: string | null;
+  relative_id?: string | null;
+  // Display name only; the server resolves the name from the ids
+  name?: string;
+}
+
+/**
+ * Day counts for an attendance summary (per student, per class, or org-wide).
+ * absence_rate is the share of recorded days the child was away for any reason (0-1).
+ */
+export interface AttendanceSummaryCounts {
+  recorded_days: number;
+  arrived: number;
+  late: number;
+  absent: number;
+  excused: number;
+  away_sick: number;
+  away_holiday: number;
+  absence_rate: number;
+}
+
+export interface AttendanceStudentSummary extends AttendanceSummaryCounts {
+  student_id: string;
+  first_name: string;
+  last_name: string | null;
+  class_id: string | null;
+  class_name: string | null;
+}
+
+export interface AttendanceClassSummary extends AttendanceSummaryCounts {
+  class_id: string | null;
+  class_name: string | null;
+  student_count: number;
+}
+
+export interface AttendanceReport {
+  from: string;
+  to: string;
+  class_id: string | null;
+  generated_at: string;
+  totals: AttendanceSummaryCounts;
+  classes: AttendanceClassSummary[];
+  students: AttendanceStudentSummary[];
+}
+
+/**
+ * Hours in care for a period. weighted_hours multiplies each child's hours by
+ * their barngildi; open_days are check-ins without a recorded check-out.
+ */
+export interface CareHoursTotals {
+  days_in_care: number;
+  open_days: number;
+  hours: number;
+  weighted_hours: number;
+}
+
+export interface CareHoursDay {
+  date: string;
+  arrived_at: string;
+  left_at: string | null;
+  hours: number | null;
+}
+
+export interface CareHoursStudentSummary extends CareHoursTotals {
+  student_id: string;
+  first_name: string;
+  last_name: string | null;
+  class_id: string | null;
+  class_name: string | null;
+  barngildi: number;
+  days: CareHoursDay[];
+}
+
+export interface CareHoursClassSummary extends CareHoursTotals {
+  class_id: string | null;
+  class_name: string | null;
+  student_count: number;
+}
+
+export interface CareHoursReport {
+  month: string;
+  from: string;
+  to: string;
+  class_id: string | null;
+  generated_at: string;
+  totals: CareHoursTotals;
+  classes: CareHoursClassSummary[];
+  students: CareHoursStudentSummary[];
+}
@@ -0,0 +1,44 @@
+export type TeacherMembershipRollover = 'carry_over' | 'reset';
+
+export interface ClassRolloverStudent {
+  id: string;
+  name: string;
+}
+
+/**
+ * A class before and after the rollover
+ */
+export interface ClassRolloverClassSummary {
+  class_id: string;
+  class_name: string;
+  students_before: number;
+  students_after: number;
+  teachers_before: string[];
+  teachers_after: string[];
+}
+
+export interface ClassRolloverMove {
+  from_class_id: string;
+  from_class_name: string;
+  to_class_id: string;
+  to_class_name: string;
+  students: ClassRolloverStudent[];
+}
+
+export interface ClassRolloverGraduate extends ClassRolloverStudent {
+  class_name: string | null;
+  guardian_count: number;
+}
+
+/**
+ * What a rollover does, computed from the current classes. Applying
+ * returns the same shape with the id of the logged rollover.
+ */
+export interface ClassRolloverPreview {
+  rollover_id: string | null;
+  classes: ClassRolloverClassSummary[];
+  moves: ClassRolloverMove[];
+  graduates: ClassRolloverGraduate[];
+  teacher_memberships: TeacherMembershipRollover;
+  guardian_access_expires_at: string;
+}
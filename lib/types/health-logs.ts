@@ -19,6 +19,22 @@ export type HealthLogType =
   | 'meal'
   | 'other';
 
+/**
+ * Symptoms a teacher can tick on a symptom health log (stored in data.symptoms)
+ */
+export type SymptomKind =
+  | 'fever'
+  | 'vomiting'
+  | 'diarrhea'
+  | 'cough'
+  | 'runny_nose'
+  | 'sore_throat'
+  | 'rash'
+  | 'eye_infection'
+  | 'stomach_ache'
+  | 'headache'
+  | 'other';
+
 /**
  * Base HealthLog interface representing a health log entry
  */
@@ -33,6 +49,7 @@ export interface HealthLog {
   data: Record<string, unknown>; // JSONB field
   notes?: string | null;
   severity?: number | null; // 1-5
+  medication_plan_id?: string | null; // set for doses given under a medication plan
   recorded_by: string;
   created_at: string;
   updated_at: string;
@@ -74,3 +91,58 @@ export interface HealthLogFormData {
   data?: Record<string, unknown>;
 }
 
+/**
+ * One temperature reading in a student's trend
+ */
+export interface TemperatureReading {
+  id: string;
+  recorded_at: string;
+  temperature_celsius: number;
+  is_fever: boolean;
+}
+
+/**
+ * Temperature readings over time with the organization's fever threshold
+ */
+export interface TemperatureTrend {
+  threshold: number;
+  readings: TemperatureReading[];
+}
+
+
+/**
+ * One child's care on one day (organization timezone)
+ */
+export interface DailyCareSummary {
+  date: string; // YYYY-MM-DD
+  diapers: {
+    wet: number;
+    dirty: number;
+    mixed: number;
+  };
+  naps: number;
+  nap_minutes: number;
+  meals: number;
+  temperatures: number[];
+}
+
+/**
+ * A child's usual day: averages over recent days with care logged
+ */
+export interface CareBaseline {
+  days: number;
+  diapers: number;
+  nap_minutes: number;
+  meals: number;
+}
+
+/**
+ * Daily care for one child over a window, with their usual pattern
+ */
+export interface ChildCareSummary {
+  student_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  days: DailyCareSummary[]; // oldest first
+  usual: CareBaseline | null;
+}
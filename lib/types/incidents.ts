@@ -0,0 +1,95 @@
+/**
+ * Type definitions for incident reports opened from injury health logs
+ */
+
+/**
+ * Body areas a teacher can mark on an injury
+ */
+export type InjuryBodyArea =
+  | 'head'
+  | 'face'
+  | 'neck'
+  | 'chest'
+  | 'abdomen'
+  | 'back'
+  | 'left_arm'
+  | 'right_arm'
+  | 'left_hand'
+  | 'right_hand'
+  | 'left_leg'
+  | 'right_leg'
+  | 'left_foot'
+  | 'right_foot';
+
+/**
+ * Structured details stored in the data field of an injury health log
+ */
+export interface InjuryDetails {
+  location: string;
+  witnesses?: string | null;
+  first_aid: string;
+  body_areas: InjuryBodyArea[];
+  body_area_details?: string | null;
+}
+
+/**
+ * Workflow: the principal reviews a new report and sends it to the guardians,
+ * who then acknowledge it
+ */
+export type IncidentReportStatus = 'pending_review' | 'sent_to_guardians' | 'acknowledged';
+
+interface PersonName {
+  id: string;
+  first_name: string;
+  last_name: string | null;
+}
+
+/**
+ * One status change on an incident report.
+ * old_status is null for the entry that opened the report.
+ */
+export interface IncidentReportHistoryEntry {
+  id: string;
+  incident_report_id: string;
+  old_status: IncidentReportStatus | null;
+  new_status: IncidentReportStatus;
+  notes: string | null;
+  changed_by: string | null;
+  changed_at: string;
+  changed_by_user?: PersonName | null;
+}
+
+/**
+ * Incident report with the injury health log it was opened from
+ */
+export interface IncidentReport {
+  id: string;
+  org_id: string;
+  health_log_id: string;
+  student_id: string;
+  status: IncidentReportStatus;
+  review_notes: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  acknowledged_by: string | null;
+  acknowledged_at: string | null;
+  created_at: string;
+  updated_at: string;
+  health_logs?: {
+    id: string;
+    recorded_at: string;
+    severity: number | null;
+    notes: string | null;
+    data: Partial<InjuryDetails>;
+    recorded_by: string;
+    recorded_by_user?: PersonName | null;
+  } | null;
+  students?: {
+    id: string;
+    users?: { first_name: string | null; last_name: string | null } | null;
+    classes?: { id: string; name: string } | null;
+  } | null;
+  reviewed_by_user?: PersonName | null;
+  acknowledged_by_user?: PersonName | null;
+  history?: IncidentReportHistoryEntry[];
+}
@@ -0,0 +1,41 @@
+import type { AttendanceRecord } from '@/lib/types/attendance';
+
+/**
+ * Entrance tablet registered by a principal. The device token itself is
+ * only returned once, when the device is created.
+ */
+export interface KioskDevice {
+  id: string;
+  org_id: string;
+  name: string;
+  last_seen_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Short-lived code shown as a QR on the kiosk; guardians scan it to check in or out
+ */
+export interface KioskCode {
+  code: string;
+  expires_at: string;
+  refresh_in_seconds: number;
+  org_name: string;
+  device_name: string;
+}
+
+export type KioskAction = 'check_in' | 'check_out';
+
+/**
+ * A guardian's child with today's attendance, as shown after scanning the kiosk
+ */
+export interface KioskChild {
+  student_id: string;
+  first_name: string;
+  last_name: string | null;
+  class_id: string | null;
+  class_name: string | null;
+  status: AttendanceRecord['status'] | null;
+  arrived_at: string | null;
+  left_at: string | null;
+}
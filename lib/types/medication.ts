@@ -0,0 +1,62 @@
+/**
+ * Type definitions for medication plans and scheduled doses
+ */
+
+/**
+ * Plan lifecycle: staff-created plans wait for a guardian's consent,
+ * guardian-created plans are consented on creation
+ */
+export type MedicationPlanStatus = 'pending_consent' | 'active' | 'declined' | 'cancelled';
+
+/**
+ * A child's medication plan as stored in medication_plans
+ */
+export interface MedicationPlan {
+  id: string;
+  org_id: string;
+  student_id: string;
+  medication_name: string;
+  dose: string;
+  instructions: string | null;
+  dose_times: string[]; // HH:MM:SS, local time of the organization
+  start_date: string;
+  end_date: string;
+  status: MedicationPlanStatus;
+  consent_guardian_id: string | null;
+  consent_name: string | null;
+  consent_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  students?: {
+    id: string;
+    class_id: string | null;
+    users?: {
+      first_name: string | null;
+      last_name: string | null;
+    } | null;
+  } | null;
+}
+
+/**
+ * Status of one scheduled dose today: upcoming, due now, given or past the grace period
+ */
+export type MedicationDoseStatus = 'upcoming' | 'due' | 'given' | 'missed';
+
+/**
+ * One scheduled dose on a given day, with the health log recording it once given
+ */
+export interface MedicationDose {
+  plan_id: string;
+  student_id: string;
+  student_name: string;
+  class_id: string | null;
+  medication_name: string;
+  dose: string;
+  instructions: string | null;
+  date: string;
+  scheduled_time: string; // HH:MM
+  status: MedicationDoseStatus;
+  health_log_id: string | null;
+  given_at: string | null;
+}
@@ -2,6 +2,7 @@
  * Type definitions for menu-related data structures
  */
 
+import type { Allergen, MenuMeal } from '@/lib/constants/allergens';
 import type { TeacherClass } from './attendance';
 
 /**
@@ -14,6 +15,9 @@ export type UpsertMenuPayload = {
   breakfast?: string | null;
   lunch?: string | null;
   snack?: string | null;
+  breakfast_allergens?: Allergen[];
+  lunch_allergens?: Allergen[];
+  snack_allergens?: Allergen[];
   notes?: string | null;
   is_public?: boolean;
 };
@@ -26,6 +30,9 @@ export type UpdateMenuPayload = {
   breakfast?: string | null;
   lunch?: string | null;
   snack?: string | null;
+  breakfast_allergens?: Allergen[];
+  lunch_allergens?: Allergen[];
+  snack_allergens?: Allergen[];
   notes?: string | null;
   is_public?: boolean;
 };
@@ -52,6 +59,9 @@ export interface Menu {
   breakfast?: string | null;
   lunch?: string | null;
   snack?: string | null;
+  breakfast_allergens?: Allergen[];
+  lunch_allergens?: Allergen[];
+  snack_allergens?: Allergen[];
   notes?: string | null;
   is_public?: boolean;
   created_at?: string;
@@ -65,3 +75,25 @@ export interface MenuWithClass extends Menu {
   classes?: TeacherClass | null;
 }
 
+/**
+ * A child whose allergy tags overlap the allergens of a meal
+ */
+export interface MenuAllergenConflict {
+  student_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  class_id: string | null;
+  class_name: string | null;
+  meal: MenuMeal;
+  allergens: Allergen[];
+}
+
+/**
+ * Conflicts for one menu. `checked_in` covers children checked in right now
+ * (menus for today); `enrolled` covers every child in the class(es).
+ */
+export interface MenuAllergenConflictReport {
+  day: string;
+  scope: 'checked_in' | 'enrolled';
+  conflicts: MenuAllergenConflict[];
+}
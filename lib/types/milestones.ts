@@ -0,0 +1,62 @@
+/**
+ * Type definitions for developmental milestone tracking
+ */
+
+import type { MilestoneDomain, MilestoneKey, MilestoneStatus } from '@/lib/constants/milestones';
+
+export interface MilestonePhotoEvidence {
+  id: string;
+  caption: string | null;
+  created_at: string;
+}
+
+export interface MilestoneDailyLogEvidence {
+  id: string;
+  kind: string;
+  note: string | null;
+  recorded_at: string;
+}
+
+/**
+ * A recorded observation of one milestone for one child
+ */
+export interface StudentMilestone {
+  id: string;
+  org_id: string;
+  student_id: string;
+  milestone_key: MilestoneKey;
+  status: MilestoneStatus;
+  observed_on: string;
+  photo_id: string | null;
+  daily_log_id: string | null;
+  notes: string | null;
+  recorded_by: string | null;
+  created_at: string;
+  updated_at: string;
+  photos?: MilestonePhotoEvidence | null;
+  daily_logs?: MilestoneDailyLogEvidence | null;
+  recorded_by_user?: { first_name: string | null; last_name: string | null } | null;
+}
+
+export interface MilestoneChecklistItem {
+  key: MilestoneKey;
+  domain: MilestoneDomain;
+  age: number;
+  record: StudentMilestone | null;
+}
+
+/**
+ * The milestones expected by a child's age, with what has been observed.
+ * Earlier ages stay on the list so items not yet achieved are not lost.
+ */
+export interface MilestoneChecklist {
+  student_id: string;
+  dob: string | null;
+  age: number | null;
+  items: MilestoneChecklistItem[];
+  /** Photos and daily log entries staff can attach as evidence */
+  evidence_options?: {
+    photos: MilestonePhotoEvidence[];
+    daily_logs: MilestoneDailyLogEvidence[];
+  };
+}
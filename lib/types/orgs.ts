@@ -19,6 +19,10 @@ export interface Organization {
   play_area?: number | null;
   square_meters_per_student?: number | null;
   maximum_allowed_students?: number | null;
+  absence_alerts_enabled?: boolean;
+  absence_alert_cutoff?: string;
+  max_children_per_staff?: number;
+  fever_threshold_celsius?: number;
   created_by?: string;
   updated_by?: string;
   created_at: string;
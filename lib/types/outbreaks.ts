@@ -0,0 +1,60 @@
+/**
+ * Type definitions for illness outbreak detection
+ */
+
+import type { SymptomKind } from './health-logs';
+
+/**
+ * What an outbreak is grouped by: a logged symptom, or children reported away sick
+ */
+export type OutbreakCategory = SymptomKind | 'away_sick';
+
+/**
+ * Number of distinct children with a category in one class on one day
+ */
+export interface OutbreakDailyCount {
+  date: string;
+  class_id: string | null;
+  class_name: string | null;
+  category: OutbreakCategory;
+  children: number;
+}
+
+/**
+ * Children in one class with the same category within the detection window
+ */
+export interface OutbreakCluster {
+  class_id: string | null;
+  class_name: string | null;
+  category: OutbreakCategory;
+  children: number;
+  student_ids: string[];
+  first_at: string;
+  last_at: string;
+}
+
+export interface OutbreakReport {
+  from: string;
+  to: string;
+  window_hours: number;
+  min_children: number;
+  daily: OutbreakDailyCount[];
+  clusters: OutbreakCluster[];
+}
+
+/**
+ * Health notice sent to the guardians of a class, kept for reporting to the health authority
+ */
+export interface HealthNotice {
+  id: string;
+  org_id: string;
+  class_id: string | null;
+  category: OutbreakCategory;
+  title: string;
+  body: string;
+  recipient_count: number;
+  sent_by: string | null;
+  sent_at: string;
+  classes?: { id: string; name: string } | null;
+  sent_by_user?: { id: string; first_name: string; last_name: string | null } | null;
+}
@@ -80,3 +80,49 @@ export interface StaffManagementProps {
   // Reserved for future props
 }
 
+
+/**
+ * Staff-to-child ratio for one class or the whole organization.
+ * Children are those checked in and not yet checked out, weighted by barngildi;
+ * staff are class members who are active (not on sick or holiday leave).
+ */
+export interface StaffRatio {
+  class_id: string | null;
+  class_name: string | null;
+  children_present: number;
+  weighted_children: number;
+  staff_present: number;
+  /** null when children are present but no staff is */
+  children_per_staff: number | null;
+  is_breach: boolean;
+}
+
+/**
+ * Live ratios for an organization against its configured threshold
+ */
+export interface StaffRatioReport {
+  date: string;
+  threshold: number;
+  calculated_at: string;
+  org: StaffRatio;
+  classes: StaffRatio[];
+}
+
+/**
+ * Stored ratio snapshot; class_id is null for the organization total
+ */
+export interface StaffRatioSnapshot {
+  id: string;
+  org_id: string;
+  class_id: string | null;
+  /** Local date in the organization's timezone */
+  date: string;
+  recorded_at: string;
+  children_present: number;
+  weighted_children: number;
+  staff_present: number;
+  children_per_staff: number | null;
+  threshold: number;
+  is_breach: boolean;
+  classes?: { id: string; name: string } | null;
+}
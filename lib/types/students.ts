@@ -2,6 +2,8 @@
  * Type definitions for student-related data structures
  */
 
+import type { Allergen } from '@/lib/constants/allergens';
+import type { StudentImportField, StudentImportMode } from '@/lib/constants/studentImport';
 import type { Student, GuardianRelation, StudentClass, StudentUser } from './attendance';
 
 /**
@@ -48,6 +50,7 @@ export interface StudentFormData {
   class_id: string;
   medical_notes: string;
   allergies: string;
+  allergy_tags: Allergen[];
   emergency_contact: string;
   guardian_ids: string[];
   address: string;
@@ -57,3 +60,87 @@ export interface StudentFormData {
   social_security_number: string;
 }
 
+
+/**
+ * Contact-only relative of a student (not a guardian user account).
+ * Relatives with can_pickup may collect the child at the end of the day.
+ */
+export interface StudentRelative {
+  id: string;
+  org_id: string;
+  student_id: string;
+  full_name: string;
+  relation: string | null;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+  can_pickup: boolean;
+  photo_url: string | null;
+  /** Emergency contact order, 1 first; null when not an emergency contact */
+  contact_priority: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type StudentRequestStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * A teacher's request to enroll a new student, waiting for a principal.
+ * Sensitive fields are decrypted for the API response.
+ */
+export interface StudentRequest {
+  id: string;
+  org_id: string;
+  class_id: string;
+  first_name: string;
+  last_name: string | null;
+  dob: string | null;
+  gender: string;
+  address: string | null;
+  ssn: string | null;
+  start_date: string | null;
+  student_language: string | null;
+  medical_notes: string | null;
+  allergies: string | null;
+  emergency_contact: string | null;
+  allergy_tags: Allergen[];
+  guardian_ids: string[];
+  status: StudentRequestStatus;
+  requested_by: string;
+  approved_by: string | null;
+  approved_at: string | null;
+  rejected_by: string | null;
+  rejected_at: string | null;
+  rejection_reason: string | null;
+  student_id: string | null;
+  created_at: string;
+  updated_at: string;
+  classes?: { id: string; name: string } | null;
+  requested_by_user?: { id: string; first_name: string | null; last_name: string | null } | null;
+}
+
+export type StudentImportRowStatus = 'create' | 'duplicate' | 'error';
+
+/**
+ * Outcome of one import row. Duplicates (matched on kennitala) are skipped;
+ * guardians matched on kennitala or email are linked instead of created.
+ */
+export interface StudentImportRowResult {
+  row: number;
+  status: StudentImportRowStatus;
+  student_name: string;
+  errors: string[];
+  guardians: Array<{ name: string; email: string; existing: boolean }>;
+}
+
+export interface StudentImportReport {
+  mode: StudentImportMode;
+  headers: string[];
+  mapping: Partial<Record<StudentImportField, string>>;
+  total: number;
+  to_create: number;
+  duplicates: number;
+  errors: number;
+  rows: StudentImportRowResult[];
+  created: { students: number; guardians: number; links: number } | null;
+}
@@ -0,0 +1,133 @@
+/**
+ * Persistent queue of attendance changes made while offline.
+ * Backed by IndexedDB so queued check-ins survive reloads and closed tabs.
+ * One entry per user, org, student and date; a newer change replaces the
+ * queued one. Entries are only replayed for the user who made them and the
+ * store is cleared on sign-out, since classroom tablets are shared.
+ */
+
+import type { BatchAttendanceRecord } from '@/lib/types/attendance';
+
+const DB_NAME = 'samvera-offline';
+const DB_VERSION = 2;
+const STORE_NAME = 'attendance_queue';
+
+export interface QueueOwner {
+  userId: string;
+  orgId: string;
+}
+
+export interface QueuedAttendanceChange {
+  key: string;
+  user_id: string;
+  org_id: string;
+  record: BatchAttendanceRecord;
+  // When the teacher made the change on the device; kept as the check-in time
+  changed_at: string;
+}
+
+export function getQueueKey(
+  owner: QueueOwner,
+  record: Pick<BatchAttendanceRecord, 'student_id' | 'date'>,
+): string {
+  return `${owner.userId}:${owner.orgId}:${record.student_id}-${record.date}`;
+}
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof window !== 'undefined' && 'indexedDB' in window;
+}
+
+function openQueueDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      // Version 1 entries were not tied to a user, so they cannot be replayed safely
+      if (db.objectStoreNames.contains(STORE_NAME)) {
+        db.deleteObjectStore(STORE_NAME);
+      }
+      db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  const db = await openQueueDb();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Add or replace queued changes for the given records.
+ * Each record carries the server updated_at the change was made against
+ * (base_updated_at) so replays can detect newer server edits.
+ * Throws when the browser has no IndexedDB, so callers never report
+ * changes as queued that were not stored.
+ */
+export async function enqueueAttendanceChanges(
+  owner: QueueOwner,
+  records: BatchAttendanceRecord[],
+): Promise<void> {
+  if (records.length === 0) return;
+  if (!isIndexedDbAvailable()) {
+    throw new Error('This browser cannot store attendance offline');
+  }
+  const changedAt = new Date().toISOString();
+  await withStore('readwrite', (store) => {
+    records.forEach((record) => {
+      const entry: QueuedAttendanceChange = {
+        key: getQueueKey(owner, record),
+        user_id: owner.userId,
+        org_id: owner.orgId,
+        record,
+        changed_at: changedAt,
+      };
+      store.put(entry);
+    });
+  });
+}
+
+/**
+ * Read the signed-in user's queued changes for their org, oldest first
+ */
+export async function getQueuedAttendanceChanges(owner: QueueOwner): Promise<QueuedAttendanceChange[]> {
+  if (!isIndexedDbAvailable()) return [];
+  const entries = await withStore<QueuedAttendanceChange[]>('readonly', (store) => store.getAll());
+  return (entries ?? [])
+    .filter((entry) => entry.user_id === owner.userId && entry.org_id === owner.orgId)
+    .sort((a, b) => a.changed_at.localeCompare(b.changed_at));
+}
+
+/**
+ * Remove queued changes once the server has accepted or rejected them
+ */
+export async function removeQueuedAttendanceChanges(keys: string[]): Promise<void> {
+  if (!isIndexedDbAvailable() || keys.length === 0) return;
+  await withStore('readwrite', (store) => {
+    keys.forEach((key) => store.delete(key));
+  });
+}
+
+/**
+ * Drop every queued change on this device; called on sign-out
+ */
+export async function clearAttendanceQueue(): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  await withStore('readwrite', (store) => {
+    store.clear();
+  });
+}
@@ -0,0 +1,11 @@
+/**
+ * Scheduled jobs authenticate with `Authorization: Bearer <CRON_SECRET>`.
+ * Without a configured secret the endpoints stay closed.
+ */
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+  return request.headers.get('authorization') === `Bearer ${secret}`;
+}
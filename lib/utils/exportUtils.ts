@@ -0,0 +1,61 @@
+import ExcelJS from 'exceljs';
+
+export type ExportCell = string | number | null | undefined;
+
+/**
+ * A single table to export: one CSV file or one worksheet in an XLSX workbook
+ */
+export interface ExportSheet {
+  name: string;
+  headers: string[];
+  rows: ExportCell[][];
+}
+
+function escapeCsvCell(value: ExportCell): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  if (/[",\r\n;]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Serialize a table to CSV.
+ * Prefixed with a UTF-8 BOM so Excel opens Icelandic characters correctly.
+ */
+export function toCsv(headers: string[], rows: ExportCell[][]): string {
+  const lines = [headers, ...rows].map((row) => row.map(escapeCsvCell).join(','));
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Build an XLSX workbook with one worksheet per sheet and return it as a Buffer
+ */
+export async function toXlsx(sheets: ExportSheet[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  for (const sheet of sheets) {
+    // Excel limits worksheet names to 31 characters
+    const worksheet = workbook.addWorksheet(sheet.name.slice(0, 31));
+    worksheet.addRow(sheet.headers);
+    worksheet.getRow(1).font = { bold: true };
+    sheet.rows.forEach((row) => worksheet.addRow(row.map((cell) => cell ?? null)));
+    worksheet.columns.forEach((column, index) => {
+      const headerLength = sheet.headers[index]?.length ?? 10;
+      column.width = Math.max(12, headerLength + 2);
+    });
+  }
+
+  const arrayBuffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(arrayBuffer);
+}
+
+/**
+ * Build a safe Content-Disposition header value for a downloaded file
+ */
+export function getAttachmentHeader(filename: string): string {
+  const safeName = filename.replace(/[^a-zA-Z0-9._-]/g, '_');
+  return `attachment; filename="${safeName}"`;
+}
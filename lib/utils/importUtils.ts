@@ -0,0 +1,133 @@
+import ExcelJS from 'exceljs';
+
+/**
+ * A parsed import file: the header row and the data rows as trimmed strings
+ */
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Parse CSV text. Handles quoted cells, a UTF-8 BOM and semicolon-separated
+ * files, which Excel writes in Icelandic locales.
+ */
+export function parseCsv(text: string): ImportTable {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  return toImportTable(records);
+}
+
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    // Excel dates carry no time zone; exceljs reads them as UTC
+    return value.toISOString().slice(0, 10);
+  }
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map((part) => part.text).join('');
+    if ('text' in value) return String(value.text);
+    if ('result' in value) return cellToString(value.result as ExcelJS.CellValue);
+    return '';
+  }
+  return String(value);
+}
+
+/**
+ * Parse the first worksheet of an XLSX workbook
+ */
+export async function parseXlsx(buffer: Buffer): Promise<ImportTable> {
+  const workbook = new ExcelJS.Workbook();
+  // exceljs's load() is typed against an older Buffer definition
+  await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    return { headers: [], rows: [] };
+  }
+
+  const records: string[][] = [];
+  worksheet.eachRow({ includeEmpty: false }, (row) => {
+    const values: string[] = [];
+    for (let col = 1; col <= row.cellCount; col++) {
+      values.push(cellToString(row.getCell(col).value));
+    }
+    records.push(values);
+  });
+
+  return toImportTable(records);
+}
+
+function toImportTable(records: string[][]): ImportTable {
+  const [headerRow = [], ...dataRows] = records;
+  const headers = headerRow.map((header) => header.trim());
+  const rows = dataRows
+    .map((row) => headers.map((_, index) => (row[index] ?? '').trim()))
+    .filter((row) => row.some((cell) => cell !== ''));
+  return { headers, rows };
+}
+
+/**
+ * Parse an uploaded CSV or XLSX file by its extension.
+ * Returns null for any other file type.
+ */
+export async function parseImportFile(filename: string, buffer: Buffer): Promise<ImportTable | null> {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  if (extension === 'csv') {
+    return parseCsv(buffer.toString('utf8'));
+  }
+  if (extension === 'xlsx') {
+    return parseXlsx(buffer);
+  }
+  return null;
+}
+
+/**
+ * Normalize the date formats people type into spreadsheets to YYYY-MM-DD.
+ * Day-first dates (31.12.2020, 31/12/2020) are read the Icelandic way.
+ */
+export function normalizeImportDate(value: string): string {
+  const dayFirst = value.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/);
+  if (dayFirst) {
+    const [, day, month, year] = dayFirst;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+  return value;
+}
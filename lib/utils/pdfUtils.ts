@@ -0,0 +1,380 @@
+/**
+ * Minimal PDF writer for printable reports: headings, paragraphs, label/value
+ * fields, simple tables and JPEG photos on A4 pages. Uses the built-in Helvetica
+ * fonts with WinAnsi encoding, which covers Icelandic letters, so no font files
+ * are embedded.
+ */
+
+export type PdfBlock =
+  | { kind: 'heading'; text: string }
+  | { kind: 'paragraph'; text: string; muted?: boolean }
+  | { kind: 'field'; label: string; value: string }
+  | { kind: 'table'; headers: string[]; rows: string[][]; widths?: number[] }
+  /** JPEG bytes are embedded as-is; anything that is not a readable JPEG is skipped */
+  | { kind: 'image'; jpeg: Buffer; caption?: string }
+  | { kind: 'spacer' };
+
+export interface PdfDocument {
+  title: string;
+  subtitle?: string;
+  blocks: PdfBlock[];
+  /** Printed at the bottom of every page next to the page number */
+  footer?: string;
+}
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BODY_SIZE = 10;
+const LINE_HEIGHT = 1.35;
+const FIELD_LABEL_WIDTH = 150;
+const CELL_PADDING = 4;
+const IMAGE_MAX_HEIGHT = 300;
+
+type Rgb = [number, number, number];
+
+const TEXT_COLOR: Rgb = [0.1, 0.1, 0.12];
+const MUTED_COLOR: Rgb = [0.4, 0.42, 0.45];
+const TABLE_HEADER_FILL: Rgb = [0.86, 0.95, 0.89];
+const BORDER_COLOR: Rgb = [0.8, 0.82, 0.85];
+
+/** Characters outside Latin-1 that WinAnsi still has a code for */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+/**
+ * Approximate Helvetica glyph width in ems; close enough for line wrapping
+ */
+function charWidth(char: string): number {
+  if (char === ' ') return 0.278;
+  if ('il.,;:!|\''.includes(char)) return 0.25;
+  if ('fjrt()[]-'.includes(char)) return 0.33;
+  if ('mwMW'.includes(char)) return 0.85;
+  if (char >= 'A' && char <= 'Z') return 0.68;
+  if ('ÁÉÍÓÚÝÞÆÖÐ'.includes(char)) return 0.7;
+  return 0.556;
+}
+
+function textWidth(text: string, size: number, bold: boolean): number {
+  let width = 0;
+  for (const char of text) {
+    width += charWidth(char);
+  }
+  return width * size * (bold ? 1.06 : 1);
+}
+
+/**
+ * Split text into lines that fit the width; words longer than a line are broken
+ */
+function wrapText(text: string, size: number, maxWidth: number, bold = false): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) {
+        lines.push(line);
+      }
+      let rest = word;
+      while (textWidth(rest, size, bold) > maxWidth) {
+        let cut = rest.length - 1;
+        while (cut > 1 && textWidth(rest.slice(0, cut), size, bold) > maxWidth) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Encode text as a PDF string literal in WinAnsi, escaping non-ASCII bytes
+ */
+function pdfString(text: string): string {
+  let out = '(';
+  for (const char of text) {
+    const code = WIN_ANSI_EXTRAS[char] ?? char.codePointAt(0) ?? 63;
+    if (code < 32) continue;
+    if (char === '\\' || char === '(' || char === ')') {
+      out += `\\${char}`;
+    } else if (code < 128) {
+      out += char;
+    } else if (code <= 255) {
+      out += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      out += '?';
+    }
+  }
+  return `${out})`;
+}
+
+interface JpegInfo {
+  width: number;
+  height: number;
+  components: number;
+}
+
+/**
+ * Read the pixel size and colour components from a JPEG's frame header
+ */
+function readJpegInfo(data: Buffer): JpegInfo | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return null;
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    const length = data.readUInt16BE(offset + 2);
+    // SOF0–SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const info = {
+        height: data.readUInt16BE(offset + 5),
+        width: data.readUInt16BE(offset + 7),
+        components: data[offset + 9],
+      };
+      return info.width > 0 && info.height > 0 && [1, 3, 4].includes(info.components) ? info : null;
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function color(rgb: Rgb, stroke = false): string {
+  return `${rgb.map((value) => value.toFixed(2)).join(' ')} ${stroke ? 'RG' : 'rg'}`;
+}
+
+/**
+ * Lays blocks out top to bottom, starting a new page whenever one is full
+ */
+class PdfLayout {
+  readonly pages: string[][] = [[]];
+  /** Indexes into `images` drawn on each page, by page index */
+  readonly pageImages = new Map<number, number[]>();
+  readonly images: Array<{ data: Buffer; info: JpegInfo }> = [];
+  private y = PAGE_HEIGHT - MARGIN;
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  ensureSpace(height: number) {
+    // Keep room for the footer line
+    if (this.y - height < MARGIN + 20) {
+      this.pages.push([]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  text(text: string, x: number, y: number, size: number, bold: boolean, rgb: Rgb) {
+    this.ops.push(`BT ${color(rgb)} /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(text)} Tj ET`);
+  }
+
+  lines(lines: string[], size: number, bold = false, rgb: Rgb = TEXT_COLOR, x = MARGIN) {
+    const step = size * LINE_HEIGHT;
+    for (const line of lines) {
+      this.ensureSpace(step);
+      this.y -= step;
+      this.text(line, x, this.y + size * 0.25, size, bold, rgb);
+    }
+  }
+
+  gap(height: number) {
+    this.y -= height;
+  }
+
+  heading(text: string, size: number) {
+    this.ensureSpace(size * 3);
+    this.gap(size * 0.6);
+    this.lines(wrapText(text, size, CONTENT_WIDTH, true), size, true);
+    this.gap(size * 0.3);
+  }
+
+  field(label: string, value: string) {
+    const valueLines = wrapText(value || '—', BODY_SIZE, CONTENT_WIDTH - FIELD_LABEL_WIDTH);
+    const step = BODY_SIZE * LINE_HEIGHT;
+    this.ensureSpace(step);
+    const top = this.y;
+    this.text(label, MARGIN, top - step + BODY_SIZE * 0.25, BODY_SIZE, true, MUTED_COLOR);
+    this.lines(valueLines, BODY_SIZE, false, TEXT_COLOR, MARGIN + FIELD_LABEL_WIDTH);
+    this.gap(2);
+  }
+
+  private row(cells: string[], widths: number[], header: boolean) {
+    const step = BODY_SIZE * LINE_HEIGHT;
+    const wrapped = cells.map((cell, i) => wrapText(cell || '', BODY_SIZE, widths[i] - CELL_PADDING * 2, header));
+    const height = Math.max(1, ...wrapped.map((lines) => lines.length)) * step + CELL_PADDING * 2;
+
+    const top = this.y;
+    if (header) {
+      this.ops.push(`${color(TABLE_HEADER_FILL)} ${MARGIN} ${(top - height).toFixed(2)} ${CONTENT_WIDTH.toFixed(2)} ${height.toFixed(2)} re f`);
+    }
+    let x = MARGIN;
+    wrapped.forEach((lines, i) => {
+      lines.forEach((line, lineIndex) => {
+        const baseline = top - CELL_PADDING - step * (lineIndex + 1) + BODY_SIZE * 0.25;
+        this.text(line, x + CELL_PADDING, baseline, BODY_SIZE, header, TEXT_COLOR);
+      });
+      x += widths[i];
+    });
+    this.ops.push(`${color(BORDER_COLOR, true)} 0.5 w ${MARGIN} ${(top - height).toFixed(2)} m ${(MARGIN + CONTENT_WIDTH).toFixed(2)} ${(top - height).toFixed(2)} l S`);
+    this.y = top - height;
+    return height;
+  }
+
+  image(data: Buffer, caption?: string) {
+    const info = readJpegInfo(data);
+    if (!info) return;
+    const scale = Math.min(CONTENT_WIDTH / info.width, IMAGE_MAX_HEIGHT / info.height, 1);
+    const width = info.width * scale;
+    const height = info.height * scale;
+
+    this.ensureSpace(height + BODY_SIZE * LINE_HEIGHT);
+    this.y -= height;
+    const index = this.images.push({ data, info }) - 1;
+    const pageIndex = this.pages.length - 1;
+    this.pageImages.set(pageIndex, [...(this.pageImages.get(pageIndex) ?? []), index]);
+    this.ops.push(`q ${width.toFixed(2)} 0 0 ${height.toFixed(2)} ${MARGIN} ${this.y.toFixed(2)} cm /Im${index} Do Q`);
+    this.gap(4);
+    if (caption) {
+      this.lines(wrapText(caption, BODY_SIZE - 1, CONTENT_WIDTH), BODY_SIZE - 1, false, MUTED_COLOR);
+    }
+    this.gap(6);
+  }
+
+  table(headers: string[], rows: string[][], fractions?: number[]) {
+    const total = fractions?.reduce((sum, value) => sum + value, 0) ?? headers.length;
+    const widths = headers.map((_, i) => ((fractions?.[i] ?? 1) / total) * CONTENT_WIDTH);
+    const step = BODY_SIZE * LINE_HEIGHT;
+
+    this.ensureSpace(step * 2 + CELL_PADDING * 4);
+    this.row(headers, widths, true);
+    for (const cells of rows) {
+      const lineCount = Math.max(1, ...cells.map((cell, i) => wrapText(cell || '', BODY_SIZE, widths[i] - CELL_PADDING * 2).length));
+      const height = lineCount * step + CELL_PADDING * 2;
+      if (this.y - height < MARGIN + 20) {
+        this.ensureSpace(PAGE_HEIGHT);
+        this.row(headers, widths, true);
+      }
+      this.row(cells, widths, false);
+    }
+    this.gap(6);
+  }
+}
+
+/**
+ * Render a document to a PDF file and return it as a Buffer
+ */
+export function toPdf(doc: PdfDocument): Buffer {
+  const layout = new PdfLayout();
+
+  layout.lines(wrapText(doc.title, 18, CONTENT_WIDTH, true), 18, true);
+  if (doc.subtitle) {
+    layout.lines(wrapText(doc.subtitle, BODY_SIZE, CONTENT_WIDTH), BODY_SIZE, false, MUTED_COLOR);
+  }
+  layout.gap(8);
+
+  for (const block of doc.blocks) {
+    switch (block.kind) {
+      case 'heading':
+        layout.heading(block.text, 13);
+        break;
+      case 'paragraph':
+        layout.lines(wrapText(block.text, BODY_SIZE, CONTENT_WIDTH), BODY_SIZE, false, block.muted ? MUTED_COLOR : TEXT_COLOR);
+        layout.gap(4);
+        break;
+      case 'field':
+        layout.field(block.label, block.value);
+        break;
+      case 'table':
+        layout.table(block.headers, block.rows, block.widths);
+        break;
+      case 'image':
+        layout.image(block.jpeg, block.caption);
+        break;
+      case 'spacer':
+        layout.gap(BODY_SIZE);
+        break;
+    }
+  }
+
+  const pageCount = layout.pages.length;
+  layout.pages.forEach((ops, index) => {
+    const footer = `${doc.footer ? `${doc.footer} · ` : ''}${index + 1} / ${pageCount}`;
+    ops.push(`BT ${color(MUTED_COLOR)} /F1 8 Tf ${MARGIN} ${MARGIN - 20} Td ${pdfString(footer)} Tj ET`);
+  });
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content stream
+  // per page, then one object per image
+  const objects: string[] = [];
+  const pageIds = layout.pages.map((_, index) => 6 + index * 2);
+  const firstImageId = 6 + pageCount * 2;
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  objects.push(`<< /Title ${pdfString(doc.title)} /Producer (Samvera) >>`);
+
+  layout.pages.forEach((ops, index) => {
+    const contentId = pageIds[index] + 1;
+    const imageRefs = (layout.pageImages.get(index) ?? [])
+      .map((imageIndex) => `/Im${imageIndex} ${firstImageId + imageIndex} 0 R`)
+      .join(' ');
+    const xObjects = imageRefs ? ` /XObject << ${imageRefs} >>` : '';
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects} >> /Contents ${contentId} 0 R >>`,
+    );
+    const stream = ops.join('\n');
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  for (const { data, info } of layout.images) {
+    const colorSpace = info.components === 1 ? '/DeviceGray' : info.components === 4 ? '/DeviceCMYK' : '/DeviceRGB';
+    // CMYK JPEGs are written inverted by most encoders
+    const decode = info.components === 4 ? ' /Decode [1 0 1 0 1 0 1 0]' : '';
+    objects.push(
+      `<< /Type /XObject /Subtype /Image /Width ${info.width} /Height ${info.height} /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode${decode} /Length ${data.length} >>\nstream\n${data.toString('latin1')}\nendstream`,
+    );
+  }
+
+  // Text is ASCII and image bytes are carried as latin1, one char per byte,
+  // so string lengths equal byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+/**
+ * Build a safe Content-Disposition header value for an inline PDF,
+ * so browsers open the print-ready file instead of only saving it
+ */
+export function getInlinePdfHeader(filename: string): string {
+  const safeName = filename.replace(/[^a-zA-Z0-9._-]/g, '_');
+  return `inline; filename="${safeName}"`;
+}
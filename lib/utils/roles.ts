@@ -0,0 +1,8 @@
+import type { SamveraRole } from '@/lib/types/auth';
+
+/**
+ * Principals, admins and teachers; everyone else is treated as a guardian
+ */
+export function isStaffRole(roles: SamveraRole[]): boolean {
+  return roles.some((role) => ['principal', 'admin', 'teacher'].includes(role));
+}
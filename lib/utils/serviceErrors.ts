@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+
+import { supabaseAdmin } from '@/lib/supabaseClient';
+
+/**
+ * Base class for errors thrown by the services in lib/services.
+ * Carries an HTTP status so route handlers can distinguish
+ * forbidden/not found/invalid requests from server errors.
+ */
+export class ServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 500,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = 'ServiceError';
+  }
+}
+
+/**
+ * Services read and write with the service role client; fail early when it is not set up
+ */
+export function assertSupabaseAdmin(service: string): void {
+  if (!supabaseAdmin) {
+    throw new ServiceError(`${service} is not configured`);
+  }
+}
+
+/**
+ * Map service errors to responses: client errors keep their message,
+ * anything else becomes a generic 500. keepServerMessage adds the service
+ * message to failedMessage, for failures that say how far they got.
+ */
+export function serviceErrorResponse(
+  err: unknown,
+  failedMessage: string,
+  unexpectedMessage: string,
+  { keepServerMessage = false }: { keepServerMessage?: boolean } = {},
+) {
+  if (!(err instanceof ServiceError)) {
+    return NextResponse.json({ error: unexpectedMessage }, { status: 500 });
+  }
+  if (err.status < 500) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+  return NextResponse.json(
+    { error: keepServerMessage ? `${failedMessage}: ${err.message}` : failedMessage },
+    { status: 500 },
+  );
+}
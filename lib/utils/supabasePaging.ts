@@ -0,0 +1,29 @@
+/**
+ * PostgREST returns at most 1000 rows per request, so reports and exports
+ * that need every row read the query one range at a time.
+ */
+export const SUPABASE_PAGE_SIZE = 1000;
+
+type PageResult<T> = { data: T[] | null; error: unknown };
+
+/**
+ * Run a query page by page until a short page comes back and return all rows.
+ * `page` must build a fresh query for the given inclusive range, ordered by a
+ * unique key (e.g. end with `.order('id')`) so pages neither overlap nor skip rows.
+ */
+export async function fetchAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<PageResult<T>>,
+  pageSize = SUPABASE_PAGE_SIZE,
+): Promise<PageResult<T> & { data: T[] }> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await page(from, from + pageSize - 1);
+    if (error) {
+      return { data: rows, error };
+    }
+    rows.push(...(data ?? []));
+    if (!data || data.length < pageSize) {
+      return { data: rows, error: null };
+    }
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Helpers for working with an organization's local time (orgs.timezone)
+ */
+
+/**
+ * Date (YYYY-MM-DD), time (HH:MM) and weekday of an instant in the given timezone.
+ * Falls back to UTC when the org's timezone is not recognised.
+ */
+export function getLocalDateTime(now: Date, timeZone: string) {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+  } catch {
+    return getLocalDateTime(now, 'UTC');
+  }
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}`,
+    weekday: part('weekday'),
+  };
+}
@@ -1,6 +1,8 @@
 import { z } from 'zod';
 import { NextResponse } from 'next/server';
 
+import { ALLERGENS } from '@/lib/constants/allergens';
+
 // ============================================================================
 // Common Validation Schemas
 // ============================================================================
@@ -192,6 +194,14 @@ export const medicalNotesSchema = notesSchema;
 export const allergiesSchema = notesSchema;
 export const emergencyContactSchema = notesSchema;
 
+/**
+ * Allergen tags (EU allergen codes), deduplicated
+ */
+export const allergenTagsSchema = z
+  .array(z.enum(ALLERGENS, { errorMap: () => ({ message: 'Unknown allergen' }) }))
+  .max(ALLERGENS.length)
+  .transform((tags) => Array.from(new Set(tags)));
+
 /**
  * Code schema (for class codes, etc.)
  */
@@ -316,6 +326,13 @@ export const severitySchema = z.number()
  */
 export const healthLogDataSchema = z.record(z.unknown()).default({}).or(z.object({}).default({}));
 
+/**
+ * Nap data: when the child woke up
+ */
+export const napDetailsSchema = z.object({
+  ended_at: isoDateTimeSchema.nullable().optional(),
+}).passthrough();
+
 /**
  * Create health log schema
  * Note: org_id and recorded_by are set server-side from authenticated user
@@ -345,6 +362,39 @@ export const updateHealthLogSchema = z.object({
   severity: severitySchema,
 });
 
+/**
+ * One child in a batch of health logs; set fields override the shared ones
+ */
+export const batchHealthLogEntrySchema = z.object({
+  student_id: studentIdSchema,
+  type: healthLogTypeSchema.optional(),
+  recorded_at: isoDateTimeSchema.optional(),
+  temperature_celsius: temperatureSchema,
+  data: healthLogDataSchema.optional(),
+  notes: notesSchema,
+  severity: severitySchema,
+});
+
+/**
+ * Create batch health logs schema
+ * One log per entry, sharing type, time and details unless an entry overrides them
+ */
+export const createBatchHealthLogsSchema = z.object({
+  class_id: classIdSchema.optional(),
+  type: healthLogTypeSchema,
+  recorded_at: isoDateTimeSchema,
+  temperature_celsius: temperatureSchema,
+  data: healthLogDataSchema.optional(),
+  notes: notesSchema,
+  severity: severitySchema,
+  entries: z.array(batchHealthLogEntrySchema)
+    .min(1, { message: 'Select at least one child' })
+    .max(100, { message: 'At most 100 children can be logged at once' }),
+}).refine(
+  (body) => new Set(body.entries.map((entry) => entry.student_id)).size === body.entries.length,
+  { message: 'Each child can only appear once', path: ['entries'] },
+);
+
 // ============================================================================
 // Array Schemas
 // ============================================================================
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+
+import { dateSchema, uuidSchema } from '@/lib/validation';
+import { GRADE_SCALE } from '@/lib/constants/assessments';
+
+const scoreSchema = z.number().min(0).max(999.99);
+
+const assessmentTitleSchema = z.string().trim().min(1, { message: 'Title is required' }).max(200);
+const subjectSchema = z.string().trim().min(1, { message: 'Subject is required' }).max(100);
+const assessmentDescriptionSchema = z.string().trim().max(2000).nullable().optional();
+
+/**
+ * Query parameters for GET /api/assessments
+ */
+export const getAssessmentsQuerySchema = z
+  .object({
+    classId: uuidSchema.optional(),
+    studentId: uuidSchema.optional(),
+    subject: z.string().trim().max(100).optional(),
+    from: dateSchema.optional(),
+    to: dateSchema.optional(),
+  })
+  .refine((data) => data.classId || data.studentId, {
+    message: 'classId or studentId is required',
+    path: ['classId'],
+  });
+
+const assessmentResultSchema = z.object({
+  student_id: uuidSchema,
+  grade: z.enum(GRADE_SCALE).nullable().optional(),
+  score: scoreSchema.nullable().optional(),
+});
+
+/**
+ * Request body for POST /api/assessments. One assessment (a gradebook
+ * column) with a result for each student who has one.
+ */
+export const postAssessmentsBodySchema = z
+  .object({
+    class_id: uuidSchema,
+    subject: subjectSchema,
+    title: assessmentTitleSchema,
+    description: assessmentDescriptionSchema,
+    assessed_at: dateSchema.optional(),
+    max_score: scoreSchema.positive().nullable().optional(),
+    results: z.array(assessmentResultSchema).min(1, { message: 'At least one result is required' }).max(200),
+  })
+  .refine((data) => data.results.every((result) => result.score == null || data.max_score != null), {
+    message: 'max_score is required when scores are given',
+    path: ['max_score'],
+  })
+  .refine((data) => data.results.every((result) => result.score == null || result.score <= (data.max_score ?? 0)), {
+    message: 'Score cannot be higher than max_score',
+    path: ['results'],
+  });
+
+/**
+ * Request body for PUT /api/assessments/[id]
+ */
+export const putAssessmentBodySchema = z
+  .object({
+    subject: subjectSchema.optional(),
+    title: assessmentTitleSchema.optional(),
+    description: assessmentDescriptionSchema,
+    assessed_at: dateSchema.optional(),
+    grade: z.enum(GRADE_SCALE).nullable().optional(),
+    score: scoreSchema.nullable().optional(),
+    max_score: scoreSchema.positive().nullable().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Nothing to update',
+  });
+
+/**
+ * Query parameters for GET /api/students/[id]/report-card
+ */
+export const getReportCardQuerySchema = z
+  .object({
+    from: dateSchema,
+    to: dateSchema,
+    lang: z.enum(['is', 'en']).optional(),
+  })
+  .refine((data) => data.from <= data.to, {
+    message: 'from must be on or before to',
+    path: ['to'],
+  });
+
+export type GetAssessmentsQueryParams = z.infer<typeof getAssessmentsQuerySchema>;
+export type PostAssessmentsBody = z.infer<typeof postAssessmentsBodySchema>;
+export type PutAssessmentBody = z.infer<typeof putAssessmentBodySchema>;
+export type GetReportCardQueryParams = z.infer<typeof getReportCardQuerySchema>;
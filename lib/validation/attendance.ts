@@ -16,6 +16,11 @@ export const getAttendanceQuerySchema = z.object({
   classId: classIdSchema.optional(),
   studentId: studentIdSchema.optional(),
   date: dateSchema.optional(),
+  // Also return the student's recent status and check-out history (staff only, needs studentId)
+  includeHistory: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
 });
 
 
@@ -26,6 +31,9 @@ export const postAttendanceBodySchema = z.object({
   status: attendanceStatusSchema.default('arrived'),
   notes: notesSchema,
   left_at: z.string().datetime().nullable().optional(),
+  // Required when a child is checked out (left_at set for the first time)
+  picked_up_by_guardian_id: uuidSchema.nullable().optional(),
+  picked_up_by_relative_id: uuidSchema.nullable().optional(),
 });
 
 /**
@@ -36,6 +44,9 @@ export const putAttendanceBodySchema = z.object({
   status: attendanceStatusSchema.optional(),
   notes: notesSchema,
   left_at: z.string().datetime().nullable().optional(),
+  // Required when a child is checked out (left_at set for the first time)
+  picked_up_by_guardian_id: uuidSchema.nullable().optional(),
+  picked_up_by_relative_id: uuidSchema.nullable().optional(),
 });
 
 /**
@@ -45,9 +56,147 @@ export const deleteAttendanceQuerySchema = z.object({
   id: uuidSchema,
 });
 
+/**
+ * Query parameters for GET /api/attendance/report
+ * Either a calendar month (YYYY-MM) or an explicit from/to date range is required.
+ */
+export const getAttendanceReportQuerySchema = z
+  .object({
+    classId: classIdSchema.optional(),
+    month: z
+      .string()
+      .regex(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'Month must be in YYYY-MM format' })
+      .optional(),
+    from: dateSchema.optional(),
+    to: dateSchema.optional(),
+    format: z.enum(['json', 'csv', 'xlsx']).default('json'),
+  })
+  .refine((data) => Boolean(data.month) || (Boolean(data.from) && Boolean(data.to)), {
+    message: 'Either month or both from and to are required',
+    path: ['month'],
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'from must be on or before to',
+    path: ['to'],
+  });
+
+/**
+ * Query parameters for GET /api/attendance/notices
+ */
+export const getAbsenceNoticesQuerySchema = z.object({
+  studentId: studentIdSchema.optional(),
+  classId: classIdSchema.optional(),
+  from: dateSchema.optional(),
+});
+
+/**
+ * Request body for POST /api/attendance/notices
+ * Notices may span at most 60 days.
+ */
+export const postAbsenceNoticeBodySchema = z
+  .object({
+    student_id: studentIdSchema,
+    kind: z.enum(['sick', 'holiday']),
+    start_date: dateSchema,
+    end_date: dateSchema,
+    note: z.string().max(500).optional().nullable(),
+  })
+  .refine((data) => data.start_date <= data.end_date, {
+    message: 'end_date must be on or after start_date',
+    path: ['end_date'],
+  })
+  .refine(
+    (data) =>
+      Date.parse(data.end_date) - Date.parse(data.start_date) <= 60 * 24 * 60 * 60 * 1000,
+    {
+      message: 'An absence notice can cover at most 60 days',
+      path: ['end_date'],
+    },
+  );
+
+/**
+ * Query parameters for DELETE /api/attendance/notices
+ */
+export const deleteAbsenceNoticeQuerySchema = z.object({
+  id: uuidSchema,
+});
+
+/**
+ * Query parameters for GET /api/attendance/pickup-persons
+ */
+export const getPickupPersonsQuerySchema = z.object({
+  studentId: studentIdSchema,
+});
+
+/**
+ * Query parameters for GET /api/attendance/care-hours
+ */
+export const getCareHoursQuerySchema = z.object({
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'Month must be in YYYY-MM format' }),
+  classId: classIdSchema.optional(),
+  studentId: studentIdSchema.optional(),
+  format: z.enum(['json', 'csv', 'xlsx']).default('json'),
+});
+
+/**
+ * Query parameters for GET /api/attendance/closures
+ * Returns closures overlapping the range; classId limits to that class and org-wide closures.
+ */
+export const getClosureDaysQuerySchema = z
+  .object({
+    from: dateSchema.optional(),
+    to: dateSchema.optional(),
+    classId: classIdSchema.optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'from must be on or before to',
+    path: ['to'],
+  });
+
+/**
+ * Request body for POST /api/attendance/closures
+ * Leave class_id empty to close the whole organization. A closure may span at most a year.
+ */
+export const postClosureDayBodySchema = z
+  .object({
+    class_id: classIdSchema.optional(),
+    kind: z.enum(['planning_day', 'public_holiday', 'summer_closure', 'other']).default('other'),
+    title: z.string().trim().min(1, 'Title is required').max(200),
+    start_date: dateSchema,
+    end_date: dateSchema,
+  })
+  .refine((data) => data.start_date <= data.end_date, {
+    message: 'end_date must be on or after start_date',
+    path: ['end_date'],
+  })
+  .refine(
+    (data) =>
+      Date.parse(data.end_date) - Date.parse(data.start_date) <= 366 * 24 * 60 * 60 * 1000,
+    {
+      message: 'A closure can cover at most one year',
+      path: ['end_date'],
+    },
+  );
+
+/**
+ * Query parameters for DELETE /api/attendance/closures
+ */
+export const deleteClosureDayQuerySchema = z.object({
+  id: uuidSchema,
+});
+
 export type GetAttendanceQueryParams = z.infer<typeof getAttendanceQuerySchema>;
 export type PostAttendanceBody = z.infer<typeof postAttendanceBodySchema>;
 export type PutAttendanceBody = z.infer<typeof putAttendanceBodySchema>;
 export type DeleteAttendanceQueryParams = z.infer<typeof deleteAttendanceQuerySchema>;
-
-
+export type GetAttendanceReportQueryParams = z.infer<typeof getAttendanceReportQuerySchema>;
+export type GetAbsenceNoticesQueryParams = z.infer<typeof getAbsenceNoticesQuerySchema>;
+export type PostAbsenceNoticeBody = z.infer<typeof postAbsenceNoticeBodySchema>;
+export type DeleteAbsenceNoticeQueryParams = z.infer<typeof deleteAbsenceNoticeQuerySchema>;
+export type GetPickupPersonsQueryParams = z.infer<typeof getPickupPersonsQuerySchema>;
+export type GetCareHoursQueryParams = z.infer<typeof getCareHoursQuerySchema>;
+export type GetClosureDaysQueryParams = z.infer<typeof getClosureDaysQuerySchema>;
+export type PostClosureDayBody = z.infer<typeof postClosureDayBodySchema>;
+export type DeleteClosureDayQueryParams = z.infer<typeof deleteClosureDayQuerySchema>;
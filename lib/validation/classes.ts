@@ -4,6 +4,8 @@ import {
   nameSchema,
   codeSchema,
   classIdSchema,
+  studentIdSchema,
+  uuidSchema,
 } from '@/lib/validation';
 
 /**
@@ -47,3 +49,30 @@ export const searchClassesQuerySchema = z.object({
   q: z.string().default(''),
 });
 
+
+/**
+ * POST /api/classes/rollover body schema
+ * Classes not listed in class_moves keep their children; graduating
+ * children leave their class whether or not it moves.
+ */
+export const postClassRolloverBodySchema = z
+  .object({
+    mode: z.enum(['preview', 'apply']).default('preview'),
+    class_moves: z
+      .array(z.object({ from_class_id: uuidSchema, to_class_id: uuidSchema }))
+      .default([])
+      .refine((moves) => moves.every((move) => move.from_class_id !== move.to_class_id), {
+        message: 'A class cannot move into itself',
+      })
+      .refine((moves) => new Set(moves.map((move) => move.from_class_id)).size === moves.length, {
+        message: 'Each class can only move once',
+      }),
+    graduating_student_ids: z.array(studentIdSchema).default([]),
+    teacher_memberships: z.enum(['carry_over', 'reset']).default('carry_over'),
+    guardian_grace_days: z.number().int().min(0).max(365).default(30),
+  })
+  .refine((body) => body.class_moves.length > 0 || body.graduating_student_ids.length > 0, {
+    message: 'Move at least one class or graduate at least one student',
+  });
+
+export type PostClassRolloverBody = z.infer<typeof postClassRolloverBodySchema>;
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+import { notesSchema, studentIdSchema } from '@/lib/validation';
+
+export const injuryBodyAreaSchema = z.enum([
+  'head',
+  'face',
+  'neck',
+  'chest',
+  'abdomen',
+  'back',
+  'left_arm',
+  'right_arm',
+  'left_hand',
+  'right_hand',
+  'left_leg',
+  'right_leg',
+  'left_foot',
+  'right_foot',
+]);
+
+/**
+ * Structured details required in the data of an injury health log.
+ * Other keys in data are kept as they are.
+ */
+export const injuryDetailsSchema = z
+  .object({
+    location: z.string().trim().min(1, { message: 'Location of the injury is required' }).max(500),
+    witnesses: z.string().trim().max(1000).nullable().optional(),
+    first_aid: z.string().trim().min(1, { message: 'First aid given is required' }).max(2000),
+    body_areas: z.array(injuryBodyAreaSchema).min(1, { message: 'Select at least one body area' }),
+    body_area_details: z.string().trim().max(2000).nullable().optional(),
+  })
+  .passthrough();
+
+/**
+ * Query parameters for GET /api/incidents
+ */
+export const getIncidentReportsQuerySchema = z.object({
+  status: z.enum(['pending_review', 'sent_to_guardians', 'acknowledged']).optional(),
+  studentId: studentIdSchema.optional(),
+});
+
+/**
+ * Request body for POST /api/incidents/[id]/review
+ */
+export const postIncidentReviewBodySchema = z.object({
+  // Note from the principal shown to guardians with the report
+  notes: notesSchema,
+});
+
+/**
+ * Query parameters for GET /api/incidents/[id]/pdf
+ */
+export const getIncidentPdfQuerySchema = z.object({
+  lang: z.enum(['is', 'en']).optional(),
+});
+
+export type InjuryDetailsInput = z.infer<typeof injuryDetailsSchema>;
+export type GetIncidentReportsQueryParams = z.infer<typeof getIncidentReportsQuerySchema>;
+export type PostIncidentReviewBody = z.infer<typeof postIncidentReviewBodySchema>;
+export type GetIncidentPdfQueryParams = z.infer<typeof getIncidentPdfQuerySchema>;
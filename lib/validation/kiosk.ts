@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+import { studentIdSchema, uuidSchema } from '@/lib/validation';
+
+const kioskCodeSchema = z.string().min(1).max(300);
+
+/**
+ * Body for POST /api/kiosk/devices
+ */
+export const postKioskDeviceBodySchema = z.object({
+  name: z.string().trim().min(1, 'Device name is required').max(100),
+});
+
+/**
+ * Query parameters for DELETE /api/kiosk/devices
+ */
+export const deleteKioskDeviceQuerySchema = z.object({
+  id: uuidSchema,
+});
+
+/**
+ * Query parameters for GET /api/kiosk/check
+ */
+export const getKioskCheckQuerySchema = z.object({
+  code: kioskCodeSchema,
+});
+
+/**
+ * Body for POST /api/kiosk/check
+ */
+export const postKioskCheckBodySchema = z.object({
+  code: kioskCodeSchema,
+  student_id: studentIdSchema,
+  action: z.enum(['check_in', 'check_out']),
+});
+
+export type PostKioskDeviceBody = z.infer<typeof postKioskDeviceBodySchema>;
+export type DeleteKioskDeviceQueryParams = z.infer<typeof deleteKioskDeviceQuerySchema>;
+export type GetKioskCheckQueryParams = z.infer<typeof getKioskCheckQuerySchema>;
+export type PostKioskCheckBody = z.infer<typeof postKioskCheckBodySchema>;
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+
+import { classIdSchema, dateSchema, notesSchema, studentIdSchema, uuidSchema } from '@/lib/validation';
+
+const doseTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, {
+  message: 'Dose time must be in HH:MM format',
+});
+
+/**
+ * Query parameters for GET /api/medication-plans
+ */
+export const getMedicationPlansQuerySchema = z.object({
+  studentId: studentIdSchema.optional(),
+  // Include cancelled, declined and ended plans
+  includeInactive: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
+/**
+ * Request body for POST /api/medication-plans
+ * Guardians consent as they create a plan, so they must sign with their name.
+ */
+export const postMedicationPlanBodySchema = z
+  .object({
+    student_id: studentIdSchema,
+    medication_name: z.string().trim().min(1, { message: 'Medication name is required' }).max(200),
+    dose: z.string().trim().min(1, { message: 'Dose is required' }).max(200),
+    instructions: notesSchema,
+    dose_times: z
+      .array(doseTimeSchema)
+      .min(1, { message: 'At least one dose time is required' })
+      .max(6, { message: 'At most 6 dose times per day' })
+      .refine((times) => new Set(times).size === times.length, {
+        message: 'Dose times must be unique',
+      }),
+    start_date: dateSchema,
+    end_date: dateSchema,
+    consent_name: z.string().trim().min(2).max(200).optional(),
+  })
+  .refine((data) => data.end_date >= data.start_date, {
+    message: 'End date must be on or after start date',
+    path: ['end_date'],
+  });
+
+/**
+ * Request body for POST /api/medication-plans/consent
+ */
+export const postMedicationConsentBodySchema = z.object({
+  plan_id: uuidSchema,
+  decision: z.enum(['give', 'decline']),
+  // Typed full name acting as the guardian's signature
+  consent_name: z.string().trim().min(2, { message: 'Please type your full name' }).max(200),
+});
+
+/**
+ * Query parameters for DELETE /api/medication-plans
+ */
+export const deleteMedicationPlanQuerySchema = z.object({
+  id: uuidSchema,
+});
+
+/**
+ * Query parameters for GET /api/medication-plans/doses
+ */
+export const getMedicationDosesQuerySchema = z.object({
+  classId: classIdSchema.optional(),
+});
+
+/**
+ * Request body for POST /api/medication-plans/doses
+ */
+export const postMedicationDoseBodySchema = z.object({
+  plan_id: uuidSchema,
+  scheduled_time: doseTimeSchema,
+  notes: notesSchema,
+});
+
+export type GetMedicationPlansQueryParams = z.infer<typeof getMedicationPlansQuerySchema>;
+export type PostMedicationPlanBody = z.infer<typeof postMedicationPlanBodySchema>;
+export type PostMedicationConsentBody = z.infer<typeof postMedicationConsentBodySchema>;
+export type DeleteMedicationPlanQueryParams = z.infer<typeof deleteMedicationPlanQuerySchema>;
+export type GetMedicationDosesQueryParams = z.infer<typeof getMedicationDosesQuerySchema>;
+export type PostMedicationDoseBody = z.infer<typeof postMedicationDoseBodySchema>;
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 
 import {
+  allergenTagsSchema,
   classIdSchema,
   dateSchema,
   notesSchema,
@@ -16,8 +17,11 @@ export const postMenuBodySchema = z.object({
   class_id: classIdSchema.optional(),
   day: dateSchema,
   breakfast: z.string().max(1000).nullable().optional(),
+  breakfast_allergens: allergenTagsSchema.optional(),
   lunch: z.string().max(1000).nullable().optional(),
+  lunch_allergens: allergenTagsSchema.optional(),
   snack: z.string().max(1000).nullable().optional(),
+  snack_allergens: allergenTagsSchema.optional(),
   notes: notesSchema,
   is_public: z.boolean().default(true),
 });
@@ -25,12 +29,20 @@ export const postMenuBodySchema = z.object({
 export const putMenuBodySchema = z.object({
   id: uuidSchema,
   breakfast: z.string().max(1000).nullable().optional(),
+  breakfast_allergens: allergenTagsSchema.optional(),
   lunch: z.string().max(1000).nullable().optional(),
+  lunch_allergens: allergenTagsSchema.optional(),
   snack: z.string().max(1000).nullable().optional(),
+  snack_allergens: allergenTagsSchema.optional(),
   notes: notesSchema,
   is_public: z.boolean().optional(),
 });
 
+export const getMenuConflictsQuerySchema = z.object({
+  day: dateSchema.optional(),
+  classId: classIdSchema.nullable().optional(),
+});
+
 export const deleteMenuQuerySchema = z.object({
   id: uuidSchema,
 });
@@ -38,6 +50,7 @@ export const deleteMenuQuerySchema = z.object({
 export type GetMenusQueryParams = z.infer<typeof getMenusQuerySchema>;
 export type PostMenuBody = z.infer<typeof postMenuBodySchema>;
 export type PutMenuBody = z.infer<typeof putMenuBodySchema>;
+export type GetMenuConflictsQueryParams = z.infer<typeof getMenuConflictsQuerySchema>;
 export type DeleteMenuQueryParams = z.infer<typeof deleteMenuQuerySchema>;
 
 
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+import { dateSchema, uuidSchema } from '@/lib/validation';
+import { MILESTONE_KEYS, MILESTONE_STATUSES } from '@/lib/constants/milestones';
+
+/**
+ * Request body for PUT /api/students/[id]/milestones.
+ * A null status clears the milestone back to not observed.
+ */
+export const putStudentMilestoneBodySchema = z.object({
+  milestone_key: z.enum(MILESTONE_KEYS),
+  status: z.enum(MILESTONE_STATUSES).nullable(),
+  observed_on: dateSchema.optional(),
+  photo_id: uuidSchema.nullable().optional(),
+  daily_log_id: uuidSchema.nullable().optional(),
+  notes: z.string().trim().max(1000).nullable().optional(),
+});
+
+export type PutStudentMilestoneBody = z.infer<typeof putStudentMilestoneBodySchema>;
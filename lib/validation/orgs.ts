@@ -113,5 +113,9 @@ export const putMyOrgBodySchema = z.object({
   play_area: z.coerce.number().positive('Play area must be a positive number'),
   square_meters_per_student: z.coerce.number().positive('Square meters per student must be a positive number'),
   maximum_allowed_students: z.coerce.number().int().positive('Maximum allowed students must be a positive integer'),
+  absence_alerts_enabled: z.boolean().optional(),
+  absence_alert_cutoff: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, { message: 'Cut-off must be a time in HH:MM format' }).optional(),
+  max_children_per_staff: z.coerce.number().positive('Children per staff member must be a positive number').max(99).optional(),
+  fever_threshold_celsius: z.coerce.number().min(37, 'Fever threshold must be at least 37.0 °C').max(41, 'Fever threshold must be at most 41.0 °C').optional(),
 });
 
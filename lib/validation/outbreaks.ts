@@ -0,0 +1,75 @@
+import { z } from 'zod';
+
+import { dateSchema, uuidSchema } from '@/lib/validation';
+
+export const symptomKindSchema = z.enum([
+  'fever',
+  'vomiting',
+  'diarrhea',
+  'cough',
+  'runny_nose',
+  'sore_throat',
+  'rash',
+  'eye_infection',
+  'stomach_ache',
+  'headache',
+  'other',
+]);
+
+export const outbreakCategorySchema = z.union([symptomKindSchema, z.literal('away_sick')]);
+
+/**
+ * Symptoms ticked on a symptom health log. Older logs have none, and
+ * other keys in data are kept as they are.
+ */
+export const symptomDetailsSchema = z
+  .object({
+    symptoms: z.array(symptomKindSchema).max(11).optional(),
+  })
+  .passthrough();
+
+/**
+ * Query parameters for GET /api/outbreaks
+ * A report may span at most 92 days.
+ */
+export const getOutbreakReportQuerySchema = z
+  .object({
+    from: dateSchema,
+    to: dateSchema,
+    // Children with the same symptom in a class within this many hours form a cluster
+    windowHours: z.coerce.number().int().min(12).max(168).default(48),
+    minChildren: z.coerce.number().int().min(2).max(50).default(5),
+  })
+  .refine((data) => data.from <= data.to, {
+    message: 'from must be on or before to',
+    path: ['to'],
+  })
+  .refine(
+    (data) => Date.parse(data.to) - Date.parse(data.from) <= 92 * 24 * 60 * 60 * 1000,
+    {
+      message: 'An outbreak report can cover at most 92 days',
+      path: ['to'],
+    },
+  );
+
+/**
+ * Request body for POST /api/outbreaks/notices
+ */
+export const postHealthNoticeBodySchema = z.object({
+  class_id: uuidSchema,
+  category: outbreakCategorySchema,
+  title: z.string().trim().min(1, { message: 'Title is required' }).max(200),
+  body: z.string().trim().min(1, { message: 'Message is required' }).max(4000),
+});
+
+/**
+ * Query parameters for GET /api/outbreaks/notices
+ */
+export const getHealthNoticesQuerySchema = z.object({
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+});
+
+export type GetOutbreakReportQueryParams = z.infer<typeof getOutbreakReportQuerySchema>;
+export type PostHealthNoticeBody = z.infer<typeof postHealthNoticeBodySchema>;
+export type GetHealthNoticesQueryParams = z.infer<typeof getHealthNoticesQuerySchema>;
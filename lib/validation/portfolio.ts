@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+import { dateSchema } from '@/lib/validation';
+
+/**
+ * Query parameters for GET /api/students/[id]/portfolio.
+ * Both dates default to the current school year.
+ */
+export const getPortfolioQuerySchema = z
+  .object({
+    from: dateSchema.optional(),
+    to: dateSchema.optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'from must be on or before to',
+    path: ['to'],
+  });
+
+export type GetPortfolioQueryParams = z.infer<typeof getPortfolioQuerySchema>;
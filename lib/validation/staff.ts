@@ -9,6 +9,7 @@ import {
   addressSchema,
   ssnSchema,
   classIdSchema,
+  dateSchema,
   userIdSchema,
 } from '@/lib/validation';
 
@@ -171,6 +172,24 @@ export const updateStaffStatusSchema = z
     },
   );
 
+/**
+ * Query parameters for GET /api/staff-ratios/history
+ */
+export const getStaffRatioHistoryQuerySchema = z
+  .object({
+    from: dateSchema,
+    to: dateSchema,
+    classId: classIdSchema.optional(),
+    breachesOnly: z
+      .enum(['true', 'false'])
+      .transform((value) => value === 'true')
+      .optional(),
+  })
+  .refine((data) => data.from <= data.to, {
+    message: 'from must be on or before to',
+    path: ['to'],
+  });
+
 /**
  * Type exports
  */
@@ -179,4 +198,4 @@ export type UpdateStaffBody = z.infer<typeof updateStaffSchema>;
 export type DeleteStaffQueryParams = z.infer<typeof deleteStaffQuerySchema>;
 export type StaffFormInput = z.infer<typeof staffFormSchema>;
 export type UpdateStaffStatusBody = z.infer<typeof updateStaffStatusSchema>;
-
+export type GetStaffRatioHistoryQueryParams = z.infer<typeof getStaffRatioHistoryQuerySchema>;
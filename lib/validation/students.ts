@@ -12,10 +12,17 @@ import {
   ssnSchema,
   medicalNotesSchema,
   allergiesSchema,
+  allergenTagsSchema,
   emergencyContactSchema,
   guardianIdsSchema,
   dateSchema,
+  emailSchema,
+  nameSchema,
+  notesSchema,
+  phoneSchema,
+  uuidSchema,
 } from '@/lib/validation';
+import { STUDENT_IMPORT_FIELDS, STUDENT_IMPORT_MODES } from '@/lib/constants/studentImport';
 
 /**
  * Required address schema for students
@@ -63,6 +70,7 @@ export const postStudentBodySchema = z
     student_language: studentLanguageSchema.optional(),
     medical_notes: medicalNotesSchema,
     allergies: allergiesSchema,
+    allergy_tags: allergenTagsSchema.optional(),
     emergency_contact: emergencyContactSchema,
     address: requiredStudentAddressSchema,
     social_security_number: requiredStudentSsnSchema,
@@ -105,6 +113,7 @@ export const putStudentBodySchema = z
     student_language: studentLanguageSchema.optional(),
     medical_notes: medicalNotesSchema,
     allergies: allergiesSchema,
+    allergy_tags: allergenTagsSchema.optional(),
     emergency_contact: emergencyContactSchema,
     address: requiredStudentAddressSchema,
     social_security_number: requiredStudentSsnSchema,
@@ -154,6 +163,7 @@ export const studentFormDataSchema = z.object({
   student_language: studentLanguageSchema.optional(),
   medical_notes: medicalNotesSchema,
   allergies: allergiesSchema,
+  allergy_tags: allergenTagsSchema.optional(),
   emergency_contact: emergencyContactSchema,
   address: requiredStudentAddressSchema,
   social_security_number: requiredStudentSsnSchema,
@@ -169,3 +179,108 @@ export const assignStudentsClassBodySchema = z.object({
   studentIds: z.array(studentIdSchema).min(1, { message: 'At least one student ID is required' }),
 });
 
+/**
+ * Relative fields shared by create and update
+ */
+const studentRelativeFieldsSchema = z.object({
+  full_name: nameSchema,
+  relation: z.string().max(100, { message: 'Relation must be 100 characters or less' }).nullable().optional(),
+  phone: phoneSchema,
+  email: emailSchema.nullable().optional(),
+  notes: notesSchema,
+  can_pickup: z.boolean().optional(),
+  photo_url: z.string().url({ message: 'Invalid photo URL' }).max(2000).nullable().optional(),
+  contact_priority: z
+    .number()
+    .int({ message: 'Contact priority must be a whole number' })
+    .min(1, { message: 'Contact priority must be at least 1' })
+    .max(99, { message: 'Contact priority must be 99 or less' })
+    .nullable()
+    .optional(),
+});
+
+/**
+ * POST /api/students/[id]/relatives body schema
+ */
+export const postStudentRelativeBodySchema = studentRelativeFieldsSchema;
+
+/**
+ * PUT /api/students/[id]/relatives/[relativeId] body schema
+ * Fields left out keep their current value
+ */
+export const putStudentRelativeBodySchema = studentRelativeFieldsSchema.partial();
+
+/**
+ * POST /api/student-requests body schema
+ * The fields a principal needs to create the student on approval
+ */
+export const postStudentRequestBodySchema = z.object({
+  class_id: uuidSchema,
+  first_name: firstNameSchema,
+  last_name: lastNameSchema,
+  dob: studentDobSchema.nullable().optional(),
+  gender: genderSchema.optional(),
+  start_date: dateSchema.nullable().optional(),
+  student_language: studentLanguageSchema.optional(),
+  medical_notes: medicalNotesSchema,
+  allergies: allergiesSchema,
+  allergy_tags: allergenTagsSchema.optional(),
+  emergency_contact: emergencyContactSchema,
+  address: requiredStudentAddressSchema,
+  social_security_number: requiredStudentSsnSchema,
+  guardian_ids: guardianIdsSchema.optional().default([]),
+});
+
+/**
+ * GET /api/student-requests query parameter schema
+ */
+export const getStudentRequestsQuerySchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected']).optional(),
+});
+
+/**
+ * POST /api/student-requests/[id]/decision body schema
+ * Rejections must say why
+ */
+export const postStudentRequestDecisionBodySchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('approve') }),
+  z.object({
+    action: z.literal('reject'),
+    reason: z
+      .string()
+      .trim()
+      .min(1, { message: 'A reason is required to reject a request' })
+      .max(2000, { message: 'Reason must be 2000 characters or less' }),
+  }),
+]);
+
+/**
+ * A guardian on a student import row, checked like POST /api/guardians.
+ * Email is required because every guardian gets a login.
+ */
+export const studentImportGuardianSchema = z.object({
+  first_name: firstNameSchema,
+  last_name: lastNameSchema,
+  email: emailSchema,
+  phone: phoneSchema,
+  ssn: ssnSchema,
+  address: addressSchema,
+});
+
+/**
+ * POST /api/students/import form fields (besides the file).
+ * mapping maps an import field to the header of the column holding it.
+ */
+export const postStudentImportOptionsSchema = z.object({
+  mode: z.enum(STUDENT_IMPORT_MODES).default('dry_run'),
+  mapping: z.record(z.enum(STUDENT_IMPORT_FIELDS), z.string().max(200)).optional(),
+});
+
+export type PostStudentBody = z.infer<typeof postStudentBodySchema>;
+export type PostStudentRequestBody = z.infer<typeof postStudentRequestBodySchema>;
+export type GetStudentRequestsQueryParams = z.infer<typeof getStudentRequestsQuerySchema>;
+export type PostStudentRequestDecisionBody = z.infer<typeof postStudentRequestDecisionBodySchema>;
+export type StudentImportGuardian = z.infer<typeof studentImportGuardianSchema>;
+export type PostStudentImportOptions = z.infer<typeof postStudentImportOptionsSchema>;
+export type PostStudentRelativeBody = z.infer<typeof postStudentRelativeBodySchema>;
+export type PutStudentRelativeBody = z.infer<typeof putStudentRelativeBodySchema>;